@@ -9,6 +9,9 @@ module.exports = {
         // Override tsconfig for tests — allow test globals
         strict: false,
         noImplicitAny: false,
+        // Sources narrow result unions such as { ok: true } | { ok: false; code } on
+        // their flag, which only type-checks with null checks on (as tsconfig has it)
+        strictNullChecks: true,
         esModuleInterop: true,
         module: 'commonjs',
         target: 'ES2022',
@@ -30,6 +30,15 @@ const FEE_SATS = 2;
 const FEE_IDENTITY_KEY = '0307102dc99293edba7f75bf881712652879c151b454ebf5d8e7a0ba07c4d17364';
 const FEE_DERIVATION_SUFFIX = 'fee';
 
+// Receipt signing (must match clawsats-wallet/src/protocol/receipt.ts)
+const RECEIPT_PROTOCOL_ID = [0, 'clawsats receipt'];
+const RECEIPT_KEY_ID = 'receipt-v1';
+const RECEIPT_ACK_KEY_ID = 'receipt-ack-v1';
+
+// Directory registrations (must match clawsats-wallet/src/protocol/directory.ts)
+const DIRECTORY_PROTOCOL_ID = [0, 'clawsats directory'];
+const DIRECTORY_KEY_ID = 'directory-v1';
+
 // ── Wallet (lazy-initialized) ──
 
 let wallet = null;
@@ -147,6 +156,76 @@ async function deriveLockingScript(recipientIdentityKey, derivationPrefix, deriv
   return p2pkhFromPubkey(result.publicKey);
 }
 
+// Protocol fee output: BRC-29 from FEE_IDENTITY_KEY with the 'anyone' counterparty
+// (private key 1), so the provider can derive and verify the exact treasury script.
+function deriveFeeLockingScript(derivationPrefix) {
+  const { PrivateKey, PublicKey } = require('@bsv/sdk');
+  const invoiceNumber = `2-3241645161d8-${derivationPrefix} ${FEE_DERIVATION_SUFFIX}`;
+  const child = PublicKey.fromString(FEE_IDENTITY_KEY).deriveChild(new PrivateKey(1), invoiceNumber);
+  return p2pkhFromPubkey(child.toString());
+}
+
+// ── Receipt countersigning ──
+
+// Same key-sorted JSON as clawsats-wallet/src/utils canonicalJson
+function canonicalJson(obj) {
+  return JSON.stringify(obj, (_key, value) => {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return Object.keys(value).sort().reduce((sorted, k) => {
+        sorted[k] = value[k];
+        return sorted;
+      }, {});
+    }
+    return value;
+  });
+}
+
+// Check the provider's receipt against the result we got, countersign it and
+// hand it back via POST /receipts/ack. Returns a short status line.
+async function acknowledgeReceipt(endpoint, response, providerIdentityKey) {
+  const receipt = response && response.receipt;
+  if (!receipt || !receipt.receiptId) return 'no receipt returned';
+  if (providerIdentityKey && receipt.provider !== providerIdentityKey) return 'receipt names a different provider';
+  if (receipt.requester !== identityKey) return 'receipt names a different requester';
+  const resultHash = crypto.createHash('sha256').update(canonicalJson(response.result)).digest('hex');
+  if (receipt.resultHash !== resultHash) return 'result does not match the receipt result hash';
+
+  const { ProtoWallet } = require('@bsv/sdk');
+  const { signature, requesterSignature, ...signed } = receipt;
+  let valid = false;
+  try {
+    const check = await new ProtoWallet('anyone').verifySignature({
+      data: Array.from(Buffer.from(canonicalJson(signed), 'utf8')),
+      signature: Array.from(Buffer.from(signature || '', 'base64')),
+      protocolID: RECEIPT_PROTOCOL_ID,
+      keyID: RECEIPT_KEY_ID,
+      counterparty: receipt.provider
+    });
+    valid = check && check.valid === true;
+  } catch {}
+  if (!valid) return 'provider signature does not verify';
+
+  const ack = await wallet.createSignature({
+    data: Array.from(Buffer.from(canonicalJson({ ...signed, signature }), 'utf8')),
+    protocolID: RECEIPT_PROTOCOL_ID,
+    keyID: RECEIPT_ACK_KEY_ID,
+    counterparty: 'anyone'
+  });
+  const countersigned = { ...signed, signature, requesterSignature: Buffer.from(ack.signature).toString('base64') };
+  response.receipt = countersigned;
+  try {
+    const ackRes = await fetch(`${endpoint}/receipts/ack`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-bsv-identity-key': identityKey },
+      body: JSON.stringify({ receipt: countersigned }),
+      signal: AbortSignal.timeout(10000)
+    });
+    return ackRes.ok ? 'verified, countersigned and acknowledged' : `verified and countersigned (ack rejected: ${ackRes.status})`;
+  } catch {
+    return 'verified and countersigned (ack not delivered)';
+  }
+}
+
 // ── Commands ──
 
 async function cmdDiscover() {
@@ -319,9 +398,7 @@ async function cmdCall(endpoint, capability, paramsJson) {
   const providerScript = await deriveLockingScript(
     providerIdentityKey || identityKey, derivationPrefix, derivationSuffix
   );
-  const feeScript = await deriveLockingScript(
-    FEE_IDENTITY_KEY, derivationPrefix, FEE_DERIVATION_SUFFIX
-  );
+  const feeScript = deriveFeeLockingScript(derivationPrefix);
 
   const actionResult = await wallet.createAction({
     description: `ClawSats: ${capability} (${satoshisRequired} + ${feeSats} sat fee)`,
@@ -338,7 +415,7 @@ async function cmdCall(endpoint, capability, paramsJson) {
       }
     ],
     labels: ['clawsats-payment'],
-    options: { signAndProcess: true }
+    options: { signAndProcess: true, randomizeOutputs: false }
   });
 
   // Extract raw tx as base64
@@ -382,6 +459,7 @@ async function cmdCall(endpoint, capability, paramsJson) {
 
   const result = await resultRes.json();
   console.log(`  Paid ${satoshisRequired + feeSats} sats`);
+  console.log(`  Receipt: ${await acknowledgeReceipt(endpoint, result, providerIdentityKey)}`);
   console.log('\nResult:');
   console.log(JSON.stringify(result, null, 2));
   return result;
@@ -417,14 +495,25 @@ async function cmdRegister(endpoint) {
 
   await ensureWallet();
 
+  // Signed by our identity key so the directory knows the listing is ours
+  const registration = {
+    type: 'directory-registration',
+    identityKey,
+    endpoint,
+    capabilities: [],
+    timestamp: new Date().toISOString()
+  };
+  const { signature } = await wallet.createSignature({
+    data: Array.from(Buffer.from(canonicalJson(registration), 'utf8')),
+    protocolID: DIRECTORY_PROTOCOL_ID,
+    keyID: DIRECTORY_KEY_ID,
+    counterparty: 'anyone'
+  });
+
   const res = await fetch(`${DIRECTORY_URL}/register`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      identityKey,
-      endpoint,
-      capabilities: []
-    }),
+    body: JSON.stringify({ ...registration, signature: Buffer.from(signature).toString('base64') }),
     signal: AbortSignal.timeout(10000)
   });
 
@@ -437,7 +526,7 @@ async function cmdRegister(endpoint) {
     console.log('Expected: POST /api/directory/register');
     console.log('Deploy the latest ClawSats.com faucet-server.js.');
   } else {
-    console.log(`Registration failed: ${data.error || res.status}`);
+    console.log(`Registration failed: ${data.description || data.error || res.status}`);
   }
 }
 
@@ -28,7 +28,7 @@
  */
 
 import { createHash } from 'crypto';
-import { BSV_MENTOR_PRICE_SATS } from '../protocol/constants';
+import { BSV_MENTOR_PRICE_SATS, BSV_MENTOR_PRICE_TIERS, BSV_MENTOR_CHARS_PER_TOKEN } from '../protocol/constants';
 import { CapabilityHandler } from '../types';
 import { log } from '../utils';
 
@@ -49,6 +49,7 @@ export interface MentorQuestion {
   topic?: string;       // Optional: 'brc', 'sdk', 'wallet', 'overlay', 'payments', 'general'
   depth?: 'brief' | 'detailed' | 'comprehensive';
   maxSources?: number;
+  maxTokens?: number;   // Optional: answer length cap — metered pricing quotes on this
 }
 
 export interface MentorAnswer {
@@ -200,6 +201,16 @@ function getEmbeddedKnowledge(topic: string): string {
   return knowledge['general'];
 }
 
+/** Token budget for one answer: the caller's maxTokens, capped by the top price tier and maxResponseLength. */
+function mentorTokenCap(params: MentorQuestion, maxResponseLength: number): number {
+  const ceiling = Math.min(
+    BSV_MENTOR_PRICE_TIERS[BSV_MENTOR_PRICE_TIERS.length - 1].upTo,
+    Math.ceil(maxResponseLength / BSV_MENTOR_CHARS_PER_TOKEN)
+  );
+  const requested = Number(params?.maxTokens);
+  return Number.isFinite(requested) && requested > 0 ? Math.min(Math.ceil(requested), ceiling) : ceiling;
+}
+
 /**
  * Create the BSV Mentor capability handler.
  * This is registered as a paid capability on the Claw's server.
@@ -213,6 +224,11 @@ export function createBsvMentorCapability(config: BsvMentorConfig): CapabilityHa
     description: 'BSV protocol expert — ask any question about BRC specs, wallet APIs, key derivation, payments, overlays. Returns authoritative answers with citations from 106 BRC specs + 691 training docs. 25 sats.',
     pricePerCall: BSV_MENTOR_PRICE_SATS,
     tags: ['knowledge', 'bsv', 'mentoring', 'education', 'premium', 'unique'],
+    parallelSafe: true,
+    // Tiered by answer length: quoted on maxTokens, charged on the answer actually returned
+    pricing: { model: 'tiered', unit: 'token', tiers: BSV_MENTOR_PRICE_TIERS },
+    quoteUnits: (params: MentorQuestion) => mentorTokenCap(params, maxResponseLength),
+    measureUnits: (result: MentorAnswer) => Math.ceil((result?.answer?.length || 0) / BSV_MENTOR_CHARS_PER_TOKEN),
     handler: async (params: MentorQuestion): Promise<MentorAnswer> => {
       if (!params.question || typeof params.question !== 'string') {
         throw new Error('Missing required param: question (string)');
@@ -224,6 +240,7 @@ export function createBsvMentorCapability(config: BsvMentorConfig): CapabilityHa
       const topic = params.topic || 'general';
       const depth = params.depth || 'detailed';
       const maxSources = Math.min(params.maxSources || 5, 10);
+      const maxChars = mentorTokenCap(params, maxResponseLength) * BSV_MENTOR_CHARS_PER_TOKEN;
 
       log(TAG, `Question: "${params.question.substring(0, 80)}..." topic=${topic} depth=${depth}`);
 
@@ -290,6 +307,8 @@ export function createBsvMentorCapability(config: BsvMentorConfig): CapabilityHa
         });
       }
 
+      if (answer.length > maxChars) answer = answer.substring(0, maxChars);
+
       // Sign the answer for verifiability
       let signature: string | undefined;
       if (config.wallet) {
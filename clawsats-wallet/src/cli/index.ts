@@ -3,58 +3,38 @@
 import { Command } from 'commander';
 import { WalletManager } from '../core/WalletManager';
 import { JsonRpcServer } from '../server/JsonRpcServer';
+import { DirectoryServer } from '../server/DirectoryServer';
 import { ClawBrain, BrainPolicy } from '../core/ClawBrain';
 import { BrainJob, BrainJobStore, BrainJobStatus, BrainJobStrategy } from '../core/BrainJobs';
 import { ClawBrainAgent, ThinkOptions } from '../core/ClawBrainAgent';
 import { SharingProtocol } from '../protocol';
-import { BEACON_MAX_BYTES } from '../protocol/constants';
+import { signDirectoryRegistration } from '../protocol/directory';
+import { buildBeaconScript, serializeBeacon, signBeacon } from '../protocol/beacon';
+import {
+  BAN_LIST_REFRESH_INTERVAL_MS,
+  DIRECTORY_DEFAULT_PORT,
+  DIRECTORY_ENTRY_TTL_MS,
+  DIRECTORY_LIVENESS_INTERVAL_MS,
+  IDENTITY_KEY_RE
+} from '../protocol/constants';
 import { PaymentHelper } from '../core/PaymentHelper';
-import { OnChainMemory } from '../memory/OnChainMemory';
-import { CreateWalletOptions, ServeOptions } from '../types';
+import { OnChainMemory, MemoryRecord } from '../memory/OnChainMemory';
+import { AccountingLedger, AccountingFilter, PnlGroupBy, networkFeeFromAction } from '../core/AccountingLedger';
+import { BudgetManager, estimateTxFeeSats } from '../core/BudgetManager';
+import { ReceiptStore } from '../core/ReceiptStore';
+import { ReputationEngine } from '../core/ReputationEngine';
+import { FraudReportRecord, FraudReportStatus, FraudReportStore } from '../core/FraudReportStore';
+import { GossipCandidate, GossipDiscovery } from '../core/GossipDiscovery';
+import { EndpointVerifier } from '../core/EndpointVerifier';
+import { PeerAccessAction, PeerAccessCheck, PeerAccessEntry, PeerAccessList } from '../core/PeerAccessList';
+import { BeaconIndexer, BeaconRecord, BeaconTxSource, FileTxSource, WhatsOnChainTxSource } from '../core/BeaconIndexer';
+import { CreateWalletOptions, ServeOptions, PaidCallFailurePolicy } from '../types';
 import { existsSync, writeFileSync, readFileSync } from 'fs';
 import { join, isAbsolute } from 'path';
 
 const program = new Command();
 const walletManager = new WalletManager();
 
-/**
- * Build a proper OP_RETURN script with correct pushdata encoding.
- * Format: OP_FALSE OP_RETURN <push tag> <push payload>
- */
-function buildOpReturnScript(tag: string, payload: string): string {
-  const tagBuf = Buffer.from(tag, 'utf8');
-  const payloadBuf = Buffer.from(payload, 'utf8');
-
-  // Enforce BEACON_MAX_BYTES to stay within safe OP_RETURN limits
-  const totalBytes = tagBuf.length + payloadBuf.length;
-  if (totalBytes > BEACON_MAX_BYTES) {
-    throw new Error(`Beacon payload too large: ${totalBytes} bytes (max ${BEACON_MAX_BYTES}). Shorten capabilities list or endpoint URL.`);
-  }
-
-  // OP_FALSE (0x00) + OP_RETURN (0x6a) + pushdata(tag) + pushdata(payload)
-  let script = '006a';
-  script += pushdata(tagBuf);
-  script += pushdata(payloadBuf);
-  return script;
-}
-
-function pushdata(buf: Buffer): string {
-  const len = buf.length;
-  if (len <= 75) {
-    // Direct push: single byte length prefix
-    return len.toString(16).padStart(2, '0') + buf.toString('hex');
-  } else if (len <= 255) {
-    // OP_PUSHDATA1 (0x4c) + 1-byte length
-    return '4c' + len.toString(16).padStart(2, '0') + buf.toString('hex');
-  } else if (len <= 65535) {
-    // OP_PUSHDATA2 (0x4d) + 2-byte length (little-endian)
-    const lo = (len & 0xff).toString(16).padStart(2, '0');
-    const hi = ((len >> 8) & 0xff).toString(16).padStart(2, '0');
-    return '4d' + lo + hi + buf.toString('hex');
-  }
-  throw new Error(`Pushdata too large: ${len} bytes`);
-}
-
 function formatShort(value: string, keep = 24): string {
   if (!value) return '(none)';
   return value.length > keep ? `${value.substring(0, keep)}...` : value;
@@ -99,10 +79,29 @@ function setByPath(target: Record<string, any>, path: string, value: any): void
   ref[keys[keys.length - 1]] = value;
 }
 
+function parseFailurePolicy(raw: unknown): PaidCallFailurePolicy | undefined {
+  if (raw === undefined || raw === null || raw === '') return undefined;
+  const value = String(raw).trim().toLowerCase();
+  if (value !== 'credit' && value !== 'refund') {
+    throw new Error(`Invalid --failure-policy "${raw}". Use credit or refund.`);
+  }
+  return value;
+}
+
+function parseReplayWindowDays(raw: unknown): number | undefined {
+  if (raw === undefined || raw === null || raw === '') return undefined;
+  const days = Number(raw);
+  if (!Number.isFinite(days) || days <= 0) {
+    throw new Error(`Invalid --replay-window-days "${raw}". Use a positive number of days.`);
+  }
+  return days * 24 * 60 * 60 * 1000;
+}
+
 interface KnownPeerCandidate {
   identityKey: string;
   endpoint: string;
   capabilities: string[];
+  verified?: boolean;          // proved it controls `endpoint` (GET /endpoint-proof)
 }
 
 function normalizePublicEndpoint(raw: unknown): string | null {
@@ -133,25 +132,74 @@ function loadKnownPeers(dataDir: string): KnownPeerCandidate[] {
     const capabilities = Array.isArray(row?.capabilities)
       ? row.capabilities.map((c: unknown) => String(c)).filter(Boolean)
       : [];
-    peers.push({ identityKey, endpoint, capabilities });
+    peers.push({ identityKey, endpoint, capabilities, verified: row?.verified === true });
   }
   return peers;
 }
 
+/** Identity key of the known peer at `endpoint`, if there is one. */
+function knownPeerAt(peers: Map<string, { endpoint: string }>, endpoint: string): string | undefined {
+  for (const [identityKey, peer] of peers) {
+    if (peer.endpoint === endpoint) return identityKey;
+  }
+  return undefined;
+}
+
+/** Record a discovery probe against a peer's uptime. Never throws — a sweep must go on. */
+function recordProbe(reputation: ReputationEngine, identityKey: string | undefined, up: boolean, latencyMs?: number): void {
+  if (!identityKey) return;
+  try {
+    reputation.recordProbe(identityKey, up, latencyMs);
+  } catch {
+    // reputation is best-effort
+  }
+}
+
+/** New endpoints our best known peers vouch for in GET /peers, to probe this sweep. Never throws. */
+async function gossipEndpoints(
+  selfIdentityKey: string,
+  known: Map<string, { endpoint: string }>,
+  reputation: ReputationEngine,
+  toProbe: Set<string>
+): Promise<GossipCandidate[]> {
+  try {
+    const sources = Array.from(known.entries())
+      .map(([identityKey, peer]) => ({ identityKey, endpoint: peer.endpoint, score: reputation.score(identityKey) }))
+      .sort((a, b) => b.score - a.score);
+    const { candidates } = await new GossipDiscovery(selfIdentityKey).collect(
+      sources,
+      (identityKey, endpoint) => known.has(identityKey) || toProbe.has(endpoint)
+    );
+    return candidates;
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * The preferred endpoint if it offers `capability`, else the best-reputation
+ * peer that does. Blocked peers, and peers that never proved they control
+ * their endpoint, are skipped.
+ */
 function pickPeerForCapability(
   capability: string,
   peers: KnownPeerCandidate[],
-  preferredEndpoint?: string
+  reputation: ReputationEngine,
+  preferredEndpoint?: string,
+  access: PeerAccessCheck = () => ({ allowed: true })
 ): KnownPeerCandidate | null {
+  const eligible = peers.filter(p => p.verified === true && p.capabilities.includes(capability)
+    && access({ identityKey: p.identityKey, endpoint: p.endpoint }).allowed);
   const preferred = normalizePublicEndpoint(preferredEndpoint || '');
   if (preferred) {
-    const match = peers.find(p => p.endpoint === preferred && p.capabilities.includes(capability));
+    const match = eligible.find(p => p.endpoint === preferred);
     if (match) return match;
   }
-  const matching = peers.filter(p => p.capabilities.includes(capability));
+  const matching = eligible
+    .map(peer => ({ peer, score: reputation.score(peer.identityKey) }));
   if (matching.length === 0) return null;
-  matching.sort((a, b) => a.endpoint.localeCompare(b.endpoint));
-  return matching[0];
+  matching.sort((a, b) => b.score - a.score || a.peer.endpoint.localeCompare(b.peer.endpoint));
+  return matching[0].peer;
 }
 
 function safeParseJsonObject(raw: string | undefined): Record<string, unknown> {
@@ -363,6 +411,20 @@ async function executeBrainJobs(options: ExecuteBrainJobsOptions): Promise<{
   const localEndpoint = normalizeLocalEndpoint(options.localEndpoint);
   const onChainMemory = new OnChainMemory(dataDir, identityKey);
   onChainMemory.loadIndex();
+  const budgets = new BudgetManager(dataDir);
+  onChainMemory.setBudgetManager(budgets);
+  const accounting = new AccountingLedger(dataDir);
+  const receipts = new ReceiptStore(dataDir);
+  const reputation = new ReputationEngine(dataDir);
+  const peerAccess = new PeerAccessList(dataDir);
+  const fraudReports = new FraudReportStore(dataDir);
+  const bookMemoryWrite = (record: MemoryRecord) => accounting.record({
+    category: 'memory_write',
+    satoshis: 0,
+    networkFeeSats: record.networkFeeSats,
+    txid: record.txid,
+    memo: record.key
+  });
 
   const pending = jobs.nextPending(maxJobs);
   if (pending.length === 0) {
@@ -409,6 +471,7 @@ async function executeBrainJobs(options: ExecuteBrainJobsOptions): Promise<{
               endpoint: job.selectedEndpoint
             }
           });
+          bookMemoryWrite(record);
           job.status = 'completed';
           job.memoryStatus = 'written';
           job.memoryTxid = record.txid;
@@ -463,7 +526,7 @@ async function executeBrainJobs(options: ExecuteBrainJobsOptions): Promise<{
       const maxSats = Math.max(1, Math.floor(job.maxSats || policy.decisions.autoHireMaxSats));
       const normalizedParams = normalizeCapabilityCallParams(job.capability, job.params || {});
       job.params = normalizedParams;
-      const remoteCandidate = pickPeerForCapability(job.capability, peers, job.selectedEndpoint);
+      const remoteCandidate = pickPeerForCapability(job.capability, peers, reputation, job.selectedEndpoint, peerAccess.checker(fraudReports.blocked()));
       const autoHireAllowed = isAutoHireCapabilityAllowed(policy, job.capability);
       let executionMode: 'local' | 'hire';
       let selectedEndpoint = '';
@@ -505,18 +568,46 @@ async function executeBrainJobs(options: ExecuteBrainJobsOptions): Promise<{
         callEndpoint,
         normalizedParams,
         identityKey,
-        { maxTotalSats: maxSats, timeoutMs: 30000 }
+        {
+          maxTotalSats: maxSats,
+          timeoutMs: 30000,
+          budget: budgets,
+          receipts,
+          // Calls to ourselves say nothing about a peer
+          reputation: executionMode === 'hire' ? reputation : undefined,
+          jobId: job.id,
+          onPaymentSent: (payment) => {
+            accounting.record({
+              category: 'hire',
+              satoshis: payment.satoshis,
+              networkFeeSats: payment.networkFeeSats,
+              capability: job.capability,
+              peer: payment.providerIdentityKey || undefined,
+              txid: payment.txid,
+              reference: job.id
+            });
+            accounting.record({
+              category: 'protocol_fee',
+              satoshis: payment.feeSats,
+              capability: job.capability,
+              peer: payment.providerIdentityKey || undefined,
+              txid: payment.txid,
+              reference: job.id
+            });
+          }
+        }
       );
 
       job.selectedEndpoint = endpointBase;
       job.result = result;
+      job.receiptId = result?.receipt?.receiptId;
       job.error = undefined;
       job.status = 'completed';
       job.audit.push({
         ts: new Date().toISOString(),
         action: 'job-completed',
         reason: completionReason,
-        details: { endpoint: endpointBase, capability: job.capability, strategy: executionMode }
+        details: { endpoint: endpointBase, capability: job.capability, strategy: executionMode, receiptId: job.receiptId }
       });
 
       brain.logEvent({
@@ -569,6 +660,7 @@ async function executeBrainJobs(options: ExecuteBrainJobsOptions): Promise<{
               endpoint: job.selectedEndpoint
             }
           });
+          bookMemoryWrite(record);
           job.memoryStatus = 'written';
           job.memoryTxid = record.txid;
           job.audit.push({
@@ -669,6 +761,8 @@ program
   .option('--indelible-url <url>', 'Indelible base URL (default: env CLAWSATS_INDELIBLE_URL or https://indelible.one)')
   .option('--indelible-operator-address <address>', 'Operator address required by Indelible API')
   .option('--indelible-default-agent-address <address>', 'Default agent address when capability params omit agentAddress')
+  .option('--failure-policy <policy>', 'Remedy when a paid handler fails: credit | refund (default: env CLAWSATS_FAILURE_POLICY or credit)')
+  .option('--replay-window-days <days>', 'Days to remember spent payments for replay protection (default: env CLAWSATS_REPLAY_WINDOW_DAYS or 30)')
   .option('--no-cors', 'Disable CORS', false)
   .option('--enable-discovery', 'Enable discovery endpoint', true)
   .option('--config <path>', 'Path to wallet config file', 'config/wallet-config.json')
@@ -695,7 +789,9 @@ program
         enableIndelible: options.enableIndelible === true ? true : undefined,
         indelibleUrl: options.indelibleUrl,
         indelibleOperatorAddress: options.indelibleOperatorAddress,
-        indelibleDefaultAgentAddress: options.indelibleDefaultAgentAddress
+        indelibleDefaultAgentAddress: options.indelibleDefaultAgentAddress,
+        failurePolicy: parseFailurePolicy(options.failurePolicy),
+        replayWindowMs: parseReplayWindowDays(options.replayWindowDays)
       };
 
       const server = new JsonRpcServer(walletManager, serveOptions);
@@ -722,6 +818,52 @@ program
     }
   });
 
+// Self-hosted directory command
+program
+  .command('directory')
+  .description('Run a ClawSats directory that Claws can register with and bootstrap from')
+  .option('-p, --port <port>', 'Port to listen on', String(DIRECTORY_DEFAULT_PORT))
+  .option('-H, --host <host>', 'Host to bind to', 'localhost')
+  .option('--data-dir <dir>', 'Where directory.json is kept (default: ./data)')
+  .option('--ttl-hours <hours>', 'Drop Claws not seen alive for this long', String(DIRECTORY_ENTRY_TTL_MS / 3_600_000))
+  .option('--check-interval-seconds <seconds>', 'How often listed endpoints are re-challenged (0 disables)', String(DIRECTORY_LIVENESS_INTERVAL_MS / 1000))
+  .option('--no-liveness', 'List registrations without challenging their endpoints')
+  .option('--allow-private-endpoints', 'Accept localhost and private-network endpoints (test networks)')
+  .option('--no-cors', 'Disable CORS')
+  .action(async (options) => {
+    try {
+      const ttlHours = Number(options.ttlHours);
+      const intervalSeconds = Number(options.checkIntervalSeconds);
+      if (!Number.isFinite(ttlHours) || ttlHours <= 0) throw new Error('--ttl-hours must be a positive number');
+      if (!Number.isFinite(intervalSeconds) || intervalSeconds < 0) throw new Error('--check-interval-seconds must be 0 or more');
+
+      const server = new DirectoryServer({
+        port: parseInt(options.port, 10),
+        host: options.host,
+        dataDir: options.dataDir && isAbsolute(options.dataDir) ? options.dataDir : join(process.cwd(), options.dataDir || 'data'),
+        cors: options.cors,
+        entryTtlMs: ttlHours * 3_600_000,
+        livenessIntervalMs: options.liveness ? intervalSeconds * 1000 : 0,
+        checkLiveness: options.liveness,
+        allowPrivateEndpoints: options.allowPrivateEndpoints === true
+      });
+      await server.start();
+      console.log(`\nPoint Claws at it with:`);
+      console.log(`  CLAWSATS_DIRECTORY_URL=http://${options.host}:${options.port}/api/directory`);
+
+      const shutdown = async () => {
+        console.log('\nShutting down...');
+        await server.stop();
+        process.exit(0);
+      };
+      process.on('SIGINT', shutdown);
+      process.on('SIGTERM', shutdown);
+    } catch (error) {
+      console.error('❌ Failed to start directory:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
 // Share wallet command
 program
   .command('share')
@@ -787,7 +929,7 @@ program
           throw new Error(`Recipient discovery failed: HTTP ${discRes.status}`);
         }
         const info: any = await discRes.json();
-        if (!info?.identityKey || !/^(02|03)[0-9a-fA-F]{64}$/.test(info.identityKey)) {
+        if (!info?.identityKey || !IDENTITY_KEY_RE.test(info.identityKey)) {
           throw new Error('Recipient discovery response is missing a valid identityKey');
         }
         recipientIdentityKey = info.identityKey;
@@ -944,23 +1086,24 @@ program
       const wallet = walletManager.getWallet();
       const endpoint = options.endpoint || config.endpoints.jsonrpc;
 
-      // Build OP_RETURN beacon with proper pushdata encoding
-      const beaconPayload = JSON.stringify({
-        protocol: 'CLAWSATS_V1',
-        identityKey: config.identityKey,
-        endpoint,
-        chain: config.chain,
-        capabilities: config.capabilities,
-        timestamp: new Date().toISOString()
+      // Signed CLAWSATS_V1 beacon in an OP_RETURN output
+      const beacon = await signBeacon(wallet, {
+        id: config.identityKey,
+        ep: endpoint,
+        ch: config.chain,
+        cap: config.capabilities,
+        ts: new Date().toISOString()
       });
-
-      const opReturnScript = buildOpReturnScript('CLAWSATS_V1', beaconPayload);
+      const beaconPayload = serializeBeacon(beacon, true);
+      const opReturnScript = buildBeaconScript(beacon);
 
       console.log('📡 Publishing on-chain beacon...');
       console.log(`  Tag:      CLAWSATS_V1`);
       console.log(`  Endpoint: ${endpoint}`);
       console.log(`  Chain:    ${config.chain}`);
 
+      const budgets = new BudgetManager(join(process.cwd(), 'data'));
+      const reservation = budgets.reserve('broadcast', estimateTxFeeSats(opReturnScript.length / 2), 'beacon');
       try {
         const result = await wallet.createAction({
           description: 'ClawSats beacon announcement',
@@ -973,10 +1116,20 @@ program
           options: { signAndProcess: true, acceptDelayedBroadcast: true }
         });
 
+        const networkFeeSats = networkFeeFromAction(result);
+        budgets.settle(reservation.id, networkFeeSats);
+        new AccountingLedger(join(process.cwd(), 'data')).record({
+          category: 'beacon',
+          satoshis: 0,
+          networkFeeSats,
+          txid: result.txid || undefined,
+          memo: endpoint
+        });
         console.log(`✅ Beacon published!`);
         console.log(`  TXID: ${result.txid}`);
         console.log(`  Any Claw scanning for CLAWSATS_V1 OP_RETURNs will find you.`);
       } catch (err) {
+        budgets.release(reservation.id);
         const msg = err instanceof Error ? err.message : String(err);
         console.error(`⚠️  Beacon tx failed: ${msg}`);
         console.log('  This may require funded UTXOs. Fund the wallet first.');
@@ -1004,6 +1157,8 @@ program
   .option('--indelible-url <url>', 'Indelible base URL (default: env CLAWSATS_INDELIBLE_URL or https://indelible.one)')
   .option('--indelible-operator-address <address>', 'Operator address required by Indelible API')
   .option('--indelible-default-agent-address <address>', 'Default agent address when capability params omit agentAddress')
+  .option('--failure-policy <policy>', 'Remedy when a paid handler fails: credit | refund (default: env CLAWSATS_FAILURE_POLICY or credit)')
+  .option('--replay-window-days <days>', 'Days to remember spent payments for replay protection (default: env CLAWSATS_REPLAY_WINDOW_DAYS or 30)')
   .option('--no-beacon', 'Skip on-chain beacon publication')
   .option('--no-watch', 'Disable built-in peer discovery loop')
   .option('--no-brain', 'Disable built-in brain job execution loop')
@@ -1045,7 +1200,9 @@ program
         enableIndelible: options.enableIndelible === true ? true : undefined,
         indelibleUrl: options.indelibleUrl,
         indelibleOperatorAddress: options.indelibleOperatorAddress,
-        indelibleDefaultAgentAddress: options.indelibleDefaultAgentAddress
+        indelibleDefaultAgentAddress: options.indelibleDefaultAgentAddress,
+        failurePolicy: parseFailurePolicy(options.failurePolicy),
+        replayWindowMs: parseReplayWindowDays(options.replayWindowDays)
       });
       await server.start();
 
@@ -1054,17 +1211,33 @@ program
         console.log('\n📡 Publishing on-chain beacon...');
         try {
           const wallet = walletManager.getWallet();
-          const beaconPayload = JSON.stringify({
-            v: '1.0', id: config.identityKey, ep: publicEndpoint,
+          const opReturnScript = buildBeaconScript(await signBeacon(wallet, {
+            id: config.identityKey, ep: publicEndpoint,
             ch: config.chain, cap: server.getCapabilityRegistry().listNames(),
-            ts: new Date().toISOString(), sig: ''
-          });
-          const opReturnScript = buildOpReturnScript('CLAWSATS_V1', beaconPayload);
-          const result = await wallet.createAction({
-            description: 'ClawSats beacon',
-            outputs: [{ satoshis: 0, lockingScript: opReturnScript, outputDescription: 'CLAWSATS_V1 beacon' }],
-            labels: ['clawsats-beacon'],
-            options: { signAndProcess: true, acceptDelayedBroadcast: true }
+            ts: new Date().toISOString()
+          }));
+          const budgets = new BudgetManager(join(process.cwd(), 'data'));
+          const reservation = budgets.reserve('broadcast', estimateTxFeeSats(opReturnScript.length / 2), 'beacon');
+          let result: any;
+          try {
+            result = await wallet.createAction({
+              description: 'ClawSats beacon',
+              outputs: [{ satoshis: 0, lockingScript: opReturnScript, outputDescription: 'CLAWSATS_V1 beacon' }],
+              labels: ['clawsats-beacon'],
+              options: { signAndProcess: true, acceptDelayedBroadcast: true }
+            });
+          } catch (beaconErr) {
+            budgets.release(reservation.id);
+            throw beaconErr;
+          }
+          const networkFeeSats = networkFeeFromAction(result);
+          budgets.settle(reservation.id, networkFeeSats);
+          new AccountingLedger(join(process.cwd(), 'data')).record({
+            category: 'beacon',
+            satoshis: 0,
+            networkFeeSats,
+            txid: result.txid || undefined,
+            memo: publicEndpoint
           });
           console.log(`  Beacon TXID: ${result.txid}`);
         } catch (err) {
@@ -1078,7 +1251,10 @@ program
       const earnBrain = new ClawBrain(dataDir, options.policy);
       const earnPolicy = earnBrain.loadPolicy();
       const earnJobStore = new BrainJobStore(dataDir);
-      const earnKnownPeers = new Map<string, { endpoint: string; capabilities: string[] }>();
+      const earnKnownPeers = new Map<string, { endpoint: string; capabilities: string[]; verified?: boolean }>();
+      const earnEndpointVerifier = new EndpointVerifier();
+      const earnPeerAccess = new PeerAccessList(dataDir);
+      const earnFraudReports = new FraudReportStore(dataDir);
       const watchEnabled = options.watch !== false;
       const brainEnabled = options.brain !== false;
       const watchIntervalSec = Math.max(30, parseInt(options.watchInterval || String(earnPolicy.timers.discoveryIntervalSeconds), 10));
@@ -1090,6 +1266,7 @@ program
       const dirRegisterEnabled = earnPolicy.timers.directoryRegisterEnabled;
       const earnSeeds = new Set<string>();
       const watchPeersPath = join(dataDir, 'watch-peers.json');
+      const earnReputation = new ReputationEngine(dataDir);
       let sweepCount = 0;
 
       // Load persisted peers
@@ -1102,13 +1279,14 @@ program
         if (!ep) continue;
         earnKnownPeers.set(row.identityKey, {
           endpoint: ep,
-          capabilities: Array.isArray(row.capabilities) ? row.capabilities : []
+          capabilities: Array.isArray(row.capabilities) ? row.capabilities : [],
+          verified: row.verified === true
         });
       }
 
       function persistEarnPeers() {
         const peers = Array.from(earnKnownPeers.entries()).map(([identityKey, peer]) => ({
-          identityKey, endpoint: peer.endpoint, capabilities: peer.capabilities,
+          identityKey, endpoint: peer.endpoint, capabilities: peer.capabilities, verified: peer.verified === true,
           lastSeenAt: new Date().toISOString()
         }));
         writeFileSync(watchPeersPath, JSON.stringify({ peers }, null, 2), 'utf8');
@@ -1145,10 +1323,18 @@ program
         const caps = server.getCapabilityRegistry().listNames();
         const regUrl = directoryUrl.replace(/\/$/, '') + '/register';
         try {
+          const registration = await signDirectoryRegistration(walletManager.getWallet(), {
+            type: 'directory-registration',
+            identityKey: config.identityKey,
+            endpoint: ep,
+            capabilities: caps,
+            chain: config.chain,
+            timestamp: new Date().toISOString()
+          });
           await fetch(regUrl, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ identityKey: config.identityKey, endpoint: ep, capabilities: caps }),
+            body: JSON.stringify(registration),
             signal: AbortSignal.timeout(8000)
           });
         } catch { /* silent */ }
@@ -1168,6 +1354,11 @@ program
           const ep = normalizePublicEndpoint(peer.endpoint);
           if (ep) toProbe.add(ep);
         }
+        // Endpoints our best peers vouch for are probed like any other: /discovery says who is there
+        for (const candidate of await gossipEndpoints(config.identityKey, earnKnownPeers, earnReputation, toProbe)) {
+          const ep = normalizePublicEndpoint(candidate.endpoint);
+          if (ep) toProbe.add(ep);
+        }
 
         if (toProbe.size === 0) {
           await refreshDirSeeds(true);
@@ -1176,19 +1367,35 @@ program
 
         const wallet = walletManager.getWallet();
         const sharing = new SharingProtocol(config, wallet);
+        const access = earnPeerAccess.checker(earnFraudReports.blocked());
 
         for (const endpoint of toProbe) {
+          if (!access({ endpoint }).allowed) continue;
           probed++;
+          const probeStarted = Date.now();
+          let answered = false;
           try {
             const discRes = await fetch(`${endpoint}/discovery`, { signal: AbortSignal.timeout(8000) });
-            if (!discRes.ok) continue;
+            if (!discRes.ok) {
+              recordProbe(earnReputation, knownPeerAt(earnKnownPeers, endpoint), false);
+              continue;
+            }
             const info: any = await discRes.json();
             if (!info.identityKey || info.identityKey === config.identityKey) continue;
+            answered = true;
+            recordProbe(earnReputation, info.identityKey, true, Date.now() - probeStarted);
             const advertisedEp = normalizePublicEndpoint(info?.endpoints?.jsonrpc) || endpoint;
+            if (!access({ identityKey: info.identityKey, endpoint: advertisedEp }).allowed) {
+              earnKnownPeers.delete(info.identityKey);
+              continue;
+            }
             const isNew = !earnKnownPeers.has(info.identityKey);
+            // /discovery only claims the endpoint; the key has to prove it before we hire there
+            const proof = await earnEndpointVerifier.verify(info.identityKey, advertisedEp);
             earnKnownPeers.set(info.identityKey, {
               endpoint: advertisedEp,
-              capabilities: info.paidCapabilities?.map((c: any) => c.name) || []
+              capabilities: info.paidCapabilities?.map((c: any) => c.name) || [],
+              verified: proof.status === 'verified'
             });
 
             if (isNew) {
@@ -1214,7 +1421,10 @@ program
                 } catch { /* silent */ }
               }
             }
-          } catch { /* peer unreachable */ }
+          } catch {
+            // peer unreachable
+            if (!answered) recordProbe(earnReputation, knownPeerAt(earnKnownPeers, endpoint), false);
+          }
         }
 
         persistEarnPeers();
@@ -1319,7 +1529,12 @@ program
       const brain = new ClawBrain(dataDir, options.policy);
       const policy = brain.loadPolicy();
       const jobStore = new BrainJobStore(dataDir);
-      const knownPeers = new Map<string, { endpoint: string; capabilities: string[] }>();
+      const knownPeers = new Map<string, { endpoint: string; capabilities: string[]; verified?: boolean }>();
+      const endpointVerifier = new EndpointVerifier();
+      const peerAccess = new PeerAccessList(dataDir);
+      const fraudReports = new FraudReportStore(dataDir);
+      let lastBanListRefresh = 0;
+      const reputation = new ReputationEngine(dataDir);
       const intervalSeconds = Math.max(5, parseInt(options.interval || String(policy.timers.discoveryIntervalSeconds), 10));
       const interval = intervalSeconds * 1000;
       const directoryBootstrap = options.directoryBootstrap !== false;
@@ -1426,7 +1641,8 @@ program
         if (!endpoint) continue;
         knownPeers.set(peer.identityKey, {
           endpoint,
-          capabilities: Array.isArray(peer.capabilities) ? peer.capabilities : []
+          capabilities: Array.isArray(peer.capabilities) ? peer.capabilities : [],
+          verified: peer.verified === true
         });
       }
 
@@ -1435,6 +1651,7 @@ program
           identityKey,
           endpoint: peer.endpoint,
           capabilities: peer.capabilities,
+          verified: peer.verified === true,
           lastSeenAt: new Date().toISOString()
         }));
         writeFileSync(watchPeersPath, JSON.stringify({ peers }, null, 2), 'utf8');
@@ -1494,14 +1711,18 @@ program
         }
 
         try {
+          const registration = await signDirectoryRegistration(wallet, {
+            type: 'directory-registration',
+            identityKey: config.identityKey,
+            endpoint,
+            capabilities,
+            chain: config.chain,
+            timestamp: new Date().toISOString()
+          });
           const res = await fetch(directoryRegisterUrl, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              identityKey: config.identityKey,
-              endpoint,
-              capabilities
-            }),
+            body: JSON.stringify(registration),
             signal: AbortSignal.timeout(8000)
           });
           if (!res.ok) {
@@ -1551,6 +1772,21 @@ program
           if (endpoint) toProbe.add(endpoint);
         }
 
+        // Endpoints our best peers vouch for are probed like any other: /discovery says who is there
+        const gossiped = await gossipEndpoints(config.identityKey, knownPeers, reputation, toProbe);
+        for (const candidate of gossiped) {
+          const endpoint = normalizeEndpoint(candidate.endpoint);
+          if (endpoint) toProbe.add(endpoint);
+        }
+        if (gossiped.length > 0) {
+          brain.logEvent({
+            source: 'watch',
+            action: 'gossip-candidates',
+            reason: `Peers vouched for ${gossiped.length} endpoint(s) we did not know`,
+            details: { endpoints: gossiped.map(c => c.endpoint), publishers: Array.from(new Set(gossiped.map(c => c.publisher))) }
+          });
+        }
+
         if (toProbe.size === 0 && directoryBootstrap) {
           await refreshDirectorySeeds(true);
           for (const endpoint of seeds) {
@@ -1558,6 +1794,15 @@ program
           }
         }
 
+        // Subscribed ban lists (the server refreshes its own; watch may run without one)
+        if (peerAccess.subscriptions().length > 0 && Date.now() - lastBanListRefresh >= BAN_LIST_REFRESH_INTERVAL_MS) {
+          lastBanListRefresh = Date.now();
+          for (const result of await peerAccess.refreshSubscriptions()) {
+            if (result.error) console.log(`  Ban list of ${result.publisher.substring(0, 16)}... not refreshed: ${result.error}`);
+          }
+        }
+        const access = peerAccess.checker(fraudReports.blocked());
+
         if (toProbe.size === 0) {
           console.log('  No peers to probe. Add --seeds or keep directory bootstrap enabled.');
           brain.logEvent({
@@ -1569,23 +1814,54 @@ program
         }
 
         for (const endpoint of toProbe) {
+          if (!access({ endpoint }).allowed) continue;
           probed++;
+          const probeStarted = Date.now();
+          let answered = false;
           try {
             // Probe /discovery
             const discRes = await fetch(`${endpoint}/discovery`, {
               signal: AbortSignal.timeout(8000)
             });
-            if (!discRes.ok) continue;
+            if (!discRes.ok) {
+              recordProbe(reputation, knownPeerAt(knownPeers, endpoint), false);
+              continue;
+            }
             const info: any = await discRes.json();
 
             if (!info.identityKey || info.identityKey === config.identityKey) continue;
+            answered = true;
+            recordProbe(reputation, info.identityKey, true, Date.now() - probeStarted);
             const advertisedEndpoint = normalizeEndpoint(info?.endpoints?.jsonrpc) || endpoint;
+            const decision = access({ identityKey: info.identityKey, endpoint: advertisedEndpoint });
+            if (!decision.allowed) {
+              if (knownPeers.delete(info.identityKey)) {
+                brain.logEvent({
+                  source: 'watch',
+                  action: 'peer-blocked',
+                  reason: decision.reason || 'Blocked',
+                  details: { identityKey: info.identityKey, endpoint: advertisedEndpoint, source: decision.source }
+                });
+              }
+              continue;
+            }
 
             const isNew = !knownPeers.has(info.identityKey);
+            // /discovery only claims the endpoint; the key has to prove it before we hire there
+            const proof = await endpointVerifier.verify(info.identityKey, advertisedEndpoint);
             knownPeers.set(info.identityKey, {
               endpoint: advertisedEndpoint,
-              capabilities: info.paidCapabilities?.map((c: any) => c.name) || []
+              capabilities: info.paidCapabilities?.map((c: any) => c.name) || [],
+              verified: proof.status === 'verified'
             });
+            if (proof.status === 'unverified' && isNew) {
+              brain.logEvent({
+                source: 'watch',
+                action: 'peer-endpoint-unverified',
+                reason: `Endpoint ownership not proven: ${proof.problem}`,
+                details: { identityKey: info.identityKey, endpoint: advertisedEndpoint }
+              });
+            }
 
             if (isNew) {
               discovered++;
@@ -1666,7 +1942,8 @@ program
               }
             }
           } catch {
-            // Peer unreachable — skip
+            // Peer unreachable — counts against its uptime
+            if (!answered) recordProbe(reputation, knownPeerAt(knownPeers, endpoint), false);
           }
         }
 
@@ -1750,6 +2027,396 @@ program
     }
   });
 
+// Profit & loss from the local accounting journal (data/accounting.jsonl)
+program
+  .command('pnl')
+  .description('Show earnings vs. spending by capability, peer, day or category; export CSV/JSON')
+  .option('--by <group>', 'Group by: capability | peer | day | category', 'capability')
+  .option('--since <date>', 'Only entries at or after this ISO date')
+  .option('--until <date>', 'Only entries before this ISO date')
+  .option('--format <format>', 'Output format: table | csv | json', 'table')
+  .option('--entries', 'Export raw ledger entries instead of the grouped report', false)
+  .option('--output <path>', 'Write CSV/JSON output to a file instead of stdout')
+  .action((options) => {
+    try {
+      const groupBy = String(options.by) as PnlGroupBy;
+      if (!['capability', 'peer', 'day', 'category'].includes(groupBy)) {
+        throw new Error(`Invalid --by "${options.by}". Use capability, peer, day or category.`);
+      }
+      const format = String(options.format);
+      if (!['table', 'csv', 'json'].includes(format)) {
+        throw new Error(`Invalid --format "${options.format}". Use table, csv or json.`);
+      }
+      for (const [flag, value] of [['--since', options.since], ['--until', options.until]]) {
+        if (value && !Number.isFinite(Date.parse(value))) throw new Error(`Invalid ${flag} "${value}". Use an ISO date.`);
+      }
+      const filter: AccountingFilter = { since: options.since, until: options.until };
+      const accounting = new AccountingLedger(join(process.cwd(), 'data'));
+
+      let content: string;
+      if (options.entries) {
+        const entries = accounting.list(filter);
+        content = format === 'csv' ? AccountingLedger.toCsv(entries) : JSON.stringify(entries, null, 2);
+      } else {
+        const report = accounting.summarize(groupBy, filter);
+        if (format === 'table' && !options.output) {
+          console.log(`📒 Profit & Loss by ${groupBy}${filter.since ? ` since ${filter.since}` : ''}${filter.until ? ` until ${filter.until}` : ''}`);
+          if (report.rows.length === 0) {
+            console.log('  No entries recorded yet.');
+            return;
+          }
+          for (const row of report.rows) {
+            const label = groupBy === 'peer' && row.key.length > 24 ? `${row.key.substring(0, 24)}...` : row.key;
+            console.log(`  ${label.padEnd(28)} +${String(row.income).padStart(8)}  -${String(row.expense).padStart(8)}  net ${String(row.net).padStart(9)}  (${row.entries})`);
+          }
+          const t = report.totals;
+          console.log(`  ${'TOTAL'.padEnd(28)} +${String(t.income).padStart(8)}  -${String(t.expense).padStart(8)}  net ${String(t.net).padStart(9)}  (${t.entries})`);
+          console.log(`  ledger: ${accounting.getLedgerPath()}`);
+          return;
+        }
+        content = format === 'csv' ? AccountingLedger.reportToCsv(report) : JSON.stringify(report, null, 2);
+      }
+
+      if (options.output) {
+        writeFileSync(options.output, content.endsWith('\n') ? content : `${content}\n`, 'utf8');
+        console.log(`✅ Wrote ${options.output}`);
+      } else {
+        process.stdout.write(content.endsWith('\n') ? content : `${content}\n`);
+      }
+    } catch (error) {
+      console.error('❌ P&L failed:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+// Fraud reports — review what peers reported and what this Claw filed
+function printFraudReport(record: FraudReportRecord, verbose = false): void {
+  const { report } = record;
+  console.log(`- ${report.reportId} [${record.status}] ${report.kind} against ${formatShort(report.accused)}`);
+  console.log(`  reporter=${formatShort(report.reporter)} ${record.source ? `via ${record.source}` : '(filed here)'} at ${report.timestamp}`);
+  console.log(`  ${report.description}`);
+  if (record.resolution) console.log(`  resolution: ${record.resolution}`);
+  if (!verbose) return;
+  if (report.capability) console.log(`  capability: ${report.capability}`);
+  if (report.receipt) console.log(`  receipt: ${report.receipt.receiptId} (resultHash ${formatShort(report.receipt.resultHash)})`);
+  if (report.paymentTxid) console.log(`  payment: ${report.paymentTxid} (${report.satoshis} sats)`);
+  if ('result' in report) console.log(`  result returned: ${JSON.stringify(report.result).slice(0, 400)}`);
+}
+
+const fraud = program
+  .command('fraud')
+  .description('Review and resolve fraud reports filed here or received from peers');
+
+fraud
+  .command('list')
+  .description('List fraud reports, newest first')
+  .option('--status <state>', 'Filter by status: open|confirmed|dismissed')
+  .option('--accused <identityKey>', 'Only reports against this identity key')
+  .option('--limit <n>', 'Max rows to show', '50')
+  .action((options) => {
+    try {
+      const status = options.status ? String(options.status) as FraudReportStatus : undefined;
+      if (status && !['open', 'confirmed', 'dismissed'].includes(status)) {
+        throw new Error(`Invalid --status "${options.status}". Use open, confirmed or dismissed.`);
+      }
+      const store = new FraudReportStore(join(process.cwd(), 'data'));
+      const rows = store.list({ status, accused: options.accused });
+      const top = rows.slice(0, Math.max(1, parseInt(options.limit, 10) || 50));
+      if (top.length === 0) {
+        console.log('No fraud reports found.');
+        return;
+      }
+      console.log(`🚨 Fraud Reports (${top.length}/${rows.length})`);
+      for (const record of top) printFraudReport(record);
+      const blocked = store.blocked();
+      if (blocked.size > 0) console.log(`Blocked providers: ${Array.from(blocked).map(k => formatShort(k)).join(', ')}`);
+    } catch (error) {
+      console.error('❌ Failed to list fraud reports:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+fraud
+  .command('show <reportId>')
+  .description('Show one fraud report with its evidence')
+  .action((reportId: string) => {
+    try {
+      const record = new FraudReportStore(join(process.cwd(), 'data')).get(reportId);
+      if (!record) throw new Error(`Unknown fraud report ${reportId}`);
+      printFraudReport(record, true);
+    } catch (error) {
+      console.error('❌ Failed to show fraud report:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+fraud
+  .command('resolve <reportId>')
+  .description('Confirm a report (counts against the accused) or dismiss it')
+  .option('--confirm', 'Confirm the report', false)
+  .option('--dismiss', 'Dismiss the report', false)
+  .option('--note <text>', 'Why (kept with the report)')
+  .action((reportId: string, options) => {
+    try {
+      if (options.confirm === options.dismiss) throw new Error('Pass exactly one of --confirm or --dismiss.');
+      const dataDir = join(process.cwd(), 'data');
+      const store = new FraudReportStore(dataDir);
+      const reputation = new ReputationEngine(dataDir);
+      store.useReputation(reputation);
+      const record = store.resolve(reportId, options.confirm ? 'confirmed' : 'dismissed', options.note);
+      const accused = record.report.accused;
+      console.log(`✅ ${reportId} ${record.status}`);
+      console.log(`  ${formatShort(accused)}: score ${reputation.score(accused)}, ${store.confirmedAgainst(accused)} confirmed report(s)${store.isBlocked(accused) ? ' — blocked from hiring' : ''}`);
+    } catch (error) {
+      console.error('❌ Failed to resolve fraud report:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+/** A CLI target: a URL is an endpoint, anything else an identity key. */
+function accessTarget(target: string): { kind: 'identity' | 'endpoint'; value: string } {
+  const value = String(target || '').trim();
+  return /^https?:\/\//i.test(value) ? { kind: 'endpoint', value } : { kind: 'identity', value };
+}
+
+function printAccessEntry(entry: PeerAccessEntry): void {
+  const until = entry.expiresAt ? `until ${entry.expiresAt}` : 'until lifted';
+  console.log(`- ${entry.action.toUpperCase()} ${entry.kind} ${entry.kind === 'identity' ? formatShort(entry.value) : entry.value} (${until})`);
+  if (entry.reason) console.log(`  ${entry.reason}`);
+}
+
+function setPeerAccess(action: PeerAccessAction, target: string, options: any): void {
+  const hours = options.ttlHours === undefined ? undefined : Number(options.ttlHours);
+  if (hours !== undefined && !(hours > 0)) throw new Error(`Invalid --ttl-hours "${options.ttlHours}". Use a positive number of hours.`);
+  const { kind, value } = accessTarget(target);
+  const entry = new PeerAccessList(join(process.cwd(), 'data')).set(action, kind, value, {
+    reason: options.reason,
+    expiresAt: hours !== undefined ? new Date(Date.now() + hours * 60 * 60 * 1000).toISOString() : undefined
+  });
+  printAccessEntry(entry);
+}
+
+const access = program
+  .command('access')
+  .description('Block or allow peers, and follow ban lists published by Claws you trust');
+
+access
+  .command('list')
+  .description('List blocks, allows and ban list subscriptions')
+  .action(() => {
+    try {
+      const dataDir = join(process.cwd(), 'data');
+      const list = new PeerAccessList(dataDir);
+      const entries = list.list();
+      console.log(`🛡️  Peer Access (${entries.length} entries)`);
+      for (const entry of entries) printAccessEntry(entry);
+      for (const sub of list.subscriptions()) {
+        const state = sub.fetchedAt ? `${sub.entries.length} bans as of ${sub.fetchedAt}` : 'never fetched';
+        console.log(`- FOLLOW ${formatShort(sub.publisher)} at ${sub.endpoint}: ${state}${sub.lastError ? ` (last error: ${sub.lastError})` : ''}`);
+      }
+      const blocked = new FraudReportStore(dataDir).blocked();
+      if (blocked.size > 0) console.log(`Blocked by fraud reports: ${Array.from(blocked).map(k => formatShort(k)).join(', ')}`);
+    } catch (error) {
+      console.error('❌ Failed to list peer access:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+access
+  .command('block <target>')
+  .description('Block an identity key or endpoint URL: never registered, called back or hired')
+  .option('--reason <text>', 'Why (published with the ban)')
+  .option('--ttl-hours <n>', 'Lift the ban after this many hours')
+  .action((target: string, options) => {
+    try {
+      setPeerAccess('block', target, options);
+    } catch (error) {
+      console.error('❌ Failed to block:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+access
+  .command('allow <target>')
+  .description('Allow an identity key or endpoint URL despite subscribed bans and fraud reports')
+  .option('--reason <text>', 'Why')
+  .option('--ttl-hours <n>', 'Drop the allow after this many hours')
+  .action((target: string, options) => {
+    try {
+      setPeerAccess('allow', target, options);
+    } catch (error) {
+      console.error('❌ Failed to allow:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+access
+  .command('remove <target>')
+  .description('Lift a block or allow on an identity key or endpoint URL')
+  .action((target: string) => {
+    try {
+      const { kind, value } = accessTarget(target);
+      const removed = new PeerAccessList(join(process.cwd(), 'data')).remove(kind, value);
+      console.log(removed > 0 ? `✅ Removed ${removed} entry for ${value}` : `Nothing recorded for ${value}`);
+    } catch (error) {
+      console.error('❌ Failed to remove:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+access
+  .command('subscribe <endpoint>')
+  .description('Follow the signed ban list a trusted Claw publishes at <endpoint>/ban-list')
+  .requiredOption('--publisher <identityKey>', 'Identity key the list must be signed by')
+  .action(async (endpoint: string, options) => {
+    try {
+      const list = new PeerAccessList(join(process.cwd(), 'data'));
+      const sub = list.subscribe(options.publisher, endpoint);
+      const [result] = await list.refreshSubscriptions(sub.publisher);
+      if (result?.error) {
+        console.log(`⚠️  Subscribed to ${formatShort(sub.publisher)}, but the first fetch failed: ${result.error}`);
+      } else {
+        console.log(`✅ Following ${formatShort(sub.publisher)}: ${result?.entries ?? 0} bans`);
+      }
+    } catch (error) {
+      console.error('❌ Failed to subscribe:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+access
+  .command('unsubscribe <publisher>')
+  .description('Stop following the ban list of a Claw')
+  .action((publisher: string) => {
+    const ok = new PeerAccessList(join(process.cwd(), 'data')).unsubscribe(publisher.trim());
+    console.log(ok ? `✅ No longer following ${formatShort(publisher)}` : `Not following ${formatShort(publisher)}`);
+  });
+
+access
+  .command('refresh')
+  .description('Fetch every subscribed ban list now')
+  .action(async () => {
+    const results = await new PeerAccessList(join(process.cwd(), 'data')).refreshSubscriptions();
+    if (results.length === 0) console.log('No ban list subscriptions.');
+    for (const r of results) {
+      console.log(r.error ? `- ${formatShort(r.publisher)}: ${r.error}` : `- ${formatShort(r.publisher)}: ${r.entries} bans`);
+    }
+  });
+
+function beaconSource(options: { dir?: string; txid?: string[]; chain?: string; apiUrl?: string }): BeaconTxSource {
+  if (options.dir) return new FileTxSource(isAbsolute(options.dir) ? options.dir : join(process.cwd(), options.dir));
+  if (options.txid && options.txid.length > 0) {
+    if (options.chain !== 'main' && options.chain !== 'test') throw new Error('--chain must be main or test');
+    return new WhatsOnChainTxSource(options.txid, options.chain, options.apiUrl);
+  }
+  throw new Error('Give a source: --dir <dir> or --txid <txid...>');
+}
+
+function printBeacon(record: BeaconRecord): void {
+  const b = record.payload;
+  const where = `${record.txid.substring(0, 16)}...:${record.vout}`;
+  if (!record.valid) {
+    console.log(`- ✗ ${where} ${b?.id ? formatShort(b.id) : ''} ${record.problem}`);
+    return;
+  }
+  console.log(`- ✓ ${where} ${formatShort(b!.id)} ${b!.ep} [${b!.ch}] ${b!.ts}${record.importedAt ? ' (imported)' : ''}`);
+  if (b!.cap.length > 0) console.log(`    capabilities: ${b!.cap.join(', ')}`);
+}
+
+const beacons = program
+  .command('beacons')
+  .description('Index CLAWSATS_V1 beacons from raw tx / BEEF files or a chain API and import their Claws as peers');
+
+beacons
+  .command('list')
+  .description('List indexed beacons, newest first')
+  .option('--all', 'Include beacons that failed verification')
+  .option('--capability <name>', 'Only Claws announcing this capability')
+  .option('--identity <identityKey>', 'Only beacons from this identity key')
+  .action((options) => {
+    try {
+      const records = new BeaconIndexer(join(process.cwd(), 'data')).list({
+        valid: options.all ? undefined : true,
+        capability: options.capability,
+        identityKey: options.identity
+      });
+      console.log(`📡 Beacons (${records.length})`);
+      for (const record of records) printBeacon(record);
+    } catch (error) {
+      console.error('❌ Failed to list beacons:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+beacons
+  .command('verify')
+  .description('Read a tx source, check every beacon signature and add the results to data/beacons.json')
+  .option('--dir <dir>', 'Directory of raw tx or BEEF files (binary or hex)')
+  .option('--txid <txid...>', 'Transactions to fetch from the chain API')
+  .option('--chain <chain>', 'Chain the txids are on: main | test', 'main')
+  .option('--api-url <url>', 'WhatsOnChain-compatible API base (default: api.whatsonchain.com for --chain)')
+  .option('--max-age-days <days>', 'Treat older beacons as invalid')
+  .action(async (options) => {
+    try {
+      const maxAgeDays = options.maxAgeDays !== undefined ? Number(options.maxAgeDays) : undefined;
+      if (maxAgeDays !== undefined && !(maxAgeDays > 0)) throw new Error('--max-age-days must be a positive number');
+      const indexer = new BeaconIndexer(join(process.cwd(), 'data'));
+      const startedAt = new Date().toISOString();
+      const report = await indexer.index(beaconSource(options), {
+        maxAgeMs: maxAgeDays !== undefined ? maxAgeDays * 24 * 60 * 60 * 1000 : undefined
+      });
+      console.log(`📡 ${report.source}: ${report.transactions} transactions, ${report.beacons} beacons (${report.valid} valid, ${report.invalid} invalid, ${report.added} new)`);
+      for (const record of indexer.list().filter(r => r.indexedAt >= startedAt)) printBeacon(record);
+      for (const err of report.errors) console.log(`⚠️  ${err}`);
+    } catch (error) {
+      console.error('❌ Failed to verify beacons:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+beacons
+  .command('import')
+  .description('Register the Claws of valid beacons with the running server (scanning a source first if given)')
+  .option('--dir <dir>', 'Directory of raw tx or BEEF files to index first')
+  .option('--txid <txid...>', 'Transactions to fetch from the chain API and index first')
+  .option('--api-url <url>', 'WhatsOnChain-compatible API base for --txid')
+  .option('--rpc-url <url>', 'Wallet server JSON-RPC endpoint', 'http://localhost:3321')
+  .option('--api-key <key>', 'Admin API key (default: env CLAWSATS_API_KEY)')
+  .action(async (options) => {
+    try {
+      const params: Record<string, unknown> = {};
+      if (options.dir) params.dir = isAbsolute(options.dir) ? options.dir : join(process.cwd(), options.dir);
+      if (options.txid) params.txids = options.txid;
+      if (options.apiUrl) params.apiUrl = options.apiUrl;
+      const res = await fetch(options.rpcUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${options.apiKey || process.env.CLAWSATS_API_KEY || ''}`
+        },
+        body: JSON.stringify({ jsonrpc: '2.0', id: Date.now(), method: 'importBeacons', params }),
+        signal: AbortSignal.timeout(120_000)
+      });
+      if (!res.ok) throw new Error(`Wallet RPC ${res.status}`);
+      const json = await res.json() as any;
+      if (json.error) throw new Error(json.error.message || JSON.stringify(json.error));
+      const result = json.result;
+      if (result.scan) {
+        console.log(`📡 ${result.scan.source}: ${result.scan.beacons} beacons (${result.scan.valid} valid, ${result.scan.invalid} invalid)`);
+        for (const err of result.scan.errors) console.log(`⚠️  ${err}`);
+      }
+      console.log(`✅ Added ${result.added.length} peers (${result.unverified.length} failed their endpoint proof), ${result.knownPeers} known`);
+      const known = result.skipped.filter((s: any) => s.reason === 'Already known').length;
+      if (known > 0) console.log(`  ${known} beacons are from peers already registered`);
+      for (const s of result.skipped.filter((s: any) => s.reason !== 'Already known')) {
+        console.log(`- skipped ${formatShort(s.identityKey)}: ${s.reason}`);
+      }
+    } catch (error) {
+      console.error('❌ Failed to import beacons:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
 // Config command
 program
   .command('config')
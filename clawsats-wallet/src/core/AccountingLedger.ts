@@ -0,0 +1,214 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { randomBytes } from 'crypto';
+import { parsePaymentTransaction } from '../protocol/fee';
+
+export type AccountingDirection = 'income' | 'expense';
+
+/**
+ * income:  'capability' (402-paid call served), 'credit_call' (call drawn from prepaid credit)
+ * expense: 'hire' (provider share of a call we paid for), 'protocol_fee' (fee output on our hires),
+ *          'memory_write' (on-chain memory tx), 'beacon' (CLAWSATS_V1 beacon tx),
+ *          'receipt_anchor' (CLAWRCPT_V1 receipt anchor tx)
+ */
+export type AccountingCategory =
+  | 'capability'
+  | 'credit_call'
+  | 'hire'
+  | 'protocol_fee'
+  | 'memory_write'
+  | 'beacon'
+  | 'receipt_anchor';
+
+export type PnlGroupBy = 'capability' | 'peer' | 'day' | 'category';
+
+export interface AccountingEntry {
+  id: string;
+  ts: string;
+  direction: AccountingDirection;
+  category: AccountingCategory;
+  satoshis: number;            // sats moved by the entry's own outputs
+  networkFeeSats?: number;     // miner fee we paid for the tx, when known
+  capability?: string;
+  peer?: string;               // caller (income) or provider (expense) identity key
+  txid?: string;
+  reference?: string;
+  memo?: string;
+}
+
+export interface AccountingFilter {
+  since?: string;              // ISO date or timestamp, inclusive
+  until?: string;              // ISO date or timestamp, exclusive
+  direction?: AccountingDirection;
+  category?: AccountingCategory;
+  capability?: string;
+  peer?: string;
+}
+
+export interface PnlRow {
+  key: string;
+  income: number;
+  expense: number;
+  net: number;
+  entries: number;
+}
+
+export interface PnlReport {
+  groupBy: PnlGroupBy;
+  since?: string;
+  until?: string;
+  rows: PnlRow[];
+  totals: PnlRow;
+}
+
+const INCOME_CATEGORIES: AccountingCategory[] = ['capability', 'credit_call'];
+const CSV_COLUMNS: Array<keyof AccountingEntry> = [
+  'id', 'ts', 'direction', 'category', 'satoshis', 'networkFeeSats',
+  'capability', 'peer', 'txid', 'reference', 'memo'
+];
+
+/** Total cost of an entry: income counts its sats, expenses also carry the miner fee. */
+function entryAmount(entry: AccountingEntry): number {
+  return entry.direction === 'income'
+    ? entry.satoshis
+    : entry.satoshis + (entry.networkFeeSats || 0);
+}
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Best-effort miner fee for a createAction result: inputs minus outputs of the
+ * returned AtomicBEEF. Undefined when the wallet didn't return the source txs.
+ */
+export function networkFeeFromAction(actionResult: any): number | undefined {
+  const raw = actionResult?.tx;
+  if (!raw) return undefined;
+  try {
+    const bytes = typeof raw === 'string' ? Array.from(Buffer.from(raw, 'base64')) : Array.from(raw as number[]);
+    const tx = parsePaymentTransaction(bytes);
+    let inputSats = 0;
+    for (const input of tx.inputs) {
+      const source = input.sourceTransaction?.outputs[input.sourceOutputIndex];
+      if (typeof source?.satoshis !== 'number') return undefined;
+      inputSats += source.satoshis;
+    }
+    const outputSats = tx.outputs.reduce((sum, o) => sum + (o.satoshis || 0), 0);
+    const fee = inputSats - outputSats;
+    return fee >= 0 ? fee : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Append-only earnings/spending journal (data/accounting.jsonl).
+ * Every sat this Claw earns or spends gets one line; P&L is computed on read.
+ */
+export class AccountingLedger {
+  private dataDir: string;
+  private ledgerPath: string;
+
+  constructor(dataDir: string, ledgerPath?: string) {
+    this.dataDir = dataDir;
+    this.ledgerPath = ledgerPath || join(dataDir, 'accounting.jsonl');
+  }
+
+  getLedgerPath(): string {
+    return this.ledgerPath;
+  }
+
+  record(input: Omit<AccountingEntry, 'id' | 'ts' | 'direction'> & { ts?: string }): AccountingEntry {
+    if (!Number.isInteger(input.satoshis) || input.satoshis < 0) {
+      throw new Error(`Invalid accounting amount: ${input.satoshis}`);
+    }
+    if (input.networkFeeSats !== undefined && (!Number.isInteger(input.networkFeeSats) || input.networkFeeSats < 0)) {
+      throw new Error(`Invalid network fee: ${input.networkFeeSats}`);
+    }
+    const entry: AccountingEntry = {
+      ...input,
+      id: `acct-${Date.now()}-${randomBytes(4).toString('hex')}`,
+      ts: input.ts || new Date().toISOString(),
+      direction: INCOME_CATEGORIES.includes(input.category) ? 'income' : 'expense'
+    };
+    if (!existsSync(this.dataDir)) {
+      mkdirSync(this.dataDir, { recursive: true });
+    }
+    appendFileSync(this.ledgerPath, `${JSON.stringify(entry)}\n`, 'utf8');
+    return entry;
+  }
+
+  /** Entries in chronological order, optionally filtered. */
+  list(filter: AccountingFilter = {}): AccountingEntry[] {
+    if (!existsSync(this.ledgerPath)) return [];
+    const sinceMs = filter.since ? Date.parse(filter.since) : NaN;
+    const untilMs = filter.until ? Date.parse(filter.until) : NaN;
+    return readFileSync(this.ledgerPath, 'utf8')
+      .split('\n')
+      .map(line => line.trim())
+      .filter(Boolean)
+      .map(line => {
+        try {
+          return JSON.parse(line) as AccountingEntry;
+        } catch {
+          return null;
+        }
+      })
+      .filter((e): e is AccountingEntry => Boolean(e))
+      .filter(e => {
+        const ts = Date.parse(e.ts);
+        if (Number.isFinite(sinceMs) && ts < sinceMs) return false;
+        if (Number.isFinite(untilMs) && ts >= untilMs) return false;
+        if (filter.direction && e.direction !== filter.direction) return false;
+        if (filter.category && e.category !== filter.category) return false;
+        if (filter.capability && e.capability !== filter.capability) return false;
+        if (filter.peer && e.peer !== filter.peer) return false;
+        return true;
+      });
+  }
+
+  /** Profit and loss grouped by capability, peer, UTC day or category. Rows sorted by net desc (days ascending). */
+  summarize(groupBy: PnlGroupBy, filter: AccountingFilter = {}): PnlReport {
+    const rows = new Map<string, PnlRow>();
+    const totals: PnlRow = { key: 'total', income: 0, expense: 0, net: 0, entries: 0 };
+
+    for (const entry of this.list(filter)) {
+      const key = groupBy === 'day'
+        ? entry.ts.slice(0, 10)
+        : (groupBy === 'category' ? entry.category : entry[groupBy]) || '(none)';
+      const row = rows.get(key) || { key, income: 0, expense: 0, net: 0, entries: 0 };
+      const amount = entryAmount(entry);
+      for (const target of [row, totals]) {
+        if (entry.direction === 'income') target.income += amount;
+        else target.expense += amount;
+        target.net = target.income - target.expense;
+        target.entries++;
+      }
+      rows.set(key, row);
+    }
+
+    const sorted = Array.from(rows.values()).sort((a, b) =>
+      groupBy === 'day' ? a.key.localeCompare(b.key) : b.net - a.net
+    );
+    return { groupBy, since: filter.since, until: filter.until, rows: sorted, totals };
+  }
+
+  static toCsv(entries: AccountingEntry[]): string {
+    const lines = [CSV_COLUMNS.join(',')];
+    for (const entry of entries) {
+      lines.push(CSV_COLUMNS.map(col => csvCell(entry[col])).join(','));
+    }
+    return `${lines.join('\n')}\n`;
+  }
+
+  static reportToCsv(report: PnlReport): string {
+    const lines = [[report.groupBy, 'income', 'expense', 'net', 'entries'].join(',')];
+    for (const row of [...report.rows, report.totals]) {
+      lines.push([csvCell(row.key), row.income, row.expense, row.net, row.entries].join(','));
+    }
+    return `${lines.join('\n')}\n`;
+  }
+}
@@ -0,0 +1,80 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { ReputationAttestation } from '../types';
+import { attestationKey } from '../protocol/attestation';
+
+export interface AttestationRecord {
+  key: string;                 // attester:receiptId
+  attestation: ReputationAttestation;
+  source?: string;             // endpoint it was pulled from, 'push' if a peer sent it; absent for our own
+  storedAt: string;
+}
+
+export interface AttestationFilter {
+  subject?: string;
+  attester?: string;
+  since?: string;              // matched against the attestation's timestamp, inclusive
+  limit?: number;              // newest first when set
+}
+
+/**
+ * Attestations this Claw issued or collected from peers
+ * (data/attestations.jsonl). Append-only: an attester's newer attestation on
+ * the same receipt supersedes its older one on read. Callers check each
+ * attestation (checkAttestation) before adding it — the store doesn't.
+ */
+export class AttestationStore {
+  private dataDir: string;
+  private storePath: string;
+
+  constructor(dataDir: string, storePath?: string) {
+    this.dataDir = dataDir;
+    this.storePath = storePath || join(dataDir, 'attestations.jsonl');
+  }
+
+  getStorePath(): string {
+    return this.storePath;
+  }
+
+  private loadAll(): Map<string, AttestationRecord> {
+    const records = new Map<string, AttestationRecord>();
+    if (!existsSync(this.storePath)) return records;
+    for (const line of readFileSync(this.storePath, 'utf8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const record = JSON.parse(line) as AttestationRecord;
+        if (record?.key && record.attestation) records.set(record.key, record);
+      } catch {
+        // skip a torn line
+      }
+    }
+    return records;
+  }
+
+  /**
+   * Keep an attestation unless we already hold the same or a newer one from
+   * that attester on that receipt. Returns whether it was stored.
+   */
+  add(attestation: ReputationAttestation, source?: string): boolean {
+    const key = attestationKey(attestation);
+    const existing = this.loadAll().get(key);
+    if (existing && Date.parse(existing.attestation.timestamp) >= Date.parse(attestation.timestamp)) return false;
+    if (!existsSync(this.dataDir)) {
+      mkdirSync(this.dataDir, { recursive: true });
+    }
+    const record: AttestationRecord = { key, attestation, source, storedAt: new Date().toISOString() };
+    appendFileSync(this.storePath, `${JSON.stringify(record)}\n`, 'utf8');
+    return true;
+  }
+
+  list(filter: AttestationFilter = {}): ReputationAttestation[] {
+    const sinceMs = filter.since ? Date.parse(filter.since) : NaN;
+    const matching = Array.from(this.loadAll().values())
+      .map(r => r.attestation)
+      .filter(a => (!filter.subject || a.subject === filter.subject)
+        && (!filter.attester || a.attester === filter.attester)
+        && (!Number.isFinite(sinceMs) || Date.parse(a.timestamp) >= sinceMs));
+    if (filter.limit === undefined) return matching;
+    return matching.sort((a, b) => b.timestamp.localeCompare(a.timestamp)).slice(0, Math.max(0, filter.limit));
+  }
+}
@@ -0,0 +1,242 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { Beef, Transaction } from '@bsv/sdk';
+import { BeaconPayload, Chain } from '../types';
+import { checkBeacon, decodeBeacon, readBeaconOutputs } from '../protocol/beacon';
+import { BEACON_FETCH_TIMEOUT_MS, BEACON_INDEX_MAX_RECORDS, BEACON_MAX_FILE_BYTES } from '../protocol/constants';
+
+export interface SourcedTransaction {
+  tx: Transaction;
+  origin: string;              // file name, txid, ... — where it was read from
+}
+
+/**
+ * Where the indexer reads transactions. Sources return what they can read
+ * and report the rest in `errors` instead of throwing.
+ */
+export interface BeaconTxSource {
+  readonly name: string;
+  read(errors: string[]): Promise<SourcedTransaction[]>;
+}
+
+export interface BeaconRecord {
+  txid: string;
+  vout: number;
+  origin: string;
+  valid: boolean;
+  problem?: string;
+  payload?: BeaconPayload;     // absent when the output wasn't a beacon payload at all
+  indexedAt: string;
+  importedAt?: string;         // when it last fed the peer registry
+}
+
+export interface BeaconScanReport {
+  source: string;
+  transactions: number;
+  beacons: number;
+  valid: number;
+  invalid: number;
+  added: number;               // outputs not indexed before
+  errors: string[];
+}
+
+export interface BeaconFilter {
+  valid?: boolean;
+  identityKey?: string;
+  capability?: string;
+  chain?: Chain;
+}
+
+/** Every tx in a BEEF (atomic or not), else the bytes as one raw tx. */
+export function parseTransactions(bytes: number[]): Transaction[] {
+  try {
+    const txs = Beef.fromBinary(bytes).txs.map(btx => btx.tx).filter((tx): tx is Transaction => !!tx);
+    if (txs.length > 0) return txs;
+  } catch {
+    // Not BEEF
+  }
+  const tx = Transaction.fromBinary(bytes);
+  // The SDK reader tolerates truncated input; an empty tx means it wasn't one.
+  if (tx.outputs.length === 0) throw new Error('Not a raw tx or BEEF');
+  return [tx];
+}
+
+/**
+ * Raw tx or BEEF files in a directory, binary or hex-encoded — what a block
+ * explorer export, an ARC callback dump or a local test network leaves behind.
+ */
+export class FileTxSource implements BeaconTxSource {
+  readonly name: string;
+  private dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+    this.name = `dir:${dir}`;
+  }
+
+  async read(errors: string[]): Promise<SourcedTransaction[]> {
+    const found: SourcedTransaction[] = [];
+    for (const file of readdirSync(this.dir).sort()) {
+      const path = join(this.dir, file);
+      try {
+        const stat = statSync(path);
+        if (!stat.isFile()) continue;
+        if (stat.size > BEACON_MAX_FILE_BYTES) throw new Error(`larger than ${BEACON_MAX_FILE_BYTES} bytes`);
+        const content = readFileSync(path);
+        const text = content.toString('utf8').trim();
+        const bytes = /^([0-9a-fA-F]{2})+$/.test(text) ? Buffer.from(text, 'hex') : content;
+        for (const tx of parseTransactions(Array.from(bytes))) found.push({ tx, origin: file });
+      } catch (err) {
+        errors.push(`${file}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+    return found;
+  }
+}
+
+/** Transactions already in hand — a local stand-in for a chain, and for tests. */
+export class MemoryTxSource implements BeaconTxSource {
+  readonly name = 'memory';
+  private txs: Transaction[];
+
+  constructor(txs: Transaction[]) {
+    this.txs = txs;
+  }
+
+  async read(): Promise<SourcedTransaction[]> {
+    return this.txs.map(tx => ({ tx, origin: tx.id('hex') }));
+  }
+}
+
+/** Known txids looked up on WhatsOnChain (or a compatible API at `baseUrl`). */
+export class WhatsOnChainTxSource implements BeaconTxSource {
+  readonly name: string;
+  private txids: string[];
+  private baseUrl: string;
+
+  constructor(txids: string[], chain: Chain = 'main', baseUrl?: string) {
+    this.txids = txids;
+    this.baseUrl = (baseUrl || `https://api.whatsonchain.com/v1/bsv/${chain}`).replace(/\/+$/, '');
+    this.name = `chain:${this.baseUrl}`;
+  }
+
+  async read(errors: string[]): Promise<SourcedTransaction[]> {
+    const found: SourcedTransaction[] = [];
+    for (const txid of this.txids) {
+      if (!/^[0-9a-f]{64}$/i.test(txid)) {
+        errors.push(`${txid}: not a txid`);
+        continue;
+      }
+      try {
+        const res = await fetch(`${this.baseUrl}/tx/${txid}/hex`, { signal: AbortSignal.timeout(BEACON_FETCH_TIMEOUT_MS) });
+        if (!res.ok) throw new Error(`GET /tx/${txid.substring(0, 12)}.../hex returned ${res.status}`);
+        found.push({ tx: Transaction.fromHex((await res.text()).trim()), origin: txid });
+      } catch (err) {
+        errors.push(`${txid}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+    return found;
+  }
+}
+
+/**
+ * Index of the CLAWSATS_V1 beacons read from transaction sources
+ * (data/beacons.json), valid and invalid alike, one record per output.
+ * Read and written through on every call so the CLI and the server can
+ * share it.
+ */
+export class BeaconIndexer {
+  private dataDir: string;
+  private storePath: string;
+
+  constructor(dataDir: string, storePath?: string) {
+    this.dataDir = dataDir;
+    this.storePath = storePath || join(dataDir, 'beacons.json');
+  }
+
+  getStorePath(): string {
+    return this.storePath;
+  }
+
+  private load(): BeaconRecord[] {
+    if (!existsSync(this.storePath)) return [];
+    try {
+      const parsed = JSON.parse(readFileSync(this.storePath, 'utf8'));
+      return Array.isArray(parsed?.beacons) ? parsed.beacons : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private save(records: BeaconRecord[]): void {
+    if (!existsSync(this.dataDir)) {
+      mkdirSync(this.dataDir, { recursive: true });
+    }
+    const kept = records.length > BEACON_INDEX_MAX_RECORDS
+      ? records.sort((a, b) => b.indexedAt.localeCompare(a.indexedAt)).slice(0, BEACON_INDEX_MAX_RECORDS)
+      : records;
+    writeFileSync(this.storePath, JSON.stringify({ beacons: kept }, null, 2), 'utf8');
+  }
+
+  /**
+   * Read every transaction from `source`, decode and check its beacons, and
+   * index the results. A re-read output is checked again and replaced.
+   */
+  async index(source: BeaconTxSource, options: { now?: number; maxAgeMs?: number } = {}): Promise<BeaconScanReport> {
+    const report: BeaconScanReport = { source: source.name, transactions: 0, beacons: 0, valid: 0, invalid: 0, added: 0, errors: [] };
+    const records = new Map(this.load().map(r => [`${r.txid}:${r.vout}`, r]));
+    for (const { tx, origin } of await source.read(report.errors)) {
+      report.transactions++;
+      const txid = tx.id('hex');
+      for (const { vout, raw } of readBeaconOutputs(tx)) {
+        report.beacons++;
+        const payload = decodeBeacon(raw);
+        const problem = payload
+          ? await checkBeacon(payload, options)
+          : 'Not a beacon payload (fields must be v, id, ep, ch, cap, ts, sig in order)';
+        const key = `${txid}:${vout}`;
+        const previous = records.get(key);
+        if (!previous) report.added++;
+        const record: BeaconRecord = { txid, vout, origin, valid: !problem, indexedAt: new Date().toISOString() };
+        if (problem) record.problem = problem;
+        if (payload) record.payload = payload;
+        if (previous?.importedAt && !problem) record.importedAt = previous.importedAt;
+        records.set(key, record);
+        if (problem) report.invalid++;
+        else report.valid++;
+      }
+    }
+    if (report.beacons > 0) this.save(Array.from(records.values()));
+    return report;
+  }
+
+  /** Indexed beacons, newest announcement first. */
+  list(filter: BeaconFilter = {}): BeaconRecord[] {
+    return this.load()
+      .filter(r => (filter.valid === undefined || r.valid === filter.valid)
+        && (!filter.identityKey || r.payload?.id === filter.identityKey)
+        && (!filter.capability || (Array.isArray(r.payload?.cap) && r.payload!.cap.includes(filter.capability)))
+        && (!filter.chain || r.payload?.ch === filter.chain))
+      .sort((a, b) => String(b.payload?.ts || '').localeCompare(String(a.payload?.ts || '')));
+  }
+
+  /** Each identity key's newest valid beacon: what it last announced. */
+  latest(filter: Omit<BeaconFilter, 'valid'> = {}): BeaconRecord[] {
+    const newest = new Map<string, BeaconRecord>();
+    for (const record of this.list({ ...filter, valid: true })) {
+      if (!newest.has(record.payload!.id)) newest.set(record.payload!.id, record);
+    }
+    return Array.from(newest.values());
+  }
+
+  /** Note that these outputs (`txid:vout`) fed the peer registry. */
+  markImported(keys: string[], at = new Date().toISOString()): void {
+    if (keys.length === 0) return;
+    const wanted = new Set(keys);
+    const records = this.load();
+    for (const record of records) {
+      if (wanted.has(`${record.txid}:${record.vout}`)) record.importedAt = at;
+    }
+    this.save(records);
+  }
+}
@@ -28,6 +28,7 @@ export interface BrainJob {
   memoryKey?: string;
   memoryCategory?: string;
   result?: unknown;
+  receiptId?: string;          // receipt for the paid call (see ReceiptStore)
   error?: string;
   memoryStatus?: 'pending_approval' | 'written' | 'skipped';
   memoryTxid?: string;
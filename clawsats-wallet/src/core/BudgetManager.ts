@@ -0,0 +1,236 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { randomBytes } from 'crypto';
+import {
+  BUDGET_DAY_MS,
+  BUDGET_WEEK_MS,
+  BUDGET_MONTH_MS,
+  BUDGET_FEE_RATE_SAT_PER_KB,
+  BUDGET_TX_OVERHEAD_BYTES
+} from '../protocol/constants';
+
+export type BudgetCategory = 'hire' | 'memory' | 'broadcast' | 'createAction';
+export type BudgetScope = 'global' | BudgetCategory;
+export type BudgetWindow = 'daily' | 'weekly' | 'monthly';
+
+/** Rolling-window caps in sats. null/absent = unlimited. */
+export type BudgetLimits = Partial<Record<BudgetWindow, number | null>>;
+
+export interface BudgetConfig {
+  global: BudgetLimits;
+  categories: Partial<Record<BudgetCategory, BudgetLimits>>;
+}
+
+export interface BudgetSpend {
+  id: string;
+  ts: number;
+  category: BudgetCategory;
+  satoshis: number;
+  memo?: string;
+  settled: boolean;   // false while the reservation's tx is still being built
+}
+
+export interface BudgetUtilization {
+  scope: BudgetScope;
+  window: BudgetWindow;
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+}
+
+interface BudgetState {
+  limits: BudgetConfig;
+  spends: BudgetSpend[];
+}
+
+export const BUDGET_CATEGORIES: BudgetCategory[] = ['hire', 'memory', 'broadcast', 'createAction'];
+export const BUDGET_WINDOWS: Record<BudgetWindow, number> = {
+  daily: BUDGET_DAY_MS,
+  weekly: BUDGET_WEEK_MS,
+  monthly: BUDGET_MONTH_MS
+};
+
+/**
+ * Defaults cap the spend an autonomous loop can trigger (hires, memory writes,
+ * beacons). Raw createAction and the global cap are left to the operator.
+ */
+export const DEFAULT_BUDGET_LIMITS: BudgetConfig = {
+  global: {},
+  categories: {
+    hire: { daily: 2000, weekly: 10000, monthly: 30000 },
+    memory: { daily: 500, weekly: 2000, monthly: 5000 },
+    broadcast: { daily: 100, weekly: 500, monthly: 1500 }
+  }
+};
+
+/** Conservative miner-fee estimate for a tx carrying `payloadBytes` of output data. */
+export function estimateTxFeeSats(payloadBytes = 0): number {
+  return Math.max(1, Math.ceil(((payloadBytes + BUDGET_TX_OVERHEAD_BYTES) / 1000) * BUDGET_FEE_RATE_SAT_PER_KB));
+}
+
+function cloneDefaults(): BudgetConfig {
+  return JSON.parse(JSON.stringify(DEFAULT_BUDGET_LIMITS));
+}
+
+/**
+ * Rolling daily/weekly/monthly spending caps, global and per category
+ * (data/budgets.json).
+ *
+ * reserve() checks every applicable window and books the spend in one
+ * synchronous read-check-write, so two spenders in the same process cannot
+ * both squeeze under the limit. Callers release() the reservation if the tx
+ * is never created, and settle() it to the real cost once known.
+ */
+export class BudgetManager {
+  private dataDir: string;
+  private budgetPath: string;
+
+  constructor(dataDir: string, budgetPath?: string) {
+    this.dataDir = dataDir;
+    this.budgetPath = budgetPath || join(dataDir, 'budgets.json');
+  }
+
+  getBudgetPath(): string {
+    return this.budgetPath;
+  }
+
+  private load(): BudgetState {
+    if (!existsSync(this.budgetPath)) {
+      return { limits: cloneDefaults(), spends: [] };
+    }
+    try {
+      const parsed = JSON.parse(readFileSync(this.budgetPath, 'utf8'));
+      const limits = parsed?.limits && typeof parsed.limits === 'object' ? parsed.limits : cloneDefaults();
+      return {
+        limits: {
+          global: limits.global && typeof limits.global === 'object' ? limits.global : {},
+          categories: limits.categories && typeof limits.categories === 'object' ? limits.categories : {}
+        },
+        spends: Array.isArray(parsed?.spends) ? parsed.spends : []
+      };
+    } catch {
+      return { limits: cloneDefaults(), spends: [] };
+    }
+  }
+
+  private save(state: BudgetState): void {
+    if (!existsSync(this.dataDir)) {
+      mkdirSync(this.dataDir, { recursive: true });
+    }
+    // Nothing older than the longest window can affect a limit
+    const cutoff = Date.now() - BUDGET_MONTH_MS;
+    state.spends = state.spends.filter(s => s.ts > cutoff);
+    writeFileSync(this.budgetPath, JSON.stringify(state, null, 2), 'utf8');
+  }
+
+  getLimits(): BudgetConfig {
+    return this.load().limits;
+  }
+
+  /** Set (or clear with null) one window limit for the global scope or a category. */
+  setLimit(scope: BudgetScope, window: BudgetWindow, satoshis: number | null): BudgetConfig {
+    if (scope !== 'global' && !BUDGET_CATEGORIES.includes(scope)) {
+      throw new Error(`Unknown budget scope: ${scope}`);
+    }
+    if (!(window in BUDGET_WINDOWS)) throw new Error(`Unknown budget window: ${window}`);
+    if (satoshis !== null && (!Number.isInteger(satoshis) || satoshis < 0)) {
+      throw new Error(`Invalid budget limit: ${satoshis}`);
+    }
+    const state = this.load();
+    const limits = scope === 'global'
+      ? state.limits.global
+      : (state.limits.categories[scope] = state.limits.categories[scope] || {});
+    limits[window] = satoshis;
+    this.save(state);
+    return state.limits;
+  }
+
+  /**
+   * Book `satoshis` against `category` if every window still has room.
+   * Throws "Budget exceeded: …" otherwise, leaving the ledger untouched.
+   */
+  reserve(category: BudgetCategory, satoshis: number, memo?: string): BudgetSpend {
+    if (!BUDGET_CATEGORIES.includes(category)) throw new Error(`Unknown budget category: ${category}`);
+    if (!Number.isInteger(satoshis) || satoshis < 0) throw new Error(`Invalid budget amount: ${satoshis}`);
+
+    const state = this.load();
+    const now = Date.now();
+    for (const row of this.computeUtilization(state, now)) {
+      if (row.limit === null) continue;
+      if (row.scope !== 'global' && row.scope !== category) continue;
+      if (row.used + satoshis > row.limit) {
+        throw new Error(
+          `Budget exceeded: ${row.scope} ${row.window} limit ${row.limit} sats ` +
+          `(used ${row.used}, requested ${satoshis})`
+        );
+      }
+    }
+
+    const spend: BudgetSpend = {
+      id: `bud-${now}-${randomBytes(4).toString('hex')}`,
+      ts: now,
+      category,
+      satoshis,
+      memo,
+      settled: false
+    };
+    state.spends.push(spend);
+    this.save(state);
+    return spend;
+  }
+
+  /** Replace a reservation's estimate with the actual cost. */
+  settle(id: string, actualSatoshis?: number): void {
+    const state = this.load();
+    const spend = state.spends.find(s => s.id === id);
+    if (!spend) return;
+    if (actualSatoshis !== undefined && Number.isInteger(actualSatoshis) && actualSatoshis >= 0) {
+      spend.satoshis = actualSatoshis;
+    }
+    spend.settled = true;
+    this.save(state);
+  }
+
+  /** Drop a reservation whose tx was never created. */
+  release(id: string): void {
+    const state = this.load();
+    const before = state.spends.length;
+    state.spends = state.spends.filter(s => s.id !== id);
+    if (state.spends.length !== before) this.save(state);
+  }
+
+  utilization(now = Date.now()): BudgetUtilization[] {
+    return this.computeUtilization(this.load(), now);
+  }
+
+  /** Limits + rolling utilization, as reported by /api/status and getBudgetStatus. */
+  status(now = Date.now()): { limits: BudgetConfig; utilization: BudgetUtilization[]; exhausted: string[] } {
+    const state = this.load();
+    const utilization = this.computeUtilization(state, now);
+    return {
+      limits: state.limits,
+      utilization,
+      exhausted: utilization
+        .filter(u => u.remaining !== null && u.remaining <= 0)
+        .map(u => `${u.scope}:${u.window}`)
+    };
+  }
+
+  private computeUtilization(state: BudgetState, now: number): BudgetUtilization[] {
+    const rows: BudgetUtilization[] = [];
+    const scopes: BudgetScope[] = ['global', ...BUDGET_CATEGORIES];
+    for (const scope of scopes) {
+      const limits = scope === 'global' ? state.limits.global : state.limits.categories[scope] || {};
+      for (const window of Object.keys(BUDGET_WINDOWS) as BudgetWindow[]) {
+        const since = now - BUDGET_WINDOWS[window];
+        const used = state.spends
+          .filter(s => s.ts > since && (scope === 'global' || s.category === scope))
+          .reduce((sum, s) => sum + s.satoshis, 0);
+        const raw = limits[window];
+        const limit = typeof raw === 'number' && Number.isFinite(raw) ? raw : null;
+        rows.push({ scope, window, limit, used, remaining: limit === null ? null : Math.max(0, limit - used) });
+      }
+    }
+    return rows;
+  }
+}
@@ -0,0 +1,261 @@
+import { CapabilityPricing, Chain } from '../types';
+import { log } from '../utils';
+import { describePricing, estimatePrice } from './Pricing';
+import {
+  CAPABILITY_INDEX_CONCURRENCY,
+  CAPABILITY_INDEX_MAX_FAILURES,
+  CAPABILITY_INDEX_TIMEOUT_MS,
+  CAPABILITY_INDEX_TTL_MS
+} from '../protocol/constants';
+
+const TAG = 'cap-index';
+
+/** A paid capability as a peer's /discovery advertises it. */
+export interface IndexedCapability {
+  name: string;
+  description?: string;
+  pricePerCall: number;
+  pricing: CapabilityPricing;
+  verifiable: boolean;
+  tags: string[];
+}
+
+export interface CapabilityIndexEntry {
+  identityKey: string;
+  endpoint: string;
+  chain?: Chain;
+  capabilities: IndexedCapability[];
+  etag?: string;
+  fetchedAt?: number;          // last answer, 200 or 304
+  expiresAt: number;           // refreshed after this
+  failures: number;            // consecutive failed refreshes
+  lastError?: string;
+}
+
+export interface CapabilityIndexQuery {
+  name?: string;
+  tags?: string[];             // any of them
+  minPrice?: number;           // sats for `units` (1 if not given)
+  maxPrice?: number;
+  units?: number;
+  minReputation?: number;
+  chain?: Chain;
+  maxResults?: number;
+}
+
+export interface CapabilityIndexMatch {
+  peer: string;
+  endpoint: string;
+  reputation: number;
+  chain?: Chain;
+  capability: IndexedCapability & { estimatedSats?: number | null };
+  matchedTags?: string[];
+  indexedAt: string;
+}
+
+export interface CapabilityIndexRefreshReport {
+  refreshed: number;           // fetched anew
+  notModified: number;         // 304 on our ETag
+  skipped: number;             // still fresh, or already being refreshed
+  failed: Array<{ identityKey: string; endpoint: string; error: string }>;
+  durationMs: number;
+}
+
+export interface CapabilityIndexOptions {
+  ttlMs: number;
+  concurrency: number;
+  timeoutMs: number;
+  maxFailures: number;
+}
+
+type ProbeObserver = (identityKey: string, ok: boolean, latencyMs?: number) => void;
+
+/**
+ * What our peers sell, from their /discovery documents. Refreshed in the
+ * background with bounded parallelism — each entry lives for a TTL and is
+ * revalidated with If-None-Match — so searches read memory instead of
+ * crawling the network. Peers that fail CAPABILITY_INDEX_MAX_FAILURES
+ * refreshes in a row drop out of results until they answer again.
+ */
+export class CapabilityIndex {
+  private entries: Map<string, CapabilityIndexEntry> = new Map(); // identityKey → entry
+  private inFlight: Set<string> = new Set();
+  private options: CapabilityIndexOptions;
+  private lastRefreshAt: number | null = null;
+
+  constructor(options: Partial<CapabilityIndexOptions> = {}) {
+    this.options = {
+      ttlMs: CAPABILITY_INDEX_TTL_MS,
+      concurrency: CAPABILITY_INDEX_CONCURRENCY,
+      timeoutMs: CAPABILITY_INDEX_TIMEOUT_MS,
+      maxFailures: CAPABILITY_INDEX_MAX_FAILURES,
+      ...options
+    };
+  }
+
+  get(identityKey: string): CapabilityIndexEntry | undefined {
+    return this.entries.get(identityKey);
+  }
+
+  /**
+   * Bring the index in line with `peers`: forget peers no longer listed, then
+   * fetch the ones that are due — all of them with `force`, only those never
+   * indexed with `missingOnly`. `onProbe` hears how each peer answered.
+   */
+  async refresh(
+    peers: Array<{ identityKey: string; endpoint: string }>,
+    options: { force?: boolean; missingOnly?: boolean; onProbe?: ProbeObserver } = {}
+  ): Promise<CapabilityIndexRefreshReport> {
+    const started = Date.now();
+    const report: CapabilityIndexRefreshReport = { refreshed: 0, notModified: 0, skipped: 0, failed: [], durationMs: 0 };
+    const listed = new Set(peers.map(p => p.identityKey));
+    for (const key of this.entries.keys()) {
+      if (!listed.has(key)) this.entries.delete(key);
+    }
+
+    const due = peers.filter(peer => {
+      if (!peer.endpoint) return false;
+      const entry = this.entries.get(peer.identityKey);
+      const isDue = options.force || !entry || entry.endpoint !== peer.endpoint
+        || (!options.missingOnly && started >= entry.expiresAt);
+      if (!isDue || this.inFlight.has(peer.identityKey)) {
+        report.skipped++;
+        return false;
+      }
+      return true;
+    });
+    for (const peer of due) this.inFlight.add(peer.identityKey);
+
+    let next = 0;
+    const worker = async (): Promise<void> => {
+      while (next < due.length) {
+        const peer = due[next++];
+        try {
+          await this.refreshPeer(peer, report, options.onProbe);
+        } finally {
+          this.inFlight.delete(peer.identityKey);
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(this.options.concurrency, due.length) }, worker));
+
+    this.lastRefreshAt = Date.now();
+    report.durationMs = this.lastRefreshAt - started;
+    if (due.length > 0) {
+      log(TAG, `Refreshed ${due.length} peers in ${report.durationMs}ms (${report.notModified} unchanged, ${report.failed.length} failed)`);
+    }
+    return report;
+  }
+
+  /** Capabilities matching every filter given, cheapest first when priced for `units`, else best reputation first. */
+  search(
+    query: CapabilityIndexQuery,
+    context: { reputationOf: (identityKey: string) => number; exclude?: Set<string> }
+  ): CapabilityIndexMatch[] {
+    const results: CapabilityIndexMatch[] = [];
+    const minReputation = query.minReputation ?? 0;
+    for (const entry of this.entries.values()) {
+      if (!entry.fetchedAt || entry.failures >= this.options.maxFailures) continue;
+      if (context.exclude?.has(entry.identityKey)) continue;
+      if (query.chain && entry.chain !== query.chain) continue;
+      const reputation = context.reputationOf(entry.identityKey);
+      if (reputation < minReputation) continue;
+
+      for (const listed of entry.capabilities) {
+        if (query.name && listed.name !== query.name) continue;
+        const matchedTags = query.tags ? query.tags.filter(t => listed.tags.includes(t)) : undefined;
+        if (matchedTags && matchedTags.length === 0) continue;
+        const price = estimatePrice(listed.pricing, query.units ?? 1);
+        if ((query.minPrice !== undefined || query.maxPrice !== undefined) && price === null) continue;
+        if (query.minPrice !== undefined && price! < query.minPrice) continue;
+        if (query.maxPrice !== undefined && price! > query.maxPrice) continue;
+
+        const capability: CapabilityIndexMatch['capability'] = { ...listed };
+        if (query.units !== undefined) capability.estimatedSats = price;
+        results.push({
+          peer: entry.identityKey,
+          endpoint: entry.endpoint,
+          reputation,
+          chain: entry.chain,
+          capability,
+          ...(matchedTags ? { matchedTags } : {}),
+          indexedAt: new Date(entry.fetchedAt).toISOString()
+        });
+      }
+    }
+
+    results.sort((a, b) => {
+      const byPrice = query.units === undefined ? 0
+        : (a.capability.estimatedSats ?? Infinity) - (b.capability.estimatedSats ?? Infinity);
+      return byPrice || b.reputation - a.reputation;
+    });
+    return query.maxResults !== undefined ? results.slice(0, query.maxResults) : results;
+  }
+
+  stats(now = Date.now()): { peers: number; capabilities: number; fresh: number; failing: number; lastRefreshAt: string | null } {
+    const entries = Array.from(this.entries.values());
+    return {
+      peers: entries.length,
+      capabilities: entries.reduce((n, e) => n + (e.failures < this.options.maxFailures ? e.capabilities.length : 0), 0),
+      fresh: entries.filter(e => e.fetchedAt && now < e.expiresAt && e.failures === 0).length,
+      failing: entries.filter(e => e.failures >= this.options.maxFailures).length,
+      lastRefreshAt: this.lastRefreshAt ? new Date(this.lastRefreshAt).toISOString() : null
+    };
+  }
+
+  private async refreshPeer(
+    peer: { identityKey: string; endpoint: string },
+    report: CapabilityIndexRefreshReport,
+    onProbe?: ProbeObserver
+  ): Promise<void> {
+    const base = peer.endpoint.replace(/\/+$/, '');
+    const previous = this.entries.get(peer.identityKey);
+    const entry: CapabilityIndexEntry = previous && previous.endpoint === peer.endpoint
+      ? previous
+      : { identityKey: peer.identityKey, endpoint: peer.endpoint, capabilities: [], expiresAt: 0, failures: 0 };
+    this.entries.set(peer.identityKey, entry);
+
+    const started = Date.now();
+    let answered = false;
+    try {
+      const headers: Record<string, string> = entry.etag ? { 'If-None-Match': entry.etag } : {};
+      const res = await fetch(`${base}/discovery`, { headers, signal: AbortSignal.timeout(this.options.timeoutMs) });
+      answered = true;
+      onProbe?.(peer.identityKey, res.ok || res.status === 304, Date.now() - started);
+      if (res.status === 304 && entry.fetchedAt) {
+        report.notModified++;
+      } else {
+        if (!res.ok) throw new Error(`GET /discovery returned ${res.status}`);
+        const info: any = await res.json();
+        if (info?.identityKey && info.identityKey !== peer.identityKey) throw new Error('Answered as a different identity key');
+        entry.capabilities = Array.isArray(info?.paidCapabilities) ? info.paidCapabilities.map(toIndexed).filter(Boolean) : [];
+        entry.chain = info?.network === 'test' || info?.network === 'main' ? info.network : undefined;
+        entry.etag = res.headers.get('etag') || undefined;
+        report.refreshed++;
+      }
+      entry.fetchedAt = Date.now();
+      entry.failures = 0;
+      entry.lastError = undefined;
+    } catch (err) {
+      if (!answered) onProbe?.(peer.identityKey, false);
+      entry.failures++;
+      entry.lastError = err instanceof Error ? err.message : String(err);
+      report.failed.push({ identityKey: peer.identityKey, endpoint: base, error: entry.lastError });
+    }
+    entry.expiresAt = Date.now() + this.options.ttlMs;
+  }
+}
+
+/** Normalise one advertised capability; peers that predate metered pricing only advertise pricePerCall. */
+function toIndexed(listed: any): IndexedCapability | null {
+  if (!listed || typeof listed !== 'object' || typeof listed.name !== 'string' || !listed.name) return null;
+  const pricePerCall = Number(listed.pricePerCall) || 0;
+  return {
+    name: listed.name,
+    description: typeof listed.description === 'string' ? listed.description : undefined,
+    pricePerCall,
+    pricing: listed.pricing && typeof listed.pricing === 'object' ? listed.pricing : describePricing({ pricePerCall }),
+    verifiable: Boolean(listed.verifiable),
+    tags: Array.isArray(listed.tags) ? listed.tags.filter((t: unknown): t is string => typeof t === 'string') : []
+  };
+}
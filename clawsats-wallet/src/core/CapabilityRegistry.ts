@@ -1,29 +1,38 @@
 import { randomBytes, createHash } from 'crypto';
-import { CapabilityHandler } from '../types';
+import { CapabilityHandler, Chain, PriceQuote, ReceiptAnchorProof } from '../types';
 import { log } from '../utils';
 import {
   ECHO_PRICE_SATS, SIGN_MESSAGE_PRICE_SATS, HASH_COMMIT_PRICE_SATS,
   TIMESTAMP_ATTEST_PRICE_SATS, BROADCAST_PRICE_SATS,
   BROADCAST_HOP_LIMIT, BROADCAST_AUDIENCE_LIMIT,
-  FETCH_URL_PRICE_SATS, DNS_RESOLVE_PRICE_SATS,
-  VERIFY_RECEIPT_PRICE_SATS, PEER_HEALTH_CHECK_PRICE_SATS
+  BROADCAST_SATS_PER_PEER,
+  FETCH_URL_PRICE_SATS, FETCH_URL_BASE_SATS, FETCH_URL_SATS_PER_KB, FETCH_URL_MAX_KB,
+  DNS_RESOLVE_PRICE_SATS, VERIFY_RECEIPT_PRICE_SATS, PEER_HEALTH_CHECK_PRICE_SATS
 } from '../protocol/constants';
+import { describePricing, quoteCapability, validatePricing } from './Pricing';
 import { canonicalJson } from '../utils';
+import { verifyReceiptSignature, verifyRequesterSignature } from '../protocol/receipt';
+import { checkReceiptAnchor } from '../protocol/anchor';
 import dns from 'dns/promises';
 
 const TAG = 'capabilities';
 
 /**
  * Registry of paid capabilities this Claw offers.
- * Each capability has a name, price, and handler function.
+ * Each capability has a name, price (flat or metered), and handler function.
  * The 402 flow checks this registry to determine pricing.
  */
 export class CapabilityRegistry {
   private capabilities: Map<string, CapabilityHandler> = new Map();
 
   register(capability: CapabilityHandler): void {
+    if (capability.pricing) validatePricing(capability.pricing);
     this.capabilities.set(capability.name, capability);
-    log(TAG, `Registered capability: ${capability.name} (${capability.pricePerCall} sats/call)`);
+    const pricing = describePricing(capability);
+    const price = pricing.model === 'flat'
+      ? `${capability.pricePerCall} sats/call`
+      : `${pricing.model} per ${pricing.unit}, ${capability.pricePerCall} sats at defaults`;
+    log(TAG, `Registered capability: ${capability.name} (${price})`);
   }
 
   get(name: string): CapabilityHandler | undefined {
@@ -46,6 +55,12 @@ export class CapabilityRegistry {
     return this.capabilities.get(name)?.pricePerCall;
   }
 
+  /** Price for a call with these params (throws if they exceed the capability's maximum). */
+  quote(name: string, params: any): PriceQuote | undefined {
+    const cap = this.capabilities.get(name);
+    return cap ? quoteCapability(cap, params) : undefined;
+  }
+
   /**
    * Register the built-in "echo" capability.
    * A trivial paid service: send a message + pay, get it signed and returned.
@@ -57,6 +72,7 @@ export class CapabilityRegistry {
       description: 'Signed echo service — send a message, get it signed and returned. Proves 402 payment flow.',
       pricePerCall: ECHO_PRICE_SATS,
       tags: ['utility', 'test', 'verification'],
+      parallelSafe: true,
       handler: async (params: { message: string; nonce?: string }) => {
         const message = params.message;
         if (!message || typeof message !== 'string') {
@@ -101,6 +117,8 @@ export class CapabilityRegistry {
       description: 'Sign a message with provider identity key. Verifiable by anyone with the pubkey.',
       pricePerCall: SIGN_MESSAGE_PRICE_SATS,
       tags: ['crypto', 'signing', 'verification'],
+      parallelSafe: true,
+      verifiable: true,
       handler: async (params: { message: string }) => {
         if (!params.message || typeof params.message !== 'string') {
           throw new Error('Missing required param: message (string)');
@@ -137,6 +155,8 @@ export class CapabilityRegistry {
       description: 'SHA-256 hash commitment with provider signature. Verifiable by re-hashing.',
       pricePerCall: HASH_COMMIT_PRICE_SATS,
       tags: ['crypto', 'hashing', 'commitment'],
+      parallelSafe: true,
+      verifiable: true,
       handler: async (params: { payload: string }) => {
         if (!params.payload || typeof params.payload !== 'string') {
           throw new Error('Missing required param: payload (string)');
@@ -174,6 +194,8 @@ export class CapabilityRegistry {
       description: 'Timestamp attestation — provider signs {hash, timestamp}. Provable time witness.',
       pricePerCall: TIMESTAMP_ATTEST_PRICE_SATS,
       tags: ['crypto', 'timestamp', 'attestation'],
+      parallelSafe: true,
+      verifiable: true,
       handler: async (params: { hash: string }) => {
         if (!params.hash || typeof params.hash !== 'string') {
           throw new Error('Missing required param: hash (string)');
@@ -218,6 +240,10 @@ export class CapabilityRegistry {
       description: `Paid broadcast — announce your manifest to known peers. Max ${BROADCAST_AUDIENCE_LIMIT} peers, ${BROADCAST_HOP_LIMIT} hops. Earns referral bounties.`,
       pricePerCall: BROADCAST_PRICE_SATS,
       tags: ['network', 'viral', 'discovery', 'referral'],
+      pricing: { model: 'per_unit', unit: 'peer', satoshisPerUnit: BROADCAST_SATS_PER_PEER, maxUnits: BROADCAST_AUDIENCE_LIMIT },
+      quoteUnits: (params: { maxPeers?: number }) =>
+        Math.min(Number(params.maxPeers) || BROADCAST_AUDIENCE_LIMIT, BROADCAST_AUDIENCE_LIMIT),
+      measureUnits: (result: { peersNotified?: number }) => result?.peersNotified ?? 0,
       handler: async (params: {
         manifest: any;
         maxPeers?: number;
@@ -296,6 +322,18 @@ export class CapabilityRegistry {
       description: 'Fetch a URL from this Claw\'s vantage point. Returns content + headers, signed by provider.',
       pricePerCall: FETCH_URL_PRICE_SATS,
       tags: ['web', 'proxy', 'fetch', 'geo'],
+      parallelSafe: true,
+      pricing: {
+        model: 'per_unit',
+        unit: 'kb',
+        baseSatoshis: FETCH_URL_BASE_SATS,
+        satoshisPerUnit: FETCH_URL_SATS_PER_KB,
+        maxUnits: FETCH_URL_MAX_KB
+      },
+      // Quoted on the body cap the caller asks for, charged on what came back
+      quoteUnits: (params: { maxBytes?: number }) =>
+        Math.ceil(Math.min(Number(params.maxBytes) || 50000, FETCH_URL_MAX_KB * 1000) / 1000),
+      measureUnits: (result: { contentLength?: number }) => Math.ceil((result?.contentLength || 0) / 1000),
       handler: async (params: { url: string; method?: string; maxBytes?: number }) => {
         if (!params.url || typeof params.url !== 'string') {
           throw new Error('Missing required param: url (string)');
@@ -311,7 +349,7 @@ export class CapabilityRegistry {
           throw new Error('Private/local URLs not allowed');
         }
 
-        const maxBytes = Math.min(params.maxBytes || 50000, 100000); // Cap at 100KB
+        const maxBytes = Math.min(params.maxBytes || 50000, FETCH_URL_MAX_KB * 1000); // Cap at 100KB
         const method = (params.method || 'GET').toUpperCase();
         if (method !== 'GET' && method !== 'HEAD') {
           throw new Error('Only GET and HEAD methods allowed');
@@ -367,6 +405,7 @@ export class CapabilityRegistry {
       description: 'DNS lookup from this Claw\'s vantage point. Returns A/AAAA/MX/TXT records.',
       pricePerCall: DNS_RESOLVE_PRICE_SATS,
       tags: ['network', 'dns', 'geo', 'verification'],
+      parallelSafe: true,
       handler: async (params: { hostname: string; type?: string }) => {
         if (!params.hostname || typeof params.hostname !== 'string') {
           throw new Error('Missing required param: hostname (string)');
@@ -414,42 +453,38 @@ export class CapabilityRegistry {
   }
 
   /**
-   * "verify_receipt" — Verify a ClawSats receipt signature.
+   * "verify_receipt" — Verify a ClawSats receipt signature and, given the
+   * provider's inclusion proof, that the receipt was anchored on `chain`.
    * WHY A CLAW CARES: "I got a receipt from Claw X. Is it legit? I'll pay 3 sats
    * for an independent Claw to verify the signature. Trust-as-a-service."
    */
-  registerVerifyReceipt(wallet: any, identityKey: string): void {
+  registerVerifyReceipt(identityKey: string, chain: Chain = 'main'): void {
     this.register({
       name: 'verify_receipt',
-      description: 'Verify a ClawSats receipt signature. Independent trust verification.',
+      description: 'Verify a ClawSats receipt signature (and its on-chain anchor, given the proof). Independent trust verification.',
       pricePerCall: VERIFY_RECEIPT_PRICE_SATS,
       tags: ['trust', 'verification', 'receipt'],
-      handler: async (params: { receipt: any }) => {
+      parallelSafe: true,
+      handler: async (params: { receipt: any; anchor?: ReceiptAnchorProof }) => {
         if (!params.receipt || !params.receipt.receiptId) {
           throw new Error('Missing required param: receipt (object with receiptId)');
         }
-        const { signature, ...data } = params.receipt;
-        if (!signature) {
+        const receipt = params.receipt;
+        if (!receipt.signature) {
           return { valid: false, reason: 'Unsigned receipt', verifiedBy: identityKey, timestamp: new Date().toISOString() };
         }
 
-        try {
-          const result = await wallet.verifySignature({
-            data: Array.from(Buffer.from(canonicalJson(data), 'utf8')),
-            signature: Array.from(Buffer.from(signature, 'base64')),
-            protocolID: [0, 'clawsats receipt'],
-            keyID: 'receipt-v1'
-          });
-          return {
-            valid: result.valid === true,
-            receipt: data,
-            verifiedBy: identityKey,
-            timestamp: new Date().toISOString()
-          };
-        } catch (err) {
-          const msg = err instanceof Error ? err.message : String(err);
-          return { valid: false, reason: msg, verifiedBy: identityKey, timestamp: new Date().toISOString() };
-        }
+        // Checked against the provider (and requester) keys named in the receipt
+        const anchorProblem = params.anchor ? await checkReceiptAnchor(receipt, params.anchor, { chain }) : null;
+        return {
+          valid: await verifyReceiptSignature(receipt),
+          countersigned: receipt.requesterSignature ? await verifyRequesterSignature(receipt) : false,
+          anchored: Boolean(params.anchor) && anchorProblem === null,
+          anchorProblem: anchorProblem || undefined,
+          receipt,
+          verifiedBy: identityKey,
+          timestamp: new Date().toISOString()
+        };
       }
     });
   }
@@ -465,6 +500,7 @@ export class CapabilityRegistry {
       description: 'Check if a ClawSats peer is alive. Returns health status + latency from this Claw\'s vantage.',
       pricePerCall: PEER_HEALTH_CHECK_PRICE_SATS,
       tags: ['monitoring', 'health', 'network', 'geo'],
+      parallelSafe: true,
       handler: async (params: { endpoint: string }) => {
         if (!params.endpoint || typeof params.endpoint !== 'string') {
           throw new Error('Missing required param: endpoint (string)');
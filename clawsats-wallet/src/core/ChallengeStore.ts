@@ -0,0 +1,141 @@
+import { CHALLENGE_TTL_MS, CHALLENGE_STORE_SIZE } from '../protocol/constants';
+
+/** Result a provider ran ahead of payment and committed to (hash-locked mode). */
+export interface HashlockCommitment {
+  commitment: string;     // sha256 of the canonical JSON result
+  lockingScript: string;  // hex script output 0 must carry
+  result: unknown;        // released once the output is claimed
+}
+
+export interface IssuedChallenge {
+  derivationPrefix: string;
+  capability: string;
+  satoshis: number;
+  callerIdentityKey?: string;
+  quoteId?: string;       // set when issued as a signed quote (POST /quote)
+  paramsHash?: string;    // quotes are bound to the params they priced
+  hashlock?: HashlockCommitment;  // pay-on-result challenge
+  issuedAt: number;
+  expiresAt: number;
+  usedAt?: number;
+}
+
+export type ChallengeRejectCode =
+  | 'ERR_CHALLENGE_UNKNOWN'
+  | 'ERR_CHALLENGE_EXPIRED'
+  | 'ERR_CHALLENGE_USED'
+  | 'ERR_CHALLENGE_MISMATCH';
+
+export type ChallengeClaimResult =
+  | { valid: true; challenge: IssuedChallenge }
+  | { valid: false; code: ChallengeRejectCode; reason: string };
+
+/**
+ * Server-side record of every 402 challenge we issued.
+ * A paid retry must reference a prefix we handed out, for the same capability
+ * and caller, before it expires — and each prefix pays for exactly one call.
+ */
+export class ChallengeStore {
+  private challenges: Map<string, IssuedChallenge> = new Map(); // derivationPrefix → challenge
+  private ttlMs: number;
+  private maxSize: number;
+
+  constructor(ttlMs = CHALLENGE_TTL_MS, maxSize = CHALLENGE_STORE_SIZE) {
+    this.ttlMs = ttlMs;
+    this.maxSize = maxSize;
+  }
+
+  /**
+   * Record a freshly issued challenge. Caller identity is optional — a 402
+   * sent without x-bsv-identity-key can be paid by anyone.
+   */
+  issue(input: {
+    derivationPrefix: string;
+    capability: string;
+    satoshis: number;
+    callerIdentityKey?: string;
+    quoteId?: string;
+    paramsHash?: string;
+    hashlock?: HashlockCommitment;
+    ttlMs?: number;
+  }): IssuedChallenge {
+    const now = Date.now();
+    const challenge: IssuedChallenge = {
+      derivationPrefix: input.derivationPrefix,
+      capability: input.capability,
+      satoshis: input.satoshis,
+      callerIdentityKey: input.callerIdentityKey || undefined,
+      quoteId: input.quoteId,
+      paramsHash: input.paramsHash,
+      hashlock: input.hashlock,
+      issuedAt: now,
+      expiresAt: now + (input.ttlMs ?? this.ttlMs)
+    };
+    this.challenges.set(challenge.derivationPrefix, challenge);
+    this.evict();
+    return challenge;
+  }
+
+  get(derivationPrefix: string): IssuedChallenge | undefined {
+    return this.challenges.get(derivationPrefix);
+  }
+
+  /**
+   * Validate a payment's prefix and mark the challenge used in one step, so two
+   * concurrent retries with the same prefix cannot both proceed.
+   */
+  claim(
+    derivationPrefix: string,
+    expect: { capability: string; callerIdentityKey?: string; paramsHash?: string }
+  ): ChallengeClaimResult {
+    const challenge = this.challenges.get(derivationPrefix);
+    if (!challenge) {
+      return { valid: false, code: 'ERR_CHALLENGE_UNKNOWN', reason: 'Derivation prefix does not match any challenge issued by this provider.' };
+    }
+    if (challenge.usedAt) {
+      return { valid: false, code: 'ERR_CHALLENGE_USED', reason: 'This challenge has already been paid. Request a new 402 challenge.' };
+    }
+    if (Date.now() > challenge.expiresAt) {
+      return { valid: false, code: 'ERR_CHALLENGE_EXPIRED', reason: 'This challenge has expired. Request a new 402 challenge.' };
+    }
+    if (challenge.capability !== expect.capability) {
+      return { valid: false, code: 'ERR_CHALLENGE_MISMATCH', reason: `Challenge was issued for "${challenge.capability}", not "${expect.capability}".` };
+    }
+    if (challenge.callerIdentityKey && challenge.callerIdentityKey !== expect.callerIdentityKey) {
+      return { valid: false, code: 'ERR_CHALLENGE_MISMATCH', reason: 'Challenge was issued to a different identity key.' };
+    }
+    if (challenge.paramsHash && challenge.paramsHash !== expect.paramsHash) {
+      return { valid: false, code: 'ERR_CHALLENGE_MISMATCH', reason: challenge.hashlock ? 'Hashlock result was committed for different params.' : 'Quote was issued for different params.' };
+    }
+    challenge.usedAt = Date.now();
+    return { valid: true, challenge };
+  }
+
+  /**
+   * Return a claimed challenge to the unused state — for payments that were
+   * rejected before anything was internalized, so the caller can retry.
+   */
+  release(derivationPrefix: string): void {
+    const challenge = this.challenges.get(derivationPrefix);
+    if (challenge) delete challenge.usedAt;
+  }
+
+  size(): number {
+    return this.challenges.size;
+  }
+
+  private evict(): void {
+    // Drop challenges that expired more than one TTL ago (used ones are kept
+    // that long so late replays still report ERR_CHALLENGE_USED).
+    const cutoff = Date.now() - this.ttlMs;
+    for (const [prefix, challenge] of this.challenges) {
+      if (challenge.expiresAt < cutoff) this.challenges.delete(prefix);
+    }
+    // Map iteration is insertion order → oldest first
+    while (this.challenges.size > this.maxSize) {
+      const oldest = this.challenges.keys().next().value;
+      if (oldest === undefined) break;
+      this.challenges.delete(oldest);
+    }
+  }
+}
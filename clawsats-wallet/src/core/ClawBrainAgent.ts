@@ -71,13 +71,18 @@ const ALLOWED_TOOLS = new Set([
   'getConfig', 'ping', 'getCapabilities',
   // Peers read-only
   'listPeers', 'listReferrals', 'searchCapabilities', 'verifyReceipt',
+  'listCreditAccounts', 'getCreditAccount',
+  'getProfitAndLoss', 'listAccountingEntries', 'getBudgetStatus',
+  'listEscrows', 'getEscrow', 'listReceipts', 'getReceipt',
+  'getReputation', 'explainReputation', 'listAttestations', 'listFraudReports',
+  'getDiscoveryResults', 'listPeerAccess', 'listBeacons',
   // Courses
   'listCourses', 'spreadMetrics',
   // Memory read-only
   'readMemory', 'listMemories', 'searchMemories', 'readMemoryFromChain',
   'memoryStats', 'fetchFromChain', 'verifyMemoryOnChain', 'getMasterIndexTxid',
   // Peer actions (low risk)
-  'sendInvitation',
+  'sendInvitation', 'requestQuotes', 'discoverCapability', 'verifyPeerEndpoint',
   // Gated (require approval)
   'hireClaw', 'createAction', 'writeMemory',
   // Courses (write)
@@ -0,0 +1,230 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { randomBytes } from 'crypto';
+import { canonicalJson } from '../utils';
+import { CREDIT_MAX_BALANCE_SATS } from '../protocol/constants';
+
+export type CreditEntryKind = 'deposit' | 'debit' | 'withdraw' | 'reversal' | 'credit_note';
+export type CreditAuthAction = 'call' | 'balance' | 'withdraw';
+
+export interface CreditAccount {
+  identityKey: string;
+  balance: number;
+  totalDeposited: number;
+  totalSpent: number;
+  totalWithdrawn: number;
+  totalCredited?: number;   // credit notes issued for failed paid calls
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreditEntry {
+  id: string;
+  ts: string;
+  identityKey: string;
+  kind: CreditEntryKind;
+  satoshis: number;
+  balanceAfter: number;
+  reference?: string;
+  memo?: string;
+}
+
+export interface CreditLedgerState {
+  accounts: Record<string, CreditAccount>;
+  entries: CreditEntry[];
+}
+
+/**
+ * Fields covered by the caller's signature on an x-clawsats-credit header.
+ * The provider key binds the authorization to one Claw; the nonce + timestamp
+ * make each header single-use within CREDIT_AUTH_TTL_MS.
+ */
+export interface CreditAuthorization {
+  action: CreditAuthAction;
+  provider: string;
+  identityKey: string;
+  nonce: string;
+  timestamp: string;
+  capability?: string;
+  paramsHash?: string;
+  satoshis?: number;
+  signature?: string;
+}
+
+export const CREDIT_PROTOCOL_ID: [number, string] = [0, 'clawsats credit'];
+export const CREDIT_KEY_ID = 'credit-v1';
+
+const MAX_ENTRIES = 5000;
+
+/**
+ * Canonical bytes signed by the caller for a credit authorization.
+ * Shared by PaymentHelper (signing) and JsonRpcServer (verification).
+ */
+export function serializeCreditAuthorization(auth: CreditAuthorization): string {
+  const { signature, ...rest } = auth;
+  return canonicalJson(rest);
+}
+
+/**
+ * Persistent per-identity prepaid balance ledger (data/credit-ledger.json).
+ * Every mutation is written through immediately — balances are money.
+ */
+export class CreditLedger {
+  private dataDir: string;
+  private ledgerPath: string;
+
+  constructor(dataDir: string, ledgerPath?: string) {
+    this.dataDir = dataDir;
+    this.ledgerPath = ledgerPath || join(dataDir, 'credit-ledger.json');
+  }
+
+  getLedgerPath(): string {
+    return this.ledgerPath;
+  }
+
+  private ensureDataDir(): void {
+    if (!existsSync(this.dataDir)) {
+      mkdirSync(this.dataDir, { recursive: true });
+    }
+  }
+
+  load(): CreditLedgerState {
+    this.ensureDataDir();
+    if (!existsSync(this.ledgerPath)) {
+      return { accounts: {}, entries: [] };
+    }
+    try {
+      const parsed = JSON.parse(readFileSync(this.ledgerPath, 'utf8'));
+      return {
+        accounts: parsed?.accounts && typeof parsed.accounts === 'object' ? parsed.accounts : {},
+        entries: Array.isArray(parsed?.entries) ? parsed.entries : []
+      };
+    } catch {
+      return { accounts: {}, entries: [] };
+    }
+  }
+
+  save(state: CreditLedgerState): void {
+    this.ensureDataDir();
+    if (state.entries.length > MAX_ENTRIES) {
+      state.entries = state.entries.slice(-MAX_ENTRIES);
+    }
+    writeFileSync(this.ledgerPath, JSON.stringify(state, null, 2), 'utf8');
+  }
+
+  getAccount(identityKey: string): CreditAccount | null {
+    return this.load().accounts[identityKey] || null;
+  }
+
+  getBalance(identityKey: string): number {
+    return this.getAccount(identityKey)?.balance || 0;
+  }
+
+  listAccounts(): CreditAccount[] {
+    return Object.values(this.load().accounts)
+      .sort((a, b) => b.balance - a.balance);
+  }
+
+  listEntries(identityKey?: string, limit = 50): CreditEntry[] {
+    const entries = this.load().entries;
+    const rows = identityKey ? entries.filter(e => e.identityKey === identityKey) : entries;
+    return rows.slice(-Math.max(1, limit)).reverse();
+  }
+
+  /**
+   * Credit a verified deposit. Throws if the deposit would push the account
+   * above CREDIT_MAX_BALANCE_SATS.
+   */
+  deposit(identityKey: string, satoshis: number, reference?: string, memo?: string): CreditEntry {
+    return this.apply(identityKey, 'deposit', satoshis, reference, memo);
+  }
+
+  /**
+   * Issue a credit note for a paid call that failed after its payment was
+   * internalized. Counts toward the balance but not toward totalDeposited.
+   */
+  issueCreditNote(identityKey: string, satoshis: number, reference?: string, memo?: string): CreditEntry {
+    return this.apply(identityKey, 'credit_note', satoshis, reference, memo);
+  }
+
+  /** Debit a paid call. Throws if the balance is insufficient. */
+  debit(identityKey: string, satoshis: number, reference?: string, memo?: string): CreditEntry {
+    return this.apply(identityKey, 'debit', satoshis, reference, memo);
+  }
+
+  /** Debit a withdrawal. Throws if the balance is insufficient. */
+  withdraw(identityKey: string, satoshis: number, reference?: string, memo?: string): CreditEntry {
+    return this.apply(identityKey, 'withdraw', satoshis, reference, memo);
+  }
+
+  /** Undo a debit/withdraw that could not be completed (e.g. withdrawal tx failed). */
+  reverse(
+    identityKey: string,
+    satoshis: number,
+    reversedKind: 'debit' | 'withdraw',
+    reference?: string,
+    memo?: string
+  ): CreditEntry {
+    return this.apply(identityKey, 'reversal', satoshis, reference, memo, reversedKind);
+  }
+
+  private apply(
+    identityKey: string,
+    kind: CreditEntryKind,
+    satoshis: number,
+    reference?: string,
+    memo?: string,
+    reversedKind?: 'debit' | 'withdraw'
+  ): CreditEntry {
+    if (!identityKey) throw new Error('identityKey is required');
+    if (!Number.isInteger(satoshis) || satoshis <= 0) {
+      throw new Error(`Invalid credit amount: ${satoshis}`);
+    }
+
+    const state = this.load();
+    const now = new Date().toISOString();
+    const account: CreditAccount = state.accounts[identityKey] || {
+      identityKey,
+      balance: 0,
+      totalDeposited: 0,
+      totalSpent: 0,
+      totalWithdrawn: 0,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    if (kind === 'deposit' || kind === 'reversal' || kind === 'credit_note') {
+      if (kind !== 'reversal' && account.balance + satoshis > CREDIT_MAX_BALANCE_SATS) {
+        throw new Error(`Deposit would exceed max credit balance of ${CREDIT_MAX_BALANCE_SATS} sats`);
+      }
+      account.balance += satoshis;
+      if (kind === 'deposit') account.totalDeposited += satoshis;
+      else if (kind === 'credit_note') account.totalCredited = (account.totalCredited || 0) + satoshis;
+      else if (reversedKind === 'debit') account.totalSpent = Math.max(0, account.totalSpent - satoshis);
+      else account.totalWithdrawn = Math.max(0, account.totalWithdrawn - satoshis);
+    } else {
+      if (account.balance < satoshis) {
+        throw new Error(`Insufficient credit: balance ${account.balance} sats, need ${satoshis}`);
+      }
+      account.balance -= satoshis;
+      if (kind === 'debit') account.totalSpent += satoshis;
+      else account.totalWithdrawn += satoshis;
+    }
+    account.updatedAt = now;
+    state.accounts[identityKey] = account;
+
+    const entry: CreditEntry = {
+      id: `cred-${Date.now()}-${randomBytes(4).toString('hex')}`,
+      ts: now,
+      identityKey,
+      kind,
+      satoshis,
+      balanceAfter: account.balance,
+      reference,
+      memo
+    };
+    state.entries.push(entry);
+    this.save(state);
+    return entry;
+  }
+}
@@ -0,0 +1,171 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { Chain, DirectoryEntry, DirectoryEntryStatus, DirectoryRegistration } from '../types';
+import { DIRECTORY_ENTRY_TTL_MS, DIRECTORY_MAX_ENTRIES, DIRECTORY_MAX_PAGE_SIZE, DIRECTORY_PAGE_SIZE } from '../protocol/constants';
+
+export interface DirectoryQuery {
+  capability?: string;         // offers this capability
+  q?: string;                  // substring of identity key, endpoint or a capability name
+  chain?: Chain;
+  status?: DirectoryEntryStatus | 'all';   // default 'online'
+  offset?: number;
+  limit?: number;
+}
+
+export interface DirectoryPage {
+  total: number;               // entries matching the query, across all pages
+  registered: number;          // of those, online
+  claws: DirectoryEntry[];
+  offset: number;
+  nextOffset: number | null;
+}
+
+/**
+ * The Claws a self-hosted directory lists (data/directory.json), keyed by
+ * identity key. Only signed registrations get in; liveness checks flip
+ * entries online or offline, and entries silent for the TTL are dropped.
+ */
+export class DirectoryStore {
+  private dataDir: string;
+  private storePath: string;
+  private entries: Map<string, DirectoryEntry> = new Map();
+  private ttlMs: number;
+  private maxEntries: number;
+
+  constructor(dataDir: string, options: { ttlMs?: number; maxEntries?: number; storePath?: string } = {}) {
+    this.dataDir = dataDir;
+    this.storePath = options.storePath || join(dataDir, 'directory.json');
+    this.ttlMs = options.ttlMs ?? DIRECTORY_ENTRY_TTL_MS;
+    this.maxEntries = options.maxEntries ?? DIRECTORY_MAX_ENTRIES;
+    this.load();
+  }
+
+  getStorePath(): string {
+    return this.storePath;
+  }
+
+  private load(): void {
+    if (!existsSync(this.storePath)) return;
+    try {
+      const parsed = JSON.parse(readFileSync(this.storePath, 'utf8'));
+      for (const entry of Array.isArray(parsed?.claws) ? parsed.claws : []) {
+        if (entry?.identityKey && entry.endpoint) this.entries.set(entry.identityKey, entry);
+      }
+    } catch {
+      // start empty; the next registration rewrites the file
+    }
+  }
+
+  private save(): void {
+    if (!existsSync(this.dataDir)) {
+      mkdirSync(this.dataDir, { recursive: true });
+    }
+    writeFileSync(this.storePath, JSON.stringify({ claws: Array.from(this.entries.values()) }, null, 2), 'utf8');
+  }
+
+  get(identityKey: string): DirectoryEntry | undefined {
+    return this.entries.get(identityKey);
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * List (or update) a checked registration whose endpoint answered its
+   * challenge. A registration no newer than the listed one is a replay; an
+   * endpoint now proven by another key moves to it.
+   */
+  register(registration: DirectoryRegistration, now = Date.now()): DirectoryEntry {
+    const existing = this.entries.get(registration.identityKey);
+    if (existing && Date.parse(registration.timestamp) <= Date.parse(existing.registeredAt)) {
+      throw new Error('Registration is no newer than the one listed');
+    }
+    if (!existing) {
+      this.expire(now);
+      if (this.entries.size >= this.maxEntries) throw new Error(`Directory is full (${this.maxEntries} entries)`);
+    }
+    const endpoint = registration.endpoint.replace(/\/+$/, '');
+    for (const [identityKey, other] of this.entries) {
+      if (identityKey !== registration.identityKey && other.endpoint === endpoint) this.entries.delete(identityKey);
+    }
+    const seen = new Date(now).toISOString();
+    const entry: DirectoryEntry = {
+      identityKey: registration.identityKey,
+      endpoint,
+      capabilities: Array.from(new Set(registration.capabilities)),
+      status: 'online',
+      registeredAt: registration.timestamp,
+      lastSeen: seen,
+      lastCheckedAt: seen,
+      failures: 0
+    };
+    if (registration.chain) entry.chain = registration.chain;
+    this.entries.set(entry.identityKey, entry);
+    this.save();
+    return entry;
+  }
+
+  /** Record a liveness check. Ignored if the Claw re-registered elsewhere meanwhile. */
+  recordCheck(identityKey: string, endpoint: string, ok: boolean, error?: string, now = Date.now()): boolean {
+    const entry = this.entries.get(identityKey);
+    if (!entry || entry.endpoint !== endpoint.replace(/\/+$/, '')) return false;
+    const at = new Date(now).toISOString();
+    entry.lastCheckedAt = at;
+    if (ok) {
+      entry.status = 'online';
+      entry.lastSeen = at;
+      entry.failures = 0;
+      entry.lastError = undefined;
+    } else {
+      entry.status = 'offline';
+      entry.failures++;
+      entry.lastError = error;
+    }
+    this.save();
+    return true;
+  }
+
+  /** Entries last challenged more than `intervalMs` ago, longest-waiting first. */
+  dueForCheck(intervalMs: number, now = Date.now()): DirectoryEntry[] {
+    return Array.from(this.entries.values())
+      .filter(e => !e.lastCheckedAt || now - Date.parse(e.lastCheckedAt) >= intervalMs)
+      .sort((a, b) => (a.lastCheckedAt || '').localeCompare(b.lastCheckedAt || ''));
+  }
+
+  /** Drop entries not seen alive or re-registered within the TTL. Returns their identity keys. */
+  expire(now = Date.now()): string[] {
+    const removed: string[] = [];
+    for (const [identityKey, entry] of this.entries) {
+      if (now - Date.parse(entry.lastSeen) > this.ttlMs) {
+        this.entries.delete(identityKey);
+        removed.push(identityKey);
+      }
+    }
+    if (removed.length > 0) this.save();
+    return removed;
+  }
+
+  /** Matching entries, online first, then most recently seen. */
+  search(query: DirectoryQuery = {}): DirectoryPage {
+    const status = query.status ?? 'online';
+    const needle = query.q?.trim().toLowerCase();
+    const matching = Array.from(this.entries.values())
+      .filter(e => (status === 'all' || e.status === status)
+        && (!query.capability || e.capabilities.includes(query.capability))
+        && (!query.chain || e.chain === query.chain)
+        && (!needle || e.identityKey.toLowerCase().includes(needle) || e.endpoint.toLowerCase().includes(needle)
+          || e.capabilities.some(c => c.toLowerCase().includes(needle))))
+      .sort((a, b) => (a.status === b.status ? 0 : a.status === 'online' ? -1 : 1) || b.lastSeen.localeCompare(a.lastSeen));
+    const offset = Math.max(0, Math.floor(query.offset ?? 0));
+    const limit = Math.min(DIRECTORY_MAX_PAGE_SIZE, Math.max(1, Math.floor(query.limit ?? DIRECTORY_PAGE_SIZE)));
+    const claws = matching.slice(offset, offset + limit);
+    return {
+      total: matching.length,
+      registered: matching.filter(e => e.status === 'online').length,
+      claws,
+      offset,
+      nextOffset: offset + claws.length < matching.length ? offset + claws.length : null
+    };
+  }
+}
@@ -0,0 +1,132 @@
+import { DiscoveryQuery, DiscoveryResponse } from '../types';
+import { checkDiscoveryResponse } from '../protocol/discovery';
+import { DISCOVERY_QUERY_TTL_MS } from '../protocol/constants';
+
+/** One Claw offering the capability, merged across every responder that listed it. */
+export interface DiscoveryResult {
+  identityKey: string;
+  clawId: string;
+  capability: string;
+  endpoint: string;
+  reputation: number;          // mean of what the responders reported
+  uptime: number;
+  lastSeen: string;            // most recent any responder saw
+  reportedBy: string[];        // responder identity keys
+}
+
+export interface DiscoveryResultSet {
+  query: DiscoveryQuery;
+  results: DiscoveryResult[];  // most responders first, then best reputation
+  responders: string[];
+  rejected: number;            // callbacks we refused for this query
+  createdAt: number;
+  expiresAt: number;           // responses after this are refused
+}
+
+type ReportedResult = DiscoveryResponse['results'][number] & { responder: string };
+
+interface TrackedQuery {
+  set: DiscoveryResultSet;
+  reports: Map<string, ReportedResult[]>;  // identityKey → each responder's entry
+}
+
+/**
+ * Discovery queries this Claw sent, and the responses that came back to
+ * /discovery/callback. Only responses to a query we are still tracking are
+ * accepted, once per responder; result sets are kept for a while after the
+ * query stops collecting so they can still be read.
+ */
+export class DiscoveryTracker {
+  private queries: Map<string, TrackedQuery> = new Map(); // queryId → tracked query
+  private ttlMs: number;
+  private maxSize: number;
+
+  constructor(ttlMs = DISCOVERY_QUERY_TTL_MS, maxSize = 100) {
+    this.ttlMs = ttlMs;
+    this.maxSize = maxSize;
+  }
+
+  track(query: DiscoveryQuery): DiscoveryResultSet {
+    const now = Date.now();
+    const set: DiscoveryResultSet = {
+      query,
+      results: [],
+      responders: [],
+      rejected: 0,
+      createdAt: now,
+      expiresAt: now + this.ttlMs
+    };
+    this.queries.set(query.queryId, { set, reports: new Map() });
+    this.evict();
+    return set;
+  }
+
+  get(queryId: string): DiscoveryResultSet | undefined {
+    return this.queries.get(queryId)?.set;
+  }
+
+  /** Merge a response into its query's result set. Returns the problem if it was refused. */
+  async accept(response: DiscoveryResponse, now = Date.now()): Promise<string | null> {
+    const tracked = this.queries.get(response?.originalQueryId);
+    if (!tracked) return 'Unknown query';
+    const { set } = tracked;
+    if (now > set.expiresAt) return 'Query is no longer collecting responses';
+    const problem = await checkDiscoveryResponse(response, set.query, now);
+    if (problem) {
+      set.rejected++;
+      return problem;
+    }
+    if (set.responders.includes(response.responder)) return 'Already answered';
+    set.responders.push(response.responder);
+
+    const seen = new Set<string>();
+    for (const result of response.results) {
+      if (result.identityKey === set.query.requesterIdentityKey || seen.has(result.identityKey)) continue;
+      seen.add(result.identityKey);
+      const reports = tracked.reports.get(result.identityKey) || [];
+      reports.push({ ...result, responder: response.responder });
+      tracked.reports.set(result.identityKey, reports);
+    }
+    set.results = this.merge(tracked);
+    return null;
+  }
+
+  size(): number {
+    return this.queries.size;
+  }
+
+  private merge(tracked: TrackedQuery): DiscoveryResult[] {
+    const results: DiscoveryResult[] = [];
+    for (const [identityKey, reports] of tracked.reports) {
+      // The latest sighting decides the endpoint
+      const latest = reports.reduce((a, b) => (Date.parse(b.lastSeen) || 0) > (Date.parse(a.lastSeen) || 0) ? b : a);
+      const mean = (pick: (r: ReportedResult) => number) =>
+        Math.round(reports.reduce((sum, r) => sum + (Number.isFinite(pick(r)) ? pick(r) : 0), 0) / reports.length);
+      results.push({
+        identityKey,
+        clawId: latest.clawId,
+        capability: latest.capability,
+        endpoint: latest.endpoint,
+        reputation: mean(r => r.reputation),
+        uptime: mean(r => r.uptime),
+        lastSeen: latest.lastSeen,
+        reportedBy: reports.map(r => r.responder)
+      });
+    }
+    return results.sort((a, b) => b.reportedBy.length - a.reportedBy.length || b.reputation - a.reputation);
+  }
+
+  private evict(): void {
+    // Result sets stay readable for one TTL after they stop collecting
+    const cutoff = Date.now() - this.ttlMs;
+    for (const [queryId, tracked] of this.queries) {
+      if (tracked.set.expiresAt < cutoff) this.queries.delete(queryId);
+    }
+    // Map iteration is insertion order → oldest first
+    while (this.queries.size > this.maxSize) {
+      const oldest = this.queries.keys().next().value;
+      if (oldest === undefined) break;
+      this.queries.delete(oldest);
+    }
+  }
+}
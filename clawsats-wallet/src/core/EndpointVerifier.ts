@@ -0,0 +1,85 @@
+import { randomBytes } from 'crypto';
+import { EndpointProof, EndpointProofStatus } from '../types';
+import { logWarn } from '../utils';
+import { checkEndpointProof } from '../protocol/ownership';
+import { ENDPOINT_PROOF_RETRY_MS, ENDPOINT_PROOF_TIMEOUT_MS, ENDPOINT_PROOF_VALID_MS } from '../protocol/constants';
+
+const TAG = 'endpoint-proof';
+
+export interface EndpointProofResult {
+  identityKey: string;
+  endpoint: string;
+  status: EndpointProofStatus;
+  checkedAt: string;
+  problem?: string;
+}
+
+export interface EndpointVerifierOptions {
+  timeoutMs: number;
+  validMs: number;             // how long a verified result is reused
+  retryMs: number;             // how long a failed one is
+}
+
+/**
+ * Challenges endpoints for ownership proofs (GET /endpoint-proof with a fresh
+ * nonce) and remembers the outcome per identity key and endpoint, so sweeps
+ * and hires don't challenge the same peer on every pass.
+ */
+export class EndpointVerifier {
+  private results: Map<string, EndpointProofResult> = new Map(); // `${identityKey} ${endpoint}` → last outcome
+  private options: EndpointVerifierOptions;
+  private maxSize: number;
+
+  constructor(options: Partial<EndpointVerifierOptions> = {}, maxSize = 2000) {
+    this.maxSize = maxSize;
+    this.options = {
+      timeoutMs: ENDPOINT_PROOF_TIMEOUT_MS,
+      validMs: ENDPOINT_PROOF_VALID_MS,
+      retryMs: ENDPOINT_PROOF_RETRY_MS,
+      ...options
+    };
+  }
+
+  /** The remembered outcome for this key at this endpoint, while it is still good. */
+  cached(identityKey: string, endpoint: string, now = Date.now()): EndpointProofResult | undefined {
+    const result = this.results.get(this.cacheKey(identityKey, endpoint));
+    if (!result) return undefined;
+    const ttl = result.status === 'verified' ? this.options.validMs : this.options.retryMs;
+    return now - Date.parse(result.checkedAt) < ttl ? result : undefined;
+  }
+
+  /** Does `identityKey` control `endpoint`? Never throws: an unreachable endpoint is unverified. */
+  async verify(identityKey: string, endpoint: string, options: { force?: boolean } = {}): Promise<EndpointProofResult> {
+    const base = endpoint.replace(/\/+$/, '');
+    if (!options.force) {
+      const cached = this.cached(identityKey, base);
+      if (cached) return cached;
+    }
+    const result: EndpointProofResult = { identityKey, endpoint: base, status: 'unverified', checkedAt: new Date().toISOString() };
+    try {
+      const nonce = randomBytes(24).toString('base64url');
+      const res = await fetch(`${base}/endpoint-proof?nonce=${nonce}`, { signal: AbortSignal.timeout(this.options.timeoutMs) });
+      if (!res.ok) throw new Error(`GET /endpoint-proof returned ${res.status}`);
+      const proof = await res.json() as EndpointProof;
+      result.problem = await checkEndpointProof(proof, { identityKey, endpoint: base, nonce }) || undefined;
+      if (!result.problem) result.status = 'verified';
+    } catch (err) {
+      result.problem = err instanceof Error ? err.message : String(err);
+    }
+    if (result.problem) logWarn(TAG, `${identityKey.substring(0, 16)}... at ${base} unverified: ${result.problem}`);
+    const key = this.cacheKey(identityKey, base);
+    this.results.delete(key);
+    this.results.set(key, result);
+    // Map iteration is insertion order → oldest first
+    while (this.results.size > this.maxSize) {
+      const oldest = this.results.keys().next().value;
+      if (oldest === undefined) break;
+      this.results.delete(oldest);
+    }
+    return result;
+  }
+
+  private cacheKey(identityKey: string, endpoint: string): string {
+    return `${identityKey} ${endpoint.replace(/\/+$/, '')}`;
+  }
+}
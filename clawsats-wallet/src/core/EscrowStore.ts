@@ -0,0 +1,157 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { EscrowDelivery, EscrowParty, EscrowPayee, EscrowRuling, EscrowTerms } from '../types';
+
+export type EscrowStatus =
+  | 'proposed'    // terms agreed, not yet funded
+  | 'funded'      // 2-of-3 output on chain, job running
+  | 'delivered'   // provider returned a signed delivery
+  | 'released'    // settled to the provider by requester + provider
+  | 'refunded'    // settled to the requester (provider reported failure)
+  | 'disputed'    // requester hired the arbiter
+  | 'resolved'    // arbiter ruled; winner can settle
+  | 'settled'     // ruling's settlement tx completed
+  | 'cancelled';
+
+const TRANSITIONS: Record<EscrowStatus, EscrowStatus[]> = {
+  proposed: ['funded', 'cancelled'],
+  funded: ['delivered', 'refunded', 'disputed'],
+  delivered: ['released', 'refunded', 'disputed'],
+  disputed: ['resolved', 'released'],
+  resolved: ['settled'],
+  released: [],
+  refunded: [],
+  settled: [],
+  cancelled: []
+};
+
+export interface EscrowRecord {
+  terms: EscrowTerms;
+  role: EscrowParty;              // this Claw's side of the escrow
+  status: EscrowStatus;
+  params?: Record<string, unknown>;
+  funding?: { txid: string; transaction: string; outputIndex?: number };  // transaction: base64 BEEF
+  delivery?: EscrowDelivery;
+  result?: unknown;
+  receipt?: unknown;
+  /** Settlement signatures collected so far, per payee then per signer (checksig hex). */
+  settlementSignatures: Partial<Record<EscrowPayee, Partial<Record<EscrowParty, string>>>>;
+  dispute?: { raisedBy: EscrowParty; reason: string; raisedAt: string };
+  ruling?: EscrowRuling;
+  settlement?: { payTo: EscrowPayee; txid: string; transaction?: string; settledAt: string };
+  history: Array<{ status: EscrowStatus; at: string; note?: string }>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface EscrowStoreState {
+  escrows: Record<string, EscrowRecord>;
+}
+
+/**
+ * Persistent escrow state (data/escrows.json), kept by each party — requester,
+ * provider and arbiter — through the funding → delivery → release or
+ * dispute → ruling → settlement lifecycle. Written through on every change
+ * so a restart never loses which settlement a party has already signed.
+ */
+export class EscrowStore {
+  private dataDir: string;
+  private storePath: string;
+
+  constructor(dataDir: string, storePath?: string) {
+    this.dataDir = dataDir;
+    this.storePath = storePath || join(dataDir, 'escrows.json');
+  }
+
+  private ensureDataDir(): void {
+    if (!existsSync(this.dataDir)) {
+      mkdirSync(this.dataDir, { recursive: true });
+    }
+  }
+
+  private load(): EscrowStoreState {
+    this.ensureDataDir();
+    if (!existsSync(this.storePath)) return { escrows: {} };
+    try {
+      const parsed = JSON.parse(readFileSync(this.storePath, 'utf8'));
+      return { escrows: parsed?.escrows && typeof parsed.escrows === 'object' ? parsed.escrows : {} };
+    } catch {
+      return { escrows: {} };
+    }
+  }
+
+  private save(state: EscrowStoreState): void {
+    this.ensureDataDir();
+    writeFileSync(this.storePath, JSON.stringify(state, null, 2), 'utf8');
+  }
+
+  get(escrowId: string): EscrowRecord | null {
+    return this.load().escrows[escrowId] || null;
+  }
+
+  list(filter: { status?: EscrowStatus; role?: EscrowParty } = {}): EscrowRecord[] {
+    return Object.values(this.load().escrows)
+      .filter(r => (!filter.status || r.status === filter.status) && (!filter.role || r.role === filter.role))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  /** Start tracking an escrow. Throws if this Claw already has one with the same id. */
+  create(init: {
+    terms: EscrowTerms;
+    role: EscrowParty;
+    status: EscrowStatus;
+    params?: Record<string, unknown>;
+    note?: string;
+  }): EscrowRecord {
+    const state = this.load();
+    const id = init.terms.escrowId;
+    if (state.escrows[id]) throw new Error(`Escrow ${id} already exists`);
+    const now = new Date().toISOString();
+    const record: EscrowRecord = {
+      terms: init.terms,
+      role: init.role,
+      status: init.status,
+      params: init.params,
+      settlementSignatures: {},
+      history: [{ status: init.status, at: now, note: init.note }],
+      createdAt: now,
+      updatedAt: now
+    };
+    state.escrows[id] = record;
+    this.save(state);
+    return record;
+  }
+
+  /** Change fields without a status change (e.g. record a signature). */
+  update(escrowId: string, mutate: (record: EscrowRecord) => void): EscrowRecord {
+    const state = this.load();
+    const record = state.escrows[escrowId];
+    if (!record) throw new Error(`Unknown escrow ${escrowId}`);
+    mutate(record);
+    record.updatedAt = new Date().toISOString();
+    this.save(state);
+    return record;
+  }
+
+  /** Move to `to`, applying `mutate` in the same write. Throws on a transition the lifecycle doesn't allow. */
+  transition(
+    escrowId: string,
+    to: EscrowStatus,
+    note?: string,
+    mutate?: (record: EscrowRecord) => void
+  ): EscrowRecord {
+    const state = this.load();
+    const record = state.escrows[escrowId];
+    if (!record) throw new Error(`Unknown escrow ${escrowId}`);
+    if (!TRANSITIONS[record.status].includes(to)) {
+      throw new Error(`Escrow ${escrowId} cannot go from ${record.status} to ${to}`);
+    }
+    if (mutate) mutate(record);
+    const now = new Date().toISOString();
+    record.status = to;
+    record.updatedAt = now;
+    record.history.push({ status: to, at: now, note });
+    this.save(state);
+    return record;
+  }
+}
@@ -0,0 +1,141 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { FraudReport } from '../types';
+import { FRAUD_AUTO_BLOCK_REPORTS } from '../protocol/constants';
+import { ReputationEngine } from './ReputationEngine';
+
+export type FraudReportStatus =
+  | 'open'        // a peer's report waiting for the operator
+  | 'confirmed'   // counts against the accused
+  | 'dismissed';
+
+export interface FraudReportRecord {
+  report: FraudReport;
+  status: FraudReportStatus;
+  source?: string;             // endpoint it was pulled from, 'push' if a peer sent it; absent for ours
+  receivedAt: string;
+  confirmedAt?: string;
+  resolvedAt?: string;
+  resolution?: string;         // operator's note
+}
+
+export interface FraudReportFilter {
+  accused?: string;
+  reporter?: string;
+  status?: FraudReportStatus;
+}
+
+interface FraudReportStoreState {
+  reports: Record<string, FraudReportRecord>;
+}
+
+/**
+ * Fraud reports this Claw filed or received (data/fraud-reports.json). Ours
+ * are confirmed as filed — we checked the evidence ourselves — while a peer's
+ * waits for the operator. Confirmed reports count against the accused's
+ * reputation, and FRAUD_AUTO_BLOCK_REPORTS of them stop us hiring it.
+ * Written through on every change so the server and the CLI can share it.
+ */
+export class FraudReportStore {
+  private dataDir: string;
+  private storePath: string;
+  private reputation: ReputationEngine | null = null;
+
+  constructor(dataDir: string, storePath?: string) {
+    this.dataDir = dataDir;
+    this.storePath = storePath || join(dataDir, 'fraud-reports.json');
+  }
+
+  getStorePath(): string {
+    return this.storePath;
+  }
+
+  /** Confirming or dismissing a report updates the accused's score in `engine`. */
+  useReputation(engine: ReputationEngine): void {
+    this.reputation = engine;
+  }
+
+  private load(): FraudReportStoreState {
+    if (!existsSync(this.storePath)) return { reports: {} };
+    try {
+      const parsed = JSON.parse(readFileSync(this.storePath, 'utf8'));
+      return { reports: parsed?.reports && typeof parsed.reports === 'object' ? parsed.reports : {} };
+    } catch {
+      return { reports: {} };
+    }
+  }
+
+  private save(state: FraudReportStoreState): void {
+    if (!existsSync(this.dataDir)) {
+      mkdirSync(this.dataDir, { recursive: true });
+    }
+    writeFileSync(this.storePath, JSON.stringify(state, null, 2), 'utf8');
+  }
+
+  get(reportId: string): FraudReportRecord | null {
+    return this.load().reports[reportId] || null;
+  }
+
+  /** Newest first. */
+  list(filter: FraudReportFilter = {}): FraudReportRecord[] {
+    return Object.values(this.load().reports)
+      .filter(r => (!filter.accused || r.report.accused === filter.accused)
+        && (!filter.reporter || r.report.reporter === filter.reporter)
+        && (!filter.status || r.status === filter.status))
+      .sort((a, b) => b.receivedAt.localeCompare(a.receivedAt));
+  }
+
+  /** Keep a checked report. Returns null if we already hold one with that id. */
+  add(report: FraudReport, status: FraudReportStatus, source?: string): FraudReportRecord | null {
+    const state = this.load();
+    if (state.reports[report.reportId]) return null;
+    const now = new Date().toISOString();
+    const record: FraudReportRecord = { report, status, source, receivedAt: now };
+    if (status === 'confirmed') {
+      record.confirmedAt = now;
+      this.reputation?.recordFraudReport(report.accused);
+    }
+    state.reports[report.reportId] = record;
+    this.save(state);
+    return record;
+  }
+
+  /** The operator's verdict. Dismissing a confirmed report takes it back out of the score. */
+  resolve(reportId: string, status: 'confirmed' | 'dismissed', note?: string): FraudReportRecord {
+    const state = this.load();
+    const record = state.reports[reportId];
+    if (!record) throw new Error(`Unknown fraud report ${reportId}`);
+    if (record.status === status) throw new Error(`Fraud report ${reportId} is already ${status}`);
+    const now = new Date();
+    if (status === 'confirmed') {
+      record.confirmedAt = now.toISOString();
+      this.reputation?.recordFraudReport(record.report.accused, now.getTime());
+    } else if (record.status === 'confirmed') {
+      const confirmedAt = Date.parse(record.confirmedAt || record.receivedAt);
+      this.reputation?.retractFraudReport(record.report.accused, confirmedAt, now.getTime());
+      record.confirmedAt = undefined;
+    }
+    record.status = status;
+    record.resolvedAt = now.toISOString();
+    if (note !== undefined) record.resolution = note;
+    this.save(state);
+    return record;
+  }
+
+  confirmedAgainst(identityKey: string): number {
+    return this.list({ accused: identityKey, status: 'confirmed' }).length;
+  }
+
+  /** Providers with FRAUD_AUTO_BLOCK_REPORTS confirmed reports against them: never hired. */
+  blocked(): Set<string> {
+    const counts = new Map<string, number>();
+    for (const record of this.list({ status: 'confirmed' })) {
+      counts.set(record.report.accused, (counts.get(record.report.accused) || 0) + 1);
+    }
+    return new Set(Array.from(counts).filter(([, n]) => n >= FRAUD_AUTO_BLOCK_REPORTS).map(([key]) => key));
+  }
+
+  isBlocked(identityKey: string): boolean {
+    return !!identityKey && this.confirmedAgainst(identityKey) >= FRAUD_AUTO_BLOCK_REPORTS;
+  }
+}
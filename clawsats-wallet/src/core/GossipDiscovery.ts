@@ -0,0 +1,119 @@
+import { PeerExchangePage } from '../types';
+import { log } from '../utils';
+import { checkPeerExchangePage } from '../protocol/gossip';
+import {
+  GOSSIP_MAX_NEW_PER_SOURCE,
+  GOSSIP_MAX_NEW_PER_SWEEP,
+  GOSSIP_MAX_PAGES_PER_SOURCE,
+  GOSSIP_MAX_SOURCES,
+  PEER_EXCHANGE_PAGE_SIZE
+} from '../protocol/constants';
+
+const TAG = 'gossip';
+
+/** An endpoint a peer told us about. Only a probe of its /discovery says who is really there. */
+export interface GossipCandidate {
+  identityKey: string;         // as the publisher claims
+  endpoint: string;
+  capabilities: string[];
+  publisher: string;
+}
+
+export interface GossipSourceReport {
+  endpoint: string;
+  publisher?: string;
+  pages: number;
+  offered: number;             // entries on the pages we read
+  accepted: number;            // new to us and within the limits
+  error?: string;
+}
+
+export interface GossipLimits {
+  maxSources: number;
+  maxPagesPerSource: number;
+  maxNewPerSource: number;
+  maxNewPerSweep: number;
+  timeoutMs: number;
+}
+
+/**
+ * Gossip-based peer discovery: reads the signed GET /peers pages of our best
+ * peers and returns the endpoints we don't know yet. Limits on sources, pages
+ * and new endpoints per source and per sweep keep any one peer — or all of
+ * them — from flooding the registry; callers probe each candidate before
+ * registering it.
+ */
+export class GossipDiscovery {
+  private selfIdentityKey: string;
+  private limits: GossipLimits;
+
+  constructor(selfIdentityKey: string, limits: Partial<GossipLimits> = {}) {
+    this.selfIdentityKey = selfIdentityKey;
+    this.limits = {
+      maxSources: GOSSIP_MAX_SOURCES,
+      maxPagesPerSource: GOSSIP_MAX_PAGES_PER_SOURCE,
+      maxNewPerSource: GOSSIP_MAX_NEW_PER_SOURCE,
+      maxNewPerSweep: GOSSIP_MAX_NEW_PER_SWEEP,
+      timeoutMs: 8000,
+      ...limits
+    };
+  }
+
+  /**
+   * Ask `sources` (best first; `identityKey` pins who must have signed) for
+   * their peers. `isKnown` filters out what we already have.
+   */
+  async collect(
+    sources: Array<{ endpoint: string; identityKey?: string }>,
+    isKnown: (identityKey: string, endpoint: string) => boolean,
+    capability?: string
+  ): Promise<{ candidates: GossipCandidate[]; sources: GossipSourceReport[] }> {
+    const candidates: GossipCandidate[] = [];
+    const seen = new Set<string>();
+    const reports: GossipSourceReport[] = [];
+
+    for (const source of sources.slice(0, this.limits.maxSources)) {
+      if (candidates.length >= this.limits.maxNewPerSweep) break;
+      const base = source.endpoint.replace(/\/+$/, '');
+      const report: GossipSourceReport = { endpoint: base, pages: 0, offered: 0, accepted: 0 };
+      reports.push(report);
+      try {
+        let offset: number | null = 0;
+        while (offset !== null && report.pages < this.limits.maxPagesPerSource) {
+          const page = await this.fetchPage(base, offset, capability);
+          const problem = await checkPeerExchangePage(page, { expectedPublisher: source.identityKey });
+          if (problem) throw new Error(problem);
+          report.publisher = page.publisher;
+          report.pages++;
+          report.offered += page.entries.length;
+
+          for (const entry of page.entries) {
+            if (report.accepted >= this.limits.maxNewPerSource || candidates.length >= this.limits.maxNewPerSweep) break;
+            const endpoint = entry.endpoint.replace(/\/+$/, '');
+            if (entry.identityKey === this.selfIdentityKey || entry.identityKey === page.publisher) continue;
+            if (seen.has(entry.identityKey) || seen.has(endpoint) || isKnown(entry.identityKey, endpoint)) continue;
+            seen.add(entry.identityKey);
+            seen.add(endpoint);
+            candidates.push({ identityKey: entry.identityKey, endpoint, capabilities: entry.capabilities, publisher: page.publisher });
+            report.accepted++;
+          }
+          if (report.accepted >= this.limits.maxNewPerSource) break;
+          offset = typeof page.nextOffset === 'number' && page.nextOffset > offset ? page.nextOffset : null;
+        }
+      } catch (err) {
+        report.error = err instanceof Error ? err.message : String(err);
+      }
+    }
+
+    if (candidates.length > 0) log(TAG, `${candidates.length} new endpoints from ${reports.filter(r => r.accepted > 0).length} peers`);
+    return { candidates, sources: reports };
+  }
+
+  private async fetchPage(base: string, offset: number, capability?: string): Promise<PeerExchangePage> {
+    const query = new URLSearchParams({ offset: String(offset), limit: String(PEER_EXCHANGE_PAGE_SIZE) });
+    if (capability) query.set('capability', capability);
+    const res = await fetch(`${base}/peers?${query}`, { signal: AbortSignal.timeout(this.limits.timeoutMs) });
+    if (!res.ok) throw new Error(`GET /peers returned ${res.status}`);
+    return await res.json() as PeerExchangePage;
+  }
+}
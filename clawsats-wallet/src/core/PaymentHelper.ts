@@ -1,8 +1,49 @@
-import { FEE_SATS, FEE_IDENTITY_KEY, FEE_DERIVATION_SUFFIX } from '../protocol/constants';
+import { FEE_SATS, FEE_IDENTITY_KEY } from '../protocol/constants';
+import { deriveFeeLockingScript } from '../protocol/fee';
+import { checkQuote, hashParams, verifyQuoteSignature } from '../protocol/quote';
+import {
+  buildHashlockLockingScript,
+  deriveHashlockProviderKey,
+  hashlockCommitment,
+  readHashlockResult
+} from '../protocol/hashlock';
+import { parsePaymentTransaction } from '../protocol/fee';
+import { checkReceipt, countersignReceipt } from '../protocol/receipt';
+import { CallReceipt, SignedQuote } from '../types';
+import { randomBytes } from 'crypto';
 import { log, logWarn } from '../utils';
+import {
+  CreditAuthorization,
+  CreditAuthAction,
+  CREDIT_PROTOCOL_ID,
+  CREDIT_KEY_ID,
+  serializeCreditAuthorization
+} from './CreditLedger';
+import { networkFeeFromAction } from './AccountingLedger';
+import { BudgetManager, estimateTxFeeSats } from './BudgetManager';
+import { ReceiptStore } from './ReceiptStore';
+import { ReputationEngine } from './ReputationEngine';
 
 const TAG = 'payment';
 
+/** What a payForCapability call spent, reported through options.onPaymentSent. */
+export interface SentPayment {
+  endpoint: string;
+  providerIdentityKey: string;
+  satoshis: number;
+  feeSats: number;
+  txid?: string;
+  networkFeeSats?: number;
+}
+
+/** What the requester could confirm about a paid call's receipt (response.receiptStatus). */
+export interface ReceiptStatus {
+  verified: boolean;       // provider signature, parties and result hash check out
+  countersigned: boolean;  // requesterSignature added to response.receipt
+  acknowledged: boolean;   // provider accepted it at POST /receipts/ack
+  problem?: string;
+}
+
 /**
  * Client-side helper for paying a remote Claw's capability via BRC-105.
  *
@@ -10,7 +51,8 @@ const TAG = 'payment';
  *   1. Call the capability endpoint with no payment → get 402 + challenge headers
  *   2. Build a BSV tx with two outputs:
  *      - output 0: provider amount → BRC-29 derived from provider's identity key
- *      - output 1: FEE_SATS (2 sat) → BRC-29 derived from FEE_IDENTITY_KEY (treasury)
+ *      - output 1: FEE_SATS (2 sat) → BRC-29 derived from FEE_IDENTITY_KEY (treasury),
+ *        'anyone' counterparty so the provider can derive and verify the exact script
  *   3. Re-call with x-bsv-payment JSON header containing the tx
  *
  * Each payment goes to a FRESH derived address (BRC-29/BRC-42).
@@ -28,6 +70,16 @@ export class PaymentHelper {
    * @param endpoint - Full URL of the capability, e.g. "http://host:3321/call/echo"
    * @param params - JSON body to send with the capability request
    * @param senderIdentityKey - This Claw's identity key (for x-bsv-identity-key header)
+   * @param options.onPaymentSent - Called once the payment tx is built, before the paid
+   *   retry — lets callers book the spend even if the provider then fails
+   * @param options.budget - If set, the 'hire' budget is reserved before the tx is built
+   * @param options.quote - Signed quote from requestQuote(); pays at its price and skips the 402 round-trip
+   * @param options.hashlock - Ask for pay-on-result: if the capability is verifiable, output 0 is locked
+   *   to the provider's result commitment and the released result is checked against it. Providers
+   *   answer with a standard challenge for other capabilities, which is then paid as usual.
+   * @param options.receipts - If set, the returned receipt is stored with the payment txid (and options.jobId)
+   * @param options.reputation - If set, the call's outcome, response time and receipt check are recorded
+   *   against the provider
    * @returns The capability result from the provider
    */
   static async payForCapability(
@@ -38,6 +90,13 @@ export class PaymentHelper {
     options?: {
       maxTotalSats?: number;
       timeoutMs?: number;
+      onPaymentSent?: (payment: SentPayment) => void;
+      budget?: BudgetManager;
+      quote?: SignedQuote;
+      hashlock?: boolean;
+      receipts?: ReceiptStore;
+      reputation?: ReputationEngine;
+      jobId?: string;
     }
   ): Promise<any> {
     const timeoutMs = Math.min(90000, Math.max(5000, Number(options?.timeoutMs || PaymentHelper.DEFAULT_TIMEOUT_MS)));
@@ -45,36 +104,67 @@ export class PaymentHelper {
       ? Math.max(0, Math.floor(Number(options?.maxTotalSats)))
       : null;
 
-    // Step 1: Call without payment to get 402 challenge
-    log(TAG, `Requesting challenge from ${endpoint}...`);
-    const challengeRes = await fetch(endpoint, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-bsv-identity-key': senderIdentityKey
-      },
-      body: JSON.stringify(params),
-      signal: AbortSignal.timeout(timeoutMs)
-    });
+    let satoshisRequired: number;
+    let derivationPrefix: string;
+    let feeIdentityKey: string;
+    let feeSats: number;
+    let providerIdentityKey: string;
+    let commitment: string | null = null;
+    const quote = options?.quote;
+    if (quote && options?.hashlock) {
+      throw new Error('A signed quote cannot be paid hash-locked: the result is only committed in a 402 challenge');
+    }
+    if (quote) {
+      // A signed quote stands in for the 402 round-trip
+      const capability = decodeURIComponent(new URL(endpoint).pathname.split('/').filter(Boolean).pop() || '');
+      const problem = checkQuote(quote, { capability, params, requester: senderIdentityKey });
+      if (problem) throw new Error(`Quote ${quote.quoteId} unusable: ${problem}`);
+      if (!(await verifyQuoteSignature(quote))) throw new Error(`Quote ${quote.quoteId} has an invalid provider signature`);
+      satoshisRequired = quote.satoshis;
+      derivationPrefix = quote.derivationPrefix;
+      feeIdentityKey = FEE_IDENTITY_KEY;
+      feeSats = quote.feeSats;
+      providerIdentityKey = quote.provider;
+    } else {
+      // Step 1: Call without payment to get 402 challenge
+      log(TAG, `Requesting challenge from ${endpoint}...`);
+      const challengeRes = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-bsv-identity-key': senderIdentityKey,
+          ...(options?.hashlock ? { 'x-clawsats-payment-mode': 'hashlock' } : {})
+        },
+        body: JSON.stringify(params),
+        signal: AbortSignal.timeout(timeoutMs)
+      });
 
-    if (challengeRes.status !== 402) {
-      // Either free capability (200) or error
-      if (challengeRes.ok) {
-        return challengeRes.json();
+      if (challengeRes.status !== 402) {
+        // Either free capability (200) or error
+        if (challengeRes.ok) {
+          return challengeRes.json();
+        }
+        const errBody = await challengeRes.text();
+        throw new Error(`Unexpected status ${challengeRes.status}: ${errBody}`);
       }
-      const errBody = await challengeRes.text();
-      throw new Error(`Unexpected status ${challengeRes.status}: ${errBody}`);
-    }
 
-    // Step 2: Parse challenge headers
-    const satoshisRequired = parseInt(
-      challengeRes.headers.get('x-bsv-payment-satoshis-required') || '0', 10
-    );
-    const derivationPrefix = challengeRes.headers.get('x-bsv-payment-derivation-prefix') || '';
-    const feeIdentityKey = challengeRes.headers.get('x-clawsats-fee-identity-key') || FEE_IDENTITY_KEY;
-    const feeSats = parseInt(
-      challengeRes.headers.get('x-clawsats-fee-satoshis-required') || String(FEE_SATS), 10
-    );
+      // Step 2: Parse challenge headers
+      satoshisRequired = parseInt(
+        challengeRes.headers.get('x-bsv-payment-satoshis-required') || '0', 10
+      );
+      derivationPrefix = challengeRes.headers.get('x-bsv-payment-derivation-prefix') || '';
+      feeIdentityKey = challengeRes.headers.get('x-clawsats-fee-identity-key') || FEE_IDENTITY_KEY;
+      feeSats = parseInt(
+        challengeRes.headers.get('x-clawsats-fee-satoshis-required') || String(FEE_SATS), 10
+      );
+      providerIdentityKey = challengeRes.headers.get('x-bsv-identity-key') || '';
+      if (challengeRes.headers.get('x-clawsats-payment-mode') === 'hashlock') {
+        commitment = challengeRes.headers.get('x-clawsats-hashlock-commitment');
+        if (!commitment || !providerIdentityKey) {
+          throw new Error('Hashlock challenge is missing its commitment or provider identity key');
+        }
+      }
+    }
 
     if (!derivationPrefix) {
       throw new Error('402 response missing x-bsv-payment-derivation-prefix');
@@ -99,36 +189,57 @@ export class PaymentHelper {
 
     // Step 3: Build the payment transaction via BRC-100 createAction
     // Output 0: provider payment (BRC-29 derived from provider's identity key)
-    // Output 1: protocol fee (BRC-29 derived from FEE_IDENTITY_KEY)
-    const providerIdentityKey = challengeRes.headers.get('x-bsv-identity-key') || '';
+    // Output 1: protocol fee (BRC-29 derived from FEE_IDENTITY_KEY, publicly derivable
+    //           so the provider can verify the exact treasury script)
     const derivationSuffix = 'clawsats';
-    const feeSuffix = FEE_DERIVATION_SUFFIX;
-
-    const actionResult = await wallet.createAction({
-      description: `ClawSats payment: ${satoshisRequired} sats + ${feeSats} sat fee`,
-      outputs: [
-        {
-          // Output 0: provider payment
-          satoshis: satoshisRequired,
-          lockingScript: await PaymentHelper.deriveLockingScript(
-            wallet, providerIdentityKey || senderIdentityKey,
-            derivationPrefix, derivationSuffix, senderIdentityKey
-          ),
-          outputDescription: 'ClawSats provider payment'
-        },
-        {
-          // Output 1: protocol fee to treasury
-          satoshis: feeSats,
-          lockingScript: await PaymentHelper.deriveLockingScript(
-            wallet, FEE_IDENTITY_KEY,
-            derivationPrefix, feeSuffix, senderIdentityKey
-          ),
-          outputDescription: 'ClawSats protocol fee'
-        }
-      ],
-      labels: ['clawsats-payment'],
-      options: { signAndProcess: true }
-    });
+
+    const reservation = options?.budget?.reserve(
+      'hire',
+      satoshisRequired + feeSats + estimateTxFeeSats(),
+      endpoint
+    );
+    let actionResult: any;
+    try {
+      // Output 0 is either a BRC-29 P2PKH or, in hashlock mode, spendable only by
+      // the provider's derived key together with the committed result.
+      const providerScript = commitment
+        ? buildHashlockLockingScript(
+          commitment,
+          await deriveHashlockProviderKey(wallet, providerIdentityKey, derivationPrefix, derivationSuffix)
+        )
+        : await PaymentHelper.deriveLockingScript(
+          wallet, providerIdentityKey || senderIdentityKey,
+          derivationPrefix, derivationSuffix, senderIdentityKey
+        );
+      actionResult = await wallet.createAction({
+        description: `ClawSats payment: ${satoshisRequired} sats + ${feeSats} sat fee`,
+        outputs: [
+          {
+            // Output 0: provider payment
+            satoshis: satoshisRequired,
+            lockingScript: providerScript,
+            outputDescription: commitment ? 'ClawSats hash-locked provider payment' : 'ClawSats provider payment'
+          },
+          {
+            // Output 1: protocol fee to treasury
+            satoshis: feeSats,
+            lockingScript: deriveFeeLockingScript(derivationPrefix),
+            outputDescription: 'ClawSats protocol fee'
+          }
+        ],
+        labels: ['clawsats-payment'],
+        options: { signAndProcess: true, randomizeOutputs: false }
+      });
+    } catch (err) {
+      if (reservation) options?.budget?.release(reservation.id);
+      throw err;
+    }
+    const networkFeeSats = networkFeeFromAction(actionResult);
+    if (reservation && networkFeeSats !== undefined) {
+      options?.budget?.settle(reservation.id, satoshisRequired + feeSats + networkFeeSats);
+    } else if (reservation) {
+      options?.budget?.settle(reservation.id);
+    }
 
     // Extract the raw tx as base64 for the x-bsv-payment header
     let txBase64: string;
@@ -145,6 +256,14 @@ export class PaymentHelper {
     }
 
     log(TAG, `Payment tx built: ${satoshisRequired + feeSats} sats total`);
+    options?.onPaymentSent?.({
+      endpoint,
+      providerIdentityKey,
+      satoshis: satoshisRequired,
+      feeSats,
+      txid: actionResult.txid || undefined,
+      networkFeeSats
+    });
 
     // Step 4: Re-call with payment proof (BRC-105 §6.3)
     const paymentHeader = JSON.stringify({
@@ -153,27 +272,376 @@ export class PaymentHelper {
       transaction: txBase64
     });
 
+    const callStarted = Date.now();
     const resultRes = await fetch(endpoint, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
         'x-bsv-identity-key': senderIdentityKey,
-        'x-bsv-payment': paymentHeader
+        'x-bsv-payment': paymentHeader,
+        ...(quote ? { 'x-clawsats-quote': JSON.stringify(quote) } : {})
       },
       body: JSON.stringify(params),
       signal: AbortSignal.timeout(timeoutMs)
+    }).catch((err) => {
+      PaymentHelper.recordOutcome(options?.reputation, providerIdentityKey, false);
+      throw err;
     });
+    const latencyMs = Date.now() - callStarted;
 
     if (!resultRes.ok) {
+      PaymentHelper.recordOutcome(options?.reputation, providerIdentityKey, false, latencyMs);
       const errBody = await resultRes.text();
       throw new Error(`Payment accepted but capability failed (${resultRes.status}): ${errBody}`);
     }
 
-    const result = await resultRes.json();
+    const result: any = await resultRes.json();
+    if (commitment) {
+      // The provider claimed our output by revealing a preimage of the commitment.
+      // Prefer the result from the claim tx itself; the response body must match it.
+      let revealed: unknown;
+      try {
+        revealed = result?.hashlock?.claimTransaction
+          ? readHashlockResult(parsePaymentTransaction(Buffer.from(result.hashlock.claimTransaction, 'base64')), commitment)
+          : undefined;
+      } catch {
+        revealed = undefined;
+      }
+      if (revealed !== undefined) result.result = revealed;
+      if (hashlockCommitment(result?.result) !== commitment) {
+        PaymentHelper.recordOutcome(options?.reputation, providerIdentityKey, false, latencyMs);
+        throw new Error(`Provider released a result that does not match its commitment ${commitment}`);
+      }
+    }
     log(TAG, `Capability executed successfully, paid ${resultRes.headers.get('x-bsv-payment-satoshis-paid') || satoshisRequired} sats`);
+    const receiptStatus = await PaymentHelper.acknowledgeReceipt(wallet, endpoint, result, providerIdentityKey, senderIdentityKey, timeoutMs);
+    PaymentHelper.recordOutcome(options?.reputation, providerIdentityKey, true, latencyMs, receiptStatus.verified);
+    PaymentHelper.storeReceipt(options?.receipts, result, endpoint, {
+      txid: actionResult.txid || undefined,
+      jobId: options?.jobId
+    });
     return result;
   }
 
+  /** Record a paid call's outcome (and receipt check) against the provider. Never throws. */
+  private static recordOutcome(
+    reputation: ReputationEngine | undefined,
+    providerIdentityKey: string,
+    success: boolean,
+    latencyMs?: number,
+    receiptValid?: boolean
+  ): void {
+    if (!reputation || !providerIdentityKey) return;
+    try {
+      reputation.recordCall(providerIdentityKey, success, latencyMs);
+      if (receiptValid !== undefined) reputation.recordReceipt(providerIdentityKey, receiptValid);
+    } catch (err) {
+      logWarn(TAG, `Reputation not recorded: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  /** Keep a paid response's receipt as 'received'. Never throws. */
+  private static storeReceipt(
+    receipts: ReceiptStore | undefined,
+    response: any,
+    endpoint: string,
+    payment: { txid?: string; reference?: string; jobId?: string }
+  ): void {
+    if (!receipts || !response?.receipt?.receiptId) return;
+    try {
+      receipts.record({ role: 'received', receipt: response.receipt, endpoint, ...payment });
+    } catch (err) {
+      logWarn(TAG, `Receipt not stored: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  /**
+   * Check the receipt on a paid response and, if it holds up, countersign it
+   * and send it back to the provider (POST /receipts/ack). The response is
+   * updated in place: `receipt` becomes the two-party receipt and
+   * `receiptStatus` says what was verified. Never throws — a receipt that
+   * fails its checks is left as the provider sent it, as evidence.
+   *
+   * @param endpoint - The URL the call was made to (…/call/:capability or …/batch)
+   */
+  static async acknowledgeReceipt(
+    wallet: any,
+    endpoint: string,
+    response: any,
+    providerIdentityKey: string,
+    senderIdentityKey: string,
+    timeoutMs = PaymentHelper.DEFAULT_TIMEOUT_MS
+  ): Promise<ReceiptStatus> {
+    const status: ReceiptStatus = { verified: false, countersigned: false, acknowledged: false };
+    if (!response || typeof response !== 'object') return status;
+    const receipt: CallReceipt | undefined = response.receipt;
+    const problem = await checkReceipt(receipt, {
+      provider: providerIdentityKey || undefined,
+      requester: senderIdentityKey,
+      ...(Array.isArray(response.results) ? { results: response.results } : { result: response.result })
+    });
+    if (problem) {
+      logWarn(TAG, `Receipt not countersigned: ${problem}`);
+      response.receiptStatus = { ...status, problem };
+      return response.receiptStatus;
+    }
+    status.verified = true;
+    try {
+      const countersigned = await countersignReceipt(wallet, receipt!);
+      response.receipt = countersigned;
+      status.countersigned = true;
+      const baseUrl = endpoint.replace(/\/+$/, '').replace(/\/(call\/[^/]+|batch)$/, '');
+      const ackRes = await fetch(`${baseUrl}/receipts/ack`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-bsv-identity-key': senderIdentityKey },
+        body: JSON.stringify({ receipt: countersigned }),
+        signal: AbortSignal.timeout(Math.min(timeoutMs, 10000))
+      });
+      status.acknowledged = ackRes.ok;
+      if (!ackRes.ok) status.problem = `Provider did not accept the countersignature (${ackRes.status})`;
+    } catch (err) {
+      status.problem = `Countersignature not delivered: ${err instanceof Error ? err.message : String(err)}`;
+    }
+    response.receiptStatus = status;
+    return status;
+  }
+
+  /**
+   * Pay once for several capability calls (POST /batch). Same 402 round-trip
+   * as payForCapability; the response carries per-item results and one
+   * receipt listing each item's result hash.
+   *
+   * @param baseUrl - Provider base URL, e.g. "http://host:3321"
+   * @param calls - [{ capability, params }], at most BATCH_MAX_ITEMS
+   */
+  static async payForBatch(
+    wallet: any,
+    baseUrl: string,
+    calls: Array<{ capability: string; params?: Record<string, any> }>,
+    senderIdentityKey: string,
+    options?: {
+      maxTotalSats?: number;
+      timeoutMs?: number;
+      onPaymentSent?: (payment: SentPayment) => void;
+      budget?: BudgetManager;
+      receipts?: ReceiptStore;
+      reputation?: ReputationEngine;
+      jobId?: string;
+    }
+  ): Promise<any> {
+    return PaymentHelper.payForCapability(
+      wallet,
+      `${baseUrl.replace(/\/+$/, '')}/batch`,
+      { calls },
+      senderIdentityKey,
+      options
+    );
+  }
+
+  /**
+   * Ask a provider for a signed quote (POST /quote/:capability). The quote's
+   * signature and fields are checked before it is returned; pass it to
+   * payForCapability as options.quote to buy the call at that price.
+   *
+   * @param baseUrl - Provider base URL, e.g. "http://host:3321"
+   */
+  static async requestQuote(
+    baseUrl: string,
+    capability: string,
+    params: Record<string, any>,
+    senderIdentityKey: string,
+    options?: { ttlSeconds?: number; timeoutMs?: number }
+  ): Promise<SignedQuote> {
+    const timeoutMs = Math.min(90000, Math.max(5000, Number(options?.timeoutMs || PaymentHelper.DEFAULT_TIMEOUT_MS)));
+    const ttl = options?.ttlSeconds ? `?ttlSeconds=${Math.floor(options.ttlSeconds)}` : '';
+    const res = await fetch(`${baseUrl.replace(/\/+$/, '')}/quote/${encodeURIComponent(capability)}${ttl}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-bsv-identity-key': senderIdentityKey },
+      body: JSON.stringify(params),
+      signal: AbortSignal.timeout(timeoutMs)
+    });
+    if (!res.ok) {
+      throw new Error(`Quote request failed (${res.status}): ${await res.text()}`);
+    }
+    const body: any = await res.json();
+    const quote: SignedQuote = body?.quote;
+    const problem = checkQuote(quote, { capability, params, requester: senderIdentityKey });
+    if (problem) throw new Error(`Provider returned an unusable quote: ${problem}`);
+    if (!(await verifyQuoteSignature(quote))) throw new Error('Provider quote has an invalid signature');
+    log(TAG, `Quote ${quote.quoteId}: ${capability} for ${quote.satoshis} + ${quote.feeSats} sats until ${quote.expiresAt}`);
+    return quote;
+  }
+
+  /**
+   * Deposit into a provider's prepaid credit account (POST /credits/deposit).
+   * Same 402 round-trip as a capability call; the provider credits output 0.
+   *
+   * @param baseUrl - Provider base URL, e.g. "http://host:3321"
+   * @returns { deposited, balance, entryId }
+   */
+  static async depositCredit(
+    wallet: any,
+    baseUrl: string,
+    satoshis: number,
+    senderIdentityKey: string,
+    options?: { timeoutMs?: number }
+  ): Promise<any> {
+    return PaymentHelper.payForCapability(
+      wallet,
+      `${baseUrl.replace(/\/+$/, '')}/credits/deposit`,
+      { satoshis },
+      senderIdentityKey,
+      { maxTotalSats: satoshis + FEE_SATS, timeoutMs: options?.timeoutMs }
+    );
+  }
+
+  /**
+   * Build a signed x-clawsats-credit header value. The signature is made for
+   * the provider (counterparty) so only that provider can verify it.
+   */
+  static async createCreditAuthorization(
+    wallet: any,
+    action: CreditAuthAction,
+    providerIdentityKey: string,
+    senderIdentityKey: string,
+    fields: { capability?: string; params?: Record<string, any>; satoshis?: number } = {}
+  ): Promise<string> {
+    const auth: CreditAuthorization = {
+      action,
+      provider: providerIdentityKey,
+      identityKey: senderIdentityKey,
+      nonce: randomBytes(16).toString('hex'),
+      timestamp: new Date().toISOString()
+    };
+    if (fields.capability) auth.capability = fields.capability;
+    if (fields.params) {
+      auth.paramsHash = hashParams(fields.params);
+    }
+    if (typeof fields.satoshis === 'number') auth.satoshis = fields.satoshis;
+
+    const result = await wallet.createSignature({
+      data: Array.from(Buffer.from(serializeCreditAuthorization(auth), 'utf8')),
+      protocolID: CREDIT_PROTOCOL_ID,
+      keyID: CREDIT_KEY_ID,
+      counterparty: providerIdentityKey
+    });
+    auth.signature = Buffer.from(result.signature).toString('base64');
+    return JSON.stringify(auth);
+  }
+
+  /**
+   * Execute a capability against a prepaid credit balance — no transaction.
+   *
+   * @param endpoint - Full URL of the capability, e.g. "http://host:3321/call/echo"
+   */
+  static async callWithCredit(
+    wallet: any,
+    endpoint: string,
+    params: Record<string, any>,
+    senderIdentityKey: string,
+    providerIdentityKey: string,
+    options?: { timeoutMs?: number; receipts?: ReceiptStore; reputation?: ReputationEngine; jobId?: string }
+  ): Promise<any> {
+    const timeoutMs = Math.min(90000, Math.max(5000, Number(options?.timeoutMs || PaymentHelper.DEFAULT_TIMEOUT_MS)));
+    const capability = decodeURIComponent(new URL(endpoint).pathname.split('/').filter(Boolean).pop() || '');
+    const creditHeader = await PaymentHelper.createCreditAuthorization(
+      wallet, 'call', providerIdentityKey, senderIdentityKey, { capability, params }
+    );
+
+    const callStarted = Date.now();
+    const res = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-bsv-identity-key': senderIdentityKey,
+        'x-clawsats-credit': creditHeader
+      },
+      body: JSON.stringify(params),
+      signal: AbortSignal.timeout(timeoutMs)
+    }).catch((err) => {
+      PaymentHelper.recordOutcome(options?.reputation, providerIdentityKey, false);
+      throw err;
+    });
+    const latencyMs = Date.now() - callStarted;
+    if (!res.ok) {
+      PaymentHelper.recordOutcome(options?.reputation, providerIdentityKey, false, latencyMs);
+      const errBody = await res.text();
+      throw new Error(`Credit call failed (${res.status}): ${errBody}`);
+    }
+    const result: any = await res.json();
+    log(TAG, `Credit call ${capability} executed, balance now ${result?.creditBalance ?? '?'} sats`);
+    const receiptStatus = await PaymentHelper.acknowledgeReceipt(wallet, endpoint, result, providerIdentityKey, senderIdentityKey, timeoutMs);
+    PaymentHelper.recordOutcome(options?.reputation, providerIdentityKey, true, latencyMs, receiptStatus.verified);
+    PaymentHelper.storeReceipt(options?.receipts, result, endpoint, {
+      reference: result?.creditEntryId,
+      jobId: options?.jobId
+    });
+    return result;
+  }
+
+  /** Query this Claw's prepaid balance on a provider (GET /credits/balance). */
+  static async getCreditBalance(
+    wallet: any,
+    baseUrl: string,
+    senderIdentityKey: string,
+    providerIdentityKey: string
+  ): Promise<any> {
+    const creditHeader = await PaymentHelper.createCreditAuthorization(
+      wallet, 'balance', providerIdentityKey, senderIdentityKey
+    );
+    const res = await fetch(`${baseUrl.replace(/\/+$/, '')}/credits/balance`, {
+      headers: { 'x-clawsats-credit': creditHeader },
+      signal: AbortSignal.timeout(PaymentHelper.DEFAULT_TIMEOUT_MS)
+    });
+    if (!res.ok) {
+      throw new Error(`Credit balance query failed (${res.status}): ${await res.text()}`);
+    }
+    return res.json();
+  }
+
+  /**
+   * Withdraw prepaid credit (all of it when satoshis is omitted) and
+   * internalize the provider's BRC-29 payout into this wallet.
+   */
+  static async withdrawCredit(
+    wallet: any,
+    baseUrl: string,
+    senderIdentityKey: string,
+    providerIdentityKey: string,
+    satoshis?: number
+  ): Promise<any> {
+    const creditHeader = await PaymentHelper.createCreditAuthorization(
+      wallet, 'withdraw', providerIdentityKey, senderIdentityKey,
+      typeof satoshis === 'number' ? { satoshis } : {}
+    );
+    const res = await fetch(`${baseUrl.replace(/\/+$/, '')}/credits/withdraw`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-clawsats-credit': creditHeader },
+      body: '{}',
+      signal: AbortSignal.timeout(PaymentHelper.DEFAULT_TIMEOUT_MS)
+    });
+    if (!res.ok) {
+      throw new Error(`Credit withdrawal failed (${res.status}): ${await res.text()}`);
+    }
+    const payout: any = await res.json();
+
+    await wallet.internalizeAction({
+      tx: Array.from(Buffer.from(payout.transaction, 'base64')),
+      outputs: [{
+        outputIndex: 0,
+        protocol: 'wallet payment',
+        paymentRemittance: {
+          derivationPrefix: payout.derivationPrefix,
+          derivationSuffix: payout.derivationSuffix,
+          senderIdentityKey: payout.senderIdentityKey || providerIdentityKey
+        }
+      }],
+      description: `ClawSats credit withdrawal (${payout.withdrawn} sats)`
+    });
+    log(TAG, `Withdrew ${payout.withdrawn} sats of credit, remaining ${payout.balance}`);
+    return payout;
+  }
+
   /**
    * Derive a BRC-29 P2PKH locking script for a recipient.
    * Uses BRC-42 key derivation: invoice = "2-3241645161d8-<prefix> <suffix>"
@@ -0,0 +1,150 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { PAYMENT_REPLAY_WINDOW_MS } from '../protocol/constants';
+
+export interface SpentPayment {
+  txid: string;
+  outputIndex: number;
+  capability: string;
+  derivationPrefix?: string;
+  callerIdentityKey?: string;
+  satoshis?: number;
+  recordedAt: number;
+  expiresAt: number;
+}
+
+interface ReplayLedgerState {
+  payments: SpentPayment[];
+}
+
+/**
+ * Durable record of every payment output we have internalized
+ * (data/payment-replay.json), keyed by "<txid>:<outputIndex>".
+ *
+ * Consulted before internalizeAction so the same transaction cannot buy a
+ * second call — across restarts, and regardless of how the tx was encoded.
+ * Entries are only dropped once they are older than the replay window.
+ */
+export class PaymentReplayLedger {
+  private dataDir: string;
+  private ledgerPath: string;
+  private windowMs: number;
+  private payments: Map<string, SpentPayment> | null = null;
+
+  constructor(dataDir: string, windowMs = PAYMENT_REPLAY_WINDOW_MS, ledgerPath?: string) {
+    if (!Number.isFinite(windowMs) || windowMs <= 0) {
+      throw new Error(`Invalid replay window: ${windowMs}ms`);
+    }
+    this.dataDir = dataDir;
+    this.windowMs = windowMs;
+    this.ledgerPath = ledgerPath || join(dataDir, 'payment-replay.json');
+  }
+
+  static key(txid: string, outputIndex: number): string {
+    return `${txid}:${outputIndex}`;
+  }
+
+  getLedgerPath(): string {
+    return this.ledgerPath;
+  }
+
+  getWindowMs(): number {
+    return this.windowMs;
+  }
+
+  /** Returns the earlier spend if this output was already used inside the window. */
+  find(txid: string, outputIndex: number): SpentPayment | null {
+    const entry = this.load().get(PaymentReplayLedger.key(txid, outputIndex));
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) return null;
+    return entry;
+  }
+
+  has(txid: string, outputIndex: number): boolean {
+    return this.find(txid, outputIndex) !== null;
+  }
+
+  /** True if some payment against this derivation prefix was already internalized. */
+  hasPrefix(derivationPrefix: string): boolean {
+    const now = Date.now();
+    for (const entry of this.load().values()) {
+      if (entry.derivationPrefix === derivationPrefix && entry.expiresAt > now) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Mark an output as spent. Written through to disk immediately — a crash
+   * right after internalizing must not reopen the replay window.
+   */
+  record(input: {
+    txid: string;
+    outputIndex: number;
+    capability: string;
+    derivationPrefix?: string;
+    callerIdentityKey?: string;
+    satoshis?: number;
+  }): SpentPayment {
+    if (!input.txid) throw new Error('txid is required');
+    if (!Number.isInteger(input.outputIndex) || input.outputIndex < 0) {
+      throw new Error(`Invalid output index: ${input.outputIndex}`);
+    }
+    const payments = this.load();
+    const now = Date.now();
+    const entry: SpentPayment = {
+      txid: input.txid,
+      outputIndex: input.outputIndex,
+      capability: input.capability,
+      derivationPrefix: input.derivationPrefix,
+      callerIdentityKey: input.callerIdentityKey || undefined,
+      satoshis: input.satoshis,
+      recordedAt: now,
+      expiresAt: now + this.windowMs
+    };
+    payments.set(PaymentReplayLedger.key(entry.txid, entry.outputIndex), entry);
+    this.prune(now);
+    this.save();
+    return entry;
+  }
+
+  /** Drop entries older than the replay window. Returns how many were removed. */
+  prune(now = Date.now()): number {
+    const payments = this.load();
+    let removed = 0;
+    for (const [key, entry] of payments) {
+      if (entry.expiresAt <= now) {
+        payments.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  size(): number {
+    return this.load().size;
+  }
+
+  private load(): Map<string, SpentPayment> {
+    if (this.payments) return this.payments;
+    this.payments = new Map();
+    if (!existsSync(this.ledgerPath)) return this.payments;
+    try {
+      const parsed: ReplayLedgerState = JSON.parse(readFileSync(this.ledgerPath, 'utf8'));
+      for (const entry of Array.isArray(parsed?.payments) ? parsed.payments : []) {
+        if (!entry?.txid || !Number.isInteger(entry.outputIndex)) continue;
+        this.payments.set(PaymentReplayLedger.key(entry.txid, entry.outputIndex), entry);
+      }
+    } catch {
+      // Corrupt file: start empty rather than refuse to serve
+    }
+    return this.payments;
+  }
+
+  private save(): void {
+    if (!existsSync(this.dataDir)) {
+      mkdirSync(this.dataDir, { recursive: true });
+    }
+    const state: ReplayLedgerState = { payments: Array.from(this.load().values()) };
+    writeFileSync(this.ledgerPath, JSON.stringify(state, null, 2), 'utf8');
+  }
+}
@@ -0,0 +1,266 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { BanList, BanListEntry, PeerAccessKind } from '../types';
+import { fetchBanList } from '../protocol/banlist';
+import { IDENTITY_KEY_RE } from '../protocol/constants';
+
+export type PeerAccessAction = 'block' | 'allow';
+
+export interface PeerAccessEntry {
+  action: PeerAccessAction;
+  kind: PeerAccessKind;
+  value: string;               // identity key, or normalised endpoint
+  reason?: string;
+  createdAt: string;
+  expiresAt?: string;          // absent: until removed
+}
+
+export interface BanListSubscription {
+  publisher: string;           // identity key the list must be signed by
+  endpoint: string;            // where its GET /ban-list is read
+  subscribedAt: string;
+  fetchedAt?: string;
+  lastError?: string;
+  entries: BanListEntry[];     // the publisher's bans as last fetched
+}
+
+export interface PeerAccessDecision {
+  allowed: boolean;
+  reason?: string;
+  source?: string;             // 'local', 'fraud', or the publisher whose list bans it
+}
+
+export interface BanListRefreshResult {
+  publisher: string;
+  endpoint: string;
+  entries?: number;            // bans now in force from this list
+  error?: string;              // the previous bans stay until a fetch succeeds
+}
+
+export type PeerAccessCheck = (target: { identityKey?: string; endpoint?: string }) => PeerAccessDecision;
+
+interface PeerAccessState {
+  entries: PeerAccessEntry[];
+  subscriptions: Record<string, BanListSubscription>; // publisher → subscription
+}
+
+/** Scheme, host and path without a trailing slash; null if not an http(s) URL. */
+export function normalizeAccessEndpoint(endpoint: string): string | null {
+  try {
+    const url = new URL(endpoint);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    return `${url.origin}${url.pathname.replace(/\/+$/, '')}`;
+  } catch {
+    return null;
+  }
+}
+
+/** An endpoint entry covers that base URL and every path under it. */
+function endpointMatches(entry: string, endpoint: string | null): boolean {
+  return !!endpoint && (endpoint === entry || endpoint.startsWith(`${entry}/`));
+}
+
+function live(expiresAt: string | undefined, now: number): boolean {
+  return !expiresAt || Date.parse(expiresAt) > now;
+}
+
+/**
+ * The operator's blocks and allows (data/peer-access.json), plus the ban
+ * lists of trusted Claws it subscribes to. The operator's own entries win:
+ * a local block always holds, and a local allow overrides both a subscribed
+ * ban and the fraud auto-block. Written through on every change so the
+ * server and the CLI can share it.
+ */
+export class PeerAccessList {
+  private dataDir: string;
+  private storePath: string;
+
+  constructor(dataDir: string, storePath?: string) {
+    this.dataDir = dataDir;
+    this.storePath = storePath || join(dataDir, 'peer-access.json');
+  }
+
+  getStorePath(): string {
+    return this.storePath;
+  }
+
+  private load(): PeerAccessState {
+    if (!existsSync(this.storePath)) return { entries: [], subscriptions: {} };
+    try {
+      const parsed = JSON.parse(readFileSync(this.storePath, 'utf8'));
+      return {
+        entries: Array.isArray(parsed?.entries) ? parsed.entries : [],
+        subscriptions: parsed?.subscriptions && typeof parsed.subscriptions === 'object' ? parsed.subscriptions : {}
+      };
+    } catch {
+      return { entries: [], subscriptions: {} };
+    }
+  }
+
+  private save(state: PeerAccessState): void {
+    if (!existsSync(this.dataDir)) {
+      mkdirSync(this.dataDir, { recursive: true });
+    }
+    const now = Date.now();
+    state.entries = state.entries.filter(e => live(e.expiresAt, now));
+    writeFileSync(this.storePath, JSON.stringify(state, null, 2), 'utf8');
+  }
+
+  private normalize(kind: PeerAccessKind, value: string): string {
+    const trimmed = String(value || '').trim();
+    if (kind === 'endpoint') {
+      const endpoint = normalizeAccessEndpoint(trimmed);
+      if (!endpoint) throw new Error(`Invalid endpoint "${value}"`);
+      return endpoint;
+    }
+    if (!IDENTITY_KEY_RE.test(trimmed)) throw new Error(`Invalid identity key "${value}"`);
+    return trimmed;
+  }
+
+  /**
+   * Block or allow a peer. Replaces whatever the operator had said about the
+   * same target before — a peer is never both blocked and allowed.
+   */
+  set(
+    action: PeerAccessAction,
+    kind: PeerAccessKind,
+    value: string,
+    options: { reason?: string; expiresAt?: string } = {}
+  ): PeerAccessEntry {
+    if (options.expiresAt !== undefined && !(Date.parse(options.expiresAt) > Date.now())) {
+      throw new Error('expiresAt must be a date in the future');
+    }
+    const normalized = this.normalize(kind, value);
+    const state = this.load();
+    const entry: PeerAccessEntry = { action, kind, value: normalized, createdAt: new Date().toISOString() };
+    if (options.reason) entry.reason = options.reason;
+    if (options.expiresAt) entry.expiresAt = new Date(options.expiresAt).toISOString();
+    state.entries = state.entries.filter(e => !(e.kind === kind && e.value === normalized));
+    state.entries.push(entry);
+    this.save(state);
+    return entry;
+  }
+
+  /** Lift a block or allow (either, when `action` isn't given). Returns how many entries went. */
+  remove(kind: PeerAccessKind, value: string, action?: PeerAccessAction): number {
+    const normalized = this.normalize(kind, value);
+    const state = this.load();
+    const before = state.entries.length;
+    state.entries = state.entries.filter(e => !(e.kind === kind && e.value === normalized && (!action || e.action === action)));
+    const removed = before - state.entries.length;
+    if (removed > 0) this.save(state);
+    return removed;
+  }
+
+  /** The operator's entries still in force, newest first. */
+  list(filter: { action?: PeerAccessAction; kind?: PeerAccessKind } = {}, now = Date.now()): PeerAccessEntry[] {
+    return this.load().entries
+      .filter(e => live(e.expiresAt, now) && (!filter.action || e.action === filter.action) && (!filter.kind || e.kind === filter.kind))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /** Our own bans as we publish them at GET /ban-list. */
+  published(now = Date.now()): BanListEntry[] {
+    return this.list({ action: 'block' }, now).map(e => {
+      const entry: BanListEntry = { kind: e.kind, value: e.value };
+      if (e.reason) entry.reason = e.reason;
+      if (e.expiresAt) entry.expiresAt = e.expiresAt;
+      return entry;
+    });
+  }
+
+  /** Follow `publisher`'s ban list at `endpoint`. Its bans apply once a list has been fetched. */
+  subscribe(publisher: string, endpoint: string): BanListSubscription {
+    const publisherKey = this.normalize('identity', publisher);
+    const base = this.normalize('endpoint', endpoint);
+    const state = this.load();
+    const existing = state.subscriptions[publisherKey];
+    const subscription: BanListSubscription = existing && existing.endpoint === base
+      ? existing
+      : { publisher: publisherKey, endpoint: base, subscribedAt: new Date().toISOString(), entries: [] };
+    state.subscriptions[publisherKey] = subscription;
+    this.save(state);
+    return subscription;
+  }
+
+  unsubscribe(publisher: string): boolean {
+    const state = this.load();
+    if (!state.subscriptions[publisher]) return false;
+    delete state.subscriptions[publisher];
+    this.save(state);
+    return true;
+  }
+
+  subscriptions(): BanListSubscription[] {
+    return Object.values(this.load().subscriptions);
+  }
+
+  /** Take a fetched list (already checked against its publisher) as that subscription's bans. */
+  applyBanList(list: BanList): BanListSubscription {
+    const state = this.load();
+    const subscription = state.subscriptions[list.publisher];
+    if (!subscription) throw new Error(`Not subscribed to ${list.publisher}`);
+    subscription.entries = list.entries.map(e => ({ ...e, value: e.kind === 'endpoint' ? normalizeAccessEndpoint(e.value) || e.value : e.value }));
+    subscription.fetchedAt = new Date().toISOString();
+    subscription.lastError = undefined;
+    this.save(state);
+    return subscription;
+  }
+
+  /** Keep the bans we last fetched; just note why this fetch failed. */
+  noteFetchError(publisher: string, error: string): void {
+    const state = this.load();
+    const subscription = state.subscriptions[publisher];
+    if (!subscription) return;
+    subscription.lastError = error;
+    this.save(state);
+  }
+
+  /** Fetch every subscribed list (or just `publisher`'s). Never throws: failures are noted per list. */
+  async refreshSubscriptions(publisher?: string): Promise<BanListRefreshResult[]> {
+    const results: BanListRefreshResult[] = [];
+    for (const subscription of this.subscriptions().filter(s => !publisher || s.publisher === publisher)) {
+      const result: BanListRefreshResult = { publisher: subscription.publisher, endpoint: subscription.endpoint };
+      try {
+        const list = await fetchBanList(subscription.endpoint, subscription.publisher);
+        result.entries = this.applyBanList(list).entries.length;
+      } catch (err) {
+        result.error = err instanceof Error ? err.message : String(err);
+        this.noteFetchError(subscription.publisher, result.error);
+      }
+      results.push(result);
+    }
+    return results;
+  }
+
+  /**
+   * A checker over one read of the list, for filtering many peers at once.
+   * `fraudBlocked` are the providers the fraud reports block.
+   */
+  checker(fraudBlocked: Set<string> = new Set(), now = Date.now()): PeerAccessCheck {
+    const state = this.load();
+    const entries = state.entries.filter(e => live(e.expiresAt, now));
+    const subscribed = Object.values(state.subscriptions)
+      .flatMap(s => s.entries.filter(e => live(e.expiresAt, now)).map(e => ({ ...e, publisher: s.publisher })));
+    const covers = (e: { kind: PeerAccessKind; value: string }, identityKey?: string, endpoint?: string | null) =>
+      e.kind === 'identity' ? e.value === identityKey : endpointMatches(e.value, endpoint ?? null);
+
+    return ({ identityKey, endpoint }) => {
+      const base = endpoint ? normalizeAccessEndpoint(endpoint) : null;
+      const local = entries.filter(e => covers(e, identityKey, base));
+      const block = local.find(e => e.action === 'block');
+      if (block) return { allowed: false, source: 'local', reason: block.reason || `Blocked ${block.kind} ${block.value}` };
+      if (local.some(e => e.action === 'allow')) return { allowed: true, source: 'local' };
+      if (identityKey && fraudBlocked.has(identityKey)) return { allowed: false, source: 'fraud', reason: 'Blocked by confirmed fraud reports' };
+      const ban = subscribed.find(e => covers(e, identityKey, base));
+      if (ban) {
+        return { allowed: false, source: ban.publisher, reason: `Banned by ${ban.publisher.substring(0, 16)}...${ban.reason ? `: ${ban.reason}` : ''}` };
+      }
+      return { allowed: true };
+    };
+  }
+
+  check(target: { identityKey?: string; endpoint?: string }, fraudBlocked?: Set<string>, now = Date.now()): PeerAccessDecision {
+    return this.checker(fraudBlocked, now)(target);
+  }
+}
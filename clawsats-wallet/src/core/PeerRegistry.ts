@@ -1,7 +1,8 @@
 import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
 import { join } from 'path';
-import { PeerRecord, Chain } from '../types';
+import { PeerRecord, Chain, EndpointProofStatus } from '../types';
 import { log, logWarn } from '../utils';
+import { ReputationEngine } from './ReputationEngine';
 
 const TAG = 'peers';
 const MAX_PEERS = 500;
@@ -16,6 +17,7 @@ export class PeerRegistry {
   private peers: Map<string, PeerRecord> = new Map();
   private persistPath: string | null = null;
   private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private reputation: ReputationEngine | null = null;
 
   /**
    * Enable disk persistence. Call once at startup.
@@ -38,12 +40,31 @@ export class PeerRegistry {
     }
   }
 
+  /**
+   * Take peer reputation from `engine` instead of the +1/−5 counters: every
+   * peer's `reputation` becomes its engine score, kept current as outcomes
+   * are recorded.
+   */
+  useReputation(engine: ReputationEngine): void {
+    this.reputation = engine;
+    for (const peer of this.peers.values()) {
+      peer.reputation = engine.score(peer.identityKey);
+    }
+  }
+
   addPeer(peer: PeerRecord): void {
     const existing = this.peers.get(peer.identityKey);
-    if (existing) {
+    if (this.reputation) {
+      peer.reputation = this.reputation.score(peer.identityKey);
+    } else if (existing) {
       // Update — keep higher reputation
       peer.reputation = Math.max(existing.reputation, peer.reputation);
     }
+    // A proof holds for the endpoint it was made at; a new endpoint starts over
+    if (existing && existing.endpoint === peer.endpoint && !peer.endpointStatus) {
+      peer.endpointStatus = existing.endpointStatus;
+      peer.endpointCheckedAt = existing.endpointCheckedAt;
+    }
     peer.lastSeen = new Date().toISOString();
     this.peers.set(peer.identityKey, peer);
     this.evictStale();
@@ -83,12 +104,14 @@ export class PeerRegistry {
   }
 
   /**
-   * Bump a peer's reputation after a successful interaction.
+   * Bump a peer's reputation after a successful interaction (recorded as a
+   * successful call when a ReputationEngine is attached).
    */
-  recordSuccess(identityKey: string): void {
+  recordSuccess(identityKey: string, latencyMs?: number): void {
+    if (this.reputation) this.reputation.recordCall(identityKey, true, latencyMs);
     const peer = this.peers.get(identityKey);
     if (peer) {
-      peer.reputation = Math.min(100, peer.reputation + 1);
+      peer.reputation = this.reputation ? this.reputation.score(identityKey) : Math.min(100, peer.reputation + 1);
       peer.lastSeen = new Date().toISOString();
     }
   }
@@ -96,13 +119,38 @@ export class PeerRegistry {
   /**
    * Decrease a peer's reputation after a failed interaction.
    */
-  recordFailure(identityKey: string): void {
+  recordFailure(identityKey: string, latencyMs?: number): void {
+    if (this.reputation) this.reputation.recordCall(identityKey, false, latencyMs);
     const peer = this.peers.get(identityKey);
     if (peer) {
-      peer.reputation = Math.max(0, peer.reputation - 5);
+      peer.reputation = this.reputation ? this.reputation.score(identityKey) : Math.max(0, peer.reputation - 5);
     }
   }
 
+  /**
+   * Record the outcome of an endpoint ownership challenge. Ignored if the peer
+   * has moved to another endpoint since it was challenged.
+   */
+  setEndpointStatus(identityKey: string, endpoint: string, status: EndpointProofStatus, checkedAt = new Date().toISOString()): boolean {
+    const peer = this.peers.get(identityKey);
+    if (!peer || peer.endpoint.replace(/\/+$/, '') !== endpoint.replace(/\/+$/, '')) return false;
+    peer.endpointStatus = status;
+    peer.endpointCheckedAt = checkedAt;
+    this.scheduleSave();
+    return true;
+  }
+
+  /** Only peers whose endpoint answered an ownership challenge may be hired. */
+  isEndpointVerified(identityKey: string): boolean {
+    return this.peers.get(identityKey)?.endpointStatus === 'verified';
+  }
+
+  /** Re-read a peer's score after the engine recorded something about it. */
+  refreshReputation(identityKey: string): void {
+    const peer = this.peers.get(identityKey);
+    if (peer && this.reputation) peer.reputation = this.reputation.score(identityKey);
+  }
+
   /**
    * Serialize for persistence.
    */
@@ -124,7 +172,18 @@ export class PeerRegistry {
   private scheduleSave(): void {
     if (!this.persistPath) return;
     if (this.saveTimer) clearTimeout(this.saveTimer);
-    this.saveTimer = setTimeout(() => this.saveToDisk(), SAVE_DEBOUNCE_MS);
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.saveToDisk();
+    }, SAVE_DEBOUNCE_MS);
+  }
+
+  /** Write a pending debounced save now (e.g. on shutdown). */
+  flush(): void {
+    if (!this.saveTimer) return;
+    clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+    this.saveToDisk();
   }
 
   private saveToDisk(): void {
@@ -0,0 +1,108 @@
+import { CapabilityHandler, CapabilityPricing, PriceQuote } from '../types';
+
+/** Pricing model advertised for a capability; flat pricePerCall when none is declared. */
+export function describePricing(cap: Pick<CapabilityHandler, 'pricePerCall' | 'pricing'>): CapabilityPricing {
+  return cap.pricing || { model: 'flat', satoshis: cap.pricePerCall };
+}
+
+/** Largest number of units a single call may be quoted for. Undefined for flat pricing. */
+export function maxUnitsOf(pricing: CapabilityPricing): number | undefined {
+  if (pricing.model === 'per_unit') return pricing.maxUnits;
+  if (pricing.model === 'tiered') return pricing.tiers[pricing.tiers.length - 1]?.upTo;
+  return undefined;
+}
+
+/** Throws if a pricing model can't produce a sane integer price. */
+export function validatePricing(pricing: CapabilityPricing): void {
+  const nonNegInt = (n: unknown) => Number.isInteger(n) && (n as number) >= 0;
+  switch (pricing.model) {
+    case 'flat':
+      if (!nonNegInt(pricing.satoshis)) throw new Error(`Invalid flat price: ${pricing.satoshis}`);
+      return;
+    case 'per_unit':
+      if (!pricing.unit) throw new Error('per_unit pricing needs a unit name');
+      if (!Number.isFinite(pricing.satoshisPerUnit) || pricing.satoshisPerUnit <= 0) {
+        throw new Error(`Invalid satoshisPerUnit: ${pricing.satoshisPerUnit}`);
+      }
+      if (pricing.baseSatoshis !== undefined && !nonNegInt(pricing.baseSatoshis)) {
+        throw new Error(`Invalid baseSatoshis: ${pricing.baseSatoshis}`);
+      }
+      if (!Number.isInteger(pricing.maxUnits) || pricing.maxUnits <= 0) {
+        throw new Error(`Invalid maxUnits: ${pricing.maxUnits}`);
+      }
+      return;
+    case 'tiered': {
+      if (!pricing.unit) throw new Error('tiered pricing needs a unit name');
+      if (!Array.isArray(pricing.tiers) || pricing.tiers.length === 0) throw new Error('tiered pricing needs at least one tier');
+      let prev: { upTo: number; satoshis: number } | null = null;
+      for (const tier of pricing.tiers) {
+        if (!Number.isInteger(tier.upTo) || tier.upTo <= 0 || !nonNegInt(tier.satoshis)) {
+          throw new Error(`Invalid tier: upTo=${tier.upTo} satoshis=${tier.satoshis}`);
+        }
+        if (prev && (tier.upTo <= prev.upTo || tier.satoshis < prev.satoshis)) {
+          throw new Error('Tiers must be sorted by upTo with non-decreasing prices');
+        }
+        prev = tier;
+      }
+      return;
+    }
+    default:
+      throw new Error(`Unknown pricing model: ${(pricing as { model: string }).model}`);
+  }
+}
+
+/** Price in sats for `units` under a pricing model. Throws past the model's maximum. */
+export function priceForUnits(pricing: CapabilityPricing, units: number): number {
+  if (pricing.model === 'flat') return pricing.satoshis;
+  if (!Number.isFinite(units) || units < 0) throw new Error(`Invalid unit count: ${units}`);
+  const max = maxUnitsOf(pricing) as number;
+  if (units > max) {
+    throw new Error(`Request needs ${units} ${pricing.unit}, above the ${max}-${pricing.unit} maximum`);
+  }
+  if (pricing.model === 'per_unit') {
+    return (pricing.baseSatoshis || 0) + Math.ceil(units * pricing.satoshisPerUnit);
+  }
+  return pricing.tiers.find(t => units <= t.upTo)!.satoshis;
+}
+
+/**
+ * Up-front quote for a call: the units the request params may consume, priced
+ * at the capability's model. This is what the 402 challenge asks for.
+ */
+export function quoteCapability(cap: CapabilityHandler, params: any): PriceQuote {
+  const pricing = describePricing(cap);
+  if (pricing.model === 'flat') return { satoshis: pricing.satoshis };
+  const units = cap.quoteUnits ? Math.ceil(cap.quoteUnits(params || {})) : (maxUnitsOf(pricing) as number);
+  return { satoshis: priceForUnits(pricing, units), unit: pricing.unit, units };
+}
+
+/**
+ * Units the call actually consumed and their price, never above the quote.
+ * Null for flat pricing or capabilities that don't report consumption.
+ */
+export function meterCapability(cap: CapabilityHandler, quote: PriceQuote, result: any, params: any): PriceQuote | null {
+  const pricing = describePricing(cap);
+  if (pricing.model === 'flat' || !cap.measureUnits || quote.units === undefined) return null;
+  let consumed: number;
+  try {
+    consumed = Math.ceil(cap.measureUnits(result, params || {}));
+  } catch {
+    return null;
+  }
+  if (!Number.isFinite(consumed) || consumed < 0) return null;
+  const units = Math.min(consumed, quote.units);
+  return { satoshis: Math.min(priceForUnits(pricing, units), quote.satoshis), unit: pricing.unit, units };
+}
+
+/**
+ * Buyer-side estimate for comparing providers: the price of `units` under an
+ * advertised model, or null if the model is malformed or can't serve that many.
+ */
+export function estimatePrice(pricing: CapabilityPricing, units: number): number | null {
+  try {
+    validatePricing(pricing);
+    return priceForUnits(pricing, units);
+  } catch {
+    return null;
+  }
+}
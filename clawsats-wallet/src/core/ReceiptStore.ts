@@ -0,0 +1,193 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { CallReceipt, ReceiptAnchorProof } from '../types';
+
+/** issued: we were the provider; received: we paid for the call. */
+export type ReceiptRole = 'issued' | 'received';
+
+export interface ReceiptRecord {
+  receiptId: string;
+  role: ReceiptRole;
+  capability: string;
+  peer: string;                // requester (issued) or provider (received) identity key
+  satoshis: number;            // the receipt's satoshisPaid
+  success: boolean;
+  txid?: string;               // payment (or escrow funding) tx
+  reference?: string;          // credit ledger entry, for calls paid from prepaid credit
+  endpoint?: string;           // provider endpoint, for received receipts
+  jobId?: string;              // brain job the call was made for
+  countersigned: boolean;
+  receipt: CallReceipt;
+  anchor?: ReceiptAnchorProof; // inclusion proof once an issued receipt is anchored on-chain
+  recordedAt: string;
+  updatedAt: string;
+}
+
+export interface ReceiptFilter {
+  since?: string;              // matched against the receipt's timestamp, inclusive
+  until?: string;              // exclusive
+  role?: ReceiptRole;
+  capability?: string;
+  peer?: string;
+  jobId?: string;
+}
+
+export interface RecordReceiptInput {
+  role: ReceiptRole;
+  receipt: CallReceipt;
+  txid?: string;
+  reference?: string;
+  endpoint?: string;
+  jobId?: string;
+}
+
+const CSV_COLUMNS = [
+  'receiptId', 'recordedAt', 'role', 'capability', 'peer', 'satoshis', 'feeSats',
+  'success', 'txid', 'reference', 'endpoint', 'jobId', 'countersigned', 'resultHash', 'anchorTxid'
+];
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Every receipt this Claw issued or received (data/receipts.jsonl), with the
+ * payment it settled. Append-only: a later line for the same receiptId (the
+ * requester's countersignature, a job link) supersedes the earlier one on read.
+ */
+export class ReceiptStore {
+  private dataDir: string;
+  private storePath: string;
+
+  constructor(dataDir: string, storePath?: string) {
+    this.dataDir = dataDir;
+    this.storePath = storePath || join(dataDir, 'receipts.jsonl');
+  }
+
+  getStorePath(): string {
+    return this.storePath;
+  }
+
+  private append(records: ReceiptRecord[]): void {
+    if (!existsSync(this.dataDir)) {
+      mkdirSync(this.dataDir, { recursive: true });
+    }
+    appendFileSync(this.storePath, records.map(r => `${JSON.stringify(r)}\n`).join(''), 'utf8');
+  }
+
+  /** Latest version of each receipt, in the order they were first recorded. */
+  private loadAll(): Map<string, ReceiptRecord> {
+    const records = new Map<string, ReceiptRecord>();
+    if (!existsSync(this.storePath)) return records;
+    for (const line of readFileSync(this.storePath, 'utf8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const record = JSON.parse(line) as ReceiptRecord;
+        if (record?.receiptId) records.set(record.receiptId, record);
+      } catch {
+        // skip a torn line
+      }
+    }
+    return records;
+  }
+
+  /**
+   * Store a receipt, or update the stored copy of the same receiptId: a
+   * countersigned receipt replaces the provider-only one, and payment or job
+   * details are merged in. Only the first recording sets recordedAt.
+   */
+  record(input: RecordReceiptInput): ReceiptRecord {
+    const { receipt } = input;
+    if (!receipt?.receiptId) throw new Error('Receipt has no receiptId');
+    const existing = this.get(receipt.receiptId);
+    // A call to ourselves is both issued and received: the first role recorded stands
+    if (existing && existing.role !== input.role && receipt.provider !== receipt.requester) {
+      throw new Error(`Receipt ${receipt.receiptId} is already recorded as ${existing.role}`);
+    }
+    const role = existing?.role || input.role;
+    const now = new Date().toISOString();
+    const kept = existing?.receipt.requesterSignature && !receipt.requesterSignature ? existing.receipt : receipt;
+    const record: ReceiptRecord = {
+      receiptId: receipt.receiptId,
+      role,
+      capability: receipt.capability,
+      peer: role === 'issued' ? receipt.requester : receipt.provider,
+      satoshis: receipt.satoshisPaid,
+      success: receipt.result?.success !== false,
+      txid: input.txid || existing?.txid,
+      reference: input.reference || existing?.reference,
+      endpoint: input.endpoint || existing?.endpoint,
+      jobId: input.jobId || existing?.jobId,
+      countersigned: Boolean(kept.requesterSignature),
+      receipt: kept,
+      anchor: existing?.anchor,
+      recordedAt: existing?.recordedAt || now,
+      updatedAt: now
+    };
+    this.append([record]);
+    return record;
+  }
+
+  /** Signed receipts we issued that no anchor covers yet, oldest first. */
+  unanchored(limit?: number): ReceiptRecord[] {
+    const pending = Array.from(this.loadAll().values())
+      .filter(r => r.role === 'issued' && !r.anchor && Boolean(r.receipt.signature));
+    return limit === undefined ? pending : pending.slice(0, limit);
+  }
+
+  /** Store the inclusion proof for each anchored receipt (receiptId → proof), in one write. */
+  attachAnchors(proofs: Map<string, ReceiptAnchorProof>): number {
+    const all = this.loadAll();
+    const now = new Date().toISOString();
+    const updated: ReceiptRecord[] = [];
+    for (const [receiptId, anchor] of proofs) {
+      const existing = all.get(receiptId);
+      if (existing) updated.push({ ...existing, anchor, updatedAt: now });
+    }
+    if (updated.length > 0) this.append(updated);
+    return updated.length;
+  }
+
+  /** Tie an already-stored receipt to the brain job that paid for it. */
+  linkJob(receiptId: string, jobId: string): ReceiptRecord {
+    const existing = this.get(receiptId);
+    if (!existing) throw new Error(`Unknown receipt ${receiptId}`);
+    return this.record({ role: existing.role, receipt: existing.receipt, jobId });
+  }
+
+  get(receiptId: string): ReceiptRecord | null {
+    return this.loadAll().get(receiptId) || null;
+  }
+
+  /** Records in the order they were first recorded, optionally filtered. */
+  list(filter: ReceiptFilter = {}): ReceiptRecord[] {
+    const sinceMs = filter.since ? Date.parse(filter.since) : NaN;
+    const untilMs = filter.until ? Date.parse(filter.until) : NaN;
+    return Array.from(this.loadAll().values()).filter(r => {
+      const ts = Date.parse(r.receipt.timestamp || r.recordedAt);
+      if (Number.isFinite(sinceMs) && ts < sinceMs) return false;
+      if (Number.isFinite(untilMs) && ts >= untilMs) return false;
+      if (filter.role && r.role !== filter.role) return false;
+      if (filter.capability && r.capability !== filter.capability) return false;
+      if (filter.peer && r.peer !== filter.peer) return false;
+      if (filter.jobId && r.jobId !== filter.jobId) return false;
+      return true;
+    });
+  }
+
+  static toCsv(records: ReceiptRecord[]): string {
+    const lines = [CSV_COLUMNS.join(',')];
+    for (const r of records) {
+      const row: Record<string, unknown> = {
+        ...r,
+        feeSats: r.receipt.feeSats,
+        resultHash: r.receipt.resultHash,
+        anchorTxid: r.anchor?.txid
+      };
+      lines.push(CSV_COLUMNS.map(col => csvCell(row[col])).join(','));
+    }
+    return `${lines.join('\n')}\n`;
+  }
+}
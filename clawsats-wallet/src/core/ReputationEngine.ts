@@ -0,0 +1,397 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { ReputationAttestation, ReputationScore } from '../types';
+import {
+  REPUTATION_CONFIDENCE_K,
+  REPUTATION_FRAUD_HALF_LIFE_MS,
+  REPUTATION_HALF_LIFE_MS,
+  REPUTATION_LATENCY_REF_MS,
+  REPUTATION_NEUTRAL_SCORE
+} from '../protocol/constants';
+import { AttestationStore } from './AttestationStore';
+
+/** What we have observed about one peer. Stored counts are as of `updatedAt`, the last observation. */
+export interface PeerReputationMetrics {
+  identityKey: string;
+  successfulCalls: number;
+  failedCalls: number;
+  probesUp: number;
+  probesDown: number;
+  validReceipts: number;
+  invalidReceipts: number;
+  fraudReports: number;
+  latencyMs: number | null;    // moving average over calls and probes
+  latencySamples: number;
+  firstSeen: string;
+  updatedAt: string;
+}
+
+export type ReputationSignalName = 'calls' | 'receipts' | 'uptime' | 'latency' | 'attestations';
+
+export interface ReputationSignal {
+  name: ReputationSignalName;
+  value: number | null;        // 0–1, null until observed
+  evidence: number;            // decayed observation count
+  confidence: number;          // evidence / (evidence + REPUTATION_CONFIDENCE_K)
+  weight: number;
+}
+
+export interface ReputationExplanation extends ReputationScore {
+  neutralScore: number;
+  signals: ReputationSignal[];
+  fraudPenalty: number;        // multiplier applied after the signals are blended
+  reasons: string[];
+}
+
+interface ReputationState {
+  peers: Record<string, PeerReputationMetrics>;
+}
+
+const SIGNAL_WEIGHTS: Record<ReputationSignalName, number> = {
+  calls: 0.35,
+  receipts: 0.2,
+  uptime: 0.15,
+  latency: 0.1,
+  attestations: 0.2
+};
+const FRAUD_PENALTY = 0.5;     // each (decayed) fraud report halves the score
+const ATTESTER_MAX_WEIGHT = 3; // most one attester's attestations about a peer can add up to
+const LATENCY_ALPHA = 0.2;     // weight of a new response time in the moving average
+const MAX_TRACKED = 2000;      // peers kept; the longest-quiet are dropped first
+
+function round(value: number, places = 1): number {
+  const f = 10 ** places;
+  return Math.round(value * f) / f;
+}
+
+function decay(m: PeerReputationMetrics, now: number): PeerReputationMetrics {
+  const elapsed = Math.max(0, now - Date.parse(m.updatedAt));
+  if (!elapsed) return { ...m };
+  const f = 0.5 ** (elapsed / REPUTATION_HALF_LIFE_MS);
+  const fraud = 0.5 ** (elapsed / REPUTATION_FRAUD_HALF_LIFE_MS);
+  return {
+    ...m,
+    successfulCalls: m.successfulCalls * f,
+    failedCalls: m.failedCalls * f,
+    probesUp: m.probesUp * f,
+    probesDown: m.probesDown * f,
+    validReceipts: m.validReceipts * f,
+    invalidReceipts: m.invalidReceipts * f,
+    fraudReports: m.fraudReports * fraud,
+    latencySamples: m.latencySamples * f
+  };
+}
+
+function ratioSignal(name: ReputationSignalName, good: number, bad: number): ReputationSignal {
+  const evidence = good + bad;
+  return {
+    name,
+    value: evidence > 0 ? good / evidence : null,
+    evidence,
+    confidence: evidence / (evidence + REPUTATION_CONFIDENCE_K),
+    weight: SIGNAL_WEIGHTS[name]
+  };
+}
+
+function signalsFor(m: PeerReputationMetrics): ReputationSignal[] {
+  const latencyEvidence = m.latencyMs === null ? 0 : m.latencySamples;
+  return [
+    ratioSignal('calls', m.successfulCalls, m.failedCalls),
+    ratioSignal('receipts', m.validReceipts, m.invalidReceipts),
+    ratioSignal('uptime', m.probesUp, m.probesDown),
+    {
+      name: 'latency',
+      value: m.latencyMs === null ? null : REPUTATION_LATENCY_REF_MS / (REPUTATION_LATENCY_REF_MS + m.latencyMs),
+      evidence: latencyEvidence,
+      confidence: latencyEvidence / (latencyEvidence + REPUTATION_CONFIDENCE_K),
+      weight: SIGNAL_WEIGHTS.latency
+    }
+  ];
+}
+
+/** Signals blended toward the neutral score, each by its confidence. */
+function blend(signals: ReputationSignal[]): { score: number; confidence: number } {
+  let blended = 0;
+  let totalWeight = 0;
+  let confidence = 0;
+  for (const signal of signals) {
+    const value = signal.value === null ? REPUTATION_NEUTRAL_SCORE : signal.value * 100;
+    blended += signal.weight * (signal.confidence * value + (1 - signal.confidence) * REPUTATION_NEUTRAL_SCORE);
+    confidence += signal.weight * signal.confidence;
+    totalWeight += signal.weight;
+  }
+  return totalWeight > 0
+    ? { score: blended / totalWeight, confidence: confidence / totalWeight }
+    : { score: REPUTATION_NEUTRAL_SCORE, confidence: 0 };
+}
+
+/** Other Claws' attestations about one peer, each weighted by its attester's reputation and age. */
+interface AttestationTally {
+  good: number;
+  bad: number;
+  fraud: number;
+  attesters: number;
+}
+
+/**
+ * Peer reputation from what this Claw has seen for itself (data/reputation.json):
+ * paid call outcomes, response times, uptime probes, receipt verification and
+ * fraud reports.
+ *
+ * Each signal is a 0–1 rate blended toward REPUTATION_NEUTRAL_SCORE by its
+ * confidence, so a peer with two good calls doesn't outrank one with two
+ * hundred. Observations decay with a half-life; fraud reports then scale the
+ * blended score down. Written through on every observation, like EscrowStore,
+ * so the server and the CLI loops can share the file.
+ *
+ * With an AttestationStore attached, other Claws' attestations are one more
+ * signal, each weighted by the attester's own first-hand score and by how
+ * much we have dealt with it: attesters we never called or got receipts from
+ * count for nothing, so minting fresh keys can't move a score. For a peer we
+ * have never dealt with they are the only signal, which is how a new Claw
+ * bootstraps trust.
+ */
+export class ReputationEngine {
+  private dataDir: string;
+  private storePath: string;
+  private attestations: AttestationStore | null = null;
+  private selfIdentityKey = '';
+
+  constructor(dataDir: string, storePath?: string) {
+    this.dataDir = dataDir;
+    this.storePath = storePath || join(dataDir, 'reputation.json');
+  }
+
+  /** Weigh in attestations from `store`, except our own (already first-hand). */
+  useAttestations(store: AttestationStore, selfIdentityKey: string): void {
+    this.attestations = store;
+    this.selfIdentityKey = selfIdentityKey;
+  }
+
+  getStorePath(): string {
+    return this.storePath;
+  }
+
+  private load(): ReputationState {
+    if (!existsSync(this.storePath)) return { peers: {} };
+    try {
+      const parsed = JSON.parse(readFileSync(this.storePath, 'utf8'));
+      return { peers: parsed?.peers && typeof parsed.peers === 'object' ? parsed.peers : {} };
+    } catch {
+      return { peers: {} };
+    }
+  }
+
+  private save(state: ReputationState): void {
+    if (!existsSync(this.dataDir)) {
+      mkdirSync(this.dataDir, { recursive: true });
+    }
+    writeFileSync(this.storePath, JSON.stringify(state, null, 2), 'utf8');
+  }
+
+  private observe(identityKey: string, now: number, apply: (m: PeerReputationMetrics) => void): PeerReputationMetrics {
+    if (!identityKey) throw new Error('Missing identityKey');
+    const state = this.load();
+    const at = new Date(now).toISOString();
+    const existing = state.peers[identityKey];
+    const metrics: PeerReputationMetrics = existing ? decay(existing, now) : {
+      identityKey,
+      successfulCalls: 0,
+      failedCalls: 0,
+      probesUp: 0,
+      probesDown: 0,
+      validReceipts: 0,
+      invalidReceipts: 0,
+      fraudReports: 0,
+      latencyMs: null,
+      latencySamples: 0,
+      firstSeen: at,
+      updatedAt: at
+    };
+    apply(metrics);
+    metrics.updatedAt = at;
+    state.peers[identityKey] = metrics;
+
+    const keys = Object.keys(state.peers);
+    if (keys.length > MAX_TRACKED) {
+      keys.sort((a, b) => state.peers[a].updatedAt.localeCompare(state.peers[b].updatedAt))
+        .slice(0, keys.length - MAX_TRACKED)
+        .forEach(k => delete state.peers[k]);
+    }
+    this.save(state);
+    return metrics;
+  }
+
+  private addLatency(m: PeerReputationMetrics, latencyMs: number | undefined): void {
+    if (latencyMs === undefined || !Number.isFinite(latencyMs) || latencyMs < 0) return;
+    m.latencyMs = m.latencyMs === null ? latencyMs : m.latencyMs + LATENCY_ALPHA * (latencyMs - m.latencyMs);
+    m.latencySamples += 1;
+  }
+
+  /** A paid call to the peer: did it return a result, and how long did it take? */
+  recordCall(identityKey: string, success: boolean, latencyMs?: number, now = Date.now()): PeerReputationMetrics {
+    return this.observe(identityKey, now, m => {
+      if (success) m.successfulCalls += 1;
+      else m.failedCalls += 1;
+      this.addLatency(m, latencyMs);
+    });
+  }
+
+  /** An uptime probe (health or discovery request) to the peer's endpoint. */
+  recordProbe(identityKey: string, up: boolean, latencyMs?: number, now = Date.now()): PeerReputationMetrics {
+    return this.observe(identityKey, now, m => {
+      if (up) m.probesUp += 1;
+      else m.probesDown += 1;
+      if (up) this.addLatency(m, latencyMs);
+    });
+  }
+
+  /** A receipt the peer issued us: did it verify against the call we made? */
+  recordReceipt(identityKey: string, valid: boolean, now = Date.now()): PeerReputationMetrics {
+    return this.observe(identityKey, now, m => {
+      if (valid) m.validReceipts += 1;
+      else m.invalidReceipts += 1;
+    });
+  }
+
+  recordFraudReport(identityKey: string, now = Date.now()): PeerReputationMetrics {
+    return this.observe(identityKey, now, m => {
+      m.fraudReports += 1;
+    });
+  }
+
+  /** Take back a fraud report recorded at `reportedAt`: what is left of it after decay. */
+  retractFraudReport(identityKey: string, reportedAt: number, now = Date.now()): PeerReputationMetrics {
+    const remaining = 0.5 ** (Math.max(0, now - reportedAt) / REPUTATION_FRAUD_HALF_LIFE_MS);
+    return this.observe(identityKey, now, m => {
+      m.fraudReports = Math.max(0, m.fraudReports - remaining);
+    });
+  }
+
+  /** Counts decayed to `now`, or null for a peer we have never observed. */
+  getMetrics(identityKey: string, now = Date.now()): PeerReputationMetrics | null {
+    const stored = this.load().peers[identityKey];
+    return stored ? decay(stored, now) : null;
+  }
+
+  score(identityKey: string, now = Date.now()): number {
+    return this.explain(identityKey, now).score;
+  }
+
+  getReputation(identityKey: string, now = Date.now()): ReputationScore {
+    const { neutralScore, signals, fraudPenalty, reasons, ...score } = this.explain(identityKey, now);
+    return score;
+  }
+
+  /** Every peer we have observed or hold attestations about, best first. */
+  list(now = Date.now()): ReputationScore[] {
+    const keys = new Set(Object.keys(this.load().peers));
+    for (const a of this.attestations?.list() || []) {
+      if (a.subject !== this.selfIdentityKey) keys.add(a.subject);
+    }
+    return Array.from(keys)
+      .map(key => this.getReputation(key, now))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  private tallyAttestations(
+    identityKey: string,
+    peers: Record<string, PeerReputationMetrics>,
+    now: number
+  ): AttestationTally | null {
+    const byAttester = new Map<string, ReputationAttestation[]>();
+    for (const a of this.attestations?.list({ subject: identityKey }) || []) {
+      // Only attesters we have paid calls or receipts with count: fresh keys are free to mint
+      if (a.attester === this.selfIdentityKey || !peers[a.attester]) continue;
+      byAttester.set(a.attester, [...(byAttester.get(a.attester) || []), a]);
+    }
+
+    const tally: AttestationTally = { good: 0, bad: 0, fraud: 0, attesters: 0 };
+    for (const [attester, attestations] of byAttester) {
+      // The attester's trust comes from our first-hand view only, so scores never chase each other
+      const m = decay(peers[attester], now);
+      const dealings = m.successfulCalls + m.failedCalls + m.validReceipts + m.invalidReceipts;
+      if (dealings <= 0) continue;
+      const familiarity = dealings / (dealings + REPUTATION_CONFIDENCE_K);
+      const trust = blend(signalsFor(m)).score * FRAUD_PENALTY ** m.fraudReports * familiarity / 100;
+      tally.attesters++;
+      const share = Math.min(1, ATTESTER_MAX_WEIGHT / attestations.length);
+      for (const a of attestations) {
+        const age = Math.max(0, now - Date.parse(a.timestamp));
+        const halfLife = a.outcome === 'fraud' ? REPUTATION_FRAUD_HALF_LIFE_MS : REPUTATION_HALF_LIFE_MS;
+        const weight = trust * share * 0.5 ** (age / halfLife);
+        if (a.outcome === 'success') tally.good += weight;
+        else if (a.outcome === 'failure') tally.bad += weight;
+        else tally.fraud += weight;
+      }
+    }
+    return tally.attesters > 0 ? tally : null;
+  }
+
+  /** The score with each signal's value, confidence and weight, and why. */
+  explain(identityKey: string, now = Date.now()): ReputationExplanation {
+    const state = this.load();
+    const stored = state.peers[identityKey];
+    const m = stored ? decay(stored, now) : null;
+    const tally = this.tallyAttestations(identityKey, state.peers, now);
+    const signals = m ? signalsFor(m) : [];
+    if (tally && tally.good + tally.bad > 0) signals.push(ratioSignal('attestations', tally.good, tally.bad));
+    const signal = (name: ReputationSignalName) => signals.find(s => s.name === name);
+
+    const fraudReports = (m?.fraudReports || 0) + (tally?.fraud || 0);
+    const fraudPenalty = FRAUD_PENALTY ** fraudReports;
+    const blended = blend(signals);
+    const score = blended.score * fraudPenalty;
+
+    const reasons: string[] = [];
+    if (!m && !tally) {
+      reasons.push(`Never observed: neutral score ${REPUTATION_NEUTRAL_SCORE}`);
+    } else {
+      const calls = signal('calls');
+      const receipts = signal('receipts');
+      const uptime = signal('uptime');
+      const attested = signal('attestations');
+      if (m && calls?.value != null) reasons.push(`${round(m.successfulCalls)} of ${round(calls.evidence)} recent paid calls succeeded`);
+      if (m && receipts?.value != null) reasons.push(`${round(m.invalidReceipts)} of ${round(receipts.evidence)} recent receipts failed verification`);
+      if (m && uptime?.value != null) reasons.push(`Answered ${round(m.probesUp)} of ${round(uptime.evidence)} recent probes`);
+      if (m?.latencyMs != null) reasons.push(`Average response time ${Math.round(m.latencyMs)} ms`);
+      if (tally && attested?.value != null) {
+        reasons.push(`${Math.round(attested.value * 100)}% positive attestations from ${tally.attesters} peer(s), weighted by their reputation`);
+      }
+      if (fraudReports >= 0.05) {
+        const attestedFraud = tally && tally.fraud >= 0.05 ? ` (${round(tally.fraud)} attested by peers)` : '';
+        reasons.push(`${round(fraudReports)} fraud reports${attestedFraud} scale the score by ${round(fraudPenalty, 2)}`);
+      }
+      if (blended.confidence < 0.5) {
+        reasons.push(`Little evidence yet: the score stays close to neutral ${REPUTATION_NEUTRAL_SCORE}`);
+      }
+    }
+
+    return {
+      clawId: `claw://${identityKey.substring(0, 16)}`,
+      identityKey,
+      score: round(score),
+      confidence: round(blended.confidence, 3),
+      metrics: {
+        successfulDeployments: round(m?.successfulCalls || 0, 2),
+        failedDeployments: round(m?.failedCalls || 0, 2),
+        uptime: round((signal('uptime')?.value ?? 0) * 100),
+        responseTime: Math.round(m?.latencyMs ?? 0),
+        validReceipts: round(m?.validReceipts || 0, 2),
+        invalidReceipts: round(m?.invalidReceipts || 0, 2),
+        fraudReports: round(fraudReports, 2),
+        attestations: round(tally ? tally.good + tally.bad + tally.fraud : 0, 2)
+      },
+      lastUpdated: new Date(m?.updatedAt || now),
+      neutralScore: REPUTATION_NEUTRAL_SCORE,
+      signals: signals.map(s => ({
+        ...s,
+        value: s.value === null ? null : round(s.value, 3),
+        evidence: round(s.evidence, 2),
+        confidence: round(s.confidence, 3)
+      })),
+      fraudPenalty: round(fraudPenalty, 3),
+      reasons
+    };
+  }
+}
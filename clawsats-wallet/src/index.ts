@@ -1,24 +1,169 @@
 export { WalletManager } from './core/WalletManager';
 export { PeerRegistry } from './core/PeerRegistry';
 export { CapabilityRegistry } from './core/CapabilityRegistry';
-export { PaymentHelper } from './core/PaymentHelper';
+export { PaymentHelper, ReceiptStatus } from './core/PaymentHelper';
 export { NonceCache } from './core/NonceCache';
 export { RateLimiter } from './core/RateLimiter';
+export { ChallengeStore } from './core/ChallengeStore';
+export { PaymentReplayLedger } from './core/PaymentReplayLedger';
 export { ClawBrain } from './core/ClawBrain';
 export { BrainJobStore } from './core/BrainJobs';
+export { CreditLedger, serializeCreditAuthorization } from './core/CreditLedger';
+export { AccountingLedger, networkFeeFromAction } from './core/AccountingLedger';
+export { BudgetManager, estimateTxFeeSats } from './core/BudgetManager';
+export { EscrowStore, EscrowRecord, EscrowStatus } from './core/EscrowStore';
+export { ReceiptStore, ReceiptRecord, ReceiptRole, ReceiptFilter } from './core/ReceiptStore';
+export { ReputationEngine, PeerReputationMetrics, ReputationSignal, ReputationExplanation } from './core/ReputationEngine';
+export { AttestationStore, AttestationRecord, AttestationFilter } from './core/AttestationStore';
+export { FraudReportStore, FraudReportRecord, FraudReportStatus, FraudReportFilter } from './core/FraudReportStore';
+export { GossipDiscovery, GossipCandidate, GossipSourceReport, GossipLimits } from './core/GossipDiscovery';
+export { DiscoveryTracker, DiscoveryResult, DiscoveryResultSet } from './core/DiscoveryTracker';
+export {
+  CapabilityIndex,
+  CapabilityIndexEntry,
+  CapabilityIndexMatch,
+  CapabilityIndexOptions,
+  CapabilityIndexQuery,
+  CapabilityIndexRefreshReport,
+  IndexedCapability
+} from './core/CapabilityIndex';
+export { EndpointVerifier, EndpointProofResult, EndpointVerifierOptions } from './core/EndpointVerifier';
+export {
+  PeerAccessList,
+  PeerAccessAction,
+  PeerAccessEntry,
+  PeerAccessDecision,
+  PeerAccessCheck,
+  BanListSubscription,
+  BanListRefreshResult,
+  normalizeAccessEndpoint
+} from './core/PeerAccessList';
+export { DirectoryStore, DirectoryQuery, DirectoryPage } from './core/DirectoryStore';
+export {
+  BeaconIndexer,
+  BeaconRecord,
+  BeaconScanReport,
+  BeaconFilter,
+  BeaconTxSource,
+  SourcedTransaction,
+  FileTxSource,
+  MemoryTxSource,
+  WhatsOnChainTxSource,
+  parseTransactions
+} from './core/BeaconIndexer';
+export { describePricing, quoteCapability, priceForUnits, estimatePrice } from './core/Pricing';
 export { ClawBrainAgent } from './core/ClawBrainAgent';
 export { callLlm, resolveProviderConfig, redactSecrets } from './core/LlmProvider';
 export { JsonRpcServer } from './server/JsonRpcServer';
+export { DirectoryServer } from './server/DirectoryServer';
 export { SharingProtocol } from './protocol';
 export { CourseManager } from './courses/CourseManager';
 export { OnChainMemory } from './memory/OnChainMemory';
-export { formatIdentityKey, generateNonce, canonicalJson, log, logWarn, logError } from './utils';
+export { formatIdentityKey, generateNonce, canonicalJson, isPublicHttpEndpoint, log, logWarn, logError } from './utils';
 export * from './protocol/constants';
+export { deriveFeeLockingScript, findFeeOutput, parsePaymentTransaction, feeInvoiceNumber } from './protocol/fee';
+export { hashParams, signQuote, verifyQuoteSignature, checkQuote } from './protocol/quote';
+export {
+  receiptResultHash,
+  signReceipt,
+  verifyReceiptSignature,
+  countersignReceipt,
+  verifyRequesterSignature,
+  checkReceipt
+} from './protocol/receipt';
+export {
+  RECEIPT_ANCHOR_TAG,
+  receiptLeafHash,
+  buildMerkleTree,
+  verifyMerkleProof,
+  buildAnchorScript,
+  readAnchorRoot,
+  fetchAnchorRoot,
+  checkReceiptAnchor
+} from './protocol/anchor';
+export {
+  ATTESTATION_OUTCOMES,
+  serializeAttestation,
+  attestationKey,
+  signAttestation,
+  verifyAttestationSignature,
+  checkAttestation
+} from './protocol/attestation';
+export {
+  FRAUD_EVIDENCE_KINDS,
+  serializeFraudReport,
+  signFraudReport,
+  verifyFraudReportSignature,
+  checkFraudEvidence,
+  checkFraudReport
+} from './protocol/fraud';
+export {
+  serializePeerExchangePage,
+  signPeerExchangePage,
+  verifyPeerExchangePage,
+  checkPeerExchangePage
+} from './protocol/gossip';
+export {
+  serializeDiscoveryMessage,
+  verifyDiscoverySignature,
+  checkDiscoveryQuery,
+  checkDiscoveryResponse
+} from './protocol/discovery';
+export {
+  serializeEndpointProof,
+  isValidProofNonce,
+  normalizeProofEndpoint,
+  signEndpointProof,
+  verifyEndpointProofSignature,
+  checkEndpointProof
+} from './protocol/ownership';
+export { serializeBanList, signBanList, verifyBanListSignature, checkBanList, fetchBanList } from './protocol/banlist';
+export {
+  DIRECTORY_PROTOCOL_ID,
+  DIRECTORY_KEY_ID,
+  serializeDirectoryRegistration,
+  signDirectoryRegistration,
+  verifyDirectoryRegistrationSignature,
+  checkDirectoryRegistration
+} from './protocol/directory';
+export {
+  BEACON_TAG,
+  BEACON_VERSION,
+  serializeBeacon,
+  signBeacon,
+  verifyBeaconSignature,
+  buildBeaconScript,
+  readBeaconOutputs,
+  decodeBeacon,
+  checkBeacon
+} from './protocol/beacon';
+export {
+  buildHashlockLockingScript,
+  deriveHashlockProviderKey,
+  hashlockCommitment,
+  hashlockPreimage,
+  hashlockUnlock,
+  readHashlockResult
+} from './protocol/hashlock';
+export {
+  buildEscrowLockingScript,
+  buildSettlementTx,
+  completeSettlement,
+  decideDispute,
+  deriveEscrowKey,
+  escrowPayoutScript,
+  findEscrowOutput,
+  signEscrowStatement,
+  signSettlement,
+  verifyEscrowStatement,
+  verifySettlementSignature
+} from './protocol/escrow';
 export {
   WalletConfig,
   Chain,
   CreateWalletOptions,
   ServeOptions,
+  PaidCallFailurePolicy,
   ShareOptions,
   Invitation,
   CapabilityAnnouncement,
@@ -28,6 +173,16 @@ export {
   ExpectedOutput,
   PeerRecord,
   CapabilityHandler,
+  CapabilityPricing,
+  PriceTier,
+  PriceQuote,
+  CallUsage,
+  SignedQuote,
+  EscrowParty,
+  EscrowPayee,
+  EscrowTerms,
+  EscrowDelivery,
+  EscrowRuling,
   EchoRequest,
   EchoResponse,
   BroadcastListingRequest,
@@ -36,6 +191,24 @@ export {
   BeaconPayload,
   InvitationAcceptance,
   Receipt,
+  CallReceipt,
+  MerkleStep,
+  ReceiptAnchorProof,
   BroadcastMeta,
-  ReputationScore
+  ReputationScore,
+  AttestationOutcome,
+  ReputationAttestation,
+  FraudEvidenceKind,
+  FraudReport,
+  PeerExchangeEntry,
+  PeerExchangePage,
+  EndpointProof,
+  EndpointProofStatus,
+  PeerAccessKind,
+  BanListEntry,
+  BanList,
+  DirectoryRegistration,
+  DirectoryEntryStatus,
+  DirectoryEntry,
+  DirectoryServeOptions
 } from './types';
@@ -34,6 +34,8 @@ import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
 import { join } from 'path';
 import { createHash } from 'crypto';
 import { log, logWarn, logError } from '../utils';
+import { networkFeeFromAction } from '../core/AccountingLedger';
+import { BudgetManager, estimateTxFeeSats } from '../core/BudgetManager';
 
 const TAG = 'memory';
 
@@ -49,6 +51,7 @@ export interface MemoryRecord {
   contentHash: string;      // SHA-256 of the raw content
   category: string;         // e.g. "peer-trust", "course-completion", "capability-log", "general"
   createdAt: string;        // ISO timestamp
+  networkFeeSats?: number;  // Miner fee paid for the write, when the wallet reports it
   metadata?: Record<string, any>;
 }
 
@@ -78,6 +81,7 @@ export class OnChainMemory {
   private index: MemoryIndex;
   private dataDir: string;
   private indexPath: string;
+  private budget: BudgetManager | null = null;
 
   constructor(dataDir: string, identityKey: string) {
     this.dataDir = dataDir;
@@ -91,6 +95,13 @@ export class OnChainMemory {
     };
   }
 
+  /**
+   * Enforce the 'memory' spending budget on every on-chain write.
+   */
+  setBudgetManager(budget: BudgetManager): void {
+    this.budget = budget;
+  }
+
   /**
    * Load the memory index from disk.
    */
@@ -167,6 +178,8 @@ export class OnChainMemory {
 
     log(TAG, `Writing memory "${key}" (${data.length} bytes, ${encrypted ? 'encrypted' : 'plaintext'}) on-chain...`);
 
+    // Throws before anything is signed if the memory budget is spent
+    const reservation = this.budget?.reserve('memory', estimateTxFeeSats(script.length), key);
     try {
       const result = await wallet.createAction({
         description: `ClawSats memory: ${key} (${data.length} bytes)`,
@@ -187,6 +200,8 @@ export class OnChainMemory {
       if (!txid) {
         throw new Error('createAction did not return a txid');
       }
+      const networkFeeSats = networkFeeFromAction(result);
+      if (reservation) this.budget?.settle(reservation.id, networkFeeSats);
 
       const record: MemoryRecord = {
         key,
@@ -198,6 +213,7 @@ export class OnChainMemory {
         contentHash,
         category,
         createdAt: new Date().toISOString(),
+        networkFeeSats,
         metadata
       };
 
@@ -209,6 +225,7 @@ export class OnChainMemory {
       log(TAG, `Memory "${key}" written on-chain: txid=${txid.substring(0, 16)}... (${data.length} bytes)`);
       return record;
     } catch (err) {
+      if (reservation) this.budget?.release(reservation.id);
       const msg = err instanceof Error ? err.message : String(err);
       logError(TAG, `Failed to write memory "${key}": ${msg}`);
       throw new Error(`On-chain memory write failed: ${msg}`);
@@ -413,21 +430,30 @@ export class OnChainMemory {
 
     log(TAG, `Writing master index on-chain (${this.index.memories.length} entries, ${payload.length} bytes)...`);
 
-    const result = await wallet.createAction({
-      description: `ClawSats master memory index (${this.index.memories.length} entries)`,
-      outputs: [{
-        lockingScript: script.toString('hex'),
-        satoshis: 0,
-        outputDescription: 'CLAWMEM_V1 master index',
-        tags: ['clawsats memory', 'master-index'],
-        basket: 'clawsats-memories'
-      }],
-      labels: ['clawsats memory', 'clawsats-master-index'],
-      options: { acceptDelayedBroadcast: false }
-    });
+    const reservation = this.budget?.reserve('memory', estimateTxFeeSats(script.length), '__master_index__');
+    let result: any;
+    try {
+      result = await wallet.createAction({
+        description: `ClawSats master memory index (${this.index.memories.length} entries)`,
+        outputs: [{
+          lockingScript: script.toString('hex'),
+          satoshis: 0,
+          outputDescription: 'CLAWMEM_V1 master index',
+          tags: ['clawsats memory', 'master-index'],
+          basket: 'clawsats-memories'
+        }],
+        labels: ['clawsats memory', 'clawsats-master-index'],
+        options: { acceptDelayedBroadcast: false }
+      });
+    } catch (err) {
+      if (reservation) this.budget?.release(reservation.id);
+      throw err;
+    }
 
     const txid = result.txid || '';
     if (!txid) throw new Error('Master index createAction did not return a txid');
+    const networkFeeSats = networkFeeFromAction(result);
+    if (reservation) this.budget?.settle(reservation.id, networkFeeSats);
 
     // Record the master index as a special memory entry
     const record: MemoryRecord = {
@@ -440,6 +466,7 @@ export class OnChainMemory {
       contentHash: createHash('sha256').update(payload).digest('hex'),
       category: 'system',
       createdAt: new Date().toISOString(),
+      networkFeeSats,
       metadata: { entriesCount: this.index.memories.length }
     };
 
@@ -0,0 +1,149 @@
+/**
+ * On-chain anchoring of issued receipts (clawsats://v1).
+ *
+ * A provider periodically builds a Merkle tree over the receipts it issued
+ * since its last anchor and writes the root in an OP_RETURN:
+ *
+ *   OP_FALSE OP_RETURN "CLAWRCPT_V1" <root> <json { provider, leafCount, anchoredAt }>
+ *
+ * Each stored receipt gets its inclusion proof. With the proof and the anchor
+ * tx, anyone can show the provider had issued the receipt by the time the tx
+ * was mined — the provider can no longer deny it or back-date it.
+ *
+ * Leaves and nodes are domain-separated (0x00 / 0x01 prefix) so a leaf can
+ * never be passed off as an inner node. An odd node at any level is paired
+ * with itself.
+ */
+
+import { createHash } from 'crypto';
+import { LockingScript, OP, Transaction } from '@bsv/sdk';
+import { CallReceipt, Chain, MerkleStep, ReceiptAnchorProof } from '../types';
+import { serializeReceiptForAck } from './receipt';
+
+export const RECEIPT_ANCHOR_TAG = 'CLAWRCPT_V1';
+
+function sha256Hex(...parts: Buffer[]): string {
+  return createHash('sha256').update(Buffer.concat(parts)).digest('hex');
+}
+
+function nodeHash(left: string, right: string): string {
+  return sha256Hex(Buffer.from([1]), Buffer.from(left, 'hex'), Buffer.from(right, 'hex'));
+}
+
+/**
+ * Leaf for a receipt: the provider-signed receipt, signature included. A
+ * countersignature added later doesn't change the leaf.
+ */
+export function receiptLeafHash(receipt: CallReceipt): string {
+  return sha256Hex(Buffer.from([0]), Buffer.from(serializeReceiptForAck(receipt), 'utf8'));
+}
+
+/** Root of the tree over `leaves`, and each leaf's path to it. */
+export function buildMerkleTree(leaves: string[]): { root: string; paths: MerkleStep[][] } {
+  if (leaves.length === 0) throw new Error('Cannot build a Merkle tree with no leaves');
+  const paths: MerkleStep[][] = leaves.map(() => []);
+  let positions = leaves.map((_, i) => i);   // each leaf's index in the current level
+  let level = leaves.slice();
+  while (level.length > 1) {
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(nodeHash(level[i], level[i + 1] ?? level[i]));
+    }
+    positions = positions.map((pos, leaf) => {
+      const isLeft = pos % 2 === 0;
+      const sibling = isLeft ? (level[pos + 1] ?? level[pos]) : level[pos - 1];
+      paths[leaf].push({ hash: sibling, position: isLeft ? 'right' : 'left' });
+      return Math.floor(pos / 2);
+    });
+    level = next;
+  }
+  return { root: level[0], paths };
+}
+
+export function verifyMerkleProof(leaf: string, path: MerkleStep[], root: string): boolean {
+  let hash = leaf;
+  for (const step of path || []) {
+    if (!/^[0-9a-f]{64}$/i.test(step?.hash || '')) return false;
+    hash = step.position === 'left' ? nodeHash(step.hash, hash) : nodeHash(hash, step.hash);
+  }
+  return hash === root;
+}
+
+/** OP_RETURN locking script (hex) committing to a batch root. */
+export function buildAnchorScript(root: string, meta: { provider: string; leafCount: number; anchoredAt: string }): string {
+  if (!/^[0-9a-f]{64}$/i.test(root)) throw new Error('Anchor root must be a 32-byte hex hash');
+  return new LockingScript()
+    .writeOpCode(OP.OP_FALSE)
+    .writeOpCode(OP.OP_RETURN)
+    .writeBin(Array.from(Buffer.from(RECEIPT_ANCHOR_TAG, 'utf8')))
+    .writeBin(Array.from(Buffer.from(root, 'hex')))
+    .writeBin(Array.from(Buffer.from(JSON.stringify(meta), 'utf8')))
+    .toHex();
+}
+
+/** Data pushes after OP_FALSE OP_RETURN, or null for any other script. */
+export function opReturnPushes(script: number[]): number[][] | null {
+  let pos = script[0] === OP.OP_FALSE ? 1 : 0;
+  if (script[pos] !== OP.OP_RETURN) return null;
+  pos++;
+  const pushes: number[][] = [];
+  while (pos < script.length) {
+    const op = script[pos++];
+    let len: number;
+    if (op <= 0x4b) len = op;
+    else if (op === OP.OP_PUSHDATA1) len = script[pos++];
+    else if (op === OP.OP_PUSHDATA2) { len = script[pos] | (script[pos + 1] << 8); pos += 2; }
+    else break;
+    pushes.push(script.slice(pos, pos + len));
+    pos += len;
+  }
+  return pushes;
+}
+
+/** The root committed by a CLAWRCPT_V1 output in `tx`, or null if there is none. */
+export function readAnchorRoot(tx: Transaction): string | null {
+  for (const output of tx.outputs) {
+    const pushes = output.lockingScript ? opReturnPushes(output.lockingScript.toBinary()) : null;
+    if (!pushes || pushes.length < 2) continue;
+    if (Buffer.from(pushes[0]).toString('utf8') === RECEIPT_ANCHOR_TAG && pushes[1].length === 32) {
+      return Buffer.from(pushes[1]).toString('hex');
+    }
+  }
+  return null;
+}
+
+/** Look up an anchor tx on `chain` (WhatsOnChain) and return the root it commits to. */
+export async function fetchAnchorRoot(txid: string, chain: Chain = 'main', timeoutMs = 15000): Promise<string | null> {
+  if (!/^[0-9a-f]{64}$/i.test(txid)) return null;
+  const res = await fetch(`https://api.whatsonchain.com/v1/bsv/${chain}/tx/${txid}/hex`, {
+    signal: AbortSignal.timeout(timeoutMs)
+  });
+  if (!res.ok) return null;
+  return readAnchorRoot(Transaction.fromHex((await res.text()).trim()));
+}
+
+/**
+ * Check a receipt's inclusion proof, and (unless `onChain` is false) that the
+ * anchor tx on `chain` (default main) really commits to the proof's root.
+ * Returns the first problem found, or null.
+ */
+export async function checkReceiptAnchor(
+  receipt: CallReceipt,
+  anchor: ReceiptAnchorProof | undefined,
+  options: { onChain?: boolean; chain?: Chain; timeoutMs?: number } = {}
+): Promise<string | null> {
+  if (!anchor?.txid || !anchor.root) return 'No anchor proof';
+  if (!verifyMerkleProof(receiptLeafHash(receipt), anchor.path, anchor.root)) {
+    return 'Receipt is not in the anchored Merkle tree';
+  }
+  if (options.onChain === false) return null;
+  let root: string | null;
+  try {
+    root = await fetchAnchorRoot(anchor.txid, options.chain, options.timeoutMs);
+  } catch {
+    return `Anchor tx ${anchor.txid} could not be fetched`;
+  }
+  if (!root) return `Anchor tx ${anchor.txid} has no ${RECEIPT_ANCHOR_TAG} output`;
+  if (root !== anchor.root) return 'Anchor tx commits to a different root';
+  return null;
+}
@@ -0,0 +1,76 @@
+/**
+ * Peer-signed reputation attestations (clawsats://v1).
+ *
+ * After a call, either party can sign an attestation about the other —
+ * success, failure or fraud — carrying the receipt for that call. The
+ * receipt is the proof they transacted: its provider signature must verify,
+ * it must name the on-chain payment for the call, its two parties must be
+ * the attester and the subject, and if the attester was the provider the
+ * requester must have countersigned it. Calls paid from credit can't be
+ * attested: a payment txid makes each attestation cost its attester a
+ * real transaction.
+ */
+
+import { AttestationOutcome, ReputationAttestation } from '../types';
+import { canonicalJson } from '../utils';
+import { ATTESTATION_MAX_NOTE_CHARS, IDENTITY_KEY_RE, MAX_CLOCK_SKEW_MS } from './constants';
+import { verifyReceiptSignature, verifyRequesterSignature } from './receipt';
+import { signForAnyone, verifyFromAnyone } from './signing';
+
+export const ATTESTATION_PROTOCOL_ID: [0, string] = [0, 'clawsats attestation'];
+export const ATTESTATION_KEY_ID = 'attestation-v1';
+export const ATTESTATION_OUTCOMES: AttestationOutcome[] = ['success', 'failure', 'fraud'];
+
+/** Canonical bytes the attester signs: everything but its signature. */
+export function serializeAttestation(attestation: ReputationAttestation): string {
+  const { signature, ...rest } = attestation;
+  return canonicalJson(rest);
+}
+
+/** An attester's latest word on a call supersedes its earlier one. */
+export function attestationKey(attestation: ReputationAttestation): string {
+  return `${attestation.attester}:${attestation.receipt?.receiptId}`;
+}
+
+export async function signAttestation(
+  wallet: any,
+  attestation: Omit<ReputationAttestation, 'signature'>
+): Promise<ReputationAttestation> {
+  const signature = await signForAnyone(wallet, serializeAttestation(attestation as ReputationAttestation), ATTESTATION_PROTOCOL_ID, ATTESTATION_KEY_ID);
+  return { ...attestation, signature };
+}
+
+export async function verifyAttestationSignature(attestation: ReputationAttestation): Promise<boolean> {
+  if (!attestation?.signature || !attestation.attester) return false;
+  return verifyFromAnyone(serializeAttestation(attestation), attestation.signature, ATTESTATION_PROTOCOL_ID, ATTESTATION_KEY_ID, attestation.attester);
+}
+
+/**
+ * Check an attestation from anyone: its fields, the receipt tying attester
+ * and subject to one call, and the attester's signature. Returns the first
+ * problem found, or null.
+ */
+export async function checkAttestation(attestation: ReputationAttestation, now = Date.now()): Promise<string | null> {
+  if (!attestation || typeof attestation !== 'object') return 'Not an attestation';
+  const { attester, subject, outcome, receipt } = attestation;
+  if (!IDENTITY_KEY_RE.test(attester || '') || !IDENTITY_KEY_RE.test(subject || '')) return 'Attester and subject must be identity keys';
+  if (attester === subject) return 'A Claw cannot attest about itself';
+  if (!ATTESTATION_OUTCOMES.includes(outcome)) return `Unknown outcome: ${String(outcome)}`;
+  if (attestation.note !== undefined && (typeof attestation.note !== 'string' || attestation.note.length > ATTESTATION_MAX_NOTE_CHARS)) {
+    return `Note must be a string of at most ${ATTESTATION_MAX_NOTE_CHARS} characters`;
+  }
+  const ts = Date.parse(attestation.timestamp);
+  if (!Number.isFinite(ts) || ts > now + MAX_CLOCK_SKEW_MS) return 'Attestation timestamp is invalid or in the future';
+
+  if (!receipt?.receiptId) return 'Attestation carries no receipt';
+  const parties = [receipt.provider, receipt.requester];
+  if (!parties.includes(attester) || !parties.includes(subject)) return 'Receipt is not between the attester and the subject';
+  if (ts < Date.parse(receipt.timestamp)) return 'Attestation predates its receipt';
+  if (!/^[0-9a-f]{64}$/i.test(receipt.paymentTxid || '')) return 'Receipt names no on-chain payment';
+  if (!(await verifyReceiptSignature(receipt))) return 'Receipt provider signature does not verify';
+  if (receipt.provider === attester && !(await verifyRequesterSignature(receipt))) {
+    return 'A provider can only attest with a receipt its requester countersigned';
+  }
+  if (!(await verifyAttestationSignature(attestation))) return 'Attester signature does not verify';
+  return null;
+}
@@ -0,0 +1,86 @@
+/**
+ * Shared ban lists (clawsats://v1).
+ *
+ * GET /ban-list returns the identity keys and endpoints a Claw's operator has
+ * blocked, signed by that Claw. Other operators may subscribe to the list of
+ * a Claw they trust: its bans then apply to them too, unless they allowed
+ * the peer themselves.
+ */
+
+import { BanList, BanListEntry } from '../types';
+import { canonicalJson } from '../utils';
+import { BAN_LIST_MAX_AGE_MS, BAN_LIST_MAX_ENTRIES, BAN_LIST_TIMEOUT_MS, IDENTITY_KEY_RE, MAX_CLOCK_SKEW_MS } from './constants';
+import { signForAnyone, verifyFromAnyone } from './signing';
+
+export const BAN_LIST_PROTOCOL_ID: [0, string] = [0, 'clawsats ban list'];
+export const BAN_LIST_KEY_ID = 'ban-list-v1';
+
+/** Canonical bytes the publisher signs: everything but its signature. */
+export function serializeBanList(list: BanList): string {
+  const { signature, ...rest } = list;
+  return canonicalJson(rest);
+}
+
+export async function signBanList(wallet: any, list: Omit<BanList, 'signature'>): Promise<BanList> {
+  const signature = await signForAnyone(wallet, serializeBanList(list as BanList), BAN_LIST_PROTOCOL_ID, BAN_LIST_KEY_ID);
+  return { ...list, signature };
+}
+
+export async function verifyBanListSignature(list: BanList): Promise<boolean> {
+  if (!list?.signature || !list.publisher) return false;
+  return verifyFromAnyone(serializeBanList(list), list.signature, BAN_LIST_PROTOCOL_ID, BAN_LIST_KEY_ID, list.publisher);
+}
+
+function entryProblem(entry: BanListEntry): string | null {
+  if (!entry || typeof entry !== 'object') return 'not an object';
+  if (entry.kind === 'identity') {
+    if (!IDENTITY_KEY_RE.test(entry.value || '')) return 'value is not an identity key';
+  } else if (entry.kind === 'endpoint') {
+    try {
+      const url = new URL(entry.value);
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') return 'value is not an http(s) endpoint';
+    } catch {
+      return 'value is not a URL';
+    }
+  } else {
+    return 'kind must be identity or endpoint';
+  }
+  if (entry.reason !== undefined && typeof entry.reason !== 'string') return 'reason must be a string';
+  if (entry.expiresAt !== undefined && !Number.isFinite(Date.parse(entry.expiresAt))) return 'expiresAt is not a date';
+  return null;
+}
+
+/**
+ * Check a list fetched from `expectedPublisher`: well-formed entries, within
+ * BAN_LIST_MAX_ENTRIES, recent, and signed by its publisher. Returns the
+ * first problem found, or null.
+ */
+export async function checkBanList(
+  list: BanList,
+  options: { expectedPublisher?: string; now?: number } = {}
+): Promise<string | null> {
+  const now = options.now ?? Date.now();
+  if (!list || typeof list !== 'object' || list.type !== 'ban-list' || !Array.isArray(list.entries)) return 'Not a ban list';
+  if (!IDENTITY_KEY_RE.test(list.publisher || '')) return 'Publisher is not an identity key';
+  if (options.expectedPublisher && list.publisher !== options.expectedPublisher) return 'List is signed by a different Claw';
+  if (list.entries.length > BAN_LIST_MAX_ENTRIES) return `More than ${BAN_LIST_MAX_ENTRIES} entries`;
+  const ts = Date.parse(list.timestamp);
+  if (!Number.isFinite(ts) || ts > now + MAX_CLOCK_SKEW_MS) return 'List timestamp is invalid or in the future';
+  if (now - ts > BAN_LIST_MAX_AGE_MS) return 'List is stale';
+  for (let i = 0; i < list.entries.length; i++) {
+    const problem = entryProblem(list.entries[i]);
+    if (problem) return `Entry ${i}: ${problem}`;
+  }
+  if (!(await verifyBanListSignature(list))) return 'Publisher signature does not verify';
+  return null;
+}
+
+/** GET `endpoint`/ban-list and check it against `publisher`. Throws with the problem if it doesn't hold. */
+export async function fetchBanList(endpoint: string, publisher: string, timeoutMs = BAN_LIST_TIMEOUT_MS): Promise<BanList> {
+  const res = await fetch(`${endpoint.replace(/\/+$/, '')}/ban-list`, { signal: AbortSignal.timeout(timeoutMs) });
+  if (!res.ok) throw new Error(`GET /ban-list returned ${res.status}`);
+  const list = await res.json() as BanList;
+  const problem = await checkBanList(list, { expectedPublisher: publisher });
+  if (problem) throw new Error(problem);
+  return list;
+}
@@ -0,0 +1,119 @@
+/**
+ * On-chain beacons (clawsats://v1).
+ *
+ * A Claw announces itself in an OP_RETURN output:
+ *
+ *   OP_FALSE OP_RETURN "CLAWSATS_V1" <json { v, id, ep, ch, cap, ts, sig }>
+ *
+ * The payload's fields come in BEACON_FIELD_ORDER, and `sig` is the identity
+ * key's signature over the same JSON without `sig`. The signature only
+ * proves the key published the claim; whoever reads a beacon still
+ * challenges the endpoint before trusting it.
+ */
+
+import { LockingScript, OP, Transaction } from '@bsv/sdk';
+import { BeaconPayload } from '../types';
+import { BEACON_FIELD_ORDER, BEACON_MAX_BYTES, IDENTITY_KEY_RE, MAX_CLOCK_SKEW_MS } from './constants';
+import { opReturnPushes } from './anchor';
+import { signForAnyone, verifyFromAnyone } from './signing';
+
+export const BEACON_TAG = 'CLAWSATS_V1';
+export const BEACON_VERSION = '1.0';
+export const BEACON_PROTOCOL_ID: [0, string] = [0, 'clawsats beacon'];
+export const BEACON_KEY_ID = 'beacon-v1';
+
+const CAPABILITY_RE = /^[a-z0-9_:-]{2,80}$/i;
+
+/** The payload JSON in BEACON_FIELD_ORDER; without `sig` it is what gets signed. */
+export function serializeBeacon(payload: BeaconPayload, includeSignature = false): string {
+  const ordered: Record<string, unknown> = {};
+  for (const field of BEACON_FIELD_ORDER) {
+    if (field === 'sig' && !includeSignature) continue;
+    ordered[field] = payload[field];
+  }
+  return JSON.stringify(ordered);
+}
+
+export async function signBeacon(
+  wallet: any,
+  fields: Omit<BeaconPayload, 'v' | 'sig'>
+): Promise<BeaconPayload> {
+  const payload: BeaconPayload = { v: BEACON_VERSION, ...fields, sig: '' };
+  const signature = await signForAnyone(wallet, serializeBeacon(payload), BEACON_PROTOCOL_ID, BEACON_KEY_ID);
+  return { ...payload, sig: signature };
+}
+
+export async function verifyBeaconSignature(payload: BeaconPayload): Promise<boolean> {
+  if (!payload?.sig || !payload.id) return false;
+  return verifyFromAnyone(serializeBeacon(payload), payload.sig, BEACON_PROTOCOL_ID, BEACON_KEY_ID, payload.id);
+}
+
+/** OP_RETURN locking script (hex) carrying a signed beacon. Throws past BEACON_MAX_BYTES. */
+export function buildBeaconScript(payload: BeaconPayload): string {
+  const tag = Buffer.from(BEACON_TAG, 'utf8');
+  const json = Buffer.from(serializeBeacon(payload, true), 'utf8');
+  if (tag.length + json.length > BEACON_MAX_BYTES) {
+    throw new Error(`Beacon payload too large: ${tag.length + json.length} bytes (max ${BEACON_MAX_BYTES}). Shorten capabilities list or endpoint URL.`);
+  }
+  return new LockingScript()
+    .writeOpCode(OP.OP_FALSE)
+    .writeOpCode(OP.OP_RETURN)
+    .writeBin(Array.from(tag))
+    .writeBin(Array.from(json))
+    .toHex();
+}
+
+/** The raw payload of every CLAWSATS_V1 output in `tx`, by output index. */
+export function readBeaconOutputs(tx: Transaction): Array<{ vout: number; raw: string }> {
+  const found: Array<{ vout: number; raw: string }> = [];
+  tx.outputs.forEach((output, vout) => {
+    const pushes = output.lockingScript ? opReturnPushes(output.lockingScript.toBinary()) : null;
+    if (!pushes || pushes.length < 2) return;
+    if (Buffer.from(pushes[0]).toString('utf8') !== BEACON_TAG) return;
+    found.push({ vout, raw: Buffer.from(pushes[1]).toString('utf8') });
+  });
+  return found;
+}
+
+/** A payload whose JSON has exactly the beacon fields, in order; null otherwise. */
+export function decodeBeacon(raw: string): BeaconPayload | null {
+  if (Buffer.byteLength(raw, 'utf8') > BEACON_MAX_BYTES) return null;
+  try {
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return null;
+    const keys = Object.keys(parsed);
+    if (keys.length !== BEACON_FIELD_ORDER.length || keys.some((k, i) => k !== BEACON_FIELD_ORDER[i])) return null;
+    return parsed as BeaconPayload;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check a decoded beacon: well-formed, not from the future (nor older than
+ * `maxAgeMs` when given), and signed by the key it announces. Returns the
+ * first problem found, or null.
+ */
+export async function checkBeacon(
+  payload: BeaconPayload,
+  options: { now?: number; maxAgeMs?: number } = {}
+): Promise<string | null> {
+  const now = options.now ?? Date.now();
+  if (typeof payload?.v !== 'string' || !payload.v.startsWith('1.')) return 'Unsupported beacon version';
+  if (!IDENTITY_KEY_RE.test(payload.id || '')) return 'id is not an identity key';
+  try {
+    const url = new URL(payload.ep);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return 'ep is not http(s)';
+  } catch {
+    return 'ep is not a URL';
+  }
+  if (payload.ch !== 'test' && payload.ch !== 'main') return 'ch must be test or main';
+  if (!Array.isArray(payload.cap) || payload.cap.some(c => typeof c !== 'string' || !CAPABILITY_RE.test(c))) {
+    return 'cap must be capability names';
+  }
+  const ts = Date.parse(payload.ts);
+  if (!Number.isFinite(ts) || ts - now > MAX_CLOCK_SKEW_MS) return 'ts is invalid or in the future';
+  if (options.maxAgeMs !== undefined && now - ts > options.maxAgeMs) return 'Beacon is too old';
+  if (!(await verifyBeaconSignature(payload))) return 'Beacon signature does not verify';
+  return null;
+}
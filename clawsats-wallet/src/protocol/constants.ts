@@ -15,6 +15,10 @@ export const PROTOCOL_ID = 'clawsats://v1';
 export const PROTOCOL_TAG = 'CLAWSATS_V1';
 export const PROTOCOL_VERSION = '1.0';
 
+// ── Signed messages ──────────────────────────────────────────────────
+export const IDENTITY_KEY_RE = /^(02|03)[0-9a-fA-F]{64}$/;   // compressed secp256k1 public key, hex
+export const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;              // how far ahead of our clock a signed timestamp may be
+
 // ── Fee constants (hardcoded — no lookup dependency) ─────────────────
 export const FEE_SATS = 2;
 export const FEE_KID = 'clawsats-fee-v1';
@@ -45,10 +49,130 @@ export const INVITE_TTL_MS = 5 * 60 * 1000;           // 5 minutes (short, per B
 export const INVITE_MAX_PER_HOUR = 20;                 // receiver-enforced
 export const NONCE_CACHE_SIZE = 1000;                  // max nonces to remember for replay protection
 
+// ── 402 challenge tracking ───────────────────────────────────────────
+export const CHALLENGE_TTL_MS = 5 * 60 * 1000;         // a 402 challenge must be paid within 5 min
+export const CHALLENGE_STORE_SIZE = 10000;             // max outstanding challenges remembered
+export const QUOTE_TTL_MS = 10 * 60 * 1000;            // default lifetime of a signed quote
+export const QUOTE_MAX_TTL_MS = 60 * 60 * 1000;        // longest quote a caller can ask for
+export const BATCH_MAX_ITEMS = 10;                     // calls per POST /batch
+export const HASHLOCK_MAX_RESULT_BYTES = 8192;         // largest result revealed in a hashlock claim tx
+
+// ── Arbiter escrow ─────────────────────────────────────────────
+// 2-of-3 escrow for expensive hires; the settlement tx pays its own miner fee
+// (~230 bytes) out of the escrowed output.
+export const ESCROW_SETTLEMENT_FEE_SATS = 1;
+export const ARBITRATE_PRICE_SATS = 20;                // arbiter's fee per dispute ruling
+
+// ── Receipt anchoring ──────────────────────────────────────────
+// Issued receipts are batched into a Merkle tree whose root goes on-chain.
+export const RECEIPT_ANCHOR_INTERVAL_MS = 60 * 60 * 1000;   // anchor pending receipts hourly
+export const RECEIPT_ANCHOR_MAX_LEAVES = 10000;             // receipts per anchor tx
+
+// ── Peer reputation ────────────────────────────────────────────
+// Observations fade with a half-life, so a Claw's score tracks how it behaves
+// now rather than a year ago. Fraud reports fade much more slowly.
+export const REPUTATION_NEUTRAL_SCORE = 40;                      // score of a Claw we know nothing about
+export const REPUTATION_HALF_LIFE_MS = 14 * 24 * 60 * 60 * 1000;       // 14 days
+export const REPUTATION_FRAUD_HALF_LIFE_MS = 90 * 24 * 60 * 60 * 1000; // 90 days
+export const REPUTATION_CONFIDENCE_K = 5;                        // observations for 50% confidence in a signal
+export const REPUTATION_LATENCY_REF_MS = 1000;                   // response time that scores half marks
+export const ATTESTATION_MAX_PER_REQUEST = 25;                   // attestations per POST /reputation/attestations
+export const ATTESTATION_MAX_NOTE_CHARS = 280;
+export const ATTESTATION_PUSHES_PER_HOUR = 60;                   // POST /reputation/attestations per IP
+export const FRAUD_REPORT_MAX_PER_REQUEST = 10;                  // reports per POST /reputation/fraud-reports
+export const FRAUD_REPORT_PUSHES_PER_HOUR = 20;                  // POST /reputation/fraud-reports per IP
+export const FRAUD_REPORT_MAX_DESCRIPTION_CHARS = 500;
+export const FRAUD_AUTO_BLOCK_REPORTS = 2;                       // confirmed reports before a provider is never hired
+
+// ── Peer exchange (gossip discovery) ───────────────────────────
+// GET /peers shares a signed sample of the peers we rate well; sweeps read it
+// from their best peers and probe what they learn before trusting any of it.
+export const PEER_EXCHANGE_PAGE_SIZE = 50;                       // entries per page, at most
+export const PEER_EXCHANGE_MAX_SHARED = 200;                     // best peers shared across all pages
+export const PEER_EXCHANGE_MIN_REPUTATION = 40;                  // never share peers scored below neutral
+export const PEER_EXCHANGE_SHARE_SEEN_MS = 48 * 60 * 60 * 1000;  // only peers seen in the last 2 days
+export const PEER_EXCHANGE_MAX_PAGE_AGE_MS = 10 * 60 * 1000;     // older signed pages are refused
+export const PEER_EXCHANGE_REQUESTS_PER_HOUR = 120;              // GET /peers per IP
+export const GOSSIP_MAX_SOURCES = 5;                             // peers asked per sweep, best first
+export const GOSSIP_MAX_PAGES_PER_SOURCE = 2;
+export const GOSSIP_MAX_NEW_PER_SOURCE = 10;                     // new endpoints one peer can hand us per sweep
+export const GOSSIP_MAX_NEW_PER_SWEEP = 25;
+
+// ── Discovery queries ─────────────────────────────────────────────────
+// POST /discovery/query asks a Claw who offers a capability; it answers from
+// its registry to the query's callback and may relay the query onwards.
+export const DISCOVERY_HOP_LIMIT = 2;                            // relays a query may pass through, at most
+export const DISCOVERY_QUERY_TTL_MS = 5 * 60 * 1000;             // queries older than this are dropped; origins stop collecting
+export const DISCOVERY_MAX_RESULTS = 50;                         // results one responder may send
+export const DISCOVERY_FANOUT = 5;                               // peers the origin asks directly
+export const DISCOVERY_FORWARD_FANOUT = 3;                       // peers each relay passes a query on to
+export const DISCOVERY_QUERIES_PER_HOUR = 120;                   // POST /discovery/query and /callback per IP
+
+// ── Capability index ──────────────────────────────────────────────────
+// searchCapabilities reads a cache of peers' /discovery documents, kept fresh
+// in the background and revalidated with ETags, instead of crawling every peer.
+export const CAPABILITY_INDEX_TTL_MS = 10 * 60 * 1000;           // a peer's listings are refreshed after this
+export const CAPABILITY_INDEX_REFRESH_INTERVAL_MS = 60 * 1000;   // background sweep for entries past their TTL
+export const CAPABILITY_INDEX_CONCURRENCY = 8;                   // /discovery fetches in flight at once
+export const CAPABILITY_INDEX_TIMEOUT_MS = 5000;
+export const CAPABILITY_INDEX_MAX_FAILURES = 3;                  // failed refreshes in a row before a peer drops out of results
+
+// ── Endpoint ownership proofs ─────────────────────────────────────────
+// A peer's endpoint is trusted once it answers a nonce with a proof signed by
+// the peer's identity key; until then the peer is never hired.
+export const ENDPOINT_PROOF_TIMEOUT_MS = 5000;
+export const ENDPOINT_PROOF_VALID_MS = 24 * 60 * 60 * 1000;      // a verified endpoint is challenged again after this
+export const ENDPOINT_PROOF_RETRY_MS = 30 * 60 * 1000;           // a failed one is retried after this
+export const ENDPOINT_PROOF_REQUESTS_PER_HOUR = 240;             // GET /endpoint-proof per IP
+
+// ── Directory ─────────────────────────────────────────────────────────
+// `clawsats-wallet directory` serves GET /api/directory and POST
+// /api/directory/register for fleets that run their own seed list.
+export const DIRECTORY_DEFAULT_PORT = 3330;
+export const DIRECTORY_ENTRY_TTL_MS = 24 * 60 * 60 * 1000;       // silent this long → dropped
+export const DIRECTORY_LIVENESS_INTERVAL_MS = 10 * 60 * 1000;    // listed endpoints re-challenged this often
+export const DIRECTORY_LIVENESS_CONCURRENCY = 4;
+export const DIRECTORY_MAX_ENTRIES = 10_000;
+export const DIRECTORY_MAX_CAPABILITIES = 64;                    // per registration
+export const DIRECTORY_PAGE_SIZE = 100;                          // default GET /api/directory limit
+export const DIRECTORY_MAX_PAGE_SIZE = 500;
+export const DIRECTORY_REGISTRATIONS_PER_HOUR = 30;              // POST /api/directory/register per IP
+export const DIRECTORY_REQUESTS_PER_HOUR = 1200;                 // GET /api/directory per IP
+
+// ── Peer access lists ─────────────────────────────────────────────────
+// Operators block or allow identity keys and endpoints, and may follow the
+// signed ban list a trusted Claw publishes at GET /ban-list.
+export const BAN_LIST_MAX_ENTRIES = 1000;                        // bans in one published list, at most
+export const BAN_LIST_MAX_AGE_MS = 10 * 60 * 1000;               // older signed lists are refused
+export const BAN_LIST_REFRESH_INTERVAL_MS = 30 * 60 * 1000;      // subscribed lists are re-fetched this often
+export const BAN_LIST_TIMEOUT_MS = 10_000;
+export const BAN_LIST_REQUESTS_PER_HOUR = 60;                    // GET /ban-list per IP
+
+// ── Payment replay ledger ────────────────────────────────────────────
+// Internalized payment outputs (txid:vout) are remembered on disk for this long.
+export const PAYMENT_REPLAY_WINDOW_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+// ── Prepaid credit accounts ──────────────────────────────────────────
+// Callers deposit once (402 flow against /credits/deposit) and draw down the
+// balance on later /call requests authenticated by a signed x-clawsats-credit header.
+export const CREDIT_MIN_DEPOSIT_SATS = 100;
+export const CREDIT_MAX_BALANCE_SATS = 1_000_000;      // per identity — limits custodial exposure
+export const CREDIT_AUTH_TTL_MS = 5 * 60 * 1000;       // signed credit auth headers expire after 5 min
+
+// ── Spending budgets ─────────────────────────────────────────────────
+// Rolling windows for BudgetManager caps (hire, memory, broadcast, createAction).
+export const BUDGET_DAY_MS = 24 * 60 * 60 * 1000;
+export const BUDGET_WEEK_MS = 7 * BUDGET_DAY_MS;
+export const BUDGET_MONTH_MS = 30 * BUDGET_DAY_MS;
+// Miner fees are reserved up front from an estimate, then settled to the real fee.
+export const BUDGET_FEE_RATE_SAT_PER_KB = 1;           // wallet-toolbox default fee model
+export const BUDGET_TX_OVERHEAD_BYTES = 250;           // inputs + change, beyond the payload
+
 // ── Broadcast limits ─────────────────────────────────────────────────
 export const BROADCAST_HOP_LIMIT = 2;                  // max relay hops
 export const BROADCAST_AUDIENCE_LIMIT = 10;            // max peers per paid broadcast
-export const BROADCAST_PRICE_SATS = 50;
+export const BROADCAST_PRICE_SATS = 50;                // quote at the full audience
+export const BROADCAST_SATS_PER_PEER = 5;              // metered: charged per peer notified
 
 // ── Capability prices ────────────────────────────────────────────────
 export const ECHO_PRICE_SATS = 10;
@@ -63,14 +187,28 @@ export const VERIFY_RECEIPT_PRICE_SATS = 3;       // Verify a ClawSats receipt s
 export const PEER_HEALTH_CHECK_PRICE_SATS = 5;   // Check if a peer endpoint is alive + latency
 export const BSV_MENTOR_PRICE_SATS = 25;          // BSV knowledge Q&A — premium, unique knowledge
 
+// Metered pricing — the flat *_PRICE_SATS above is the quote for default params
+export const FETCH_URL_BASE_SATS = 5;
+export const FETCH_URL_SATS_PER_KB = 0.2;        // 50 KB default body → 15 sats
+export const FETCH_URL_MAX_KB = 100;
+export const BSV_MENTOR_CHARS_PER_TOKEN = 4;     // rough token estimate for answer length
+export const BSV_MENTOR_PRICE_TIERS = [          // full 5000-char answer → 25 sats
+  { upTo: 250, satoshis: 10 },
+  { upTo: 500, satoshis: 15 },
+  { upTo: 1250, satoshis: 25 }
+];
+
 // ── Beacon format ────────────────────────────────────────────────────
 // OP_RETURN: OP_FALSE OP_RETURN <tag_push> <payload_push>
 // tag_push  = utf8("CLAWSATS_V1")
 // payload   = canonical JSON, fields in this exact order:
 //   { v, id, ep, ch, cap, ts, sig }
 // sig = base64 signature over the JSON *without* the sig field
-export const BEACON_MAX_BYTES = 220;                   // OP_RETURN safe limit
+export const BEACON_MAX_BYTES = 512;                   // tag + payload; a signed beacon alone is ~260
 export const BEACON_FIELD_ORDER = ['v', 'id', 'ep', 'ch', 'cap', 'ts', 'sig'] as const;
+export const BEACON_INDEX_MAX_RECORDS = 5000;          // data/beacons.json keeps the newest
+export const BEACON_MAX_FILE_BYTES = 5 * 1024 * 1024;  // raw tx / BEEF files read by the indexer
+export const BEACON_FETCH_TIMEOUT_MS = 15_000;         // per tx from a chain API
 
 // ── MVP wallet interface lock ────────────────────────────────────────
 // Target: @bsv/wallet-toolbox WalletInterface (BRC-100)
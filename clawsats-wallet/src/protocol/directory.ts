@@ -0,0 +1,66 @@
+/**
+ * Directory registrations (clawsats://v1).
+ *
+ * A Claw lists itself in a directory by POSTing a registration signed by its
+ * identity key, so nobody can list (or move) someone else's key. The
+ * signature only covers the claim: the directory still challenges the
+ * endpoint before listing it.
+ */
+
+import { DirectoryRegistration } from '../types';
+import { canonicalJson } from '../utils';
+import { DIRECTORY_MAX_CAPABILITIES, IDENTITY_KEY_RE, MAX_CLOCK_SKEW_MS } from './constants';
+import { signForAnyone, verifyFromAnyone } from './signing';
+
+export const DIRECTORY_PROTOCOL_ID: [0, string] = [0, 'clawsats directory'];
+export const DIRECTORY_KEY_ID = 'directory-v1';
+
+const CAPABILITY_RE = /^[a-z0-9_:-]{2,80}$/i;
+
+/** Canonical bytes the registrant signs: everything but its signature. */
+export function serializeDirectoryRegistration(registration: DirectoryRegistration): string {
+  const { signature, ...rest } = registration;
+  return canonicalJson(rest);
+}
+
+export async function signDirectoryRegistration(
+  wallet: any,
+  registration: Omit<DirectoryRegistration, 'signature'>
+): Promise<DirectoryRegistration> {
+  const signature = await signForAnyone(wallet, serializeDirectoryRegistration(registration as DirectoryRegistration), DIRECTORY_PROTOCOL_ID, DIRECTORY_KEY_ID);
+  return { ...registration, signature };
+}
+
+export async function verifyDirectoryRegistrationSignature(registration: DirectoryRegistration): Promise<boolean> {
+  if (!registration?.signature || !registration.identityKey) return false;
+  return verifyFromAnyone(serializeDirectoryRegistration(registration), registration.signature, DIRECTORY_PROTOCOL_ID, DIRECTORY_KEY_ID, registration.identityKey);
+}
+
+/**
+ * Check a registration: well-formed, recent, and signed by the key it
+ * lists. Returns the first problem found, or null.
+ */
+export async function checkDirectoryRegistration(
+  registration: DirectoryRegistration,
+  now = Date.now()
+): Promise<string | null> {
+  if (!registration || typeof registration !== 'object' || registration.type !== 'directory-registration') {
+    return 'Not a directory registration';
+  }
+  if (!IDENTITY_KEY_RE.test(registration.identityKey || '')) return 'identityKey is not an identity key';
+  try {
+    const url = new URL(registration.endpoint);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return 'endpoint is not http(s)';
+  } catch {
+    return 'endpoint is not a URL';
+  }
+  if (!Array.isArray(registration.capabilities) || registration.capabilities.some(c => typeof c !== 'string' || !CAPABILITY_RE.test(c))) {
+    return 'capabilities must be capability names';
+  }
+  if (registration.capabilities.length > DIRECTORY_MAX_CAPABILITIES) return `More than ${DIRECTORY_MAX_CAPABILITIES} capabilities`;
+  if (registration.chain !== undefined && registration.chain !== 'test' && registration.chain !== 'main') return 'chain must be test or main';
+  const ts = Date.parse(registration.timestamp);
+  if (!Number.isFinite(ts) || Math.abs(now - ts) > MAX_CLOCK_SKEW_MS) return 'Registration timestamp is invalid or too far off';
+  if (!(await verifyDirectoryRegistrationSignature(registration))) return 'Registrant signature does not verify';
+  return null;
+}
@@ -0,0 +1,148 @@
+/**
+ * Discovery queries (clawsats://v1).
+ *
+ * A Claw asks who offers a capability with a DiscoveryQuery, POSTed to
+ * /discovery/query of the peers it trusts most. Each answers from its own
+ * registry with a DiscoveryResponse sent to the query's responseEndpoint and
+ * may relay the query within its hop limit. Both are signed by their sender,
+ * so relays can't rewrite a query and a response can't be passed off as
+ * someone else's. A result is only the responder's word: the origin probes
+ * an endpoint before hiring it.
+ *
+ * The query travels with its route, one signed DiscoveryHop per link from the
+ * requester to the receiver. The route's length is the hop count: a relay can
+ * only add its own link, never drop earlier ones, since each link must start
+ * where the one before it ended.
+ */
+
+import { DiscoveryHop, DiscoveryQuery, DiscoveryResponse } from '../types';
+import { canonicalJson } from '../utils';
+import { DISCOVERY_HOP_LIMIT, DISCOVERY_MAX_RESULTS, DISCOVERY_QUERY_TTL_MS, IDENTITY_KEY_RE, MAX_CLOCK_SKEW_MS } from './constants';
+import { signForAnyone, verifyFromAnyone } from './signing';
+
+export const DISCOVERY_PROTOCOL_ID: [0, string] = [0, 'clawsats sharing'];
+export const DISCOVERY_KEY_ID = 'sharing-v1';
+export const DISCOVERY_HOP_KEY_ID = 'discovery-hop-v1';
+
+/** Canonical bytes the sender signs: everything but its signature. */
+export function serializeDiscoveryMessage(message: DiscoveryQuery | DiscoveryResponse): string {
+  const { signature, ...rest } = message;
+  return canonicalJson(rest);
+}
+
+export async function verifyDiscoverySignature(
+  message: DiscoveryQuery | DiscoveryResponse,
+  signer: string
+): Promise<boolean> {
+  if (!message?.signature || !signer) return false;
+  return verifyFromAnyone(serializeDiscoveryMessage(message), message.signature, DISCOVERY_PROTOCOL_ID, DISCOVERY_KEY_ID, signer);
+}
+
+function serializeDiscoveryHop(hop: DiscoveryHop): string {
+  const { signature, ...rest } = hop;
+  return canonicalJson(rest);
+}
+
+/** Our link from `from` (us) to `to` on query `queryId`'s route. */
+export async function signDiscoveryHop(wallet: any, hop: Omit<DiscoveryHop, 'signature'>): Promise<DiscoveryHop> {
+  const signature = await signForAnyone(wallet, serializeDiscoveryHop(hop as DiscoveryHop), DISCOVERY_PROTOCOL_ID, DISCOVERY_HOP_KEY_ID);
+  return { ...hop, signature };
+}
+
+/**
+ * Check the route a checked query reached `receiver` by: it starts at the
+ * requester, each link starts where the last one ended and is signed by the
+ * Claw it starts at, it ends at `receiver`, and it is no longer than the
+ * query's hopLimit allows. Returns the first problem found, or null.
+ */
+export async function checkDiscoveryRoute(query: DiscoveryQuery, route: DiscoveryHop[], receiver: string): Promise<string | null> {
+  if (!Array.isArray(route) || route.length === 0) return 'Missing route';
+  if (route.length > query.hopLimit + 1) return 'Route is longer than the query\'s hopLimit';
+  let from = query.requesterIdentityKey;
+  for (let i = 0; i < route.length; i++) {
+    const hop = route[i];
+    if (!hop || typeof hop !== 'object' || hop.queryId !== query.queryId) return `Hop ${i}: not for this query`;
+    if (hop.from !== from) return `Hop ${i}: does not start where the route left off`;
+    if (!IDENTITY_KEY_RE.test(hop.to || '')) return `Hop ${i}: to is not an identity key`;
+    if (!(await verifyFromAnyone(serializeDiscoveryHop(hop), hop.signature, DISCOVERY_PROTOCOL_ID, DISCOVERY_HOP_KEY_ID, hop.from))) {
+      return `Hop ${i}: signature does not verify`;
+    }
+    from = hop.to;
+  }
+  if (from !== receiver) return 'Route does not end at us';
+  return null;
+}
+
+function httpUrlProblem(value: string, field: string): string | null {
+  try {
+    const url = new URL(value);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return `${field} is not http(s)`;
+  } catch {
+    return `${field} is not a URL`;
+  }
+  return null;
+}
+
+function timestampProblem(timestamp: string, now: number): string | null {
+  const ts = Date.parse(timestamp);
+  if (!Number.isFinite(ts) || ts > now + MAX_CLOCK_SKEW_MS) return 'Timestamp is invalid or in the future';
+  if (now - ts > DISCOVERY_QUERY_TTL_MS) return 'Query has expired';
+  return null;
+}
+
+/**
+ * Check a query before answering or relaying it: well-formed, within the
+ * hop and result limits, recent, and signed by the requester it names.
+ * Returns the first problem found, or null.
+ */
+export async function checkDiscoveryQuery(query: DiscoveryQuery, now = Date.now()): Promise<string | null> {
+  if (!query || typeof query !== 'object' || query.type !== 'discovery-query') return 'Not a discovery query';
+  if (typeof query.queryId !== 'string' || !query.queryId || query.queryId.length > 128) return 'queryId is missing or too long';
+  if (!IDENTITY_KEY_RE.test(query.requesterIdentityKey || '')) return 'requesterIdentityKey is not an identity key';
+  if (query.requester !== `claw://${query.requesterIdentityKey.substring(0, 16)}`) return 'requester does not match requesterIdentityKey';
+  const q = query.query;
+  if (!q || typeof q.capability !== 'string' || !q.capability) return 'query.capability is required';
+  if (q.chain !== 'test' && q.chain !== 'main') return 'query.chain must be test or main';
+  if (!Number.isInteger(q.maxResults) || q.maxResults < 1 || q.maxResults > DISCOVERY_MAX_RESULTS) {
+    return `query.maxResults must be 1-${DISCOVERY_MAX_RESULTS}`;
+  }
+  if (!Number.isInteger(query.hopLimit) || query.hopLimit < 0 || query.hopLimit > DISCOVERY_HOP_LIMIT) {
+    return `hopLimit must be 0-${DISCOVERY_HOP_LIMIT}`;
+  }
+  const endpointProblem = httpUrlProblem(query.responseEndpoint, 'responseEndpoint');
+  if (endpointProblem) return endpointProblem;
+  const tsProblem = timestampProblem(query.timestamp, now);
+  if (tsProblem) return tsProblem;
+  if (!(await verifyDiscoverySignature(query, query.requesterIdentityKey))) return 'Requester signature does not verify';
+  return null;
+}
+
+/**
+ * Check a response to `query`: it answers that query, stays within its
+ * maxResults, lists only the capability asked for, and is signed by the
+ * responder it names. Returns the first problem found, or null.
+ */
+export async function checkDiscoveryResponse(
+  response: DiscoveryResponse,
+  query: DiscoveryQuery,
+  now = Date.now()
+): Promise<string | null> {
+  if (!response || typeof response !== 'object' || response.type !== 'discovery-response') return 'Not a discovery response';
+  if (response.originalQueryId !== query.queryId) return 'Response is for a different query';
+  if (!IDENTITY_KEY_RE.test(response.responder || '')) return 'responder is not an identity key';
+  if (!Array.isArray(response.results)) return 'results must be an array';
+  if (response.results.length > query.query.maxResults) return `More than the ${query.query.maxResults} results asked for`;
+  for (let i = 0; i < response.results.length; i++) {
+    const result = response.results[i];
+    if (!result || typeof result !== 'object') return `Result ${i}: not an object`;
+    if (!IDENTITY_KEY_RE.test(result.identityKey || '')) return `Result ${i}: identityKey is not an identity key`;
+    if (result.capability !== query.query.capability) return `Result ${i}: not the capability asked for`;
+    const endpointProblem = httpUrlProblem(result.endpoint, 'endpoint');
+    if (endpointProblem) return `Result ${i}: ${endpointProblem}`;
+    if (typeof result.reputation !== 'number' || !Number.isFinite(result.reputation)) return `Result ${i}: reputation must be a number`;
+  }
+  const ts = Date.parse(response.timestamp);
+  if (!Number.isFinite(ts) || ts > now + MAX_CLOCK_SKEW_MS) return 'Timestamp is invalid or in the future';
+  if (!(await verifyDiscoverySignature(response, response.responder))) return 'Responder signature does not verify';
+  return null;
+}
@@ -0,0 +1,234 @@
+/**
+ * 2-of-3 arbiter escrow (clawsats://v1).
+ *
+ * The requester locks the job's payment in output 0 of the funding tx:
+ *
+ *   OP_2 <requesterKey> <providerKey> <arbiterKey> OP_3 OP_CHECKMULTISIG
+ *
+ * Each key is the party's identity key derived for the escrow (protocol
+ * 'clawsats escrow', keyID = escrowId) with the BRC-42 'anyone' counterparty,
+ * so every party — and the arbiter — can compute all three from the terms
+ * alone, and each party signs with its own wallet (counterparty 'anyone').
+ *
+ * The output is spent by a deterministic settlement tx: one input, one BRC-29
+ * payout to either the provider (release) or the requester (refund), minus
+ * ESCROW_SETTLEMENT_FEE_SATS for the miner. Requester + provider sign the
+ * release in the normal case; in a dispute the arbiter signs the settlement
+ * for whichever side it rules for, and that side adds its own signature.
+ */
+
+import { createHash } from 'crypto';
+import {
+  Hash,
+  LockingScript,
+  OP,
+  PrivateKey,
+  ProtoWallet,
+  PublicKey,
+  Signature,
+  Transaction,
+  TransactionSignature,
+  UnlockingScript
+} from '@bsv/sdk';
+import { EscrowDelivery, EscrowEvidenceRequest, EscrowParty, EscrowPayee, EscrowRuling, EscrowTerms } from '../types';
+import { canonicalJson, isPublicHttpEndpoint } from '../utils';
+import { ESCROW_SETTLEMENT_FEE_SATS, IDENTITY_KEY_RE } from './constants';
+import { BRC29_PROTOCOL_ID } from './fee';
+import { signForAnyone, verifyFromAnyone } from './signing';
+
+export const ESCROW_PROTOCOL_ID: [0, string] = [0, 'clawsats escrow'];
+export const ESCROW_PAYOUT_SUFFIX = 'clawsats';
+/** Key order in the multisig script — signatures must follow the same order. */
+export const ESCROW_PARTIES: EscrowParty[] = ['requester', 'provider', 'arbiter'];
+/** Identity key settlement payouts are "sent" from, so the payee can internalize them. */
+export const ESCROW_SENDER_IDENTITY_KEY = new PrivateKey(1).toPublicKey().toString();
+/** Wallet basket the provider tracks funded escrow outputs in, tagged by escrowId. */
+export const ESCROW_BASKET = 'clawsats-escrow';
+
+const SIGHASH_SCOPE = TransactionSignature.SIGHASH_FORKID | TransactionSignature.SIGHASH_ALL;
+
+type EscrowStatement = EscrowDelivery | EscrowRuling | EscrowEvidenceRequest;
+
+/** BRC-43 invoice number of every party's escrow key for `escrowId`. */
+export function escrowInvoiceNumber(escrowId: string): string {
+  return `${ESCROW_PROTOCOL_ID[0]}-${ESCROW_PROTOCOL_ID[1]}-${escrowId}`;
+}
+
+/** A party's public escrow key, derivable by anyone from its identity key. */
+export function deriveEscrowKey(identityKey: string, escrowId: string): string {
+  return PublicKey.fromString(identityKey).deriveChild(new PrivateKey(1), escrowInvoiceNumber(escrowId)).toString();
+}
+
+/**
+ * Checks on the terms themselves that provider and arbiter both make before
+ * acting on them — in particular before fetching either endpoint they name.
+ * Returns the first problem found, or null.
+ */
+export function checkEscrowTerms(terms: EscrowTerms): string | null {
+  if (!terms || typeof terms !== 'object') return 'Missing terms.';
+  if (!/^esc-[0-9a-f]{32}$/.test(String(terms.escrowId))) return 'escrowId must be esc- followed by 32 hex chars.';
+  for (const party of ESCROW_PARTIES) {
+    if (!IDENTITY_KEY_RE.test(String(terms[party]))) return `terms.${party} must be a compressed public key.`;
+  }
+  if (new Set(ESCROW_PARTIES.map(p => terms[p])).size !== ESCROW_PARTIES.length) return 'Requester, provider and arbiter must be three different Claws.';
+  for (const field of ['providerEndpoint', 'arbiterEndpoint'] as const) {
+    if (!isPublicHttpEndpoint(String(terms[field]))) return `terms.${field} must be a valid public http/https URL.`;
+  }
+  if (typeof terms.derivationPrefix !== 'string' || !terms.derivationPrefix || terms.derivationPrefix.length > 128) {
+    return 'terms.derivationPrefix is required (max 128 chars).';
+  }
+  return null;
+}
+
+/** The 2-of-3 locking script (hex) funding output 0 must carry. */
+export function buildEscrowLockingScript(terms: EscrowTerms): string {
+  const script = new LockingScript().writeOpCode(OP.OP_2);
+  for (const party of ESCROW_PARTIES) {
+    script.writeBin(Array.from(Buffer.from(deriveEscrowKey(terms[party], terms.escrowId), 'hex')));
+  }
+  return script.writeOpCode(OP.OP_3).writeOpCode(OP.OP_CHECKMULTISIG).toHex();
+}
+
+/**
+ * BRC-29 P2PKH the settlement pays. Derived against the 'anyone' sender so
+ * the payee can internalize it with senderIdentityKey = ESCROW_SENDER_IDENTITY_KEY.
+ */
+export function escrowPayoutScript(terms: EscrowTerms, payTo: EscrowPayee): string {
+  const invoice = `${BRC29_PROTOCOL_ID[0]}-${BRC29_PROTOCOL_ID[1]}-${terms.derivationPrefix} ${ESCROW_PAYOUT_SUFFIX}`;
+  const child = PublicKey.fromString(terms[payTo]).deriveChild(new PrivateKey(1), invoice);
+  return `76a914${child.toHash('hex') as string}88ac`;
+}
+
+/** Index of the escrow output in a funding tx, or -1 if it doesn't lock at least terms.satoshis. */
+export function findEscrowOutput(fundingTx: Transaction, terms: EscrowTerms): number {
+  const lockingScript = buildEscrowLockingScript(terms);
+  return fundingTx.outputs.findIndex(o =>
+    o.lockingScript.toHex() === lockingScript && (o.satoshis ?? 0) >= terms.satoshis
+  );
+}
+
+/**
+ * The settlement tx every party builds identically from the terms and the
+ * funding tx: escrow output in, payout to `payTo` out.
+ */
+export function buildSettlementTx(terms: EscrowTerms, fundingTx: Transaction, payTo: EscrowPayee): Transaction {
+  const outputIndex = findEscrowOutput(fundingTx, terms);
+  if (outputIndex < 0) throw new Error(`Funding transaction does not lock ${terms.satoshis} sats for escrow ${terms.escrowId}`);
+  const locked = fundingTx.outputs[outputIndex].satoshis as number;
+  if (locked <= ESCROW_SETTLEMENT_FEE_SATS) throw new Error(`Escrow ${terms.escrowId} is too small to settle`);
+  const tx = new Transaction(1, [], [], 0);
+  tx.addInput({ sourceTransaction: fundingTx, sourceOutputIndex: outputIndex, sequence: 0xffffffff });
+  tx.addOutput({
+    lockingScript: LockingScript.fromHex(escrowPayoutScript(terms, payTo)),
+    satoshis: locked - ESCROW_SETTLEMENT_FEE_SATS
+  });
+  return tx;
+}
+
+function settlementDigest(tx: Transaction): number[] {
+  const input = tx.inputs[0];
+  const source = input.sourceTransaction!.outputs[input.sourceOutputIndex];
+  const preimage = TransactionSignature.format({
+    sourceTXID: input.sourceTransaction!.id('hex'),
+    sourceOutputIndex: input.sourceOutputIndex,
+    sourceSatoshis: source.satoshis as number,
+    transactionVersion: tx.version,
+    otherInputs: [],
+    inputIndex: 0,
+    outputs: tx.outputs,
+    inputSequence: input.sequence ?? 0xffffffff,
+    subscript: source.lockingScript,
+    lockTime: tx.lockTime,
+    scope: SIGHASH_SCOPE
+  });
+  // createSignature hashes once more: sha256(sha256(preimage)) is the sighash
+  return Hash.sha256(preimage);
+}
+
+/** This wallet's signature (checksig hex) over a settlement tx. */
+export async function signSettlement(wallet: any, terms: EscrowTerms, tx: Transaction): Promise<string> {
+  const { signature } = await wallet.createSignature({
+    data: settlementDigest(tx),
+    protocolID: ESCROW_PROTOCOL_ID,
+    keyID: terms.escrowId,
+    counterparty: 'anyone'
+  });
+  const sig = Signature.fromDER(Array.from(signature as number[]));
+  return Buffer.from(new TransactionSignature(sig.r, sig.s, SIGHASH_SCOPE).toChecksigFormat()).toString('hex');
+}
+
+export async function verifySettlementSignature(
+  terms: EscrowTerms,
+  tx: Transaction,
+  party: EscrowParty,
+  signatureHex: string
+): Promise<boolean> {
+  try {
+    const bytes = Array.from(Buffer.from(signatureHex, 'hex'));
+    if (bytes[bytes.length - 1] !== SIGHASH_SCOPE) return false;
+    const result = await new ProtoWallet('anyone').verifySignature({
+      data: settlementDigest(tx),
+      signature: bytes.slice(0, -1),
+      protocolID: ESCROW_PROTOCOL_ID,
+      keyID: terms.escrowId,
+      counterparty: terms[party]
+    });
+    return result?.valid === true;
+  } catch {
+    return false;
+  }
+}
+
+/** Fill in the multisig unlocking script from any two parties' signatures. */
+export function completeSettlement(
+  tx: Transaction,
+  signatures: Partial<Record<EscrowParty, string>>
+): Transaction {
+  const ordered = ESCROW_PARTIES.map(p => signatures[p]).filter((s): s is string => Boolean(s));
+  if (ordered.length < 2) throw new Error('Settlement needs signatures from two of requester, provider and arbiter');
+  const unlocking = new UnlockingScript().writeOpCode(OP.OP_0);
+  for (const sig of ordered.slice(0, 2)) unlocking.writeBin(Array.from(Buffer.from(sig, 'hex')));
+  tx.inputs[0].unlockingScript = unlocking;
+  return tx;
+}
+
+/** Canonical bytes of a delivery, ruling or evidence request. */
+export function serializeEscrowStatement(statement: EscrowStatement): string {
+  const { signature, ...rest } = statement;
+  return canonicalJson(rest);
+}
+
+/** Sign a delivery (provider), ruling or evidence request (arbiter) for 'anyone' to verify. */
+export async function signEscrowStatement<T extends EscrowStatement>(wallet: any, statement: T): Promise<T> {
+  const signature = await signForAnyone(wallet, serializeEscrowStatement(statement), ESCROW_PROTOCOL_ID, `${statement.type}-${statement.escrowId}`);
+  return { ...statement, signature };
+}
+
+export async function verifyEscrowStatement(statement: EscrowStatement, signer: string): Promise<boolean> {
+  if (!statement?.signature) return false;
+  return verifyFromAnyone(serializeEscrowStatement(statement), statement.signature, ESCROW_PROTOCOL_ID, `${statement.type}-${statement.escrowId}`, signer);
+}
+
+/**
+ * The arbiter's rule: the provider is paid if it produced a signed delivery
+ * for exactly these terms, the call succeeded, and the presented result
+ * hashes to what it signed. Anything less refunds the requester.
+ */
+export function decideDispute(
+  terms: EscrowTerms,
+  evidence: { delivery?: EscrowDelivery; deliveryVerified: boolean; result?: unknown }
+): { winner: EscrowPayee; reason: string } {
+  const { delivery } = evidence;
+  if (!delivery) return { winner: 'requester', reason: 'The provider has no signed delivery for this escrow.' };
+  if (!evidence.deliveryVerified) return { winner: 'requester', reason: 'The delivery signature does not verify against the provider key.' };
+  if (delivery.escrowId !== terms.escrowId || delivery.provider !== terms.provider ||
+      delivery.requester !== terms.requester || delivery.capability !== terms.capability ||
+      delivery.paramsHash !== terms.paramsHash) {
+    return { winner: 'requester', reason: 'The signed delivery is for different terms.' };
+  }
+  if (!delivery.success) return { winner: 'requester', reason: 'The provider reported the call as failed.' };
+  if (evidence.result === undefined) return { winner: 'requester', reason: 'The delivered result was not presented.' };
+  const resultHash = createHash('sha256').update(canonicalJson(evidence.result)).digest('hex');
+  if (resultHash !== delivery.resultHash) return { winner: 'requester', reason: 'The presented result does not match the signed delivery.' };
+  return { winner: 'provider', reason: 'The provider delivered a successful result matching its signed delivery.' };
+}
@@ -0,0 +1,97 @@
+/**
+ * Protocol fee output derivation + verification (clawsats://v1).
+ *
+ * The fee output of every paid call is a BRC-29 P2PKH derived from
+ * FEE_IDENTITY_KEY with keyID "<derivationPrefix> fee", using the BRC-42
+ * "anyone" counterparty (private key 1). That makes the expected treasury
+ * script publicly derivable: the provider knows the prefix it issued, so it can
+ * compute the exact locking script and require a matching output — a caller
+ * cannot route the "fee" back to themselves.
+ *
+ * The treasury spends these outputs by deriving the private key with
+ * counterparty 'anyone' and the same protocolID/keyID.
+ */
+
+import { PrivateKey, PublicKey, Transaction } from '@bsv/sdk';
+import { FEE_SATS, FEE_IDENTITY_KEY, FEE_DERIVATION_SUFFIX } from './constants';
+
+export const BRC29_PROTOCOL_ID: [number, string] = [2, '3241645161d8'];
+
+export interface FeeOutputCheck {
+  found: boolean;
+  outputIndex?: number;
+  satoshis?: number;
+  expectedLockingScript: string;
+  reason?: string;
+}
+
+/** BRC-43 invoice number for the fee output of a given payment. */
+export function feeInvoiceNumber(derivationPrefix: string): string {
+  return `${BRC29_PROTOCOL_ID[0]}-${BRC29_PROTOCOL_ID[1]}-${derivationPrefix} ${FEE_DERIVATION_SUFFIX}`;
+}
+
+/**
+ * Derive the exact P2PKH locking script (hex) the fee output must carry
+ * for a payment made against `derivationPrefix`.
+ */
+export function deriveFeeLockingScript(derivationPrefix: string, feeIdentityKey = FEE_IDENTITY_KEY): string {
+  if (!derivationPrefix) throw new Error('derivationPrefix is required to derive the fee output');
+  const child = PublicKey.fromString(feeIdentityKey)
+    .deriveChild(new PrivateKey(1), feeInvoiceNumber(derivationPrefix));
+  return `76a914${child.toHash('hex') as string}88ac`;
+}
+
+/**
+ * Parse a payment transaction from AtomicBEEF, BEEF or raw tx bytes.
+ * Throws if none of the encodings apply.
+ */
+export function parsePaymentTransaction(txBytes: number[] | Uint8Array): Transaction {
+  const bytes = Array.from(txBytes);
+  const parsers: Array<(b: number[]) => Transaction> = [
+    (b) => Transaction.fromAtomicBEEF(b),
+    (b) => Transaction.fromBEEF(b),
+    (b) => Transaction.fromBinary(b)
+  ];
+  for (const parse of parsers) {
+    try {
+      const tx = parse(bytes);
+      // The SDK reader tolerates truncated input; an empty tx means it wasn't one.
+      if (tx.inputs.length > 0 && tx.outputs.length > 0) return tx;
+    } catch {
+      // Try the next encoding
+    }
+  }
+  throw new Error('Payment transaction is not valid AtomicBEEF, BEEF or raw tx');
+}
+
+/**
+ * Find the protocol fee output in a payment transaction. The provider output
+ * (index 0) never counts, even if its script happens to match.
+ */
+export function findFeeOutput(txBytes: number[] | Uint8Array, derivationPrefix: string): FeeOutputCheck {
+  const expectedLockingScript = deriveFeeLockingScript(derivationPrefix);
+  let tx: Transaction;
+  try {
+    tx = parsePaymentTransaction(txBytes);
+  } catch (err) {
+    return { found: false, expectedLockingScript, reason: err instanceof Error ? err.message : String(err) };
+  }
+
+  let underpaid: number | undefined;
+  for (let i = 1; i < tx.outputs.length; i++) {
+    const output = tx.outputs[i];
+    if (output.lockingScript.toHex() !== expectedLockingScript) continue;
+    const satoshis = output.satoshis ?? 0;
+    if (satoshis >= FEE_SATS) {
+      return { found: true, outputIndex: i, satoshis, expectedLockingScript };
+    }
+    underpaid = satoshis;
+  }
+  return {
+    found: false,
+    expectedLockingScript,
+    reason: underpaid !== undefined
+      ? `Fee output carries ${underpaid} sats, need ${FEE_SATS}`
+      : 'No output pays the derived protocol fee script'
+  };
+}
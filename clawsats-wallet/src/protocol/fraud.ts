@@ -0,0 +1,92 @@
+/**
+ * Fraud reports (clawsats://v1).
+ *
+ * A requester that was cheated signs a report against the provider with the
+ * evidence in it: a provider-signed receipt next to a result that doesn't
+ * hash to the receipt's resultHash, a receipt whose provider signature
+ * doesn't verify, or a payment that got nothing back. None of these proves
+ * fraud to anyone but the reporter — it alone says which result it was sent,
+ * an unsigned receipt could have been written by anyone, and only its ledger
+ * shows the payment went unanswered — so peers receive every report as a
+ * claim to review.
+ */
+
+import { FraudEvidenceKind, FraudReport } from '../types';
+import { canonicalJson } from '../utils';
+import { FRAUD_REPORT_MAX_DESCRIPTION_CHARS, IDENTITY_KEY_RE, MAX_CLOCK_SKEW_MS } from './constants';
+import { receiptResultHash, verifyReceiptSignature } from './receipt';
+import { signForAnyone, verifyFromAnyone } from './signing';
+
+export const FRAUD_REPORT_PROTOCOL_ID: [0, string] = [0, 'clawsats fraud report'];
+export const FRAUD_REPORT_KEY_ID = 'fraud-report-v1';
+export const FRAUD_EVIDENCE_KINDS: FraudEvidenceKind[] = ['result_mismatch', 'invalid_signature', 'no_result'];
+
+/** Canonical bytes the reporter signs: everything but its signature. */
+export function serializeFraudReport(report: FraudReport): string {
+  const { signature, ...rest } = report;
+  return canonicalJson(rest);
+}
+
+export async function signFraudReport(wallet: any, report: Omit<FraudReport, 'signature'>): Promise<FraudReport> {
+  const signature = await signForAnyone(wallet, serializeFraudReport(report as FraudReport), FRAUD_REPORT_PROTOCOL_ID, FRAUD_REPORT_KEY_ID);
+  return { ...report, signature };
+}
+
+export async function verifyFraudReportSignature(report: FraudReport): Promise<boolean> {
+  if (!report?.signature || !report.reporter) return false;
+  return verifyFromAnyone(serializeFraudReport(report), report.signature, FRAUD_REPORT_PROTOCOL_ID, FRAUD_REPORT_KEY_ID, report.reporter);
+}
+
+/**
+ * Is the evidence consistent with what the report claims? This rules out
+ * reports the evidence contradicts, but a null result is not proof: the
+ * reporter could have made up the result or the receipt. Returns the first
+ * problem found, or null.
+ */
+export async function checkFraudEvidence(report: FraudReport): Promise<string | null> {
+  const { kind, receipt } = report;
+  if (kind === 'no_result') {
+    if (!/^[0-9a-f]{64}$/i.test(report.paymentTxid || '')) return 'no_result needs the paymentTxid';
+    if (!Number.isInteger(report.satoshis) || (report.satoshis as number) <= 0) return 'no_result needs the satoshis paid';
+    if (receipt) return 'A receipt was returned for this call';
+    return null;
+  }
+
+  if (!receipt?.receiptId) return `${kind} needs the provider's receipt`;
+  if (receipt.provider !== report.accused || receipt.requester !== report.reporter) {
+    return 'Receipt is not from the accused to the reporter';
+  }
+  const signed = await verifyReceiptSignature(receipt);
+  if (kind === 'invalid_signature') {
+    return signed ? 'Receipt signature verifies' : null;
+  }
+  // result_mismatch: the provider signed for one result and returned another
+  if (!signed) return 'Receipt signature does not verify (report it as invalid_signature)';
+  if (!('result' in report)) return 'result_mismatch needs the result the provider returned';
+  if (receiptResultHash(report.result) === receipt.resultHash) return 'Result matches the receipt\'s resultHash';
+  return null;
+}
+
+/**
+ * Check a fraud report from anyone: its fields, its evidence and the
+ * reporter's signature. Returns the first problem found, or null.
+ */
+export async function checkFraudReport(report: FraudReport, now = Date.now()): Promise<string | null> {
+  if (!report || typeof report !== 'object') return 'Not a fraud report';
+  if (typeof report.reportId !== 'string' || !report.reportId || report.reportId.length > 128) return 'Missing reportId';
+  if (!IDENTITY_KEY_RE.test(report.reporter || '') || !IDENTITY_KEY_RE.test(report.accused || '')) {
+    return 'Reporter and accused must be identity keys';
+  }
+  if (report.reporter === report.accused) return 'A Claw cannot report itself';
+  if (!FRAUD_EVIDENCE_KINDS.includes(report.kind)) return `Unknown evidence kind: ${String(report.kind)}`;
+  if (typeof report.description !== 'string' || report.description.length > FRAUD_REPORT_MAX_DESCRIPTION_CHARS) {
+    return `description must be a string of at most ${FRAUD_REPORT_MAX_DESCRIPTION_CHARS} characters`;
+  }
+  const ts = Date.parse(report.timestamp);
+  if (!Number.isFinite(ts) || ts > now + MAX_CLOCK_SKEW_MS) return 'Report timestamp is invalid or in the future';
+
+  const problem = await checkFraudEvidence(report);
+  if (problem) return problem;
+  if (!(await verifyFraudReportSignature(report))) return 'Reporter signature does not verify';
+  return null;
+}
@@ -0,0 +1,73 @@
+/**
+ * Peer exchange (clawsats://v1).
+ *
+ * GET /peers returns a page of the peers a Claw rates well, signed by it.
+ * The signature binds the page to its publisher, so a relay can't slip peers
+ * in under someone else's name — but a page is only the publisher's word:
+ * readers probe each endpoint's own /discovery before registering anything.
+ */
+
+import { PeerExchangeEntry, PeerExchangePage } from '../types';
+import { canonicalJson } from '../utils';
+import { IDENTITY_KEY_RE, MAX_CLOCK_SKEW_MS, PEER_EXCHANGE_MAX_PAGE_AGE_MS, PEER_EXCHANGE_PAGE_SIZE } from './constants';
+import { signForAnyone, verifyFromAnyone } from './signing';
+
+export const PEER_EXCHANGE_PROTOCOL_ID: [0, string] = [0, 'clawsats peer exchange'];
+export const PEER_EXCHANGE_KEY_ID = 'peers-v1';
+
+/** Canonical bytes the publisher signs: everything but its signature. */
+export function serializePeerExchangePage(page: PeerExchangePage): string {
+  const { signature, ...rest } = page;
+  return canonicalJson(rest);
+}
+
+export async function signPeerExchangePage(
+  wallet: any,
+  page: Omit<PeerExchangePage, 'signature'>
+): Promise<PeerExchangePage> {
+  const signature = await signForAnyone(wallet, serializePeerExchangePage(page as PeerExchangePage), PEER_EXCHANGE_PROTOCOL_ID, PEER_EXCHANGE_KEY_ID);
+  return { ...page, signature };
+}
+
+export async function verifyPeerExchangePage(page: PeerExchangePage): Promise<boolean> {
+  if (!page?.signature || !page.publisher) return false;
+  return verifyFromAnyone(serializePeerExchangePage(page), page.signature, PEER_EXCHANGE_PROTOCOL_ID, PEER_EXCHANGE_KEY_ID, page.publisher);
+}
+
+function entryProblem(entry: PeerExchangeEntry): string | null {
+  if (!entry || typeof entry !== 'object') return 'not an object';
+  if (!IDENTITY_KEY_RE.test(entry.identityKey || '')) return 'identityKey is not an identity key';
+  try {
+    const url = new URL(entry.endpoint);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return 'endpoint is not http(s)';
+  } catch {
+    return 'endpoint is not a URL';
+  }
+  if (!Array.isArray(entry.capabilities) || entry.capabilities.some(c => typeof c !== 'string')) return 'capabilities must be strings';
+  return null;
+}
+
+/**
+ * Check a page read from `expectedPublisher` (when known): well-formed
+ * entries, no bigger than a page, recent, and signed by its publisher.
+ * Returns the first problem found, or null.
+ */
+export async function checkPeerExchangePage(
+  page: PeerExchangePage,
+  options: { expectedPublisher?: string; now?: number } = {}
+): Promise<string | null> {
+  const now = options.now ?? Date.now();
+  if (!page || typeof page !== 'object' || !Array.isArray(page.entries)) return 'Not a peer exchange page';
+  if (!IDENTITY_KEY_RE.test(page.publisher || '')) return 'Publisher is not an identity key';
+  if (options.expectedPublisher && page.publisher !== options.expectedPublisher) return 'Page is signed by a different Claw';
+  if (page.entries.length > PEER_EXCHANGE_PAGE_SIZE) return `More than ${PEER_EXCHANGE_PAGE_SIZE} entries on one page`;
+  const ts = Date.parse(page.timestamp);
+  if (!Number.isFinite(ts) || ts > now + MAX_CLOCK_SKEW_MS) return 'Page timestamp is invalid or in the future';
+  if (now - ts > PEER_EXCHANGE_MAX_PAGE_AGE_MS) return 'Page is stale';
+  for (let i = 0; i < page.entries.length; i++) {
+    const problem = entryProblem(page.entries[i]);
+    if (problem) return `Entry ${i}: ${problem}`;
+  }
+  if (!(await verifyPeerExchangePage(page))) return 'Publisher signature does not verify';
+  return null;
+}
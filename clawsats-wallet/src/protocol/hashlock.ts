@@ -0,0 +1,131 @@
+/**
+ * Hash-locked "pay on result" payments (clawsats://v1).
+ *
+ * For verifiable capabilities the provider runs the call before it is paid
+ * and commits to sha256(canonical JSON result) — the same hash a signed
+ * receipt carries as resultHash. The requester funds output 0 with
+ *
+ *   OP_SHA256 <commitment> OP_EQUALVERIFY <providerKey> OP_CHECKSIG
+ *
+ * where providerKey is the provider's BRC-29 child key for the challenge's
+ * derivation prefix (counterparty = requester). The output can only be spent
+ * with the provider's signature AND the committed result bytes, so claiming
+ * the payment publishes the result in the claim transaction.
+ *
+ * There is no refund branch: BSV script has no enforceable timelock since
+ * Genesis. A requester is exposed to a provider that never claims, exactly
+ * as with an up-front payment — but never to one that claims without
+ * delivering the committed result.
+ */
+
+import { createHash } from 'crypto';
+import { Hash, LockingScript, OP, Signature, Transaction, TransactionSignature, UnlockingScript } from '@bsv/sdk';
+import { canonicalJson } from '../utils';
+import { BRC29_PROTOCOL_ID } from './fee';
+
+export const HASHLOCK_DERIVATION_SUFFIX = 'clawsats';
+
+/** Bytes the provider reveals to claim: the canonical JSON of the result. */
+export function hashlockPreimage(result: unknown): number[] {
+  return Array.from(Buffer.from(canonicalJson(result), 'utf8'));
+}
+
+/** sha256 of the preimage, hex — what the locking script commits to. */
+export function hashlockCommitment(result: unknown): string {
+  return createHash('sha256').update(Buffer.from(hashlockPreimage(result))).digest('hex');
+}
+
+/** Locking script (hex) paying `providerKey` only against the preimage of `commitment`. */
+export function buildHashlockLockingScript(commitment: string, providerKey: string): string {
+  if (!/^[0-9a-f]{64}$/i.test(commitment)) throw new Error('Hashlock commitment must be a 32-byte hex sha256');
+  if (!/^0[23][0-9a-f]{64}$/i.test(providerKey)) throw new Error('Hashlock provider key must be a compressed public key');
+  return new LockingScript()
+    .writeOpCode(OP.OP_SHA256)
+    .writeBin(Array.from(Buffer.from(commitment, 'hex')))
+    .writeOpCode(OP.OP_EQUALVERIFY)
+    .writeBin(Array.from(Buffer.from(providerKey, 'hex')))
+    .writeOpCode(OP.OP_CHECKSIG)
+    .toHex();
+}
+
+/**
+ * Requester side: the provider's BRC-29 child key for this prefix, derived
+ * by the requester's wallet the same way a normal payment output is.
+ */
+export async function deriveHashlockProviderKey(
+  wallet: any,
+  providerIdentityKey: string,
+  derivationPrefix: string,
+  derivationSuffix = HASHLOCK_DERIVATION_SUFFIX
+): Promise<string> {
+  const { publicKey } = await wallet.getPublicKey({
+    protocolID: BRC29_PROTOCOL_ID,
+    keyID: `${derivationPrefix} ${derivationSuffix}`,
+    counterparty: providerIdentityKey
+  });
+  return publicKey;
+}
+
+/**
+ * Provider side: unlocking template for a hashlock input, signed by the
+ * wallet with the BRC-29 child key for (prefix, suffix, requester). Mirrors
+ * the SDK's PushDrop.unlock so it works with any BRC-100 wallet.
+ */
+export function hashlockUnlock(
+  wallet: any,
+  derivation: { derivationPrefix: string; derivationSuffix?: string; requesterIdentityKey: string },
+  preimage: number[]
+): { sign: (tx: Transaction, inputIndex: number) => Promise<UnlockingScript>; estimateLength: () => Promise<number> } {
+  return {
+    sign: async (tx: Transaction, inputIndex: number) => {
+      const input = tx.inputs[inputIndex];
+      const source = input.sourceTransaction?.outputs[input.sourceOutputIndex];
+      const sourceTXID = input.sourceTXID ?? input.sourceTransaction?.id('hex');
+      if (!source || !sourceTXID) throw new Error('Hashlock input needs its source transaction to be signed');
+      const scope = TransactionSignature.SIGHASH_FORKID | TransactionSignature.SIGHASH_ALL;
+      const sighashPreimage = TransactionSignature.format({
+        sourceTXID,
+        sourceOutputIndex: input.sourceOutputIndex,
+        sourceSatoshis: source.satoshis as number,
+        transactionVersion: tx.version,
+        otherInputs: tx.inputs.filter((_, i) => i !== inputIndex),
+        inputIndex,
+        outputs: tx.outputs,
+        inputSequence: input.sequence ?? 0xffffffff,
+        subscript: source.lockingScript,
+        lockTime: tx.lockTime,
+        scope
+      });
+      const { signature } = await wallet.createSignature({
+        data: Hash.sha256(sighashPreimage),
+        protocolID: BRC29_PROTOCOL_ID,
+        keyID: `${derivation.derivationPrefix} ${derivation.derivationSuffix || HASHLOCK_DERIVATION_SUFFIX}`,
+        counterparty: derivation.requesterIdentityKey
+      });
+      const sig = Signature.fromDER(Array.from(signature as number[]));
+      const checksig = new TransactionSignature(sig.r, sig.s, scope).toChecksigFormat();
+      return new UnlockingScript().writeBin(checksig).writeBin(preimage);
+    },
+    // signature (≤73) + preimage + push opcodes
+    estimateLength: async () => 73 + preimage.length + 6
+  };
+}
+
+/**
+ * Requester side: recover the result a claim transaction revealed for
+ * `commitment`. Returns undefined if no input carries a matching preimage.
+ */
+export function readHashlockResult(claimTx: Transaction, commitment: string): unknown {
+  for (const input of claimTx.inputs) {
+    for (const chunk of input.unlockingScript?.chunks || []) {
+      if (!chunk.data || chunk.data.length === 0) continue;
+      if (createHash('sha256').update(Buffer.from(chunk.data)).digest('hex') !== commitment) continue;
+      try {
+        return JSON.parse(Buffer.from(chunk.data).toString('utf8'));
+      } catch {
+        return undefined;
+      }
+    }
+  }
+  return undefined;
+}
@@ -7,7 +7,7 @@ import {
   WalletConfig
 } from '../types';
 import { generateNonce, canonicalJson } from '../utils';
-import { PROTOCOL_ID, PROTOCOL_VERSION, INVITE_TTL_MS } from './constants';
+import { PROTOCOL_ID, PROTOCOL_VERSION, INVITE_TTL_MS, DISCOVERY_HOP_LIMIT } from './constants';
 
 /**
  * SharingProtocol handles wallet capability sharing between Claws.
@@ -162,10 +162,12 @@ export class SharingProtocol {
    */
   async createDiscoveryQuery(capability: string, options: {
     maxResults?: number;
+    hopLimit?: number;
     responseEndpoint?: string;
   } = {}): Promise<DiscoveryQuery> {
     const {
       maxResults = 10,
+      hopLimit = DISCOVERY_HOP_LIMIT,
       responseEndpoint = `${this.config.endpoints.jsonrpc}/discovery/callback`
     } = options;
 
@@ -174,21 +176,46 @@ export class SharingProtocol {
       version: '1.0',
       queryId: `query-${Date.now()}-${randomBytes(4).toString('hex')}`,
       requester: `claw://${this.config.identityKey.substring(0, 16)}`,
+      requesterIdentityKey: this.config.identityKey,
       query: {
         capability,
         minVersion: '1.0',
         chain: this.config.chain,
         maxResults
       },
+      hopLimit,
       responseEndpoint,
       signature: '',
       timestamp: new Date().toISOString()
     };
 
-    query.signature = await this.signPayload(this.serializeForSigning(query));
+    // Relays and responders are strangers: sign so anyone can verify
+    query.signature = await this.signPayload(this.serializeForSigning(query), 'anyone');
     return query;
   }
 
+  /**
+   * Answer a discovery query with the Claws we know that offer its capability.
+   */
+  async createDiscoveryResponse(
+    query: DiscoveryQuery,
+    results: DiscoveryResponse['results']
+  ): Promise<DiscoveryResponse> {
+    const response: DiscoveryResponse = {
+      type: 'discovery-response',
+      version: '1.0',
+      responseId: `resp-${Date.now()}-${randomBytes(4).toString('hex')}`,
+      originalQueryId: query.queryId,
+      responder: this.config.identityKey,
+      results: results.slice(0, query.query.maxResults),
+      signature: '',
+      timestamp: new Date().toISOString()
+    };
+
+    response.signature = await this.signPayload(this.serializeForSigning(response), 'anyone');
+    return response;
+  }
+
   /**
    * Validate an incoming invitation (basic structural checks).
    * Full cryptographic verification requires the sender's public key.
@@ -215,7 +242,7 @@ export class SharingProtocol {
   /**
    * Serialize a protocol message to canonical JSON for signing.
    */
-  serializeForSigning(message: Invitation | CapabilityAnnouncement | DiscoveryQuery): string {
+  serializeForSigning(message: Invitation | CapabilityAnnouncement | DiscoveryQuery | DiscoveryResponse): string {
     // Strip the signature field before canonicalizing
     const { signature, ...rest } = message as any;
     return canonicalJson(rest);
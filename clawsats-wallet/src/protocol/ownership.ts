@@ -0,0 +1,76 @@
+/**
+ * Endpoint ownership proofs (clawsats://v1).
+ *
+ * A signed manifest only says which endpoint an identity key claims. Before
+ * trusting the claim, a Claw sends a fresh nonce to GET /endpoint-proof at
+ * that endpoint; the answer must be signed by the claimed key over the nonce
+ * and the endpoint the signer advertises. Relaying the challenge to the real
+ * owner doesn't help an impostor: the owner signs its own endpoint, not the
+ * impostor's.
+ */
+
+import { EndpointProof } from '../types';
+import { canonicalJson } from '../utils';
+import { MAX_CLOCK_SKEW_MS } from './constants';
+import { signForAnyone, verifyFromAnyone } from './signing';
+
+export const ENDPOINT_PROOF_PROTOCOL_ID: [0, string] = [0, 'clawsats endpoint proof'];
+export const ENDPOINT_PROOF_KEY_ID = 'endpoint-proof-v1';
+
+const NONCE_RE = /^[A-Za-z0-9_-]{16,128}$/;
+
+/** Canonical bytes the endpoint's owner signs: everything but its signature. */
+export function serializeEndpointProof(proof: EndpointProof): string {
+  const { signature, ...rest } = proof;
+  return canonicalJson(rest);
+}
+
+export function isValidProofNonce(nonce: unknown): nonce is string {
+  return typeof nonce === 'string' && NONCE_RE.test(nonce);
+}
+
+/** Scheme, host and path without a trailing slash, so equivalent spellings of a URL compare equal. */
+export function normalizeProofEndpoint(endpoint: string): string | null {
+  try {
+    const url = new URL(endpoint);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    return `${url.origin}${url.pathname.replace(/\/+$/, '')}`;
+  } catch {
+    return null;
+  }
+}
+
+export async function signEndpointProof(
+  wallet: any,
+  proof: Omit<EndpointProof, 'signature'>
+): Promise<EndpointProof> {
+  const signature = await signForAnyone(wallet, serializeEndpointProof(proof as EndpointProof), ENDPOINT_PROOF_PROTOCOL_ID, ENDPOINT_PROOF_KEY_ID);
+  return { ...proof, signature };
+}
+
+export async function verifyEndpointProofSignature(proof: EndpointProof): Promise<boolean> {
+  if (!proof?.signature || !proof.identityKey) return false;
+  return verifyFromAnyone(serializeEndpointProof(proof), proof.signature, ENDPOINT_PROOF_PROTOCOL_ID, ENDPOINT_PROOF_KEY_ID, proof.identityKey);
+}
+
+/**
+ * Check the answer to our challenge: our nonce, the key we expected, the
+ * endpoint we asked, recent, and signed. Returns the first problem, or null.
+ */
+export async function checkEndpointProof(
+  proof: EndpointProof,
+  expected: { identityKey: string; endpoint: string; nonce: string },
+  now = Date.now()
+): Promise<string | null> {
+  if (!proof || typeof proof !== 'object' || proof.type !== 'endpoint-proof') return 'Not an endpoint proof';
+  if (proof.nonce !== expected.nonce) return 'Proof is for a different nonce';
+  if (proof.identityKey !== expected.identityKey) return 'Proof is signed for a different identity key';
+  const claimed = normalizeProofEndpoint(proof.endpoint || '');
+  if (!claimed || claimed !== normalizeProofEndpoint(expected.endpoint)) {
+    return `Signer advertises ${proof.endpoint || 'no endpoint'}, not ${expected.endpoint}`;
+  }
+  const ts = Date.parse(proof.timestamp);
+  if (!Number.isFinite(ts) || Math.abs(now - ts) > MAX_CLOCK_SKEW_MS) return 'Proof timestamp is invalid or too far off';
+  if (!(await verifyEndpointProofSignature(proof))) return 'Proof signature does not verify';
+  return null;
+}
@@ -0,0 +1,66 @@
+/**
+ * Signed price quotes (clawsats://v1).
+ *
+ * A quote is the provider's signed promise to serve one call of `capability`
+ * with params hashing to `paramsHash` for `satoshis` (+ `feeSats`) if paid to
+ * `derivationPrefix` before `expiresAt`. Any buyer can verify it against the
+ * provider's identity key, and the provider can re-verify its own quote
+ * after a restart.
+ */
+
+import { createHash } from 'crypto';
+import { SignedQuote } from '../types';
+import { canonicalJson } from '../utils';
+import { signForAnyone, verifyFromAnyone } from './signing';
+
+export const QUOTE_PROTOCOL_ID: [0, string] = [0, 'clawsats quote'];
+export const QUOTE_KEY_ID = 'quote-v1';
+
+/** sha256 of the canonical JSON params — the same hash credit authorizations use. */
+export function hashParams(params: unknown): string {
+  return createHash('sha256').update(canonicalJson(params || {})).digest('hex');
+}
+
+/** Canonical bytes the provider signs. */
+export function serializeQuote(quote: SignedQuote): string {
+  const { signature, ...rest } = quote;
+  return canonicalJson(rest);
+}
+
+export async function signQuote(wallet: any, quote: SignedQuote): Promise<SignedQuote> {
+  const signature = await signForAnyone(wallet, serializeQuote(quote), QUOTE_PROTOCOL_ID, QUOTE_KEY_ID);
+  return { ...quote, signature };
+}
+
+/** Check a quote's signature against quote.provider. */
+export async function verifyQuoteSignature(quote: SignedQuote): Promise<boolean> {
+  if (!quote?.signature || !quote.provider) return false;
+  return verifyFromAnyone(serializeQuote(quote), quote.signature, QUOTE_PROTOCOL_ID, QUOTE_KEY_ID, quote.provider);
+}
+
+/**
+ * Field checks shared by buyer and provider. Returns the reason the quote
+ * can't be used for this call, or null if it can (signature not included).
+ */
+export function checkQuote(
+  quote: SignedQuote,
+  expect: { capability?: string; params?: unknown; provider?: string; requester?: string; now?: number }
+): string | null {
+  if (!quote || quote.type !== 'clawsats-quote') return 'Not a clawsats quote';
+  if (!quote.derivationPrefix || !quote.quoteId) return 'Quote is missing its id or derivation prefix';
+  if (!Number.isInteger(quote.satoshis) || quote.satoshis <= 0) return `Invalid quoted price: ${quote.satoshis}`;
+  if (!Number.isInteger(quote.feeSats) || quote.feeSats < 0) return `Invalid quoted fee: ${quote.feeSats}`;
+  const expiresAt = Date.parse(quote.expiresAt);
+  if (!Number.isFinite(expiresAt) || expiresAt <= (expect.now ?? Date.now())) return 'Quote has expired';
+  if (expect.capability && quote.capability !== expect.capability) {
+    return `Quote is for "${quote.capability}", not "${expect.capability}"`;
+  }
+  if (expect.provider && quote.provider !== expect.provider) return 'Quote was signed by a different provider';
+  if (quote.requester && expect.requester !== undefined && quote.requester !== expect.requester) {
+    return 'Quote was issued to a different identity key';
+  }
+  if (expect.params !== undefined && hashParams(expect.params) !== quote.paramsHash) {
+    return 'Params do not match the quoted params';
+  }
+  return null;
+}
@@ -0,0 +1,85 @@
+/**
+ * Two-party call receipts (clawsats://v1).
+ *
+ * The provider signs every field except the signatures. The requester then
+ * checks that signature and the result hash against what it received, and
+ * countersigns the provider-signed receipt (signature included).
+ */
+
+import { createHash } from 'crypto';
+import { CallReceipt } from '../types';
+import { canonicalJson } from '../utils';
+import { signForAnyone, verifyFromAnyone } from './signing';
+
+export const RECEIPT_PROTOCOL_ID: [0, string] = [0, 'clawsats receipt'];
+export const RECEIPT_KEY_ID = 'receipt-v1';
+export const RECEIPT_ACK_KEY_ID = 'receipt-ack-v1';
+
+/** sha256 of the canonical JSON of a result — a receipt's resultHash. */
+export function receiptResultHash(result: unknown): string {
+  return createHash('sha256').update(canonicalJson(result)).digest('hex');
+}
+
+/** Canonical bytes the provider signs: everything but the two signatures. */
+export function serializeReceipt(receipt: CallReceipt): string {
+  const { signature, requesterSignature, ...rest } = receipt;
+  return canonicalJson(rest);
+}
+
+/** Canonical bytes the requester countersigns: the provider-signed receipt. */
+export function serializeReceiptForAck(receipt: CallReceipt): string {
+  const { requesterSignature, ...rest } = receipt;
+  return canonicalJson(rest);
+}
+
+/** Provider side: sign a receipt for anyone to verify. */
+export async function signReceipt(wallet: any, receipt: Omit<CallReceipt, 'signature' | 'requesterSignature'>): Promise<CallReceipt> {
+  const signature = await signForAnyone(wallet, serializeReceipt(receipt as CallReceipt), RECEIPT_PROTOCOL_ID, RECEIPT_KEY_ID);
+  return { ...receipt, signature };
+}
+
+export async function verifyReceiptSignature(receipt: CallReceipt): Promise<boolean> {
+  return verifyFromAnyone(serializeReceipt(receipt), receipt?.signature, RECEIPT_PROTOCOL_ID, RECEIPT_KEY_ID, receipt?.provider);
+}
+
+/** Requester side: add our signature over the provider-signed receipt. */
+export async function countersignReceipt(wallet: any, receipt: CallReceipt): Promise<CallReceipt> {
+  const signature = await signForAnyone(wallet, serializeReceiptForAck(receipt), RECEIPT_PROTOCOL_ID, RECEIPT_ACK_KEY_ID);
+  return { ...receipt, requesterSignature: signature };
+}
+
+export async function verifyRequesterSignature(receipt: CallReceipt): Promise<boolean> {
+  return verifyFromAnyone(serializeReceiptForAck(receipt), receipt?.requesterSignature, RECEIPT_PROTOCOL_ID, RECEIPT_ACK_KEY_ID, receipt?.requester);
+}
+
+/**
+ * Check a receipt against the call it came back with: the parties, the
+ * result hash (or, for a batch, every item's result hash) and the provider
+ * signature. Returns the first problem found, or null.
+ */
+export async function checkReceipt(
+  receipt: CallReceipt | undefined,
+  expected: {
+    provider?: string;
+    requester?: string;
+    result?: unknown;
+    results?: Array<{ index: number; success: boolean; result?: unknown; error?: string }>;
+  }
+): Promise<string | null> {
+  if (!receipt?.receiptId) return 'No receipt was returned';
+  if (expected.provider && receipt.provider !== expected.provider) return 'Receipt names a different provider';
+  if (expected.requester && receipt.requester !== expected.requester) return 'Receipt names a different requester';
+  if (receipt.result?.hash !== receipt.resultHash) return 'Receipt result hash is inconsistent';
+  if (receipt.items) {
+    if (receiptResultHash(receipt.items) !== receipt.resultHash) return 'Receipt items do not match its result hash';
+    for (const outcome of expected.results || []) {
+      const item = receipt.items.find(i => i.index === outcome.index);
+      const hash = receiptResultHash(outcome.success ? outcome.result : { error: outcome.error });
+      if (!item || item.resultHash !== hash) return `Batch item ${outcome.index} does not match its receipt entry`;
+    }
+  } else if ('result' in expected && receiptResultHash(expected.result) !== receipt.resultHash) {
+    return 'Result does not match the receipt result hash';
+  }
+  if (!(await verifyReceiptSignature(receipt))) return 'Provider signature does not verify';
+  return null;
+}
@@ -0,0 +1,49 @@
+/**
+ * 'anyone' signatures (clawsats://v1).
+ *
+ * Quotes, receipts, attestations, directory registrations and the other
+ * signed protocol messages are signed by their author's identity key for the
+ * BRC-42 'anyone' counterparty, so any Claw can verify one from the author's
+ * public key alone, with no wallet of its own.
+ */
+
+import { ProtoWallet } from '@bsv/sdk';
+
+/** Sign `data` (UTF-8) for 'anyone' to verify. Returns the base64 signature. */
+export async function signForAnyone(
+  wallet: any,
+  data: string,
+  protocolID: [0, string],
+  keyID: string
+): Promise<string> {
+  const result = await wallet.createSignature({
+    data: Array.from(Buffer.from(data, 'utf8')),
+    protocolID,
+    keyID,
+    counterparty: 'anyone'
+  });
+  return Buffer.from(result.signature).toString('base64');
+}
+
+/** Did `signer` sign `data` for 'anyone'? False for a missing, malformed or wrong signature. */
+export async function verifyFromAnyone(
+  data: string,
+  signature: string | undefined,
+  protocolID: [0, string],
+  keyID: string,
+  signer: string | undefined
+): Promise<boolean> {
+  if (!signature || !signer) return false;
+  try {
+    const result = await new ProtoWallet('anyone').verifySignature({
+      data: Array.from(Buffer.from(data, 'utf8')),
+      signature: Array.from(Buffer.from(signature, 'base64')),
+      protocolID,
+      keyID,
+      counterparty: signer
+    });
+    return result?.valid === true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,225 @@
+import express from 'express';
+import cors from 'cors';
+import http from 'http';
+import { join } from 'path';
+import { DirectoryStore } from '../core/DirectoryStore';
+import { EndpointVerifier } from '../core/EndpointVerifier';
+import { RateLimiter } from '../core/RateLimiter';
+import { checkDirectoryRegistration } from '../protocol/directory';
+import {
+  DIRECTORY_DEFAULT_PORT,
+  DIRECTORY_LIVENESS_CONCURRENCY,
+  DIRECTORY_LIVENESS_INTERVAL_MS,
+  DIRECTORY_REGISTRATIONS_PER_HOUR,
+  DIRECTORY_REQUESTS_PER_HOUR
+} from '../protocol/constants';
+import { Chain, DirectoryEntryStatus, DirectoryRegistration, DirectoryServeOptions } from '../types';
+import { isPublicHttpEndpoint, log, logError, logWarn } from '../utils';
+
+const TAG = 'directory';
+
+/**
+ * A self-hostable ClawSats directory: the GET /api/directory seed list and
+ * POST /api/directory/register that `watch` and `earn` use, for fleets and
+ * test networks that don't bootstrap from clawsats.com. Registrations must be
+ * signed by the key they list and its endpoint must answer an ownership
+ * challenge; a background sweep re-challenges listed endpoints and drops the
+ * ones silent for the entry TTL.
+ */
+export class DirectoryServer {
+  private app: express.Application;
+  private httpServer: http.Server | null = null;
+  private store: DirectoryStore;
+  private verifier: EndpointVerifier;
+  private registerRateLimiter: RateLimiter;
+  private readRateLimiter: RateLimiter;
+  private port: number;
+  private host: string;
+  private livenessIntervalMs: number;
+  private checkLiveness: boolean;
+  private allowPrivateEndpoints: boolean;
+  private livenessTimer: NodeJS.Timeout | null = null;
+  private sweeping = false;
+
+  constructor(options: DirectoryServeOptions = {}) {
+    this.port = options.port ?? DIRECTORY_DEFAULT_PORT;
+    this.host = options.host || 'localhost';
+    this.livenessIntervalMs = options.livenessIntervalMs ?? DIRECTORY_LIVENESS_INTERVAL_MS;
+    this.checkLiveness = options.checkLiveness !== false;
+    this.allowPrivateEndpoints = options.allowPrivateEndpoints === true;
+    this.store = new DirectoryStore(options.dataDir || join(process.cwd(), 'data'), { ttlMs: options.entryTtlMs });
+    // Every challenge is fresh: the directory vouches for what answers now
+    this.verifier = new EndpointVerifier({ validMs: 0, retryMs: 0 });
+    this.registerRateLimiter = new RateLimiter(DIRECTORY_REGISTRATIONS_PER_HOUR, 60 * 60 * 1000);
+    this.readRateLimiter = new RateLimiter(DIRECTORY_REQUESTS_PER_HOUR, 60 * 60 * 1000);
+
+    this.app = express();
+    if (options.cors !== false) this.app.use(cors());
+    this.app.use(express.json({ limit: '16kb' }));
+    this.setupRoutes();
+  }
+
+  getStore(): DirectoryStore {
+    return this.store;
+  }
+
+  async start(): Promise<void> {
+    return new Promise((resolve) => {
+      this.httpServer = this.app.listen(this.port, this.host, () => {
+        const base = `http://${this.host}:${this.port}`;
+        log(TAG, `ClawSats directory running on ${base}`);
+        log(TAG, `  List:     GET ${base}/api/directory`);
+        log(TAG, `  Register: POST ${base}/api/directory/register`);
+        log(TAG, `  Listed:   ${this.store.size()} Claws`);
+        if (this.livenessIntervalMs > 0) {
+          this.livenessTimer = setInterval(() => {
+            this.sweep().catch(err => logWarn(TAG, `Liveness sweep failed: ${err instanceof Error ? err.message : String(err)}`));
+          }, this.livenessIntervalMs);
+          this.livenessTimer.unref();
+        }
+        resolve();
+      });
+    });
+  }
+
+  async stop(): Promise<void> {
+    if (this.livenessTimer) {
+      clearInterval(this.livenessTimer);
+      this.livenessTimer = null;
+    }
+    return new Promise((resolve, reject) => {
+      if (!this.httpServer) {
+        resolve();
+        return;
+      }
+      this.httpServer.close((err) => {
+        this.httpServer = null;
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+  }
+
+  /**
+   * Re-challenge the endpoints due for a check (all of them with `force`),
+   * a few at a time, then drop entries silent for the TTL.
+   */
+  async sweep(force = false): Promise<{ checked: number; online: number; expired: string[] }> {
+    if (this.sweeping) return { checked: 0, online: 0, expired: [] };
+    this.sweeping = true;
+    try {
+      const due = this.checkLiveness ? this.store.dueForCheck(force ? 0 : this.livenessIntervalMs) : [];
+      let online = 0;
+      let next = 0;
+      const worker = async (): Promise<void> => {
+        while (next < due.length) {
+          const entry = due[next++];
+          const result = await this.verifier.verify(entry.identityKey, entry.endpoint, { force: true });
+          this.store.recordCheck(entry.identityKey, entry.endpoint, result.status === 'verified', result.problem);
+          if (result.status === 'verified') online++;
+        }
+      };
+      await Promise.all(Array.from({ length: Math.min(DIRECTORY_LIVENESS_CONCURRENCY, due.length) }, worker));
+      const expired = this.store.expire();
+      if (due.length > 0 || expired.length > 0) {
+        log(TAG, `Checked ${due.length} endpoints (${online} online), dropped ${expired.length} stale entries`);
+      }
+      return { checked: due.length, online, expired };
+    } finally {
+      this.sweeping = false;
+    }
+  }
+
+  private setupRoutes(): void {
+    this.app.get('/health', (_req: express.Request, res: express.Response) => {
+      res.json({ status: 'ok', service: 'clawsats-directory', listed: this.store.size(), timestamp: new Date().toISOString() });
+    });
+
+    // GET /api/directory?capability=&q=&chain=&status=&offset=&limit= → Claws listed
+    // here, online ones only unless status=offline|all
+    this.app.get('/api/directory', (req: express.Request, res: express.Response) => {
+      if (!this.readRateLimiter.allow(req.ip || 'unknown')) {
+        res.status(429).json({ status: 'error', code: 'ERR_RATE_LIMITED', description: `At most ${DIRECTORY_REQUESTS_PER_HOUR} directory reads per hour.` });
+        return;
+      }
+      const str = (name: string): string | undefined => typeof req.query[name] === 'string' ? String(req.query[name]) : undefined;
+      const status = str('status');
+      if (status !== undefined && !['online', 'offline', 'all'].includes(status)) {
+        res.status(400).json({ status: 'error', code: 'ERR_INVALID_PARAMS', description: 'status must be online, offline or all.' });
+        return;
+      }
+      const chain = str('chain');
+      if (chain !== undefined && chain !== 'test' && chain !== 'main') {
+        res.status(400).json({ status: 'error', code: 'ERR_INVALID_PARAMS', description: 'chain must be test or main.' });
+        return;
+      }
+      const page = this.store.search({
+        capability: str('capability'),
+        q: str('q'),
+        chain: chain as Chain | undefined,
+        status: status as DirectoryEntryStatus | 'all' | undefined,
+        offset: Number(str('offset')) || 0,
+        limit: Number(str('limit')) || undefined
+      });
+      res.json({ ...page, timestamp: new Date().toISOString() });
+    });
+
+    this.app.get('/api/directory/:identityKey', (req: express.Request, res: express.Response) => {
+      const entry = this.store.get(req.params.identityKey);
+      if (!entry) {
+        res.status(404).json({ status: 'error', code: 'ERR_NOT_LISTED', description: 'No Claw with that identity key is listed.' });
+        return;
+      }
+      res.json(entry);
+    });
+
+    // POST /api/directory/register  DirectoryRegistration → listed once the
+    // signature checks out and the endpoint proves it is served by that key
+    this.app.post('/api/directory/register', async (req: express.Request, res: express.Response) => {
+      try {
+        if (!this.registerRateLimiter.allow(req.ip || 'unknown')) {
+          res.status(429).json({ status: 'error', code: 'ERR_RATE_LIMITED', description: `At most ${DIRECTORY_REGISTRATIONS_PER_HOUR} registrations per hour.` });
+          return;
+        }
+        const registration = req.body as DirectoryRegistration;
+        const problem = await checkDirectoryRegistration(registration);
+        if (problem) {
+          res.status(400).json({ status: 'error', code: 'ERR_INVALID_REGISTRATION', description: problem });
+          return;
+        }
+        if (!this.allowPrivateEndpoints && !isPublicHttpEndpoint(registration.endpoint)) {
+          res.status(400).json({ status: 'error', code: 'ERR_INVALID_ENDPOINT', description: 'endpoint must be a public http/https URL.' });
+          return;
+        }
+        const listed = this.store.get(registration.identityKey);
+        if (listed && Date.parse(registration.timestamp) <= Date.parse(listed.registeredAt)) {
+          res.status(409).json({ status: 'error', code: 'ERR_STALE_REGISTRATION', description: 'Registration is no newer than the one listed.' });
+          return;
+        }
+        if (this.checkLiveness) {
+          const proof = await this.verifier.verify(registration.identityKey, registration.endpoint, { force: true });
+          if (proof.status !== 'verified') {
+            res.status(422).json({ status: 'error', code: 'ERR_ENDPOINT_UNVERIFIED', description: `Endpoint did not prove ownership: ${proof.problem}` });
+            return;
+          }
+        }
+        let entry;
+        try {
+          entry = this.store.register(registration);
+        } catch (err) {
+          // A concurrent registration for the same key may have landed during the challenge
+          const msg = err instanceof Error ? err.message : String(err);
+          const full = msg.startsWith('Directory is full');
+          res.status(full ? 503 : 409).json({ status: 'error', code: full ? 'ERR_DIRECTORY_FULL' : 'ERR_STALE_REGISTRATION', description: msg });
+          return;
+        }
+        log(TAG, `Listed ${entry.identityKey.substring(0, 12)}... at ${entry.endpoint} (${entry.capabilities.length} capabilities)`);
+        res.json({ registered: true, entry });
+      } catch (error) {
+        logError(TAG, 'Registration failed:', error);
+        const msg = error instanceof Error ? error.message : String(error);
+        res.status(500).json({ error: msg });
+      }
+    });
+  }
+}
@@ -3,21 +3,168 @@ import cors from 'cors';
 import http from 'http';
 import { randomBytes, createHash } from 'crypto';
 import { JSONRPCServer } from 'json-rpc-2.0';
+import { Transaction } from '@bsv/sdk';
 import { WalletManager } from '../core/WalletManager';
 import { PeerRegistry } from '../core/PeerRegistry';
 import { CapabilityRegistry } from '../core/CapabilityRegistry';
+import { PaymentHelper } from '../core/PaymentHelper';
 import { NonceCache } from '../core/NonceCache';
+import { ChallengeStore, HashlockCommitment } from '../core/ChallengeStore';
+import { PaymentReplayLedger } from '../core/PaymentReplayLedger';
+import { EscrowStore, EscrowRecord, EscrowStatus } from '../core/EscrowStore';
+import { ReceiptStore, ReceiptFilter, RecordReceiptInput } from '../core/ReceiptStore';
+import { ReputationEngine } from '../core/ReputationEngine';
+import { BudgetManager, BudgetScope, BudgetWindow, estimateTxFeeSats } from '../core/BudgetManager';
+import { AccountingLedger, AccountingCategory, AccountingFilter, PnlGroupBy, networkFeeFromAction } from '../core/AccountingLedger';
 import { RateLimiter } from '../core/RateLimiter';
+import { AttestationStore } from '../core/AttestationStore';
+import { FraudReportStatus, FraudReportStore } from '../core/FraudReportStore';
+import { GossipDiscovery } from '../core/GossipDiscovery';
+import { DiscoveryTracker } from '../core/DiscoveryTracker';
+import { CapabilityIndex, CapabilityIndexRefreshReport } from '../core/CapabilityIndex';
+import { EndpointVerifier, EndpointProofResult } from '../core/EndpointVerifier';
+import { BanListRefreshResult, PeerAccessAction, PeerAccessCheck, PeerAccessList } from '../core/PeerAccessList';
+import { BeaconIndexer, BeaconScanReport, FileTxSource, WhatsOnChainTxSource } from '../core/BeaconIndexer';
+import { describePricing, meterCapability, quoteCapability } from '../core/Pricing';
+import {
+  CreditLedger,
+  CreditAuthorization,
+  CreditAuthAction,
+  CREDIT_PROTOCOL_ID,
+  CREDIT_KEY_ID,
+  serializeCreditAuthorization
+} from '../core/CreditLedger';
 import { SharingProtocol } from '../protocol';
-import { INVITE_MAX_PER_HOUR, FEE_SATS, FEE_IDENTITY_KEY } from '../protocol/constants';
-import { ServeOptions, Invitation, PeerRecord } from '../types';
-import { log, logWarn, logError, canonicalJson } from '../utils';
+import { findFeeOutput, parsePaymentTransaction, deriveFeeLockingScript, BRC29_PROTOCOL_ID } from '../protocol/fee';
+import {
+  HASHLOCK_DERIVATION_SUFFIX,
+  buildHashlockLockingScript,
+  hashlockCommitment,
+  hashlockPreimage,
+  hashlockUnlock
+} from '../protocol/hashlock';
+import { checkQuote, hashParams, signQuote, verifyQuoteSignature } from '../protocol/quote';
+import {
+  ESCROW_BASKET,
+  ESCROW_PAYOUT_SUFFIX,
+  ESCROW_SENDER_IDENTITY_KEY,
+  buildEscrowLockingScript,
+  buildSettlementTx,
+  checkEscrowTerms,
+  completeSettlement,
+  decideDispute,
+  findEscrowOutput,
+  signEscrowStatement,
+  signSettlement,
+  verifyEscrowStatement,
+  verifySettlementSignature
+} from '../protocol/escrow';
+import { receiptResultHash, signReceipt, verifyReceiptSignature, verifyRequesterSignature } from '../protocol/receipt';
+import { buildAnchorScript, buildMerkleTree, checkReceiptAnchor, receiptLeafHash } from '../protocol/anchor';
+import { ATTESTATION_OUTCOMES, checkAttestation, signAttestation } from '../protocol/attestation';
+import { FRAUD_EVIDENCE_KINDS, checkFraudReport, signFraudReport } from '../protocol/fraud';
+import { signPeerExchangePage } from '../protocol/gossip';
+import { checkDiscoveryQuery, checkDiscoveryRoute, signDiscoveryHop } from '../protocol/discovery';
+import { isValidProofNonce, normalizeProofEndpoint, signEndpointProof } from '../protocol/ownership';
+import { signBanList } from '../protocol/banlist';
+import {
+  IDENTITY_KEY_RE,
+  MAX_CLOCK_SKEW_MS,
+  INVITE_MAX_PER_HOUR,
+  FEE_SATS,
+  FEE_IDENTITY_KEY,
+  CREDIT_MIN_DEPOSIT_SATS,
+  CREDIT_MAX_BALANCE_SATS,
+  CREDIT_AUTH_TTL_MS,
+  QUOTE_TTL_MS,
+  QUOTE_MAX_TTL_MS,
+  BATCH_MAX_ITEMS,
+  HASHLOCK_MAX_RESULT_BYTES,
+  ESCROW_SETTLEMENT_FEE_SATS,
+  ARBITRATE_PRICE_SATS,
+  RECEIPT_ANCHOR_INTERVAL_MS,
+  RECEIPT_ANCHOR_MAX_LEAVES,
+  REPUTATION_NEUTRAL_SCORE,
+  ATTESTATION_MAX_PER_REQUEST,
+  ATTESTATION_PUSHES_PER_HOUR,
+  FRAUD_REPORT_MAX_PER_REQUEST,
+  FRAUD_REPORT_PUSHES_PER_HOUR,
+  PEER_EXCHANGE_PAGE_SIZE,
+  PEER_EXCHANGE_MAX_SHARED,
+  PEER_EXCHANGE_MIN_REPUTATION,
+  PEER_EXCHANGE_SHARE_SEEN_MS,
+  PEER_EXCHANGE_REQUESTS_PER_HOUR,
+  DISCOVERY_HOP_LIMIT,
+  DISCOVERY_MAX_RESULTS,
+  DISCOVERY_FANOUT,
+  DISCOVERY_FORWARD_FANOUT,
+  DISCOVERY_QUERIES_PER_HOUR,
+  CAPABILITY_INDEX_REFRESH_INTERVAL_MS,
+  ENDPOINT_PROOF_REQUESTS_PER_HOUR,
+  BAN_LIST_REFRESH_INTERVAL_MS,
+  BAN_LIST_REQUESTS_PER_HOUR,
+  BAN_LIST_TIMEOUT_MS
+} from '../protocol/constants';
+import {
+  ServeOptions,
+  Invitation,
+  PeerRecord,
+  PeerAccessKind,
+  PaidCallFailurePolicy,
+  CapabilityHandler,
+  PriceQuote,
+  CallUsage,
+  SignedQuote,
+  CallReceipt,
+  ReceiptAnchorProof,
+  EscrowTerms,
+  EscrowDelivery,
+  EscrowEvidenceRequest,
+  EscrowRuling,
+  EscrowParty,
+  EscrowPayee,
+  AttestationOutcome,
+  ReputationAttestation,
+  FraudEvidenceKind,
+  FraudReport,
+  DiscoveryHop,
+  DiscoveryQuery,
+  DiscoveryResponse
+} from '../types';
+import { log, logWarn, logError, canonicalJson, isPublicHttpEndpoint } from '../utils';
 import { CourseManager } from '../courses/CourseManager';
 import { OnChainMemory } from '../memory/OnChainMemory';
 import { createBsvMentorCapability } from '../capabilities/BsvMentorCapability';
 
 const TAG = 'server';
 
+/** One quoted entry of a POST /batch request. */
+interface BatchItem {
+  index: number;
+  capability: string;
+  cap: CapabilityHandler;
+  params: any;
+  quote: PriceQuote;
+}
+
+/** What a batch item returned and earned (0 sats if it failed). */
+interface BatchOutcome {
+  index: number;
+  capability: string;
+  success: boolean;
+  result?: unknown;
+  error?: string;
+  satoshis: number;
+  usage?: CallUsage;
+  resultHash: string;
+}
+
+/** A Claw to send a discovery query to; without an identity key it gets no route to relay with. */
+interface DiscoveryTarget {
+  endpoint: string;
+  identityKey?: string;
+}
+
 export class JsonRpcServer {
   private app = express();
   private rpcServer: JSONRPCServer;
@@ -27,12 +174,42 @@ export class JsonRpcServer {
   private capabilityRegistry: CapabilityRegistry;
   private nonceCache: NonceCache;
   private inviteRateLimiter: RateLimiter;
-  private paymentDedupeCache: Set<string> = new Set();
+  private replayLedger: PaymentReplayLedger;
+  private challengeStore: ChallengeStore = new ChallengeStore();
   private referralMap: Map<string, string> = new Map(); // callerKey → introducerKey
   private referralLedger: Map<string, number> = new Map(); // introducerKey → earned sats
   private freeTrialUsed: Set<string> = new Set(); // identity keys that used their free trial
   private callStats: Map<string, number> = new Map(); // capability → total paid calls served
   private uniqueCallers: Set<string> = new Set(); // unique identity keys that have paid us
+  private creditLedger: CreditLedger;
+  private accounting: AccountingLedger;
+  private budgets: BudgetManager;
+  private escrows: EscrowStore;
+  private arbitrating: Set<string> = new Set(); // escrow ids with a ruling being signed
+  private receipts: ReceiptStore;
+  private receiptAnchorIntervalMs: number;
+  private anchorTimer: NodeJS.Timeout | null = null;
+  private anchoringReceipts = false;
+  private capabilityIndex: CapabilityIndex = new CapabilityIndex();
+  private capabilityIndexRefreshMs: number;
+  private capabilityIndexTimer: NodeJS.Timeout | null = null;
+  private banListRefreshMs: number;
+  private banListTimer: NodeJS.Timeout | null = null;
+  private reputation: ReputationEngine;
+  private attestations: AttestationStore;
+  private attestationRateLimiter: RateLimiter;
+  private fraudReports: FraudReportStore;
+  private peerAccess: PeerAccessList;
+  private beacons: BeaconIndexer;
+  private banListRateLimiter: RateLimiter;
+  private fraudReportRateLimiter: RateLimiter;
+  private peerExchangeRateLimiter: RateLimiter;
+  private discoveryRateLimiter: RateLimiter;
+  private discoveryQueryIds: NonceCache = new NonceCache(5000); // queries already answered (or sent by us)
+  private discoveryTracker: DiscoveryTracker = new DiscoveryTracker();
+  private endpointVerifier: EndpointVerifier = new EndpointVerifier();
+  private endpointProofRateLimiter: RateLimiter;
+  private creditNonceCache: NonceCache = new NonceCache(10000);
   private courseManager: CourseManager;
   private onChainMemory: OnChainMemory;
   private port: number;
@@ -43,6 +220,7 @@ export class JsonRpcServer {
   private indelibleUrl: string;
   private indelibleOperatorAddress: string;
   private indelibleDefaultAgentAddress: string;
+  private failurePolicy: PaidCallFailurePolicy;
 
   constructor(walletManager: WalletManager, options: ServeOptions = {}) {
     this.walletManager = walletManager;
@@ -51,6 +229,12 @@ export class JsonRpcServer {
     this.capabilityRegistry = new CapabilityRegistry();
     this.nonceCache = new NonceCache();
     this.inviteRateLimiter = new RateLimiter(INVITE_MAX_PER_HOUR, 60 * 60 * 1000);
+    this.attestationRateLimiter = new RateLimiter(ATTESTATION_PUSHES_PER_HOUR, 60 * 60 * 1000);
+    this.fraudReportRateLimiter = new RateLimiter(FRAUD_REPORT_PUSHES_PER_HOUR, 60 * 60 * 1000);
+    this.peerExchangeRateLimiter = new RateLimiter(PEER_EXCHANGE_REQUESTS_PER_HOUR, 60 * 60 * 1000);
+    this.discoveryRateLimiter = new RateLimiter(DISCOVERY_QUERIES_PER_HOUR, 60 * 60 * 1000);
+    this.endpointProofRateLimiter = new RateLimiter(ENDPOINT_PROOF_REQUESTS_PER_HOUR, 60 * 60 * 1000);
+    this.banListRateLimiter = new RateLimiter(BAN_LIST_REQUESTS_PER_HOUR, 60 * 60 * 1000);
     this.port = options.port || 3321;
     this.host = options.host || 'localhost';
     this.publicEndpoint = options.publicEndpoint || '';
@@ -65,6 +249,20 @@ export class JsonRpcServer {
     this.indelibleDefaultAgentAddress = String(
       options.indelibleDefaultAgentAddress || process.env.CLAWSATS_INDELIBLE_DEFAULT_AGENT_ADDRESS || ''
     ).trim();
+    const envFailurePolicy = String(process.env.CLAWSATS_FAILURE_POLICY || '').trim().toLowerCase();
+    this.failurePolicy = options.failurePolicy || (envFailurePolicy === 'refund' ? 'refund' : 'credit');
+    const envReplayDays = Number(process.env.CLAWSATS_REPLAY_WINDOW_DAYS || '');
+    const replayWindowMs = options.replayWindowMs
+      || (envReplayDays > 0 ? envReplayDays * 24 * 60 * 60 * 1000 : undefined);
+    const envAnchorMinutes = parseFloat(process.env.CLAWSATS_RECEIPT_ANCHOR_MINUTES || ''); // 0 disables
+    this.receiptAnchorIntervalMs = options.receiptAnchorIntervalMs
+      ?? (envAnchorMinutes >= 0 ? envAnchorMinutes * 60 * 1000 : RECEIPT_ANCHOR_INTERVAL_MS);
+    const envIndexSeconds = parseFloat(process.env.CLAWSATS_CAPABILITY_INDEX_SECONDS || ''); // 0 disables
+    this.capabilityIndexRefreshMs = options.capabilityIndexRefreshMs
+      ?? (envIndexSeconds >= 0 ? envIndexSeconds * 1000 : CAPABILITY_INDEX_REFRESH_INTERVAL_MS);
+    const envBanListSeconds = parseFloat(process.env.CLAWSATS_BAN_LIST_REFRESH_SECONDS || ''); // 0 disables
+    this.banListRefreshMs = options.banListRefreshMs
+      ?? (envBanListSeconds >= 0 ? envBanListSeconds * 1000 : BAN_LIST_REFRESH_INTERVAL_MS);
 
     // SECURITY: If binding to a public interface, REQUIRE an API key.
     // If none provided, auto-generate one and print it once.
@@ -97,8 +295,42 @@ export class JsonRpcServer {
     this.onChainMemory = new OnChainMemory(dataDir, identityKey);
     this.onChainMemory.loadIndex();
 
+    // Prepaid credit balances (deposit once, draw down across /call requests)
+    this.creditLedger = new CreditLedger(dataDir);
+
+    // Spent payment outputs (txid:vout) — survives restarts, unlike an in-memory set
+    this.replayLedger = new PaymentReplayLedger(dataDir, replayWindowMs);
+
+    // Earnings + spending journal for P&L and bookkeeping exports
+    this.accounting = new AccountingLedger(dataDir);
+
+    // Rolling spend caps — shared with the brain loop via data/budgets.json
+    this.budgets = new BudgetManager(dataDir);
+    this.onChainMemory.setBudgetManager(this.budgets);
+
+    // 2-of-3 escrows this Claw is requester, provider or arbiter of
+    this.escrows = new EscrowStore(dataDir);
+
+    // Receipts we issued and received, with the payment each one settled
+    this.receipts = new ReceiptStore(dataDir);
+
+    // Peer scores from call outcomes, probes, receipt checks and fraud reports
+    this.reputation = new ReputationEngine(dataDir);
+    // Other Claws' signed attestations count too, weighted by how much we trust each attester
+    this.attestations = new AttestationStore(dataDir);
+    this.reputation.useAttestations(this.attestations, this.walletManager.getConfig()?.identityKey || '');
+    // Fraud reports we filed or received; confirmed ones cut scores and can block a provider
+    this.fraudReports = new FraudReportStore(dataDir);
+    this.fraudReports.useReputation(this.reputation);
+    this.peerRegistry.useReputation(this.reputation);
+    // Operator blocks/allows and subscribed ban lists, consulted before any peer is let in or hired
+    this.peerAccess = new PeerAccessList(dataDir);
+    // CLAWSATS_V1 beacons read from transaction sources, shared with the `beacons` CLI
+    this.beacons = new BeaconIndexer(dataDir);
+
     // Register built-in paid capabilities
     this.registerBuiltinCapabilities();
+    this.registerArbitrateCapability();
 
     // Register teach capabilities for completed courses
     this.registerTeachCapabilities();
@@ -123,13 +355,45 @@ export class JsonRpcServer {
         log(TAG, `  Invite:    POST ${base}/wallet/invite`);
         log(TAG, `  Announce:  POST ${base}/wallet/announce`);
         log(TAG, `  Call:      POST ${base}/call/:capability (402 flow)`);
+        log(TAG, `  Credits:   POST ${base}/credits/deposit (prepaid balance)`);
         log(TAG, `  Capabilities: ${this.capabilityRegistry.listNames().join(', ')}`);
+        if (this.receiptAnchorIntervalMs > 0) {
+          this.anchorTimer = setInterval(() => {
+            this.anchorReceipts().catch(err => logWarn(TAG, `Receipt anchoring failed: ${err instanceof Error ? err.message : String(err)}`));
+          }, this.receiptAnchorIntervalMs);
+          this.anchorTimer.unref();
+        }
+        if (this.capabilityIndexRefreshMs > 0) {
+          this.capabilityIndexTimer = setInterval(() => {
+            this.refreshCapabilityIndex().catch(err => logWarn(TAG, `Capability index refresh failed: ${err instanceof Error ? err.message : String(err)}`));
+          }, this.capabilityIndexRefreshMs);
+          this.capabilityIndexTimer.unref();
+        }
+        if (this.banListRefreshMs > 0) {
+          this.banListTimer = setInterval(() => {
+            this.refreshBanLists().catch(err => logWarn(TAG, `Ban list refresh failed: ${err instanceof Error ? err.message : String(err)}`));
+          }, this.banListRefreshMs);
+          this.banListTimer.unref();
+        }
         resolve();
       });
     });
   }
 
   async stop(): Promise<void> {
+    if (this.anchorTimer) {
+      clearInterval(this.anchorTimer);
+      this.anchorTimer = null;
+    }
+    if (this.capabilityIndexTimer) {
+      clearInterval(this.capabilityIndexTimer);
+      this.capabilityIndexTimer = null;
+    }
+    if (this.banListTimer) {
+      clearInterval(this.banListTimer);
+      this.banListTimer = null;
+    }
+    this.peerRegistry.flush();
     return new Promise((resolve, reject) => {
       if (!this.httpServer) {
         resolve();
@@ -155,8 +419,8 @@ export class JsonRpcServer {
 
   private authMiddleware(req: express.Request, res: express.Response, next: express.NextFunction): void {
     // Public endpoints — never require auth
-    const publicPaths = ['/health', '/discovery', '/api/status', '/wallet/invite', '/wallet/announce', '/wallet/submit-payment', '/scholarships', '/scholarships/dashboard', '/courses/metrics', '/donate', '/courses'];
-    if (publicPaths.includes(req.path) || req.path.startsWith('/call/') || req.path.startsWith('/static/') || req.path.startsWith('/donor/') || req.path.startsWith('/courses/')) {
+    const publicPaths = ['/health', '/discovery', '/discovery/query', '/discovery/callback', '/endpoint-proof', '/ban-list', '/peers', '/api/status', '/wallet/invite', '/wallet/announce', '/wallet/submit-payment', '/scholarships', '/scholarships/dashboard', '/courses/metrics', '/donate', '/courses'];
+    if (publicPaths.includes(req.path) || req.path.startsWith('/call/') || req.path.startsWith('/quote/') || req.path === '/batch' || req.path.startsWith('/credits/') || req.path.startsWith('/escrow/') || req.path.startsWith('/receipts/') || req.path.startsWith('/reputation/') || req.path.startsWith('/static/') || req.path.startsWith('/donor/') || req.path.startsWith('/courses/')) {
       return next();
     }
 
@@ -277,7 +541,7 @@ export class JsonRpcServer {
           uptime: Math.floor(process.uptime()),
           capabilities: this.capabilityRegistry.list().map(c => ({
             name: c.name, description: c.description, pricePerCall: c.pricePerCall,
-            callsServed: capStats[c.name] || 0
+            pricing: describePricing(c), callsServed: capStats[c.name] || 0
           })),
           reputation: {
             totalCallsServed,
@@ -296,6 +560,7 @@ export class JsonRpcServer {
             coursesAvailable: this.courseManager.courseCount
           },
           memory: this.onChainMemory.getStats(),
+          budgets: this.budgets.status(),
           jobs: {
             pending: pendingJobs,
             completed: completedJobs,
@@ -461,34 +726,44 @@ export class JsonRpcServer {
     // Discovery endpoint
     this.app.get('/discovery', (req: express.Request, res: express.Response) => {
       const config = this.walletManager.getConfig();
-      // Use publicEndpoint if set, otherwise derive from host:port.
-      // Never advertise 0.0.0.0 — it's unusable by peers.
-      const base = this.publicEndpoint
-        || (this.host === '0.0.0.0' ? `http://localhost:${this.port}` : `http://${this.host}:${this.port}`);
+      const base = this.advertisedBase();
       
       // Build reputation stats from call tracking
       const totalCallsServed = Array.from(this.callStats.values()).reduce((a, b) => a + b, 0);
       const capStats: Record<string, number> = {};
       for (const [cap, count] of this.callStats) capStats[cap] = count;
 
+      const paidCapabilities = this.capabilityRegistry.list().map(c => ({
+        name: c.name,
+        description: c.description,
+        pricePerCall: c.pricePerCall,
+        pricing: describePricing(c),
+        verifiable: Boolean(c.verifiable),
+        tags: c.tags || []
+      }));
+      // Weak ETag over what capability indexes keep, so their revalidation gets a 304
+      // until our offer changes (call counts and the timestamp don't count)
+      const offer = canonicalJson({ identityKey: config?.identityKey, capabilities: config?.capabilities || [], paidCapabilities, base, network: config?.chain });
+      res.set('ETag', `W/"${createHash('sha256').update(offer).digest('hex').substring(0, 32)}"`);
+
       res.json({
         protocol: 'clawsats-wallet/v1',
         clawId: `claw://${config?.identityKey?.substring(0, 16)}`,
         identityKey: config?.identityKey,
         capabilities: config?.capabilities || [],
-        paidCapabilities: this.capabilityRegistry.list().map(c => ({
-          name: c.name,
-          description: c.description,
-          pricePerCall: c.pricePerCall,
-          tags: c.tags || []
-        })),
+        paidCapabilities,
         endpoints: {
           jsonrpc: base,
           health: `${base}/health`,
           discovery: `${base}/discovery`,
           invite: `${base}/wallet/invite`,
           announce: `${base}/wallet/announce`,
-          call: `${base}/call/:capability`
+          call: `${base}/call/:capability`,
+          quote: `${base}/quote/:capability`,
+          batch: `${base}/batch`,
+          escrow: `${base}/escrow/propose`,
+          peers: `${base}/peers`,
+          discoveryQuery: `${base}/discovery/query`
         },
         reputation: {
           totalCallsServed,
@@ -510,6 +785,176 @@ export class JsonRpcServer {
       });
     });
 
+    // GET /endpoint-proof?nonce= → the challenger's nonce and our advertised endpoint,
+    // signed by our identity key: proof that whoever holds the key serves this URL
+    this.app.get('/endpoint-proof', async (req: express.Request, res: express.Response) => {
+      try {
+        if (!this.endpointProofRateLimiter.allow(req.ip || 'unknown')) {
+          res.status(429).json({ status: 'error', code: 'ERR_RATE_LIMITED', description: `At most ${ENDPOINT_PROOF_REQUESTS_PER_HOUR} endpoint proofs per hour.` });
+          return;
+        }
+        const identityKey = this.walletManager.getConfig()?.identityKey;
+        if (!identityKey) {
+          res.status(503).json({ status: 'error', code: 'ERR_WALLET_NOT_READY', description: 'Wallet not initialized.' });
+          return;
+        }
+        const nonce = req.query.nonce;
+        if (!isValidProofNonce(nonce)) {
+          res.status(400).json({ status: 'error', code: 'ERR_INVALID_NONCE', description: 'nonce must be 16-128 characters of [A-Za-z0-9_-].' });
+          return;
+        }
+        const proof = await signEndpointProof(this.walletManager.getWallet(), {
+          type: 'endpoint-proof',
+          identityKey,
+          endpoint: this.advertisedBase(),
+          nonce,
+          timestamp: new Date().toISOString()
+        });
+        res.json(proof);
+      } catch (error) {
+        logError(TAG, 'Endpoint proof failed:', error);
+        const msg = error instanceof Error ? error.message : String(error);
+        res.status(500).json({ error: msg });
+      }
+    });
+
+    // GET /ban-list → the identity keys and endpoints our operator blocked, signed so
+    // Claws that trust us can subscribe to them
+    this.app.get('/ban-list', async (req: express.Request, res: express.Response) => {
+      try {
+        if (!this.banListRateLimiter.allow(req.ip || 'unknown')) {
+          res.status(429).json({ status: 'error', code: 'ERR_RATE_LIMITED', description: `At most ${BAN_LIST_REQUESTS_PER_HOUR} ban list reads per hour.` });
+          return;
+        }
+        const publisher = this.walletManager.getConfig()?.identityKey;
+        if (!publisher) {
+          res.status(503).json({ status: 'error', code: 'ERR_WALLET_NOT_READY', description: 'Wallet not initialized.' });
+          return;
+        }
+        const list = await signBanList(this.walletManager.getWallet(), {
+          type: 'ban-list',
+          publisher,
+          entries: this.peerAccess.published(),
+          timestamp: new Date().toISOString()
+        });
+        res.json(list);
+      } catch (error) {
+        logError(TAG, 'Ban list failed:', error);
+        const msg = error instanceof Error ? error.message : String(error);
+        res.status(500).json({ error: msg });
+      }
+    });
+
+    // GET /peers?offset=&limit=&capability= → signed page of the peers we rate best.
+    // Only recently seen peers scored at least neutral with a verified endpoint, never blocked ones.
+    this.app.get('/peers', async (req: express.Request, res: express.Response) => {
+      try {
+        if (!this.peerExchangeRateLimiter.allow(req.ip || 'unknown')) {
+          res.status(429).json({ status: 'error', code: 'ERR_RATE_LIMITED', description: `At most ${PEER_EXCHANGE_REQUESTS_PER_HOUR} peer pages per hour.` });
+          return;
+        }
+        const publisher = this.walletManager.getConfig()?.identityKey;
+        if (!publisher) {
+          res.status(503).json({ status: 'error', code: 'ERR_WALLET_NOT_READY', description: 'Wallet not initialized.' });
+          return;
+        }
+        const offset = Math.max(0, Math.floor(Number(req.query.offset) || 0));
+        const limit = Math.min(PEER_EXCHANGE_PAGE_SIZE, Math.max(1, Math.floor(Number(req.query.limit) || PEER_EXCHANGE_PAGE_SIZE)));
+        const capability = typeof req.query.capability === 'string' && req.query.capability ? req.query.capability : undefined;
+        const seenSince = Date.now() - PEER_EXCHANGE_SHARE_SEEN_MS;
+        const access = this.peerAccessChecker();
+        const shared = this.peerRegistry.getAllPeers()
+          .filter(p => p.endpoint && this.isValidPeerEndpoint(p.endpoint)
+            && p.endpointStatus === 'verified'
+            && p.reputation >= PEER_EXCHANGE_MIN_REPUTATION
+            && access({ identityKey: p.identityKey, endpoint: p.endpoint }).allowed
+            && Date.parse(p.lastSeen) >= seenSince
+            && (!capability || p.capabilities.includes(capability)))
+          .sort((a, b) => b.reputation - a.reputation || a.identityKey.localeCompare(b.identityKey))
+          .slice(0, PEER_EXCHANGE_MAX_SHARED);
+        const page = await signPeerExchangePage(this.walletManager.getWallet(), {
+          publisher,
+          entries: shared.slice(offset, offset + limit).map(p => ({
+            identityKey: p.identityKey,
+            endpoint: p.endpoint,
+            capabilities: p.capabilities,
+            chain: p.chain,
+            lastSeen: p.lastSeen,
+            reputation: p.reputation
+          })),
+          offset,
+          total: shared.length,
+          nextOffset: offset + limit < shared.length ? offset + limit : null,
+          ...(capability ? { capability } : {}),
+          timestamp: new Date().toISOString()
+        });
+        res.json(page);
+      } catch (error) {
+        logError(TAG, 'Peer page failed:', error);
+        const msg = error instanceof Error ? error.message : String(error);
+        res.status(500).json({ error: msg });
+      }
+    });
+
+    // POST /discovery/query { query, route } → 202; the answer is POSTed to query.responseEndpoint
+    // if that is the requester's verified endpoint. Each query is answered once, and relayed to
+    // our best peers while its signed route is within hopLimit; without a valid route it stops here.
+    this.app.post('/discovery/query', async (req: express.Request, res: express.Response) => {
+      try {
+        if (!this.discoveryRateLimiter.allow(req.ip || 'unknown')) {
+          res.status(429).json({ status: 'error', code: 'ERR_RATE_LIMITED', description: `At most ${DISCOVERY_QUERIES_PER_HOUR} discovery messages per hour.` });
+          return;
+        }
+        if (!this.walletManager.getConfig()) {
+          res.status(503).json({ status: 'error', code: 'ERR_WALLET_NOT_READY', description: 'Wallet not initialized.' });
+          return;
+        }
+        const query: DiscoveryQuery = req.body?.query;
+        const problem = await checkDiscoveryQuery(query)
+          || (!this.isValidPeerEndpoint(query.responseEndpoint) ? 'responseEndpoint must be a public http(s) URL' : null);
+        if (problem) {
+          res.status(400).json({ status: 'error', code: 'ERR_INVALID_DISCOVERY_QUERY', description: problem });
+          return;
+        }
+        if (!this.discoveryQueryIds.check(query.queryId)) {
+          res.json({ accepted: false, queryId: query.queryId, reason: 'Already seen' });
+          return;
+        }
+        res.status(202).json({ accepted: true, queryId: query.queryId });
+        this.answerDiscoveryQuery(query, req.body?.route)
+          .catch(err => logWarn(TAG, `Discovery query ${query.queryId} failed: ${err instanceof Error ? err.message : String(err)}`));
+      } catch (error) {
+        logError(TAG, 'Discovery query failed:', error);
+        const msg = error instanceof Error ? error.message : String(error);
+        res.status(500).json({ error: msg });
+      }
+    });
+
+    // POST /discovery/callback DiscoveryResponse → merged into the result set of a query we sent
+    this.app.post('/discovery/callback', async (req: express.Request, res: express.Response) => {
+      try {
+        if (!this.discoveryRateLimiter.allow(req.ip || 'unknown')) {
+          res.status(429).json({ status: 'error', code: 'ERR_RATE_LIMITED', description: `At most ${DISCOVERY_QUERIES_PER_HOUR} discovery messages per hour.` });
+          return;
+        }
+        const response: DiscoveryResponse = req.body;
+        if (!this.discoveryTracker.get(response?.originalQueryId)) {
+          res.status(404).json({ status: 'error', code: 'ERR_UNKNOWN_DISCOVERY_QUERY', description: 'No discovery query of ours with that id.' });
+          return;
+        }
+        const problem = await this.discoveryTracker.accept(response);
+        if (problem) {
+          res.status(400).json({ status: 'error', code: 'ERR_INVALID_DISCOVERY_RESPONSE', description: problem });
+          return;
+        }
+        res.json({ accepted: true, results: this.discoveryTracker.get(response.originalQueryId)?.results.length ?? 0 });
+      } catch (error) {
+        logError(TAG, 'Discovery callback failed:', error);
+        const msg = error instanceof Error ? error.message : String(error);
+        res.status(500).json({ error: msg });
+      }
+    });
+
     // ── Invitation endpoint ─────────────────────────────────────────
     // Accepts an invitation from another Claw, validates it,
     // registers the sender as a peer, and responds with our announcement.
@@ -583,8 +1028,9 @@ export class JsonRpcServer {
           res.status(400).json({ error: 'Invalid sender endpoint URL' });
           return;
         }
+        if (this.rejectBlockedPeer(res, invitation.sender.identityKey, invitation.sender.endpoint)) return;
 
-        // Register sender as a known peer
+        // Register sender as a known peer — unverified until its endpoint proves it
         const peer: PeerRecord = {
           clawId: invitation.sender.clawId,
           identityKey: invitation.sender.identityKey,
@@ -592,9 +1038,10 @@ export class JsonRpcServer {
           capabilities: invitation.walletConfig.capabilities,
           chain: invitation.walletConfig.chain,
           lastSeen: new Date().toISOString(),
-          reputation: 50
+          reputation: REPUTATION_NEUTRAL_SCORE
         };
         this.peerRegistry.addPeer(peer);
+        this.challengePeerEndpoint(peer);
 
         // Respond with our capability announcement
         const announcement = await sharing.createAnnouncement({
@@ -677,6 +1124,7 @@ export class JsonRpcServer {
           res.status(400).json({ error: 'Invalid peer endpoint URL' });
           return;
         }
+        if (this.rejectBlockedPeer(res, announcement.identityKey, peerEndpoint)) return;
 
         const peer: PeerRecord = {
           clawId: announcement.clawId || `claw://${announcement.identityKey.substring(0, 16)}`,
@@ -685,9 +1133,10 @@ export class JsonRpcServer {
           capabilities: announcement.capabilities?.map((c: any) => c.name) || [],
           chain: announcement.networkInfo?.chain || 'test',
           lastSeen: new Date().toISOString(),
-          reputation: 40
+          reputation: REPUTATION_NEUTRAL_SCORE
         };
         this.peerRegistry.addPeer(peer);
+        this.challengePeerEndpoint(peer);
 
         // Track referral: if this announcement was relayed by broadcast_listing,
         // record who introduced this peer so they earn referral bounties
@@ -697,7 +1146,7 @@ export class JsonRpcServer {
         }
 
         log(TAG, `Received announcement from ${announcement.identityKey.substring(0, 12)}... (verified=${verified})`);
-        res.json({ registered: true, verified, peersKnown: this.peerRegistry.size() });
+        res.json({ registered: true, verified, endpointStatus: this.peerRegistry.getPeer(peer.identityKey)?.endpointStatus || 'pending', peersKnown: this.peerRegistry.size() });
       } catch (error) {
         logError(TAG, 'Announce handling failed:', error);
         const msg = error instanceof Error ? error.message : String(error);
@@ -718,7 +1167,7 @@ export class JsonRpcServer {
         }
 
         const senderIdentityKey = String(body.senderIdentityKey || '');
-        if (!/^(02|03)[0-9a-fA-F]{64}$/.test(senderIdentityKey)) {
+        if (!IDENTITY_KEY_RE.test(senderIdentityKey)) {
           res.status(400).json({ error: 'Invalid senderIdentityKey.' });
           return;
         }
@@ -784,85 +1233,59 @@ export class JsonRpcServer {
       }
     });
 
-    // ── 402 Capability call endpoint (BRC-105 compliant) ───────────
-    // POST /call/:capability
-    // First call (no x-bsv-payment header) → 402 with challenge headers
-    // Second call (with x-bsv-payment JSON header) → auto-accept via internalizeAction, execute capability
-    //
-    // Payment tx structure (built by paying Claw):
-    //   output 0: provider amount → BRC-29 derived from provider's identity key
-    //   output 1: FEE_SATS (2 sat) → BRC-29 derived from FEE_IDENTITY_KEY (treasury)
-    //
-    // The provider Claw auto-accepts output 0 via internalizeAction().
-    // The treasury wallet auto-accepts output 1 separately.
-    this.app.post('/call/:capability', async (req: express.Request, res: express.Response) => {
+    // ── Prepaid credit accounts ─────────────────────────────────────
+    // POST /credits/deposit uses the same 402 shape as /call: the first request
+    // (body { satoshis }) returns a challenge, the second carries x-bsv-payment.
+    // Output 0 is internalized and its value credited to x-bsv-identity-key.
+    this.app.post('/credits/deposit', async (req: express.Request, res: express.Response) => {
       try {
-        const capName = req.params.capability;
-        const cap = this.capabilityRegistry.get(capName);
-        if (!cap) {
-          res.status(404).json({ error: `Unknown capability: ${capName}` });
+        const depositorKey = String(req.headers['x-bsv-identity-key'] || '');
+        if (!IDENTITY_KEY_RE.test(depositorKey)) {
+          res.status(400).json({
+            status: 'error',
+            code: 'ERR_IDENTITY_REQUIRED',
+            description: 'Deposits require a valid x-bsv-identity-key header.'
+          });
           return;
         }
+        const headroom = CREDIT_MAX_BALANCE_SATS - this.creditLedger.getBalance(depositorKey);
 
-        // Check for BRC-105 payment header
         const bsvPaymentHeader = req.headers['x-bsv-payment'] as string;
-
         if (!bsvPaymentHeader) {
-          // FREE TRIAL: if caller provides identity key and hasn't used their free trial,
-          // execute one call for free. This solves the bootstrap problem — a Claw with
-          // 0 sats can prove the network works before needing to pay.
-          const trialCallerKey = req.headers['x-bsv-identity-key'] as string || '';
-          if (trialCallerKey && !this.freeTrialUsed.has(trialCallerKey)) {
-            this.freeTrialUsed.add(trialCallerKey);
-            // Cap free trial set to prevent memory abuse
-            if (this.freeTrialUsed.size > 50000) {
-              const first = this.freeTrialUsed.values().next().value;
-              if (first) this.freeTrialUsed.delete(first);
-            }
-            log(TAG, `Free trial for ${trialCallerKey.substring(0, 16)}... on ${capName}`);
-            try {
-              const wallet = this.walletManager.getWallet();
-              const result = await cap.handler(req.body, wallet);
-              res.json({
-                result,
-                satoshisPaid: 0,
-                freeTrial: true,
-                message: 'Free trial call — next call requires payment.',
-                nextCallPrice: cap.pricePerCall
-              });
-            } catch (handlerErr) {
-              const msg = handlerErr instanceof Error ? handlerErr.message : String(handlerErr);
-              res.status(500).json({ error: msg });
-            }
+          const requested = Math.floor(Number(req.body?.satoshis ?? CREDIT_MIN_DEPOSIT_SATS));
+          if (!Number.isFinite(requested) || requested < CREDIT_MIN_DEPOSIT_SATS) {
+            res.status(400).json({
+              status: 'error',
+              code: 'ERR_DEPOSIT_TOO_SMALL',
+              description: `Minimum deposit is ${CREDIT_MIN_DEPOSIT_SATS} sats.`
+            });
+            return;
+          }
+          if (requested > headroom) {
+            res.status(400).json({
+              status: 'error',
+              code: 'ERR_CREDIT_LIMIT',
+              description: `Deposit would exceed the ${CREDIT_MAX_BALANCE_SATS}-sat credit limit (room for ${Math.max(0, headroom)} sats).`
+            });
             return;
           }
 
-          // No payment and no free trial → return 402 with challenge headers (BRC-105 §5.2)
-          const challenge = this.walletManager.createPaymentChallenge(cap.pricePerCall);
-          const providerKey = this.walletManager.getConfig()?.identityKey || '';
+          const challenge = this.issuePaymentChallenge('credits/deposit', requested, depositorKey);
           res.status(402);
-          // Set the provider's identity key so the payer knows who to derive the output for.
-          // Without this, the client can't build a correct BRC-29 payment output.
-          res.setHeader('x-bsv-identity-key', providerKey);
+          res.setHeader('x-bsv-identity-key', this.walletManager.getConfig()?.identityKey || '');
           for (const [key, value] of Object.entries(challenge)) {
             res.setHeader(key, value);
           }
           res.json({
             status: 'error',
             code: 'ERR_PAYMENT_REQUIRED',
-            capability: capName,
-            satoshisRequired: cap.pricePerCall,
-            description: cap.description,
-            freeTrialAvailable: !trialCallerKey ? true : false,
-            freeTrialHint: !trialCallerKey ? 'Send x-bsv-identity-key header to get one free trial call' : undefined,
+            satoshisRequired: requested,
+            balance: this.creditLedger.getBalance(depositorKey),
             challenge
           });
           return;
         }
 
-        // Parse the x-bsv-payment JSON header (BRC-105 §6.3)
-        // Format: { derivationPrefix, derivationSuffix, transaction }
-        // transaction is AtomicBEEF encoded as base64
         let paymentData: { derivationPrefix: string; derivationSuffix: string; transaction: string };
         try {
           paymentData = JSON.parse(bsvPaymentHeader);
@@ -874,7 +1297,6 @@ export class JsonRpcServer {
           });
           return;
         }
-
         if (!paymentData.derivationPrefix || !paymentData.transaction) {
           res.status(400).json({
             status: 'error',
@@ -884,14 +1306,17 @@ export class JsonRpcServer {
           return;
         }
 
-        const senderIdentityKey = req.headers['x-bsv-identity-key'] as string || '';
-        log(TAG, `Payment received for ${capName} from ${senderIdentityKey.substring(0, 16) || 'unknown'}...`);
-
-        // PAYMENT REPLAY PROTECTION (Finding 2): hash the payment data to create a dedupe key.
-        // If we've seen this exact payment before, reject it.
-        const txHash = createHash('sha256').update(paymentData.transaction).digest('hex');
-        if (this.paymentDedupeCache.has(txHash)) {
-          logWarn(TAG, `Payment replay detected for ${capName}: ${txHash.substring(0, 16)}...`);
+        const txBytes = Array.from(Buffer.from(paymentData.transaction, 'base64'));
+        const txid = this.readPaymentTxid(txBytes);
+        if (!txid) {
+          res.status(400).json({
+            status: 'error',
+            code: 'ERR_MALFORMED_PAYMENT',
+            description: 'x-bsv-payment transaction is not valid AtomicBEEF, BEEF or raw tx.'
+          });
+          return;
+        }
+        if (this.replayLedger.has(txid, 0)) {
           res.status(402).json({
             status: 'error',
             code: 'ERR_PAYMENT_REPLAY',
@@ -900,13 +1325,43 @@ export class JsonRpcServer {
           return;
         }
 
-        // STRICT PAYMENT GATE: internalize output 0 (provider's payment) via BRC-105 §6.4.
-        // If internalizeAction fails, the payment is invalid — DO NOT execute the capability.
-        // This prevents attackers from sending garbage payments and getting free work.
+        const claim = this.challengeStore.claim(paymentData.derivationPrefix, {
+          capability: 'credits/deposit',
+          callerIdentityKey: depositorKey
+        });
+        if (!claim.valid) {
+          res.status(402).json({ status: 'error', code: claim.code, description: claim.reason });
+          return;
+        }
+        // Until something is internalized the caller may retry against the same challenge
+        const rejectUnpaid = (status: number, code: string, description: string) => {
+          this.challengeStore.release(paymentData.derivationPrefix);
+          res.status(status).json({ status: 'error', code, description });
+        };
+
+        // The credited amount comes from the transaction itself, never from the caller.
+        const depositSats = this.readOutputSatoshis(txBytes, 0);
+        if (depositSats === null || depositSats < claim.challenge.satoshis) {
+          rejectUnpaid(402, 'ERR_UNDERPAYMENT', `Deposit output 0 must carry at least ${claim.challenge.satoshis} sats.`);
+          return;
+        }
+        if (depositSats > headroom) {
+          rejectUnpaid(400, 'ERR_CREDIT_LIMIT', `Deposit would exceed the ${CREDIT_MAX_BALANCE_SATS}-sat credit limit.`);
+          return;
+        }
+        const feeCheck = findFeeOutput(txBytes, paymentData.derivationPrefix);
+        if (!feeCheck.found) {
+          rejectUnpaid(
+            402,
+            'ERR_MISSING_FEE',
+            `Payment must include a ${FEE_SATS}-sat fee output to the BRC-29 derived ClawSats treasury script (${feeCheck.reason}).`
+          );
+          return;
+        }
+
         const wallet = this.walletManager.getWallet();
-        const txBytes = Array.from(Buffer.from(paymentData.transaction, 'base64'));
         try {
-          const internResult = await wallet.internalizeAction({
+          await wallet.internalizeAction({
             tx: txBytes,
             outputs: [{
               outputIndex: 0,
@@ -914,935 +1369,4192 @@ export class JsonRpcServer {
               paymentRemittance: {
                 derivationPrefix: paymentData.derivationPrefix,
                 derivationSuffix: paymentData.derivationSuffix || 'clawsats',
-                senderIdentityKey
+                senderIdentityKey: depositorKey
               }
             }],
-            description: `ClawSats payment for ${capName} (${cap.pricePerCall} sats + ${FEE_SATS} sat fee)`
+            description: `ClawSats credit deposit (${depositSats} sats + ${FEE_SATS} sat fee)`
           });
-
-          // AMOUNT VERIFICATION (Finding 1): check that the internalized output
-          // actually covers the capability price. internalizeAction succeeds if the
-          // script matches, but doesn't enforce amount — we must check it ourselves.
-          if (internResult && typeof internResult.accepted === 'object') {
-            // If the wallet returns output details, verify amount
-            const acceptedSats = internResult.accepted?.satoshis;
-            if (typeof acceptedSats === 'number' && acceptedSats < cap.pricePerCall) {
-              logWarn(TAG, `Underpayment for ${capName}: got ${acceptedSats}, need ${cap.pricePerCall}`);
-              res.status(402).json({
-                status: 'error',
-                code: 'ERR_UNDERPAYMENT',
-                description: `Payment too low: received ${acceptedSats} sats, need ${cap.pricePerCall}.`
-              });
-              return;
-            }
-          }
-
-          // FEE VERIFICATION: The 2-sat protocol fee output MUST exist in the tx.
-          // We can't internalize it (we don't hold the fee key), but we CAN verify
-          // that the transaction contains an output with >= FEE_SATS that is NOT
-          // the provider's output (output 0). This prevents callers from skipping
-          // the fee while still paying the provider.
-          //
-          // The fee wallet holder does full BRC-29 derivation verification when
-          // sweeping. This check ensures the output at least exists and has value.
-          try {
-            // Parse minimal tx structure to count outputs and check satoshi values.
-            // AtomicBEEF format: the raw tx is embedded after the BEEF envelope header.
-            // For robustness, we check all outputs beyond index 0 for one with >= FEE_SATS.
-            const txBuf = Buffer.from(paymentData.transaction, 'base64');
-            const feeOutputFound = this.verifyFeeOutputExists(txBuf);
-            if (!feeOutputFound) {
-              logWarn(TAG, `Missing ${FEE_SATS}-sat fee output in payment for ${capName}`);
-              res.status(402).json({
-                status: 'error',
-                code: 'ERR_MISSING_FEE',
-                description: `Payment must include a ${FEE_SATS}-sat fee output to the ClawSats protocol. See x-clawsats-fee-identity-key header.`
-              });
-              return;
-            }
-          } catch (feeCheckErr) {
-            // If we can't parse the tx to check the fee, log but don't block.
-            // The internalization already succeeded, so the provider payment is valid.
-            // This is a defense-in-depth check, not the primary gate.
-            const msg = feeCheckErr instanceof Error ? feeCheckErr.message : String(feeCheckErr);
-            logWarn(TAG, `Fee output check failed (non-fatal): ${msg}`);
-          }
-
-          // Mark this payment as used AFTER successful internalization + fee check
-          this.paymentDedupeCache.add(txHash);
-          // Cap the dedupe cache size to prevent unbounded memory growth
-          if (this.paymentDedupeCache.size > 10000) {
-            const first = this.paymentDedupeCache.values().next().value;
-            if (first) this.paymentDedupeCache.delete(first);
-          }
-
-          log(TAG, `Auto-accepted payment for ${capName}: ${cap.pricePerCall} sats + ${FEE_SATS} sat fee verified`);
         } catch (internErr) {
-          // Payment verification FAILED — reject the request.
           const errMsg = internErr instanceof Error ? internErr.message : String(internErr);
-          logWarn(TAG, `Payment rejected for ${capName}: ${errMsg}`);
-          res.status(402).json({
-            status: 'error',
-            code: 'ERR_PAYMENT_INVALID',
-            description: `Payment could not be verified: ${errMsg}. Send a valid BRC-105 payment.`
-          });
+          logWarn(TAG, `Credit deposit rejected from ${depositorKey.substring(0, 16)}...: ${errMsg}`);
+          rejectUnpaid(402, 'ERR_PAYMENT_INVALID', `Payment could not be verified: ${errMsg}. Send a valid BRC-105 payment.`);
           return;
         }
+        this.replayLedger.record({
+          txid,
+          outputIndex: 0,
+          capability: 'credits/deposit',
+          derivationPrefix: paymentData.derivationPrefix,
+          callerIdentityKey: depositorKey,
+          satoshis: depositSats
+        });
 
-        const result = await cap.handler(req.body, wallet);
-
-        // Build signed receipt — cryptographic proof the work was done
-        const providerKey = this.walletManager.getConfig()?.identityKey || '';
-        const receiptId = `rcpt-${Date.now()}-${randomBytes(4).toString('hex')}`;
-        const resultHash = createHash('sha256')
-          .update(canonicalJson(result))
-          .digest('hex');
-        const receiptData = {
-          receiptId,
-          capability: capName,
-          provider: providerKey,
-          requester: senderIdentityKey,
-          satoshisPaid: cap.pricePerCall,
-          feeSats: FEE_SATS,
-          resultHash,
-          timestamp: new Date().toISOString()
-        };
-        let receiptSignature = '';
+        let entry;
         try {
-          const sigResult = await wallet.createSignature({
-            data: Array.from(Buffer.from(canonicalJson(receiptData), 'utf8')),
-            protocolID: [0, 'clawsats receipt'],
-            keyID: 'receipt-v1'
+          entry = this.creditLedger.deposit(depositorKey, depositSats, txid, 'BRC-29 deposit');
+        } catch (depositErr) {
+          // A concurrent deposit can use up the headroom while this one is being
+          // internalized; the sats are ours by now, so they go straight back.
+          const msg = depositErr instanceof Error ? depositErr.message : String(depositErr);
+          logWarn(TAG, `Credit deposit of ${depositSats} sats from ${depositorKey.substring(0, 16)}... not credited (${msg}) — refunding`);
+          let refund;
+          try {
+            refund = await this.sendBrc29Payout(depositorKey, depositSats, `ClawSats refund: uncredited deposit ${txid.substring(0, 16)}`, 'clawsats-refund');
+          } catch (refundErr) {
+            logError(TAG, `Refund of uncredited deposit ${txid} failed:`, refundErr);
+            res.status(500).json({
+              status: 'error',
+              code: 'ERR_REFUND_FAILED',
+              description: `${msg}. The deposit could not be credited or refunded — contact the provider with txid ${txid}.`,
+              txid
+            });
+            return;
+          }
+          res.status(400).json({
+            status: 'error',
+            code: 'ERR_CREDIT_LIMIT',
+            description: `${msg}. The deposit was refunded.`,
+            refund
           });
-          receiptSignature = Buffer.from(sigResult.signature).toString('base64');
-        } catch {
-          // Non-fatal — receipt is still useful unsigned
+          return;
         }
+        log(TAG, `Credit deposit: ${depositSats} sats from ${depositorKey.substring(0, 16)}... (balance ${entry.balanceAfter})`);
+        res.set({ 'x-bsv-payment-satoshis-paid': String(depositSats) });
+        res.json({
+          deposited: depositSats,
+          balance: entry.balanceAfter,
+          entryId: entry.id
+        });
+      } catch (error) {
+        logError(TAG, 'Credit deposit failed:', error);
+        const msg = error instanceof Error ? error.message : String(error);
+        res.status(500).json({ error: msg });
+      }
+    });
 
-        // Track call stats for reputation
-        this.callStats.set(capName, (this.callStats.get(capName) || 0) + 1);
-        if (senderIdentityKey) this.uniqueCallers.add(senderIdentityKey);
-
-        // Track the caller as a peer if they provided identity
-        if (senderIdentityKey) {
-          this.peerRegistry.addPeer({
-            clawId: `claw://${senderIdentityKey.substring(0, 16)}`,
-            identityKey: senderIdentityKey,
-            endpoint: '', // unknown
-            capabilities: [],
-            chain: this.walletManager.getConfig()?.chain || 'main',
-            lastSeen: new Date().toISOString(),
-            reputation: 40
-          });
-          // Track referral: who introduced this caller?
-          this.trackReferral(senderIdentityKey, capName, cap.pricePerCall);
+    // GET /credits/balance — requires a signed x-clawsats-credit header (action "balance")
+    this.app.get('/credits/balance', async (req: express.Request, res: express.Response) => {
+      try {
+        const check = await this.verifyCreditAuthorization(req.headers['x-clawsats-credit'] as string, 'balance');
+        if (!check.ok) {
+          res.status(check.status).json({ status: 'error', code: check.code, description: check.description });
+          return;
         }
-
-        res.set({ 'x-bsv-payment-satoshis-paid': String(cap.pricePerCall) });
+        const identityKey = check.auth.identityKey;
         res.json({
-          result,
-          satoshisPaid: cap.pricePerCall,
-          receipt: { ...receiptData, signature: receiptSignature }
+          identityKey,
+          balance: this.creditLedger.getBalance(identityKey),
+          account: this.creditLedger.getAccount(identityKey),
+          recent: this.creditLedger.listEntries(identityKey, 10)
         });
       } catch (error) {
-        logError(TAG, 'Capability call failed:', error);
         const msg = error instanceof Error ? error.message : String(error);
         res.status(500).json({ error: msg });
       }
     });
-  }
 
-  private registerMethods(): void {
-    // Helper: callers may send { args: {...}, originator } or flat params.
-    // Accept both for human and AI ergonomics.
-    const unwrap = (params: any): { args: any; originator?: string } => {
-      if (params && typeof params === 'object' && 'args' in params) {
-        return { args: params.args, originator: params.originator };
-      }
-      return { args: params };
-    };
+    // POST /credits/withdraw — signed header (action "withdraw", optional satoshis;
+    // omitted = full balance). Pays the caller back through a BRC-29 output they
+    // can internalize with the returned derivation prefix/suffix.
+    this.app.post('/credits/withdraw', async (req: express.Request, res: express.Response) => {
+      try {
+        const check = await this.verifyCreditAuthorization(req.headers['x-clawsats-credit'] as string, 'withdraw');
+        if (!check.ok) {
+          res.status(check.status).json({ status: 'error', code: check.code, description: check.description });
+          return;
+        }
+        const identityKey = check.auth.identityKey;
+        const amount = typeof check.auth.satoshis === 'number'
+          ? check.auth.satoshis
+          : this.creditLedger.getBalance(identityKey);
+        if (amount <= 0) {
+          res.status(400).json({
+            status: 'error',
+            code: 'ERR_NOTHING_TO_WITHDRAW',
+            description: 'No credit balance to withdraw.'
+          });
+          return;
+        }
 
-    // BRC-100 wallet methods
-    this.rpcServer.addMethod('createAction', async (params: any) => {
-      const { args, originator } = unwrap(params);
-      const wallet = this.walletManager.getWallet();
-      return wallet.createAction(args, originator);
-    });
+        let entry;
+        try {
+          entry = this.creditLedger.withdraw(identityKey, amount, undefined, 'BRC-29 withdrawal');
+        } catch (debitErr) {
+          const msg = debitErr instanceof Error ? debitErr.message : String(debitErr);
+          res.status(402).json({ status: 'error', code: 'ERR_INSUFFICIENT_CREDIT', description: msg });
+          return;
+        }
 
-    this.rpcServer.addMethod('internalizeAction', async (params: any) => {
-      const { args, originator } = unwrap(params);
-      const wallet = this.walletManager.getWallet();
-      return wallet.internalizeAction(args, originator);
+        try {
+          const payout = await this.sendBrc29Payout(
+            identityKey, amount, `ClawSats credit withdrawal: ${amount} sats`, 'clawsats-credit-withdraw'
+          );
+          log(TAG, `Credit withdrawal: ${amount} sats to ${identityKey.substring(0, 16)}...`);
+          res.json({ withdrawn: amount, balance: entry.balanceAfter, ...payout });
+        } catch (txErr) {
+          this.creditLedger.reverse(identityKey, amount, 'withdraw', entry.id, 'Withdrawal transaction failed');
+          throw txErr;
+        }
+      } catch (error) {
+        logError(TAG, 'Credit withdrawal failed:', error);
+        const msg = error instanceof Error ? error.message : String(error);
+        res.status(500).json({ error: msg });
+      }
     });
 
-    this.rpcServer.addMethod('listOutputs', async (params: any) => {
-      const { args, originator } = unwrap(params);
-      const wallet = this.walletManager.getWallet();
+    // ── Signed price quotes ────────────────────────────────────────
+    // POST /quote/:capability  (body = the call params, ?ttlSeconds= optional)
+    // Returns a provider-signed quote and reserves its derivation prefix as a
+    // challenge. Paying to that prefix before expiry buys the call at the
+    // quoted price even if list prices change in between.
+    this.app.post('/quote/:capability', async (req: express.Request, res: express.Response) => {
+      try {
+        const capName = req.params.capability;
+        const cap = this.capabilityRegistry.get(capName);
+        if (!cap) {
+          res.status(404).json({ error: `Unknown capability: ${capName}` });
+          return;
+        }
+        let priced: PriceQuote;
+        try {
+          priced = quoteCapability(cap, req.body);
+        } catch (quoteErr) {
+          res.status(400).json({
+            status: 'error',
+            code: 'ERR_INVALID_PARAMS',
+            description: quoteErr instanceof Error ? quoteErr.message : String(quoteErr)
+          });
+          return;
+        }
+        const ttlSeconds = Number(req.query.ttlSeconds);
+        const ttlMs = Number.isFinite(ttlSeconds) && ttlSeconds > 0
+          ? Math.min(Math.floor(ttlSeconds * 1000), QUOTE_MAX_TTL_MS)
+          : QUOTE_TTL_MS;
+        const callerKey = req.headers['x-bsv-identity-key'] as string || '';
+        const quote = await this.issueSignedQuote(capName, priced, hashParams(req.body), callerKey, ttlMs);
+        res.setHeader('x-bsv-identity-key', quote.provider);
+        res.json({ quote, pricing: describePricing(cap) });
+      } catch (error) {
+        logError(TAG, 'Quote failed:', error);
+        const msg = error instanceof Error ? error.message : String(error);
+        res.status(500).json({ error: msg });
+      }
+    });
+
+    // ── 402 Capability call endpoint (BRC-105 compliant) ───────────
+    // POST /call/:capability
+    // First call (no x-bsv-payment header) → 402 with challenge headers
+    // Second call (with x-bsv-payment JSON header) → auto-accept via internalizeAction, execute capability
+    //
+    // Payment tx structure (built by paying Claw):
+    //   output 0: provider amount → BRC-29 derived from provider's identity key
+    //   output 1: FEE_SATS (2 sat) → BRC-29 derived from FEE_IDENTITY_KEY (treasury)
+    //
+    // The provider Claw auto-accepts output 0 via internalizeAction().
+    // The treasury wallet auto-accepts output 1 separately.
+    this.app.post('/call/:capability', async (req: express.Request, res: express.Response) => {
+      try {
+        const capName = req.params.capability;
+        const cap = this.capabilityRegistry.get(capName);
+        if (!cap) {
+          res.status(404).json({ error: `Unknown capability: ${capName}` });
+          return;
+        }
+
+        // METERED PRICING: the price is quoted from the request params (flat
+        // capabilities always quote pricePerCall). Params past the capability's
+        // maximum are rejected before any payment changes hands.
+        let quote: PriceQuote;
+        try {
+          quote = quoteCapability(cap, req.body);
+        } catch (quoteErr) {
+          res.status(400).json({
+            status: 'error',
+            code: 'ERR_INVALID_PARAMS',
+            description: quoteErr instanceof Error ? quoteErr.message : String(quoteErr)
+          });
+          return;
+        }
+
+        if (this.rejectBlockedPeer(res, req.headers['x-bsv-identity-key'] as string || '')) return;
+
+        // Check for BRC-105 payment header
+        const bsvPaymentHeader = req.headers['x-bsv-payment'] as string;
+
+        // PREPAID CREDIT: a signed x-clawsats-credit header (and no x-bsv-payment)
+        // draws the price from the caller's deposited balance — no per-call tx.
+        const creditHeader = req.headers['x-clawsats-credit'] as string;
+        if (!bsvPaymentHeader && creditHeader) {
+          await this.handleCreditCall(req, res, capName, cap, quote, creditHeader);
+          return;
+        }
+
+        if (!bsvPaymentHeader) {
+          // FREE TRIAL: if caller provides identity key and hasn't used their free trial,
+          // execute one call for free. This solves the bootstrap problem — a Claw with
+          // 0 sats can prove the network works before needing to pay.
+          const trialCallerKey = req.headers['x-bsv-identity-key'] as string || '';
+          if (trialCallerKey && !this.freeTrialUsed.has(trialCallerKey)) {
+            this.freeTrialUsed.add(trialCallerKey);
+            // Cap free trial set to prevent memory abuse
+            if (this.freeTrialUsed.size > 50000) {
+              const first = this.freeTrialUsed.values().next().value;
+              if (first) this.freeTrialUsed.delete(first);
+            }
+            log(TAG, `Free trial for ${trialCallerKey.substring(0, 16)}... on ${capName}`);
+            try {
+              const wallet = this.walletManager.getWallet();
+              const result = await cap.handler(req.body, wallet);
+              res.json({
+                result,
+                satoshisPaid: 0,
+                freeTrial: true,
+                message: 'Free trial call — next call requires payment.',
+                nextCallPrice: quote.satoshis
+              });
+            } catch (handlerErr) {
+              const msg = handlerErr instanceof Error ? handlerErr.message : String(handlerErr);
+              res.status(500).json({ error: msg });
+            }
+            return;
+          }
+
+          // PAY ON RESULT: a verifiable capability can be sold hash-locked — the
+          // result is computed now and the payment is only claimable by revealing
+          // it. Other capabilities fall through to the standard challenge.
+          const paymentMode = String(req.headers['x-clawsats-payment-mode'] || '').toLowerCase();
+          if (paymentMode === 'hashlock' && cap.verifiable) {
+            if (await this.issueHashlockChallenge(req, res, capName, cap, quote)) return;
+          }
+
+          // No payment and no free trial → return 402 with challenge headers (BRC-105 §5.2)
+          const challenge = this.issuePaymentChallenge(capName, quote.satoshis, trialCallerKey);
+          const providerKey = this.walletManager.getConfig()?.identityKey || '';
+          res.status(402);
+          // Set the provider's identity key so the payer knows who to derive the output for.
+          // Without this, the client can't build a correct BRC-29 payment output.
+          res.setHeader('x-bsv-identity-key', providerKey);
+          for (const [key, value] of Object.entries(challenge)) {
+            res.setHeader(key, value);
+          }
+          res.json({
+            status: 'error',
+            code: 'ERR_PAYMENT_REQUIRED',
+            capability: capName,
+            satoshisRequired: quote.satoshis,
+            description: cap.description,
+            pricing: describePricing(cap),
+            quote,
+            freeTrialAvailable: !trialCallerKey ? true : false,
+            freeTrialHint: !trialCallerKey ? 'Send x-bsv-identity-key header to get one free trial call' : undefined,
+            challenge
+          });
+          return;
+        }
+
+        const payment = await this.acceptPayment(req, res, capName, bsvPaymentHeader, quote);
+        if (!payment) return;
+        const { price, txid, senderIdentityKey } = payment;
+        const wallet = this.walletManager.getWallet();
+
+        // Hash-locked payments were claimed by revealing the committed result —
+        // release that exact result rather than running the capability again.
+        if (payment.hashlock) {
+          const { result: committed, commitment, claimTxid, claimTransaction } = payment.hashlock;
+          const receipt = await this.buildSignedReceipt(capName, senderIdentityKey, price, FEE_SATS, committed, { success: true, txid });
+          this.recordPaidCall(capName, senderIdentityKey, price, 'capability', txid);
+          res.set({ 'x-bsv-payment-satoshis-paid': String(price) });
+          res.json({
+            result: committed,
+            satoshisPaid: price,
+            hashlock: { commitment, claimTxid, claimTransaction },
+            receipt
+          });
+          return;
+        }
+
+        let result: unknown;
+        try {
+          result = await cap.handler(req.body, wallet);
+        } catch (handlerErr) {
+          // The payment is already internalized — never just swallow the sats.
+          await this.handlePaidCallFailure(res, capName, senderIdentityKey, price, txid, handlerErr);
+          return;
+        }
+
+        // Metered calls are paid at the quote; whatever wasn't consumed comes back
+        // as a credit note the caller can spend on their next call.
+        const usage = this.meterUsage(cap, { ...quote, satoshis: price }, result, req.body);
+        if (usage && usage.unusedSats > 0 && senderIdentityKey) {
+          try {
+            const note = this.creditLedger.issueCreditNote(senderIdentityKey, usage.unusedSats, txid, `Unused ${capName} quote`);
+            usage.creditedSats = usage.unusedSats;
+            usage.creditEntryId = note.id;
+          } catch (creditErr) {
+            const msg = creditErr instanceof Error ? creditErr.message : String(creditErr);
+            logWarn(TAG, `Unused ${capName} quote not credited back (${msg})`);
+          }
+        }
+        const earned = price - (usage?.creditedSats || 0);
+
+        // Signed receipt — cryptographic proof the work was done
+        const receipt = await this.buildSignedReceipt(capName, senderIdentityKey, price, FEE_SATS, result, { success: true, usage: usage || undefined, txid });
+        this.recordPaidCall(capName, senderIdentityKey, earned, 'capability', txid);
+
+        res.set({ 'x-bsv-payment-satoshis-paid': String(price) });
+        res.json({
+          result,
+          satoshisPaid: price,
+          usage: usage || undefined,
+          receipt
+        });
+      } catch (error) {
+        logError(TAG, 'Capability call failed:', error);
+        const msg = error instanceof Error ? error.message : String(error);
+        res.status(500).json({ error: msg });
+      }
+    });
+
+    // ── Batch calls ────────────────────────────────────────────────
+    // POST /batch  { calls: [{ capability, params }] }
+    // One 402 challenge (or one credit debit) for the summed quotes. Items run
+    // concurrently when their capability is parallelSafe, the rest in order.
+    // Failed items and unused metered units are returned to the caller, and one
+    // signed receipt lists every item's result hash.
+    this.app.post('/batch', async (req: express.Request, res: express.Response) => {
+      try {
+        const parsed = this.parseBatchRequest(req.body);
+        if ('error' in parsed) {
+          res.status(400).json({ status: 'error', code: parsed.code, description: parsed.error });
+          return;
+        }
+        const items = parsed.items;
+        const total = items.reduce((sum, item) => sum + item.quote.satoshis, 0);
+        if (this.rejectBlockedPeer(res, req.headers['x-bsv-identity-key'] as string || '')) return;
+        const bsvPaymentHeader = req.headers['x-bsv-payment'] as string;
+        const creditHeader = req.headers['x-clawsats-credit'] as string;
+
+        let callerKey: string;
+        let price: number;
+        let paymentRef: string;
+        let paidWith: 'payment' | 'credit';
+        if (!bsvPaymentHeader && creditHeader) {
+          const check = await this.verifyCreditAuthorization(creditHeader, 'call', { capability: 'batch', paramsHash: hashParams(req.body) });
+          if (!check.ok) {
+            res.status(check.status).json({ status: 'error', code: check.code, description: check.description });
+            return;
+          }
+          callerKey = check.auth.identityKey;
+          if (this.rejectBlockedPeer(res, callerKey)) return;
+          try {
+            paymentRef = this.creditLedger.debit(callerKey, total, 'batch', `Batch: ${items.length} calls`).id;
+          } catch {
+            res.status(402).json({
+              status: 'error',
+              code: 'ERR_INSUFFICIENT_CREDIT',
+              description: `Credit balance ${this.creditLedger.getBalance(callerKey)} sats is below the ${total}-sat batch price. Deposit via POST /credits/deposit.`,
+              satoshisRequired: total,
+              balance: this.creditLedger.getBalance(callerKey)
+            });
+            return;
+          }
+          price = total;
+          paidWith = 'credit';
+        } else if (!bsvPaymentHeader) {
+          // The challenge is bound to this exact list of calls
+          const requesterKey = req.headers['x-bsv-identity-key'] as string || '';
+          const challenge = this.issuePaymentChallenge('batch', total, requesterKey, hashParams(req.body));
+          res.status(402);
+          res.setHeader('x-bsv-identity-key', this.walletManager.getConfig()?.identityKey || '');
+          for (const [key, value] of Object.entries(challenge)) {
+            res.setHeader(key, value);
+          }
+          res.json({
+            status: 'error',
+            code: 'ERR_PAYMENT_REQUIRED',
+            capability: 'batch',
+            satoshisRequired: total,
+            items: items.map(item => ({ index: item.index, capability: item.capability, quote: item.quote })),
+            challenge
+          });
+          return;
+        } else {
+          const payment = await this.acceptPayment(req, res, 'batch', bsvPaymentHeader, { satoshis: total });
+          if (!payment) return;
+          callerKey = payment.senderIdentityKey;
+          price = payment.price;
+          paymentRef = payment.txid;
+          paidWith = 'payment';
+        }
+
+        const outcomes = await this.runBatch(items);
+
+        // Everything not earned goes back: failed items, unused metered units,
+        // and any drop in list price since the challenge was issued.
+        const earned = outcomes.reduce((sum, o) => sum + o.satoshis, 0);
+        const returned = Math.max(0, price - earned);
+        let remedy: Record<string, unknown> | undefined;
+        let refund: Record<string, unknown> | undefined;
+        if (returned > 0 && paidWith === 'credit') {
+          const reversal = this.creditLedger.reverse(callerKey, returned, 'debit', 'batch', 'Unused batch price');
+          remedy = { type: 'reversal', satoshis: returned, creditEntryId: reversal.id, creditBalance: reversal.balanceAfter };
+        } else if (returned > 0) {
+          const made = await this.makeCallerWhole('batch', callerKey, returned, paymentRef, 'Unused batch price');
+          remedy = made.remedy;
+          refund = made.refundPayload;
+        }
+
+        for (const outcome of outcomes) {
+          if (outcome.success) {
+            this.recordPaidCall(outcome.capability, callerKey, outcome.satoshis, paidWith === 'credit' ? 'credit_call' : 'capability', paymentRef);
+          }
+        }
+        const failed = outcomes.filter(o => !o.success).length;
+        const receiptItems = outcomes.map(o => ({
+          index: o.index,
+          capability: o.capability,
+          satoshis: o.satoshis,
+          success: o.success,
+          resultHash: o.resultHash
+        }));
+        const receipt = await this.buildSignedReceipt(
+          'batch', callerKey, price, paidWith === 'credit' ? 0 : FEE_SATS, receiptItems,
+          {
+            success: failed === 0,
+            remedy,
+            items: receiptItems,
+            ...(paidWith === 'credit' ? { reference: paymentRef } : { txid: paymentRef })
+          }
+        );
+        log(TAG, `Batch of ${items.length} by ${callerKey.substring(0, 16) || 'unknown'}... (${earned}/${price} sats earned, ${failed} failed)`);
+
+        res.status(failed === outcomes.length ? 500 : 200);
+        res.set({ 'x-bsv-payment-satoshis-paid': String(price) });
+        res.json({
+          results: outcomes.map(({ index, capability, success, result, error, satoshis, usage, resultHash }) =>
+            ({ index, capability, success, result, error, satoshis, usage, resultHash })),
+          satoshisPaid: price,
+          satoshisCharged: earned,
+          paidWith,
+          remedy,
+          refund,
+          receipt
+        });
+      } catch (error) {
+        logError(TAG, 'Batch call failed:', error);
+        const msg = error instanceof Error ? error.message : String(error);
+        res.status(500).json({ error: msg });
+      }
+    });
+
+    // ── Receipt countersignatures ──────────────────────────────────
+    // POST /receipts/ack  { receipt }
+    // The requester returns one of our receipts with its requesterSignature
+    // over it. The two-party copy replaces ours in the receipt store: it proves
+    // the requester accepted the result, which a receipt we signed alone cannot.
+    this.app.post('/receipts/ack', async (req: express.Request, res: express.Response) => {
+      try {
+        const receipt: CallReceipt = req.body?.receipt;
+        const issued = receipt?.receiptId ? this.receipts.get(receipt.receiptId) : null;
+        if (!issued || issued.role !== 'issued' || receipt.provider !== this.walletManager.getConfig()?.identityKey) {
+          res.status(400).json({ status: 'error', code: 'ERR_RECEIPT_UNKNOWN', description: 'receipt must be one issued by this Claw.' });
+          return;
+        }
+        if (receipt.signature !== issued.receipt.signature || !(await verifyReceiptSignature(receipt))) {
+          res.status(400).json({ status: 'error', code: 'ERR_RECEIPT_SIGNATURE', description: 'The provider signature on this receipt is not ours.' });
+          return;
+        }
+        if (!(await verifyRequesterSignature(receipt))) {
+          res.status(400).json({
+            status: 'error',
+            code: 'ERR_COUNTERSIGNATURE_INVALID',
+            description: 'requesterSignature does not verify against the receipt\'s requester key.'
+          });
+          return;
+        }
+        this.receipts.record({ role: 'issued', receipt });
+        log(TAG, `Receipt ${receipt.receiptId} countersigned by ${receipt.requester.substring(0, 16)}...`);
+        res.json({ acknowledged: true, receiptId: receipt.receiptId });
+      } catch (error) {
+        logError(TAG, 'Receipt ack failed:', error);
+        const msg = error instanceof Error ? error.message : String(error);
+        res.status(500).json({ error: msg });
+      }
+    });
+
+    // GET /receipts/:id/anchor → inclusion proof for a receipt we issued, once anchored
+    this.app.get('/receipts/:receiptId/anchor', (req: express.Request, res: express.Response) => {
+      const record = this.receipts.get(req.params.receiptId);
+      if (!record || record.role !== 'issued') {
+        res.status(404).json({ status: 'error', code: 'ERR_RECEIPT_UNKNOWN', description: 'No receipt with that id was issued here.' });
+        return;
+      }
+      if (!record.anchor) {
+        res.status(404).json({ status: 'error', code: 'ERR_RECEIPT_NOT_ANCHORED', description: 'This receipt has not been anchored yet.' });
+        return;
+      }
+      res.json({ receiptId: record.receiptId, leaf: receiptLeafHash(record.receipt), anchor: record.anchor });
+    });
+
+    // ── Reputation attestations ────────────────────────────────────
+    // GET  /reputation/attestations?subject=&attester=&since=&limit= → attestations we hold, newest first
+    // POST /reputation/attestations  { attestations: [...] }         → peers push theirs; each is checked
+    // Attestations carry their own proof (the receipt and two signatures), so
+    // both ends are public: anyone may read ours and offer theirs.
+    this.app.get('/reputation/attestations', (req: express.Request, res: express.Response) => {
+      const limit = Math.min(500, Math.max(1, Number(req.query.limit) || 100));
+      const attestations = this.attestations.list({
+        subject: typeof req.query.subject === 'string' ? req.query.subject : undefined,
+        attester: typeof req.query.attester === 'string' ? req.query.attester : undefined,
+        since: typeof req.query.since === 'string' ? req.query.since : undefined,
+        limit
+      });
+      res.json({ attestations, count: attestations.length });
+    });
+
+    this.app.post('/reputation/attestations', async (req: express.Request, res: express.Response) => {
+      try {
+        if (!this.attestationRateLimiter.allow(req.ip || 'unknown')) {
+          res.status(429).json({ status: 'error', code: 'ERR_RATE_LIMITED', description: `At most ${ATTESTATION_PUSHES_PER_HOUR} attestation pushes per hour.` });
+          return;
+        }
+        const attestations: unknown = req.body?.attestations;
+        if (!Array.isArray(attestations) || attestations.length === 0 || attestations.length > ATTESTATION_MAX_PER_REQUEST) {
+          res.status(400).json({
+            status: 'error',
+            code: 'ERR_INVALID_ATTESTATIONS',
+            description: `attestations must be an array of 1 to ${ATTESTATION_MAX_PER_REQUEST} attestations.`
+          });
+          return;
+        }
+        const { accepted, rejected } = await this.collectAttestations(attestations, 'push');
+        res.json({ accepted, rejected });
+      } catch (error) {
+        logError(TAG, 'Attestation push failed:', error);
+        const msg = error instanceof Error ? error.message : String(error);
+        res.status(500).json({ error: msg });
+      }
+    });
+
+    // ── Fraud reports ──────────────────────────────────────────────
+    // GET  /reputation/fraud-reports?accused=&limit= → reports this Claw filed and stands by
+    // POST /reputation/fraud-reports  { reports: [...] } → peers gossip theirs; each is checked
+    // and kept as 'open' until the operator confirms or dismisses it.
+    this.app.get('/reputation/fraud-reports', (req: express.Request, res: express.Response) => {
+      const limit = Math.min(500, Math.max(1, Number(req.query.limit) || 100));
+      const reports = this.fraudReports.list({
+        reporter: this.walletManager.getConfig()?.identityKey || '',
+        accused: typeof req.query.accused === 'string' ? req.query.accused : undefined,
+        status: 'confirmed'
+      }).slice(0, limit).map(r => r.report);
+      res.json({ reports, count: reports.length });
+    });
+
+    this.app.post('/reputation/fraud-reports', async (req: express.Request, res: express.Response) => {
+      try {
+        if (!this.fraudReportRateLimiter.allow(req.ip || 'unknown')) {
+          res.status(429).json({ status: 'error', code: 'ERR_RATE_LIMITED', description: `At most ${FRAUD_REPORT_PUSHES_PER_HOUR} fraud report pushes per hour.` });
+          return;
+        }
+        const reports: unknown = req.body?.reports;
+        if (!Array.isArray(reports) || reports.length === 0 || reports.length > FRAUD_REPORT_MAX_PER_REQUEST) {
+          res.status(400).json({
+            status: 'error',
+            code: 'ERR_INVALID_FRAUD_REPORTS',
+            description: `reports must be an array of 1 to ${FRAUD_REPORT_MAX_PER_REQUEST} fraud reports.`
+          });
+          return;
+        }
+        let accepted = 0;
+        const rejected: Array<{ index: number; problem: string }> = [];
+        for (let index = 0; index < reports.length; index++) {
+          const report = reports[index] as FraudReport;
+          const problem = await checkFraudReport(report);
+          if (problem) {
+            rejected.push({ index, problem });
+          } else if (this.fraudReports.add(report, 'open', 'push')) {
+            accepted++;
+            log(TAG, `Fraud report ${report.reportId} against ${report.accused.substring(0, 16)}... received for review`);
+          }
+        }
+        res.json({ accepted, rejected });
+      } catch (error) {
+        logError(TAG, 'Fraud report push failed:', error);
+        const msg = error instanceof Error ? error.message : String(error);
+        res.status(500).json({ error: msg });
+      }
+    });
+
+    // ── Arbiter escrow (provider side) ─────────────────────────────
+    // POST /escrow/propose        { terms, params } → provider accepts the terms
+    // POST /escrow/:id/fund       { transaction }   → escrow output verified, job runs, signed delivery back
+    // POST /escrow/:id/release    { signature }     → requester's release signature; provider settles
+    // GET  /escrow/:id                              → public state (and the ruling, on an arbiter)
+    // GET  /escrow/:id/evidence                     → provider's signed delivery + result, for the arbiter only
+    this.app.post('/escrow/propose', async (req: express.Request, res: express.Response) => {
+      try {
+        const terms: EscrowTerms = req.body?.terms;
+        const params = req.body?.params && typeof req.body.params === 'object' ? req.body.params : {};
+        const problem = this.checkEscrowProposal(terms, params);
+        if (problem) {
+          res.status(problem.status).json({ status: 'error', code: problem.code, description: problem.description });
+          return;
+        }
+        if (this.escrows.get(terms.escrowId)) {
+          res.status(409).json({
+            status: 'error',
+            code: 'ERR_ESCROW_EXISTS',
+            description: `Escrow ${terms.escrowId} has already been proposed.`
+          });
+          return;
+        }
+        this.escrows.create({ terms, role: 'provider', status: 'proposed', params, note: 'terms accepted' });
+        log(TAG, `Escrow ${terms.escrowId} proposed: ${terms.capability} for ${terms.satoshis} sats, arbiter ${terms.arbiter.substring(0, 16)}...`);
+        res.json({ accepted: true, escrowId: terms.escrowId, lockingScript: buildEscrowLockingScript(terms) });
+      } catch (error) {
+        logError(TAG, 'Escrow proposal failed:', error);
+        const msg = error instanceof Error ? error.message : String(error);
+        res.status(500).json({ error: msg });
+      }
+    });
+
+    this.app.post('/escrow/:escrowId/fund', async (req: express.Request, res: express.Response) => {
+      try {
+        const record = this.escrows.get(req.params.escrowId);
+        if (!record || record.role !== 'provider') {
+          res.status(404).json({ status: 'error', code: 'ERR_ESCROW_UNKNOWN', description: 'No escrow with that id was proposed here.' });
+          return;
+        }
+        if (record.status !== 'proposed') {
+          res.status(409).json({ status: 'error', code: 'ERR_ESCROW_STATE', description: `Escrow is ${record.status}, not awaiting funding.` });
+          return;
+        }
+        const { terms } = record;
+        const transaction = typeof req.body?.transaction === 'string' ? req.body.transaction : '';
+        const txBytes = Array.from(Buffer.from(transaction, 'base64'));
+        let fundingTx: Transaction;
+        try {
+          fundingTx = parsePaymentTransaction(txBytes);
+        } catch {
+          res.status(400).json({ status: 'error', code: 'ERR_MALFORMED_PAYMENT', description: 'transaction must be base64 BEEF or AtomicBEEF.' });
+          return;
+        }
+        const txid = fundingTx.id('hex');
+        const outputIndex = findEscrowOutput(fundingTx, terms);
+        if (outputIndex < 0) {
+          res.status(402).json({
+            status: 'error',
+            code: 'ERR_ESCROW_UNFUNDED',
+            description: `No output locks ${terms.satoshis} sats to the 2-of-3 escrow script for these terms.`
+          });
+          return;
+        }
+        if (this.replayLedger.has(txid, outputIndex)) {
+          res.status(402).json({ status: 'error', code: 'ERR_PAYMENT_REPLAY', description: 'This escrow output has already been used.' });
+          return;
+        }
+        const feeCheck = findFeeOutput(txBytes, terms.derivationPrefix);
+        if (!feeCheck.found) {
+          res.status(402).json({
+            status: 'error',
+            code: 'ERR_MISSING_FEE',
+            description: `Funding must include a ${FEE_SATS}-sat fee output to the ClawSats treasury script for the terms' derivation prefix (${feeCheck.reason}).`
+          });
+          return;
+        }
+        // A multisig output isn't a wallet payment, so check the funding tx
+        // ourselves: its inputs must be validly signed against their BEEF sources.
+        const wallet = this.walletManager.getWallet();
+        let scriptsValid = false;
+        try {
+          scriptsValid = await fundingTx.verify('scripts only');
+        } catch { /* missing source transactions */ }
+        if (!scriptsValid) {
+          res.status(402).json({
+            status: 'error',
+            code: 'ERR_PAYMENT_INVALID',
+            description: 'Funding transaction does not verify. Send it as BEEF with its source transactions.'
+          });
+          return;
+        }
+        // A signed tx can still be double-spent or never sent. Tracking the
+        // escrow output in a basket has the wallet broadcast the funding tx
+        // (or find it already known) before any work is done.
+        try {
+          await wallet.internalizeAction({
+            tx: fundingTx.toAtomicBEEF(),
+            outputs: [{
+              outputIndex,
+              protocol: 'basket insertion',
+              insertionRemittance: { basket: ESCROW_BASKET, tags: [terms.escrowId] }
+            }],
+            description: `ClawSats escrow ${terms.escrowId} funding for ${terms.capability} (${terms.satoshis} sats)`
+          });
+        } catch (broadcastErr) {
+          const errMsg = broadcastErr instanceof Error ? broadcastErr.message : String(broadcastErr);
+          logWarn(TAG, `Escrow ${terms.escrowId} funding ${txid.substring(0, 16)}... not accepted: ${errMsg}`);
+          res.status(402).json({
+            status: 'error',
+            code: 'ERR_PAYMENT_INVALID',
+            description: `Funding transaction was not accepted by the network: ${errMsg}`
+          });
+          return;
+        }
+        if (this.escrows.get(terms.escrowId)?.status !== 'proposed') {
+          res.status(409).json({ status: 'error', code: 'ERR_ESCROW_STATE', description: 'Escrow was funded by a concurrent request.' });
+          return;
+        }
+
+        this.replayLedger.record({
+          txid,
+          outputIndex,
+          capability: terms.capability,
+          derivationPrefix: terms.derivationPrefix,
+          callerIdentityKey: terms.requester,
+          satoshis: terms.satoshis
+        });
+        this.escrows.transition(terms.escrowId, 'funded', `funding ${txid}`, r => {
+          r.funding = { txid, transaction, outputIndex };
+        });
+
+        const cap = this.capabilityRegistry.get(terms.capability);
+        let result: unknown;
+        let success = true;
+        try {
+          if (!cap) throw new Error(`Capability ${terms.capability} is no longer offered`);
+          result = await cap.handler(record.params || {}, wallet);
+        } catch (handlerErr) {
+          success = false;
+          result = { error: handlerErr instanceof Error ? handlerErr.message : String(handlerErr) };
+        }
+
+        const delivery = await signEscrowStatement<EscrowDelivery>(wallet, {
+          type: 'clawsats-escrow-delivery',
+          escrowId: terms.escrowId,
+          provider: terms.provider,
+          requester: terms.requester,
+          capability: terms.capability,
+          paramsHash: terms.paramsHash,
+          resultHash: createHash('sha256').update(canonicalJson(result)).digest('hex'),
+          success,
+          deliveredAt: new Date().toISOString()
+        });
+        const receipt = await this.buildSignedReceipt(terms.capability, terms.requester, 0, FEE_SATS, result, { success, txid });
+
+        // A failed job is refunded straight away: our signature on the refund
+        // lets the requester settle it without involving the arbiter.
+        let refundSignature: string | undefined;
+        if (success) {
+          this.escrows.transition(terms.escrowId, 'delivered', 'result delivered', r => {
+            r.delivery = delivery;
+            r.result = result;
+            r.receipt = receipt;
+          });
+        } else {
+          refundSignature = await signSettlement(wallet, terms, buildSettlementTx(terms, fundingTx, 'requester'));
+          this.escrows.transition(terms.escrowId, 'refunded', 'capability failed — refund signed', r => {
+            r.delivery = delivery;
+            r.result = result;
+            r.receipt = receipt;
+            r.settlementSignatures.requester = { provider: refundSignature };
+          });
+        }
+        log(TAG, `Escrow ${terms.escrowId} funded (${txid.substring(0, 16)}...), ${terms.capability} ${success ? 'delivered' : 'failed — refund signed'}`);
+
+        res.json({
+          escrowId: terms.escrowId,
+          status: success ? 'delivered' : 'refunded',
+          success,
+          result,
+          delivery,
+          receipt,
+          refundSignature
+        });
+      } catch (error) {
+        logError(TAG, 'Escrow funding failed:', error);
+        const msg = error instanceof Error ? error.message : String(error);
+        res.status(500).json({ error: msg });
+      }
+    });
+
+    this.app.post('/escrow/:escrowId/release', async (req: express.Request, res: express.Response) => {
+      try {
+        const record = this.escrows.get(req.params.escrowId);
+        if (!record || record.role !== 'provider') {
+          res.status(404).json({ status: 'error', code: 'ERR_ESCROW_UNKNOWN', description: 'No escrow with that id was proposed here.' });
+          return;
+        }
+        if (record.status !== 'delivered' && record.status !== 'disputed') {
+          res.status(409).json({ status: 'error', code: 'ERR_ESCROW_STATE', description: `Escrow is ${record.status} and cannot be released.` });
+          return;
+        }
+        const signature = typeof req.body?.signature === 'string' ? req.body.signature : '';
+        const settlement = buildSettlementTx(record.terms, this.escrowFundingTx(record), 'provider');
+        if (!(await verifySettlementSignature(record.terms, settlement, 'requester', signature))) {
+          res.status(400).json({
+            status: 'error',
+            code: 'ERR_ESCROW_SIGNATURE',
+            description: 'signature is not the requester\'s signature over the release settlement.'
+          });
+          return;
+        }
+        const released = await this.completeEscrowSettlement(record.terms.escrowId, 'provider', { requester: signature }, 'released');
+        res.json({ escrowId: released.terms.escrowId, status: released.status, settlement: released.settlement });
+      } catch (error) {
+        logError(TAG, 'Escrow release failed:', error);
+        const msg = error instanceof Error ? error.message : String(error);
+        res.status(500).json({ error: msg });
+      }
+    });
+
+    this.app.get('/escrow/:escrowId', (req: express.Request, res: express.Response) => {
+      const record = this.escrows.get(req.params.escrowId);
+      if (!record) {
+        res.status(404).json({ status: 'error', code: 'ERR_ESCROW_UNKNOWN', description: 'Unknown escrow.' });
+        return;
+      }
+      res.json(this.publicEscrowView(record));
+    });
+
+    this.app.get('/escrow/:escrowId/evidence', async (req: express.Request, res: express.Response) => {
+      const record = this.escrows.get(req.params.escrowId);
+      if (!record || record.role !== 'provider' || !record.delivery) {
+        res.status(404).json({ status: 'error', code: 'ERR_ESCROW_UNKNOWN', description: 'No delivery recorded for that escrow.' });
+        return;
+      }
+      // The result is the requester's: only the arbiter named in the terms may read it
+      const problem = await this.checkEvidenceRequest(record.terms, req.header('x-clawsats-escrow-evidence'));
+      if (problem) {
+        res.status(problem.status).json({ status: 'error', code: problem.code, description: problem.description });
+        return;
+      }
+      res.json({ escrowId: record.terms.escrowId, delivery: record.delivery, result: record.result });
+    });
+  }
+
+  private registerMethods(): void {
+    // Helper: callers may send { args: {...}, originator } or flat params.
+    // Accept both for human and AI ergonomics.
+    const unwrap = (params: any): { args: any; originator?: string } => {
+      if (params && typeof params === 'object' && 'args' in params) {
+        return { args: params.args, originator: params.originator };
+      }
+      return { args: params };
+    };
+
+    // BRC-100 wallet methods
+    this.rpcServer.addMethod('createAction', async (params: any) => {
+      const { args, originator } = unwrap(params);
+      const wallet = this.walletManager.getWallet();
+      const outputs: any[] = Array.isArray(args?.outputs) ? args.outputs : [];
+      const outputSats = outputs.reduce((sum, o) => sum + (Number.isInteger(o?.satoshis) && o.satoshis > 0 ? o.satoshis : 0), 0);
+      const scriptBytes = outputs.reduce((sum, o) => sum + (typeof o?.lockingScript === 'string' ? o.lockingScript.length / 2 : 0), 0);
+      const reservation = this.budgets.reserve(
+        'createAction',
+        outputSats + estimateTxFeeSats(scriptBytes),
+        typeof args?.description === 'string' ? args.description.slice(0, 120) : undefined
+      );
+      let result: any;
+      try {
+        result = await wallet.createAction(args, originator);
+      } catch (err) {
+        this.budgets.release(reservation.id);
+        throw err;
+      }
+      const networkFeeSats = networkFeeFromAction(result);
+      this.budgets.settle(reservation.id, networkFeeSats === undefined ? undefined : outputSats + networkFeeSats);
+      return result;
+    });
+
+    this.rpcServer.addMethod('internalizeAction', async (params: any) => {
+      const { args, originator } = unwrap(params);
+      const wallet = this.walletManager.getWallet();
+      return wallet.internalizeAction(args, originator);
+    });
+
+    this.rpcServer.addMethod('listOutputs', async (params: any) => {
+      const { args, originator } = unwrap(params);
+      const wallet = this.walletManager.getWallet();
       return wallet.listOutputs(args, originator);
     });
 
-    this.rpcServer.addMethod('listActions', async (params: any) => {
-      const { args, originator } = unwrap(params);
-      const wallet = this.walletManager.getWallet();
-      return wallet.listActions(args, originator);
-    });
+    this.rpcServer.addMethod('listActions', async (params: any) => {
+      const { args, originator } = unwrap(params);
+      const wallet = this.walletManager.getWallet();
+      return wallet.listActions(args, originator);
+    });
+
+    this.rpcServer.addMethod('getPublicKey', async (params: any) => {
+      const { args, originator } = unwrap(params);
+      const wallet = this.walletManager.getWallet();
+      return wallet.getPublicKey(args, originator);
+    });
+
+    this.rpcServer.addMethod('createSignature', async (params: any) => {
+      const { args, originator } = unwrap(params);
+      const wallet = this.walletManager.getWallet();
+      return wallet.createSignature(args, originator);
+    });
+
+    this.rpcServer.addMethod('verifySignature', async (params: any) => {
+      const { args, originator } = unwrap(params);
+      const wallet = this.walletManager.getWallet();
+      return wallet.verifySignature(args, originator);
+    });
+
+    // ClawSats-specific methods
+    this.rpcServer.addMethod('createPaymentChallenge', async (params: any) => {
+      const { providerAmount, derivationPrefix } = params;
+      return this.walletManager.createPaymentChallenge(providerAmount, derivationPrefix);
+    });
+
+    this.rpcServer.addMethod('verifyPayment', async (params: any) => {
+      const { txid, expectedOutputs } = params;
+      return this.walletManager.verifyPayment(txid, expectedOutputs);
+    });
+
+    this.rpcServer.addMethod('getConfig', async () => {
+      // SECURITY: Never expose rootKeyHex over any endpoint.
+      const config = this.walletManager.getConfig();
+      if (!config) return null;
+      const { rootKeyHex, ...safeConfig } = config;
+      return safeConfig;
+    });
+
+    // Utility methods
+    this.rpcServer.addMethod('ping', async () => {
+      return { status: 'pong', timestamp: new Date().toISOString() };
+    });
+
+    this.rpcServer.addMethod('getCapabilities', async () => {
+      const config = this.walletManager.getConfig();
+      return {
+        brc100: config?.capabilities || [],
+        clawsats: ['createPaymentChallenge', 'verifyPayment', 'getConfig'],
+        paid: this.capabilityRegistry.list().map(c => ({
+          name: c.name,
+          description: c.description,
+          pricePerCall: c.pricePerCall,
+          pricing: describePricing(c),
+          verifiable: Boolean(c.verifiable)
+        }))
+      };
+    });
+
+    // Peer management methods
+    this.rpcServer.addMethod('listPeers', async () => {
+      return {
+        peers: this.peerRegistry.getAllPeers(),
+        total: this.peerRegistry.size()
+      };
+    });
+
+    this.rpcServer.addMethod('sendInvitation', async (params: any) => {
+      const { endpoint } = params;
+      if (!endpoint) throw new Error('Missing required param: endpoint');
+
+      const config = this.walletManager.getConfig();
+      if (!config) throw new Error('Wallet not initialized');
+
+      const discoveryRes = await fetch(`${endpoint}/discovery`, {
+        signal: AbortSignal.timeout(10000)
+      });
+      if (!discoveryRes.ok) {
+        throw new Error(`Recipient discovery failed (${discoveryRes.status})`);
+      }
+      const discovery: any = await discoveryRes.json();
+      const recipientIdentityKey = String(discovery?.identityKey || '');
+      if (!IDENTITY_KEY_RE.test(recipientIdentityKey)) {
+        throw new Error('Recipient discovery response did not include a valid identityKey');
+      }
+
+      const wallet = this.walletManager.getWallet();
+      const sharing = new SharingProtocol(config, wallet);
+      const invitation = await sharing.createInvitation(`claw://${recipientIdentityKey.substring(0, 16)}`, {
+        recipientEndpoint: endpoint,
+        recipientIdentityKey,
+        senderEndpoint: this.publicEndpoint || undefined
+      });
+
+      const res = await fetch(`${endpoint}/wallet/invite`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(invitation),
+        signal: AbortSignal.timeout(10000)
+      });
+
+      if (!res.ok) {
+        const body = await res.text();
+        throw new Error(`Invitation rejected (${res.status}): ${body}`);
+      }
+
+      const response: any = await res.json();
+
+      // If they responded with an announcement, register them as a peer
+      if (response.announcement?.identityKey) {
+        this.peerRegistry.addPeer({
+          clawId: response.announcement.clawId || '',
+          identityKey: response.announcement.identityKey,
+          endpoint,
+          capabilities: response.announcement.capabilities?.map((c: any) => c.name) || [],
+          chain: config.chain,
+          lastSeen: new Date().toISOString(),
+          reputation: REPUTATION_NEUTRAL_SCORE
+        });
+      }
+
+      log(TAG, `Invitation sent to ${endpoint} — accepted: ${response.accepted}`);
+      return { accepted: response.accepted, peersKnown: this.peerRegistry.size() };
+    });
+
+    // Referral system methods
+    this.rpcServer.addMethod('listReferrals', async () => {
+      const entries: { introducer: string; earnedSats: number }[] = [];
+      for (const [key, sats] of this.referralLedger) {
+        entries.push({ introducer: key, earnedSats: sats });
+      }
+      return {
+        referrals: entries,
+        totalEarned: entries.reduce((sum, e) => sum + e.earnedSats, 0),
+        trackedIntroductions: this.referralMap.size
+      };
+    });
+
+    // Prepaid credit accounts held by callers on this Claw (operator view)
+    this.rpcServer.addMethod('listCreditAccounts', async () => {
+      const accounts = this.creditLedger.listAccounts();
+      return {
+        accounts,
+        totalOutstanding: accounts.reduce((sum, a) => sum + a.balance, 0)
+      };
+    });
+
+    this.rpcServer.addMethod('getCreditAccount', async (params: any) => {
+      const identityKey = typeof params?.identityKey === 'string' ? params.identityKey.trim() : '';
+      if (!identityKey) throw new Error('Missing required param: identityKey');
+      const limit = Number.isFinite(Number(params?.limit)) ? Math.max(1, Math.floor(Number(params.limit))) : 50;
+      return {
+        account: this.creditLedger.getAccount(identityKey),
+        entries: this.creditLedger.listEntries(identityKey, limit)
+      };
+    });
+
+    // Earnings/spending — profit and loss by capability, peer, day or category
+    this.rpcServer.addMethod('getProfitAndLoss', async (params: any) => {
+      const groupBy = this.parsePnlGroupBy(params?.groupBy);
+      return this.accounting.summarize(groupBy, this.parseAccountingFilter(params));
+    });
+
+    this.rpcServer.addMethod('listAccountingEntries', async (params: any) => {
+      const limit = Number.isFinite(Number(params?.limit)) ? Math.max(1, Math.floor(Number(params.limit))) : 100;
+      const entries = this.accounting.list(this.parseAccountingFilter(params));
+      return { entries: entries.slice(-limit).reverse(), total: entries.length };
+    });
+
+    // Bookkeeping export: raw entries (or a P&L report when groupBy is given) as CSV or JSON
+    this.rpcServer.addMethod('exportAccounting', async (params: any) => {
+      const format = params?.format === 'csv' ? 'csv' : 'json';
+      const filter = this.parseAccountingFilter(params);
+      if (params?.groupBy) {
+        const report = this.accounting.summarize(this.parsePnlGroupBy(params.groupBy), filter);
+        return { format, content: format === 'csv' ? AccountingLedger.reportToCsv(report) : JSON.stringify(report, null, 2) };
+      }
+      const entries = this.accounting.list(filter);
+      return {
+        format,
+        entries: entries.length,
+        content: format === 'csv' ? AccountingLedger.toCsv(entries) : JSON.stringify(entries, null, 2)
+      };
+    });
+
+    // Receipts issued (as provider) and received (as requester), with their payments
+    this.rpcServer.addMethod('listReceipts', async (params: any) => {
+      const limit = Number.isFinite(Number(params?.limit)) ? Math.max(1, Math.floor(Number(params.limit))) : 100;
+      const receipts = this.receipts.list(this.parseReceiptFilter(params));
+      return { receipts: receipts.slice(-limit).reverse(), total: receipts.length };
+    });
+
+    this.rpcServer.addMethod('getReceipt', async (params: any) => {
+      const receiptId = typeof params?.receiptId === 'string' ? params.receiptId.trim() : '';
+      if (!receiptId) throw new Error('Missing required param: receiptId');
+      const record = this.receipts.get(receiptId);
+      if (!record) throw new Error(`Unknown receipt ${receiptId}`);
+      if (params?.fetchAnchor && record.role === 'received' && !record.anchor && record.endpoint) {
+        // Ask the provider for its inclusion proof and keep it once it checks out on-chain
+        const res = await fetch(`${record.endpoint}/receipts/${encodeURIComponent(receiptId)}/anchor`, {
+          signal: AbortSignal.timeout(10_000)
+        });
+        const body: any = await res.json().catch(() => null);
+        if (!res.ok || !body?.anchor) {
+          return { ...record, anchorProblem: body?.description || `Provider returned ${res.status}` };
+        }
+        const problem = await checkReceiptAnchor(record.receipt, body.anchor, { chain: this.walletManager.getConfig()?.chain });
+        if (problem) return { ...record, anchorProblem: problem };
+        this.receipts.attachAnchors(new Map([[receiptId, body.anchor as ReceiptAnchorProof]]));
+        return this.receipts.get(receiptId);
+      }
+      return record;
+    });
+
+    this.rpcServer.addMethod('exportReceipts', async (params: any) => {
+      const format = params?.format === 'csv' ? 'csv' : 'json';
+      const receipts = this.receipts.list(this.parseReceiptFilter(params));
+      return {
+        format,
+        receipts: receipts.length,
+        content: format === 'csv' ? ReceiptStore.toCsv(receipts) : JSON.stringify(receipts, null, 2)
+      };
+    });
+
+    // Spending budgets — rolling daily/weekly/monthly caps, global and per category
+    this.rpcServer.addMethod('getBudgetStatus', async () => {
+      return this.budgets.status();
+    });
+
+    this.rpcServer.addMethod('setBudgetLimit', async (params: any) => {
+      const scope = String(params?.scope || '') as BudgetScope;
+      const window = String(params?.window || '') as BudgetWindow;
+      const raw = params?.satoshis;
+      const satoshis = raw === null || raw === undefined || raw === '' ? null : Number(raw);
+      const limits = this.budgets.setLimit(scope, window, satoshis);
+      log(TAG, `Budget limit set: ${scope} ${window} = ${satoshis === null ? 'unlimited' : `${satoshis} sats`}`);
+      return { limits, utilization: this.budgets.utilization() };
+    });
+
+    // Search capabilities across known peers — how unique Claws get discovered
+    // Results carry each provider's pricing model and reputation score, best
+    // reputation first; pass `units` to also get an estimated price per
+    // provider (results sorted cheapest first, then by reputation). Filters
+    // (tags, name, minPrice/maxPrice for `units` or one call, minReputation,
+    // chain) all apply; answers come from the capability index, not a crawl.
+    this.rpcServer.addMethod('searchCapabilities', async (params: any) => {
+      const { tags, name, maxResults = 20 } = params || {};
+      if (tags !== undefined && (!Array.isArray(tags) || tags.some((t: unknown) => typeof t !== 'string'))) throw new Error('tags must be an array of strings');
+      const number = (key: string): number | undefined => {
+        if (params?.[key] === undefined) return undefined;
+        const value = Number(params[key]);
+        if (!Number.isFinite(value) || value < 0) throw new Error(`${key} must be a non-negative number`);
+        return value;
+      };
+      const units = number('units');
+      const minPrice = number('minPrice');
+      const maxPrice = number('maxPrice');
+      const chain = params?.chain;
+      if (chain !== undefined && chain !== 'test' && chain !== 'main') throw new Error('chain must be test or main');
+      if (!tags && !name && minPrice === undefined && maxPrice === undefined && !chain) {
+        throw new Error('Provide tags (string[]), name (string), minPrice/maxPrice or chain to search');
+      }
+
+      // Served from the index; only peers it has never seen are fetched now
+      // (all stale ones too when no background refresh runs)
+      const refresh = await this.refreshCapabilityIndex({ missingOnly: this.capabilityIndexRefreshMs > 0 });
+      const results = this.capabilityIndex.search(
+        { name, tags, units, minPrice, maxPrice, chain, minReputation: Number(params?.minReputation) || 0, maxResults },
+        { reputationOf: key => this.peerRegistry.getPeer(key)?.reputation ?? 0, exclude: this.blockedPeers() }
+      );
+      return {
+        results,
+        peersSearched: this.capabilityIndex.stats().peers,
+        fetchedNow: refresh.refreshed + refresh.notModified + refresh.failed.length,
+        timestamp: new Date().toISOString()
+      };
+    });
+
+    // Re-read every peer's /discovery now (`force: false` only refreshes stale entries)
+    this.rpcServer.addMethod('refreshCapabilityIndex', async (params: any) => {
+      const report = await this.refreshCapabilityIndex({ force: params?.force !== false });
+      return { ...report, index: this.capabilityIndex.stats() };
+    });
+
+    // Collect signed quotes for one capability from several providers, cheapest
+    // first. Pass the chosen quote to hireClaw as `quote` to pay at that price.
+    this.rpcServer.addMethod('requestQuotes', async (params: any) => {
+      const capability = typeof params?.capability === 'string' ? params.capability.trim() : '';
+      if (!/^[a-z0-9_:-]{2,80}$/i.test(capability)) throw new Error('Missing or invalid param: capability');
+      const maxProviders = Math.min(20, Math.max(1, Number(params?.maxProviders) || 5));
+      const callParams = this.normalizeCapabilityCallParams(capability, params?.params);
+      const callerIdentityKey = this.walletManager.getConfig()?.identityKey || '';
+
+      let endpoints: string[] = Array.isArray(params?.endpoints)
+        ? params.endpoints.filter((e: unknown) => typeof e === 'string').map((e: string) => e.trim().replace(/\/+$/, ''))
+        : this.peerRegistry.getAllPeers()
+          .filter(p => p.endpoint && (p.capabilities.length === 0 || p.capabilities.includes(capability)))
+          .map(p => p.endpoint);
+      endpoints = Array.from(new Set(endpoints)).filter(e => this.isValidPeerEndpoint(e)).slice(0, maxProviders);
+
+      const quotes: Array<{ endpoint: string; totalSats: number; quote: SignedQuote }> = [];
+      const errors: Array<{ endpoint: string; error: string }> = [];
+      for (const endpoint of endpoints) {
+        try {
+          const quote = await PaymentHelper.requestQuote(endpoint, capability, callParams, callerIdentityKey, {
+            ttlSeconds: params?.ttlSeconds,
+            timeoutMs: 5000
+          });
+          quotes.push({ endpoint, totalSats: quote.satoshis + quote.feeSats, quote });
+        } catch (err) {
+          errors.push({ endpoint, error: err instanceof Error ? err.message : String(err) });
+        }
+      }
+      quotes.sort((a, b) => a.totalSats - b.totalSats);
+      return { capability, quotes, errors, timestamp: new Date().toISOString() };
+    });
+
+    // Hire another Claw from this Claw's wallet (handles 402 challenge/pay/retry).
+    this.rpcServer.addMethod('hireClaw', async (params: any) => {
+      const targetEndpointRaw = typeof params?.endpoint === 'string' ? params.endpoint.trim() : '';
+      const capabilityRaw = typeof params?.capability === 'string' ? params.capability.trim() : '';
+      const requestedParams = params?.params;
+      const maxTotalSatsRaw = params?.maxTotalSats;
+      const timeoutMsRaw = params?.timeoutMs;
+      const derivationSuffixRaw = typeof params?.derivationSuffix === 'string' ? params.derivationSuffix.trim() : 'clawsats';
+      const jobId = typeof params?.jobId === 'string' && params.jobId.trim() ? params.jobId.trim() : undefined;
+
+      if (!targetEndpointRaw) throw new Error('Missing required param: endpoint');
+      if (!capabilityRaw) throw new Error('Missing required param: capability');
+      if (!/^[a-z0-9_:-]{2,80}$/i.test(capabilityRaw)) {
+        throw new Error('Invalid capability format.');
+      }
+
+      const targetEndpoint = targetEndpointRaw.replace(/\/+$/, '');
+      if (!this.isValidPeerEndpoint(targetEndpoint)) {
+        throw new Error('endpoint must be a valid public http/https URL.');
+      }
+      const endpointAccess = this.peerAccessChecker()({ endpoint: targetEndpoint });
+      if (!endpointAccess.allowed) throw new Error(`${targetEndpoint} is blocked: ${endpointAccess.reason}`);
+      const callParams = this.normalizeCapabilityCallParams(capabilityRaw, requestedParams);
+      const maxTotalSats = Number.isFinite(Number(maxTotalSatsRaw)) ? Math.max(0, Math.floor(Number(maxTotalSatsRaw))) : null;
+      const timeoutMs = Number.isFinite(Number(timeoutMsRaw))
+        ? Math.min(90_000, Math.max(5_000, Math.floor(Number(timeoutMsRaw))))
+        : 30_000;
+      const derivationSuffix = derivationSuffixRaw || 'clawsats';
+      if (derivationSuffix.length > 128) throw new Error('derivationSuffix is too long.');
+
+      const config = this.walletManager.getConfig();
+      const callerIdentityKey = config?.identityKey;
+      if (!callerIdentityKey) {
+        throw new Error('Wallet config is unavailable.');
+      }
+
+      const callUrl = `${targetEndpoint}/call/${encodeURIComponent(capabilityRaw)}`;
+
+      let satoshisRequired: number;
+      let derivationPrefix: string;
+      let providerIdentityKey: string;
+      let feeIdentityKey: string;
+      let feeSats: number;
+      // A signed quote from requestQuotes replaces the 402 round-trip
+      const presetQuote: SignedQuote | undefined = params?.quote && typeof params.quote === 'object' ? params.quote : undefined;
+      if (presetQuote) {
+        const problem = checkQuote(presetQuote, { capability: capabilityRaw, params: callParams, requester: callerIdentityKey });
+        if (problem) throw new Error(`Quote ${presetQuote.quoteId} unusable: ${problem}`);
+        if (!(await verifyQuoteSignature(presetQuote))) throw new Error(`Quote ${presetQuote.quoteId} has an invalid provider signature.`);
+        satoshisRequired = presetQuote.satoshis;
+        derivationPrefix = presetQuote.derivationPrefix;
+        providerIdentityKey = presetQuote.provider;
+        feeIdentityKey = FEE_IDENTITY_KEY;
+        feeSats = presetQuote.feeSats;
+      } else {
+        const challengeRes = await fetch(callUrl, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'x-bsv-identity-key': callerIdentityKey
+          },
+          body: JSON.stringify(callParams),
+          signal: AbortSignal.timeout(timeoutMs)
+        });
+
+        if (challengeRes.ok) {
+          const freeResult = await challengeRes.json().catch(() => null);
+          return {
+            mode: 'free-trial',
+            endpoint: targetEndpoint,
+            capability: capabilityRaw,
+            satoshisPaid: 0,
+            result: freeResult
+          };
+        }
+
+        if (challengeRes.status !== 402) {
+          const errBody = await challengeRes.text().catch(() => '');
+          throw new Error(`Unexpected ${challengeRes.status} from provider: ${errBody.slice(0, 300)}`);
+        }
+
+        satoshisRequired = parseInt(challengeRes.headers.get('x-bsv-payment-satoshis-required') || '0', 10);
+        derivationPrefix = challengeRes.headers.get('x-bsv-payment-derivation-prefix') || '';
+        providerIdentityKey = challengeRes.headers.get('x-bsv-identity-key') || '';
+        feeIdentityKey = challengeRes.headers.get('x-clawsats-fee-identity-key') || FEE_IDENTITY_KEY;
+        feeSats = parseInt(challengeRes.headers.get('x-clawsats-fee-satoshis-required') || String(FEE_SATS), 10);
+      }
+
+      if (!derivationPrefix || satoshisRequired <= 0) {
+        throw new Error('Invalid payment challenge: missing derivation prefix or satoshi amount.');
+      }
+      if (!IDENTITY_KEY_RE.test(providerIdentityKey)) {
+        throw new Error('Provider did not return a valid identity key.');
+      }
+      const providerAccess = this.peerAccessChecker()({ identityKey: providerIdentityKey, endpoint: targetEndpoint });
+      if (!providerAccess.allowed) {
+        const why = providerAccess.source === 'fraud'
+          ? `${this.fraudReports.confirmedAgainst(providerIdentityKey)} confirmed fraud reports`
+          : providerAccess.reason;
+        throw new Error(`Provider ${providerIdentityKey.substring(0, 16)}... is blocked: ${why}.`);
+      }
+      // Pay only a key that proves it serves this endpoint — not whoever answers there in its name
+      const ownership = await this.verifyPeerEndpoint(providerIdentityKey, targetEndpoint);
+      if (ownership.status !== 'verified') {
+        throw new Error(`Provider ${providerIdentityKey.substring(0, 16)}... has not proven it controls ${targetEndpoint}: ${ownership.problem}`);
+      }
+      if (maxTotalSats !== null && satoshisRequired + feeSats > maxTotalSats) {
+        throw new Error(`Payment challenge is ${satoshisRequired + feeSats} sats, above maxTotalSats=${maxTotalSats}.`);
+      }
+
+      const wallet = this.walletManager.getWallet();
+      const providerScript = await this.deriveBRC29LockingScript(
+        wallet,
+        providerIdentityKey,
+        derivationPrefix,
+        derivationSuffix
+      );
+      if (feeIdentityKey !== FEE_IDENTITY_KEY) {
+        throw new Error('Provider fee key does not match canonical FEE_IDENTITY_KEY. Payment refused.');
+      }
+      // Publicly derivable treasury script — the provider verifies this exact output
+      const feeScript = deriveFeeLockingScript(derivationPrefix);
+
+      // Checked and booked atomically — a runaway loop stops here, before signing
+      const reservation = this.budgets.reserve(
+        'hire',
+        satoshisRequired + feeSats + estimateTxFeeSats(),
+        `${capabilityRaw} @ ${targetEndpoint}`
+      );
+      let actionResult: any;
+      try {
+        actionResult = await wallet.createAction({
+          description: `Claw hire: ${capabilityRaw} (${satoshisRequired} + ${feeSats} sats)`,
+          outputs: [
+            {
+              satoshis: satoshisRequired,
+              lockingScript: providerScript,
+              outputDescription: `Claw hire provider payment (${capabilityRaw})`
+            },
+            {
+              satoshis: feeSats,
+              lockingScript: feeScript,
+              outputDescription: 'ClawSats protocol fee'
+            }
+          ],
+          labels: ['clawsats-hire'],
+          options: {
+            acceptDelayedBroadcast: false,
+            signAndProcess: true,
+            randomizeOutputs: false
+          }
+        });
+      } catch (err) {
+        this.budgets.release(reservation.id);
+        throw err;
+      }
+      const hireNetworkFee = networkFeeFromAction(actionResult);
+      this.budgets.settle(
+        reservation.id,
+        hireNetworkFee === undefined ? undefined : satoshisRequired + feeSats + hireNetworkFee
+      );
+
+      // Booked as soon as the tx exists — the sats are gone even if the provider then fails
+      const hireTxid = actionResult?.txid || undefined;
+      this.accounting.record({
+        category: 'hire',
+        satoshis: satoshisRequired,
+        networkFeeSats: hireNetworkFee,
+        capability: capabilityRaw,
+        peer: providerIdentityKey,
+        txid: hireTxid,
+        memo: targetEndpoint
+      });
+      this.accounting.record({
+        category: 'protocol_fee',
+        satoshis: feeSats,
+        capability: capabilityRaw,
+        peer: providerIdentityKey,
+        txid: hireTxid
+      });
+
+      const paymentHeader = JSON.stringify({
+        derivationPrefix,
+        derivationSuffix,
+        transaction: this.extractActionTxBase64(actionResult)
+      });
+
+      const callStarted = Date.now();
+      const paidRes = await fetch(callUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-bsv-identity-key': callerIdentityKey,
+          'x-bsv-payment': paymentHeader,
+          ...(presetQuote ? { 'x-clawsats-quote': JSON.stringify(presetQuote) } : {})
+        },
+        body: JSON.stringify(callParams),
+        signal: AbortSignal.timeout(timeoutMs)
+      }).catch((err) => {
+        this.noteReputation(providerIdentityKey, r => r.recordCall(providerIdentityKey, false));
+        throw err;
+      });
+      const callMs = Date.now() - callStarted;
+
+      if (!paidRes.ok) {
+        this.noteReputation(providerIdentityKey, r => r.recordCall(providerIdentityKey, false, callMs));
+        const errBody = await paidRes.text().catch(() => '');
+        throw new Error(`Provider rejected paid call (${paidRes.status}): ${errBody.slice(0, 320)}`);
+      }
+
+      const result: any = await paidRes.json().catch(() => null);
+      // Verify the provider's receipt against what we got, then countersign it
+      const receiptStatus = await PaymentHelper.acknowledgeReceipt(
+        wallet, callUrl, result, providerIdentityKey, callerIdentityKey, timeoutMs
+      );
+      this.noteReputation(providerIdentityKey, r => {
+        r.recordCall(providerIdentityKey, true, callMs);
+        r.recordReceipt(providerIdentityKey, receiptStatus.verified);
+      });
+      this.storeReceipt({ role: 'received', receipt: result?.receipt, txid: hireTxid, endpoint: targetEndpoint, jobId });
+      if (receiptStatus.verified) {
+        await this.issueAttestation(result.receipt, result.receipt.result?.success === false ? 'failure' : 'success');
+      }
+      return {
+        mode: 'paid',
+        endpoint: targetEndpoint,
+        capability: capabilityRaw,
+        satoshisPaid: satoshisRequired + feeSats,
+        providerSats: satoshisRequired,
+        feeSats,
+        quoteId: presetQuote?.quoteId,
+        txid: actionResult?.txid || null,
+        jobId,
+        receipt: result?.receipt,
+        receiptStatus,
+        result
+      };
+    });
+
+    // Receipt verification — any Claw can verify a receipt from another Claw
+    this.rpcServer.addMethod('verifyReceipt', async (params: any) => {
+      const { receipt } = params;
+      if (!receipt || !receipt.receiptId) throw new Error('Missing receipt');
+      if (!receipt.signature) return { valid: false, reason: 'Unsigned receipt' };
+
+      let valid = await verifyReceiptSignature(receipt);
+      if (!valid && receipt.provider === this.walletManager.getConfig()?.identityKey) {
+        // Receipts we issued before they were signed for 'anyone' verify only against ourselves
+        const { signature, requesterSignature, ...data } = receipt;
+        const legacy = await this.walletManager.getWallet().verifySignature({
+          data: Array.from(Buffer.from(canonicalJson(data), 'utf8')),
+          signature: Array.from(Buffer.from(signature, 'base64')),
+          protocolID: [0, 'clawsats receipt'],
+          keyID: 'receipt-v1'
+        }).catch(() => null);
+        valid = legacy?.valid === true;
+      }
+      const countersigned = receipt.requesterSignature ? await verifyRequesterSignature(receipt) : false;
+      // Anchor inclusion: the proof passed in, else the one we hold for this receipt
+      const anchor = params?.anchor || this.receipts.get(receipt.receiptId)?.anchor;
+      const anchorProblem = anchor ? await checkReceiptAnchor(receipt, anchor, { chain: this.walletManager.getConfig()?.chain }) : 'No anchor proof';
+      return {
+        valid,
+        countersigned,
+        anchored: anchorProblem === null,
+        anchor: anchor || undefined,
+        anchorProblem: anchor && anchorProblem ? anchorProblem : undefined,
+        receipt,
+        verifiedAt: new Date().toISOString()
+      };
+    });
+
+    // Peer reputation: one peer's score (identityKey), or every observed peer, best first
+    this.rpcServer.addMethod('getReputation', async (params: any) => {
+      const identityKey = typeof params?.identityKey === 'string' ? params.identityKey.trim() : '';
+      if (identityKey) return this.reputation.getReputation(identityKey);
+      const limit = Math.min(500, Math.max(1, Number(params?.limit) || 50));
+      return { peers: this.reputation.list().slice(0, limit) };
+    });
+
+    // The score broken down: each signal's value, evidence, confidence and weight, and why
+    this.rpcServer.addMethod('explainReputation', async (params: any) => {
+      const identityKey = typeof params?.identityKey === 'string' ? params.identityKey.trim() : '';
+      if (!identityKey) throw new Error('Missing required param: identityKey');
+      return this.reputation.explain(identityKey);
+    });
+
+    // Sign an attestation about the other party to one of our receipts
+    this.rpcServer.addMethod('attestPeer', async (params: any) => {
+      const receiptId = typeof params?.receiptId === 'string' ? params.receiptId.trim() : '';
+      if (!receiptId) throw new Error('Missing required param: receiptId');
+      const record = this.receipts.get(receiptId);
+      if (!record) throw new Error(`Unknown receipt ${receiptId}`);
+      if (params?.outcome !== undefined && !ATTESTATION_OUTCOMES.includes(params.outcome)) {
+        throw new Error(`outcome must be one of: ${ATTESTATION_OUTCOMES.join(', ')}`);
+      }
+      const outcome: AttestationOutcome = params?.outcome || (record.receipt.result?.success === false ? 'failure' : 'success');
+      const note = typeof params?.note === 'string' ? params.note : undefined;
+      const attestation = await this.issueAttestation(record.receipt, outcome, note, true);
+      return { attestation, reputation: this.reputation.getReputation(attestation!.subject) };
+    });
+
+    this.rpcServer.addMethod('listAttestations', async (params: any) => {
+      const limit = Math.min(500, Math.max(1, Number(params?.limit) || 100));
+      const attestations = this.attestations.list({
+        subject: typeof params?.subject === 'string' ? params.subject : undefined,
+        attester: typeof params?.attester === 'string' ? params.attester : undefined,
+        since: typeof params?.since === 'string' ? params.since : undefined,
+        limit
+      });
+      return { attestations, count: attestations.length };
+    });
+
+    // Swap attestations with peers: pull what they hold (about `subject`, if given), push ours
+    this.rpcServer.addMethod('syncAttestations', async (params: any) => {
+      const endpoints: string[] = Array.isArray(params?.endpoints) && params.endpoints.length > 0
+        ? params.endpoints.filter((e: unknown): e is string => typeof e === 'string')
+        : this.peerRegistry.getAllPeers().map(p => p.endpoint).filter(Boolean);
+      const subject = typeof params?.subject === 'string' ? params.subject : '';
+      const selfKey = this.walletManager.getConfig()?.identityKey || '';
+      const ours = selfKey ? this.attestations.list({ attester: selfKey, limit: ATTESTATION_MAX_PER_REQUEST }) : [];
+
+      const peers: Array<Record<string, unknown>> = [];
+      for (const endpoint of endpoints.slice(0, 20)) {
+        const base = endpoint.replace(/\/+$/, '');
+        try {
+          const query = new URLSearchParams({ limit: '500', ...(subject ? { subject } : {}) });
+          const res = await fetch(`${base}/reputation/attestations?${query}`, { signal: AbortSignal.timeout(10_000) });
+          const body: any = await res.json().catch(() => null);
+          if (!res.ok || !Array.isArray(body?.attestations)) throw new Error(`returned ${res.status}`);
+          const { accepted, rejected } = await this.collectAttestations(body.attestations, base);
+          let pushed = 0;
+          if (ours.length > 0) {
+            const pushRes = await fetch(`${base}/reputation/attestations`, {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ attestations: ours }),
+              signal: AbortSignal.timeout(10_000)
+            });
+            const pushBody: any = await pushRes.json().catch(() => null);
+            pushed = Number(pushBody?.accepted) || 0;
+          }
+          peers.push({ endpoint: base, pulled: accepted, rejected: rejected.length, pushed });
+        } catch (err) {
+          peers.push({ endpoint: base, error: err instanceof Error ? err.message : String(err) });
+        }
+      }
+      for (const peer of this.peerRegistry.getAllPeers()) this.peerRegistry.refreshReputation(peer.identityKey);
+      return { peers, held: this.attestations.list().length };
+    });
+
+    // Gossip discovery: read GET /peers from our best peers (or `endpoints`), then
+    // probe every new endpoint's /discovery and register only what answers as claimed
+    this.rpcServer.addMethod('gossipPeers', async (params: any) => {
+      const selfKey = this.walletManager.getConfig()?.identityKey || '';
+      const access = this.peerAccessChecker();
+      const sources = Array.isArray(params?.endpoints) && params.endpoints.length > 0
+        ? params.endpoints.filter((e: unknown): e is string => typeof e === 'string').map((endpoint: string) => ({ endpoint }))
+        : this.peerRegistry.getAllPeers()
+          .filter(p => p.endpoint && access({ identityKey: p.identityKey, endpoint: p.endpoint }).allowed)
+          .sort((a, b) => b.reputation - a.reputation)
+          .map(p => ({ endpoint: p.endpoint, identityKey: p.identityKey }));
+      const gossip = new GossipDiscovery(selfKey);
+      const { candidates, sources: sourceReports } = await gossip.collect(
+        sources,
+        (identityKey, endpoint) => !!this.peerRegistry.getPeer(identityKey) || !!this.peerRegistry.getPeerByEndpoint(endpoint)
+          || !access({ identityKey, endpoint }).allowed,
+        typeof params?.capability === 'string' ? params.capability : undefined
+      );
+
+      const added: string[] = [];
+      const unverified: string[] = [];   // added, but their endpoint proof failed: never hired
+      const rejected: Array<{ endpoint: string; problem: string }> = [];
+      for (const candidate of candidates) {
+        if (!this.isValidPeerEndpoint(candidate.endpoint)) {
+          rejected.push({ endpoint: candidate.endpoint, problem: 'Endpoint is not a public http(s) URL' });
+          continue;
+        }
+        const probeStarted = Date.now();
+        try {
+          const discRes = await fetch(`${candidate.endpoint}/discovery`, { signal: AbortSignal.timeout(5000) });
+          const info: any = discRes.ok ? await discRes.json().catch(() => null) : null;
+          if (info?.identityKey !== candidate.identityKey) {
+            rejected.push({ endpoint: candidate.endpoint, problem: 'Did not answer as the gossiped identity key' });
+            continue;
+          }
+          this.peerRegistry.addPeer({
+            clawId: `claw://${candidate.identityKey.substring(0, 16)}`,
+            identityKey: candidate.identityKey,
+            endpoint: candidate.endpoint,
+            capabilities: Array.isArray(info.paidCapabilities) ? info.paidCapabilities.map((c: any) => String(c?.name || '')).filter(Boolean) : candidate.capabilities,
+            chain: info.network || this.walletManager.getConfig()?.chain || 'main',
+            lastSeen: new Date().toISOString(),
+            reputation: REPUTATION_NEUTRAL_SCORE
+          });
+          this.noteReputation(candidate.identityKey, r => r.recordProbe(candidate.identityKey, true, Date.now() - probeStarted));
+          added.push(candidate.identityKey);
+          if ((await this.verifyPeerEndpoint(candidate.identityKey, candidate.endpoint)).status === 'unverified') unverified.push(candidate.identityKey);
+        } catch (err) {
+          rejected.push({ endpoint: candidate.endpoint, problem: err instanceof Error ? err.message : String(err) });
+        }
+      }
+      return { sources: sourceReports, candidates: candidates.length, added, unverified, rejected, knownPeers: this.peerRegistry.size() };
+    });
+
+    // Challenge peers' endpoints for ownership proofs: `identityKey` for one (always
+    // re-checked), else every peer that isn't verified yet
+    this.rpcServer.addMethod('verifyPeerEndpoint', async (params: any) => {
+      const identityKey = typeof params?.identityKey === 'string' ? params.identityKey.trim() : '';
+      const peers = identityKey
+        ? [this.peerRegistry.getPeer(identityKey)].filter((p): p is PeerRecord => !!p)
+        : this.peerRegistry.getAllPeers().filter(p => p.endpointStatus !== 'verified');
+      if (identityKey && peers.length === 0) throw new Error(`Unknown peer ${identityKey}`);
+      const results: EndpointProofResult[] = [];
+      for (const peer of peers.filter(p => p.endpoint)) {
+        results.push(await this.verifyPeerEndpoint(peer.identityKey, peer.endpoint, !!identityKey));
+      }
+      return {
+        results,
+        verified: results.filter(r => r.status === 'verified').length,
+        unverified: results.filter(r => r.status === 'unverified').length
+      };
+    });
+
+    // Peer access: block or allow an identity key or endpoint (`ttlSeconds` for a
+    // ban that lifts itself). Blocking drops the matching peers from the registry.
+    const accessTarget = (params: any): { kind: PeerAccessKind; value: string } => {
+      const identityKey = typeof params?.identityKey === 'string' ? params.identityKey.trim() : '';
+      const endpoint = typeof params?.endpoint === 'string' ? params.endpoint.trim() : '';
+      if (!identityKey === !endpoint) throw new Error('Provide exactly one of identityKey or endpoint');
+      return identityKey ? { kind: 'identity', value: identityKey } : { kind: 'endpoint', value: endpoint };
+    };
+    const setAccess = (action: PeerAccessAction) => async (params: any) => {
+      const { kind, value } = accessTarget(params);
+      const ttlSeconds = params?.ttlSeconds === undefined ? undefined : Number(params.ttlSeconds);
+      if (ttlSeconds !== undefined && !(ttlSeconds > 0)) throw new Error('ttlSeconds must be a positive number');
+      const entry = this.peerAccess.set(action, kind, value, {
+        reason: typeof params?.reason === 'string' ? params.reason.slice(0, 500) : undefined,
+        expiresAt: ttlSeconds !== undefined ? new Date(Date.now() + ttlSeconds * 1000).toISOString() : undefined
+      });
+      const removedPeers: string[] = [];
+      if (action === 'block') {
+        const access = this.peerAccessChecker();
+        for (const peer of this.peerRegistry.getAllPeers()) {
+          const decision = access({ identityKey: peer.identityKey, endpoint: peer.endpoint });
+          if (decision.allowed || decision.source !== 'local') continue;
+          if (this.peerRegistry.removePeer(peer.identityKey)) removedPeers.push(peer.identityKey);
+        }
+      }
+      return { entry, removedPeers };
+    };
+    this.rpcServer.addMethod('blockPeer', setAccess('block'));
+    this.rpcServer.addMethod('allowPeer', setAccess('allow'));
+
+    this.rpcServer.addMethod('removePeerAccess', async (params: any) => {
+      const { kind, value } = accessTarget(params);
+      const action = params?.action;
+      if (action !== undefined && action !== 'block' && action !== 'allow') throw new Error('action must be block or allow');
+      return { removed: this.peerAccess.remove(kind, value, action) };
+    });
+
+    this.rpcServer.addMethod('listPeerAccess', async (params: any) => {
+      const action = params?.action === 'block' || params?.action === 'allow' ? params.action : undefined;
+      return {
+        entries: this.peerAccess.list({ action }),
+        subscriptions: this.peerAccess.subscriptions().map(({ entries, ...subscription }) => ({ ...subscription, bans: entries.length })),
+        fraudBlocked: Array.from(this.fraudReports.blocked())
+      };
+    });
+
+    // Follow the signed ban list another Claw publishes at GET /ban-list. The
+    // publisher defaults to the registered peer at `endpoint`, once its endpoint is proven.
+    this.rpcServer.addMethod('subscribeBanList', async (params: any) => {
+      const endpoint = typeof params?.endpoint === 'string' ? params.endpoint.trim().replace(/\/+$/, '') : '';
+      if (!endpoint || !this.isValidPeerEndpoint(endpoint)) throw new Error('endpoint must be a valid public http/https URL.');
+      let publisher = typeof params?.publisher === 'string' ? params.publisher.trim() : '';
+      if (!publisher) {
+        const peer = this.peerRegistry.getPeerByEndpoint(endpoint);
+        if (!peer || peer.endpointStatus !== 'verified') {
+          throw new Error('No verified peer at that endpoint: pass the publisher identity key.');
+        }
+        publisher = peer.identityKey;
+      }
+      const subscription = this.peerAccess.subscribe(publisher, endpoint);
+      const [result] = await this.refreshBanLists(subscription.publisher);
+      return { subscription: { publisher: subscription.publisher, endpoint: subscription.endpoint }, ...result };
+    });
+
+    this.rpcServer.addMethod('unsubscribeBanList', async (params: any) => {
+      const publisher = typeof params?.publisher === 'string' ? params.publisher.trim() : '';
+      if (!publisher) throw new Error('Missing required param: publisher');
+      return { unsubscribed: this.peerAccess.unsubscribe(publisher) };
+    });
+
+    this.rpcServer.addMethod('refreshBanLists', async () => ({ lists: await this.refreshBanLists() }));
+
+    // Index the beacons in a tx source (`dir` of raw tx / BEEF files, or `txids` on a
+    // chain API), then register each Claw's newest valid beacon we don't know yet
+    this.rpcServer.addMethod('importBeacons', async (params: any) => {
+      const config = this.walletManager.getConfig();
+      const chain = config?.chain || 'main';
+      let scan: BeaconScanReport | null = null;
+      if (typeof params?.dir === 'string' && params.dir.trim()) {
+        scan = await this.beacons.index(new FileTxSource(params.dir.trim()));
+      } else if (Array.isArray(params?.txids) && params.txids.length > 0) {
+        const txids = params.txids.filter((t: unknown): t is string => typeof t === 'string');
+        scan = await this.beacons.index(new WhatsOnChainTxSource(txids, chain, typeof params?.apiUrl === 'string' ? params.apiUrl : undefined));
+      }
+
+      const access = this.peerAccessChecker();
+      const added: string[] = [];
+      const unverified: string[] = [];   // added, but their endpoint proof failed: never hired
+      const skipped: Array<{ identityKey: string; reason: string }> = [];
+      const imported: string[] = [];
+      for (const record of this.beacons.latest({ chain })) {
+        const beacon = record.payload!;
+        const endpoint = beacon.ep.replace(/\/+$/, '');
+        let reason: string | null = null;
+        if (beacon.id === config?.identityKey) reason = 'Our own beacon';
+        else if (this.peerRegistry.getPeer(beacon.id)) reason = 'Already known';
+        else if (!this.isValidPeerEndpoint(endpoint)) reason = 'Endpoint is not a public http(s) URL';
+        else {
+          const decision = access({ identityKey: beacon.id, endpoint });
+          if (!decision.allowed) reason = decision.reason || 'Blocked';
+        }
+        if (reason) {
+          skipped.push({ identityKey: beacon.id, reason });
+          continue;
+        }
+        this.peerRegistry.addPeer({
+          clawId: `claw://${beacon.id.substring(0, 16)}`,
+          identityKey: beacon.id,
+          endpoint,
+          capabilities: beacon.cap,
+          chain: beacon.ch,
+          lastSeen: beacon.ts,
+          reputation: REPUTATION_NEUTRAL_SCORE
+        });
+        added.push(beacon.id);
+        imported.push(`${record.txid}:${record.vout}`);
+        if ((await this.verifyPeerEndpoint(beacon.id, endpoint)).status === 'unverified') unverified.push(beacon.id);
+      }
+      this.beacons.markImported(imported);
+      return { scan, added, unverified, skipped, knownPeers: this.peerRegistry.size() };
+    });
+
+    this.rpcServer.addMethod('listBeacons', async (params: any) => {
+      const valid = params?.all === true ? undefined : true;
+      const identityKey = typeof params?.identityKey === 'string' ? params.identityKey.trim() : undefined;
+      const capability = typeof params?.capability === 'string' ? params.capability.trim() : undefined;
+      const beacons = this.beacons.list({ valid, identityKey, capability });
+      return { total: beacons.length, beacons: beacons.slice(0, Math.min(500, Math.max(1, Math.floor(Number(params?.limit) || 100)))) };
+    });
+
+    // Ask our best peers (or `endpoints`) who offers a capability. Answers arrive at
+    // /discovery/callback and collect under the returned queryId; waitMs (≤ 15s) waits for them.
+    this.rpcServer.addMethod('discoverCapability', async (params: any) => {
+      const config = this.walletManager.getConfig();
+      if (!config) throw new Error('Wallet not initialized');
+      const capability = typeof params?.capability === 'string' ? params.capability.trim() : '';
+      if (!capability) throw new Error('Missing required param: capability');
+      if (!this.publicEndpoint) throw new Error('Discovery answers need a public endpoint to reach us: serve with --endpoint <url>');
+      const maxResults = Math.min(DISCOVERY_MAX_RESULTS, Math.max(1, Math.floor(Number(params?.maxResults) || 10)));
+      const hopLimit = Number.isInteger(params?.hopLimit) ? Math.min(DISCOVERY_HOP_LIMIT, Math.max(0, params.hopLimit)) : DISCOVERY_HOP_LIMIT;
+      const query = await new SharingProtocol(config, this.walletManager.getWallet()).createDiscoveryQuery(capability, {
+        maxResults,
+        hopLimit,
+        responseEndpoint: `${this.publicEndpoint.replace(/\/+$/, '')}/discovery/callback`
+      });
+      this.discoveryQueryIds.check(query.queryId);  // relayed back to us, it is not answered
+      this.discoveryTracker.track(query);
+      // Endpoints of Claws we don't know get the query without a route: they answer but don't relay
+      const targets: DiscoveryTarget[] = Array.isArray(params?.endpoints) && params.endpoints.length > 0
+        ? params.endpoints.filter((e: unknown): e is string => typeof e === 'string')
+          .map((endpoint: string) => ({ endpoint, identityKey: this.peerRegistry.getPeerByEndpoint(endpoint)?.identityKey }))
+        : this.discoveryTargets(query, DISCOVERY_FANOUT);
+      const sentTo = await this.sendDiscoveryQuery(query, [], targets);
+      const waitMs = Math.min(15_000, Math.max(0, Math.floor(Number(params?.waitMs) || 0)));
+      if (waitMs > 0) await new Promise(resolve => setTimeout(resolve, waitMs));
+      const set = this.discoveryTracker.get(query.queryId);
+      return {
+        queryId: query.queryId,
+        sentTo,
+        results: set?.results || [],
+        responders: set?.responders || [],
+        collectingUntil: set ? new Date(set.expiresAt).toISOString() : null
+      };
+    });
+
+    this.rpcServer.addMethod('getDiscoveryResults', async (params: any) => {
+      const queryId = typeof params?.queryId === 'string' ? params.queryId.trim() : '';
+      if (!queryId) throw new Error('Missing required param: queryId');
+      const set = this.discoveryTracker.get(queryId);
+      if (!set) throw new Error(`Unknown or expired discovery query ${queryId}`);
+      return {
+        queryId,
+        capability: set.query.query.capability,
+        results: set.results,
+        responders: set.responders,
+        rejected: set.rejected,
+        collecting: Date.now() <= set.expiresAt,
+        collectingUntil: new Date(set.expiresAt).toISOString()
+      };
+    });
+
+    // File a fraud report against a provider, with evidence we check before signing it
+    this.rpcServer.addMethod('reportFraud', async (params: any) => {
+      const kind = params?.kind as FraudEvidenceKind;
+      if (!FRAUD_EVIDENCE_KINDS.includes(kind)) throw new Error(`kind must be one of: ${FRAUD_EVIDENCE_KINDS.join(', ')}`);
+      const description = typeof params?.description === 'string' ? params.description.trim() : '';
+      if (!description) throw new Error('Missing required param: description');
+      const selfKey = this.walletManager.getConfig()?.identityKey || '';
+
+      let receipt: CallReceipt | undefined = params?.receipt && typeof params.receipt === 'object' ? params.receipt : undefined;
+      if (!receipt && typeof params?.receiptId === 'string' && params.receiptId.trim()) {
+        const record = this.receipts.get(params.receiptId.trim());
+        if (!record || record.role !== 'received') throw new Error(`No received receipt ${params.receiptId}`);
+        receipt = record.receipt;
+      }
+      const accused = typeof params?.identityKey === 'string' && params.identityKey.trim() ? params.identityKey.trim() : receipt?.provider || '';
+      if (!accused) throw new Error('Missing required param: identityKey (or a receipt naming the provider)');
+
+      const evidence: Partial<FraudReport> = { receipt, capability: receipt?.capability || params?.capability };
+      if (kind === 'result_mismatch') evidence.result = params?.result;
+      if (kind === 'no_result') {
+        // Only our own ledger shows a payment went unanswered: check it before accusing anyone
+        const txid = typeof params?.txid === 'string' ? params.txid.trim() : '';
+        const paid = this.accounting.list({ category: 'hire', peer: accused }).find(e => e.txid === txid);
+        if (!txid || !paid) throw new Error(`No hire payment ${txid || '(txid missing)'} to that provider in the ledger`);
+        if (this.receipts.list({ role: 'received', peer: accused }).some(r => r.txid === txid)) {
+          throw new Error(`A receipt was received for payment ${txid}`);
+        }
+        Object.assign(evidence, { receipt: undefined, paymentTxid: txid, satoshis: paid.satoshis, capability: paid.capability || evidence.capability });
+      }
+
+      const report = await signFraudReport(this.walletManager.getWallet(), {
+        reportId: `fraud-${Date.now()}-${randomBytes(4).toString('hex')}`,
+        reporter: selfKey,
+        accused,
+        kind,
+        ...Object.fromEntries(Object.entries(evidence).filter(([, v]) => v !== undefined)),
+        description,
+        timestamp: new Date().toISOString()
+      });
+      const problem = await checkFraudReport(report);
+      if (problem) throw new Error(`Fraud report not filed: ${problem}`);
+      const record = this.fraudReports.add(report, 'confirmed');
+      this.peerRegistry.refreshReputation(accused);
+      log(TAG, `Filed fraud report ${report.reportId} (${kind}) against ${accused.substring(0, 16)}...`);
+
+      const gossip = params?.gossip ? await this.gossipFraudReport(report, params?.endpoints) : undefined;
+      return { record, blocked: this.fraudReports.isBlocked(accused), reputation: this.reputation.getReputation(accused), gossip };
+    });
+
+    this.rpcServer.addMethod('listFraudReports', async (params: any) => {
+      const limit = Math.min(500, Math.max(1, Number(params?.limit) || 100));
+      const reports = this.fraudReports.list({
+        accused: typeof params?.accused === 'string' ? params.accused : undefined,
+        reporter: typeof params?.reporter === 'string' ? params.reporter : undefined,
+        status: typeof params?.status === 'string' ? params.status as FraudReportStatus : undefined
+      });
+      return { reports: reports.slice(0, limit), total: reports.length, blocked: Array.from(this.fraudReports.blocked()) };
+    });
+
+    // Operator verdict on a report: confirm it (counts against the accused) or dismiss it
+    this.rpcServer.addMethod('resolveFraudReport', async (params: any) => {
+      const reportId = typeof params?.reportId === 'string' ? params.reportId.trim() : '';
+      if (!reportId) throw new Error('Missing required param: reportId');
+      if (params?.status !== 'confirmed' && params?.status !== 'dismissed') throw new Error('status must be confirmed or dismissed');
+      const record = this.fraudReports.resolve(reportId, params.status, typeof params?.note === 'string' ? params.note : undefined);
+      const accused = record.report.accused;
+      this.peerRegistry.refreshReputation(accused);
+      return { record, blocked: this.fraudReports.isBlocked(accused), reputation: this.reputation.getReputation(accused) };
+    });
+
+    // Anchor receipts issued since the last anchor now, instead of waiting for the timer
+    this.rpcServer.addMethod('anchorReceipts', async () => {
+      return (await this.anchorReceipts()) || { anchored: 0, pending: 0 };
+    });
+
+    // ── Arbiter escrow (requester side) ────────────────────────────
+    // Expensive hires: the payment sits in a 2-of-3 output (requester,
+    // provider, arbiter) until the requester releases it, or an arbiter Claw
+    // rules and co-signs the settlement for the side it finds for.
+    this.rpcServer.addMethod('createEscrow', async (params: any) => {
+      const endpointRaw = typeof params?.endpoint === 'string' ? params.endpoint.trim().replace(/\/+$/, '') : '';
+      const capability = typeof params?.capability === 'string' ? params.capability.trim() : '';
+      if (!this.isValidPeerEndpoint(endpointRaw)) throw new Error('endpoint must be a valid public http/https URL.');
+      if (!/^[a-z0-9_:-]{2,80}$/i.test(capability)) throw new Error('Missing or invalid param: capability');
+      const callParams = this.normalizeCapabilityCallParams(capability, params?.params);
+      const timeoutMs = Number.isFinite(Number(params?.timeoutMs))
+        ? Math.min(90_000, Math.max(5_000, Math.floor(Number(params.timeoutMs))))
+        : 60_000;
+      const maxTotalSats = Number.isFinite(Number(params?.maxTotalSats)) ? Math.max(0, Math.floor(Number(params.maxTotalSats))) : null;
+      const requester = this.walletManager.getConfig()?.identityKey;
+      if (!requester) throw new Error('Wallet config is unavailable.');
+
+      // The provider's signed quote fixes its identity key and price
+      const quote = await PaymentHelper.requestQuote(endpointRaw, capability, callParams, requester, { timeoutMs: 10_000 });
+      const arbiter = await this.selectArbiter(params?.arbiter, [requester, quote.provider]);
+      const satoshis = quote.satoshis + ESCROW_SETTLEMENT_FEE_SATS;
+      if (maxTotalSats !== null && satoshis + FEE_SATS > maxTotalSats) {
+        throw new Error(`Escrow needs ${satoshis + FEE_SATS} sats, above maxTotalSats=${maxTotalSats}.`);
+      }
+      const terms: EscrowTerms = {
+        escrowId: `esc-${randomBytes(16).toString('hex')}`,
+        requester,
+        provider: quote.provider,
+        arbiter: arbiter.identityKey,
+        providerEndpoint: endpointRaw,
+        arbiterEndpoint: arbiter.endpoint,
+        capability,
+        paramsHash: hashParams(callParams),
+        satoshis,
+        derivationPrefix: randomBytes(16).toString('base64'),
+        createdAt: new Date().toISOString()
+      };
+
+      const proposeRes = await fetch(`${endpointRaw}/escrow/propose`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-bsv-identity-key': requester },
+        body: JSON.stringify({ terms, params: callParams }),
+        signal: AbortSignal.timeout(10_000)
+      });
+      if (!proposeRes.ok) {
+        const errBody = await proposeRes.text().catch(() => '');
+        throw new Error(`Provider rejected escrow terms (${proposeRes.status}): ${errBody.slice(0, 300)}`);
+      }
+      this.escrows.create({ terms, role: 'requester', status: 'proposed', params: callParams, note: `arbiter ${arbiter.endpoint}` });
+
+      const lockingScript = buildEscrowLockingScript(terms);
+      const wallet = this.walletManager.getWallet();
+      const reservation = this.budgets.reserve(
+        'hire',
+        satoshis + FEE_SATS + estimateTxFeeSats(lockingScript.length / 2),
+        `escrow ${capability} @ ${endpointRaw}`
+      );
+      let actionResult: any;
+      try {
+        actionResult = await wallet.createAction({
+          description: `Claw escrow: ${capability} (${satoshis} + ${FEE_SATS} sats)`,
+          outputs: [
+            { satoshis, lockingScript, outputDescription: `2-of-3 escrow for ${capability}` },
+            { satoshis: FEE_SATS, lockingScript: deriveFeeLockingScript(terms.derivationPrefix), outputDescription: 'ClawSats protocol fee' }
+          ],
+          labels: ['clawsats-escrow'],
+          options: { acceptDelayedBroadcast: false, signAndProcess: true, randomizeOutputs: false }
+        });
+      } catch (err) {
+        this.budgets.release(reservation.id);
+        this.escrows.transition(terms.escrowId, 'cancelled', 'funding failed');
+        throw err;
+      }
+      const networkFeeSats = networkFeeFromAction(actionResult);
+      this.budgets.settle(reservation.id, networkFeeSats === undefined ? undefined : satoshis + FEE_SATS + networkFeeSats);
+      // The provider must verify the funding tx against its inputs: send BEEF, not a raw tx
+      const transaction = actionResult?.tx ? Buffer.from(actionResult.tx).toString('base64') : this.extractActionTxBase64(actionResult);
+      const txid = actionResult?.txid || parsePaymentTransaction(Array.from(Buffer.from(transaction, 'base64'))).id('hex');
+      this.escrows.transition(terms.escrowId, 'funded', `funding ${txid}`, r => {
+        r.funding = { txid, transaction, outputIndex: 0 };
+      });
+      // The escrowed sats are booked as a hire once they settle to the provider
+      this.accounting.record({
+        category: 'protocol_fee',
+        satoshis: FEE_SATS,
+        networkFeeSats,
+        capability,
+        peer: terms.provider,
+        txid,
+        reference: terms.escrowId
+      });
+
+      const fundRes = await fetch(`${endpointRaw}/escrow/${terms.escrowId}/fund`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-bsv-identity-key': requester },
+        body: JSON.stringify({ transaction }),
+        signal: AbortSignal.timeout(timeoutMs)
+      });
+      const body: any = await fundRes.json().catch(() => null);
+      if (!body?.delivery) {
+        return {
+          escrowId: terms.escrowId,
+          status: 'funded',
+          txid,
+          terms,
+          error: `Provider did not deliver (${fundRes.status}): ${JSON.stringify(body).slice(0, 300)}`,
+          next: 'disputeEscrow'
+        };
+      }
+      return this.acceptEscrowDelivery(terms.escrowId, body);
+    });
+
+    // Requester is satisfied: sign the release and have the provider settle it
+    this.rpcServer.addMethod('releaseEscrow', async (params: any) => {
+      const record = this.requireEscrow(params?.escrowId, ['requester']);
+      if (record.status !== 'delivered' && record.status !== 'disputed') {
+        throw new Error(`Escrow ${record.terms.escrowId} is ${record.status} and cannot be released.`);
+      }
+      const { terms } = record;
+      const wallet = this.walletManager.getWallet();
+      const signature = await signSettlement(wallet, terms, buildSettlementTx(terms, this.escrowFundingTx(record), 'provider'));
+      const releaseRes = await fetch(`${terms.providerEndpoint}/escrow/${terms.escrowId}/release`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-bsv-identity-key': terms.requester },
+        body: JSON.stringify({ signature }),
+        signal: AbortSignal.timeout(30_000)
+      });
+      const body: any = await releaseRes.json().catch(() => null);
+      if (!releaseRes.ok) {
+        throw new Error(`Provider did not settle the release (${releaseRes.status}): ${JSON.stringify(body).slice(0, 300)}`);
+      }
+      const updated = this.escrows.transition(terms.escrowId, 'released', 'released to provider', r => {
+        r.settlementSignatures.provider = { ...r.settlementSignatures.provider, requester: signature };
+        r.settlement = { payTo: 'provider', txid: body?.settlement?.txid || '', settledAt: new Date().toISOString() };
+      });
+      this.recordEscrowHire(updated);
+      return this.publicEscrowView(updated);
+    });
+
+    // Either party hires the escrow's arbiter (paid `arbitrate` call) and, if
+    // the ruling goes its way, settles with the arbiter's signature.
+    this.rpcServer.addMethod('disputeEscrow', async (params: any) => {
+      const record = this.requireEscrow(params?.escrowId, ['requester', 'provider']);
+      if (!['funded', 'delivered', 'disputed'].includes(record.status)) {
+        throw new Error(`Escrow ${record.terms.escrowId} is ${record.status} and cannot be disputed.`);
+      }
+      const reason = typeof params?.reason === 'string' ? params.reason.slice(0, 500) : '';
+      if (!reason) throw new Error('Missing required param: reason');
+      const { terms } = record;
+      if (record.status !== 'disputed') {
+        this.escrows.transition(terms.escrowId, 'disputed', reason, r => {
+          r.dispute = { raisedBy: record.role, reason, raisedAt: new Date().toISOString() };
+        });
+      }
+
+      const wallet = this.walletManager.getWallet();
+      const identityKey = record.role === 'requester' ? terms.requester : terms.provider;
+      const response = await PaymentHelper.payForCapability(
+        wallet,
+        `${terms.arbiterEndpoint}/call/arbitrate`,
+        {
+          terms,
+          fundingTransaction: record.funding!.transaction,
+          claimant: record.role,
+          reason,
+          delivery: record.delivery,
+          result: record.result
+        },
+        identityKey,
+        {
+          maxTotalSats: ARBITRATE_PRICE_SATS * 5,
+          timeoutMs: 60_000,
+          budget: this.budgets,
+          receipts: this.receipts,
+          reputation: this.reputation,
+          onPaymentSent: (payment) => {
+            this.accounting.record({
+              category: 'hire',
+              satoshis: payment.satoshis,
+              networkFeeSats: payment.networkFeeSats,
+              capability: 'arbitrate',
+              peer: payment.providerIdentityKey || undefined,
+              txid: payment.txid,
+              reference: terms.escrowId
+            });
+            this.accounting.record({
+              category: 'protocol_fee',
+              satoshis: payment.feeSats,
+              capability: 'arbitrate',
+              peer: payment.providerIdentityKey || undefined,
+              txid: payment.txid,
+              reference: terms.escrowId
+            });
+          }
+        }
+      );
+      const resolved = await this.applyEscrowRuling(terms.escrowId, response?.result);
+      return { ...this.publicEscrowView(resolved), arbitrationReceipt: response?.receipt };
+    });
+
+    // Pick up a ruling made on the other party's dispute and settle if we won
+    this.rpcServer.addMethod('settleEscrow', async (params: any) => {
+      const record = this.requireEscrow(params?.escrowId, ['requester', 'provider']);
+      if (record.status === 'settled') return this.publicEscrowView(record);
+      const res = await fetch(`${record.terms.arbiterEndpoint}/escrow/${record.terms.escrowId}`, {
+        signal: AbortSignal.timeout(10_000)
+      });
+      const body: any = await res.json().catch(() => null);
+      if (!res.ok || !body?.ruling) throw new Error(`The arbiter has no ruling for escrow ${record.terms.escrowId} yet.`);
+      return this.publicEscrowView(await this.applyEscrowRuling(record.terms.escrowId, body.ruling));
+    });
+
+    this.rpcServer.addMethod('listEscrows', async (params: any) => {
+      const escrows = this.escrows.list({
+        status: typeof params?.status === 'string' ? params.status as EscrowStatus : undefined,
+        role: typeof params?.role === 'string' ? params.role as EscrowParty : undefined
+      });
+      return { escrows: escrows.map(r => this.publicEscrowView(r)), total: escrows.length };
+    });
+
+    this.rpcServer.addMethod('getEscrow', async (params: any) => {
+      const record = this.requireEscrow(params?.escrowId, ['requester', 'provider', 'arbiter']);
+      return { ...this.publicEscrowView(record), params: record.params, result: record.result, receipt: record.receipt };
+    });
+
+    // ── BSV Cluster Courses RPC Methods ────────────────────────────────
+
+    // List available courses with completion status
+    this.rpcServer.addMethod('listCourses', async () => {
+      return {
+        courses: this.courseManager.listCourses(),
+        completedCount: this.courseManager.getCompletedCourseIds().length,
+        totalAvailable: this.courseManager.courseCount
+      };
+    });
+
+    // Take a course quiz — pass to unlock teach capability
+    this.rpcServer.addMethod('takeCourse', async (params: any) => {
+      const { courseId, answers } = params;
+      if (!courseId) throw new Error('Missing courseId');
+      if (!answers || !Array.isArray(answers)) throw new Error('Missing answers (string[])');
+
+      const result = this.courseManager.takeQuiz(courseId, answers);
+
+      // If passed, register the teach capability immediately
+      if (result.passed) {
+        const material = this.courseManager.getTeachingMaterial(courseId);
+        if (material) {
+          const identityKey = this.walletManager.getConfig()?.identityKey || 'unknown';
+          this.capabilityRegistry.register({
+            name: `teach_${courseId}`,
+            description: `BSV Cluster Course: ${material.course.title}. Level ${material.course.level}. ${material.course.summary}`,
+            pricePerCall: material.course.teachPrice,
+            tags: ['education', 'bsv', material.course.category, `level-${material.course.level}`],
+            handler: async (handlerParams: any) => {
+              const learnerKey = handlerParams?.learnerIdentityKey || 'anonymous';
+              this.courseManager.recordTeaching(courseId, learnerKey);
+              return {
+                courseId: material.course.id,
+                title: material.course.title,
+                level: material.course.level,
+                prerequisites: material.course.prerequisites,
+                category: material.course.category,
+                content: material.course.content,
+                quiz: material.course.quiz.map(q => ({
+                  question: q.question,
+                  options: q.options,
+                  correctHash: q.correctHash
+                })),
+                passingScore: material.course.passingScore,
+                version: material.course.version,
+                taughtBy: identityKey,
+                taughtAt: new Date().toISOString()
+              };
+            }
+          });
+          log(TAG, `New teach capability unlocked: teach_${courseId}`);
+        }
+      }
+
+      return {
+        courseId,
+        ...result,
+        newCapability: result.passed ? `teach_${courseId}` : null,
+        message: result.passed
+          ? `Passed! You can now teach this course to other Claws for ${this.courseManager.getCourse(courseId)?.teachPrice || 25} sats.`
+          : `Score: ${result.correct}/${result.total}. Need ${Math.ceil((this.courseManager.getCourse(courseId)?.passingScore || 0.6) * result.total)} correct to pass.`
+      };
+    });
+
+    // Get spread metrics — how far has BSV education propagated?
+    this.rpcServer.addMethod('spreadMetrics', async () => {
+      return this.courseManager.getSpreadMetrics();
+    });
+
+    // ── On-Chain Memory RPC Methods ─────────────────────────────────────
+
+    // Write a memory on-chain (OP_RETURN, immutable)
+    this.rpcServer.addMethod('writeMemory', async (params: any) => {
+      const { key, data, category, encrypted, metadata } = params;
+      if (!key || typeof key !== 'string') throw new Error('Missing key (string)');
+      if (!data || typeof data !== 'string') throw new Error('Missing data (string)');
+      if (data.length > 100000) throw new Error('Data too large (max 100KB for OP_RETURN). Use PushDrop for larger data.');
+
+      const wallet = this.walletManager.getWallet();
+      const record = await this.onChainMemory.writeMemory(wallet, {
+        key, data, category, encrypted, metadata
+      });
+      this.accounting.record({
+        category: 'memory_write',
+        satoshis: 0,
+        networkFeeSats: record.networkFeeSats,
+        txid: record.txid,
+        memo: key
+      });
+      return {
+        ...record,
+        message: `Memory "${key}" written on-chain permanently. txid: ${record.txid}`
+      };
+    });
+
+    // Read a memory record from the local index
+    this.rpcServer.addMethod('readMemory', async (params: any) => {
+      const { key } = params;
+      if (!key) throw new Error('Missing key');
+      const record = this.onChainMemory.getMemory(key);
+      if (!record) return { found: false, key };
+      return { found: true, ...record };
+    });
+
+    // List all memories
+    this.rpcServer.addMethod('listMemories', async (params: any) => {
+      const category = params?.category;
+      const memories = this.onChainMemory.listMemories(category);
+      return {
+        memories,
+        total: memories.length,
+        stats: this.onChainMemory.getStats()
+      };
+    });
+
+    // Search memories
+    this.rpcServer.addMethod('searchMemories', async (params: any) => {
+      const { query } = params;
+      if (!query) throw new Error('Missing query');
+      return { results: this.onChainMemory.searchMemories(query) };
+    });
+
+    // Get memory stats
+    this.rpcServer.addMethod('memoryStats', async () => {
+      return this.onChainMemory.getStats();
+    });
+
+    // Fetch actual memory data from the blockchain (not just the local index)
+    this.rpcServer.addMethod('readMemoryFromChain', async (params: any) => {
+      const { key } = params;
+      if (!key) throw new Error('Missing key');
+      const result = await this.onChainMemory.readMemoryFromChain(key);
+      if (!result) return { found: false, key };
+      return { found: true, ...result };
+    });
+
+    // Fetch raw OP_RETURN data from any txid on the blockchain
+    this.rpcServer.addMethod('fetchFromChain', async (params: any) => {
+      const { txid } = params;
+      if (!txid) throw new Error('Missing txid');
+      const result = await this.onChainMemory.fetchFromChain(txid);
+      if (!result) return { found: false, txid };
+      return { found: true, txid, ...result };
+    });
+
+    // Write a master index on-chain (maps all memory keys → txids)
+    this.rpcServer.addMethod('writeMasterIndex', async () => {
+      const wallet = this.walletManager.getWallet();
+      const txid = await this.onChainMemory.writeMasterIndex(wallet);
+      this.accounting.record({
+        category: 'memory_write',
+        satoshis: 0,
+        networkFeeSats: this.onChainMemory.getMemory('__master_index__')?.networkFeeSats,
+        txid,
+        memo: '__master_index__'
+      });
+      return {
+        txid,
+        message: `Master index written on-chain. Store this txid to recover all memories: ${txid}`
+      };
+    });
+
+    // Recover memories from an on-chain master index
+    this.rpcServer.addMethod('recoverFromMasterIndex', async (params: any) => {
+      const { masterIndexTxid } = params;
+      if (!masterIndexTxid) throw new Error('Missing masterIndexTxid');
+      const recovered = await this.onChainMemory.recoverFromMasterIndex(masterIndexTxid);
+      return {
+        recovered,
+        message: `Recovered ${recovered} memories from master index ${masterIndexTxid}`
+      };
+    });
+
+    // Verify a memory exists on-chain (fetch + hash check)
+    this.rpcServer.addMethod('verifyMemoryOnChain', async (params: any) => {
+      const { key, retries } = params;
+      if (!key) throw new Error('Missing key');
+      const verified = await this.onChainMemory.verifyOnChain(key, retries || 3);
+      return { key, verified };
+    });
+
+    // Get the current master index txid (for beacons/identity)
+    this.rpcServer.addMethod('getMasterIndexTxid', async () => {
+      const txid = this.onChainMemory.getMasterIndexTxid();
+      return { txid, hasMasterIndex: !!txid };
+    });
+  }
+
+  private registerBuiltinCapabilities(): void {
+    const config = this.walletManager.getConfig();
+    const identityKey = config?.identityKey || 'unknown';
+
+    // Deferred wallet proxy — wallet may not be ready at constructor time
+    const walletProxy = {
+      createSignature: async (...args: any[]) => this.walletManager.getWallet().createSignature(...args)
+    };
+
+    // Echo: trivial paid service proving the 402 flow
+    this.capabilityRegistry.registerEcho(walletProxy, identityKey);
+
+    // Verifiable capabilities (BrowserAI #2)
+    this.capabilityRegistry.registerSignMessage(walletProxy, identityKey);
+    this.capabilityRegistry.registerHashCommit(walletProxy, identityKey);
+    this.capabilityRegistry.registerTimestampAttest(walletProxy, identityKey);
+
+    // Broadcast listing: the spreading flywheel (with anti-abuse per BrowserAI #3)
+    // Pass our identity key so relayed manifests get tagged with referredBy
+    this.capabilityRegistry.registerBroadcastListing(
+      () => this.peerRegistry.getAllPeers().map(p => p.endpoint).filter(Boolean),
+      undefined,
+      identityKey
+    );
+
+    // Phase 3: Real-world capabilities — things Claws actually hire each other for
+    this.capabilityRegistry.registerFetchUrl(walletProxy, identityKey);
+    this.capabilityRegistry.registerDnsResolve(identityKey);
+    this.capabilityRegistry.registerVerifyReceipt(identityKey, config?.chain);
+    this.capabilityRegistry.registerPeerHealthCheck(identityKey);
+    this.registerOptionalIndelibleCapabilities();
+
+    // BSV Mentor: premium knowledge-as-a-service (25 sats)
+    // Uses MCP server if available, falls back to embedded knowledge.
+    const mentorCap = createBsvMentorCapability({
+      identityKey,
+      wallet: walletProxy,
+      mcpEndpoint: process.env.MCP_ENDPOINT || 'http://localhost:3100'
+    });
+    this.capabilityRegistry.register(mentorCap);
+    log(TAG, `Registered bsv_mentor capability (25 sats, MCP: ${process.env.MCP_ENDPOINT || 'localhost:3100'})`);
+  }
+
+  /**
+   * Optional Phase A integration: register Indelible-backed capabilities behind a feature flag.
+   * Core payment/auth stays in ClawSats `/call/:capability`; this only adds handlers.
+   */
+  private registerOptionalIndelibleCapabilities(): void {
+    if (!this.indelibleEnabled) return;
+
+    if (!this.indelibleOperatorAddress) {
+      logWarn(TAG, 'Indelible integration enabled but missing operator address. Skipping save_context/load_context registration.');
+      return;
+    }
+
+    let baseUrl = this.indelibleUrl;
+    try {
+      const parsed = new URL(baseUrl);
+      if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+        throw new Error('invalid protocol');
+      }
+      baseUrl = parsed.toString().replace(/\/+$/, '');
+    } catch {
+      logWarn(TAG, `Indelible integration URL is invalid: ${this.indelibleUrl}`);
+      return;
+    }
+
+    if (this.capabilityRegistry.has('save_context') || this.capabilityRegistry.has('load_context')) {
+      logWarn(TAG, 'Indelible capability names already registered. Skipping duplicate registration.');
+      return;
+    }
+
+    const operatorAddress = this.indelibleOperatorAddress;
+    const defaultAgentAddress = this.indelibleDefaultAgentAddress;
+    const resolveAgentAddress = (params: any): string => {
+      const explicit = typeof params?.agentAddress === 'string' ? params.agentAddress.trim() : '';
+      return explicit || defaultAgentAddress;
+    };
+
+    const callIndelible = async (path: string, payload: Record<string, unknown>) => {
+      const response = await fetch(`${baseUrl}${path}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Operator-Address': operatorAddress
+        },
+        body: JSON.stringify(payload),
+        signal: AbortSignal.timeout(20_000)
+      });
+
+      const contentType = response.headers.get('content-type') || '';
+      const body = contentType.includes('application/json')
+        ? await response.json()
+        : await response.text();
+
+      if (!response.ok) {
+        const details = typeof body === 'string' ? body : JSON.stringify(body);
+        throw new Error(`Indelible request failed (${response.status}): ${details}`);
+      }
+
+      return body;
+    };
+
+    this.capabilityRegistry.register({
+      name: 'save_context',
+      description: 'Persist agent context via Indelible bridge (feature-flagged Phase A integration).',
+      pricePerCall: 15,
+      tags: ['memory', 'persistence', 'indelible'],
+      handler: async (params: any) => {
+        const messages = params?.messages;
+        if (!Array.isArray(messages) || messages.length === 0) {
+          throw new Error('messages array required');
+        }
 
-    this.rpcServer.addMethod('getPublicKey', async (params: any) => {
-      const { args, originator } = unwrap(params);
-      const wallet = this.walletManager.getWallet();
-      return wallet.getPublicKey(args, originator);
-    });
+        const agentAddress = resolveAgentAddress(params);
+        if (!agentAddress) {
+          throw new Error('agentAddress required (or set CLAWSATS_INDELIBLE_DEFAULT_AGENT_ADDRESS)');
+        }
 
-    this.rpcServer.addMethod('createSignature', async (params: any) => {
-      const { args, originator } = unwrap(params);
-      const wallet = this.walletManager.getWallet();
-      return wallet.createSignature(args, originator);
-    });
+        const agentId = typeof params?.agentId === 'string' && params.agentId.trim()
+          ? params.agentId.trim()
+          : agentAddress;
+        const summary = typeof params?.summary === 'string' && params.summary.trim()
+          ? params.summary.trim()
+          : `Agent ${agentId} session`;
 
-    this.rpcServer.addMethod('verifySignature', async (params: any) => {
-      const { args, originator } = unwrap(params);
-      const wallet = this.walletManager.getWallet();
-      return wallet.verifySignature(args, originator);
+        return callIndelible('/api/agents/save', {
+          messages,
+          summary,
+          agentAddress,
+          agentId,
+          operatorAddress
+        });
+      }
     });
 
-    // ClawSats-specific methods
-    this.rpcServer.addMethod('createPaymentChallenge', async (params: any) => {
-      const { providerAmount, derivationPrefix } = params;
-      return this.walletManager.createPaymentChallenge(providerAmount, derivationPrefix);
-    });
+    this.capabilityRegistry.register({
+      name: 'load_context',
+      description: 'Load agent context via Indelible bridge (feature-flagged Phase A integration).',
+      pricePerCall: 10,
+      tags: ['memory', 'recall', 'indelible'],
+      handler: async (params: any) => {
+        const agentAddress = resolveAgentAddress(params);
+        if (!agentAddress) {
+          throw new Error('agentAddress required (or set CLAWSATS_INDELIBLE_DEFAULT_AGENT_ADDRESS)');
+        }
 
-    this.rpcServer.addMethod('verifyPayment', async (params: any) => {
-      const { txid, expectedOutputs } = params;
-      return this.walletManager.verifyPayment(txid, expectedOutputs);
-    });
+        const requestedNumSessions = Number(params?.numSessions);
+        const numSessions = Number.isFinite(requestedNumSessions) && requestedNumSessions > 0
+          ? Math.min(20, Math.floor(requestedNumSessions))
+          : 3;
 
-    this.rpcServer.addMethod('getConfig', async () => {
-      // SECURITY: Never expose rootKeyHex over any endpoint.
-      const config = this.walletManager.getConfig();
-      if (!config) return null;
-      const { rootKeyHex, ...safeConfig } = config;
-      return safeConfig;
+        return callIndelible('/api/agents/load', {
+          agentAddress,
+          numSessions,
+          operatorAddress
+        });
+      }
     });
 
-    // Utility methods
-    this.rpcServer.addMethod('ping', async () => {
-      return { status: 'pong', timestamp: new Date().toISOString() };
-    });
+    log(TAG, `Indelible integration enabled: save_context/load_context registered (${baseUrl})`);
+  }
 
-    this.rpcServer.addMethod('getCapabilities', async () => {
-      const config = this.walletManager.getConfig();
-      return {
-        brc100: config?.capabilities || [],
-        clawsats: ['createPaymentChallenge', 'verifyPayment', 'getConfig'],
-        paid: this.capabilityRegistry.list().map(c => ({
-          name: c.name,
-          description: c.description,
-          pricePerCall: c.pricePerCall
-        }))
-      };
-    });
+  /**
+   * Register teach capabilities for each course this Claw has completed.
+   * A Claw that passed bsv-101 gets a "teach_bsv-101" paid capability.
+   * Other Claws pay to receive the course material + quiz.
+   * This is how BSV education spreads through the network.
+   */
+  private registerTeachCapabilities(): void {
+    const completedIds = this.courseManager.getCompletedCourseIds();
+    if (completedIds.length === 0) return;
 
-    // Peer management methods
-    this.rpcServer.addMethod('listPeers', async () => {
-      return {
-        peers: this.peerRegistry.getAllPeers(),
-        total: this.peerRegistry.size()
-      };
-    });
+    const identityKey = this.walletManager.getConfig()?.identityKey || 'unknown';
 
-    this.rpcServer.addMethod('sendInvitation', async (params: any) => {
-      const { endpoint } = params;
-      if (!endpoint) throw new Error('Missing required param: endpoint');
+    for (const courseId of completedIds) {
+      const material = this.courseManager.getTeachingMaterial(courseId);
+      if (!material) continue;
 
-      const config = this.walletManager.getConfig();
-      if (!config) throw new Error('Wallet not initialized');
+      this.capabilityRegistry.register({
+        name: `teach_${courseId}`,
+        description: `BSV Cluster Course: ${material.course.title}. Level ${material.course.level}. ${material.course.summary}`,
+        pricePerCall: material.course.teachPrice,
+        tags: ['education', 'bsv', material.course.category, `level-${material.course.level}`],
+        handler: async (params: any) => {
+          // Record that we taught this course
+          const learnerKey = params?.learnerIdentityKey || 'anonymous';
+          this.courseManager.recordTeaching(courseId, learnerKey);
 
-      const discoveryRes = await fetch(`${endpoint}/discovery`, {
-        signal: AbortSignal.timeout(10000)
+          return {
+            courseId: material.course.id,
+            title: material.course.title,
+            level: material.course.level,
+            prerequisites: material.course.prerequisites,
+            category: material.course.category,
+            content: material.course.content,
+            quiz: material.course.quiz.map(q => ({
+              question: q.question,
+              options: q.options,
+              correctHash: q.correctHash
+            })),
+            passingScore: material.course.passingScore,
+            version: material.course.version,
+            taughtBy: identityKey,
+            taughtAt: new Date().toISOString()
+          };
+        }
       });
-      if (!discoveryRes.ok) {
-        throw new Error(`Recipient discovery failed (${discoveryRes.status})`);
-      }
-      const discovery: any = await discoveryRes.json();
-      const recipientIdentityKey = String(discovery?.identityKey || '');
-      if (!/^(02|03)[0-9a-fA-F]{64}$/.test(recipientIdentityKey)) {
-        throw new Error('Recipient discovery response did not include a valid identityKey');
-      }
 
-      const wallet = this.walletManager.getWallet();
-      const sharing = new SharingProtocol(config, wallet);
-      const invitation = await sharing.createInvitation(`claw://${recipientIdentityKey.substring(0, 16)}`, {
-        recipientEndpoint: endpoint,
-        recipientIdentityKey,
-        senderEndpoint: this.publicEndpoint || undefined
-      });
+      log(TAG, `Registered teach capability: teach_${courseId} (${material.course.teachPrice} sats)`);
+    }
+  }
 
-      const res = await fetch(`${endpoint}/wallet/invite`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(invitation),
-        signal: AbortSignal.timeout(10000)
-      });
+  getCourseManager(): CourseManager {
+    return this.courseManager;
+  }
 
-      if (!res.ok) {
-        const body = await res.text();
-        throw new Error(`Invitation rejected (${res.status}): ${body}`);
-      }
+  getApp(): express.Application {
+    return this.app;
+  }
 
-      const response: any = await res.json();
+  getPeerRegistry(): PeerRegistry {
+    return this.peerRegistry;
+  }
 
-      // If they responded with an announcement, register them as a peer
-      if (response.announcement?.identityKey) {
-        this.peerRegistry.addPeer({
-          clawId: response.announcement.clawId || '',
-          identityKey: response.announcement.identityKey,
-          endpoint,
-          capabilities: response.announcement.capabilities?.map((c: any) => c.name) || [],
-          chain: config.chain,
-          lastSeen: new Date().toISOString(),
-          reputation: 50
-        });
-      }
+  getCapabilityRegistry(): CapabilityRegistry {
+    return this.capabilityRegistry;
+  }
 
-      log(TAG, `Invitation sent to ${endpoint} — accepted: ${response.accepted}`);
-      return { accepted: response.accepted, peersKnown: this.peerRegistry.size() };
-    });
+  getServerInfo(): { host: string; port: number; apiKey: boolean } {
+    return {
+      host: this.host,
+      port: this.port,
+      apiKey: !!this.apiKey
+    };
+  }
 
-    // Referral system methods
-    this.rpcServer.addMethod('listReferrals', async () => {
-      const entries: { introducer: string; earnedSats: number }[] = [];
-      for (const [key, sats] of this.referralLedger) {
-        entries.push({ introducer: key, earnedSats: sats });
-      }
-      return {
-        referrals: entries,
-        totalEarned: entries.reduce((sum, e) => sum + e.earnedSats, 0),
-        trackedIntroductions: this.referralMap.size
-      };
+  /**
+   * Create 402 challenge headers and record the challenge server-side so the
+   * paid retry can be bound to this capability, price, caller and expiry.
+   */
+  private issuePaymentChallenge(
+    capability: string,
+    satoshis: number,
+    callerIdentityKey?: string,
+    paramsHash?: string
+  ): Record<string, string> {
+    const headers = this.walletManager.createPaymentChallenge(satoshis);
+    const challenge = this.challengeStore.issue({
+      derivationPrefix: headers['x-bsv-payment-derivation-prefix'],
+      capability,
+      satoshis,
+      callerIdentityKey,
+      paramsHash
     });
+    headers['x-clawsats-challenge-expires'] = new Date(challenge.expiresAt).toISOString();
+    return headers;
+  }
 
-    // Search capabilities across known peers — how unique Claws get discovered
-    this.rpcServer.addMethod('searchCapabilities', async (params: any) => {
-      const { tags, name, maxResults = 20 } = params || {};
-      if (!tags && !name) throw new Error('Provide tags (string[]) or name (string) to search');
-
-      const results: any[] = [];
-      const peers = this.peerRegistry.getAllPeers();
+  /**
+   * 402 for a hash-locked call: run the verifiable capability now, commit to
+   * the sha256 of its canonical result, and ask for output 0 locked to that
+   * hash and our BRC-29 child key for the caller. The result is held with the
+   * challenge until the payment is claimed. Returns false (nothing sent) when
+   * the result is too large to reveal on-chain — the caller then gets a
+   * standard challenge.
+   */
+  private async issueHashlockChallenge(
+    req: express.Request,
+    res: express.Response,
+    capName: string,
+    cap: CapabilityHandler,
+    quote: PriceQuote
+  ): Promise<boolean> {
+    const callerKey = req.headers['x-bsv-identity-key'] as string || '';
+    if (!IDENTITY_KEY_RE.test(callerKey)) {
+      res.status(400).json({
+        status: 'error',
+        code: 'ERR_IDENTITY_REQUIRED',
+        description: 'Hash-locked payments need x-bsv-identity-key: the lock pays a key derived for the caller.'
+      });
+      return true;
+    }
 
-      for (const peer of peers) {
-        if (!peer.endpoint || results.length >= maxResults) break;
-        try {
-          const discRes = await fetch(`${peer.endpoint}/discovery`, {
-            signal: AbortSignal.timeout(5000)
-          });
-          if (!discRes.ok) continue;
-          const info: any = await discRes.json();
-          if (!info.paidCapabilities) continue;
-
-          for (const cap of info.paidCapabilities) {
-            if (name && cap.name === name) {
-              results.push({ peer: peer.identityKey, endpoint: peer.endpoint, capability: cap });
-            } else if (tags && Array.isArray(tags) && cap.tags) {
-              const matchedTags = tags.filter((t: string) => cap.tags.includes(t));
-              if (matchedTags.length > 0) {
-                results.push({ peer: peer.identityKey, endpoint: peer.endpoint, capability: cap, matchedTags });
-              }
-            }
-          }
-        } catch { /* peer unreachable */ }
-      }
+    const wallet = this.walletManager.getWallet();
+    let result: unknown;
+    try {
+      result = await cap.handler(req.body, wallet);
+    } catch (handlerErr) {
+      const msg = handlerErr instanceof Error ? handlerErr.message : String(handlerErr);
+      res.status(500).json({
+        status: 'error',
+        code: 'ERR_CAPABILITY_FAILED',
+        description: `Capability failed before payment: ${msg}`
+      });
+      return true;
+    }
+    if (hashlockPreimage(result).length > HASHLOCK_MAX_RESULT_BYTES) {
+      logWarn(TAG, `${capName} result exceeds ${HASHLOCK_MAX_RESULT_BYTES} bytes — falling back to a standard challenge`);
+      return false;
+    }
 
-      return {
-        results,
-        peersSearched: peers.length,
-        timestamp: new Date().toISOString()
-      };
+    const commitment = hashlockCommitment(result);
+    const headers = this.walletManager.createPaymentChallenge(quote.satoshis);
+    const derivationPrefix = headers['x-bsv-payment-derivation-prefix'];
+    const { publicKey } = await wallet.getPublicKey({
+      protocolID: BRC29_PROTOCOL_ID,
+      keyID: `${derivationPrefix} ${HASHLOCK_DERIVATION_SUFFIX}`,
+      counterparty: callerKey,
+      forSelf: true
+    });
+    const lockingScript = buildHashlockLockingScript(commitment, publicKey);
+    const challenge = this.challengeStore.issue({
+      derivationPrefix,
+      capability: capName,
+      satoshis: quote.satoshis,
+      callerIdentityKey: callerKey,
+      paramsHash: hashParams(req.body),
+      hashlock: { commitment, lockingScript, result }
+    });
+    headers['x-clawsats-challenge-expires'] = new Date(challenge.expiresAt).toISOString();
+    headers['x-clawsats-payment-mode'] = 'hashlock';
+    headers['x-clawsats-hashlock-commitment'] = commitment;
+
+    res.status(402);
+    res.setHeader('x-bsv-identity-key', this.walletManager.getConfig()?.identityKey || '');
+    for (const [key, value] of Object.entries(headers)) {
+      res.setHeader(key, value);
+    }
+    res.json({
+      status: 'error',
+      code: 'ERR_PAYMENT_REQUIRED',
+      capability: capName,
+      satoshisRequired: quote.satoshis,
+      description: cap.description,
+      pricing: describePricing(cap),
+      quote,
+      paymentMode: 'hashlock',
+      hashlock: {
+        commitment,
+        derivationPrefix,
+        derivationSuffix: HASHLOCK_DERIVATION_SUFFIX,
+        lockingScript,
+        template: 'OP_SHA256 <commitment> OP_EQUALVERIFY <provider BRC-29 key> OP_CHECKSIG'
+      },
+      challenge: headers
     });
+    return true;
+  }
 
-    // Hire another Claw from this Claw's wallet (handles 402 challenge/pay/retry).
-    this.rpcServer.addMethod('hireClaw', async (params: any) => {
-      const targetEndpointRaw = typeof params?.endpoint === 'string' ? params.endpoint.trim() : '';
-      const capabilityRaw = typeof params?.capability === 'string' ? params.capability.trim() : '';
-      const requestedParams = params?.params;
-      const maxTotalSatsRaw = params?.maxTotalSats;
-      const timeoutMsRaw = params?.timeoutMs;
-      const derivationSuffixRaw = typeof params?.derivationSuffix === 'string' ? params.derivationSuffix.trim() : 'clawsats';
-
-      if (!targetEndpointRaw) throw new Error('Missing required param: endpoint');
-      if (!capabilityRaw) throw new Error('Missing required param: capability');
-      if (!/^[a-z0-9_:-]{2,80}$/i.test(capabilityRaw)) {
-        throw new Error('Invalid capability format.');
-      }
+  /**
+   * Verify and internalize an x-bsv-payment for `capName` (a capability or
+   * 'batch'): replay check, challenge claim, amount and fee-output checks, then
+   * internalizeAction. On rejection the error response is already sent and
+   * null is returned. `quote` is the current price of the request's params.
+   */
+  private async acceptPayment(
+    req: express.Request,
+    res: express.Response,
+    capName: string,
+    bsvPaymentHeader: string,
+    quote: PriceQuote
+  ): Promise<{
+    price: number;
+    txid: string;
+    senderIdentityKey: string;
+    hashlock?: HashlockCommitment & { claimTxid: string | null; claimTransaction: string };
+  } | null> {
+    // Parse the x-bsv-payment JSON header (BRC-105 §6.3)
+    // Format: { derivationPrefix, derivationSuffix, transaction }
+    // transaction is AtomicBEEF encoded as base64
+    let paymentData: { derivationPrefix: string; derivationSuffix: string; transaction: string };
+    try {
+      paymentData = JSON.parse(bsvPaymentHeader);
+    } catch {
+      res.status(400).json({
+        status: 'error',
+        code: 'ERR_MALFORMED_PAYMENT',
+        description: 'The x-bsv-payment header is not valid JSON.'
+      });
+      return null;
+    }
 
-      const targetEndpoint = targetEndpointRaw.replace(/\/+$/, '');
-      if (!this.isValidPeerEndpoint(targetEndpoint)) {
-        throw new Error('endpoint must be a valid public http/https URL.');
-      }
-      const callParams = this.normalizeCapabilityCallParams(capabilityRaw, requestedParams);
-      const maxTotalSats = Number.isFinite(Number(maxTotalSatsRaw)) ? Math.max(0, Math.floor(Number(maxTotalSatsRaw))) : null;
-      const timeoutMs = Number.isFinite(Number(timeoutMsRaw))
-        ? Math.min(90_000, Math.max(5_000, Math.floor(Number(timeoutMsRaw))))
-        : 30_000;
-      const derivationSuffix = derivationSuffixRaw || 'clawsats';
-      if (derivationSuffix.length > 128) throw new Error('derivationSuffix is too long.');
+    if (!paymentData.derivationPrefix || !paymentData.transaction) {
+      res.status(400).json({
+        status: 'error',
+        code: 'ERR_MALFORMED_PAYMENT',
+        description: 'x-bsv-payment must include derivationPrefix and transaction.'
+      });
+      return null;
+    }
 
-      const config = this.walletManager.getConfig();
-      const callerIdentityKey = config?.identityKey;
-      if (!callerIdentityKey) {
-        throw new Error('Wallet config is unavailable.');
-      }
+    const senderIdentityKey = req.headers['x-bsv-identity-key'] as string || '';
+    log(TAG, `Payment received for ${capName} from ${senderIdentityKey.substring(0, 16) || 'unknown'}...`);
+
+    // PAYMENT REPLAY PROTECTION (Finding 2): the provider output (txid:0) may only
+    // ever buy one call. Keyed by txid rather than the encoded bytes, so re-wrapping
+    // the same tx as raw/BEEF/AtomicBEEF doesn't get past it, and persisted on disk.
+    const txBytes = Array.from(Buffer.from(paymentData.transaction, 'base64'));
+    const txid = this.readPaymentTxid(txBytes);
+    if (!txid) {
+      res.status(400).json({
+        status: 'error',
+        code: 'ERR_MALFORMED_PAYMENT',
+        description: 'x-bsv-payment transaction is not valid AtomicBEEF, BEEF or raw tx.'
+      });
+      return null;
+    }
+    if (this.replayLedger.has(txid, 0)) {
+      logWarn(TAG, `Payment replay detected for ${capName}: ${txid.substring(0, 16)}...`);
+      res.status(402).json({
+        status: 'error',
+        code: 'ERR_PAYMENT_REPLAY',
+        description: 'This payment has already been used. Send a new payment.'
+      });
+      return null;
+    }
 
-      const callUrl = `${targetEndpoint}/call/${encodeURIComponent(capabilityRaw)}`;
+    // SIGNED QUOTE: a quote presented with the payment (x-clawsats-quote) is
+    // honored even if its challenge was lost to a restart — our signature on
+    // it is the record, and the replay ledger says whether its prefix was used.
+    const quoteHeader = req.headers['x-clawsats-quote'] as string;
+    if (quoteHeader && !this.challengeStore.get(paymentData.derivationPrefix)) {
+      await this.restoreQuotedChallenge(quoteHeader, paymentData.derivationPrefix);
+    }
 
-      const challengeRes = await fetch(callUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-bsv-identity-key': callerIdentityKey
-        },
-        body: JSON.stringify(callParams),
-        signal: AbortSignal.timeout(timeoutMs)
+    // CHALLENGE BINDING: the prefix must be one we issued for this capability
+    // (and caller, if they identified themselves), unexpired and unused.
+    // The price is whatever that challenge quoted; quotes also bind the params.
+    const claim = this.challengeStore.claim(paymentData.derivationPrefix, {
+      capability: capName,
+      callerIdentityKey: senderIdentityKey,
+      paramsHash: hashParams(req.body)
+    });
+    if (!claim.valid) {
+      logWarn(TAG, `Challenge rejected for ${capName}: ${claim.code}`);
+      res.status(402).json({ status: 'error', code: claim.code, description: claim.reason });
+      return null;
+    }
+    const price = claim.challenge.satoshis;
+
+    // The paid retry must not ask for more than the challenge was quoted for
+    // (e.g. a larger maxBytes than the params that earned the 402). Signed
+    // quotes are already bound to their params and keep their price.
+    if (!claim.challenge.quoteId && quote.satoshis > price) {
+      this.challengeStore.release(paymentData.derivationPrefix);
+      res.status(402).json({
+        status: 'error',
+        code: 'ERR_QUOTE_EXCEEDED',
+        description: `These params are quoted at ${quote.satoshis} sats but the challenge was issued for ${price}. Request a new challenge with the same params.`,
+        quote
       });
+      return null;
+    }
 
-      if (challengeRes.ok) {
-        const freeResult = await challengeRes.json().catch(() => null);
-        return {
-          mode: 'free-trial',
-          endpoint: targetEndpoint,
-          capability: capabilityRaw,
-          satoshisPaid: 0,
-          result: freeResult
-        };
-      }
-
-      if (challengeRes.status !== 402) {
-        const errBody = await challengeRes.text().catch(() => '');
-        throw new Error(`Unexpected ${challengeRes.status} from provider: ${errBody.slice(0, 300)}`);
-      }
+    // HASHLOCK: output 0 must be the exact lock we committed to — our derived
+    // key and the hash of the result we are holding for this challenge.
+    const hashlock = claim.challenge.hashlock;
+    if (hashlock && this.readOutputLockingScript(txBytes, 0) !== hashlock.lockingScript) {
+      this.challengeStore.release(paymentData.derivationPrefix);
+      res.status(402).json({
+        status: 'error',
+        code: 'ERR_HASHLOCK_MISMATCH',
+        description: 'Output 0 does not carry the hash-locked script for this challenge\'s commitment.'
+      });
+      return null;
+    }
 
-      const satoshisRequired = parseInt(challengeRes.headers.get('x-bsv-payment-satoshis-required') || '0', 10);
-      const derivationPrefix = challengeRes.headers.get('x-bsv-payment-derivation-prefix') || '';
-      const providerIdentityKey = challengeRes.headers.get('x-bsv-identity-key') || '';
-      const feeIdentityKey = challengeRes.headers.get('x-clawsats-fee-identity-key') || FEE_IDENTITY_KEY;
-      const feeSats = parseInt(challengeRes.headers.get('x-clawsats-fee-satoshis-required') || String(FEE_SATS), 10);
+    // STRICT PAYMENT GATE: internalize output 0 (provider's payment) via BRC-105 §6.4.
+    // If internalizeAction fails, the payment is invalid — DO NOT execute the capability.
+    // This prevents attackers from sending garbage payments and getting free work.
+    const wallet = this.walletManager.getWallet();
+    const outputSats = this.readOutputSatoshis(txBytes, 0);
+    if (outputSats !== null && outputSats < price) {
+      this.challengeStore.release(paymentData.derivationPrefix);
+      res.status(402).json({
+        status: 'error',
+        code: 'ERR_UNDERPAYMENT',
+        description: `Payment too low: output 0 carries ${outputSats} sats, need ${price}.`
+      });
+      return null;
+    }
 
-      if (!derivationPrefix || satoshisRequired <= 0) {
-        throw new Error('Invalid payment challenge: missing derivation prefix or satoshi amount.');
-      }
-      if (!/^(02|03)[0-9a-fA-F]{64}$/.test(providerIdentityKey)) {
-        throw new Error('Provider did not return a valid identity key.');
-      }
-      if (maxTotalSats !== null && satoshisRequired + feeSats > maxTotalSats) {
-        throw new Error(`Payment challenge is ${satoshisRequired + feeSats} sats, above maxTotalSats=${maxTotalSats}.`);
+    // FEE VERIFICATION: derive the exact BRC-29 treasury script for this prefix
+    // (FEE_IDENTITY_KEY + FEE_DERIVATION_SUFFIX, 'anyone' counterparty) and
+    // require an output beyond index 0 that pays it at least FEE_SATS. Checked
+    // BEFORE internalizing so a rejected payment costs the caller nothing.
+    const feeCheck = findFeeOutput(txBytes, paymentData.derivationPrefix);
+    if (!feeCheck.found) {
+      logWarn(TAG, `Fee output check failed for ${capName}: ${feeCheck.reason}`);
+      this.challengeStore.release(paymentData.derivationPrefix);
+      res.status(402).json({
+        status: 'error',
+        code: 'ERR_MISSING_FEE',
+        description: `Payment must include a ${FEE_SATS}-sat fee output to the BRC-29 derived ClawSats treasury script (${feeCheck.reason}). See x-clawsats-fee-identity-key header.`
+      });
+      return null;
+    }
+    let claimed: { claimTxid: string | null; claimTransaction: string } | undefined;
+    let internResult: any = null;
+    try {
+      if (hashlock) {
+        // A hash-locked output isn't a wallet payment: we take it by spending it
+        // with the committed result, which is what releases the result on-chain.
+        claimed = await this.claimHashlockOutput(txBytes, txid, paymentData.derivationPrefix, senderIdentityKey, hashlock, capName);
+      } else {
+        internResult = await wallet.internalizeAction({
+          tx: txBytes,
+          outputs: [{
+            outputIndex: 0,
+            protocol: 'wallet payment',
+            paymentRemittance: {
+              derivationPrefix: paymentData.derivationPrefix,
+              derivationSuffix: paymentData.derivationSuffix || 'clawsats',
+              senderIdentityKey
+            }
+          }],
+          description: `ClawSats payment for ${capName} (${price} sats + ${FEE_SATS} sat fee)`
+        });
       }
 
-      const wallet = this.walletManager.getWallet();
-      const providerScript = await this.deriveBRC29LockingScript(
-        wallet,
-        providerIdentityKey,
-        derivationPrefix,
-        derivationSuffix
-      );
-      const feeScript = await this.deriveBRC29LockingScript(
-        wallet,
-        feeIdentityKey,
-        derivationPrefix,
-        'fee'
-      );
+      // Mark this payment as used as soon as it is internalized — even if the
+      // amount check below rejects it, the output is ours and must not be reused.
+      this.replayLedger.record({
+        txid,
+        outputIndex: 0,
+        capability: capName,
+        derivationPrefix: paymentData.derivationPrefix,
+        callerIdentityKey: senderIdentityKey,
+        satoshis: price
+      });
 
-      const actionResult = await wallet.createAction({
-        description: `Claw hire: ${capabilityRaw} (${satoshisRequired} + ${feeSats} sats)`,
-        outputs: [
-          {
-            satoshis: satoshisRequired,
-            lockingScript: providerScript,
-            outputDescription: `Claw hire provider payment (${capabilityRaw})`
-          },
-          {
-            satoshis: feeSats,
-            lockingScript: feeScript,
-            outputDescription: 'ClawSats protocol fee'
-          }
-        ],
-        labels: ['clawsats-hire'],
-        options: {
-          acceptDelayedBroadcast: false,
-          signAndProcess: true,
-          randomizeOutputs: false
+      // AMOUNT VERIFICATION (Finding 1): check that the internalized output
+      // actually covers the capability price. internalizeAction succeeds if the
+      // script matches, but doesn't enforce amount — we must check it ourselves.
+      if (internResult && typeof internResult.accepted === 'object') {
+        // If the wallet returns output details, verify amount
+        const acceptedSats = internResult.accepted?.satoshis;
+        if (typeof acceptedSats === 'number' && acceptedSats < price) {
+          logWarn(TAG, `Underpayment for ${capName}: got ${acceptedSats}, need ${price}`);
+          res.status(402).json({
+            status: 'error',
+            code: 'ERR_UNDERPAYMENT',
+            description: `Payment too low: received ${acceptedSats} sats, need ${price}.`
+          });
+          return null;
         }
-      });
+      }
 
-      const paymentHeader = JSON.stringify({
-        derivationPrefix,
-        derivationSuffix,
-        transaction: this.extractActionTxBase64(actionResult)
-      });
 
-      const paidRes = await fetch(callUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-bsv-identity-key': callerIdentityKey,
-          'x-bsv-payment': paymentHeader
-        },
-        body: JSON.stringify(callParams),
-        signal: AbortSignal.timeout(timeoutMs)
+      log(TAG, `Auto-accepted payment for ${capName}: ${price} sats + ${FEE_SATS} sat fee verified`);
+    } catch (internErr) {
+      // Payment verification FAILED — reject the request.
+      const errMsg = internErr instanceof Error ? internErr.message : String(internErr);
+      logWarn(TAG, `Payment rejected for ${capName}: ${errMsg}`);
+      this.challengeStore.release(paymentData.derivationPrefix);
+      res.status(402).json({
+        status: 'error',
+        code: 'ERR_PAYMENT_INVALID',
+        description: `Payment could not be verified: ${errMsg}. Send a valid BRC-105 payment.`
       });
+      return null;
+    }
 
-      if (!paidRes.ok) {
-        const errBody = await paidRes.text().catch(() => '');
-        throw new Error(`Provider rejected paid call (${paidRes.status}): ${errBody.slice(0, 320)}`);
-      }
+    return { price, txid, senderIdentityKey, hashlock: hashlock && claimed ? { ...hashlock, ...claimed } : undefined };
+  }
 
-      const result = await paidRes.json().catch(() => null);
-      return {
-        mode: 'paid',
-        endpoint: targetEndpoint,
-        capability: capabilityRaw,
-        satoshisPaid: satoshisRequired + feeSats,
-        providerSats: satoshisRequired,
-        feeSats,
-        txid: actionResult?.txid || null,
-        result
-      };
+  /**
+   * Spend a hash-locked payment output into our wallet. The unlocking script
+   * carries our signature and the committed result; the wallet adds change and
+   * broadcasts. Throws if the funding tx or the claim is rejected.
+   */
+  private async claimHashlockOutput(
+    txBytes: number[],
+    txid: string,
+    derivationPrefix: string,
+    requesterIdentityKey: string,
+    hashlock: HashlockCommitment,
+    capName: string
+  ): Promise<{ claimTxid: string | null; claimTransaction: string }> {
+    const wallet = this.walletManager.getWallet();
+    const fundingTx = parsePaymentTransaction(txBytes);
+    const unlock = hashlockUnlock(wallet, { derivationPrefix, requesterIdentityKey }, hashlockPreimage(hashlock.result));
+    const created = await wallet.createAction({
+      description: `ClawSats hashlock claim for ${capName}`,
+      inputBEEF: txBytes,
+      inputs: [{
+        outpoint: `${txid}.0`,
+        unlockingScriptLength: await unlock.estimateLength(),
+        inputDescription: `Hash-locked payment for ${capName}`
+      }],
+      labels: ['clawsats-hashlock'],
+      options: { randomizeOutputs: false }
     });
+    const signable = created?.signableTransaction;
+    if (!signable?.tx || !signable.reference) {
+      throw new Error('Wallet did not return a signable hashlock claim');
+    }
+    const claimTx = parsePaymentTransaction(signable.tx);
+    const inputIndex = claimTx.inputs.findIndex(input =>
+      (input.sourceTXID ?? input.sourceTransaction?.id('hex')) === txid && input.sourceOutputIndex === 0
+    );
+    if (inputIndex < 0) throw new Error('Hashlock claim does not spend the payment output');
+    claimTx.inputs[inputIndex].sourceTransaction = claimTx.inputs[inputIndex].sourceTransaction || fundingTx;
+    const unlockingScript = await unlock.sign(claimTx, inputIndex);
+    const signed = await wallet.signAction({
+      reference: signable.reference,
+      spends: { [inputIndex]: { unlockingScript: unlockingScript.toHex() } }
+    });
+    log(TAG, `Claimed hash-locked payment for ${capName}: ${signed?.txid || 'pending'}`);
+    return { claimTxid: signed?.txid || null, claimTransaction: this.extractActionTxBase64(signed) };
+  }
 
-    // Receipt verification — any Claw can verify a receipt from another Claw
-    this.rpcServer.addMethod('verifyReceipt', async (params: any) => {
-      const { receipt } = params;
-      if (!receipt || !receipt.receiptId) throw new Error('Missing receipt');
-      if (!receipt.signature) return { valid: false, reason: 'Unsigned receipt' };
+  /**
+   * The `arbitrate` capability: rule on a disputed escrow naming this Claw as
+   * arbiter. The provider is paid if a delivery it signed for these terms was
+   * successful and comes with the matching result — from the claimant or
+   * fetched from the provider's /escrow/:id/evidence — otherwise the requester
+   * is refunded. The ruling carries our signature over the winner's
+   * settlement and is final: later calls for the same escrow return it.
+   */
+  private registerArbitrateCapability(): void {
+    this.capabilityRegistry.register({
+      name: 'arbitrate',
+      description: 'Rule on a disputed 2-of-3 escrow and co-sign the winning settlement. Params: { terms, fundingTransaction, claimant, reason, delivery?, result? }',
+      pricePerCall: ARBITRATE_PRICE_SATS,
+      tags: ['trust', 'escrow', 'arbitration'],
+      handler: async (params: any, wallet: any) => {
+        const terms: EscrowTerms = params?.terms;
+        const arbiterKey = this.walletManager.getConfig()?.identityKey || '';
+        const termsProblem = checkEscrowTerms(terms);
+        if (termsProblem) throw new Error(`Invalid escrow terms: ${termsProblem}`);
+        if (terms.arbiter !== arbiterKey) throw new Error('These escrow terms do not name this Claw as arbiter');
+        const existing = this.escrows.get(terms.escrowId);
+        if (existing?.ruling) {
+          if (canonicalJson(existing.terms) !== canonicalJson(terms)) throw new Error(`Escrow ${terms.escrowId} was already ruled on under different terms`);
+          return existing.ruling;
+        }
+        if (this.arbitrating.has(terms.escrowId)) throw new Error(`Escrow ${terms.escrowId} is already being arbitrated`);
+        this.arbitrating.add(terms.escrowId);
+        try {
+          const transaction = typeof params?.fundingTransaction === 'string' ? params.fundingTransaction : '';
+          const fundingTx = parsePaymentTransaction(Array.from(Buffer.from(transaction, 'base64')));
+          if (findEscrowOutput(fundingTx, terms) < 0) throw new Error('fundingTransaction does not carry the escrow output for these terms');
+
+          // Weigh the claimant's evidence and the provider's own: a requester
+          // can't win by withholding or altering the result it received.
+          const evidence: Array<{ delivery?: EscrowDelivery; result?: unknown }> = [
+            { delivery: params?.delivery, result: params?.result }
+          ];
+          try {
+            const request = await signEscrowStatement<EscrowEvidenceRequest>(wallet, {
+              type: 'clawsats-escrow-evidence-request',
+              escrowId: terms.escrowId,
+              arbiter: arbiterKey,
+              nonce: randomBytes(16).toString('hex'),
+              requestedAt: new Date().toISOString()
+            });
+            const evRes = await fetch(`${terms.providerEndpoint}/escrow/${terms.escrowId}/evidence`, {
+              headers: { 'x-clawsats-escrow-evidence': JSON.stringify(request) },
+              signal: AbortSignal.timeout(10_000)
+            });
+            if (evRes.ok) evidence.push(await evRes.json() as { delivery?: EscrowDelivery; result?: unknown });
+          } catch { /* provider unreachable — rule on what we have */ }
+          let decision = decideDispute(terms, { deliveryVerified: false });
+          for (const item of evidence) {
+            const deliveryVerified = Boolean(item.delivery) && await verifyEscrowStatement(item.delivery!, terms.provider);
+            const candidate = decideDispute(terms, { delivery: item.delivery, deliveryVerified, result: item.result });
+            if (candidate.winner === 'provider') {
+              decision = candidate;
+              break;
+            }
+            if (item.delivery) decision = candidate;
+          }
 
-      const wallet = this.walletManager.getWallet();
-      const { signature, ...data } = receipt;
-      try {
-        const result = await wallet.verifySignature({
-          data: Array.from(Buffer.from(canonicalJson(data), 'utf8')),
-          signature: Array.from(Buffer.from(signature, 'base64')),
-          protocolID: [0, 'clawsats receipt'],
-          keyID: 'receipt-v1'
-        });
-        return {
-          valid: result.valid === true,
-          receipt: data,
-          verifiedAt: new Date().toISOString()
-        };
-      } catch (err) {
-        const msg = err instanceof Error ? err.message : String(err);
-        return { valid: false, reason: msg };
+          const settlementSignature = await signSettlement(wallet, terms, buildSettlementTx(terms, fundingTx, decision.winner));
+          const ruling = await signEscrowStatement<EscrowRuling>(wallet, {
+            type: 'clawsats-escrow-ruling',
+            escrowId: terms.escrowId,
+            arbiter: arbiterKey,
+            winner: decision.winner,
+            reason: decision.reason,
+            settlementSignature,
+            decidedAt: new Date().toISOString()
+          });
+          const claimant: EscrowParty = params?.claimant === 'provider' ? 'provider' : 'requester';
+          this.escrows.create({ terms, role: 'arbiter', status: 'resolved', note: `ruled for ${decision.winner}` });
+          this.escrows.update(terms.escrowId, r => {
+            r.funding = { txid: fundingTx.id('hex'), transaction };
+            r.dispute = { raisedBy: claimant, reason: String(params?.reason || '').slice(0, 500), raisedAt: ruling.decidedAt };
+            r.ruling = ruling;
+            r.settlementSignatures[decision.winner] = { arbiter: settlementSignature };
+          });
+          log(TAG, `Escrow ${terms.escrowId} arbitrated for the ${decision.winner}: ${decision.reason}`);
+          return ruling;
+        } finally {
+          this.arbitrating.delete(terms.escrowId);
+        }
       }
     });
+  }
 
-    // ── BSV Cluster Courses RPC Methods ────────────────────────────────
+  /**
+   * Check the x-clawsats-escrow-evidence header on GET /escrow/:id/evidence:
+   * a fresh, single-use request for this escrow signed by its arbiter.
+   */
+  private async checkEvidenceRequest(
+    terms: EscrowTerms,
+    headerValue: string | undefined
+  ): Promise<{ status: number; code: string; description: string } | null> {
+    const reject = (status: number, code: string, description: string) => ({ status, code, description });
+    if (!headerValue) return reject(401, 'ERR_ESCROW_EVIDENCE_AUTH_REQUIRED', 'Missing x-clawsats-escrow-evidence header.');
+    let request: EscrowEvidenceRequest;
+    try {
+      request = JSON.parse(headerValue);
+    } catch {
+      return reject(400, 'ERR_ESCROW_EVIDENCE_AUTH_MALFORMED', 'The x-clawsats-escrow-evidence header is not valid JSON.');
+    }
+    if (!request || typeof request !== 'object' || request.type !== 'clawsats-escrow-evidence-request' || !request.nonce) {
+      return reject(400, 'ERR_ESCROW_EVIDENCE_AUTH_MALFORMED', 'x-clawsats-escrow-evidence must be a signed evidence request.');
+    }
+    if (request.escrowId !== terms.escrowId || request.arbiter !== terms.arbiter) {
+      return reject(403, 'ERR_ESCROW_EVIDENCE_AUTH_SCOPE', 'Only this escrow\'s arbiter may read its evidence.');
+    }
+    const ts = Date.parse(request.requestedAt);
+    if (!Number.isFinite(ts) || Math.abs(Date.now() - ts) > MAX_CLOCK_SKEW_MS) {
+      return reject(401, 'ERR_ESCROW_EVIDENCE_AUTH_EXPIRED', 'Evidence request timestamp is outside the allowed window.');
+    }
+    if (!await verifyEscrowStatement(request, terms.arbiter)) {
+      return reject(403, 'ERR_ESCROW_EVIDENCE_AUTH_INVALID', 'Invalid evidence request signature.');
+    }
+    const nonceCheck = this.nonceCache.validate(`${terms.escrowId}:${request.nonce}`, MAX_CLOCK_SKEW_MS * 2);
+    if (!nonceCheck.fresh) return reject(401, 'ERR_ESCROW_EVIDENCE_AUTH_REPLAY', nonceCheck.reason || 'Nonce replay detected');
+    return null;
+  }
 
-    // List available courses with completion status
-    this.rpcServer.addMethod('listCourses', async () => {
+  /** Why the provider can't accept these escrow terms, or null if it can. */
+  private checkEscrowProposal(
+    terms: EscrowTerms,
+    params: Record<string, unknown>
+  ): { status: number; code: string; description: string } | null {
+    const invalid = (description: string) => ({ status: 400, code: 'ERR_ESCROW_TERMS', description });
+    const termsProblem = checkEscrowTerms(terms);
+    if (termsProblem) return invalid(termsProblem);
+    if (terms.provider !== this.walletManager.getConfig()?.identityKey) return invalid('terms.provider is not this Claw\'s identity key.');
+    const cap = this.capabilityRegistry.get(String(terms.capability));
+    if (!cap || cap.name === 'arbitrate') {
+      return { status: 404, code: 'ERR_UNKNOWN_CAPABILITY', description: `Capability ${terms.capability} cannot be escrowed here.` };
+    }
+    if (terms.paramsHash !== hashParams(params)) return invalid('terms.paramsHash does not match params.');
+    let quote: PriceQuote;
+    try {
+      quote = quoteCapability(cap, params);
+    } catch (quoteErr) {
+      return { status: 400, code: 'ERR_INVALID_PARAMS', description: quoteErr instanceof Error ? quoteErr.message : String(quoteErr) };
+    }
+    if (!Number.isInteger(terms.satoshis) || terms.satoshis - ESCROW_SETTLEMENT_FEE_SATS < quote.satoshis) {
       return {
-        courses: this.courseManager.listCourses(),
-        completedCount: this.courseManager.getCompletedCourseIds().length,
-        totalAvailable: this.courseManager.courseCount
+        status: 400,
+        code: 'ERR_ESCROW_UNDERFUNDED',
+        description: `${terms.capability} is quoted at ${quote.satoshis} sats; the escrow must lock at least ${quote.satoshis + ESCROW_SETTLEMENT_FEE_SATS} (quote + settlement fee).`
       };
-    });
+    }
+    return null;
+  }
 
-    // Take a course quiz — pass to unlock teach capability
-    this.rpcServer.addMethod('takeCourse', async (params: any) => {
-      const { courseId, answers } = params;
-      if (!courseId) throw new Error('Missing courseId');
-      if (!answers || !Array.isArray(answers)) throw new Error('Missing answers (string[])');
+  /**
+   * The arbiter for a new escrow: the Claw at `requested` (an endpoint), or
+   * the highest-reputation known peer offering `arbitrate` that isn't a party.
+   */
+  private async selectArbiter(requested: unknown, parties: string[]): Promise<{ identityKey: string; endpoint: string }> {
+    if (typeof requested === 'string' && requested.trim()) {
+      const endpoint = requested.trim().replace(/\/+$/, '');
+      if (!this.isValidPeerEndpoint(endpoint)) throw new Error('arbiter must be a valid public http/https URL.');
+      const res = await fetch(`${endpoint}/discovery`, { signal: AbortSignal.timeout(5000) });
+      const info: any = res.ok ? await res.json().catch(() => null) : null;
+      const identityKey = String(info?.identityKey || '');
+      if (!IDENTITY_KEY_RE.test(identityKey)) throw new Error(`${endpoint} did not return a valid identity key.`);
+      if (!(info.paidCapabilities || []).some((c: any) => c?.name === 'arbitrate')) throw new Error(`${endpoint} does not offer arbitrate.`);
+      if (parties.includes(identityKey)) throw new Error('The arbiter must not be the requester or the provider.');
+      return { identityKey, endpoint };
+    }
+    const candidate = this.peerRegistry.getPeersByCapability('arbitrate')
+      .filter(p => p.endpoint && !parties.includes(p.identityKey))
+      .sort((a, b) => b.reputation - a.reputation)[0];
+    if (!candidate) throw new Error('No known peer offers arbitrate. Pass arbiter: <endpoint>.');
+    return { identityKey: candidate.identityKey, endpoint: candidate.endpoint.replace(/\/+$/, '') };
+  }
 
-      const result = this.courseManager.takeQuiz(courseId, answers);
+  private requireEscrow(escrowId: unknown, roles: EscrowParty[]): EscrowRecord {
+    const record = typeof escrowId === 'string' ? this.escrows.get(escrowId) : null;
+    if (!record) throw new Error(`Unknown escrow: ${String(escrowId)}`);
+    if (!roles.includes(record.role)) throw new Error(`This Claw is the ${record.role} of escrow ${record.terms.escrowId}.`);
+    return record;
+  }
 
-      // If passed, register the teach capability immediately
-      if (result.passed) {
-        const material = this.courseManager.getTeachingMaterial(courseId);
-        if (material) {
-          const identityKey = this.walletManager.getConfig()?.identityKey || 'unknown';
-          this.capabilityRegistry.register({
-            name: `teach_${courseId}`,
-            description: `BSV Cluster Course: ${material.course.title}. Level ${material.course.level}. ${material.course.summary}`,
-            pricePerCall: material.course.teachPrice,
-            tags: ['education', 'bsv', material.course.category, `level-${material.course.level}`],
-            handler: async (handlerParams: any) => {
-              const learnerKey = handlerParams?.learnerIdentityKey || 'anonymous';
-              this.courseManager.recordTeaching(courseId, learnerKey);
-              return {
-                courseId: material.course.id,
-                title: material.course.title,
-                level: material.course.level,
-                prerequisites: material.course.prerequisites,
-                category: material.course.category,
-                content: material.course.content,
-                quiz: material.course.quiz.map(q => ({
-                  question: q.question,
-                  options: q.options,
-                  correctHash: q.correctHash
-                })),
-                passingScore: material.course.passingScore,
-                version: material.course.version,
-                taughtBy: identityKey,
-                taughtAt: new Date().toISOString()
-              };
-            }
-          });
-          log(TAG, `New teach capability unlocked: teach_${courseId}`);
+  private escrowFundingTx(record: EscrowRecord): Transaction {
+    if (!record.funding) throw new Error(`Escrow ${record.terms.escrowId} has not been funded`);
+    return parsePaymentTransaction(Array.from(Buffer.from(record.funding.transaction, 'base64')));
+  }
+
+  /** What anyone may see of an escrow: no params or result. */
+  private publicEscrowView(record: EscrowRecord): Record<string, unknown> {
+    return {
+      escrowId: record.terms.escrowId,
+      role: record.role,
+      status: record.status,
+      terms: record.terms,
+      fundingTxid: record.funding?.txid,
+      delivery: record.delivery,
+      dispute: record.dispute,
+      ruling: record.ruling,
+      settlement: record.settlement && { payTo: record.settlement.payTo, txid: record.settlement.txid, settledAt: record.settlement.settledAt },
+      history: record.history,
+      updatedAt: record.updatedAt
+    };
+  }
+
+  /**
+   * Requester side of POST /escrow/:id/fund's response: keep the signed
+   * delivery if it checks out, or settle the refund the provider signed for
+   * a failed job. A delivery that doesn't verify leaves the escrow funded —
+   * the requester's remedy is disputeEscrow.
+   */
+  private async acceptEscrowDelivery(escrowId: string, body: any): Promise<Record<string, unknown>> {
+    const record = this.escrows.get(escrowId)!;
+    const { terms } = record;
+    const delivery: EscrowDelivery = body.delivery;
+    const resultHash = createHash('sha256').update(canonicalJson(body.result)).digest('hex');
+    const problem = !(await verifyEscrowStatement(delivery, terms.provider))
+      ? 'delivery signature does not verify against the provider key'
+      : delivery.escrowId !== escrowId || delivery.paramsHash !== terms.paramsHash || delivery.capability !== terms.capability
+        ? 'delivery is for different terms'
+        : delivery.resultHash !== resultHash
+          ? 'result does not match the signed delivery'
+          : null;
+    if (problem) {
+      logWarn(TAG, `Escrow ${escrowId}: ${problem}`);
+      this.noteReputation(terms.provider, r => r.recordCall(terms.provider, false));
+      return { ...this.publicEscrowView(record), result: body.result, error: problem, next: 'disputeEscrow' };
+    }
+    this.noteReputation(terms.provider, r => r.recordCall(terms.provider, delivery.success));
+
+    this.storeReceipt({ role: 'received', receipt: body.receipt, txid: record.funding?.txid, endpoint: terms.providerEndpoint });
+
+    const refundSignature = typeof body.refundSignature === 'string' ? body.refundSignature : '';
+    if (!delivery.success && refundSignature &&
+        await verifySettlementSignature(terms, buildSettlementTx(terms, this.escrowFundingTx(record), 'requester'), 'provider', refundSignature)) {
+      this.escrows.update(escrowId, r => {
+        r.delivery = delivery;
+        r.result = body.result;
+        r.receipt = body.receipt;
+      });
+      const refunded = await this.completeEscrowSettlement(escrowId, 'requester', { provider: refundSignature }, 'refunded');
+      return { ...this.publicEscrowView(refunded), result: body.result };
+    }
+
+    const delivered = this.escrows.transition(escrowId, 'delivered', delivery.success ? 'result delivered' : 'provider reported failure', r => {
+      r.delivery = delivery;
+      r.result = body.result;
+      r.receipt = body.receipt;
+    });
+    return {
+      ...this.publicEscrowView(delivered),
+      result: body.result,
+      receipt: body.receipt,
+      next: delivery.success ? 'releaseEscrow or disputeEscrow' : 'disputeEscrow'
+    };
+  }
+
+  /**
+   * Verify an arbiter's ruling for one of our escrows, record it, and settle
+   * if it went our way. Safe to repeat: a resolved escrow whose settlement
+   * failed is settled again.
+   */
+  private async applyEscrowRuling(escrowId: string, ruling: EscrowRuling): Promise<EscrowRecord> {
+    const record = this.escrows.get(escrowId)!;
+    const { terms } = record;
+    if (!ruling || ruling.escrowId !== escrowId || ruling.arbiter !== terms.arbiter ||
+        !(await verifyEscrowStatement(ruling, terms.arbiter))) {
+      throw new Error(`Arbiter returned an invalid ruling for escrow ${escrowId}`);
+    }
+    const settlement = buildSettlementTx(terms, this.escrowFundingTx(record), ruling.winner);
+    if (!(await verifySettlementSignature(terms, settlement, 'arbiter', ruling.settlementSignature))) {
+      throw new Error(`Ruling for escrow ${escrowId} carries an invalid settlement signature`);
+    }
+    if (record.status === 'funded' || record.status === 'delivered') {
+      this.escrows.transition(escrowId, 'disputed', 'disputed by the other party');
+    }
+    let resolved = this.escrows.get(escrowId)!;
+    if (resolved.status === 'disputed') {
+      resolved = this.escrows.transition(escrowId, 'resolved', `ruled for ${ruling.winner}: ${ruling.reason}`, r => {
+        r.ruling = ruling;
+        r.settlementSignatures[ruling.winner] = { ...r.settlementSignatures[ruling.winner], arbiter: ruling.settlementSignature };
+      });
+      if (record.role === 'requester' && ruling.winner === 'provider') this.recordEscrowHire(resolved);
+    }
+    if (resolved.status !== 'resolved' || ruling.winner !== record.role) return resolved;
+    return this.completeEscrowSettlement(escrowId, ruling.winner, { arbiter: ruling.settlementSignature }, 'settled');
+  }
+
+  /**
+   * Add our signature to a settlement paying us, complete the 2-of-3 unlock
+   * and internalize the payout (the wallet broadcasts it). `signatures` holds
+   * the other party's signature.
+   */
+  private async completeEscrowSettlement(
+    escrowId: string,
+    payTo: EscrowPayee,
+    signatures: Partial<Record<EscrowParty, string>>,
+    to: EscrowStatus
+  ): Promise<EscrowRecord> {
+    const record = this.escrows.get(escrowId)!;
+    const { terms } = record;
+    if (record.role !== payTo) throw new Error(`Escrow ${escrowId} pays the ${payTo}; this Claw is the ${record.role}`);
+    const wallet = this.walletManager.getWallet();
+    const tx = buildSettlementTx(terms, this.escrowFundingTx(record), payTo);
+    const own = await signSettlement(wallet, terms, tx);
+    completeSettlement(tx, { ...signatures, [record.role]: own });
+    const payout = tx.outputs[0].satoshis as number;
+    await wallet.internalizeAction({
+      tx: tx.toAtomicBEEF(),
+      outputs: [{
+        outputIndex: 0,
+        protocol: 'wallet payment',
+        paymentRemittance: {
+          derivationPrefix: terms.derivationPrefix,
+          derivationSuffix: ESCROW_PAYOUT_SUFFIX,
+          senderIdentityKey: ESCROW_SENDER_IDENTITY_KEY
         }
+      }],
+      description: `ClawSats escrow ${payTo === 'provider' ? 'release' : 'refund'} for ${terms.capability} (${payout} sats)`
+    });
+    const txid = tx.id('hex');
+    const settled = this.escrows.transition(escrowId, to, `settled to ${payTo} in ${txid}`, r => {
+      r.settlementSignatures[payTo] = { ...r.settlementSignatures[payTo], ...signatures, [record.role]: own };
+      r.settlement = { payTo, txid, transaction: Buffer.from(tx.toAtomicBEEF()).toString('base64'), settledAt: new Date().toISOString() };
+    });
+    if (payTo === 'provider') {
+      this.recordPaidCall(terms.capability, terms.requester, payout, 'capability', txid);
+    }
+    log(TAG, `Escrow ${escrowId} settled to the ${payTo}: ${payout} sats in ${txid.substring(0, 16)}...`);
+    return settled;
+  }
+
+  /** Requester's books: the escrowed sats became a hire once they went to the provider. */
+  private recordEscrowHire(record: EscrowRecord): void {
+    this.accounting.record({
+      category: 'hire',
+      satoshis: record.terms.satoshis,
+      capability: record.terms.capability,
+      peer: record.terms.provider,
+      txid: record.settlement?.txid || record.funding?.txid,
+      reference: record.terms.escrowId
+    });
+  }
+
+  /** Validate a /batch body and quote every item. */
+  private parseBatchRequest(body: any): { items: BatchItem[] } | { error: string; code: string } {
+    const calls = body?.calls;
+    if (!Array.isArray(calls) || calls.length === 0) {
+      return { code: 'ERR_INVALID_BATCH', error: 'Body must be { calls: [{ capability, params }] } with at least one call.' };
+    }
+    if (calls.length > BATCH_MAX_ITEMS) {
+      return { code: 'ERR_INVALID_BATCH', error: `A batch may hold at most ${BATCH_MAX_ITEMS} calls.` };
+    }
+    const items: BatchItem[] = [];
+    for (let index = 0; index < calls.length; index++) {
+      const capability = typeof calls[index]?.capability === 'string' ? calls[index].capability : '';
+      const cap = this.capabilityRegistry.get(capability);
+      if (!cap) return { code: 'ERR_INVALID_BATCH', error: `Item ${index}: unknown capability "${capability}".` };
+      const params = calls[index].params && typeof calls[index].params === 'object' ? calls[index].params : {};
+      try {
+        items.push({ index, capability, cap, params, quote: quoteCapability(cap, params) });
+      } catch (err) {
+        return { code: 'ERR_INVALID_PARAMS', error: `Item ${index} (${capability}): ${err instanceof Error ? err.message : String(err)}` };
       }
+    }
+    return { items };
+  }
 
-      return {
-        courseId,
-        ...result,
-        newCapability: result.passed ? `teach_${courseId}` : null,
-        message: result.passed
-          ? `Passed! You can now teach this course to other Claws for ${this.courseManager.getCourse(courseId)?.teachPrice || 25} sats.`
-          : `Score: ${result.correct}/${result.total}. Need ${Math.ceil((this.courseManager.getCourse(courseId)?.passingScore || 0.6) * result.total)} correct to pass.`
-      };
+  /**
+   * Run batch items: parallelSafe capabilities concurrently, the rest one at a
+   * time afterwards. Each outcome carries what the item actually earned (0 if
+   * it failed, the metered price if it used less than quoted).
+   */
+  private async runBatch(items: BatchItem[]): Promise<BatchOutcome[]> {
+    const wallet = this.walletManager.getWallet();
+    const runOne = async (item: BatchItem): Promise<BatchOutcome> => {
+      try {
+        const result = await item.cap.handler(item.params, wallet);
+        const usage = this.meterUsage(item.cap, item.quote, result, item.params) || undefined;
+        return {
+          index: item.index,
+          capability: item.capability,
+          success: true,
+          result,
+          satoshis: usage ? usage.chargedSats : item.quote.satoshis,
+          usage,
+          resultHash: createHash('sha256').update(canonicalJson(result)).digest('hex')
+        };
+      } catch (err) {
+        const error = err instanceof Error ? err.message : String(err);
+        logWarn(TAG, `Batch item ${item.index} (${item.capability}) failed: ${error}`);
+        return {
+          index: item.index,
+          capability: item.capability,
+          success: false,
+          error,
+          satoshis: 0,
+          resultHash: createHash('sha256').update(canonicalJson({ error })).digest('hex')
+        };
+      }
+    };
+
+    const outcomes = await Promise.all(items.filter(i => i.cap.parallelSafe).map(runOne));
+    for (const item of items.filter(i => !i.cap.parallelSafe)) {
+      outcomes.push(await runOne(item));
+    }
+    return outcomes.sort((a, b) => a.index - b.index);
+  }
+
+  /**
+   * Sign a quote for `capability` and reserve its derivation prefix as a
+   * challenge that lives as long as the quote.
+   */
+  private async issueSignedQuote(
+    capability: string,
+    priced: PriceQuote,
+    paramsHash: string,
+    callerIdentityKey: string,
+    ttlMs: number
+  ): Promise<SignedQuote> {
+    const headers = this.walletManager.createPaymentChallenge(priced.satoshis);
+    const quoteId = `quote-${Date.now()}-${randomBytes(4).toString('hex')}`;
+    const challenge = this.challengeStore.issue({
+      derivationPrefix: headers['x-bsv-payment-derivation-prefix'],
+      capability,
+      satoshis: priced.satoshis,
+      callerIdentityKey,
+      quoteId,
+      paramsHash,
+      ttlMs
     });
+    const unsigned: SignedQuote = {
+      type: 'clawsats-quote',
+      version: '1.0',
+      quoteId,
+      capability,
+      provider: this.walletManager.getConfig()?.identityKey || '',
+      requester: callerIdentityKey || undefined,
+      paramsHash,
+      satoshis: priced.satoshis,
+      feeSats: FEE_SATS,
+      unit: priced.unit,
+      units: priced.units,
+      derivationPrefix: challenge.derivationPrefix,
+      issuedAt: new Date(challenge.issuedAt).toISOString(),
+      expiresAt: new Date(challenge.expiresAt).toISOString()
+    };
+    // Drop undefined optionals so the signed bytes match what the buyer receives
+    const quote = JSON.parse(JSON.stringify(unsigned)) as SignedQuote;
+    return signQuote(this.walletManager.getWallet(), quote);
+  }
 
-    // Get spread metrics — how far has BSV education propagated?
-    this.rpcServer.addMethod('spreadMetrics', async () => {
-      return this.courseManager.getSpreadMetrics();
+  /**
+   * Re-register the challenge behind one of our own signed quotes (e.g. after
+   * a restart). Ignored unless the signature is ours, the quote is unexpired,
+   * and no payment against its prefix has been internalized yet.
+   */
+  private async restoreQuotedChallenge(quoteHeader: string, derivationPrefix: string): Promise<void> {
+    let quote: SignedQuote;
+    try {
+      quote = JSON.parse(quoteHeader);
+    } catch {
+      return;
+    }
+    const providerKey = this.walletManager.getConfig()?.identityKey || '';
+    if (quote?.derivationPrefix !== derivationPrefix) return;
+    if (checkQuote(quote, { provider: providerKey })) return;
+    if (this.replayLedger.hasPrefix(derivationPrefix)) return;
+    if (!(await verifyQuoteSignature(quote))) return;
+    this.challengeStore.issue({
+      derivationPrefix,
+      capability: quote.capability,
+      satoshis: quote.satoshis,
+      callerIdentityKey: quote.requester,
+      quoteId: quote.quoteId,
+      paramsHash: quote.paramsHash,
+      ttlMs: Date.parse(quote.expiresAt) - Date.now()
     });
+    log(TAG, `Restored quoted challenge ${quote.quoteId} for ${quote.capability}`);
+  }
 
-    // ── On-Chain Memory RPC Methods ─────────────────────────────────────
+  /**
+   * Commit to the receipts issued since the last anchor: one OP_RETURN with the
+   * Merkle root of their leaf hashes, and each receipt's inclusion proof kept
+   * in the receipt store. Returns null when there was nothing to anchor (or an
+   * anchor is already being written).
+   */
+  private async anchorReceipts(): Promise<Record<string, unknown> | null> {
+    if (this.anchoringReceipts) return null;
+    this.anchoringReceipts = true;
+    try {
+      const pending = this.receipts.unanchored(RECEIPT_ANCHOR_MAX_LEAVES);
+      if (pending.length === 0) return null;
+      const { root, paths } = buildMerkleTree(pending.map(r => receiptLeafHash(r.receipt)));
+      const anchoredAt = new Date().toISOString();
+      const script = buildAnchorScript(root, {
+        provider: this.walletManager.getConfig()?.identityKey || '',
+        leafCount: pending.length,
+        anchoredAt
+      });
 
-    // Write a memory on-chain (OP_RETURN, immutable)
-    this.rpcServer.addMethod('writeMemory', async (params: any) => {
-      const { key, data, category, encrypted, metadata } = params;
-      if (!key || typeof key !== 'string') throw new Error('Missing key (string)');
-      if (!data || typeof data !== 'string') throw new Error('Missing data (string)');
-      if (data.length > 100000) throw new Error('Data too large (max 100KB for OP_RETURN). Use PushDrop for larger data.');
+      const reservation = this.budgets.reserve('broadcast', estimateTxFeeSats(script.length / 2), 'receipt anchor');
+      let result: any;
+      try {
+        result = await this.walletManager.getWallet().createAction({
+          description: `ClawSats receipt anchor (${pending.length} receipts)`,
+          outputs: [{ satoshis: 0, lockingScript: script, outputDescription: 'CLAWRCPT_V1 receipt anchor' }],
+          labels: ['clawsats-receipt-anchor'],
+          options: { acceptDelayedBroadcast: false }
+        });
+      } catch (err) {
+        this.budgets.release(reservation.id);
+        throw err;
+      }
+      const txid = result?.txid || '';
+      if (!txid) throw new Error('createAction did not return a txid');
+      const networkFeeSats = networkFeeFromAction(result);
+      this.budgets.settle(reservation.id, networkFeeSats);
+      this.accounting.record({ category: 'receipt_anchor', satoshis: 0, networkFeeSats, txid, memo: root });
+
+      const proofs = new Map<string, ReceiptAnchorProof>();
+      pending.forEach((r, leafIndex) => {
+        proofs.set(r.receiptId, { txid, root, leafIndex, leafCount: pending.length, path: paths[leafIndex], anchoredAt });
+      });
+      this.receipts.attachAnchors(proofs);
+      log(TAG, `Anchored ${pending.length} receipts: root ${root.substring(0, 16)}... in ${txid.substring(0, 16)}...`);
+      return { anchored: pending.length, root, txid, anchoredAt, pending: this.receipts.unanchored().length };
+    } finally {
+      this.anchoringReceipts = false;
+    }
+  }
 
-      const wallet = this.walletManager.getWallet();
-      const record = await this.onChainMemory.writeMemory(wallet, {
-        key, data, category, encrypted, metadata
+  /**
+   * Build and sign a call receipt — cryptographic proof the work was done
+   * (or, with success=false, that it failed and how the caller was made whole) —
+   * and keep it in the receipt store against the payment (txid, or the credit
+   * entry in `reference`). Signing failures are non-fatal: the receipt is still
+   * useful unsigned.
+   */
+  private async buildSignedReceipt(
+    capName: string,
+    requester: string,
+    satoshisPaid: number,
+    feeSats: number,
+    result: unknown,
+    outcome: {
+      success: boolean;
+      remedy?: Record<string, unknown>;
+      usage?: CallUsage;
+      items?: CallReceipt['items'];
+      txid?: string;
+      reference?: string;
+    } = { success: true }
+  ): Promise<CallReceipt> {
+    const providerKey = this.walletManager.getConfig()?.identityKey || '';
+    const resultHash = receiptResultHash(result);
+    const receiptData: Omit<CallReceipt, 'signature'> = {
+      receiptId: `rcpt-${Date.now()}-${randomBytes(4).toString('hex')}`,
+      capability: capName,
+      provider: providerKey,
+      requester,
+      satoshisPaid,
+      feeSats,
+      resultHash,
+      result: { success: outcome.success, hash: resultHash },
+      timestamp: new Date().toISOString()
+    };
+    if (outcome.txid) receiptData.paymentTxid = outcome.txid;
+    if (outcome.remedy) receiptData.remedy = outcome.remedy;
+    if (outcome.usage) receiptData.usage = { ...outcome.usage };
+    if (outcome.items) receiptData.items = outcome.items;
+    let receipt: CallReceipt;
+    try {
+      // Signed for 'anyone': the requester and third parties verify it against our identity key
+      receipt = await signReceipt(this.walletManager.getWallet(), receiptData);
+    } catch {
+      // Non-fatal — receipt is still useful unsigned
+      receipt = { ...receiptData, signature: '' };
+    }
+    this.storeReceipt({ role: 'issued', receipt, txid: outcome.txid, reference: outcome.reference });
+    return receipt;
+  }
+
+  /** Record something we observed about a peer and refresh its registry score. Never throws. */
+  private noteReputation(identityKey: string, observe: (engine: ReputationEngine) => void): void {
+    if (!identityKey) return;
+    try {
+      observe(this.reputation);
+      this.peerRegistry.refreshReputation(identityKey);
+    } catch (err) {
+      logWarn(TAG, `Reputation not recorded for ${identityKey.substring(0, 12)}...: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  /**
+   * Sign and keep an attestation about the other party to `receipt`. As the
+   * provider we need the requester's countersignature to attest. Returns null
+   * instead of throwing unless `strict` — hireClaw attests as a side effect.
+   */
+  private async issueAttestation(
+    receipt: CallReceipt,
+    outcome: AttestationOutcome,
+    note?: string,
+    strict = false
+  ): Promise<ReputationAttestation | null> {
+    try {
+      const selfKey = this.walletManager.getConfig()?.identityKey || '';
+      const subject = receipt.provider === selfKey ? receipt.requester : receipt.provider;
+      const attestation = await signAttestation(this.walletManager.getWallet(), {
+        attester: selfKey,
+        subject,
+        outcome,
+        receipt,
+        ...(note !== undefined ? { note } : {}),
+        timestamp: new Date().toISOString()
       });
-      return {
-        ...record,
-        message: `Memory "${key}" written on-chain permanently. txid: ${record.txid}`
-      };
-    });
+      const problem = await checkAttestation(attestation);
+      if (problem) throw new Error(problem);
+      this.attestations.add(attestation);
+      return attestation;
+    } catch (err) {
+      if (strict) throw err;
+      logWarn(TAG, `No attestation for receipt ${receipt?.receiptId}: ${err instanceof Error ? err.message : String(err)}`);
+      return null;
+    }
+  }
 
-    // Read a memory record from the local index
-    this.rpcServer.addMethod('readMemory', async (params: any) => {
-      const { key } = params;
-      if (!key) throw new Error('Missing key');
-      const record = this.onChainMemory.getMemory(key);
-      if (!record) return { found: false, key };
-      return { found: true, ...record };
-    });
+  /** Check and keep attestations from a peer (`source`). Returns how many were new and what was wrong with the rest. */
+  private async collectAttestations(
+    attestations: unknown[],
+    source: string
+  ): Promise<{ accepted: number; rejected: Array<{ index: number; problem: string }> }> {
+    let accepted = 0;
+    const rejected: Array<{ index: number; problem: string }> = [];
+    const touched = new Set<string>();
+    for (let index = 0; index < attestations.length; index++) {
+      const attestation = attestations[index] as ReputationAttestation;
+      const problem = await checkAttestation(attestation);
+      if (problem) {
+        rejected.push({ index, problem });
+        continue;
+      }
+      if (this.attestations.add(attestation, source)) {
+        accepted++;
+        touched.add(attestation.subject);
+      }
+    }
+    for (const subject of touched) this.peerRegistry.refreshReputation(subject);
+    return { accepted, rejected };
+  }
 
-    // List all memories
-    this.rpcServer.addMethod('listMemories', async (params: any) => {
-      const category = params?.category;
-      const memories = this.onChainMemory.listMemories(category);
-      return {
-        memories,
-        total: memories.length,
-        stats: this.onChainMemory.getStats()
-      };
-    });
+  /** Push one of our fraud reports to `endpoints` (or known peers, at most 20). Never throws. */
+  private async gossipFraudReport(report: FraudReport, endpoints?: unknown): Promise<Array<Record<string, unknown>>> {
+    const targets: string[] = Array.isArray(endpoints) && endpoints.length > 0
+      ? endpoints.filter((e: unknown): e is string => typeof e === 'string')
+      : this.peerRegistry.getAllPeers().filter(p => p.identityKey !== report.accused).map(p => p.endpoint).filter(Boolean);
+    const results: Array<Record<string, unknown>> = [];
+    for (const endpoint of targets.slice(0, 20)) {
+      const base = endpoint.replace(/\/+$/, '');
+      try {
+        const res = await fetch(`${base}/reputation/fraud-reports`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ reports: [report] }),
+          signal: AbortSignal.timeout(10_000)
+        });
+        const body: any = await res.json().catch(() => null);
+        results.push({ endpoint: base, accepted: res.ok && Number(body?.accepted) > 0 });
+      } catch (err) {
+        results.push({ endpoint: base, error: err instanceof Error ? err.message : String(err) });
+      }
+    }
+    return results;
+  }
 
-    // Search memories
-    this.rpcServer.addMethod('searchMemories', async (params: any) => {
-      const { query } = params;
-      if (!query) throw new Error('Missing query');
-      return { results: this.onChainMemory.searchMemories(query) };
+  /** Sync the capability index with the registry; every fetch counts as a probe of the peer. */
+  private refreshCapabilityIndex(options: { force?: boolean; missingOnly?: boolean } = {}): Promise<CapabilityIndexRefreshReport> {
+    const peers = this.peerRegistry.getAllPeers()
+      .filter(p => p.endpoint)
+      .map(p => ({ identityKey: p.identityKey, endpoint: p.endpoint }));
+    return this.capabilityIndex.refresh(peers, {
+      ...options,
+      onProbe: (identityKey, ok, latencyMs) => this.noteReputation(identityKey, r => r.recordProbe(identityKey, ok, latencyMs))
     });
+  }
 
-    // Get memory stats
-    this.rpcServer.addMethod('memoryStats', async () => {
-      return this.onChainMemory.getStats();
-    });
+  /** One read of the access list, with the fraud auto-block folded in. */
+  private peerAccessChecker(): PeerAccessCheck {
+    return this.peerAccess.checker(this.fraudReports.blocked());
+  }
 
-    // Fetch actual memory data from the blockchain (not just the local index)
-    this.rpcServer.addMethod('readMemoryFromChain', async (params: any) => {
-      const { key } = params;
-      if (!key) throw new Error('Missing key');
-      const result = await this.onChainMemory.readMemoryFromChain(key);
-      if (!result) return { found: false, key };
-      return { found: true, ...result };
-    });
+  /** Registered peers we must not hire, share or ask: for filters keyed by identity. */
+  private blockedPeers(): Set<string> {
+    const access = this.peerAccessChecker();
+    return new Set(this.peerRegistry.getAllPeers()
+      .filter(p => !access({ identityKey: p.identityKey, endpoint: p.endpoint }).allowed)
+      .map(p => p.identityKey));
+  }
 
-    // Fetch raw OP_RETURN data from any txid on the blockchain
-    this.rpcServer.addMethod('fetchFromChain', async (params: any) => {
-      const { txid } = params;
-      if (!txid) throw new Error('Missing txid');
-      const result = await this.onChainMemory.fetchFromChain(txid);
-      if (!result) return { found: false, txid };
-      return { found: true, txid, ...result };
-    });
+  /** 403 a blocked peer. Returns true if it did, so the route stops there. */
+  private rejectBlockedPeer(res: express.Response, identityKey: string, endpoint?: string): boolean {
+    if (!identityKey && !endpoint) return false;
+    const decision = this.peerAccessChecker()({ identityKey: identityKey || undefined, endpoint: endpoint || undefined });
+    if (decision.allowed) return false;
+    logWarn(TAG, `Refused blocked peer ${(identityKey || endpoint || '').substring(0, 16)}...: ${decision.reason}`);
+    res.status(403).json({ status: 'error', code: 'ERR_PEER_BLOCKED', description: decision.reason });
+    return true;
+  }
 
-    // Write a master index on-chain (maps all memory keys → txids)
-    this.rpcServer.addMethod('writeMasterIndex', async () => {
-      const wallet = this.walletManager.getWallet();
-      const txid = await this.onChainMemory.writeMasterIndex(wallet);
-      return {
-        txid,
-        message: `Master index written on-chain. Store this txid to recover all memories: ${txid}`
-      };
-    });
+  /** Re-fetch subscribed ban lists. A list that fails keeps its previous bans. */
+  private async refreshBanLists(publisher?: string): Promise<BanListRefreshResult[]> {
+    const results = await this.peerAccess.refreshSubscriptions(publisher);
+    for (const result of results) {
+      if (result.error) logWarn(TAG, `Ban list of ${result.publisher.substring(0, 12)}... not refreshed: ${result.error}`);
+    }
+    return results;
+  }
 
-    // Recover memories from an on-chain master index
-    this.rpcServer.addMethod('recoverFromMasterIndex', async (params: any) => {
-      const { masterIndexTxid } = params;
-      if (!masterIndexTxid) throw new Error('Missing masterIndexTxid');
-      const recovered = await this.onChainMemory.recoverFromMasterIndex(masterIndexTxid);
-      return {
-        recovered,
-        message: `Recovered ${recovered} memories from master index ${masterIndexTxid}`
-      };
-    });
+  /** Challenge a peer's endpoint and record the outcome on its registry entry. Never throws. */
+  private async verifyPeerEndpoint(identityKey: string, endpoint: string, force = false): Promise<EndpointProofResult> {
+    const result = await this.endpointVerifier.verify(identityKey, endpoint, { force });
+    this.peerRegistry.setEndpointStatus(identityKey, result.endpoint, result.status, result.checkedAt);
+    return result;
+  }
 
-    // Verify a memory exists on-chain (fetch + hash check)
-    this.rpcServer.addMethod('verifyMemoryOnChain', async (params: any) => {
-      const { key, retries } = params;
-      if (!key) throw new Error('Missing key');
-      const verified = await this.onChainMemory.verifyOnChain(key, retries || 3);
-      return { key, verified };
-    });
+  /** Start an ownership challenge for a peer just registered, without holding up the request. */
+  private challengePeerEndpoint(peer: PeerRecord): void {
+    if (!peer.endpoint) return;
+    this.verifyPeerEndpoint(peer.identityKey, peer.endpoint)
+      .then(result => log(TAG, `Endpoint of ${peer.identityKey.substring(0, 12)}... ${result.status}`))
+      .catch(err => logWarn(TAG, `Endpoint challenge failed: ${err instanceof Error ? err.message : String(err)}`));
+  }
 
-    // Get the current master index txid (for beacons/identity)
-    this.rpcServer.addMethod('getMasterIndexTxid', async () => {
-      const txid = this.onChainMemory.getMasterIndexTxid();
-      return { txid, hasMasterIndex: !!txid };
-    });
+  /** Where peers reach us: publicEndpoint, else host:port — never 0.0.0.0, which peers can't use. */
+  private advertisedBase(): string {
+    return this.publicEndpoint
+      || (this.host === '0.0.0.0' ? `http://localhost:${this.port}` : `http://${this.host}:${this.port}`);
   }
 
-  private registerBuiltinCapabilities(): void {
+  /** Claws we can point a discovery query at: ourselves if we serve the capability, then verified peers best first. */
+  private discoveryMatches(query: DiscoveryQuery): DiscoveryResponse['results'] {
     const config = this.walletManager.getConfig();
-    const identityKey = config?.identityKey || 'unknown';
+    const { capability, chain } = query.query;
+    const results: DiscoveryResponse['results'] = [];
+    if (config && this.publicEndpoint && config.chain === chain && this.capabilityRegistry.has(capability)) {
+      results.push({
+        clawId: `claw://${config.identityKey.substring(0, 16)}`,
+        identityKey: config.identityKey,
+        capability,
+        endpoint: this.publicEndpoint,
+        reputation: REPUTATION_NEUTRAL_SCORE,   // not ours to rate
+        uptime: 100,
+        lastSeen: new Date().toISOString()
+      });
+    }
+    const access = this.peerAccessChecker();
+    const peers = this.peerRegistry.getPeersByCapability(capability)
+      .filter(p => p.chain === chain && p.identityKey !== query.requesterIdentityKey
+        && access({ identityKey: p.identityKey, endpoint: p.endpoint }).allowed
+        && p.endpointStatus === 'verified' && p.endpoint && this.isValidPeerEndpoint(p.endpoint))
+      .sort((a, b) => b.reputation - a.reputation)
+      .slice(0, query.query.maxResults);
+    for (const peer of peers) {
+      results.push({
+        clawId: peer.clawId,
+        identityKey: peer.identityKey,
+        capability,
+        endpoint: peer.endpoint,
+        reputation: peer.reputation,
+        uptime: this.reputation.getReputation(peer.identityKey).metrics.uptime,
+        lastSeen: peer.lastSeen
+      });
+    }
+    return results.slice(0, query.query.maxResults);
+  }
 
-    // Deferred wallet proxy — wallet may not be ready at constructor time
-    const walletProxy = {
-      createSignature: async (...args: any[]) => this.walletManager.getWallet().createSignature(...args)
-    };
+  /** Our best verified peers on the query's chain to ask, never its requester or a blocked Claw. */
+  private discoveryTargets(query: DiscoveryQuery, count: number): DiscoveryTarget[] {
+    const access = this.peerAccessChecker();
+    return this.peerRegistry.getAllPeers()
+      .filter(p => p.endpoint && p.chain === query.query.chain && p.identityKey !== query.requesterIdentityKey
+        && access({ identityKey: p.identityKey, endpoint: p.endpoint }).allowed
+        && p.endpointStatus === 'verified' && this.isValidPeerEndpoint(p.endpoint))
+      .sort((a, b) => b.reputation - a.reputation)
+      .slice(0, count)
+      .map(p => ({ endpoint: p.endpoint, identityKey: p.identityKey }));
+  }
 
-    // Echo: trivial paid service proving the 402 flow
-    this.capabilityRegistry.registerEcho(walletProxy, identityKey);
+  /**
+   * POST `{ query, route }` to each target's /discovery/query, with the route
+   * extended by our signed link to that target. Targets we have no identity
+   * key for get no route. Never throws.
+   */
+  private async sendDiscoveryQuery(query: DiscoveryQuery, route: DiscoveryHop[], targets: DiscoveryTarget[]): Promise<Array<Record<string, unknown>>> {
+    const config = this.walletManager.getConfig();
+    return Promise.all(targets.map(async ({ endpoint, identityKey }) => {
+      const base = endpoint.replace(/\/+$/, '');
+      try {
+        const body = config && identityKey
+          ? { query, route: [...route, await signDiscoveryHop(this.walletManager.getWallet(), { queryId: query.queryId, from: config.identityKey, to: identityKey })] }
+          : { query };
+        const res = await fetch(`${base}/discovery/query`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+          signal: AbortSignal.timeout(10_000)
+        });
+        const reply: any = await res.json().catch(() => null);
+        return res.ok
+          ? { endpoint: base, accepted: reply?.accepted === true }
+          : { endpoint: base, accepted: false, error: reply?.description || `HTTP ${res.status}` };
+      } catch (err) {
+        return { endpoint: base, accepted: false, error: err instanceof Error ? err.message : String(err) };
+      }
+    }));
+  }
 
-    // Verifiable capabilities (BrowserAI #2)
-    this.capabilityRegistry.registerSignMessage(walletProxy, identityKey);
-    this.capabilityRegistry.registerHashCommit(walletProxy, identityKey);
-    this.capabilityRegistry.registerTimestampAttest(walletProxy, identityKey);
+  /**
+   * Answer a checked discovery query (only when we know someone, and only at
+   * the requester's own verified endpoint — never a third party's), then
+   * relay it to our best peers while its signed route allows.
+   */
+  private async answerDiscoveryQuery(query: DiscoveryQuery, route: unknown): Promise<void> {
+    const config = this.walletManager.getConfig();
+    if (!config) return;
+    const requester = this.peerRegistry.getPeer(query.requesterIdentityKey);
+    const requesterBase = requester?.endpointStatus === 'verified' ? normalizeProofEndpoint(requester.endpoint) : null;
+    const answerable = requesterBase !== null && normalizeProofEndpoint(query.responseEndpoint) === `${requesterBase}/discovery/callback`;
+    const matches = answerable ? this.discoveryMatches(query) : [];
+    if (matches.length > 0) {
+      try {
+        const response = await new SharingProtocol(config, this.walletManager.getWallet()).createDiscoveryResponse(query, matches);
+        const res = await fetch(query.responseEndpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(response),
+          signal: AbortSignal.timeout(10_000)
+        });
+        if (!res.ok) logWarn(TAG, `Discovery answer to ${query.responseEndpoint} returned ${res.status}`);
+      } catch (err) {
+        logWarn(TAG, `Discovery answer to ${query.responseEndpoint} failed: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+    const routeProblem = await checkDiscoveryRoute(query, route as DiscoveryHop[], config.identityKey);
+    if (routeProblem) {
+      log(TAG, `Discovery query ${query.queryId} not relayed: ${routeProblem}`);
+      return;
+    }
+    const hops = (route as DiscoveryHop[]).length - 1;
+    if (hops < query.hopLimit) {
+      const relayed = await this.sendDiscoveryQuery(query, route as DiscoveryHop[], this.discoveryTargets(query, DISCOVERY_FORWARD_FANOUT));
+      log(TAG, `Discovery query ${query.queryId} (${query.query.capability}): ${matches.length} matches, relayed to ${relayed.filter(r => r.accepted).length} peers`);
+    }
+  }
 
-    // Broadcast listing: the spreading flywheel (with anti-abuse per BrowserAI #3)
-    // Pass our identity key so relayed manifests get tagged with referredBy
-    this.capabilityRegistry.registerBroadcastListing(
-      () => this.peerRegistry.getAllPeers().map(p => p.endpoint).filter(Boolean),
-      undefined,
-      identityKey
+  /** Keep a receipt in the store. Never throws — a paid call must not fail over bookkeeping. */
+  private storeReceipt(input: Omit<RecordReceiptInput, 'receipt'> & { receipt?: CallReceipt }): void {
+    if (!input.receipt?.receiptId) return;
+    try {
+      this.receipts.record(input as RecordReceiptInput);
+    } catch (err) {
+      logWarn(TAG, `Receipt ${input.receipt.receiptId} not stored: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  /**
+   * Failure policy for a paid call whose handler threw AFTER the payment was
+   * internalized. 'credit' (default) issues a credit note on the caller's prepaid
+   * balance, redeemable on the next call via x-clawsats-credit; 'refund' pays the
+   * price back through a BRC-29 output. A credit note that would exceed the
+   * balance cap falls back to a refund. The caller always gets a signed receipt
+   * with result.success=false and the remedy applied.
+   */
+  private async handlePaidCallFailure(
+    res: express.Response,
+    capName: string,
+    callerKey: string,
+    satoshisPaid: number,
+    paymentRef: string,
+    error: unknown
+  ): Promise<void> {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logError(TAG, `Capability ${capName} failed after payment was internalized:`, error);
+
+    const { remedy, refundPayload } = await this.makeCallerWhole(capName, callerKey, satoshisPaid, paymentRef, `Failed call: ${capName}`);
+
+    const receipt = await this.buildSignedReceipt(
+      capName, callerKey, satoshisPaid, FEE_SATS, { error: errMsg }, { success: false, remedy, txid: paymentRef }
     );
+    res.status(500).json({
+      status: 'error',
+      code: 'ERR_CAPABILITY_FAILED',
+      description: `Capability failed after payment: ${errMsg}`,
+      satoshisPaid,
+      remedy,
+      refund: refundPayload,
+      receipt
+    });
+  }
+
+  /**
+   * Return `satoshis` of an internalized payment to the caller under the
+   * failure policy: a credit note (default), else a BRC-29 refund. Falls back
+   * to a refund when the credit note can't be issued.
+   */
+  private async makeCallerWhole(
+    capName: string,
+    callerKey: string,
+    satoshis: number,
+    paymentRef: string,
+    memo: string
+  ): Promise<{ remedy: Record<string, unknown>; refundPayload?: Record<string, unknown> }> {
+    let remedy: Record<string, unknown> | null = null;
+    let refundPayload: Record<string, unknown> | undefined;
+    if (this.failurePolicy === 'credit' && callerKey) {
+      try {
+        const entry = this.creditLedger.issueCreditNote(callerKey, satoshis, paymentRef, memo);
+        remedy = { type: 'credit', satoshis, creditEntryId: entry.id, creditBalance: entry.balanceAfter };
+      } catch (creditErr) {
+        const msg = creditErr instanceof Error ? creditErr.message : String(creditErr);
+        logWarn(TAG, `Credit note for ${capName} not issued (${msg}) — refunding instead`);
+      }
+    }
+    if (!remedy && callerKey) {
+      try {
+        refundPayload = await this.sendBrc29Payout(callerKey, satoshis, `ClawSats refund: ${memo}`, 'clawsats-refund');
+        remedy = { type: 'refund', satoshis, txid: refundPayload.txid, derivationPrefix: refundPayload.derivationPrefix };
+      } catch (refundErr) {
+        const msg = refundErr instanceof Error ? refundErr.message : String(refundErr);
+        logError(TAG, `Refund for ${capName} to ${callerKey.substring(0, 16)}... failed: ${msg}`);
+      }
+    }
+    if (!remedy) {
+      remedy = { type: 'none', reason: 'Automatic remedy failed — contact the provider with this receipt.' };
+    }
+    return { remedy, refundPayload };
+  }
 
-    // Phase 3: Real-world capabilities — things Claws actually hire each other for
-    this.capabilityRegistry.registerFetchUrl(walletProxy, identityKey);
-    this.capabilityRegistry.registerDnsResolve(identityKey);
-    this.capabilityRegistry.registerVerifyReceipt(walletProxy, identityKey);
-    this.capabilityRegistry.registerPeerHealthCheck(identityKey);
-    this.registerOptionalIndelibleCapabilities();
+  /**
+   * Pay satoshis to an identity through a fresh BRC-29 output. The response
+   * carries everything the recipient needs for internalizeAction.
+   */
+  private async sendBrc29Payout(
+    recipientKey: string,
+    satoshis: number,
+    description: string,
+    label: string
+  ): Promise<{
+    txid: string | null;
+    transaction: string;
+    derivationPrefix: string;
+    derivationSuffix: string;
+    senderIdentityKey: string;
+  }> {
+    const wallet = this.walletManager.getWallet();
+    const derivationPrefix = randomBytes(16).toString('base64');
+    const derivationSuffix = 'clawsats';
+    const lockingScript = await this.deriveBRC29LockingScript(wallet, recipientKey, derivationPrefix, derivationSuffix);
+    const actionResult = await wallet.createAction({
+      description,
+      outputs: [{
+        satoshis,
+        lockingScript,
+        outputDescription: description
+      }],
+      labels: [label],
+      options: { signAndProcess: true, randomizeOutputs: false }
+    });
+    return {
+      txid: actionResult?.txid || null,
+      transaction: this.extractActionTxBase64(actionResult),
+      derivationPrefix,
+      derivationSuffix,
+      senderIdentityKey: this.walletManager.getConfig()?.identityKey || ''
+    };
+  }
 
-    // BSV Mentor: premium knowledge-as-a-service (25 sats)
-    // Uses MCP server if available, falls back to embedded knowledge.
-    const mentorCap = createBsvMentorCapability({
-      identityKey,
-      wallet: walletProxy,
-      mcpEndpoint: process.env.MCP_ENDPOINT || 'http://localhost:3100'
+  /** Track call stats, register the caller as a peer, and credit referrals. */
+  private recordPaidCall(
+    capName: string,
+    callerKey: string,
+    satsPaid: number,
+    category: AccountingCategory,
+    reference: string
+  ): void {
+    this.callStats.set(capName, (this.callStats.get(capName) || 0) + 1);
+    this.accounting.record({
+      category,
+      satoshis: satsPaid,
+      capability: capName,
+      peer: callerKey || undefined,
+      txid: category === 'capability' ? reference : undefined,
+      reference: category === 'credit_call' ? reference : undefined
     });
-    this.capabilityRegistry.register(mentorCap);
-    log(TAG, `Registered bsv_mentor capability (25 sats, MCP: ${process.env.MCP_ENDPOINT || 'localhost:3100'})`);
+    if (!callerKey) return;
+    this.uniqueCallers.add(callerKey);
+    this.peerRegistry.addPeer({
+      clawId: `claw://${callerKey.substring(0, 16)}`,
+      identityKey: callerKey,
+      endpoint: '', // unknown
+      capabilities: [],
+      chain: this.walletManager.getConfig()?.chain || 'main',
+      lastSeen: new Date().toISOString(),
+      reputation: REPUTATION_NEUTRAL_SCORE
+    });
+    // Track referral: who introduced this caller?
+    this.trackReferral(callerKey, capName, satsPaid);
   }
 
   /**
-   * Optional Phase A integration: register Indelible-backed capabilities behind a feature flag.
-   * Core payment/auth stays in ClawSats `/call/:capability`; this only adds handlers.
+   * Usage block for a metered call: units quoted vs consumed and what the
+   * consumed units cost. Null for flat-priced capabilities.
    */
-  private registerOptionalIndelibleCapabilities(): void {
-    if (!this.indelibleEnabled) return;
+  private meterUsage(cap: CapabilityHandler, quote: PriceQuote, result: unknown, params: any): CallUsage | null {
+    const consumed = meterCapability(cap, quote, result, params);
+    if (!consumed || !quote.unit || quote.units === undefined) return null;
+    return {
+      unit: quote.unit,
+      quotedUnits: quote.units,
+      consumedUnits: consumed.units as number,
+      quotedSats: quote.satoshis,
+      chargedSats: consumed.satoshis,
+      unusedSats: quote.satoshis - consumed.satoshis
+    };
+  }
 
-    if (!this.indelibleOperatorAddress) {
-      logWarn(TAG, 'Indelible integration enabled but missing operator address. Skipping save_context/load_context registration.');
+  /**
+   * Execute a /call request paid from the caller's prepaid credit balance.
+   * The debit is reversed if the handler throws, so failed calls cost nothing;
+   * metered calls debit the quote and reverse whatever wasn't consumed.
+   */
+  private async handleCreditCall(
+    req: express.Request,
+    res: express.Response,
+    capName: string,
+    cap: CapabilityHandler,
+    quote: PriceQuote,
+    creditHeader: string
+  ): Promise<void> {
+    const paramsHash = hashParams(req.body);
+    const check = await this.verifyCreditAuthorization(creditHeader, 'call', { capability: capName, paramsHash });
+    if (!check.ok) {
+      res.status(check.status).json({ status: 'error', code: check.code, description: check.description });
       return;
     }
+    const callerKey = check.auth.identityKey;
+    if (this.rejectBlockedPeer(res, callerKey)) return;
+    const price = quote.satoshis;
 
-    let baseUrl = this.indelibleUrl;
+    let entry;
     try {
-      const parsed = new URL(baseUrl);
-      if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
-        throw new Error('invalid protocol');
-      }
-      baseUrl = parsed.toString().replace(/\/+$/, '');
+      entry = this.creditLedger.debit(callerKey, price, capName, `Call: ${capName}`);
     } catch {
-      logWarn(TAG, `Indelible integration URL is invalid: ${this.indelibleUrl}`);
+      res.status(402).json({
+        status: 'error',
+        code: 'ERR_INSUFFICIENT_CREDIT',
+        description: `Credit balance ${this.creditLedger.getBalance(callerKey)} sats is below the ${price}-sat price. Deposit via POST /credits/deposit.`,
+        satoshisRequired: price,
+        balance: this.creditLedger.getBalance(callerKey)
+      });
       return;
     }
 
-    if (this.capabilityRegistry.has('save_context') || this.capabilityRegistry.has('load_context')) {
-      logWarn(TAG, 'Indelible capability names already registered. Skipping duplicate registration.');
+    let result: unknown;
+    try {
+      result = await cap.handler(req.body, this.walletManager.getWallet());
+    } catch (handlerErr) {
+      const errMsg = handlerErr instanceof Error ? handlerErr.message : String(handlerErr);
+      const reversal = this.creditLedger.reverse(callerKey, price, 'debit', capName, `Handler failed: ${capName}`);
+      const remedy = { type: 'reversal', satoshis: price, creditEntryId: reversal.id, creditBalance: reversal.balanceAfter };
+      const receipt = await this.buildSignedReceipt(capName, callerKey, price, 0, { error: errMsg }, { success: false, remedy, reference: entry.id });
+      logError(TAG, `Credit call ${capName} failed (debit reversed):`, handlerErr);
+      res.status(500).json({
+        status: 'error',
+        code: 'ERR_CAPABILITY_FAILED',
+        description: `Capability failed: ${errMsg}`,
+        satoshisPaid: 0,
+        remedy,
+        receipt
+      });
       return;
     }
 
-    const operatorAddress = this.indelibleOperatorAddress;
-    const defaultAgentAddress = this.indelibleDefaultAgentAddress;
-    const resolveAgentAddress = (params: any): string => {
-      const explicit = typeof params?.agentAddress === 'string' ? params.agentAddress.trim() : '';
-      return explicit || defaultAgentAddress;
-    };
-
-    const callIndelible = async (path: string, payload: Record<string, unknown>) => {
-      const response = await fetch(`${baseUrl}${path}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-Operator-Address': operatorAddress
-        },
-        body: JSON.stringify(payload),
-        signal: AbortSignal.timeout(20_000)
-      });
-
-      const contentType = response.headers.get('content-type') || '';
-      const body = contentType.includes('application/json')
-        ? await response.json()
-        : await response.text();
-
-      if (!response.ok) {
-        const details = typeof body === 'string' ? body : JSON.stringify(body);
-        throw new Error(`Indelible request failed (${response.status}): ${details}`);
-      }
-
-      return body;
-    };
-
-    this.capabilityRegistry.register({
-      name: 'save_context',
-      description: 'Persist agent context via Indelible bridge (feature-flagged Phase A integration).',
-      pricePerCall: 15,
-      tags: ['memory', 'persistence', 'indelible'],
-      handler: async (params: any) => {
-        const messages = params?.messages;
-        if (!Array.isArray(messages) || messages.length === 0) {
-          throw new Error('messages array required');
-        }
-
-        const agentAddress = resolveAgentAddress(params);
-        if (!agentAddress) {
-          throw new Error('agentAddress required (or set CLAWSATS_INDELIBLE_DEFAULT_AGENT_ADDRESS)');
-        }
-
-        const agentId = typeof params?.agentId === 'string' && params.agentId.trim()
-          ? params.agentId.trim()
-          : agentAddress;
-        const summary = typeof params?.summary === 'string' && params.summary.trim()
-          ? params.summary.trim()
-          : `Agent ${agentId} session`;
-
-        return callIndelible('/api/agents/save', {
-          messages,
-          summary,
-          agentAddress,
-          agentId,
-          operatorAddress
-        });
-      }
-    });
-
-    this.capabilityRegistry.register({
-      name: 'load_context',
-      description: 'Load agent context via Indelible bridge (feature-flagged Phase A integration).',
-      pricePerCall: 10,
-      tags: ['memory', 'recall', 'indelible'],
-      handler: async (params: any) => {
-        const agentAddress = resolveAgentAddress(params);
-        if (!agentAddress) {
-          throw new Error('agentAddress required (or set CLAWSATS_INDELIBLE_DEFAULT_AGENT_ADDRESS)');
-        }
-
-        const requestedNumSessions = Number(params?.numSessions);
-        const numSessions = Number.isFinite(requestedNumSessions) && requestedNumSessions > 0
-          ? Math.min(20, Math.floor(requestedNumSessions))
-          : 3;
+    let charged = price;
+    let creditBalance = entry.balanceAfter;
+    const usage = this.meterUsage(cap, quote, result, req.body);
+    if (usage && usage.unusedSats > 0) {
+      const reversal = this.creditLedger.reverse(callerKey, usage.unusedSats, 'debit', capName, `Unused ${capName} quote`);
+      usage.creditedSats = usage.unusedSats;
+      usage.creditEntryId = reversal.id;
+      charged = usage.chargedSats;
+      creditBalance = reversal.balanceAfter;
+    }
 
-        return callIndelible('/api/agents/load', {
-          agentAddress,
-          numSessions,
-          operatorAddress
-        });
-      }
+    // The protocol fee was paid once with the deposit, so credit calls carry feeSats=0.
+    const receipt = await this.buildSignedReceipt(capName, callerKey, charged, 0, result, { success: true, usage: usage || undefined, reference: entry.id });
+    this.recordPaidCall(capName, callerKey, charged, 'credit_call', entry.id);
+    log(TAG, `Credit call ${capName} by ${callerKey.substring(0, 16)}... (${charged} sats, balance ${creditBalance})`);
+
+    res.set({ 'x-bsv-payment-satoshis-paid': String(charged) });
+    res.json({
+      result,
+      satoshisPaid: charged,
+      paidWith: 'credit',
+      creditBalance,
+      creditEntryId: entry.id,
+      usage: usage || undefined,
+      receipt
     });
-
-    log(TAG, `Indelible integration enabled: save_context/load_context registered (${baseUrl})`);
   }
 
   /**
-   * Register teach capabilities for each course this Claw has completed.
-   * A Claw that passed bsv-101 gets a "teach_bsv-101" paid capability.
-   * Other Claws pay to receive the course material + quiz.
-   * This is how BSV education spreads through the network.
+   * Verify a signed x-clawsats-credit header: structure, provider binding,
+   * freshness, caller signature, and single use (nonce).
    */
-  private registerTeachCapabilities(): void {
-    const completedIds = this.courseManager.getCompletedCourseIds();
-    if (completedIds.length === 0) return;
-
-    const identityKey = this.walletManager.getConfig()?.identityKey || 'unknown';
-
-    for (const courseId of completedIds) {
-      const material = this.courseManager.getTeachingMaterial(courseId);
-      if (!material) continue;
-
-      this.capabilityRegistry.register({
-        name: `teach_${courseId}`,
-        description: `BSV Cluster Course: ${material.course.title}. Level ${material.course.level}. ${material.course.summary}`,
-        pricePerCall: material.course.teachPrice,
-        tags: ['education', 'bsv', material.course.category, `level-${material.course.level}`],
-        handler: async (params: any) => {
-          // Record that we taught this course
-          const learnerKey = params?.learnerIdentityKey || 'anonymous';
-          this.courseManager.recordTeaching(courseId, learnerKey);
+  private async verifyCreditAuthorization(
+    headerValue: string | undefined,
+    action: CreditAuthAction,
+    expected: { capability?: string; paramsHash?: string } = {}
+  ): Promise<
+    | { ok: true; auth: CreditAuthorization }
+    | { ok: false; status: number; code: string; description: string }
+  > {
+    const reject = (status: number, code: string, description: string) =>
+      ({ ok: false as const, status, code, description });
+
+    if (!headerValue) return reject(401, 'ERR_CREDIT_AUTH_REQUIRED', 'Missing x-clawsats-credit header.');
+    let auth: CreditAuthorization;
+    try {
+      auth = JSON.parse(headerValue);
+    } catch {
+      return reject(400, 'ERR_CREDIT_AUTH_MALFORMED', 'The x-clawsats-credit header is not valid JSON.');
+    }
+    if (!auth || typeof auth !== 'object' || !auth.signature || !auth.nonce || !auth.timestamp) {
+      return reject(400, 'ERR_CREDIT_AUTH_MALFORMED', 'x-clawsats-credit must include nonce, timestamp and signature.');
+    }
+    if (!IDENTITY_KEY_RE.test(String(auth.identityKey || ''))) {
+      return reject(400, 'ERR_CREDIT_AUTH_MALFORMED', 'x-clawsats-credit has an invalid identityKey.');
+    }
+    if (auth.action !== action) {
+      return reject(403, 'ERR_CREDIT_AUTH_SCOPE', `Credit authorization is for "${auth.action}", expected "${action}".`);
+    }
+    if (auth.provider !== this.walletManager.getConfig()?.identityKey) {
+      return reject(403, 'ERR_CREDIT_AUTH_SCOPE', 'Credit authorization is bound to a different provider.');
+    }
+    if (expected.capability !== undefined && auth.capability !== expected.capability) {
+      return reject(403, 'ERR_CREDIT_AUTH_SCOPE', 'Credit authorization does not match this capability.');
+    }
+    if (expected.paramsHash !== undefined && auth.paramsHash !== expected.paramsHash) {
+      return reject(403, 'ERR_CREDIT_AUTH_SCOPE', 'Credit authorization does not match the request params.');
+    }
+    if (auth.satoshis !== undefined && (!Number.isInteger(auth.satoshis) || auth.satoshis <= 0)) {
+      return reject(400, 'ERR_CREDIT_AUTH_MALFORMED', 'x-clawsats-credit satoshis must be a positive integer.');
+    }
+    const ts = Date.parse(auth.timestamp);
+    if (!Number.isFinite(ts) || Math.abs(Date.now() - ts) > CREDIT_AUTH_TTL_MS) {
+      return reject(401, 'ERR_CREDIT_AUTH_EXPIRED', 'Credit authorization timestamp is outside the allowed window.');
+    }
 
-          return {
-            courseId: material.course.id,
-            title: material.course.title,
-            level: material.course.level,
-            prerequisites: material.course.prerequisites,
-            category: material.course.category,
-            content: material.course.content,
-            quiz: material.course.quiz.map(q => ({
-              question: q.question,
-              options: q.options,
-              correctHash: q.correctHash
-            })),
-            passingScore: material.course.passingScore,
-            version: material.course.version,
-            taughtBy: identityKey,
-            taughtAt: new Date().toISOString()
-          };
-        }
+    try {
+      const wallet = this.walletManager.getWallet();
+      const result = await wallet.verifySignature({
+        data: Array.from(Buffer.from(serializeCreditAuthorization(auth), 'utf8')),
+        signature: Array.from(Buffer.from(auth.signature, 'base64')),
+        protocolID: CREDIT_PROTOCOL_ID,
+        keyID: CREDIT_KEY_ID,
+        counterparty: auth.identityKey
       });
+      if (!result?.valid) {
+        return reject(403, 'ERR_CREDIT_AUTH_INVALID', 'Invalid credit authorization signature.');
+      }
+    } catch {
+      return reject(403, 'ERR_CREDIT_AUTH_INVALID', 'Credit authorization signature verification failed.');
+    }
 
-      log(TAG, `Registered teach capability: teach_${courseId} (${material.course.teachPrice} sats)`);
+    // Consume the nonce only after the signature checks out
+    const nonceCheck = this.creditNonceCache.validate(`${auth.identityKey}:${auth.nonce}`, CREDIT_AUTH_TTL_MS * 2);
+    if (!nonceCheck.fresh) {
+      return reject(401, 'ERR_CREDIT_AUTH_REPLAY', nonceCheck.reason || 'Nonce replay detected');
     }
+    return { ok: true, auth };
   }
 
-  getCourseManager(): CourseManager {
-    return this.courseManager;
+  /** `groupBy` for P&L summaries; defaults to capability. */
+  private parsePnlGroupBy(raw: unknown): PnlGroupBy {
+    const value = raw === undefined || raw === null || raw === '' ? 'capability' : String(raw);
+    if (value !== 'capability' && value !== 'peer' && value !== 'day' && value !== 'category') {
+      throw new Error('groupBy must be one of: capability, peer, day, category');
+    }
+    return value;
   }
 
-  getApp(): express.Application {
-    return this.app;
+  private parseAccountingFilter(params: any): AccountingFilter {
+    const text = (v: unknown) => (typeof v === 'string' && v.trim() ? v.trim() : undefined);
+    const filter: AccountingFilter = {
+      since: text(params?.since),
+      until: text(params?.until),
+      capability: text(params?.capability),
+      peer: text(params?.peer)
+    };
+    if (filter.since && !Number.isFinite(Date.parse(filter.since))) throw new Error('since must be an ISO date');
+    if (filter.until && !Number.isFinite(Date.parse(filter.until))) throw new Error('until must be an ISO date');
+    if (params?.direction === 'income' || params?.direction === 'expense') filter.direction = params.direction;
+    return filter;
   }
 
-  getPeerRegistry(): PeerRegistry {
-    return this.peerRegistry;
+  private parseReceiptFilter(params: any): ReceiptFilter {
+    const text = (v: unknown) => (typeof v === 'string' && v.trim() ? v.trim() : undefined);
+    const filter: ReceiptFilter = {
+      since: text(params?.since),
+      until: text(params?.until),
+      capability: text(params?.capability),
+      peer: text(params?.peer),
+      jobId: text(params?.jobId)
+    };
+    if (filter.since && !Number.isFinite(Date.parse(filter.since))) throw new Error('since must be an ISO date');
+    if (filter.until && !Number.isFinite(Date.parse(filter.until))) throw new Error('until must be an ISO date');
+    if (params?.role === 'issued' || params?.role === 'received') filter.role = params.role;
+    return filter;
   }
 
-  getCapabilityRegistry(): CapabilityRegistry {
-    return this.capabilityRegistry;
+  /** Txid of a payment transaction, or null if it cannot be parsed. */
+  private readPaymentTxid(txBytes: number[]): string | null {
+    try {
+      return parsePaymentTransaction(txBytes).id('hex');
+    } catch {
+      return null;
+    }
   }
 
-  getServerInfo(): { host: string; port: number; apiKey: boolean } {
-    return {
-      host: this.host,
-      port: this.port,
-      apiKey: !!this.apiKey
-    };
+  /**
+   * Parse a payment transaction (AtomicBEEF, BEEF or raw tx) and return the
+   * satoshi value of one output, or null if it cannot be parsed.
+   */
+  private readOutputSatoshis(txBytes: number[], outputIndex: number): number | null {
+    try {
+      const output = parsePaymentTransaction(txBytes).outputs[outputIndex];
+      return typeof output?.satoshis === 'number' ? output.satoshis : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private readOutputLockingScript(txBytes: number[], outputIndex: number): string | null {
+    try {
+      return parsePaymentTransaction(txBytes).outputs[outputIndex]?.lockingScript.toHex() ?? null;
+    } catch {
+      return null;
+    }
   }
 
   private normalizeCapabilityCallParams(capability: string, rawParams: any): Record<string, unknown> {
@@ -1927,29 +5639,9 @@ export class JsonRpcServer {
   /**
    * Validate a peer endpoint URL to prevent SSRF attacks (Finding 8).
    * Only allows http/https URLs pointing to public routable addresses.
-   * Blocks localhost, private IPs, link-local, and non-http schemes.
    */
   private isValidPeerEndpoint(endpoint: string): boolean {
-    try {
-      const url = new URL(endpoint);
-      // Only allow http/https
-      if (url.protocol !== 'http:' && url.protocol !== 'https:') return false;
-      const hostname = url.hostname.toLowerCase();
-      // Block localhost and loopback
-      if (hostname === 'localhost' || hostname === '127.0.0.1' || hostname === '::1') return false;
-      // Block private IP ranges
-      if (hostname.startsWith('10.') || hostname.startsWith('192.168.')) return false;
-      if (/^172\.(1[6-9]|2[0-9]|3[01])\./.test(hostname)) return false;
-      // Block link-local
-      if (hostname.startsWith('169.254.')) return false;
-      // Block metadata endpoints (cloud SSRF)
-      if (hostname === '169.254.169.254') return false;
-      // Block 0.0.0.0
-      if (hostname === '0.0.0.0') return false;
-      return true;
-    } catch {
-      return false;
-    }
+    return isPublicHttpEndpoint(endpoint);
   }
 
   /**
@@ -1979,122 +5671,4 @@ export class JsonRpcServer {
 
     throw new Error('Missing transaction payload (expected base64/hex string, tx, or rawTx).');
   }
-
-  /**
-   * Verify that a payment transaction contains a fee output with >= FEE_SATS.
-   *
-   * We parse the raw transaction (which may be wrapped in AtomicBEEF envelope)
-   * and check that at least one output beyond index 0 has >= FEE_SATS satoshis.
-   * Output 0 is the provider's payment; the fee output is typically output 1.
-   *
-   * This is a lightweight structural check. The fee wallet holder does full
-   * BRC-29 derivation verification when sweeping fee outputs.
-   *
-   * Bitcoin tx output format:
-   *   - 8 bytes: satoshis (little-endian uint64)
-   *   - varint: script length
-   *   - N bytes: locking script
-   */
-  private verifyFeeOutputExists(txBuf: Buffer): boolean {
-    // AtomicBEEF starts with version bytes (0100beef or similar).
-    // We need to find the raw transaction within the envelope.
-    // Strategy: scan for a plausible tx start by looking for the version field (01000000 or 02000000).
-    // Then parse outputs to check satoshi values.
-
-    let offset = 0;
-
-    // Try to detect AtomicBEEF envelope and skip to raw tx.
-    // AtomicBEEF v1: starts with 0100beef (4 bytes), then BUMP data, then raw tx.
-    // For simplicity, we try multiple strategies to find the raw tx.
-    const beefMagic = txBuf.length >= 4 &&
-      txBuf[2] === 0xbe && txBuf[3] === 0xef;
-
-    if (beefMagic) {
-      // This is BEEF-wrapped. The raw tx is embedded somewhere after the header.
-      // Rather than fully parsing BEEF, scan for tx version bytes (01000000 or 02000000)
-      // followed by plausible varint input count.
-      for (let i = 4; i < txBuf.length - 10; i++) {
-        if ((txBuf[i] === 0x01 || txBuf[i] === 0x02) &&
-            txBuf[i + 1] === 0x00 && txBuf[i + 2] === 0x00 && txBuf[i + 3] === 0x00) {
-          // Possible tx version. Check if next byte is a plausible input count (1-10).
-          const possibleInputCount = txBuf[i + 4];
-          if (possibleInputCount >= 1 && possibleInputCount <= 10) {
-            offset = i;
-            break;
-          }
-        }
-      }
-      if (offset === 0) {
-        // Couldn't find raw tx in BEEF envelope
-        logWarn(TAG, 'Could not locate raw tx in BEEF envelope for fee check');
-        return true; // Don't block on parse failure — defense in depth
-      }
-    }
-
-    try {
-      // Parse raw Bitcoin transaction
-      // Version: 4 bytes
-      offset += 4;
-
-      // Input count (varint)
-      const { value: inputCount, bytesRead: inputCountBytes } = this.readVarint(txBuf, offset);
-      offset += inputCountBytes;
-
-      // Skip inputs
-      for (let i = 0; i < inputCount; i++) {
-        offset += 32; // prev txid
-        offset += 4;  // prev vout
-        const { value: scriptLen, bytesRead: scriptLenBytes } = this.readVarint(txBuf, offset);
-        offset += scriptLenBytes;
-        offset += scriptLen; // script
-        offset += 4; // sequence
-      }
-
-      // Output count (varint)
-      const { value: outputCount, bytesRead: outputCountBytes } = this.readVarint(txBuf, offset);
-      offset += outputCountBytes;
-
-      if (outputCount < 2) {
-        // Need at least 2 outputs (provider + fee)
-        return false;
-      }
-
-      // Parse outputs, looking for fee output (skip output 0 = provider payment)
-      for (let i = 0; i < outputCount; i++) {
-        // Satoshis: 8 bytes little-endian
-        if (offset + 8 > txBuf.length) return true; // Truncated, don't block
-        const satoshis = Number(txBuf.readBigUInt64LE(offset));
-        offset += 8;
-
-        const { value: scriptLen, bytesRead: scriptLenBytes } = this.readVarint(txBuf, offset);
-        offset += scriptLenBytes;
-        offset += scriptLen;
-
-        // Check non-zero outputs beyond index 0 for fee amount
-        if (i > 0 && satoshis >= FEE_SATS) {
-          return true; // Found a fee output
-        }
-      }
-
-      return false; // No fee output found
-    } catch {
-      // Parse error — don't block the payment, just log
-      return true;
-    }
-  }
-
-  /** Read a Bitcoin varint from a buffer at the given offset. */
-  private readVarint(buf: Buffer, offset: number): { value: number; bytesRead: number } {
-    const first = buf[offset];
-    if (first < 0xfd) {
-      return { value: first, bytesRead: 1 };
-    } else if (first === 0xfd) {
-      return { value: buf.readUInt16LE(offset + 1), bytesRead: 3 };
-    } else if (first === 0xfe) {
-      return { value: buf.readUInt32LE(offset + 1), bytesRead: 5 };
-    } else {
-      // 0xff — 8-byte value, but we cap at Number.MAX_SAFE_INTEGER
-      return { value: Number(buf.readBigUInt64LE(offset + 1)), bytesRead: 9 };
-    }
-  }
 }
@@ -79,22 +79,33 @@ export interface DiscoveryQuery {
   version: string;
   queryId: string;
   requester: string;
+  requesterIdentityKey: string;    // full key the signature verifies against
   query: {
     capability: string;
     minVersion: string;
     chain: 'test' | 'main';
     maxResults: number;
   };
+  hopLimit: number;                // relays forward while the query's route is shorter than this
   responseEndpoint: string;
   signature: string;
   timestamp: string;
 }
 
+/** One link of a discovery query's route: `from` passed query `queryId` to `to`, signed by `from`. */
+export interface DiscoveryHop {
+  queryId: string;
+  from: string;
+  to: string;
+  signature: string;
+}
+
 export interface DiscoveryResponse {
   type: 'discovery-response';
   version: string;
   responseId: string;
   originalQueryId: string;
+  responder: string;               // identity key of the answering Claw
   results: {
     clawId: string;
     identityKey: string;
@@ -130,8 +141,24 @@ export interface ServeOptions {
   indelibleUrl?: string;
   indelibleOperatorAddress?: string;
   indelibleDefaultAgentAddress?: string;
+  /** What happens to an internalized payment when the capability handler fails. */
+  failurePolicy?: PaidCallFailurePolicy;
+  /** How long internalized payment outputs are remembered for replay protection. */
+  replayWindowMs?: number;
+  /** How often issued receipts are anchored on-chain. 0 disables the anchoring job. */
+  receiptAnchorIntervalMs?: number;
+  /** How often the capability index sweeps for stale peers. 0 leaves refreshing to searches. */
+  capabilityIndexRefreshMs?: number;
+  /** How often subscribed ban lists are re-fetched. 0 leaves it to the refreshBanLists RPC. */
+  banListRefreshMs?: number;
 }
 
+/**
+ * 'credit' books the price to the caller's prepaid credit balance (signed credit note,
+ * redeemable on the next call); 'refund' pays it back through a BRC-29 output.
+ */
+export type PaidCallFailurePolicy = 'credit' | 'refund';
+
 export interface ShareOptions {
   recipient: string;
   capability: string;
@@ -163,13 +190,238 @@ export interface PeerRecord {
   chain: Chain;
   lastSeen: string;
   reputation: number;
+  endpointStatus?: EndpointProofStatus;   // absent until the endpoint has been challenged
+  endpointCheckedAt?: string;
+}
+
+/**
+ * 'verified': the endpoint answered a fresh nonce with a proof signed by the
+ * peer's identity key. 'unverified': it didn't — the peer is known, never hired.
+ */
+export type EndpointProofStatus = 'verified' | 'unverified';
+
+/** GET /endpoint-proof?nonce= — the key holder vouching that it serves this endpoint. */
+export interface EndpointProof {
+  type: 'endpoint-proof';
+  identityKey: string;
+  endpoint: string;             // the base URL the signer advertises
+  nonce: string;                // the challenger's, echoed back
+  timestamp: string;
+  signature: string;            // identityKey, for the 'anyone' counterparty
+}
+
+/** One peer as another Claw vouches for it in GET /peers. */
+export interface PeerExchangeEntry {
+  identityKey: string;
+  endpoint: string;
+  capabilities: string[];
+  chain: Chain;
+  lastSeen: string;
+  reputation: number;           // the publisher's score for it
+}
+
+/** A page of GET /peers, signed by the publishing Claw. */
+export interface PeerExchangePage {
+  publisher: string;            // identity key
+  entries: PeerExchangeEntry[];
+  offset: number;
+  total: number;                // peers the publisher shares, across all pages
+  nextOffset: number | null;
+  capability?: string;          // filter the page was built with
+  timestamp: string;
+  signature: string;            // publisher, for the 'anyone' counterparty
+}
+
+/** What a block or allow entry matches: one identity key, or an endpoint (and every path under it). */
+export type PeerAccessKind = 'identity' | 'endpoint';
+
+/** One ban as a Claw publishes it at GET /ban-list. */
+export interface BanListEntry {
+  kind: PeerAccessKind;
+  value: string;                // identity key, or endpoint base URL
+  reason?: string;
+  expiresAt?: string;           // absent: until lifted
+}
+
+/** The bans a Claw vouches for, signed so subscribers know whose list they follow. */
+export interface BanList {
+  type: 'ban-list';
+  publisher: string;            // identity key
+  entries: BanListEntry[];
+  timestamp: string;
+  signature: string;            // publisher, for the 'anyone' counterparty
+}
+
+/** POST /api/directory/register — a Claw listing its endpoint, signed by its identity key. */
+export interface DirectoryRegistration {
+  type: 'directory-registration';
+  identityKey: string;
+  endpoint: string;
+  capabilities: string[];
+  chain?: Chain;
+  timestamp: string;
+  signature: string;            // identityKey, for the 'anyone' counterparty
+}
+
+/**
+ * 'online': the endpoint answered its last ownership challenge. 'offline':
+ * it didn't — listed on request, dropped once it has been silent for the TTL.
+ */
+export type DirectoryEntryStatus = 'online' | 'offline';
+
+/** One Claw as a directory lists it at GET /api/directory. */
+export interface DirectoryEntry {
+  identityKey: string;
+  endpoint: string;
+  capabilities: string[];
+  chain?: Chain;
+  status: DirectoryEntryStatus;
+  registeredAt: string;         // the latest registration's signed timestamp
+  lastSeen: string;             // last registration or successful liveness check
+  lastCheckedAt?: string;
+  failures: number;             // liveness checks failed in a row
+  lastError?: string;
+}
+
+export interface DirectoryServeOptions {
+  port?: number;
+  host?: string;
+  dataDir?: string;
+  cors?: boolean;
+  /** Entries not seen alive or re-registered for this long are dropped. */
+  entryTtlMs?: number;
+  /** How often listed endpoints are challenged again. 0 disables the sweep. */
+  livenessIntervalMs?: number;
+  /** Challenge endpoints for an ownership proof before listing them (default true). */
+  checkLiveness?: boolean;
+  /** Accept loopback and private-network endpoints, for fleets on one network. */
+  allowPrivateEndpoints?: boolean;
+}
+
+export interface PriceTier {
+  upTo: number;        // inclusive unit ceiling of this tier
+  satoshis: number;    // price of any call that lands in it
+}
+
+/**
+ * How a capability is priced. 'flat' charges pricePerCall; 'per_unit' charges
+ * baseSatoshis + satoshisPerUnit × units (rounded up); 'tiered' charges the
+ * first tier whose upTo covers the units. Metered models cap units at
+ * maxUnits (tiered: the last tier's upTo).
+ */
+export type CapabilityPricing =
+  | { model: 'flat'; satoshis: number }
+  | { model: 'per_unit'; unit: string; satoshisPerUnit: number; baseSatoshis?: number; maxUnits: number }
+  | { model: 'tiered'; unit: string; tiers: PriceTier[] };
+
+export interface PriceQuote {
+  satoshis: number;
+  unit?: string;
+  units?: number;
+}
+
+/**
+ * Provider-signed price offer from POST /quote/:capability. Paying to its
+ * derivationPrefix before expiresAt buys one call with exactly these params
+ * at this price, whatever the list price is by then.
+ */
+export interface SignedQuote {
+  type: 'clawsats-quote';
+  version: string;
+  quoteId: string;
+  capability: string;
+  provider: string;          // provider identity key (signer)
+  requester?: string;        // caller the quote is bound to, if they identified themselves
+  paramsHash: string;        // sha256 of canonicalJson(params)
+  satoshis: number;
+  feeSats: number;
+  unit?: string;
+  units?: number;
+  derivationPrefix: string;
+  issuedAt: string;
+  expiresAt: string;
+  signature?: string;
+}
+
+export type EscrowParty = 'requester' | 'provider' | 'arbiter';
+export type EscrowPayee = 'requester' | 'provider';
+
+/**
+ * What requester and provider agree on before the 2-of-3 output is funded.
+ * Every party derives the locking script and settlement txs from these alone.
+ */
+export interface EscrowTerms {
+  escrowId: string;
+  requester: string;          // identity keys
+  provider: string;
+  arbiter: string;
+  providerEndpoint: string;   // where the arbiter can fetch delivery evidence
+  arbiterEndpoint: string;
+  capability: string;
+  paramsHash: string;         // sha256 of canonicalJson(params)
+  satoshis: number;           // locked in the escrow output (payout = satoshis − settlement fee)
+  derivationPrefix: string;   // BRC-29 prefix of the settlement payout
+  createdAt: string;
+}
+
+/** Provider's signed statement of what it delivered for an escrowed job. */
+export interface EscrowDelivery {
+  type: 'clawsats-escrow-delivery';
+  escrowId: string;
+  provider: string;
+  requester: string;
+  capability: string;
+  paramsHash: string;
+  resultHash: string;         // sha256 of canonicalJson(result)
+  success: boolean;
+  deliveredAt: string;
+  signature?: string;
+}
+
+/** Arbiter's signed ruling, carrying its signature over the winner's settlement tx. */
+export interface EscrowRuling {
+  type: 'clawsats-escrow-ruling';
+  escrowId: string;
+  arbiter: string;
+  winner: EscrowPayee;
+  reason: string;
+  settlementSignature: string;  // checksig hex, input 0 of buildSettlementTx(terms, funding, winner)
+  decidedAt: string;
+  signature?: string;
+}
+
+/** Arbiter's signed request for the provider's evidence on an escrow it is ruling on. */
+export interface EscrowEvidenceRequest {
+  type: 'clawsats-escrow-evidence-request';
+  escrowId: string;
+  arbiter: string;
+  nonce: string;
+  requestedAt: string;
+  signature?: string;
+}
+
+/** Metered usage reported on a call's response and signed receipt. */
+export interface CallUsage {
+  unit: string;
+  quotedUnits: number;
+  consumedUnits: number;
+  quotedSats: number;
+  chargedSats: number;      // price of the units consumed (never above the quote)
+  unusedSats: number;       // quotedSats - chargedSats
+  creditedSats?: number;    // unused sats returned to the caller's credit balance
+  creditEntryId?: string;
 }
 
 export interface CapabilityHandler {
   name: string;
   description: string;
-  pricePerCall: number;
+  pricePerCall: number;          // flat price, or the quote for default params when metered
   tags?: string[];
+  pricing?: CapabilityPricing;   // absent = flat pricePerCall
+  quoteUnits?: (params: any) => number;                 // units the request may consume (priced up front)
+  measureUnits?: (result: any, params: any) => number;  // units the call actually consumed
+  parallelSafe?: boolean;        // no side effects beyond its own result — may run concurrently in a batch
+  verifiable?: boolean;          // result is checkable by the caller — may be sold hash-locked (pay on result)
   handler: (params: any, wallet: any) => Promise<any>;
 }
 
@@ -255,6 +507,48 @@ export interface Receipt {
   timestamp: string;
 }
 
+/**
+ * Receipt returned by /call, /batch and escrow deliveries. `signature` is the
+ * provider's; `requesterSignature` is added when the requester countersigns
+ * (POST /receipts/ack). See protocol/receipt.ts for what each covers.
+ */
+export interface CallReceipt {
+  receiptId: string;
+  capability: string;
+  provider: string;             // identity keys
+  requester: string;
+  satoshisPaid: number;
+  feeSats: number;
+  paymentTxid?: string;         // the on-chain payment; absent when paid from credit
+  resultHash: string;           // sha256 of canonicalJson(result) — of `items` for a batch
+  result: { success: boolean; hash: string };
+  timestamp: string;
+  remedy?: Record<string, unknown>;
+  usage?: CallUsage;
+  items?: Array<{ index: number; capability: string; satoshis: number; success: boolean; resultHash: string }>;
+  signature: string;
+  requesterSignature?: string;
+}
+
+/** One step of a Merkle inclusion proof: the sibling hash and which side it sits on. */
+export interface MerkleStep {
+  hash: string;
+  position: 'left' | 'right';
+}
+
+/**
+ * Proof that a receipt was in a provider's anchored batch: the leaf's path to
+ * `root`, which the provider wrote on-chain in tx `txid` (CLAWRCPT_V1 OP_RETURN).
+ */
+export interface ReceiptAnchorProof {
+  txid: string;
+  root: string;
+  leafIndex: number;
+  leafCount: number;
+  path: MerkleStep[];
+  anchoredAt: string;
+}
+
 export interface BroadcastMeta {
   hopCount: number;
   maxHops: number;
@@ -262,15 +556,65 @@ export interface BroadcastMeta {
   dedupeKey: string;
 }
 
+/**
+ * A peer's reputation as computed by ReputationEngine. Metric counts are
+ * time-decayed, so they are fractional and shrink while a peer is quiet.
+ */
 export interface ReputationScore {
   clawId: string;
-  score: number;
+  identityKey: string;
+  score: number;                 // 0–100
+  confidence: number;            // 0–1, how much evidence backs the score
   metrics: {
-    successfulDeployments: number;
+    successfulDeployments: number;   // paid calls that returned a result
     failedDeployments: number;
-    uptime: number;
-    responseTime: number;
+    uptime: number;                  // % of probes answered (0 when never probed)
+    responseTime: number;            // ms, moving average (0 when never measured)
+    validReceipts: number;
+    invalidReceipts: number;
     fraudReports: number;
+    attestations: number;            // other Claws' attestations, weighted by their reputation
   };
   lastUpdated: Date;
 }
+
+export type AttestationOutcome = 'success' | 'failure' | 'fraud';
+
+/**
+ * One Claw's signed word on a peer it did business with. The receipt for
+ * that call travels with it, so anyone can check the two really transacted.
+ */
+export interface ReputationAttestation {
+  attester: string;             // identity keys
+  subject: string;
+  outcome: AttestationOutcome;
+  receipt: CallReceipt;
+  note?: string;
+  timestamp: string;
+  signature: string;            // attester, for the 'anyone' counterparty
+}
+
+/** What a fraud report says the provider did. */
+export type FraudEvidenceKind =
+  | 'result_mismatch'     // the result it returned doesn't hash to its receipt's resultHash
+  | 'invalid_signature'   // its receipt's signature doesn't verify
+  | 'no_result';          // it kept the payment and returned neither result nor receipt
+
+/**
+ * A requester's signed accusation against a provider, with the evidence:
+ * the receipt (and the result actually returned), or the payment txid.
+ */
+export interface FraudReport {
+  reportId: string;
+  reporter: string;             // identity keys
+  accused: string;
+  kind: FraudEvidenceKind;
+  capability?: string;
+  receipt?: CallReceipt;        // result_mismatch, invalid_signature
+  result?: unknown;             // result_mismatch: what the provider returned
+  paymentTxid?: string;         // no_result
+  satoshis?: number;            // no_result: what the payment paid the provider
+  description: string;
+  timestamp: string;
+  signature: string;            // reporter, for the 'anyone' counterparty
+}
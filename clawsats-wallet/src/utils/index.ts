@@ -32,6 +32,34 @@ export function canonicalJson(obj: unknown): string {
   });
 }
 
+/**
+ * An http(s) URL on a publicly routable host — never localhost, private or
+ * link-local ranges, or the cloud metadata address. Guards every URL we
+ * fetch because a peer told us to (SSRF).
+ */
+export function isPublicHttpEndpoint(endpoint: string): boolean {
+  try {
+    const url = new URL(endpoint);
+    // Only allow http/https
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return false;
+    const hostname = url.hostname.toLowerCase();
+    // Block localhost and loopback
+    if (hostname === 'localhost' || hostname === '127.0.0.1' || hostname === '::1') return false;
+    // Block private IP ranges
+    if (hostname.startsWith('10.') || hostname.startsWith('192.168.')) return false;
+    if (/^172\.(1[6-9]|2[0-9]|3[01])\./.test(hostname)) return false;
+    // Block link-local
+    if (hostname.startsWith('169.254.')) return false;
+    // Block metadata endpoints (cloud SSRF)
+    if (hostname === '169.254.169.254') return false;
+    // Block 0.0.0.0
+    if (hostname === '0.0.0.0') return false;
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Structured log helper with [tag] prefix.
  */
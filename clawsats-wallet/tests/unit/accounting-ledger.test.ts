@@ -0,0 +1,102 @@
+import { existsSync, rmSync, appendFileSync } from 'fs';
+import { join } from 'path';
+import { AccountingLedger, networkFeeFromAction } from '../../src/core/AccountingLedger';
+
+const TEST_DIR = join(__dirname, '..', 'tmp-accounting-test');
+const ALICE = '02' + 'a'.repeat(64);
+const BOB = '03' + 'b'.repeat(64);
+
+function cleanup(): void {
+  if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+}
+
+function seed(ledger: AccountingLedger): void {
+  ledger.record({ category: 'capability', satoshis: 10, capability: 'echo', peer: ALICE, txid: 't1', ts: '2026-03-01T10:00:00.000Z' });
+  ledger.record({ category: 'credit_call', satoshis: 3, capability: 'dns_resolve', peer: ALICE, ts: '2026-03-01T12:00:00.000Z' });
+  ledger.record({ category: 'hire', satoshis: 15, networkFeeSats: 1, capability: 'fetch_url', peer: BOB, ts: '2026-03-02T09:00:00.000Z' });
+  ledger.record({ category: 'protocol_fee', satoshis: 2, capability: 'fetch_url', peer: BOB, ts: '2026-03-02T09:00:00.000Z' });
+  ledger.record({ category: 'memory_write', satoshis: 0, networkFeeSats: 4, memo: 'jobs/1', ts: '2026-03-02T09:05:00.000Z' });
+}
+
+describe('AccountingLedger', () => {
+  beforeEach(() => cleanup());
+  afterEach(() => cleanup());
+
+  test('derives direction from category', () => {
+    const ledger = new AccountingLedger(TEST_DIR);
+    expect(ledger.record({ category: 'capability', satoshis: 5 }).direction).toBe('income');
+    expect(ledger.record({ category: 'credit_call', satoshis: 5 }).direction).toBe('income');
+    expect(ledger.record({ category: 'hire', satoshis: 5 }).direction).toBe('expense');
+    expect(ledger.record({ category: 'beacon', satoshis: 0 }).direction).toBe('expense');
+  });
+
+  test('rejects invalid amounts', () => {
+    const ledger = new AccountingLedger(TEST_DIR);
+    expect(() => ledger.record({ category: 'capability', satoshis: -1 })).toThrow();
+    expect(() => ledger.record({ category: 'hire', satoshis: 1.5 })).toThrow();
+    expect(() => ledger.record({ category: 'hire', satoshis: 1, networkFeeSats: -2 })).toThrow();
+  });
+
+  test('P&L by capability counts network fees as expense', () => {
+    const ledger = new AccountingLedger(TEST_DIR);
+    seed(ledger);
+    const report = ledger.summarize('capability');
+
+    expect(report.totals).toEqual({ key: 'total', income: 13, expense: 22, net: -9, entries: 5 });
+    const fetchRow = report.rows.find(r => r.key === 'fetch_url')!;
+    expect(fetchRow.expense).toBe(18);
+    expect(report.rows.find(r => r.key === '(none)')!.expense).toBe(4);
+    expect(report.rows[0].key).toBe('echo');
+  });
+
+  test('P&L by peer and by day', () => {
+    const ledger = new AccountingLedger(TEST_DIR);
+    seed(ledger);
+
+    const byPeer = ledger.summarize('peer');
+    expect(byPeer.rows.find(r => r.key === ALICE)!.net).toBe(13);
+    expect(byPeer.rows.find(r => r.key === BOB)!.net).toBe(-18);
+
+    const byDay = ledger.summarize('day');
+    expect(byDay.rows.map(r => r.key)).toEqual(['2026-03-01', '2026-03-02']);
+    expect(byDay.rows[1].expense).toBe(22);
+  });
+
+  test('filters by date range and direction', () => {
+    const ledger = new AccountingLedger(TEST_DIR);
+    seed(ledger);
+    expect(ledger.list({ since: '2026-03-02' }).length).toBe(3);
+    expect(ledger.list({ until: '2026-03-02' }).length).toBe(2);
+    expect(ledger.list({ direction: 'income' }).every(e => e.direction === 'income')).toBe(true);
+    expect(ledger.summarize('category', { since: '2026-03-02' }).totals.income).toBe(0);
+  });
+
+  test('skips corrupt lines and survives reopen', () => {
+    const ledger = new AccountingLedger(TEST_DIR);
+    seed(ledger);
+    appendFileSync(ledger.getLedgerPath(), '{broken\n', 'utf8');
+    expect(new AccountingLedger(TEST_DIR).list().length).toBe(5);
+  });
+
+  test('CSV export escapes values and includes totals for reports', () => {
+    const ledger = new AccountingLedger(TEST_DIR);
+    ledger.record({ category: 'beacon', satoshis: 0, memo: 'https://a.example, "quoted"' });
+
+    const csv = AccountingLedger.toCsv(ledger.list());
+    const [header, row] = csv.trim().split('\n');
+    expect(header).toBe('id,ts,direction,category,satoshis,networkFeeSats,capability,peer,txid,reference,memo');
+    expect(row.endsWith('"https://a.example, ""quoted"""')).toBe(true);
+
+    const reportCsv = AccountingLedger.reportToCsv(ledger.summarize('category'));
+    expect(reportCsv.trim().split('\n')).toEqual([
+      'category,income,expense,net,entries',
+      'beacon,0,0,0,1',
+      'total,0,0,0,1'
+    ]);
+  });
+
+  test('networkFeeFromAction is undefined without a parseable tx', () => {
+    expect(networkFeeFromAction({ txid: 'abc' })).toBeUndefined();
+    expect(networkFeeFromAction({ tx: [1, 2, 3] })).toBeUndefined();
+  });
+});
@@ -0,0 +1,109 @@
+import { createHash } from 'crypto';
+import { LockingScript, Transaction } from '@bsv/sdk';
+import {
+  buildAnchorScript,
+  buildMerkleTree,
+  checkReceiptAnchor,
+  readAnchorRoot,
+  receiptLeafHash,
+  verifyMerkleProof
+} from '../../src/protocol/anchor';
+import { CallReceipt } from '../../src/types';
+
+const PROVIDER = '02' + 'a'.repeat(64);
+const REQUESTER = '03' + 'b'.repeat(64);
+
+function leaf(i: number): string {
+  return createHash('sha256').update(`leaf-${i}`).digest('hex');
+}
+
+function receipt(receiptId: string): CallReceipt {
+  return {
+    receiptId,
+    capability: 'echo',
+    provider: PROVIDER,
+    requester: REQUESTER,
+    satoshisPaid: 10,
+    feeSats: 2,
+    resultHash: 'h1',
+    result: { success: true, hash: 'h1' },
+    timestamp: '2026-03-01T10:00:00.000Z',
+    signature: 'c2ln'
+  };
+}
+
+describe('receipt anchoring', () => {
+  test.each([1, 2, 3, 5, 8])('every leaf of a %i-leaf tree proves into the root', (count) => {
+    const leaves = Array.from({ length: count }, (_, i) => leaf(i));
+    const { root, paths } = buildMerkleTree(leaves);
+    expect(root).toMatch(/^[0-9a-f]{64}$/);
+    leaves.forEach((l, i) => expect(verifyMerkleProof(l, paths[i], root)).toBe(true));
+  });
+
+  test('a single leaf is not its own root', () => {
+    const { root, paths } = buildMerkleTree([leaf(0)]);
+    expect(paths[0]).toEqual([]);
+    expect(root).toBe(leaf(0));
+    expect(() => buildMerkleTree([])).toThrow();
+  });
+
+  test('proofs fail for another leaf, a tampered path or another root', () => {
+    const leaves = Array.from({ length: 5 }, (_, i) => leaf(i));
+    const { root, paths } = buildMerkleTree(leaves);
+    expect(verifyMerkleProof(leaf(9), paths[2], root)).toBe(false);
+    expect(verifyMerkleProof(leaves[2], paths[3], root)).toBe(false);
+    const flipped = paths[2].map((step, i) => (i === 0 ? { ...step, position: step.position === 'left' ? 'right' as const : 'left' as const } : step));
+    expect(verifyMerkleProof(leaves[2], flipped, root)).toBe(false);
+    expect(verifyMerkleProof(leaves[2], paths[2], leaf(7))).toBe(false);
+  });
+
+  test('the leaf covers the provider signature but not the countersignature', () => {
+    const base = receipt('rcpt-1');
+    expect(receiptLeafHash({ ...base, requesterSignature: 'YWNr' })).toBe(receiptLeafHash(base));
+    expect(receiptLeafHash({ ...base, signature: 'b3RoZXI=' })).not.toBe(receiptLeafHash(base));
+    expect(receiptLeafHash({ ...base, satoshisPaid: 1 })).not.toBe(receiptLeafHash(base));
+  });
+
+  test('the anchor script carries the root for readAnchorRoot', () => {
+    const { root } = buildMerkleTree([leaf(0), leaf(1)]);
+    const tx = new Transaction();
+    tx.addOutput({
+      satoshis: 0,
+      lockingScript: LockingScript.fromHex(buildAnchorScript(root, { provider: PROVIDER, leafCount: 2, anchoredAt: '2026-03-01T11:00:00.000Z' }))
+    });
+    expect(readAnchorRoot(tx)).toBe(root);
+    expect(readAnchorRoot(new Transaction())).toBeNull();
+    expect(() => buildAnchorScript('nope', { provider: PROVIDER, leafCount: 1, anchoredAt: '' })).toThrow();
+  });
+
+  test('checkReceiptAnchor checks inclusion against the proof root', async () => {
+    const receipts = ['rcpt-1', 'rcpt-2', 'rcpt-3'].map(receipt);
+    const { root, paths } = buildMerkleTree(receipts.map(receiptLeafHash));
+    const anchor = { txid: 'ab'.repeat(32), root, leafIndex: 1, leafCount: 3, path: paths[1], anchoredAt: '2026-03-01T11:00:00.000Z' };
+    await expect(checkReceiptAnchor(receipts[1], anchor, { onChain: false })).resolves.toBeNull();
+    await expect(checkReceiptAnchor(receipts[0], anchor, { onChain: false })).resolves.toMatch(/not in the anchored/);
+    await expect(checkReceiptAnchor(receipts[1], undefined, { onChain: false })).resolves.toMatch(/No anchor/);
+  });
+
+  test('checkReceiptAnchor looks the anchor tx up on the chain it is given', async () => {
+    const receipts = ['rcpt-1', 'rcpt-2'].map(receipt);
+    const { root, paths } = buildMerkleTree(receipts.map(receiptLeafHash));
+    const tx = new Transaction();
+    tx.addOutput({
+      satoshis: 0,
+      lockingScript: LockingScript.fromHex(buildAnchorScript(root, { provider: PROVIDER, leafCount: 2, anchoredAt: '2026-03-01T11:00:00.000Z' }))
+    });
+    const anchor = { txid: 'cd'.repeat(32), root, leafIndex: 0, leafCount: 2, path: paths[0], anchoredAt: '2026-03-01T11:00:00.000Z' };
+    const fetchSpy = jest.spyOn(global, 'fetch').mockImplementation(async () => new Response(tx.toHex(), { status: 200 }));
+    try {
+      await expect(checkReceiptAnchor(receipts[0], anchor, { chain: 'test' })).resolves.toBeNull();
+      await expect(checkReceiptAnchor(receipts[0], anchor)).resolves.toBeNull();
+      expect(fetchSpy.mock.calls.map(([url]) => String(url))).toEqual([
+        `https://api.whatsonchain.com/v1/bsv/test/tx/${anchor.txid}/hex`,
+        `https://api.whatsonchain.com/v1/bsv/main/tx/${anchor.txid}/hex`
+      ]);
+    } finally {
+      fetchSpy.mockRestore();
+    }
+  });
+});
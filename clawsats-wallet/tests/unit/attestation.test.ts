@@ -0,0 +1,185 @@
+import { randomBytes } from 'crypto';
+import { existsSync, rmSync } from 'fs';
+import { join } from 'path';
+import { PrivateKey, ProtoWallet } from '@bsv/sdk';
+import { checkAttestation, signAttestation } from '../../src/protocol/attestation';
+import { countersignReceipt, receiptResultHash, signReceipt } from '../../src/protocol/receipt';
+import { AttestationStore } from '../../src/core/AttestationStore';
+import { ReputationEngine } from '../../src/core/ReputationEngine';
+import { REPUTATION_NEUTRAL_SCORE } from '../../src/protocol/constants';
+import { AttestationOutcome, CallReceipt, ReputationAttestation } from '../../src/types';
+
+const TEST_DIR = join(__dirname, '..', 'tmp-attestation-test');
+
+function party(): { key: string; wallet: ProtoWallet } {
+  const priv = PrivateKey.fromRandom();
+  return { key: priv.toPublicKey().toString(), wallet: new ProtoWallet(priv) };
+}
+
+const self = party();
+const provider = party();
+const trusted = party();
+const stranger = party();
+const requester = party();
+
+let receiptCounter = 0;
+
+async function receiptFrom(
+  from: ReturnType<typeof party>,
+  to: ReturnType<typeof party>,
+  timestamp = new Date().toISOString(),
+  paymentTxid: string | null = randomBytes(32).toString('hex')
+): Promise<CallReceipt> {
+  const hash = receiptResultHash({ ok: true });
+  return signReceipt(from.wallet, {
+    receiptId: `receipt-${++receiptCounter}`,
+    capability: 'echo',
+    provider: from.key,
+    requester: to.key,
+    satoshisPaid: 10,
+    feeSats: 2,
+    ...(paymentTxid ? { paymentTxid } : {}),
+    resultHash: hash,
+    result: { success: true, hash },
+    timestamp
+  });
+}
+
+/** `attester` paid `subject` for a call and attests about it. */
+async function attest(
+  attester: ReturnType<typeof party>,
+  subject: ReturnType<typeof party>,
+  outcome: AttestationOutcome,
+  timestamp = new Date().toISOString()
+): Promise<ReputationAttestation> {
+  const receipt = await receiptFrom(subject, attester, timestamp);
+  return signAttestation(attester.wallet, { attester: attester.key, subject: subject.key, outcome, receipt, timestamp });
+}
+
+function cleanup(): void {
+  if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+}
+
+describe('reputation attestations', () => {
+  test('a requester can attest about its provider and anyone can check it', async () => {
+    const attestation = await attest(requester, provider, 'success');
+    await expect(checkAttestation(attestation)).resolves.toBeNull();
+    await expect(checkAttestation({ ...attestation, outcome: 'fraud' })).resolves.toBe('Attester signature does not verify');
+    await expect(checkAttestation({ ...attestation, subject: stranger.key })).resolves.toBe('Receipt is not between the attester and the subject');
+  });
+
+  test('a provider needs the requester countersignature to attest', async () => {
+    const receipt = await receiptFrom(provider, requester);
+    const unsigned = { attester: provider.key, subject: requester.key, outcome: 'failure' as const, receipt, timestamp: new Date().toISOString() };
+    const alone = await signAttestation(provider.wallet, unsigned);
+    await expect(checkAttestation(alone)).resolves.toMatch(/countersigned/);
+
+    const countersigned = await signAttestation(provider.wallet, { ...unsigned, receipt: await countersignReceipt(requester.wallet, receipt) });
+    await expect(checkAttestation(countersigned)).resolves.toBeNull();
+  });
+
+  test('a receipt forged by the attester is rejected', async () => {
+    const receipt = await receiptFrom(provider, requester);
+    const forged = await signAttestation(requester.wallet, {
+      attester: requester.key,
+      subject: provider.key,
+      outcome: 'fraud',
+      receipt: { ...receipt, satoshisPaid: 1000 },
+      timestamp: new Date().toISOString()
+    });
+    await expect(checkAttestation(forged)).resolves.toBe('Receipt provider signature does not verify');
+  });
+
+  test('a receipt for a call paid from credit can\'t back an attestation', async () => {
+    const receipt = await receiptFrom(provider, requester, undefined, null);
+    const attestation = await signAttestation(requester.wallet, {
+      attester: requester.key,
+      subject: provider.key,
+      outcome: 'success',
+      receipt,
+      timestamp: new Date().toISOString()
+    });
+    await expect(checkAttestation(attestation)).resolves.toBe('Receipt names no on-chain payment');
+  });
+});
+
+describe('AttestationStore', () => {
+  beforeEach(() => cleanup());
+  afterEach(() => cleanup());
+
+  test('a newer attestation on the same receipt supersedes the older one', async () => {
+    const store = new AttestationStore(TEST_DIR);
+    const first = await attest(requester, provider, 'success', '2026-03-01T00:00:00.000Z');
+    const later = { ...first, outcome: 'failure' as const, timestamp: '2026-03-02T00:00:00.000Z' };
+    expect(store.add(first)).toBe(true);
+    expect(store.add(later, 'push')).toBe(true);
+    expect(store.add(first)).toBe(false);
+    expect(store.list().map(a => a.outcome)).toEqual(['failure']);
+    expect(store.list({ subject: provider.key, since: '2026-03-03T00:00:00.000Z' })).toHaveLength(0);
+  });
+});
+
+describe('ReputationEngine with attestations', () => {
+  const NOW = Date.parse('2026-03-10T00:00:00.000Z');
+  const stamp = new Date(NOW).toISOString();
+
+  beforeEach(() => cleanup());
+  afterEach(() => cleanup());
+
+  function engineWith(store: AttestationStore): ReputationEngine {
+    const engine = new ReputationEngine(TEST_DIR);
+    engine.useAttestations(store, self.key);
+    for (let i = 0; i < 20; i++) {
+      engine.recordCall(trusted.key, true, 100, NOW);
+      engine.recordReceipt(trusted.key, true, NOW);
+    }
+    return engine;
+  }
+
+  test('a peer we never dealt with is scored from attestations', async () => {
+    const store = new AttestationStore(TEST_DIR);
+    const engine = engineWith(store);
+    expect(engine.score(provider.key, NOW)).toBe(REPUTATION_NEUTRAL_SCORE);
+
+    for (let i = 0; i < 3; i++) store.add(await attest(trusted, provider, 'success', stamp));
+    const explained = engine.explain(provider.key, NOW);
+    expect(explained.score).toBeGreaterThan(REPUTATION_NEUTRAL_SCORE);
+    expect(explained.metrics.attestations).toBeGreaterThan(0);
+    expect(explained.reasons.join('\n')).toMatch(/positive attestations from 1 peer/);
+    expect(engine.list(NOW).map(r => r.identityKey)).toContain(provider.key);
+  });
+
+  test('a trusted attester moves the score more than a stranger', async () => {
+    const store = new AttestationStore(TEST_DIR);
+    const engine = engineWith(store);
+    for (let i = 0; i < 3; i++) store.add(await attest(trusted, provider, 'failure', stamp));
+    for (let i = 0; i < 3; i++) store.add(await attest(stranger, requester, 'failure', stamp));
+    expect(engine.score(provider.key, NOW)).toBeLessThan(engine.score(requester.key, NOW));
+  });
+
+  test('attesters we never dealt with don\'t move the score, however many there are', async () => {
+    const store = new AttestationStore(TEST_DIR);
+    const engine = engineWith(store);
+    for (let i = 0; i < 50; i++) store.add(await attest(party(), provider, 'success', stamp));
+    for (let i = 0; i < 50; i++) store.add(await attest(party(), requester, 'fraud', stamp));
+    expect(engine.score(provider.key, NOW)).toBe(REPUTATION_NEUTRAL_SCORE);
+    expect(engine.score(requester.key, NOW)).toBe(REPUTATION_NEUTRAL_SCORE);
+    expect(engine.explain(provider.key, NOW).metrics.attestations).toBe(0);
+
+    // One attester we have actually paid outweighs them all
+    store.add(await attest(trusted, provider, 'success', stamp));
+    expect(engine.score(provider.key, NOW)).toBeGreaterThan(REPUTATION_NEUTRAL_SCORE);
+  });
+
+  test('our own attestations are not counted twice and fraud attestations cut the score', async () => {
+    const store = new AttestationStore(TEST_DIR);
+    const engine = engineWith(store);
+    store.add(await attest(self, provider, 'success', stamp));
+    expect(engine.score(provider.key, NOW)).toBe(REPUTATION_NEUTRAL_SCORE);
+
+    store.add(await attest(trusted, provider, 'fraud', stamp));
+    const explained = engine.explain(provider.key, NOW);
+    expect(explained.fraudPenalty).toBeLessThan(1);
+    expect(explained.score).toBeLessThan(REPUTATION_NEUTRAL_SCORE);
+  });
+});
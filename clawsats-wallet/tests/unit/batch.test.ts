@@ -0,0 +1,242 @@
+import { CreditLedger } from '../../src/core/CreditLedger';
+import { PaymentHelper } from '../../src/core/PaymentHelper';
+import { BATCH_MAX_ITEMS } from '../../src/protocol/constants';
+import { receiptResultHash, verifyReceiptSignature } from '../../src/protocol/receipt';
+import { CapabilityHandler, CallReceipt } from '../../src/types';
+import { claw } from './helpers';
+import { paymentHeader, startTestServer, TestServer } from './test-server';
+
+const caller = claw();
+
+/** Concurrency seen by the test capabilities, in the order they ran. */
+let running = 0;
+let ran: Array<{ name: string; index: number; concurrent: number }> = [];
+
+function pure(name: string): CapabilityHandler {
+  return {
+    name,
+    description: 'test',
+    pricePerCall: 10,
+    parallelSafe: true,
+    handler: async (params: { index: number }) => {
+      running++;
+      ran.push({ name, index: params.index, concurrent: running });
+      await new Promise(resolve => setTimeout(resolve, 20));
+      running--;
+      return { index: params.index };
+    }
+  };
+}
+
+const capabilities: CapabilityHandler[] = [
+  pure('pure'),
+  {
+    name: 'stateful',
+    description: 'test',
+    pricePerCall: 10,
+    handler: async (params: { index: number }) => {
+      running++;
+      ran.push({ name: 'stateful', index: params.index, concurrent: running });
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+      return { index: params.index };
+    }
+  },
+  {
+    name: 'broken',
+    description: 'test',
+    pricePerCall: 7,
+    handler: async () => {
+      throw new Error('handler blew up');
+    }
+  },
+  {
+    name: 'rows',
+    description: 'test',
+    pricePerCall: 10,
+    pricing: { model: 'per_unit', unit: 'row', satoshisPerUnit: 1, maxUnits: 100 },
+    quoteUnits: (params: { rows?: number }) => params.rows ?? 10,
+    measureUnits: (result: { rows: number }) => result.rows,
+    handler: async () => ({ rows: 5 })
+  }
+];
+
+async function postBatch(
+  server: TestServer,
+  body: unknown,
+  headers: Record<string, string> = {}
+): Promise<{ status: number; headers: Headers; body: any }> {
+  const res = await fetch(`${server.url}/batch`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-bsv-identity-key': caller.key, ...headers },
+    body: JSON.stringify(body)
+  });
+  return { status: res.status, headers: res.headers, body: await res.json() };
+}
+
+async function withCredit(server: TestServer, body: unknown): Promise<Record<string, string>> {
+  return {
+    'x-clawsats-credit': await PaymentHelper.createCreditAuthorization(
+      caller.wallet, 'call', server.provider.identity.key, caller.key, { capability: 'batch', params: body as Record<string, any> }
+    )
+  };
+}
+
+/** Ask for the 402, then pay exactly what it asked. */
+async function paidBatch(server: TestServer, body: unknown): Promise<{ status: number; body: any }> {
+  const challenge = await postBatch(server, body);
+  expect(challenge.status).toBe(402);
+  const prefix = challenge.headers.get('x-bsv-payment-derivation-prefix')!;
+  return postBatch(server, body, { 'x-bsv-payment': paymentHeader(prefix, challenge.body.satoshisRequired) });
+}
+
+describe('POST /batch', () => {
+  let server: TestServer;
+
+  const start = async (failurePolicy?: 'credit' | 'refund') => {
+    server = await startTestServer({ failurePolicy });
+    for (const cap of capabilities) server.server.getCapabilityRegistry().register(cap);
+  };
+
+  beforeEach(() => {
+    running = 0;
+    ran = [];
+  });
+
+  afterEach(async () => {
+    await server?.stop();
+  });
+
+  test('quotes the whole batch in one 402 challenge', async () => {
+    await start();
+    const body = { calls: [{ capability: 'pure', params: { index: 0 } }, { capability: 'rows', params: { rows: 20 } }] };
+    const res = await postBatch(server, body);
+    expect(res.status).toBe(402);
+    expect(res.body).toMatchObject({
+      code: 'ERR_PAYMENT_REQUIRED',
+      capability: 'batch',
+      satoshisRequired: 30,
+      items: [
+        { index: 0, capability: 'pure', quote: { satoshis: 10 } },
+        { index: 1, capability: 'rows', quote: { satoshis: 20, unit: 'row', units: 20 } }
+      ]
+    });
+    expect(res.headers.get('x-bsv-payment-satoshis-required')).toBe('30');
+    expect(res.headers.get('x-bsv-payment-derivation-prefix')).toBeTruthy();
+    expect(ran).toHaveLength(0);
+  });
+
+  test('rejects malformed batches before quoting anything', async () => {
+    await start();
+    const cases: Array<[unknown, string, RegExp]> = [
+      [{}, 'ERR_INVALID_BATCH', /at least one call/],
+      [{ calls: [] }, 'ERR_INVALID_BATCH', /at least one call/],
+      [{ calls: Array.from({ length: BATCH_MAX_ITEMS + 1 }, () => ({ capability: 'pure' })) }, 'ERR_INVALID_BATCH', /at most/],
+      [{ calls: [{ capability: 'pure' }, { capability: 'nope' }] }, 'ERR_INVALID_BATCH', /Item 1: unknown capability "nope"/],
+      [{ calls: [{ capability: 'rows', params: { rows: 101 } }] }, 'ERR_INVALID_PARAMS', /Item 0 \(rows\)/]
+    ];
+    for (const [body, code, description] of cases) {
+      const res = await postBatch(server, body);
+      expect(res.status).toBe(400);
+      expect(res.body.code).toBe(code);
+      expect(res.body.description).toMatch(description);
+    }
+  });
+
+  test('runs parallelSafe items concurrently, then the rest one at a time in order', async () => {
+    await start();
+    new CreditLedger(server.dataDir).deposit(caller.key, 1000);
+    const body = {
+      calls: [
+        { capability: 'stateful', params: { index: 0 } },
+        { capability: 'pure', params: { index: 1 } },
+        { capability: 'stateful', params: { index: 2 } },
+        { capability: 'pure', params: { index: 3 } },
+        { capability: 'pure', params: { index: 4 } }
+      ]
+    };
+    const res = await postBatch(server, body, await withCredit(server, body));
+    expect(res.status).toBe(200);
+    expect(ran.slice(0, 3).map(r => r.name)).toEqual(['pure', 'pure', 'pure']);
+    expect(Math.max(...ran.slice(0, 3).map(r => r.concurrent))).toBe(3);
+    expect(ran.slice(3)).toEqual([
+      { name: 'stateful', index: 0, concurrent: 1 },
+      { name: 'stateful', index: 2, concurrent: 1 }
+    ]);
+    expect(res.body.results.map((r: any) => r.result.index)).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  test('credit batches reverse the price of failed items and unused metered units', async () => {
+    await start();
+    const ledger = new CreditLedger(server.dataDir);
+    ledger.deposit(caller.key, 1000);
+    const body = {
+      calls: [
+        { capability: 'pure', params: { index: 0 } },
+        { capability: 'broken' },
+        { capability: 'rows', params: { rows: 20 } }
+      ]
+    };
+    const res = await postBatch(server, body, await withCredit(server, body));
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ paidWith: 'credit', satoshisPaid: 37, satoshisCharged: 15 });
+    expect(res.body.results[1]).toMatchObject({ success: false, error: 'handler blew up', satoshis: 0 });
+    expect(res.body.results[2]).toMatchObject({ success: true, satoshis: 5, usage: { quotedUnits: 20, consumedUnits: 5, unusedSats: 15 } });
+    expect(res.body.remedy).toMatchObject({ type: 'reversal', satoshis: 22, creditBalance: 985 });
+    expect(ledger.getBalance(caller.key)).toBe(985);
+  });
+
+  test('paid batches return what was not earned as a credit note by default', async () => {
+    await start();
+    const body = { calls: [{ capability: 'pure', params: { index: 0 } }, { capability: 'broken' }] };
+    const res = await paidBatch(server, body);
+    expect(res.status).toBe(200);
+    expect(server.provider.internalizeAction).toHaveBeenCalledTimes(1);
+    expect(res.body).toMatchObject({ paidWith: 'payment', satoshisPaid: 17, satoshisCharged: 10 });
+    expect(res.body.remedy).toMatchObject({ type: 'credit', satoshis: 7, creditBalance: 7 });
+    expect(new CreditLedger(server.dataDir).getBalance(caller.key)).toBe(7);
+    expect(server.provider.createAction).not.toHaveBeenCalled();
+  });
+
+  test('paid batches refund what was not earned under the refund policy', async () => {
+    await start('refund');
+    const body = { calls: [{ capability: 'broken' }, { capability: 'rows', params: { rows: 20 } }] };
+    const res = await paidBatch(server, body);
+    expect(res.status).toBe(200);
+    expect(res.body.remedy).toMatchObject({ type: 'refund', satoshis: 22 });
+    expect(res.body.refund).toMatchObject({ derivationPrefix: res.body.remedy.derivationPrefix, senderIdentityKey: server.provider.identity.key });
+    expect(server.provider.createAction).toHaveBeenCalledTimes(1);
+    expect(server.provider.createAction.mock.calls[0][0].outputs[0].satoshis).toBe(22);
+    expect(new CreditLedger(server.dataDir).getBalance(caller.key)).toBe(0);
+  });
+
+  test('returns one signed receipt listing every item\'s result hash', async () => {
+    await start();
+    const body = { calls: [{ capability: 'pure', params: { index: 0 } }, { capability: 'broken' }, { capability: 'rows' }] };
+    const res = await paidBatch(server, body);
+    const receipt: CallReceipt = res.body.receipt;
+    expect(receipt).toMatchObject({ capability: 'batch', provider: server.provider.identity.key, requester: caller.key, satoshisPaid: 27 });
+    expect(receipt.items).toEqual(res.body.results.map((r: any) => ({
+      index: r.index,
+      capability: r.capability,
+      satoshis: r.satoshis,
+      success: r.success,
+      resultHash: r.resultHash
+    })));
+    expect(receipt.items!.map(i => i.resultHash)).toEqual([
+      receiptResultHash({ index: 0 }),
+      receiptResultHash({ error: 'handler blew up' }),
+      receiptResultHash({ rows: 5 })
+    ]);
+    expect(receipt.resultHash).toBe(receiptResultHash(receipt.items));
+    expect(receipt.result.success).toBe(false);
+    await expect(verifyReceiptSignature(receipt)).resolves.toBe(true);
+  });
+
+  test('a batch where every item fails is a 500 that returns the full price', async () => {
+    await start();
+    const res = await paidBatch(server, { calls: [{ capability: 'broken' }, { capability: 'broken' }] });
+    expect(res.status).toBe(500);
+    expect(res.body).toMatchObject({ satoshisPaid: 14, satoshisCharged: 0, remedy: { type: 'credit', satoshis: 14 } });
+  });
+});
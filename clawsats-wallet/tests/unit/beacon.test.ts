@@ -0,0 +1,135 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { LockingScript, OP, Transaction } from '@bsv/sdk';
+import { BeaconIndexer, FileTxSource, MemoryTxSource } from '../../src/core/BeaconIndexer';
+import {
+  BEACON_TAG,
+  buildBeaconScript,
+  checkBeacon,
+  decodeBeacon,
+  readBeaconOutputs,
+  serializeBeacon,
+  signBeacon
+} from '../../src/protocol/beacon';
+import { BeaconPayload } from '../../src/types';
+import { claw, TestClaw } from './helpers';
+
+const alice = claw();
+const bob = claw();
+
+function beacon(signer: TestClaw, fields: Partial<Omit<BeaconPayload, 'v' | 'sig'>> = {}): Promise<BeaconPayload> {
+  return signBeacon(signer.wallet, {
+    id: signer.key,
+    ep: 'https://alice.example',
+    ch: 'main',
+    cap: ['echo', 'sign_message'],
+    ts: new Date().toISOString(),
+    ...fields
+  });
+}
+
+function beaconTx(...scripts: string[]): Transaction {
+  const tx = new Transaction();
+  for (const script of scripts) tx.addOutput({ satoshis: 0, lockingScript: LockingScript.fromHex(script) });
+  return tx;
+}
+
+/** A CLAWSATS_V1 output carrying arbitrary bytes, as anyone could publish. */
+function rawBeaconScript(payload: string): string {
+  return new LockingScript()
+    .writeOpCode(OP.OP_FALSE)
+    .writeOpCode(OP.OP_RETURN)
+    .writeBin(Array.from(Buffer.from(BEACON_TAG, 'utf8')))
+    .writeBin(Array.from(Buffer.from(payload, 'utf8')))
+    .toHex();
+}
+
+describe('beacon format', () => {
+  test('a signed beacon round-trips through its OP_RETURN output', async () => {
+    const signed = await beacon(alice);
+    const tx = beaconTx(buildBeaconScript(signed));
+    const [output] = readBeaconOutputs(tx);
+    expect(output.vout).toBe(0);
+    expect(Object.keys(JSON.parse(output.raw))).toEqual(['v', 'id', 'ep', 'ch', 'cap', 'ts', 'sig']);
+    const decoded = decodeBeacon(output.raw)!;
+    expect(decoded).toEqual(signed);
+    await expect(checkBeacon(decoded)).resolves.toBeNull();
+  });
+
+  test('rejects forged, reordered, future and oversized beacons', async () => {
+    const signed = await beacon(alice);
+    await expect(checkBeacon({ ...signed, ep: 'https://evil.example' })).resolves.toBe('Beacon signature does not verify');
+    await expect(checkBeacon({ ...signed, id: bob.key })).resolves.toBe('Beacon signature does not verify');
+    await expect(checkBeacon(signed, { now: Date.now() - 60 * 60 * 1000 })).resolves.toBe('ts is invalid or in the future');
+    await expect(checkBeacon(signed, { now: Date.now() + 60 * 60 * 1000, maxAgeMs: 60_000 })).resolves.toBe('Beacon is too old');
+    await expect(checkBeacon(await beacon(alice, { ep: 'ftp://alice.example' }))).resolves.toBe('ep is not http(s)');
+
+    const { sig, ...unsigned } = signed;
+    expect(decodeBeacon(JSON.stringify({ sig, ...unsigned }))).toBeNull();
+    expect(decodeBeacon(serializeBeacon(signed))).toBeNull();
+    expect(decodeBeacon('not json')).toBeNull();
+
+    const huge = await beacon(alice, { cap: Array.from({ length: 40 }, (_, i) => `capability_${i}`) });
+    expect(() => buildBeaconScript(huge)).toThrow(/too large/);
+  });
+
+  test('ignores outputs that are not CLAWSATS_V1', () => {
+    const other = new LockingScript().writeOpCode(OP.OP_FALSE).writeOpCode(OP.OP_RETURN).writeBin([1, 2, 3]).toHex();
+    expect(readBeaconOutputs(beaconTx(other))).toEqual([]);
+  });
+});
+
+describe('BeaconIndexer', () => {
+  let dataDir: string;
+  let indexer: BeaconIndexer;
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(join(tmpdir(), 'clawsats-beacons-'));
+    indexer = new BeaconIndexer(dataDir);
+  });
+
+  afterEach(() => rmSync(dataDir, { recursive: true, force: true }));
+
+  test('indexes valid and invalid beacons, keeping the newest per Claw', async () => {
+    const older = await beacon(alice, { ts: new Date(Date.now() - 60_000).toISOString() });
+    const newer = await beacon(alice, { ep: 'https://alice2.example' });
+    const forged = { ...(await beacon(bob, { ep: 'https://bob.example' })), ep: 'https://evil.example' };
+    const txs = [
+      beaconTx(buildBeaconScript(older)),
+      beaconTx(buildBeaconScript(newer), rawBeaconScript(serializeBeacon(forged, true))),
+      beaconTx(rawBeaconScript('{"hello":"world"}'))
+    ];
+
+    const report = await indexer.index(new MemoryTxSource(txs));
+    expect(report).toMatchObject({ transactions: 3, beacons: 4, valid: 2, invalid: 2, added: 4, errors: [] });
+    expect(indexer.list({ valid: false }).map(r => r.problem).sort()).toEqual([
+      'Beacon signature does not verify',
+      'Not a beacon payload (fields must be v, id, ep, ch, cap, ts, sig in order)'
+    ]);
+    expect(indexer.latest().map(r => r.payload!.ep)).toEqual(['https://alice2.example']);
+    expect(indexer.list({ valid: true, capability: 'echo' })).toHaveLength(2);
+    expect(indexer.list({ chain: 'test' })).toHaveLength(0);
+
+    // Re-reading the same outputs replaces their records, keeping when they were imported
+    const [latest] = indexer.latest();
+    indexer.markImported([`${latest.txid}:${latest.vout}`]);
+    const again = await new BeaconIndexer(dataDir).index(new MemoryTxSource(txs));
+    expect(again.added).toBe(0);
+    expect(indexer.latest()[0].importedAt).toBeDefined();
+  });
+
+  test('reads raw tx files, binary or hex, and reports the unreadable ones', async () => {
+    const txDir = join(dataDir, 'txs');
+    mkdirSync(txDir);
+    writeFileSync(join(txDir, 'a.hex'), beaconTx(buildBeaconScript(await beacon(alice))).toHex() + '\n');
+    writeFileSync(join(txDir, 'b.bin'), Buffer.from(beaconTx(buildBeaconScript(await beacon(bob, { ep: 'https://bob.example' }))).toBinary()));
+    writeFileSync(join(txDir, 'c.txt'), 'not a transaction');
+
+    const report = await indexer.index(new FileTxSource(txDir));
+    expect(report).toMatchObject({ transactions: 2, beacons: 2, valid: 2 });
+    expect(report.errors).toHaveLength(1);
+    expect(report.errors[0]).toMatch(/^c\.txt: /);
+    expect(indexer.latest().map(r => r.origin).sort()).toEqual(['a.hex', 'b.bin']);
+  });
+});
@@ -0,0 +1,101 @@
+import { existsSync, rmSync } from 'fs';
+import { join } from 'path';
+import { BudgetManager, DEFAULT_BUDGET_LIMITS, estimateTxFeeSats } from '../../src/core/BudgetManager';
+import { BUDGET_DAY_MS } from '../../src/protocol/constants';
+
+const TEST_DIR = join(__dirname, '..', 'tmp-budget-test');
+
+function cleanup(): void {
+  if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+}
+
+describe('BudgetManager', () => {
+  beforeEach(() => cleanup());
+  afterEach(() => {
+    jest.restoreAllMocks();
+    cleanup();
+  });
+
+  test('starts with default limits', () => {
+    const budgets = new BudgetManager(TEST_DIR);
+    expect(budgets.getLimits()).toEqual(DEFAULT_BUDGET_LIMITS);
+  });
+
+  test('reserve books spend until a category window is exhausted', () => {
+    const budgets = new BudgetManager(TEST_DIR);
+    budgets.setLimit('hire', 'daily', 100);
+    budgets.reserve('hire', 60, 'first');
+    budgets.reserve('hire', 40, 'second');
+
+    expect(() => budgets.reserve('hire', 1)).toThrow(/Budget exceeded: hire daily limit 100 sats \(used 100, requested 1\)/);
+    const daily = budgets.utilization().find(u => u.scope === 'hire' && u.window === 'daily')!;
+    expect(daily.used).toBe(100);
+    expect(daily.remaining).toBe(0);
+    expect(budgets.status().exhausted).toContain('hire:daily');
+  });
+
+  test('global limit applies across categories', () => {
+    const budgets = new BudgetManager(TEST_DIR);
+    budgets.setLimit('global', 'weekly', 50);
+    budgets.reserve('memory', 30);
+    expect(() => budgets.reserve('createAction', 25)).toThrow(/global weekly/);
+    budgets.reserve('broadcast', 20);
+  });
+
+  test('a rejected reservation leaves utilization untouched', () => {
+    const budgets = new BudgetManager(TEST_DIR);
+    budgets.setLimit('memory', 'daily', 10);
+    expect(() => budgets.reserve('memory', 11)).toThrow();
+    expect(budgets.utilization().find(u => u.scope === 'memory' && u.window === 'daily')!.used).toBe(0);
+  });
+
+  test('release frees a reservation and settle replaces the estimate', () => {
+    const budgets = new BudgetManager(TEST_DIR);
+    budgets.setLimit('hire', 'daily', 100);
+    const failed = budgets.reserve('hire', 90);
+    budgets.release(failed.id);
+    const ok = budgets.reserve('hire', 90);
+    budgets.settle(ok.id, 12);
+
+    const daily = budgets.utilization().find(u => u.scope === 'hire' && u.window === 'daily')!;
+    expect(daily.used).toBe(12);
+    budgets.reserve('hire', 88);
+  });
+
+  test('daily window rolls while weekly still counts the spend', () => {
+    const now = 1_700_000_000_000;
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+    const budgets = new BudgetManager(TEST_DIR);
+    budgets.setLimit('hire', 'daily', 100);
+    budgets.setLimit('hire', 'weekly', 150);
+    budgets.reserve('hire', 100);
+
+    clock.mockReturnValue(now + BUDGET_DAY_MS + 1);
+    budgets.reserve('hire', 50);
+    expect(() => budgets.reserve('hire', 1)).toThrow(/hire weekly/);
+  });
+
+  test('null clears a limit and limits persist across instances', () => {
+    const first = new BudgetManager(TEST_DIR);
+    first.setLimit('broadcast', 'daily', null);
+    first.setLimit('createAction', 'monthly', 5000);
+
+    const second = new BudgetManager(TEST_DIR);
+    expect(second.getLimits().categories.broadcast?.daily).toBeNull();
+    expect(second.getLimits().categories.createAction?.monthly).toBe(5000);
+    second.reserve('broadcast', 150); // above the old 100-sat daily cap, under weekly
+  });
+
+  test('rejects unknown scopes, windows and bad amounts', () => {
+    const budgets = new BudgetManager(TEST_DIR);
+    expect(() => budgets.setLimit('wallet' as any, 'daily', 1)).toThrow();
+    expect(() => budgets.setLimit('hire', 'hourly' as any, 1)).toThrow();
+    expect(() => budgets.setLimit('hire', 'daily', -1)).toThrow();
+    expect(() => budgets.reserve('hire', 1.5)).toThrow();
+  });
+
+  test('estimateTxFeeSats never returns less than 1 sat', () => {
+    expect(estimateTxFeeSats()).toBe(1);
+    expect(estimateTxFeeSats(100_000)).toBeGreaterThan(estimateTxFeeSats(1000));
+  });
+});
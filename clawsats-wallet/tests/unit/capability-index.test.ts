@@ -0,0 +1,103 @@
+import { CapabilityIndex } from '../../src/core/CapabilityIndex';
+
+interface FakePeer {
+  identityKey: string;
+  network: 'test' | 'main';
+  paidCapabilities: Array<Record<string, unknown>>;
+  etag?: string;
+  fail?: boolean;
+}
+
+const peer = (n: number) => ({ identityKey: `02${String(n).padStart(64, '0')}`, endpoint: `https://peer${n}.example` });
+
+describe('CapabilityIndex', () => {
+  let served: Map<string, FakePeer>;
+  let fetchSpy: jest.SpyInstance;
+  let inFlight = 0;
+  let maxInFlight = 0;
+  let requests = 0;
+
+  beforeEach(() => {
+    served = new Map();
+    inFlight = maxInFlight = requests = 0;
+    fetchSpy = jest.spyOn(global, 'fetch').mockImplementation(async (input: any, init?: any) => {
+      requests++;
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      inFlight--;
+      const doc = served.get(new URL(String(input)).origin);
+      if (!doc || doc.fail) return new Response('down', { status: 503 });
+      if (doc.etag && init?.headers?.['If-None-Match'] === doc.etag) return new Response(null, { status: 304 });
+      const { etag, fail, ...body } = doc;
+      return new Response(JSON.stringify(body), { status: 200, headers: etag ? { ETag: etag } : {} });
+    });
+  });
+
+  afterEach(() => fetchSpy.mockRestore());
+
+  function serve(n: number, caps: Array<Record<string, unknown>>, extra: Partial<FakePeer> = {}): void {
+    served.set(peer(n).endpoint, { identityKey: peer(n).identityKey, network: 'main', paidCapabilities: caps, ...extra });
+  }
+
+  test('refreshes in bounded parallel, then only what is stale, revalidating with the ETag', async () => {
+    const peers = Array.from({ length: 12 }, (_, i) => peer(i));
+    peers.forEach((_, i) => serve(i, [{ name: 'echo', pricePerCall: 10, tags: ['utility'] }], { etag: `W/"v${i}"` }));
+    const probes: boolean[] = [];
+    const index = new CapabilityIndex({ concurrency: 3, ttlMs: 60_000 });
+
+    const first = await index.refresh(peers, { onProbe: (_key, ok) => probes.push(ok) });
+    expect(first).toMatchObject({ refreshed: 12, notModified: 0, skipped: 0 });
+    expect(maxInFlight).toBe(3);
+    expect(probes).toHaveLength(12);
+
+    requests = 0;
+    expect((await index.refresh(peers)).skipped).toBe(12);
+    expect(requests).toBe(0);
+
+    const forced = await index.refresh(peers, { force: true });
+    expect(forced).toMatchObject({ refreshed: 0, notModified: 12 });
+    expect(index.stats()).toMatchObject({ peers: 12, capabilities: 12, fresh: 12 });
+
+    // Peers that leave the registry leave the index
+    await index.refresh(peers.slice(0, 2));
+    expect(index.stats().peers).toBe(2);
+  });
+
+  test('searches by name, tag, price, reputation and chain', async () => {
+    serve(1, [
+      { name: 'echo', pricePerCall: 10, tags: ['utility'] },
+      { name: 'summarize', pricePerCall: 0, pricing: { model: 'per_unit', unit: 'token', satoshisPerUnit: 2, maxUnits: 1000 }, tags: ['ai', 'text'] }
+    ]);
+    serve(2, [{ name: 'summarize', pricePerCall: 150, tags: ['ai'] }]);
+    serve(3, [{ name: 'summarize', pricePerCall: 5, tags: ['ai'] }], { network: 'test' });
+    const index = new CapabilityIndex();
+    await index.refresh([peer(1), peer(2), peer(3)]);
+    const reputation: Record<string, number> = { [peer(1).identityKey]: 50, [peer(2).identityKey]: 90, [peer(3).identityKey]: 70 };
+    const context = { reputationOf: (key: string) => reputation[key] ?? 0 };
+
+    expect(index.search({ tags: ['ai'] }, context).map(r => r.peer)).toEqual([peer(2), peer(3), peer(1)].map(p => p.identityKey));
+    expect(index.search({ name: 'summarize', chain: 'main', units: 50 }, context).map(r => r.capability.estimatedSats)).toEqual([100, 150]);
+    expect(index.search({ name: 'summarize', maxPrice: 10 }, context).map(r => r.peer)).toEqual([peer(3).identityKey, peer(1).identityKey]);
+    expect(index.search({ tags: ['ai'], minReputation: 60 }, { ...context, exclude: new Set([peer(2).identityKey]) }))
+      .toEqual([expect.objectContaining({ peer: peer(3).identityKey, matchedTags: ['ai'] })]);
+  });
+
+  test('peers that keep failing drop out until they answer again', async () => {
+    serve(1, [{ name: 'echo', pricePerCall: 10 }]);
+    const index = new CapabilityIndex({ maxFailures: 2 });
+    const context = { reputationOf: () => 50 };
+    await index.refresh([peer(1)]);
+
+    served.get(peer(1).endpoint)!.fail = true;
+    await index.refresh([peer(1)], { force: true });
+    expect(index.search({ name: 'echo' }, context)).toHaveLength(1);
+    const report = await index.refresh([peer(1)], { force: true });
+    expect(report.failed[0].error).toMatch(/503/);
+    expect(index.search({ name: 'echo' }, context)).toHaveLength(0);
+
+    served.get(peer(1).endpoint)!.fail = false;
+    await index.refresh([peer(1)], { force: true });
+    expect(index.search({ name: 'echo' }, context)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,99 @@
+import { ChallengeStore } from '../../src/core/ChallengeStore';
+
+const CALLER = '02' + 'c'.repeat(64);
+const OTHER = '03' + 'd'.repeat(64);
+
+describe('ChallengeStore', () => {
+  test('claims an issued challenge exactly once', () => {
+    const store = new ChallengeStore();
+    store.issue({ derivationPrefix: 'p1', capability: 'echo', satoshis: 10, callerIdentityKey: CALLER });
+
+    const first = store.claim('p1', { capability: 'echo', callerIdentityKey: CALLER });
+    expect(first.valid).toBe(true);
+    if (first.valid) expect(first.challenge.satoshis).toBe(10);
+
+    const second = store.claim('p1', { capability: 'echo', callerIdentityKey: CALLER });
+    expect(second).toMatchObject({ valid: false, code: 'ERR_CHALLENGE_USED' });
+  });
+
+  test('rejects unknown prefixes', () => {
+    const store = new ChallengeStore();
+    expect(store.claim('made-up', { capability: 'echo' })).toMatchObject({
+      valid: false,
+      code: 'ERR_CHALLENGE_UNKNOWN'
+    });
+  });
+
+  test('rejects expired challenges', () => {
+    const store = new ChallengeStore();
+    store.issue({ derivationPrefix: 'p2', capability: 'echo', satoshis: 10, ttlMs: -1 });
+    expect(store.claim('p2', { capability: 'echo' })).toMatchObject({
+      valid: false,
+      code: 'ERR_CHALLENGE_EXPIRED'
+    });
+  });
+
+  test('rejects a different capability or caller', () => {
+    const store = new ChallengeStore();
+    store.issue({ derivationPrefix: 'p3', capability: 'dns_resolve', satoshis: 3, callerIdentityKey: CALLER });
+
+    expect(store.claim('p3', { capability: 'fetch_url', callerIdentityKey: CALLER })).toMatchObject({
+      valid: false,
+      code: 'ERR_CHALLENGE_MISMATCH'
+    });
+    expect(store.claim('p3', { capability: 'dns_resolve', callerIdentityKey: OTHER })).toMatchObject({
+      valid: false,
+      code: 'ERR_CHALLENGE_MISMATCH'
+    });
+    expect(store.claim('p3', { capability: 'dns_resolve', callerIdentityKey: CALLER }).valid).toBe(true);
+  });
+
+  test('anonymous challenges can be paid by any caller', () => {
+    const store = new ChallengeStore();
+    store.issue({ derivationPrefix: 'p4', capability: 'echo', satoshis: 10 });
+    expect(store.claim('p4', { capability: 'echo', callerIdentityKey: OTHER }).valid).toBe(true);
+  });
+
+  test('release makes a claimed challenge payable again', () => {
+    const store = new ChallengeStore();
+    store.issue({ derivationPrefix: 'p5', capability: 'echo', satoshis: 10 });
+    store.claim('p5', { capability: 'echo' });
+    store.release('p5');
+    expect(store.claim('p5', { capability: 'echo' }).valid).toBe(true);
+  });
+
+  test('quoted challenges only accept the params they were priced for', () => {
+    const store = new ChallengeStore();
+    store.issue({ derivationPrefix: 'q1', capability: 'fetch_url', satoshis: 6, quoteId: 'quote-1', paramsHash: 'aaa', ttlMs: 60_000 });
+    expect(store.claim('q1', { capability: 'fetch_url', paramsHash: 'bbb' })).toMatchObject({
+      valid: false,
+      code: 'ERR_CHALLENGE_MISMATCH'
+    });
+    const claim = store.claim('q1', { capability: 'fetch_url', paramsHash: 'aaa' });
+    expect(claim.valid).toBe(true);
+    if (claim.valid) expect(claim.challenge.quoteId).toBe('quote-1');
+  });
+
+  test('hashlock challenges keep the committed result for the claim', () => {
+    const store = new ChallengeStore();
+    const hashlock = { commitment: 'c'.repeat(64), lockingScript: 'a8', result: { hash: 'h' } };
+    store.issue({ derivationPrefix: 'h1', capability: 'hash_commit', satoshis: 5, paramsHash: 'aaa', hashlock });
+    expect(store.claim('h1', { capability: 'hash_commit', paramsHash: 'bbb' })).toMatchObject({
+      valid: false,
+      reason: 'Hashlock result was committed for different params.'
+    });
+    const claim = store.claim('h1', { capability: 'hash_commit', paramsHash: 'aaa' });
+    expect(claim.valid).toBe(true);
+    if (claim.valid) expect(claim.challenge.hashlock).toEqual(hashlock);
+  });
+
+  test('evicts oldest challenges beyond max size', () => {
+    const store = new ChallengeStore(60_000, 3);
+    for (let i = 0; i < 5; i++) {
+      store.issue({ derivationPrefix: `p${i}`, capability: 'echo', satoshis: 10 });
+    }
+    expect(store.size()).toBe(3);
+    expect(store.get('p0')).toBeUndefined();
+    expect(store.get('p4')).toBeDefined();
+  });
+});
@@ -0,0 +1,69 @@
+import { CreditLedger } from '../../src/core/CreditLedger';
+import { CREDIT_MAX_BALANCE_SATS } from '../../src/protocol/constants';
+import { claw } from './helpers';
+import { paymentHeader, startTestServer, TestServer } from './test-server';
+
+const depositor = claw();
+
+/** Ask for the deposit's 402, then pay it. */
+async function deposit(server: TestServer, satoshis: number): Promise<{ status: number; body: any }> {
+  const post = (headers: Record<string, string> = {}) => fetch(`${server.url}/credits/deposit`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-bsv-identity-key': depositor.key, ...headers },
+    body: JSON.stringify({ satoshis })
+  });
+  const challenge = await post();
+  expect(challenge.status).toBe(402);
+  const prefix = challenge.headers.get('x-bsv-payment-derivation-prefix')!;
+  const res = await post({ 'x-bsv-payment': paymentHeader(prefix, satoshis) });
+  return { status: res.status, body: await res.json() };
+}
+
+describe('POST /credits/deposit', () => {
+  let server: TestServer;
+  let ledger: CreditLedger;
+
+  beforeEach(async () => {
+    server = await startTestServer();
+    ledger = new CreditLedger(server.dataDir);
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  test('credits an internalized deposit', async () => {
+    const res = await deposit(server, 500);
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ deposited: 500, balance: 500 });
+    expect(ledger.getBalance(depositor.key)).toBe(500);
+    expect(server.provider.createAction).not.toHaveBeenCalled();
+  });
+
+  test('refunds a deposit that no longer fits once it has been internalized', async () => {
+    // Another deposit lands while this one is being internalized
+    server.provider.internalizeAction.mockImplementationOnce(async () => {
+      ledger.deposit(depositor.key, CREDIT_MAX_BALANCE_SATS - 100);
+      return { accepted: true };
+    });
+    const res = await deposit(server, 500);
+    expect(res.status).toBe(400);
+    expect(res.body).toMatchObject({ code: 'ERR_CREDIT_LIMIT', refund: { senderIdentityKey: server.provider.identity.key } });
+    expect(res.body.description).toMatch(/refunded/);
+    expect(server.provider.createAction).toHaveBeenCalledTimes(1);
+    expect(server.provider.createAction.mock.calls[0][0].outputs[0].satoshis).toBe(500);
+    expect(ledger.getBalance(depositor.key)).toBe(CREDIT_MAX_BALANCE_SATS - 100);
+  });
+
+  test('reports a deposit it could neither credit nor refund', async () => {
+    server.provider.internalizeAction.mockImplementationOnce(async () => {
+      ledger.deposit(depositor.key, CREDIT_MAX_BALANCE_SATS);
+      return { accepted: true };
+    });
+    server.provider.createAction.mockRejectedValueOnce(new Error('insufficient funds'));
+    const res = await deposit(server, 500);
+    expect(res.status).toBe(500);
+    expect(res.body.code).toBe('ERR_REFUND_FAILED');
+    expect(res.body.txid).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
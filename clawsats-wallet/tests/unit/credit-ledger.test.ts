@@ -0,0 +1,106 @@
+import { existsSync, rmSync } from 'fs';
+import { join } from 'path';
+import { CreditLedger, serializeCreditAuthorization } from '../../src/core/CreditLedger';
+import { CREDIT_MAX_BALANCE_SATS } from '../../src/protocol/constants';
+
+const TEST_DIR = join(__dirname, '..', 'tmp-credit-ledger-test');
+const ALICE = '02' + 'a'.repeat(64);
+const BOB = '03' + 'b'.repeat(64);
+
+function cleanup(): void {
+  if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+}
+
+describe('CreditLedger', () => {
+  beforeEach(() => cleanup());
+  afterEach(() => cleanup());
+
+  test('deposit and debit update balance and totals', () => {
+    const ledger = new CreditLedger(TEST_DIR);
+    ledger.deposit(ALICE, 500, 'tx1');
+    const entry = ledger.debit(ALICE, 3, 'dns_resolve');
+
+    expect(entry.kind).toBe('debit');
+    expect(entry.balanceAfter).toBe(497);
+    const account = ledger.getAccount(ALICE)!;
+    expect(account.totalDeposited).toBe(500);
+    expect(account.totalSpent).toBe(3);
+    expect(ledger.getBalance(BOB)).toBe(0);
+  });
+
+  test('debit beyond balance throws and leaves balance untouched', () => {
+    const ledger = new CreditLedger(TEST_DIR);
+    ledger.deposit(ALICE, 100);
+    expect(() => ledger.debit(ALICE, 101)).toThrow(/Insufficient credit/);
+    expect(ledger.getBalance(ALICE)).toBe(100);
+  });
+
+  test('rejects non-positive and fractional amounts', () => {
+    const ledger = new CreditLedger(TEST_DIR);
+    expect(() => ledger.deposit(ALICE, 0)).toThrow();
+    expect(() => ledger.deposit(ALICE, -5)).toThrow();
+    expect(() => ledger.deposit(ALICE, 1.5)).toThrow();
+  });
+
+  test('enforces max balance on deposit', () => {
+    const ledger = new CreditLedger(TEST_DIR);
+    ledger.deposit(ALICE, CREDIT_MAX_BALANCE_SATS);
+    expect(() => ledger.deposit(ALICE, 1)).toThrow(/max credit balance/);
+  });
+
+  test('reverse restores balance and corrects totals', () => {
+    const ledger = new CreditLedger(TEST_DIR);
+    ledger.deposit(ALICE, 200);
+    ledger.withdraw(ALICE, 150);
+    ledger.reverse(ALICE, 150, 'withdraw');
+    ledger.debit(ALICE, 10);
+    ledger.reverse(ALICE, 10, 'debit');
+
+    const account = ledger.getAccount(ALICE)!;
+    expect(account.balance).toBe(200);
+    expect(account.totalWithdrawn).toBe(0);
+    expect(account.totalSpent).toBe(0);
+  });
+
+  test('credit notes add balance without counting as deposits', () => {
+    const ledger = new CreditLedger(TEST_DIR);
+    const note = ledger.issueCreditNote(BOB, 15, 'txhash', 'Failed call: fetch_url');
+
+    expect(note.kind).toBe('credit_note');
+    expect(note.balanceAfter).toBe(15);
+    const account = ledger.getAccount(BOB)!;
+    expect(account.totalDeposited).toBe(0);
+    expect(account.totalCredited).toBe(15);
+    ledger.debit(BOB, 15, 'fetch_url');
+    expect(ledger.getBalance(BOB)).toBe(0);
+  });
+
+  test('persists across instances and lists entries newest first', () => {
+    const first = new CreditLedger(TEST_DIR);
+    first.deposit(ALICE, 300);
+    first.deposit(BOB, 100);
+    first.debit(ALICE, 5);
+
+    const second = new CreditLedger(TEST_DIR);
+    expect(second.getBalance(ALICE)).toBe(295);
+    expect(second.listAccounts().map(a => a.identityKey)).toEqual([ALICE, BOB]);
+    const entries = second.listEntries(ALICE);
+    expect(entries.length).toBe(2);
+    expect(entries[0].kind).toBe('debit');
+  });
+
+  test('serializeCreditAuthorization excludes the signature', () => {
+    const auth = {
+      action: 'call' as const,
+      provider: BOB,
+      identityKey: ALICE,
+      nonce: 'n1',
+      timestamp: '2026-01-01T00:00:00.000Z',
+      capability: 'echo'
+    };
+    const unsigned = serializeCreditAuthorization(auth);
+    const signed = serializeCreditAuthorization({ ...auth, signature: 'abc' });
+    expect(signed).toBe(unsigned);
+    expect(unsigned).not.toContain('signature');
+  });
+});
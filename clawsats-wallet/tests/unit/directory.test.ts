@@ -0,0 +1,107 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DirectoryStore } from '../../src/core/DirectoryStore';
+import { checkDirectoryRegistration, signDirectoryRegistration } from '../../src/protocol/directory';
+import { DirectoryRegistration } from '../../src/types';
+import { claw, TestClaw } from './helpers';
+
+const alice = claw();
+const bob = claw();
+
+function registration(
+  signer: TestClaw,
+  fields: Partial<DirectoryRegistration> = {}
+): Promise<DirectoryRegistration> {
+  return signDirectoryRegistration(signer.wallet, {
+    type: 'directory-registration',
+    identityKey: signer.key,
+    endpoint: 'https://alice.example',
+    capabilities: ['echo', 'sign_message'],
+    timestamp: new Date().toISOString(),
+    ...fields
+  });
+}
+
+describe('checkDirectoryRegistration', () => {
+  test('accepts a fresh registration signed by the key it lists, nothing else', async () => {
+    const reg = await registration(alice, { chain: 'test' });
+    await expect(checkDirectoryRegistration(reg)).resolves.toBeNull();
+    await expect(checkDirectoryRegistration({ ...reg, identityKey: bob.key })).resolves.toBe('Registrant signature does not verify');
+    await expect(checkDirectoryRegistration({ ...reg, endpoint: 'https://evil.example' })).resolves.toBe('Registrant signature does not verify');
+    await expect(checkDirectoryRegistration(reg, Date.now() + 60 * 60 * 1000)).resolves.toBe('Registration timestamp is invalid or too far off');
+    await expect(checkDirectoryRegistration(await registration(alice, { endpoint: 'ftp://alice.example' }))).resolves.toBe('endpoint is not http(s)');
+    await expect(checkDirectoryRegistration(await registration(alice, { capabilities: ['no spaces'] }))).resolves.toBe('capabilities must be capability names');
+    await expect(checkDirectoryRegistration({ identityKey: alice.key } as any)).resolves.toBe('Not a directory registration');
+  });
+});
+
+describe('DirectoryStore', () => {
+  let dataDir: string;
+  let store: DirectoryStore;
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(join(tmpdir(), 'clawsats-directory-'));
+    store = new DirectoryStore(dataDir, { ttlMs: 60 * 60 * 1000 });
+  });
+
+  afterEach(() => rmSync(dataDir, { recursive: true, force: true }));
+
+  test('lists registrations, refuses replays and persists', async () => {
+    const first = await registration(alice, { timestamp: new Date(Date.now() - 1000).toISOString() });
+    store.register(first);
+    expect(() => store.register(first)).toThrow('Registration is no newer than the one listed');
+
+    store.register(await registration(alice, { endpoint: 'https://alice.example/', capabilities: ['echo'] }));
+    const reloaded = new DirectoryStore(dataDir);
+    expect(reloaded.get(alice.key)).toMatchObject({ endpoint: 'https://alice.example', capabilities: ['echo'], status: 'online' });
+  });
+
+  test('an endpoint proven by another key moves to it', async () => {
+    store.register(await registration(alice));
+    store.register(await registration(bob, { endpoint: 'https://alice.example' }));
+    expect(store.get(alice.key)).toBeUndefined();
+    expect(store.get(bob.key)?.endpoint).toBe('https://alice.example');
+  });
+
+  test('liveness checks flip status and silent entries expire', async () => {
+    const now = Date.now();
+    store.register(await registration(alice), now);
+    store.register(await registration(bob, { endpoint: 'https://bob.example' }), now);
+
+    expect(store.dueForCheck(60_000, now + 30_000)).toHaveLength(0);
+    expect(store.dueForCheck(60_000, now + 60_000)).toHaveLength(2);
+
+    expect(store.recordCheck(bob.key, 'https://bob.example', false, 'timeout', now + 60_000)).toBe(true);
+    expect(store.get(bob.key)).toMatchObject({ status: 'offline', failures: 1, lastError: 'timeout' });
+    // A check against an endpoint the Claw has since left is ignored
+    expect(store.recordCheck(alice.key, 'https://old.example', false, 'gone', now + 60_000)).toBe(false);
+    store.recordCheck(alice.key, 'https://alice.example', true, undefined, now + 50 * 60 * 1000);
+
+    expect(store.expire(now + 61 * 60 * 1000)).toEqual([bob.key]);
+    expect(store.size()).toBe(1);
+  });
+
+  test('searches by capability, text, chain and status, a page at a time', async () => {
+    const now = Date.now();
+    store.register(await registration(alice, { chain: 'main' }), now);
+    store.register(await registration(bob, { endpoint: 'https://bob.example', capabilities: ['fetch_url'], chain: 'test' }), now + 1);
+    const carol = claw();
+    store.register(await registration(carol, { endpoint: 'https://carol.example', capabilities: ['echo'] }), now + 2);
+    store.recordCheck(carol.key, 'https://carol.example', false, 'down', now + 3);
+
+    expect(store.search().claws.map(e => e.identityKey)).toEqual([bob.key, alice.key]);
+    expect(store.search({ capability: 'echo' }).claws.map(e => e.identityKey)).toEqual([alice.key]);
+    expect(store.search({ capability: 'echo', status: 'all' })).toMatchObject({ total: 2, registered: 1 });
+    expect(store.search({ q: 'BOB.example' }).claws.map(e => e.identityKey)).toEqual([bob.key]);
+    expect(store.search({ chain: 'main' }).total).toBe(1);
+    expect(store.search({ status: 'offline' }).claws.map(e => e.identityKey)).toEqual([carol.key]);
+
+    const firstPage = store.search({ status: 'all', limit: 2 });
+    expect(firstPage).toMatchObject({ total: 3, offset: 0, nextOffset: 2 });
+    expect(firstPage.claws[1].identityKey).toBe(alice.key);
+    const lastPage = store.search({ status: 'all', limit: 2, offset: 2 });
+    expect(lastPage.claws.map(e => e.identityKey)).toEqual([carol.key]);
+    expect(lastPage.nextOffset).toBeNull();
+  });
+});
@@ -0,0 +1,213 @@
+import { SharingProtocol } from '../../src/protocol';
+import { checkDiscoveryQuery, checkDiscoveryRoute, signDiscoveryHop } from '../../src/protocol/discovery';
+import { DiscoveryTracker } from '../../src/core/DiscoveryTracker';
+import { Chain, DiscoveryHop, DiscoveryQuery, DiscoveryResponse, PeerRecord, WalletConfig } from '../../src/types';
+import { claw } from './helpers';
+import { startTestServer, TestServer } from './test-server';
+
+function sharingClaw(chain: Chain = 'main'): { key: string; wallet: any; sharing: SharingProtocol } {
+  const { key, wallet } = claw();
+  const config: WalletConfig = {
+    identityKey: key,
+    chain,
+    storageType: 'memory',
+    endpoints: {
+      jsonrpc: 'https://origin.example',
+      health: 'https://origin.example/health',
+      discovery: 'https://origin.example/discovery'
+    },
+    capabilities: [],
+    clawsats: { feeKeyId: 'clawsats-fee-v1', defaultFeeSuffix: 'fee' }
+  };
+  return { key, wallet, sharing: new SharingProtocol(config, wallet) };
+}
+
+const origin = sharingClaw();
+const alice = sharingClaw();
+const bob = sharingClaw();
+
+function result(identityKey: string, reputation: number, endpoint = 'https://provider.example'): DiscoveryResponse['results'][number] {
+  return {
+    clawId: `claw://${identityKey.substring(0, 16)}`,
+    identityKey,
+    capability: 'echo',
+    endpoint,
+    reputation,
+    uptime: 90,
+    lastSeen: new Date().toISOString()
+  };
+}
+
+describe('discovery queries', () => {
+  test('a query verifies against its requester; tampering and staleness do not', async () => {
+    const query = await origin.sharing.createDiscoveryQuery('echo', { maxResults: 5 });
+    expect(query.responseEndpoint).toBe('https://origin.example/discovery/callback');
+    await expect(checkDiscoveryQuery(query)).resolves.toBeNull();
+
+    await expect(checkDiscoveryQuery({ ...query, responseEndpoint: 'https://evil.example/cb' }))
+      .resolves.toBe('Requester signature does not verify');
+    await expect(checkDiscoveryQuery({ ...query, requesterIdentityKey: alice.key }))
+      .resolves.toBe('requester does not match requesterIdentityKey');
+    await expect(checkDiscoveryQuery(query, Date.now() + 60 * 60 * 1000)).resolves.toBe('Query has expired');
+  });
+
+  test('hop and result limits are enforced before the signature', async () => {
+    const deep = await origin.sharing.createDiscoveryQuery('echo', { hopLimit: 9 });
+    await expect(checkDiscoveryQuery(deep)).resolves.toMatch(/hopLimit/);
+    const greedy = await origin.sharing.createDiscoveryQuery('echo', { maxResults: 500 });
+    await expect(checkDiscoveryQuery(greedy)).resolves.toMatch(/maxResults/);
+  });
+});
+
+describe('discovery routes', () => {
+  const hop = (from: { key: string; wallet: any }, to: string, query: DiscoveryQuery): Promise<DiscoveryHop> =>
+    signDiscoveryHop(from.wallet, { queryId: query.queryId, from: from.key, to });
+
+  test('a route runs link by link from the requester to the receiver', async () => {
+    const query = await origin.sharing.createDiscoveryQuery('echo', { hopLimit: 1 });
+    const route = [await hop(origin, alice.key, query), await hop(alice, bob.key, query)];
+    await expect(checkDiscoveryRoute(query, route.slice(0, 1), alice.key)).resolves.toBeNull();
+    await expect(checkDiscoveryRoute(query, route, bob.key)).resolves.toBeNull();
+
+    await expect(checkDiscoveryRoute(query, [...route, await hop(bob, origin.key, query)], origin.key))
+      .resolves.toBe('Route is longer than the query\'s hopLimit');
+    await expect(checkDiscoveryRoute(query, route, alice.key)).resolves.toBe('Route does not end at us');
+    await expect(checkDiscoveryRoute(query, [], alice.key)).resolves.toBe('Missing route');
+  });
+
+  test('a relay cannot shorten the route it was sent', async () => {
+    const query = await origin.sharing.createDiscoveryQuery('echo');
+    const toAlice = await hop(origin, alice.key, query);
+    // Alice skipping her own link: origin never sent the query to bob
+    await expect(checkDiscoveryRoute(query, [{ ...toAlice, to: bob.key }], bob.key))
+      .resolves.toBe('Hop 0: signature does not verify');
+    // ...or signing a first link herself
+    await expect(checkDiscoveryRoute(query, [await hop(alice, bob.key, query)], bob.key))
+      .resolves.toBe('Hop 0: does not start where the route left off');
+    const other = await origin.sharing.createDiscoveryQuery('echo');
+    await expect(checkDiscoveryRoute(other, [toAlice], alice.key)).resolves.toBe('Hop 0: not for this query');
+  });
+});
+
+describe('POST /discovery/query', () => {
+  let server: TestServer;
+  let fetchSpy: jest.SpyInstance;
+  let requester: ReturnType<typeof sharingClaw>;
+  const realFetch = global.fetch;
+  const relay = claw().key;
+  const unverifiedRelay = claw().key;
+
+  const peer = (identityKey: string, endpoint: string, verified: boolean): PeerRecord => ({
+    clawId: `claw://${identityKey.substring(0, 16)}`,
+    identityKey,
+    endpoint,
+    capabilities: ['echo'],
+    chain: 'test',
+    lastSeen: new Date().toISOString(),
+    reputation: 50,
+    ...(verified ? { endpointStatus: 'verified' as const } : {})
+  });
+  const calledUrls = (): string[] => fetchSpy.mock.calls.map(([url]) => String(url)).filter(url => !url.startsWith(server.url));
+  const sent = (url: string): any => JSON.parse(fetchSpy.mock.calls.find(([u]) => String(u) === url)![1].body);
+  async function until(url: string): Promise<void> {
+    for (let i = 0; i < 200 && !calledUrls().includes(url); i++) await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  async function post(query: DiscoveryQuery, route?: DiscoveryHop[]): Promise<void> {
+    const res = await fetch(`${server.url}/discovery/query`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(route ? { query, route } : { query })
+    });
+    expect(res.status).toBe(202);
+  }
+  const toServer = (query: DiscoveryQuery): Promise<DiscoveryHop[]> =>
+    signDiscoveryHop(requester.wallet, { queryId: query.queryId, from: requester.key, to: server.provider.identity.key }).then(h => [h]);
+
+  beforeEach(async () => {
+    server = await startTestServer({ publicEndpoint: 'https://me.example' });
+    requester = sharingClaw('test');
+    const peers = server.server.getPeerRegistry();
+    peers.addPeer(peer(requester.key, 'https://origin.example', true));
+    peers.addPeer(peer(relay, 'https://relay.example', true));
+    peers.addPeer(peer(unverifiedRelay, 'https://unverified.example', false));
+    fetchSpy = jest.spyOn(global, 'fetch').mockImplementation(async (url: any, init?: any) =>
+      String(url).startsWith(server.url) ? realFetch(url, init) : new Response(JSON.stringify({ accepted: true }), { status: 200 }));
+  });
+
+  afterEach(async () => {
+    fetchSpy.mockRestore();
+    await server.stop();
+  });
+
+  test('answers the verified requester and relays along a signed route to verified peers only', async () => {
+    const query = await requester.sharing.createDiscoveryQuery('echo');
+    await post(query, await toServer(query));
+    await until('https://relay.example/discovery/query');
+
+    expect(calledUrls()).toEqual(['https://origin.example/discovery/callback', 'https://relay.example/discovery/query']);
+    expect(sent('https://origin.example/discovery/callback').results[0]).toMatchObject({ endpoint: 'https://me.example' });
+    const { route } = sent('https://relay.example/discovery/query');
+    await expect(checkDiscoveryRoute(query, route, relay)).resolves.toBeNull();
+  });
+
+  test('without a route the query is answered but goes no further', async () => {
+    const query = await requester.sharing.createDiscoveryQuery('echo');
+    await post(query);
+    await until('https://origin.example/discovery/callback');
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(calledUrls()).toEqual(['https://origin.example/discovery/callback']);
+  });
+
+  test('never answers an endpoint that is not the requester\'s verified one', async () => {
+    const elsewhere = await requester.sharing.createDiscoveryQuery('echo', { responseEndpoint: 'https://victim.example/hook' });
+    await post(elsewhere, await toServer(elsewhere));
+    await until('https://relay.example/discovery/query');
+    expect(calledUrls()).toEqual(['https://relay.example/discovery/query']);
+
+    fetchSpy.mockClear();
+    server.server.getPeerRegistry().setEndpointStatus(requester.key, 'https://origin.example', 'unverified');
+    const unverified = await requester.sharing.createDiscoveryQuery('echo', { responseEndpoint: 'https://origin.example/discovery/callback' });
+    await post(unverified, await toServer(unverified));
+    await until('https://relay.example/discovery/query');
+    expect(calledUrls()).toEqual(['https://relay.example/discovery/query']);
+  });
+});
+
+describe('DiscoveryTracker', () => {
+  test('merges signed answers to our own queries, once per responder', async () => {
+    const tracker = new DiscoveryTracker();
+    const query = await origin.sharing.createDiscoveryQuery('echo', { maxResults: 5 });
+    tracker.track(query);
+    const provider = claw().key;
+    const other = claw().key;
+
+    const fromAlice = await alice.sharing.createDiscoveryResponse(query, [result(provider, 80), result(other, 95)]);
+    const fromBob = await bob.sharing.createDiscoveryResponse(query, [result(provider, 60), result(origin.key, 99)]);
+    await expect(tracker.accept(fromAlice)).resolves.toBeNull();
+    await expect(tracker.accept(fromBob)).resolves.toBeNull();
+    await expect(tracker.accept(fromAlice)).resolves.toBe('Already answered');
+
+    const set = tracker.get(query.queryId)!;
+    expect(set.responders).toEqual([alice.key, bob.key]);
+    // Two responders vouch for `provider`; the origin never appears in its own results
+    expect(set.results.map(r => r.identityKey)).toEqual([provider, other]);
+    expect(set.results[0]).toMatchObject({ reputation: 70, reportedBy: [alice.key, bob.key] });
+  });
+
+  test('refuses forged, off-topic and unsolicited answers', async () => {
+    const tracker = new DiscoveryTracker();
+    const query = await origin.sharing.createDiscoveryQuery('echo', { maxResults: 2 });
+    tracker.track(query);
+    const provider = claw().key;
+
+    const signed = await alice.sharing.createDiscoveryResponse(query, [result(provider, 80)]);
+    await expect(tracker.accept({ ...signed, responder: bob.key })).resolves.toBe('Responder signature does not verify');
+    const offTopic = await alice.sharing.createDiscoveryResponse(query, [{ ...result(provider, 80), capability: 'sign_message' }]);
+    await expect(tracker.accept(offTopic)).resolves.toMatch(/not the capability asked for/);
+    expect(tracker.get(query.queryId)!.rejected).toBe(2);
+
+    const unsolicited = await origin.sharing.createDiscoveryQuery('echo');
+    await expect(tracker.accept(await alice.sharing.createDiscoveryResponse(unsolicited, []))).resolves.toBe('Unknown query');
+    await expect(tracker.accept(signed, Date.now() + 60 * 60 * 1000)).resolves.toBe('Query is no longer collecting responses');
+  });
+});
@@ -0,0 +1,112 @@
+import { checkEndpointProof, signEndpointProof } from '../../src/protocol/ownership';
+import { EndpointVerifier } from '../../src/core/EndpointVerifier';
+import { PeerRegistry } from '../../src/core/PeerRegistry';
+import { EndpointProof, PeerRecord } from '../../src/types';
+import { claw, TestClaw } from './helpers';
+
+const owner = claw();
+const impostor = claw();
+const NONCE = 'abcdefghijklmnopqrstuvwx';
+
+function proofFor(signer: TestClaw, endpoint: string, nonce = NONCE): Promise<EndpointProof> {
+  return signEndpointProof(signer.wallet, {
+    type: 'endpoint-proof',
+    identityKey: signer.key,
+    endpoint,
+    nonce,
+    timestamp: new Date().toISOString()
+  });
+}
+
+describe('checkEndpointProof', () => {
+  const expected = { identityKey: owner.key, endpoint: 'https://owner.example/', nonce: NONCE };
+
+  test('accepts the owner signing our nonce for the endpoint we asked', async () => {
+    await expect(checkEndpointProof(await proofFor(owner, 'https://owner.example'), expected)).resolves.toBeNull();
+  });
+
+  test('a relayed challenge still names the owner\'s own endpoint', async () => {
+    // The impostor forwards our nonce to the real owner, who signs its real endpoint
+    const relayed = await proofFor(owner, 'https://owner.example');
+    await expect(checkEndpointProof(relayed, { ...expected, endpoint: 'https://impostor.example' }))
+      .resolves.toBe('Signer advertises https://owner.example, not https://impostor.example');
+  });
+
+  test('refuses other keys, other nonces, stale and tampered proofs', async () => {
+    const proof = await proofFor(owner, 'https://owner.example');
+    await expect(checkEndpointProof(await proofFor(impostor, 'https://owner.example'), expected))
+      .resolves.toBe('Proof is signed for a different identity key');
+    await expect(checkEndpointProof(proof, { ...expected, nonce: 'zyxwvutsrqponmlkjihgfedc' }))
+      .resolves.toBe('Proof is for a different nonce');
+    await expect(checkEndpointProof(proof, expected, Date.now() + 60 * 60 * 1000))
+      .resolves.toBe('Proof timestamp is invalid or too far off');
+    await expect(checkEndpointProof({ ...proof, signature: (await proofFor(impostor, proof.endpoint)).signature }, expected))
+      .resolves.toBe('Proof signature does not verify');
+  });
+});
+
+describe('EndpointVerifier', () => {
+  let fetchSpy: jest.SpyInstance;
+  let answerAs: TestClaw | null;
+  let requests = 0;
+
+  beforeEach(() => {
+    answerAs = owner;
+    requests = 0;
+    fetchSpy = jest.spyOn(global, 'fetch').mockImplementation(async (input: any) => {
+      requests++;
+      if (!answerAs) return new Response('down', { status: 503 });
+      const url = new URL(String(input));
+      const proof = await proofFor(answerAs, url.origin, url.searchParams.get('nonce') || '');
+      return new Response(JSON.stringify(proof), { status: 200 });
+    });
+  });
+
+  afterEach(() => fetchSpy.mockRestore());
+
+  test('verifies the key that answers the challenge and remembers it', async () => {
+    const verifier = new EndpointVerifier();
+    await expect(verifier.verify(owner.key, 'https://owner.example/')).resolves
+      .toMatchObject({ status: 'verified', endpoint: 'https://owner.example' });
+    await verifier.verify(owner.key, 'https://owner.example');
+    expect(requests).toBe(1);
+    await verifier.verify(owner.key, 'https://owner.example', { force: true });
+    expect(requests).toBe(2);
+  });
+
+  test('a different key, or no answer, leaves the peer unverified', async () => {
+    const verifier = new EndpointVerifier({ retryMs: 0 });
+    answerAs = impostor;
+    await expect(verifier.verify(owner.key, 'https://owner.example')).resolves
+      .toMatchObject({ status: 'unverified', problem: 'Proof is signed for a different identity key' });
+    answerAs = null;
+    await expect(verifier.verify(owner.key, 'https://owner.example')).resolves
+      .toMatchObject({ status: 'unverified', problem: 'GET /endpoint-proof returned 503' });
+    expect(requests).toBe(2);
+  });
+});
+
+describe('PeerRegistry endpoint status', () => {
+  const record = (endpoint: string): PeerRecord => ({
+    clawId: `claw://${owner.key.substring(0, 16)}`,
+    identityKey: owner.key,
+    endpoint,
+    capabilities: ['echo'],
+    chain: 'main',
+    lastSeen: new Date().toISOString(),
+    reputation: 50
+  });
+
+  test('survives re-announcement at the same endpoint, not a move', () => {
+    const registry = new PeerRegistry();
+    registry.addPeer(record('https://owner.example'));
+    expect(registry.setEndpointStatus(owner.key, 'https://owner.example/', 'verified')).toBe(true);
+    registry.addPeer(record('https://owner.example'));
+    expect(registry.isEndpointVerified(owner.key)).toBe(true);
+
+    // A result for an endpoint the peer has since left is stale
+    expect(registry.setEndpointStatus(owner.key, 'https://elsewhere.example', 'verified')).toBe(false);
+    registry.addPeer(record('https://elsewhere.example'));
+    expect(registry.isEndpointVerified(owner.key)).toBe(false);
+  });
+});
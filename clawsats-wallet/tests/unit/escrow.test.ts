@@ -0,0 +1,345 @@
+import { createHash, randomBytes } from 'crypto';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { LockingScript, MerklePath, P2PKH, PrivateKey, ProtoWallet, Spend, Transaction } from '@bsv/sdk';
+import {
+  buildEscrowLockingScript,
+  buildSettlementTx,
+  checkEscrowTerms,
+  completeSettlement,
+  decideDispute,
+  deriveEscrowKey,
+  ESCROW_BASKET,
+  escrowPayoutScript,
+  findEscrowOutput,
+  signEscrowStatement,
+  signSettlement,
+  verifyEscrowStatement,
+  verifySettlementSignature
+} from '../../src/protocol/escrow';
+import { EscrowStore } from '../../src/core/EscrowStore';
+import { EscrowDelivery, EscrowEvidenceRequest, EscrowParty, EscrowTerms } from '../../src/types';
+import { canonicalJson } from '../../src/utils';
+import { ESCROW_SETTLEMENT_FEE_SATS, FEE_SATS } from '../../src/protocol/constants';
+import { deriveFeeLockingScript } from '../../src/protocol/fee';
+import { hashParams } from '../../src/protocol/quote';
+import { startTestServer, TestServer } from './test-server';
+
+const keys: Record<EscrowParty, PrivateKey> = {
+  requester: PrivateKey.fromRandom(),
+  provider: PrivateKey.fromRandom(),
+  arbiter: PrivateKey.fromRandom()
+};
+const wallets = {
+  requester: new ProtoWallet(keys.requester),
+  provider: new ProtoWallet(keys.provider),
+  arbiter: new ProtoWallet(keys.arbiter)
+};
+const params = { url: 'https://example.com/report' };
+const terms: EscrowTerms = {
+  escrowId: 'esc-0123456789abcdef0123456789abcdef',
+  requester: keys.requester.toPublicKey().toString(),
+  provider: keys.provider.toPublicKey().toString(),
+  arbiter: keys.arbiter.toPublicKey().toString(),
+  providerEndpoint: 'https://provider.example',
+  arbiterEndpoint: 'https://arbiter.example',
+  capability: 'fetch_url',
+  paramsHash: createHash('sha256').update(canonicalJson(params)).digest('hex'),
+  satoshis: 500,
+  derivationPrefix: 'cGF5b3V0LXByZWZpeA==',
+  createdAt: new Date().toISOString()
+};
+
+function fundingTx(satoshis = terms.satoshis): Transaction {
+  const tx = new Transaction();
+  tx.addOutput({ lockingScript: LockingScript.fromHex(buildEscrowLockingScript(terms)), satoshis });
+  return tx;
+}
+
+function validates(tx: Transaction): boolean {
+  const input = tx.inputs[0];
+  const source = input.sourceTransaction!.outputs[input.sourceOutputIndex];
+  try {
+    return new Spend({
+      sourceTXID: input.sourceTransaction!.id('hex'),
+      sourceOutputIndex: input.sourceOutputIndex,
+      sourceSatoshis: source.satoshis as number,
+      lockingScript: source.lockingScript,
+      transactionVersion: tx.version,
+      otherInputs: [],
+      outputs: tx.outputs,
+      unlockingScript: input.unlockingScript!,
+      inputSequence: input.sequence as number,
+      inputIndex: 0,
+      lockTime: tx.lockTime
+    }).validate();
+  } catch {
+    return false;
+  }
+}
+
+async function signed(payTo: 'requester' | 'provider', signers: EscrowParty[]): Promise<Transaction> {
+  const tx = buildSettlementTx(terms, fundingTx(), payTo);
+  const sigs: Partial<Record<EscrowParty, string>> = {};
+  for (const party of signers) sigs[party] = await signSettlement(wallets[party], terms, tx);
+  return completeSettlement(tx, sigs);
+}
+
+describe('escrow protocol', () => {
+  test('locks to the three parties\' derived keys, 2-of-3', () => {
+    const asm = LockingScript.fromHex(buildEscrowLockingScript(terms)).toASM();
+    const [req, prov, arb] = (['requester', 'provider', 'arbiter'] as const).map(p => deriveEscrowKey(terms[p], terms.escrowId));
+    expect(asm).toBe(`OP_2 ${req} ${prov} ${arb} OP_3 OP_CHECKMULTISIG`);
+    expect(req).not.toBe(terms.requester);
+    expect(findEscrowOutput(fundingTx(), terms)).toBe(0);
+    expect(findEscrowOutput(fundingTx(499), terms)).toBe(-1);
+  });
+
+  test('any two parties can settle, one cannot', async () => {
+    expect(validates(await signed('provider', ['requester', 'provider']))).toBe(true);
+    expect(validates(await signed('provider', ['provider', 'arbiter']))).toBe(true);
+    expect(validates(await signed('requester', ['requester', 'arbiter']))).toBe(true);
+    await expect(signed('provider', ['provider'])).rejects.toThrow(/two of/);
+  });
+
+  test('settlement pays the payee\'s BRC-29 key minus the miner fee', () => {
+    const tx = buildSettlementTx(terms, fundingTx(), 'provider');
+    expect(tx.outputs).toHaveLength(1);
+    expect(tx.outputs[0].lockingScript.toHex()).toBe(escrowPayoutScript(terms, 'provider'));
+    expect(tx.outputs[0].satoshis).toBe(terms.satoshis - ESCROW_SETTLEMENT_FEE_SATS);
+    expect(escrowPayoutScript(terms, 'requester')).not.toBe(escrowPayoutScript(terms, 'provider'));
+  });
+
+  test('settlement signatures verify only for their signer and tx', async () => {
+    const release = buildSettlementTx(terms, fundingTx(), 'provider');
+    const refund = buildSettlementTx(terms, fundingTx(), 'requester');
+    const sig = await signSettlement(wallets.arbiter, terms, release);
+    expect(await verifySettlementSignature(terms, release, 'arbiter', sig)).toBe(true);
+    expect(await verifySettlementSignature(terms, release, 'provider', sig)).toBe(false);
+    expect(await verifySettlementSignature(terms, refund, 'arbiter', sig)).toBe(false);
+  });
+
+  test('delivery statements are verifiable by anyone against the provider key', async () => {
+    const delivery = await signEscrowStatement(wallets.provider, {
+      type: 'clawsats-escrow-delivery',
+      escrowId: terms.escrowId,
+      provider: terms.provider,
+      requester: terms.requester,
+      capability: terms.capability,
+      paramsHash: terms.paramsHash,
+      resultHash: 'ab'.repeat(32),
+      success: true,
+      deliveredAt: new Date().toISOString()
+    } as EscrowDelivery);
+    expect(await verifyEscrowStatement(delivery, terms.provider)).toBe(true);
+    expect(await verifyEscrowStatement(delivery, terms.requester)).toBe(false);
+    expect(await verifyEscrowStatement({ ...delivery, success: false }, terms.provider)).toBe(false);
+  });
+
+  test('checkEscrowTerms refuses malformed parties and private endpoints', () => {
+    expect(checkEscrowTerms(terms)).toBeNull();
+    expect(checkEscrowTerms({ ...terms, escrowId: 'esc-1' })).toMatch(/escrowId/);
+    expect(checkEscrowTerms({ ...terms, arbiter: terms.provider })).toMatch(/three different Claws/);
+    expect(checkEscrowTerms({ ...terms, providerEndpoint: 'http://localhost:3321' })).toMatch(/providerEndpoint/);
+    expect(checkEscrowTerms({ ...terms, arbiterEndpoint: 'http://192.168.1.2' })).toMatch(/arbiterEndpoint/);
+  });
+
+  test('decideDispute pays the provider only for a matching successful delivery', () => {
+    const result = { status: 200, content: 'report' };
+    const delivery: EscrowDelivery = {
+      type: 'clawsats-escrow-delivery',
+      escrowId: terms.escrowId,
+      provider: terms.provider,
+      requester: terms.requester,
+      capability: terms.capability,
+      paramsHash: terms.paramsHash,
+      resultHash: createHash('sha256').update(canonicalJson(result)).digest('hex'),
+      success: true,
+      deliveredAt: new Date().toISOString()
+    };
+    expect(decideDispute(terms, { delivery, deliveryVerified: true, result }).winner).toBe('provider');
+    expect(decideDispute(terms, { deliveryVerified: false }).winner).toBe('requester');
+    expect(decideDispute(terms, { delivery, deliveryVerified: false, result }).winner).toBe('requester');
+    expect(decideDispute(terms, { delivery, deliveryVerified: true }).winner).toBe('requester');
+    expect(decideDispute(terms, { delivery, deliveryVerified: true, result: { ...result, content: 'x' } }).winner).toBe('requester');
+    expect(decideDispute(terms, { delivery: { ...delivery, success: false }, deliveryVerified: true, result }).winner).toBe('requester');
+    expect(decideDispute(terms, { delivery: { ...delivery, paramsHash: '00' }, deliveryVerified: true, result }).reason)
+      .toMatch(/different terms/);
+  });
+});
+
+describe('arbitrate', () => {
+  let server: TestServer;
+
+  beforeEach(async () => {
+    server = await startTestServer();
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await server.stop();
+  });
+
+  function arbitrate(params: Record<string, unknown>): Promise<unknown> {
+    return server.server.getCapabilityRegistry().get('arbitrate')!.handler(params, server.provider.identity.wallet);
+  }
+
+  test('refuses terms naming a private endpoint before fetching anything', async () => {
+    const fetchSpy = jest.spyOn(global, 'fetch');
+    const arbiterTerms = { ...terms, arbiter: server.provider.identity.key };
+    for (const providerEndpoint of ['http://169.254.169.254/latest/meta-data', 'http://127.0.0.1:8080', 'http://10.0.0.7']) {
+      await expect(arbitrate({ terms: { ...arbiterTerms, providerEndpoint }, fundingTransaction: '' }))
+        .rejects.toThrow(/providerEndpoint must be a valid public/);
+    }
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe('EscrowStore', () => {
+  let dir: string;
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'escrow-'));
+  });
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('persists records and walks the lifecycle', () => {
+    const store = new EscrowStore(dir);
+    store.create({ terms, role: 'requester', status: 'proposed', params });
+    store.transition(terms.escrowId, 'funded', 'funded', r => {
+      r.funding = { txid: 'aa', transaction: 'AA==' };
+    });
+    store.transition(terms.escrowId, 'delivered');
+    store.transition(terms.escrowId, 'disputed', 'bad result');
+
+    const reloaded = new EscrowStore(dir).get(terms.escrowId)!;
+    expect(reloaded.status).toBe('disputed');
+    expect(reloaded.funding?.txid).toBe('aa');
+    expect(reloaded.history.map(h => h.status)).toEqual(['proposed', 'funded', 'delivered', 'disputed']);
+    expect(new EscrowStore(dir).list({ status: 'disputed' })).toHaveLength(1);
+    expect(new EscrowStore(dir).list({ role: 'provider' })).toHaveLength(0);
+  });
+
+  test('rejects duplicate ids and illegal transitions', () => {
+    const store = new EscrowStore(dir);
+    store.create({ terms, role: 'provider', status: 'proposed' });
+    expect(() => store.create({ terms, role: 'provider', status: 'proposed' })).toThrow(/already exists/);
+    expect(() => store.transition(terms.escrowId, 'released')).toThrow(/cannot go from proposed to released/);
+    expect(() => store.transition('esc-missing', 'funded')).toThrow(/Unknown escrow/);
+  });
+});
+
+describe('POST /escrow/:id/fund', () => {
+  let server: TestServer;
+  let escrowTerms: EscrowTerms;
+  const work = jest.fn(async () => ({ done: true }));
+
+  /** A signed BEEF funding the escrow from a mined P2PKH output of the requester's. */
+  async function funding(): Promise<string> {
+    const source = new Transaction();
+    source.addOutput({ satoshis: 1000, lockingScript: new P2PKH().lock(keys.requester.toAddress()) });
+    source.merklePath = MerklePath.fromCoinbaseTxidAndHeight(source.id('hex'), 1);
+    const tx = new Transaction();
+    tx.addInput({ sourceTransaction: source, sourceOutputIndex: 0, unlockingScriptTemplate: new P2PKH().unlock(keys.requester) });
+    tx.addOutput({ satoshis: escrowTerms.satoshis, lockingScript: LockingScript.fromHex(buildEscrowLockingScript(escrowTerms)) });
+    tx.addOutput({ satoshis: FEE_SATS, lockingScript: LockingScript.fromHex(deriveFeeLockingScript(escrowTerms.derivationPrefix)) });
+    await tx.sign();
+    return Buffer.from(tx.toBEEF()).toString('base64');
+  }
+
+  async function post(path: string, body: unknown): Promise<{ status: number; body: any }> {
+    const res = await fetch(`${server.url}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    return { status: res.status, body: await res.json() };
+  }
+
+  beforeEach(async () => {
+    work.mockClear();
+    server = await startTestServer();
+    server.server.getCapabilityRegistry().register({ name: 'work', description: 'test', pricePerCall: 50, handler: work });
+    escrowTerms = {
+      ...terms,
+      escrowId: `esc-${randomBytes(16).toString('hex')}`,
+      provider: server.provider.identity.key,
+      capability: 'work',
+      paramsHash: hashParams({}),
+      satoshis: 100
+    };
+    expect((await post('/escrow/propose', { terms: escrowTerms, params: {} })).status).toBe(200);
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  test('runs the job once the wallet has taken the funding tx to the network', async () => {
+    const res = await post(`/escrow/${escrowTerms.escrowId}/fund`, { transaction: await funding() });
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ status: 'delivered', success: true, result: { done: true } });
+    expect(work).toHaveBeenCalledTimes(1);
+    expect(server.provider.internalizeAction).toHaveBeenCalledTimes(1);
+    expect(server.provider.internalizeAction.mock.calls[0][0].outputs).toEqual([{
+      outputIndex: 0,
+      protocol: 'basket insertion',
+      insertionRemittance: { basket: ESCROW_BASKET, tags: [escrowTerms.escrowId] }
+    }]);
+  });
+
+  test('an unbroadcast or rejected funding tx gets no result', async () => {
+    server.provider.internalizeAction.mockRejectedValueOnce(new Error('broadcast failed: double spend'));
+    const transaction = await funding();
+    const res = await post(`/escrow/${escrowTerms.escrowId}/fund`, { transaction });
+    expect(res.status).toBe(402);
+    expect(res.body.code).toBe('ERR_PAYMENT_INVALID');
+    expect(res.body.description).toMatch(/double spend/);
+    expect(res.body.result).toBeUndefined();
+    expect(work).not.toHaveBeenCalled();
+    const state: any = await (await fetch(`${server.url}/escrow/${escrowTerms.escrowId}`)).json();
+    expect(state.status).toBe('proposed');
+
+    // Once the network takes it, the same funding goes through
+    const retry = await post(`/escrow/${escrowTerms.escrowId}/fund`, { transaction });
+    expect(retry.status).toBe(200);
+    expect(work).toHaveBeenCalledTimes(1);
+  });
+
+  test('evidence is only shown to the arbiter, once per signed request', async () => {
+    expect((await post(`/escrow/${escrowTerms.escrowId}/fund`, { transaction: await funding() })).status).toBe(200);
+    const evidence = async (wallet?: ProtoWallet, overrides: Partial<EscrowEvidenceRequest> = {}) => {
+      const headers: Record<string, string> = {};
+      if (wallet) {
+        const request = await signEscrowStatement<EscrowEvidenceRequest>(wallet, {
+          type: 'clawsats-escrow-evidence-request',
+          escrowId: escrowTerms.escrowId,
+          arbiter: escrowTerms.arbiter,
+          nonce: randomBytes(16).toString('hex'),
+          requestedAt: new Date().toISOString(),
+          ...overrides
+        });
+        headers['x-clawsats-escrow-evidence'] = JSON.stringify(request);
+      }
+      const res = await fetch(`${server.url}/escrow/${escrowTerms.escrowId}/evidence`, { headers });
+      return { status: res.status, body: await res.json() as any, headers };
+    };
+
+    const anonymous = await evidence();
+    expect(anonymous.status).toBe(401);
+    expect(anonymous.body.result).toBeUndefined();
+    const requester = await evidence(wallets.requester);
+    expect(requester.status).toBe(403);
+    expect(requester.body.result).toBeUndefined();
+    expect((await evidence(wallets.requester, { arbiter: escrowTerms.requester })).status).toBe(403);
+    expect((await evidence(wallets.arbiter, { requestedAt: new Date(Date.now() - 60 * 60 * 1000).toISOString() })).status).toBe(401);
+
+    const arbiter = await evidence(wallets.arbiter);
+    expect(arbiter.status).toBe(200);
+    expect(arbiter.body).toMatchObject({ escrowId: escrowTerms.escrowId, result: { done: true }, delivery: { success: true } });
+    const replay = await fetch(`${server.url}/escrow/${escrowTerms.escrowId}/evidence`, { headers: arbiter.headers });
+    expect(replay.status).toBe(401);
+  });
+});
@@ -0,0 +1,130 @@
+import { KeyDeriver, PrivateKey, Transaction, LockingScript, UnlockingScript } from '@bsv/sdk';
+import { deriveFeeLockingScript, findFeeOutput, parsePaymentTransaction } from '../../src/protocol/fee';
+import { FEE_SATS } from '../../src/protocol/constants';
+
+const PREFIX = 'dGVzdC1wcmVmaXgtMTIzNA==';
+const PROVIDER_SCRIPT = '76a914' + '11'.repeat(20) + '88ac';
+const ATTACKER_SCRIPT = '76a914' + '22'.repeat(20) + '88ac';
+
+// ── Hand-crafted raw transaction helpers ────────────────────────────
+
+function varint(n: number): string {
+  if (n < 0xfd) return n.toString(16).padStart(2, '0');
+  const buf = Buffer.alloc(3);
+  buf[0] = 0xfd;
+  buf.writeUInt16LE(n, 1);
+  return buf.toString('hex');
+}
+
+function uint64le(n: number): string {
+  const buf = Buffer.alloc(8);
+  buf.writeBigUInt64LE(BigInt(n));
+  return buf.toString('hex');
+}
+
+/** version 1, one dummy input, the given outputs, locktime 0 */
+function rawTx(outputs: Array<{ satoshis: number; script: string }>): number[] {
+  let hex = '01000000';
+  hex += '01' + 'ab'.repeat(32) + '00000000' + '00' + 'ffffffff';
+  hex += varint(outputs.length);
+  for (const o of outputs) {
+    hex += uint64le(o.satoshis) + varint(o.script.length / 2) + o.script;
+  }
+  hex += '00000000';
+  return Array.from(Buffer.from(hex, 'hex'));
+}
+
+describe('deriveFeeLockingScript', () => {
+  test('is deterministic per prefix and differs across prefixes', () => {
+    const a = deriveFeeLockingScript(PREFIX);
+    expect(a).toMatch(/^76a914[0-9a-f]{40}88ac$/);
+    expect(deriveFeeLockingScript(PREFIX)).toBe(a);
+    expect(deriveFeeLockingScript('other-prefix')).not.toBe(a);
+  });
+
+  test('matches the key the treasury derives with counterparty anyone', () => {
+    const treasury = PrivateKey.fromRandom();
+    const expected = deriveFeeLockingScript(PREFIX, treasury.toPublicKey().toString());
+    const spendKey = new KeyDeriver(treasury)
+      .derivePrivateKey([2, '3241645161d8'], `${PREFIX} fee`, 'anyone');
+    expect(expected).toBe(`76a914${spendKey.toPublicKey().toHash('hex') as string}88ac`);
+  });
+
+  test('rejects an empty prefix', () => {
+    expect(() => deriveFeeLockingScript('')).toThrow();
+  });
+});
+
+describe('findFeeOutput (raw tx)', () => {
+  const feeScript = deriveFeeLockingScript(PREFIX);
+
+  test('finds the derived treasury output', () => {
+    const tx = rawTx([
+      { satoshis: 10, script: PROVIDER_SCRIPT },
+      { satoshis: FEE_SATS, script: feeScript }
+    ]);
+    const check = findFeeOutput(tx, PREFIX);
+    expect(check.found).toBe(true);
+    expect(check.outputIndex).toBe(1);
+    expect(check.satoshis).toBe(FEE_SATS);
+  });
+
+  test('rejects a fee routed to a non-treasury script', () => {
+    const tx = rawTx([
+      { satoshis: 10, script: PROVIDER_SCRIPT },
+      { satoshis: FEE_SATS, script: ATTACKER_SCRIPT }
+    ]);
+    const check = findFeeOutput(tx, PREFIX);
+    expect(check.found).toBe(false);
+    expect(check.reason).toMatch(/No output/);
+  });
+
+  test('rejects a treasury output below FEE_SATS', () => {
+    const tx = rawTx([
+      { satoshis: 10, script: PROVIDER_SCRIPT },
+      { satoshis: FEE_SATS - 1, script: feeScript }
+    ]);
+    const check = findFeeOutput(tx, PREFIX);
+    expect(check.found).toBe(false);
+    expect(check.reason).toMatch(/carries/);
+  });
+
+  test('ignores a matching script at output 0', () => {
+    const tx = rawTx([{ satoshis: 10, script: feeScript }]);
+    expect(findFeeOutput(tx, PREFIX).found).toBe(false);
+  });
+
+  test('rejects a fee derived for a different prefix', () => {
+    const tx = rawTx([
+      { satoshis: 10, script: PROVIDER_SCRIPT },
+      { satoshis: FEE_SATS, script: deriveFeeLockingScript('stale-prefix') }
+    ]);
+    expect(findFeeOutput(tx, PREFIX).found).toBe(false);
+  });
+
+  test('reports unparseable payloads', () => {
+    const check = findFeeOutput([0xde, 0xad, 0xbe, 0xef], PREFIX);
+    expect(check.found).toBe(false);
+    expect(check.reason).toMatch(/not valid/);
+  });
+});
+
+describe('findFeeOutput (AtomicBEEF)', () => {
+  test('parses the subject tx out of an AtomicBEEF envelope', () => {
+    const parent = Transaction.fromBinary(rawTx([{ satoshis: 1000, script: PROVIDER_SCRIPT }]));
+    const payment = new Transaction();
+    payment.addInput({
+      sourceTransaction: parent,
+      sourceOutputIndex: 0,
+      unlockingScript: new UnlockingScript()
+    });
+    payment.addOutput({ satoshis: 10, lockingScript: LockingScript.fromHex(PROVIDER_SCRIPT) });
+    payment.addOutput({ satoshis: FEE_SATS, lockingScript: LockingScript.fromHex(deriveFeeLockingScript(PREFIX)) });
+
+    const beef = payment.toAtomicBEEF(true);
+    expect(parsePaymentTransaction(beef).id('hex')).toBe(payment.id('hex'));
+    const check = findFeeOutput(beef, PREFIX);
+    expect(check.found).toBe(true);
+    expect(check.outputIndex).toBe(1);
+  });
+});
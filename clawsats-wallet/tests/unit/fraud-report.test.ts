@@ -0,0 +1,143 @@
+import { existsSync, rmSync } from 'fs';
+import { join } from 'path';
+import { PrivateKey, ProtoWallet } from '@bsv/sdk';
+import { checkFraudReport, signFraudReport } from '../../src/protocol/fraud';
+import { receiptResultHash, signReceipt } from '../../src/protocol/receipt';
+import { FraudReportStore } from '../../src/core/FraudReportStore';
+import { ReputationEngine } from '../../src/core/ReputationEngine';
+import { CallReceipt, FraudReport } from '../../src/types';
+import { startTestServer } from './test-server';
+
+const TEST_DIR = join(__dirname, '..', 'tmp-fraud-report-test');
+
+const providerKey = PrivateKey.fromRandom();
+const requesterKey = PrivateKey.fromRandom();
+const provider = new ProtoWallet(providerKey);
+const requester = new ProtoWallet(requesterKey);
+const PROVIDER = providerKey.toPublicKey().toString();
+const REQUESTER = requesterKey.toPublicKey().toString();
+const promised = { answer: 42 };
+
+let counter = 0;
+
+async function providerReceipt(): Promise<CallReceipt> {
+  const hash = receiptResultHash(promised);
+  return signReceipt(provider, {
+    receiptId: `receipt-${++counter}`,
+    capability: 'echo',
+    provider: PROVIDER,
+    requester: REQUESTER,
+    satoshisPaid: 10,
+    feeSats: 2,
+    resultHash: hash,
+    result: { success: true, hash },
+    timestamp: new Date().toISOString()
+  });
+}
+
+function report(evidence: Partial<FraudReport>): Promise<FraudReport> {
+  return signFraudReport(requester, {
+    reportId: `fraud-${++counter}`,
+    reporter: REQUESTER,
+    accused: PROVIDER,
+    kind: 'result_mismatch',
+    description: 'Returned something other than what it signed for',
+    timestamp: new Date().toISOString(),
+    ...evidence
+  });
+}
+
+function cleanup(): void {
+  if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+}
+
+describe('fraud reports', () => {
+  test('a result that does not hash to the signed receipt is consistent with result_mismatch', async () => {
+    const receipt = await providerReceipt();
+    await expect(checkFraudReport(await report({ receipt, result: { answer: 41 } }))).resolves.toBeNull();
+    await expect(checkFraudReport(await report({ receipt, result: promised }))).resolves.toMatch(/matches the receipt/);
+    await expect(checkFraudReport(await report({ receipt }))).resolves.toMatch(/needs the result/);
+  });
+
+  test('a receipt with a bad signature is consistent with invalid_signature, a good one is not', async () => {
+    const receipt = await providerReceipt();
+    const broken = { ...receipt, satoshisPaid: 999 };
+    await expect(checkFraudReport(await report({ kind: 'invalid_signature', receipt: broken }))).resolves.toBeNull();
+    await expect(checkFraudReport(await report({ kind: 'invalid_signature', receipt }))).resolves.toBe('Receipt signature verifies');
+  });
+
+  test('no_result needs the payment and no receipt', async () => {
+    const txid = 'ab'.repeat(32);
+    await expect(checkFraudReport(await report({ kind: 'no_result', paymentTxid: txid, satoshis: 12 }))).resolves.toBeNull();
+    await expect(checkFraudReport(await report({ kind: 'no_result', satoshis: 12 }))).resolves.toMatch(/paymentTxid/);
+  });
+
+  test('the reporter signature covers the evidence', async () => {
+    const signed = await report({ receipt: await providerReceipt(), result: { answer: 41 } });
+    await expect(checkFraudReport({ ...signed, description: 'edited' })).resolves.toBe('Reporter signature does not verify');
+    await expect(checkFraudReport({ ...signed, accused: REQUESTER })).resolves.toBe('A Claw cannot report itself');
+  });
+});
+
+describe('FraudReportStore', () => {
+  beforeEach(() => cleanup());
+  afterEach(() => cleanup());
+
+  test('confirmed reports cut the score and block the provider; dismissing takes them back', async () => {
+    const engine = new ReputationEngine(TEST_DIR);
+    const store = new FraudReportStore(TEST_DIR);
+    store.useReputation(engine);
+    for (let i = 0; i < 10; i++) engine.recordCall(PROVIDER, true, 100);
+    const before = engine.score(PROVIDER);
+
+    const first = await report({ receipt: await providerReceipt(), result: {} });
+    expect(store.add(first, 'confirmed')).not.toBeNull();
+    expect(store.add(first, 'confirmed')).toBeNull();
+    expect(engine.score(PROVIDER)).toBeLessThan(before);
+    expect(store.isBlocked(PROVIDER)).toBe(false);
+
+    // A peer's report waits for the operator before it counts
+    const gossiped = await report({ kind: 'no_result', paymentTxid: 'cd'.repeat(32), satoshis: 5 });
+    store.add(gossiped, 'open', 'push');
+    expect(store.confirmedAgainst(PROVIDER)).toBe(1);
+    store.resolve(gossiped.reportId, 'confirmed', 'Checked the tx');
+    expect(store.blocked().has(PROVIDER)).toBe(true);
+    expect(engine.getMetrics(PROVIDER)!.fraudReports).toBeCloseTo(2);
+
+    store.resolve(first.reportId, 'dismissed', 'Provider bug, refunded');
+    expect(store.isBlocked(PROVIDER)).toBe(false);
+    expect(engine.getMetrics(PROVIDER)!.fraudReports).toBeCloseTo(1);
+    expect(store.get(first.reportId)).toMatchObject({ status: 'dismissed', resolution: 'Provider bug, refunded' });
+    expect(() => store.resolve(first.reportId, 'dismissed')).toThrow('already dismissed');
+  });
+});
+
+describe('POST /reputation/fraud-reports', () => {
+  test('made-up evidence is only ever a claim to review', async () => {
+    const server = await startTestServer();
+    try {
+      const receipt = await providerReceipt();
+      // Any requester can claim a different result, or hand over a receipt nobody signed
+      const fabricated = [
+        await report({ receipt, result: { answer: 41 } }),
+        await report({ kind: 'invalid_signature', receipt: { ...receipt, receiptId: 'made-up', signature: 'AAAA' } }),
+        await report({ kind: 'invalid_signature', receipt: { ...receipt, receiptId: 'made-up-too', signature: 'AAAA' } })
+      ];
+      const res = await fetch(`${server.url}/reputation/fraud-reports`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reports: fabricated })
+      });
+      expect(res.status).toBe(200);
+      expect(await res.json()).toMatchObject({ accepted: 3, rejected: [] });
+
+      const store = new FraudReportStore(server.dataDir);
+      expect(store.list({ accused: PROVIDER }).map(r => r.status)).toEqual(['open', 'open', 'open']);
+      expect(store.confirmedAgainst(PROVIDER)).toBe(0);
+      expect(store.isBlocked(PROVIDER)).toBe(false);
+      expect(new ReputationEngine(server.dataDir).getMetrics(PROVIDER)?.fraudReports ?? 0).toBe(0);
+    } finally {
+      await server.stop();
+    }
+  });
+});
@@ -0,0 +1,105 @@
+import { checkPeerExchangePage, signPeerExchangePage } from '../../src/protocol/gossip';
+import { GossipDiscovery } from '../../src/core/GossipDiscovery';
+import { PeerExchangeEntry, PeerExchangePage } from '../../src/types';
+import { claw } from './helpers';
+
+const self = claw();
+const alice = claw();
+const bob = claw();
+
+function entries(count: number, prefix: string): PeerExchangeEntry[] {
+  return Array.from({ length: count }, (_, i) => ({
+    identityKey: `02${String(i).padStart(2, '0')}${prefix.repeat(62)}`,
+    endpoint: `https://${prefix}${i}.example`,
+    capabilities: ['echo'],
+    chain: 'main' as const,
+    lastSeen: new Date().toISOString(),
+    reputation: 60
+  }));
+}
+
+function page(publisher: ReturnType<typeof claw>, list: PeerExchangeEntry[], overrides: Partial<PeerExchangePage> = {}): Promise<PeerExchangePage> {
+  return signPeerExchangePage(publisher.wallet, {
+    publisher: publisher.key,
+    entries: list,
+    offset: 0,
+    total: list.length,
+    nextOffset: null,
+    timestamp: new Date().toISOString(),
+    ...overrides
+  });
+}
+
+describe('peer exchange pages', () => {
+  test('a signed page checks out; tampering, staleness and the wrong publisher do not', async () => {
+    const signed = await page(alice, entries(3, 'a'));
+    await expect(checkPeerExchangePage(signed, { expectedPublisher: alice.key })).resolves.toBeNull();
+    await expect(checkPeerExchangePage(signed, { expectedPublisher: bob.key })).resolves.toBe('Page is signed by a different Claw');
+
+    const injected = { ...signed, entries: [...signed.entries, ...entries(1, 'f')] };
+    await expect(checkPeerExchangePage(injected)).resolves.toBe('Publisher signature does not verify');
+
+    await expect(checkPeerExchangePage(signed, { now: Date.now() + 60 * 60 * 1000 })).resolves.toBe('Page is stale');
+  });
+
+  test('entries must be identity keys at http(s) endpoints', async () => {
+    const bad = await page(alice, [{ ...entries(1, 'a')[0], endpoint: 'file:///etc/passwd' }]);
+    await expect(checkPeerExchangePage(bad)).resolves.toMatch(/Entry 0: endpoint is not http/);
+  });
+});
+
+describe('GossipDiscovery', () => {
+  let pages: Map<string, PeerExchangePage>;
+  let fetchSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    pages = new Map();
+    fetchSpy = jest.spyOn(global, 'fetch').mockImplementation(async (input: any) => {
+      const url = new URL(String(input));
+      const body = pages.get(url.origin);
+      return new Response(JSON.stringify(body || {}), { status: body ? 200 : 404 });
+    });
+  });
+
+  afterEach(() => fetchSpy.mockRestore());
+
+  test('returns unknown endpoints and caps what one peer can hand us', async () => {
+    const offered = entries(15, 'a');
+    pages.set('https://alice.example', await page(alice, [
+      { ...offered[0], identityKey: self.key },    // ourselves
+      ...offered
+    ]));
+    pages.set('https://bob.example', await page(bob, entries(3, 'b')));
+
+    const gossip = new GossipDiscovery(self.key, { maxNewPerSource: 10 });
+    const known = new Set([offered[1].identityKey]);
+    const { candidates, sources } = await gossip.collect(
+      [{ endpoint: 'https://alice.example', identityKey: alice.key }, { endpoint: 'https://bob.example' }],
+      identityKey => known.has(identityKey)
+    );
+
+    expect(sources[0]).toMatchObject({ publisher: alice.key, pages: 1, offered: 16, accepted: 10 });
+    expect(sources[1]).toMatchObject({ publisher: bob.key, accepted: 3 });
+    expect(candidates).toHaveLength(13);
+    expect(candidates.map(c => c.identityKey)).not.toContain(self.key);
+    expect(candidates.map(c => c.identityKey)).not.toContain(offered[1].identityKey);
+  });
+
+  test('stops at the per-sweep cap and reports unusable sources', async () => {
+    pages.set('https://alice.example', await page(alice, entries(8, 'a')));
+    pages.set('https://bob.example', await page(alice, entries(8, 'b')));  // signed by someone else
+
+    const gossip = new GossipDiscovery(self.key, { maxNewPerSweep: 5 });
+    const { candidates, sources } = await gossip.collect(
+      [
+        { endpoint: 'https://bob.example', identityKey: bob.key },
+        { endpoint: 'https://nobody.example' },
+        { endpoint: 'https://alice.example' }
+      ],
+      () => false
+    );
+    expect(sources[0].error).toBe('Page is signed by a different Claw');
+    expect(sources[1].error).toMatch(/404/);
+    expect(candidates).toHaveLength(5);
+  });
+});
@@ -0,0 +1,104 @@
+import { createHash } from 'crypto';
+import { LockingScript, P2PKH, PrivateKey, ProtoWallet, Spend, Transaction, UnlockingScript } from '@bsv/sdk';
+import {
+  buildHashlockLockingScript,
+  deriveHashlockProviderKey,
+  hashlockCommitment,
+  hashlockPreimage,
+  hashlockUnlock,
+  readHashlockResult
+} from '../../src/protocol/hashlock';
+import { canonicalJson } from '../../src/utils';
+
+const providerKey = PrivateKey.fromRandom();
+const requesterKey = PrivateKey.fromRandom();
+const provider = new ProtoWallet(providerKey);
+const requester = new ProtoWallet(requesterKey);
+const PROVIDER = providerKey.toPublicKey().toString();
+const REQUESTER = requesterKey.toPublicKey().toString();
+const PREFIX = 'hl-prefix';
+const result = { payload: 'hello', hash: createHash('sha256').update('hello').digest('hex') };
+
+/** Requester funds output 0; provider spends it with `revealed` as the preimage. */
+async function claim(revealed: unknown): Promise<{ spend: Spend; claimTx: Transaction }> {
+  const commitment = hashlockCommitment(result);
+  const lockKey = await deriveHashlockProviderKey(requester, PROVIDER, PREFIX);
+  const lockingScript = LockingScript.fromHex(buildHashlockLockingScript(commitment, lockKey));
+
+  const fundingTx = new Transaction();
+  fundingTx.addOutput({ lockingScript, satoshis: 5 });
+  const claimTx = new Transaction();
+  claimTx.addInput({ sourceTransaction: fundingTx, sourceOutputIndex: 0, sequence: 0xffffffff });
+  claimTx.addOutput({ lockingScript: new P2PKH().lock(providerKey.toAddress()), satoshis: 4 });
+
+  const unlock = hashlockUnlock(provider, { derivationPrefix: PREFIX, requesterIdentityKey: REQUESTER }, hashlockPreimage(revealed));
+  const unlockingScript: UnlockingScript = await unlock.sign(claimTx, 0);
+  claimTx.inputs[0].unlockingScript = unlockingScript;
+  expect(unlockingScript.toBinary().length).toBeLessThanOrEqual(await unlock.estimateLength());
+
+  const spend = new Spend({
+    sourceTXID: fundingTx.id('hex'),
+    sourceOutputIndex: 0,
+    sourceSatoshis: 5,
+    lockingScript,
+    transactionVersion: claimTx.version,
+    otherInputs: [],
+    outputs: claimTx.outputs,
+    unlockingScript,
+    inputSequence: 0xffffffff,
+    inputIndex: 0,
+    lockTime: claimTx.lockTime
+  });
+  return { spend, claimTx };
+}
+
+function validates(spend: Spend): boolean {
+  try {
+    return spend.validate();
+  } catch {
+    return false;
+  }
+}
+
+describe('hashlock payments', () => {
+  test('the commitment is the receipt resultHash of the result', () => {
+    const receiptHash = createHash('sha256').update(canonicalJson(result)).digest('hex');
+    expect(hashlockCommitment(result)).toBe(receiptHash);
+    expect(hashlockCommitment({ hash: result.hash, payload: 'hello' })).toBe(receiptHash);
+  });
+
+  test('builds OP_SHA256 <h> OP_EQUALVERIFY <key> OP_CHECKSIG and rejects bad inputs', () => {
+    const commitment = hashlockCommitment(result);
+    const script = LockingScript.fromHex(buildHashlockLockingScript(commitment, PROVIDER));
+    expect(script.toASM()).toBe(`OP_SHA256 ${commitment} OP_EQUALVERIFY ${PROVIDER} OP_CHECKSIG`);
+    expect(() => buildHashlockLockingScript('abc', PROVIDER)).toThrow(/32-byte/);
+    expect(() => buildHashlockLockingScript(commitment, 'not-a-key')).toThrow(/compressed public key/);
+  });
+
+  test('the provider can claim only by revealing the committed result', async () => {
+    const honest = await claim(result);
+    expect(validates(honest.spend)).toBe(true);
+
+    const substituted = await claim({ ...result, hash: '00'.repeat(32) });
+    expect(validates(substituted.spend)).toBe(false);
+  });
+
+  test('the requester recovers the result from the claim transaction', async () => {
+    const { claimTx } = await claim(result);
+    const roundTripped = Transaction.fromBinary(claimTx.toBinary());
+    expect(readHashlockResult(roundTripped, hashlockCommitment(result))).toEqual(result);
+    expect(readHashlockResult(roundTripped, '11'.repeat(32))).toBeUndefined();
+  });
+
+  test('the lock key is the provider child key, not its identity key', async () => {
+    const lockKey = await deriveHashlockProviderKey(requester, PROVIDER, PREFIX);
+    const { publicKey } = await provider.getPublicKey({
+      protocolID: [2, '3241645161d8'],
+      keyID: `${PREFIX} clawsats`,
+      counterparty: REQUESTER,
+      forSelf: true
+    });
+    expect(lockKey).toBe(publicKey);
+    expect(lockKey).not.toBe(PROVIDER);
+  });
+});
@@ -0,0 +1,12 @@
+import { PrivateKey, ProtoWallet } from '@bsv/sdk';
+
+/** A Claw identity for tests: its public key and a wallet that signs as it. */
+export interface TestClaw {
+  key: string;
+  wallet: ProtoWallet;
+}
+
+export function claw(): TestClaw {
+  const priv = PrivateKey.fromRandom();
+  return { key: priv.toPublicKey().toString(), wallet: new ProtoWallet(priv) };
+}
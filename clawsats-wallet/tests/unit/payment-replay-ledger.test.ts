@@ -0,0 +1,89 @@
+import { existsSync, rmSync, writeFileSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { PaymentReplayLedger } from '../../src/core/PaymentReplayLedger';
+
+const TEST_DIR = join(__dirname, '..', 'tmp-payment-replay-test');
+const TXID_A = 'a'.repeat(64);
+const TXID_B = 'b'.repeat(64);
+
+function cleanup(): void {
+  if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+}
+
+describe('PaymentReplayLedger', () => {
+  beforeEach(() => cleanup());
+  afterEach(() => {
+    jest.restoreAllMocks();
+    cleanup();
+  });
+
+  test('records a spent output and detects reuse', () => {
+    const ledger = new PaymentReplayLedger(TEST_DIR);
+    expect(ledger.has(TXID_A, 0)).toBe(false);
+    ledger.record({ txid: TXID_A, outputIndex: 0, capability: 'echo', satoshis: 10 });
+
+    expect(ledger.has(TXID_A, 0)).toBe(true);
+    expect(ledger.find(TXID_A, 0)?.capability).toBe('echo');
+    // Keyed by txid AND output
+    expect(ledger.has(TXID_A, 1)).toBe(false);
+    expect(ledger.has(TXID_B, 0)).toBe(false);
+  });
+
+  test('survives a restart', () => {
+    new PaymentReplayLedger(TEST_DIR).record({ txid: TXID_A, outputIndex: 0, capability: 'echo' });
+    const reopened = new PaymentReplayLedger(TEST_DIR);
+    expect(reopened.has(TXID_A, 0)).toBe(true);
+    expect(reopened.size()).toBe(1);
+  });
+
+  test('hasPrefix finds payments by derivation prefix', () => {
+    const ledger = new PaymentReplayLedger(TEST_DIR);
+    ledger.record({ txid: TXID_A, outputIndex: 0, capability: 'echo', derivationPrefix: 'prefix-1' });
+    expect(ledger.hasPrefix('prefix-1')).toBe(true);
+    expect(ledger.hasPrefix('prefix-2')).toBe(false);
+  });
+
+  test('entries expire only after the window', () => {
+    const now = 1_700_000_000_000;
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+    const ledger = new PaymentReplayLedger(TEST_DIR, 60_000);
+    ledger.record({ txid: TXID_A, outputIndex: 0, capability: 'echo' });
+
+    clock.mockReturnValue(now + 59_999);
+    expect(ledger.has(TXID_A, 0)).toBe(true);
+
+    clock.mockReturnValue(now + 60_000);
+    expect(ledger.has(TXID_A, 0)).toBe(false);
+    expect(ledger.prune()).toBe(1);
+    expect(ledger.size()).toBe(0);
+  });
+
+  test('recording prunes expired entries from disk', () => {
+    const now = 1_700_000_000_000;
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+    const ledger = new PaymentReplayLedger(TEST_DIR, 1000);
+    ledger.record({ txid: TXID_A, outputIndex: 0, capability: 'echo' });
+
+    clock.mockReturnValue(now + 5000);
+    ledger.record({ txid: TXID_B, outputIndex: 0, capability: 'echo' });
+    const reopened = new PaymentReplayLedger(TEST_DIR, 1000);
+    expect(reopened.size()).toBe(1);
+    expect(reopened.has(TXID_B, 0)).toBe(true);
+  });
+
+  test('tolerates a corrupt ledger file', () => {
+    mkdirSync(TEST_DIR, { recursive: true });
+    writeFileSync(join(TEST_DIR, 'payment-replay.json'), '{not json', 'utf8');
+    const ledger = new PaymentReplayLedger(TEST_DIR);
+    expect(ledger.size()).toBe(0);
+    ledger.record({ txid: TXID_A, outputIndex: 0, capability: 'echo' });
+    expect(new PaymentReplayLedger(TEST_DIR).has(TXID_A, 0)).toBe(true);
+  });
+
+  test('rejects invalid windows and output indexes', () => {
+    expect(() => new PaymentReplayLedger(TEST_DIR, 0)).toThrow();
+    const ledger = new PaymentReplayLedger(TEST_DIR);
+    expect(() => ledger.record({ txid: TXID_A, outputIndex: -1, capability: 'echo' })).toThrow();
+    expect(() => ledger.record({ txid: '', outputIndex: 0, capability: 'echo' })).toThrow();
+  });
+});
@@ -0,0 +1,98 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PeerAccessList } from '../../src/core/PeerAccessList';
+import { checkBanList, signBanList } from '../../src/protocol/banlist';
+import { BanList, BanListEntry } from '../../src/types';
+import { claw, TestClaw } from './helpers';
+
+const trusted = claw();
+const stranger = claw();
+const spammer = claw().key;
+const friend = claw().key;
+
+function banList(signer: TestClaw, entries: BanListEntry[], timestamp = new Date().toISOString()): Promise<BanList> {
+  return signBanList(signer.wallet, { type: 'ban-list', publisher: signer.key, entries, timestamp });
+}
+
+describe('checkBanList', () => {
+  test('accepts a fresh list from its publisher, nothing else', async () => {
+    const list = await banList(trusted, [{ kind: 'identity', value: spammer, reason: 'spam' }]);
+    await expect(checkBanList(list, { expectedPublisher: trusted.key })).resolves.toBeNull();
+    await expect(checkBanList(list, { expectedPublisher: stranger.key })).resolves.toBe('List is signed by a different Claw');
+    await expect(checkBanList({ ...list, entries: [] })).resolves.toBe('Publisher signature does not verify');
+    await expect(checkBanList(list, { now: Date.now() + 60 * 60 * 1000 })).resolves.toBe('List is stale');
+    const malformed = await banList(trusted, [{ kind: 'endpoint', value: 'ftp://x.example' }]);
+    await expect(checkBanList(malformed)).resolves.toBe('Entry 0: value is not an http(s) endpoint');
+  });
+});
+
+describe('PeerAccessList', () => {
+  let dataDir: string;
+  let list: PeerAccessList;
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(join(tmpdir(), 'clawsats-access-'));
+    list = new PeerAccessList(dataDir);
+  });
+
+  afterEach(() => rmSync(dataDir, { recursive: true, force: true }));
+
+  test('blocks identity keys and endpoints, paths included, until they expire', () => {
+    list.set('block', 'identity', spammer, { reason: 'spam' });
+    list.set('block', 'endpoint', 'https://bad.example/', { expiresAt: new Date(Date.now() + 60_000).toISOString() });
+
+    expect(list.check({ identityKey: spammer })).toEqual({ allowed: false, source: 'local', reason: 'spam' });
+    expect(list.check({ endpoint: 'https://bad.example/claw' }).allowed).toBe(false);
+    expect(list.check({ endpoint: 'https://bad.example.org' }).allowed).toBe(true);
+    expect(list.check({ identityKey: friend, endpoint: 'https://bad.example' }).allowed).toBe(false);
+    expect(list.check({ endpoint: 'https://bad.example' }, undefined, Date.now() + 120_000).allowed).toBe(true);
+    expect(new PeerAccessList(dataDir).list().map(e => e.value)).toEqual(expect.arrayContaining([spammer, 'https://bad.example']));
+  });
+
+  test('a local allow overrides fraud blocks and subscribed bans, not a local block', () => {
+    const fraudBlocked = new Set([friend]);
+    expect(list.check({ identityKey: friend }, fraudBlocked)).toMatchObject({ allowed: false, source: 'fraud' });
+    list.set('allow', 'identity', friend);
+    expect(list.check({ identityKey: friend }, fraudBlocked)).toEqual({ allowed: true, source: 'local' });
+
+    // Blocking the same key replaces the allow
+    list.set('block', 'identity', friend);
+    expect(list.list().filter(e => e.value === friend).map(e => e.action)).toEqual(['block']);
+    expect(list.remove('identity', friend)).toBe(1);
+    expect(list.check({ identityKey: friend }).allowed).toBe(true);
+  });
+
+  test('follows the bans of a subscribed publisher, keeping them when a fetch fails', async () => {
+    const served: { list: BanList | null } = { list: await banList(trusted, [{ kind: 'identity', value: spammer, reason: 'spam' }]) };
+    const fetchSpy = jest.spyOn(global, 'fetch').mockImplementation(async () =>
+      served.list ? new Response(JSON.stringify(served.list), { status: 200 }) : new Response('down', { status: 503 }));
+    try {
+      list.subscribe(trusted.key, 'https://trusted.example');
+      expect(list.check({ identityKey: spammer }).allowed).toBe(true);
+
+      await expect(list.refreshSubscriptions()).resolves.toEqual([{ publisher: trusted.key, endpoint: 'https://trusted.example', entries: 1 }]);
+      expect(list.check({ identityKey: spammer })).toMatchObject({ allowed: false, source: trusted.key });
+      expect(list.check({ identityKey: spammer }).reason).toMatch(/spam$/);
+
+      // Someone else's list served at the endpoint is refused; the last good bans stay
+      served.list = await banList(stranger, []);
+      const [failed] = await list.refreshSubscriptions();
+      expect(failed.error).toBe('List is signed by a different Claw');
+      expect(list.check({ identityKey: spammer }).allowed).toBe(false);
+      expect(list.subscriptions()[0].lastError).toBe('List is signed by a different Claw');
+
+      list.set('allow', 'identity', spammer);
+      expect(list.check({ identityKey: spammer }).allowed).toBe(true);
+      expect(list.unsubscribe(trusted.key)).toBe(true);
+    } finally {
+      fetchSpy.mockRestore();
+    }
+  });
+
+  test('publishes only local blocks', () => {
+    list.set('block', 'identity', spammer, { reason: 'spam' });
+    list.set('allow', 'identity', friend);
+    expect(list.published()).toEqual([{ kind: 'identity', value: spammer, reason: 'spam' }]);
+  });
+});
@@ -0,0 +1,111 @@
+import {
+  describePricing,
+  estimatePrice,
+  meterCapability,
+  priceForUnits,
+  quoteCapability,
+  validatePricing
+} from '../../src/core/Pricing';
+import { CapabilityRegistry } from '../../src/core/CapabilityRegistry';
+import { createBsvMentorCapability } from '../../src/capabilities/BsvMentorCapability';
+import { CapabilityHandler, CapabilityPricing } from '../../src/types';
+import {
+  BROADCAST_PRICE_SATS,
+  BSV_MENTOR_PRICE_SATS,
+  FETCH_URL_PRICE_SATS
+} from '../../src/protocol/constants';
+
+const perKb: CapabilityPricing = { model: 'per_unit', unit: 'kb', baseSatoshis: 5, satoshisPerUnit: 0.2, maxUnits: 100 };
+const tiered: CapabilityPricing = {
+  model: 'tiered',
+  unit: 'token',
+  tiers: [{ upTo: 250, satoshis: 10 }, { upTo: 500, satoshis: 15 }, { upTo: 1250, satoshis: 25 }]
+};
+
+function metered(pricing: CapabilityPricing): CapabilityHandler {
+  return {
+    name: 'metered',
+    description: 'test',
+    pricePerCall: 15,
+    pricing,
+    quoteUnits: (params: { units?: number }) => params.units ?? 50,
+    measureUnits: (result: { used: number }) => result.used,
+    handler: async () => ({})
+  };
+}
+
+describe('Pricing', () => {
+  test('flat capabilities quote pricePerCall', () => {
+    const cap: CapabilityHandler = { name: 'echo', description: '', pricePerCall: 10, handler: async () => ({}) };
+    expect(describePricing(cap)).toEqual({ model: 'flat', satoshis: 10 });
+    expect(quoteCapability(cap, { anything: 1 })).toEqual({ satoshis: 10 });
+    expect(meterCapability(cap, { satoshis: 10 }, {}, {})).toBeNull();
+  });
+
+  test('per_unit adds the base and rounds the unit charge up', () => {
+    expect(priceForUnits(perKb, 0)).toBe(5);
+    expect(priceForUnits(perKb, 50)).toBe(15);
+    expect(priceForUnits(perKb, 51)).toBe(16);
+    expect(() => priceForUnits(perKb, 101)).toThrow(/above the 100-kb maximum/);
+  });
+
+  test('tiered picks the first tier that covers the units', () => {
+    expect(priceForUnits(tiered, 1)).toBe(10);
+    expect(priceForUnits(tiered, 250)).toBe(10);
+    expect(priceForUnits(tiered, 251)).toBe(15);
+    expect(priceForUnits(tiered, 1250)).toBe(25);
+    expect(() => priceForUnits(tiered, 1251)).toThrow(/maximum/);
+  });
+
+  test('validatePricing rejects malformed models', () => {
+    expect(() => validatePricing(perKb)).not.toThrow();
+    expect(() => validatePricing(tiered)).not.toThrow();
+    expect(() => validatePricing({ model: 'flat', satoshis: -1 })).toThrow(/Invalid flat price/);
+    expect(() => validatePricing({ ...perKb, maxUnits: 0 } as CapabilityPricing)).toThrow(/maxUnits/);
+    expect(() => validatePricing({
+      model: 'tiered', unit: 'token', tiers: [{ upTo: 500, satoshis: 15 }, { upTo: 250, satoshis: 10 }]
+    })).toThrow(/sorted/);
+    expect(() => new CapabilityRegistry().register(metered({ ...perKb, satoshisPerUnit: 0 } as CapabilityPricing)))
+      .toThrow(/satoshisPerUnit/);
+  });
+
+  test('quotes from params and meters the units consumed, never above the quote', () => {
+    const cap = metered(perKb);
+    const quote = quoteCapability(cap, { units: 80 });
+    expect(quote).toEqual({ satoshis: 21, unit: 'kb', units: 80 });
+
+    expect(meterCapability(cap, quote, { used: 10 }, {})).toEqual({ satoshis: 7, unit: 'kb', units: 10 });
+    expect(meterCapability(cap, quote, { used: 500 }, {})).toEqual({ satoshis: 21, unit: 'kb', units: 80 });
+    expect(() => quoteCapability(cap, { units: 1000 })).toThrow(/maximum/);
+  });
+
+  test('estimatePrice returns null for models that cannot serve the request', () => {
+    expect(estimatePrice(perKb, 20)).toBe(9);
+    expect(estimatePrice(perKb, 200)).toBeNull();
+    expect(estimatePrice({ model: 'bogus' } as unknown as CapabilityPricing, 1)).toBeNull();
+  });
+
+  test('built-in metered capabilities quote their old flat price at default params', () => {
+    const registry = new CapabilityRegistry();
+    registry.registerFetchUrl({}, 'id');
+    registry.registerBroadcastListing(() => []);
+    registry.register(createBsvMentorCapability({ identityKey: 'id' }));
+
+    expect(registry.quote('fetch_url', { url: 'https://example.com' })?.satoshis).toBe(FETCH_URL_PRICE_SATS);
+    expect(registry.quote('fetch_url', { url: 'https://example.com', maxBytes: 2000 })).toEqual({ satoshis: 6, unit: 'kb', units: 2 });
+    expect(registry.quote('broadcast_listing', { manifest: {} })?.satoshis).toBe(BROADCAST_PRICE_SATS);
+    expect(registry.quote('broadcast_listing', { manifest: {}, maxPeers: 3 })?.satoshis).toBe(15);
+    expect(registry.quote('bsv_mentor', { question: 'q' })?.satoshis).toBe(BSV_MENTOR_PRICE_SATS);
+    expect(registry.quote('bsv_mentor', { question: 'q', maxTokens: 200 })?.satoshis).toBe(10);
+  });
+
+  test('bsv_mentor truncates the answer to maxTokens and meters its length', async () => {
+    const cap = createBsvMentorCapability({ identityKey: 'id', mcpEndpoint: 'http://127.0.0.1:9' });
+    const params = { question: 'What is BRC-42?', topic: 'brc', maxTokens: 50 };
+    const quote = quoteCapability(cap, params);
+    const result = await cap.handler(params, null);
+
+    expect(result.answer.length).toBeLessThanOrEqual(200);
+    expect(meterCapability(cap, quote, result, params)).toEqual({ satoshis: 10, unit: 'token', units: 50 });
+  });
+});
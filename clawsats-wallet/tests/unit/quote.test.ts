@@ -0,0 +1,64 @@
+import { PrivateKey, ProtoWallet } from '@bsv/sdk';
+import { checkQuote, hashParams, signQuote, verifyQuoteSignature } from '../../src/protocol/quote';
+import { SignedQuote } from '../../src/types';
+
+const providerKey = PrivateKey.fromRandom();
+const provider = new ProtoWallet(providerKey);
+const PROVIDER = providerKey.toPublicKey().toString();
+const CALLER = '02' + 'a'.repeat(64);
+const params = { url: 'https://example.com', maxBytes: 2000 };
+
+function unsignedQuote(overrides: Partial<SignedQuote> = {}): SignedQuote {
+  return {
+    type: 'clawsats-quote',
+    version: '1.0',
+    quoteId: 'quote-1',
+    capability: 'fetch_url',
+    provider: PROVIDER,
+    requester: CALLER,
+    paramsHash: hashParams(params),
+    satoshis: 6,
+    feeSats: 2,
+    unit: 'kb',
+    units: 2,
+    derivationPrefix: 'prefix-1',
+    issuedAt: new Date().toISOString(),
+    expiresAt: new Date(Date.now() + 60_000).toISOString(),
+    ...overrides
+  };
+}
+
+describe('signed quotes', () => {
+  test('hashParams is independent of key order', () => {
+    expect(hashParams({ a: 1, b: 2 })).toBe(hashParams({ b: 2, a: 1 }));
+    expect(hashParams(undefined)).toBe(hashParams({}));
+  });
+
+  test('a quote signed by the provider verifies against its identity key', async () => {
+    const quote = await signQuote(provider, unsignedQuote());
+    expect(quote.signature).toBeTruthy();
+    await expect(verifyQuoteSignature(quote)).resolves.toBe(true);
+  });
+
+  test('tampering with the price or provider breaks the signature', async () => {
+    const quote = await signQuote(provider, unsignedQuote());
+    await expect(verifyQuoteSignature({ ...quote, satoshis: 1 })).resolves.toBe(false);
+    await expect(verifyQuoteSignature({ ...quote, provider: PrivateKey.fromRandom().toPublicKey().toString() })).resolves.toBe(false);
+    await expect(verifyQuoteSignature({ ...quote, signature: undefined })).resolves.toBe(false);
+  });
+
+  test('checkQuote accepts a matching call', () => {
+    expect(checkQuote(unsignedQuote(), { capability: 'fetch_url', params, provider: PROVIDER, requester: CALLER })).toBeNull();
+  });
+
+  test('checkQuote rejects expired, mismatched or malformed quotes', () => {
+    expect(checkQuote(unsignedQuote({ expiresAt: new Date(Date.now() - 1).toISOString() }), {}))
+      .toMatch(/expired/);
+    expect(checkQuote(unsignedQuote(), { capability: 'dns_resolve' })).toMatch(/not "dns_resolve"/);
+    expect(checkQuote(unsignedQuote(), { params: { ...params, maxBytes: 90000 } })).toMatch(/Params do not match/);
+    expect(checkQuote(unsignedQuote(), { requester: '03' + 'b'.repeat(64) })).toMatch(/different identity key/);
+    expect(checkQuote(unsignedQuote(), { provider: '03' + 'c'.repeat(64) })).toMatch(/different provider/);
+    expect(checkQuote(unsignedQuote({ satoshis: 0 }), {})).toMatch(/Invalid quoted price/);
+    expect(checkQuote({ type: 'other' } as unknown as SignedQuote, {})).toMatch(/Not a clawsats quote/);
+  });
+});
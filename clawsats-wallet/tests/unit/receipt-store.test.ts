@@ -0,0 +1,124 @@
+import { existsSync, rmSync, appendFileSync } from 'fs';
+import { join } from 'path';
+import { ReceiptStore } from '../../src/core/ReceiptStore';
+import { CallReceipt } from '../../src/types';
+
+const TEST_DIR = join(__dirname, '..', 'tmp-receipt-store-test');
+const ME = '02' + 'a'.repeat(64);
+const BOB = '03' + 'b'.repeat(64);
+const CAROL = '02' + 'c'.repeat(64);
+
+function cleanup(): void {
+  if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+}
+
+function receipt(overrides: Partial<CallReceipt> = {}): CallReceipt {
+  return {
+    receiptId: 'rcpt-1',
+    capability: 'echo',
+    provider: ME,
+    requester: BOB,
+    satoshisPaid: 10,
+    feeSats: 2,
+    resultHash: 'h1',
+    result: { success: true, hash: 'h1' },
+    timestamp: '2026-03-01T10:00:00.000Z',
+    signature: 'c2ln',
+    ...overrides
+  };
+}
+
+describe('ReceiptStore', () => {
+  beforeEach(() => cleanup());
+  afterEach(() => cleanup());
+
+  test('records issued and received receipts against the other party', () => {
+    const store = new ReceiptStore(TEST_DIR);
+    const issued = store.record({ role: 'issued', receipt: receipt(), txid: 't1' });
+    expect(issued).toMatchObject({ peer: BOB, satoshis: 10, success: true, txid: 't1', countersigned: false });
+    const received = store.record({
+      role: 'received',
+      receipt: receipt({ receiptId: 'rcpt-2', provider: CAROL, requester: ME, result: { success: false, hash: 'h1' } }),
+      reference: 'credit-1',
+      endpoint: 'https://carol.example'
+    });
+    expect(received).toMatchObject({ peer: CAROL, success: false, reference: 'credit-1', endpoint: 'https://carol.example' });
+    expect(store.get('rcpt-2')?.role).toBe('received');
+    expect(store.get('missing')).toBeNull();
+  });
+
+  test('a countersignature supersedes the stored copy but keeps payment details', () => {
+    const store = new ReceiptStore(TEST_DIR);
+    store.record({ role: 'issued', receipt: receipt(), txid: 't1' });
+    store.record({ role: 'issued', receipt: receipt({ requesterSignature: 'YWNr' }) });
+    const record = store.get('rcpt-1')!;
+    expect(record.countersigned).toBe(true);
+    expect(record.receipt.requesterSignature).toBe('YWNr');
+    expect(record.txid).toBe('t1');
+    expect(store.list()).toHaveLength(1);
+
+    // A later provider-only copy never drops the countersignature
+    store.record({ role: 'issued', receipt: receipt() });
+    expect(store.get('rcpt-1')!.countersigned).toBe(true);
+  });
+
+  test('links receipts to brain jobs and filters by job', () => {
+    const store = new ReceiptStore(TEST_DIR);
+    store.record({ role: 'received', receipt: receipt({ provider: BOB, requester: ME }) });
+    store.linkJob('rcpt-1', 'job-1');
+    expect(store.list({ jobId: 'job-1' }).map(r => r.receiptId)).toEqual(['rcpt-1']);
+    expect(() => store.linkJob('missing', 'job-1')).toThrow('Unknown receipt');
+  });
+
+  test('refuses to switch roles except on calls to ourselves', () => {
+    const store = new ReceiptStore(TEST_DIR);
+    store.record({ role: 'issued', receipt: receipt() });
+    expect(() => store.record({ role: 'received', receipt: receipt() })).toThrow('already recorded as issued');
+
+    store.record({ role: 'issued', receipt: receipt({ receiptId: 'rcpt-self', requester: ME }) });
+    const self = store.record({ role: 'received', receipt: receipt({ receiptId: 'rcpt-self', requester: ME }), jobId: 'job-2' });
+    expect(self).toMatchObject({ role: 'issued', jobId: 'job-2' });
+  });
+
+  test('filters by peer, capability, role and date', () => {
+    const store = new ReceiptStore(TEST_DIR);
+    store.record({ role: 'issued', receipt: receipt() });
+    store.record({ role: 'issued', receipt: receipt({ receiptId: 'rcpt-2', capability: 'dns_resolve', requester: CAROL, timestamp: '2026-03-02T10:00:00.000Z' }) });
+    store.record({ role: 'received', receipt: receipt({ receiptId: 'rcpt-3', provider: BOB, requester: ME, timestamp: '2026-03-03T10:00:00.000Z' }) });
+
+    expect(store.list({ peer: BOB }).map(r => r.receiptId)).toEqual(['rcpt-1', 'rcpt-3']);
+    expect(store.list({ capability: 'dns_resolve' }).map(r => r.receiptId)).toEqual(['rcpt-2']);
+    expect(store.list({ role: 'received' }).map(r => r.receiptId)).toEqual(['rcpt-3']);
+    expect(store.list({ since: '2026-03-02', until: '2026-03-03' }).map(r => r.receiptId)).toEqual(['rcpt-2']);
+  });
+
+  test('tracks which issued receipts still need anchoring', () => {
+    const store = new ReceiptStore(TEST_DIR);
+    store.record({ role: 'issued', receipt: receipt() });
+    store.record({ role: 'issued', receipt: receipt({ receiptId: 'rcpt-2' }) });
+    store.record({ role: 'issued', receipt: receipt({ receiptId: 'rcpt-unsigned', signature: '' }) });
+    store.record({ role: 'received', receipt: receipt({ receiptId: 'rcpt-3', provider: BOB, requester: ME }) });
+    expect(store.unanchored().map(r => r.receiptId)).toEqual(['rcpt-1', 'rcpt-2']);
+    expect(store.unanchored(1).map(r => r.receiptId)).toEqual(['rcpt-1']);
+
+    const anchor = { txid: 'a1', root: 'r1', leafIndex: 0, leafCount: 1, path: [], anchoredAt: '2026-03-01T11:00:00.000Z' };
+    expect(store.attachAnchors(new Map([['rcpt-1', anchor], ['missing', anchor]]))).toBe(1);
+    expect(store.unanchored().map(r => r.receiptId)).toEqual(['rcpt-2']);
+
+    // A countersignature arriving later keeps the proof
+    store.record({ role: 'issued', receipt: receipt({ requesterSignature: 'YWNr' }) });
+    expect(store.get('rcpt-1')!.anchor).toEqual(anchor);
+  });
+
+  test('skips torn lines and exports CSV', () => {
+    const store = new ReceiptStore(TEST_DIR);
+    store.record({ role: 'issued', receipt: receipt(), txid: 't1' });
+    appendFileSync(store.getStorePath(), '{"receiptId": "broken\n', 'utf8');
+    const records = store.list();
+    expect(records).toHaveLength(1);
+
+    const csv = ReceiptStore.toCsv(records).trim().split('\n');
+    expect(csv[0]).toBe('receiptId,recordedAt,role,capability,peer,satoshis,feeSats,success,txid,reference,endpoint,jobId,countersigned,resultHash,anchorTxid');
+    expect(csv[1]).toContain(`rcpt-1,${records[0].recordedAt},issued,echo,${BOB},10,2,true,t1,,,,false,h1`);
+  });
+});
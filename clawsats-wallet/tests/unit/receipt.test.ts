@@ -0,0 +1,80 @@
+import { PrivateKey, ProtoWallet } from '@bsv/sdk';
+import {
+  checkReceipt,
+  countersignReceipt,
+  receiptResultHash,
+  signReceipt,
+  verifyReceiptSignature,
+  verifyRequesterSignature
+} from '../../src/protocol/receipt';
+import { CallReceipt } from '../../src/types';
+
+const providerKey = PrivateKey.fromRandom();
+const requesterKey = PrivateKey.fromRandom();
+const provider = new ProtoWallet(providerKey);
+const requester = new ProtoWallet(requesterKey);
+const PROVIDER = providerKey.toPublicKey().toString();
+const REQUESTER = requesterKey.toPublicKey().toString();
+const result = { echo: 'hello', timestamp: 1 };
+
+function unsignedReceipt(overrides: Partial<CallReceipt> = {}): Omit<CallReceipt, 'signature' | 'requesterSignature'> {
+  const hash = receiptResultHash(result);
+  return {
+    receiptId: 'receipt-1',
+    capability: 'echo',
+    provider: PROVIDER,
+    requester: REQUESTER,
+    satoshisPaid: 10,
+    feeSats: 2,
+    resultHash: hash,
+    result: { success: true, hash },
+    timestamp: new Date().toISOString(),
+    ...overrides
+  };
+}
+
+describe('two-party receipts', () => {
+  test('anyone can verify the provider signature from the receipt alone', async () => {
+    const receipt = await signReceipt(provider, unsignedReceipt());
+    await expect(verifyReceiptSignature(receipt)).resolves.toBe(true);
+    await expect(verifyReceiptSignature({ ...receipt, satoshisPaid: 1 })).resolves.toBe(false);
+    await expect(verifyReceiptSignature({ ...receipt, provider: REQUESTER })).resolves.toBe(false);
+  });
+
+  test('the requester countersignature covers the provider-signed receipt', async () => {
+    const receipt = await countersignReceipt(requester, await signReceipt(provider, unsignedReceipt()));
+    await expect(verifyRequesterSignature(receipt)).resolves.toBe(true);
+    // Adding a countersignature leaves the provider signature intact
+    await expect(verifyReceiptSignature(receipt)).resolves.toBe(true);
+    await expect(verifyRequesterSignature({ ...receipt, signature: 'AAAA' })).resolves.toBe(false);
+    await expect(verifyRequesterSignature({ ...receipt, requester: PROVIDER })).resolves.toBe(false);
+  });
+
+  test('a countersignature by someone other than the named requester fails', async () => {
+    const receipt = await countersignReceipt(new ProtoWallet(PrivateKey.fromRandom()), await signReceipt(provider, unsignedReceipt()));
+    await expect(verifyRequesterSignature(receipt)).resolves.toBe(false);
+  });
+
+  test('checkReceipt accepts a matching call and reports a mismatched result', async () => {
+    const receipt = await signReceipt(provider, unsignedReceipt());
+    await expect(checkReceipt(receipt, { provider: PROVIDER, requester: REQUESTER, result })).resolves.toBeNull();
+    await expect(checkReceipt(receipt, { result: { echo: 'changed', timestamp: 1 } })).resolves.toMatch(/result hash/);
+    await expect(checkReceipt(receipt, { requester: PROVIDER })).resolves.toMatch(/different requester/);
+    await expect(checkReceipt(undefined, { result })).resolves.toMatch(/No receipt/);
+  });
+
+  test('checkReceipt matches batch outcomes against the receipt items', async () => {
+    const outcomes = [
+      { index: 0, success: true, result },
+      { index: 1, success: false, error: 'boom' }
+    ];
+    const items = [
+      { index: 0, capability: 'echo', satoshis: 10, success: true, resultHash: receiptResultHash(result) },
+      { index: 1, capability: 'dns_resolve', satoshis: 3, success: false, resultHash: receiptResultHash({ error: 'boom' }) }
+    ];
+    const hash = receiptResultHash(items);
+    const receipt = await signReceipt(provider, unsignedReceipt({ capability: 'batch', items, resultHash: hash, result: { success: false, hash } }));
+    await expect(checkReceipt(receipt, { results: outcomes })).resolves.toBeNull();
+    await expect(checkReceipt(receipt, { results: [{ index: 1, success: false, error: 'other' }] })).resolves.toMatch(/Batch item 1/);
+  });
+});
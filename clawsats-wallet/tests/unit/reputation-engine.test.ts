@@ -0,0 +1,111 @@
+import { existsSync, rmSync } from 'fs';
+import { join } from 'path';
+import { ReputationEngine } from '../../src/core/ReputationEngine';
+import { PeerRegistry } from '../../src/core/PeerRegistry';
+import { REPUTATION_HALF_LIFE_MS, REPUTATION_NEUTRAL_SCORE } from '../../src/protocol/constants';
+
+const TEST_DIR = join(__dirname, '..', 'tmp-reputation-test');
+const ALICE = '02' + 'a'.repeat(64);
+const BOB = '03' + 'b'.repeat(64);
+const T0 = Date.parse('2026-03-01T00:00:00.000Z');
+
+function cleanup(): void {
+  if (existsSync(TEST_DIR)) rmSync(TEST_DIR, { recursive: true });
+}
+
+function goodCalls(engine: ReputationEngine, key: string, count: number, now = T0): void {
+  for (let i = 0; i < count; i++) {
+    engine.recordCall(key, true, 200, now);
+    engine.recordReceipt(key, true, now);
+    engine.recordProbe(key, true, 150, now);
+  }
+}
+
+describe('ReputationEngine', () => {
+  beforeEach(() => cleanup());
+  afterEach(() => cleanup());
+
+  test('a peer never observed gets the neutral score with no confidence', () => {
+    const engine = new ReputationEngine(TEST_DIR);
+    const explained = engine.explain(ALICE, T0);
+    expect(explained.score).toBe(REPUTATION_NEUTRAL_SCORE);
+    expect(explained.confidence).toBe(0);
+    expect(explained.reasons[0]).toMatch(/Never observed/);
+    expect(engine.getMetrics(ALICE, T0)).toBeNull();
+  });
+
+  test('more evidence moves the score further from neutral', () => {
+    const engine = new ReputationEngine(TEST_DIR);
+    goodCalls(engine, ALICE, 2);
+    goodCalls(engine, BOB, 40);
+    const few = engine.getReputation(ALICE, T0);
+    const many = engine.getReputation(BOB, T0);
+    expect(few.score).toBeGreaterThan(REPUTATION_NEUTRAL_SCORE);
+    expect(many.score).toBeGreaterThan(few.score);
+    expect(many.confidence).toBeGreaterThan(few.confidence);
+    expect(many.metrics).toMatchObject({ successfulDeployments: 40, uptime: 100, validReceipts: 40 });
+    // Calls (200 ms) and probes (150 ms) share one moving average
+    expect(many.metrics.responseTime).toBeGreaterThan(150);
+    expect(many.metrics.responseTime).toBeLessThan(200);
+    expect(engine.list(T0).map(r => r.identityKey)).toEqual([BOB, ALICE]);
+  });
+
+  test('failed calls, bad receipts and missed probes score below neutral', () => {
+    const engine = new ReputationEngine(TEST_DIR);
+    for (let i = 0; i < 10; i++) {
+      engine.recordCall(ALICE, false, 5000, T0);
+      engine.recordReceipt(ALICE, false, T0);
+      engine.recordProbe(ALICE, false, undefined, T0);
+    }
+    const explained = engine.explain(ALICE, T0);
+    expect(explained.score).toBeLessThan(REPUTATION_NEUTRAL_SCORE / 2);
+    expect(explained.metrics.uptime).toBe(0);
+    expect(explained.reasons.join('\n')).toMatch(/10 of 10 recent receipts failed verification/);
+  });
+
+  test('observations decay with the half-life', () => {
+    const engine = new ReputationEngine(TEST_DIR);
+    goodCalls(engine, ALICE, 20);
+    const fresh = engine.score(ALICE, T0);
+    expect(engine.getMetrics(ALICE, T0 + REPUTATION_HALF_LIFE_MS)!.successfulCalls).toBeCloseTo(10);
+    const later = engine.score(ALICE, T0 + 4 * REPUTATION_HALF_LIFE_MS);
+    expect(later).toBeLessThan(fresh);
+    expect(later).toBeGreaterThan(REPUTATION_NEUTRAL_SCORE);
+
+    // A fresh failure after a quiet spell weighs more than an old success
+    engine.recordCall(ALICE, false, undefined, T0 + 10 * REPUTATION_HALF_LIFE_MS);
+    const calls = engine.explain(ALICE, T0 + 10 * REPUTATION_HALF_LIFE_MS).signals.find(s => s.name === 'calls')!;
+    expect(calls.value).toBeLessThan(0.5);
+  });
+
+  test('a fraud report halves the score and is explained', () => {
+    const engine = new ReputationEngine(TEST_DIR);
+    goodCalls(engine, ALICE, 10);
+    const before = engine.score(ALICE, T0);
+    engine.recordFraudReport(ALICE, T0);
+    const explained = engine.explain(ALICE, T0);
+    expect(explained.fraudPenalty).toBe(0.5);
+    expect(explained.score).toBeCloseTo(before / 2, 0);
+    expect(explained.reasons.join('\n')).toMatch(/fraud report/);
+  });
+
+  test('metrics persist across instances', () => {
+    goodCalls(new ReputationEngine(TEST_DIR), ALICE, 5);
+    const reloaded = new ReputationEngine(TEST_DIR);
+    expect(reloaded.getMetrics(ALICE, T0)).toMatchObject({ successfulCalls: 5, probesUp: 5, latencyMs: expect.any(Number) });
+    expect(() => reloaded.recordCall('', true)).toThrow('Missing identityKey');
+  });
+
+  test('PeerRegistry takes its scores from an attached engine', () => {
+    const engine = new ReputationEngine(TEST_DIR);
+    const registry = new PeerRegistry();
+    registry.addPeer({ clawId: 'claw://a', identityKey: ALICE, endpoint: 'https://a.example', capabilities: [], chain: 'main', lastSeen: new Date().toISOString(), reputation: 90 });
+    registry.useReputation(engine);
+    expect(registry.getPeer(ALICE)!.reputation).toBe(REPUTATION_NEUTRAL_SCORE);
+
+    registry.recordSuccess(ALICE, 100);
+    expect(engine.getMetrics(ALICE)!.successfulCalls).toBeCloseTo(1);
+    expect(registry.getPeer(ALICE)!.reputation).toBe(engine.score(ALICE));
+    expect(registry.getPeer(ALICE)!.reputation).toBeGreaterThan(REPUTATION_NEUTRAL_SCORE);
+  });
+});
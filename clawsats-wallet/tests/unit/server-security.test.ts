@@ -7,7 +7,7 @@
  * - Finding 9: NonceCache TTL enforcement
  */
 import { NonceCache } from '../../src/core/NonceCache';
-import { canonicalJson } from '../../src/utils';
+import { canonicalJson, isPublicHttpEndpoint } from '../../src/utils';
 
 // ── NonceCache TTL tests (Finding 9) ────────────────────────────────
 
@@ -94,23 +94,8 @@ describe('canonicalJson for signing/verification consistency', () => {
 // ── SSRF endpoint validation tests (Finding 8) ─────────────────────
 
 describe('SSRF endpoint validation logic', () => {
-  // We can't directly test the private method, but we can test the logic
-  function isValidPeerEndpoint(endpoint: string): boolean {
-    try {
-      const url = new URL(endpoint);
-      if (url.protocol !== 'http:' && url.protocol !== 'https:') return false;
-      const hostname = url.hostname.toLowerCase();
-      if (hostname === 'localhost' || hostname === '127.0.0.1' || hostname === '::1') return false;
-      if (hostname.startsWith('10.') || hostname.startsWith('192.168.')) return false;
-      if (/^172\.(1[6-9]|2[0-9]|3[01])\./.test(hostname)) return false;
-      if (hostname.startsWith('169.254.')) return false;
-      if (hostname === '169.254.169.254') return false;
-      if (hostname === '0.0.0.0') return false;
-      return true;
-    } catch {
-      return false;
-    }
-  }
+  // The server's private guard delegates to this
+  const isValidPeerEndpoint = isPublicHttpEndpoint;
 
   test('allows valid public HTTP endpoint', () => {
     expect(isValidPeerEndpoint('http://203.0.113.50:3321')).toBe(true);
@@ -0,0 +1,98 @@
+import { randomBytes } from 'crypto';
+import { mkdtempSync, rmSync } from 'fs';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { LockingScript, P2PKH, PrivateKey, Transaction, UnlockingScript } from '@bsv/sdk';
+import { WalletManager } from '../../src/core/WalletManager';
+import { deriveFeeLockingScript } from '../../src/protocol/fee';
+import { FEE_SATS } from '../../src/protocol/constants';
+import { JsonRpcServer } from '../../src/server/JsonRpcServer';
+import { ServeOptions, WalletConfig } from '../../src/types';
+import { claw } from './helpers';
+
+/**
+ * The provider's wallet for server tests: a ProtoWallet whose chain-facing
+ * calls (internalizeAction, createAction) are jest mocks.
+ */
+export class TestWalletManager extends WalletManager {
+  readonly identity = claw();
+  readonly internalizeAction = jest.fn(async (_args: any): Promise<any> => ({ accepted: true }));
+  readonly createAction = jest.fn(async (_args: any): Promise<any> => ({
+    txid: randomBytes(32).toString('hex'),
+    tx: Array.from(randomBytes(64))
+  }));
+
+  private testWallet = Object.assign(this.identity.wallet, {
+    internalizeAction: (args: any) => this.internalizeAction(args),
+    createAction: (args: any) => this.createAction(args)
+  });
+
+  getWallet(): any {
+    return this.testWallet;
+  }
+
+  getConfig(): WalletConfig {
+    return {
+      identityKey: this.identity.key,
+      chain: 'test',
+      storageType: 'memory',
+      endpoints: { jsonrpc: '', health: '', discovery: '' },
+      capabilities: [],
+      clawsats: { feeKeyId: 'clawsats-fee-v1', defaultFeeSuffix: 'fee' }
+    };
+  }
+}
+
+export interface TestServer {
+  server: JsonRpcServer;
+  provider: TestWalletManager;
+  url: string;
+  dataDir: string;
+  stop(): Promise<void>;
+}
+
+/** A JsonRpcServer on a free local port, keeping its data/ in a fresh temp dir. */
+export async function startTestServer(options: ServeOptions = {}): Promise<TestServer> {
+  const cwd = mkdtempSync(join(tmpdir(), 'clawsats-server-'));
+  const cwdSpy = jest.spyOn(process, 'cwd').mockReturnValue(cwd);
+  const provider = new TestWalletManager();
+  const server = new JsonRpcServer(provider, { receiptAnchorIntervalMs: 0, capabilityIndexRefreshMs: 0, banListRefreshMs: 0, ...options });
+  const http = await new Promise<Server>(resolve => {
+    const listening = server.getApp().listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  return {
+    server,
+    provider,
+    url: `http://127.0.0.1:${(http.address() as AddressInfo).port}`,
+    dataDir: join(cwd, 'data'),
+    stop: async () => {
+      await new Promise(resolve => http.close(resolve));
+      await server.stop();
+      cwdSpy.mockRestore();
+      rmSync(cwd, { recursive: true, force: true });
+    }
+  };
+}
+
+/**
+ * An x-bsv-payment header as a caller would build it: `satoshis` at output 0
+ * and the protocol fee for the challenge's derivation prefix.
+ */
+export function paymentHeader(derivationPrefix: string, satoshis: number): string {
+  const tx = new Transaction();
+  tx.addInput({
+    sourceTXID: randomBytes(32).toString('hex'),
+    sourceOutputIndex: 0,
+    unlockingScript: new UnlockingScript(),
+    sequence: 0xffffffff
+  });
+  tx.addOutput({ satoshis, lockingScript: new P2PKH().lock(PrivateKey.fromRandom().toAddress()) });
+  tx.addOutput({ satoshis: FEE_SATS, lockingScript: LockingScript.fromHex(deriveFeeLockingScript(derivationPrefix)) });
+  return JSON.stringify({
+    derivationPrefix,
+    derivationSuffix: 'clawsats',
+    transaction: Buffer.from(tx.toBinary()).toString('base64')
+  });
+}